@@ -9,11 +9,17 @@ interface AIAssistantToggleProps {
   chatMessages: any[];
   onSendMessage: (message: string) => void;
   isLoading: boolean;
+  streamingText?: string;
   activeUIBlock?: any;
   onTypeSelect?: (type: 'physical' | 'online', meetingId: string, location?: string) => void;
   onAttendeesUpdate?: (attendees: any[], meetingId: string) => void;
   onContinue?: (meetingId: string) => void;
-  onApprove?: (meetingId: string) => void;
+  onApprove?: (meetingId: string, calendarId?: string) => void;
+  onSlotSelect?: (startTime: string, endTime: string, meetingId: string) => void;
+  onKeepOriginalTime?: (meetingId: string) => void;
+  onRoomSelect?: (roomId: string | null, meetingId: string) => void;
+  onEditConfirm?: (eventId: string, changes: Record<string, any>) => void;
+  onEditCancel?: (eventId: string) => void;
 }
 
 export function AIAssistantToggle({
@@ -21,11 +27,17 @@ export function AIAssistantToggle({
   chatMessages,
   onSendMessage,
   isLoading,
+  streamingText,
   activeUIBlock,
   onTypeSelect,
   onAttendeesUpdate,
   onContinue,
-  onApprove
+  onApprove,
+  onSlotSelect,
+  onKeepOriginalTime,
+  onRoomSelect,
+  onEditConfirm,
+  onEditCancel
 }: AIAssistantToggleProps) {
   const [isOpen, setIsOpen] = useState(false);
 
@@ -122,11 +134,17 @@ export function AIAssistantToggle({
                   messages={chatMessages}
                   onSendMessage={onSendMessage}
                   isLoading={isLoading}
+                  streamingText={streamingText}
                   activeUIBlock={activeUIBlock}
                   onTypeSelect={onTypeSelect}
                   onAttendeesUpdate={onAttendeesUpdate}
                   onContinue={onContinue}
                   onApprove={onApprove}
+                  onSlotSelect={onSlotSelect}
+                  onKeepOriginalTime={onKeepOriginalTime}
+                  onRoomSelect={onRoomSelect}
+                  onEditConfirm={onEditConfirm}
+                  onEditCancel={onEditCancel}
                   compact={true}
                 />
               </div>
@@ -0,0 +1,114 @@
+import { useQuery } from '@tanstack/react-query';
+import { Gauge } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { apiRequest } from '@/lib/queryClient';
+
+type QuotaStatus = 'ok' | 'degraded' | 'exceeded';
+
+interface UsageSummary {
+  id: string;
+  email?: string;
+  team?: string;
+  requests: number;
+  tokens: number;
+  cost: number;
+  status: QuotaStatus;
+}
+
+interface QuotaLimits {
+  tokens?: number;
+  cost?: number;
+}
+
+interface AIUsageReport {
+  windowHours: number;
+  limits: { user: QuotaLimits; team: QuotaLimits };
+  users: UsageSummary[];
+  teams: UsageSummary[];
+}
+
+const statusLabels: Record<QuotaStatus, { label: string; variant: 'outline' | 'secondary' | 'destructive' }> = {
+  ok: { label: 'Within quota', variant: 'outline' },
+  degraded: { label: 'Cheaper models', variant: 'secondary' },
+  exceeded: { label: 'Over quota', variant: 'destructive' }
+};
+
+function formatLimits(limits: QuotaLimits): string {
+  const parts = [
+    limits.tokens !== undefined ? `${limits.tokens.toLocaleString()} tokens` : null,
+    limits.cost !== undefined ? `$${limits.cost.toFixed(2)}` : null
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' / ') : 'No limit';
+}
+
+function UsageRow({ summary, label }: { summary: UsageSummary; label: string }) {
+  const status = statusLabels[summary.status];
+  return (
+    <tr className="border-t" data-testid={`ai-usage-${summary.id}`}>
+      <td className="py-1.5 pr-2 truncate max-w-[16rem]">{label}</td>
+      <td className="py-1.5 px-2 text-right">{summary.requests}</td>
+      <td className="py-1.5 px-2 text-right">{summary.tokens.toLocaleString()}</td>
+      <td className="py-1.5 px-2 text-right">${summary.cost.toFixed(4)}</td>
+      <td className="py-1.5 pl-2 text-right">
+        <Badge variant={status.variant}>{status.label}</Badge>
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * AI consumption per user and per team within the quota window. Only admins
+ * can load it; everyone else gets a 403 and sees nothing.
+ */
+export function AIUsagePanel() {
+  const { data } = useQuery({
+    queryKey: ['adminAIUsage'],
+    queryFn: async (): Promise<AIUsageReport> => {
+      const response = await apiRequest('GET', '/api/admin/ai-usage');
+      return response.json();
+    },
+    retry: false
+  });
+
+  if (!data) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-2xl border bg-card/50 p-4 space-y-3" data-testid="ai-usage-panel">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Gauge className="h-4 w-4 text-primary" />
+          <span className="text-sm font-medium">AI usage in the last {data.windowHours} hours</span>
+        </div>
+        <span className="text-xs text-muted-foreground">
+          Per user: {formatLimits(data.limits.user)} · Per team: {formatLimits(data.limits.team)}
+        </span>
+      </div>
+
+      {data.users.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No AI requests yet.</p>
+      ) : (
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-muted-foreground">
+              <th className="pb-1 pr-2 text-left font-medium">User</th>
+              <th className="pb-1 px-2 text-right font-medium">Requests</th>
+              <th className="pb-1 px-2 text-right font-medium">Tokens</th>
+              <th className="pb-1 px-2 text-right font-medium">Est. cost</th>
+              <th className="pb-1 pl-2 text-right font-medium">Quota</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.users.map(user => (
+              <UsageRow key={user.id} summary={user} label={user.email || user.id} />
+            ))}
+            {data.teams.map(team => (
+              <UsageRow key={`team-${team.id}`} summary={team} label={`Team ${team.id}`} />
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
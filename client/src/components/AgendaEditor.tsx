@@ -25,6 +25,9 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { cn } from '@/lib/utils';
+import { AgendaStructureEditor } from './AgendaStructureEditor';
+import type { AgendaDocument } from '../../../shared/schema';
+import { renderAgendaMarkdown } from '../../../shared/agendaDocument';
 
 export interface RichTextTools {
   bold: boolean;
@@ -36,8 +39,11 @@ export interface RichTextTools {
 
 export interface AgendaEditorProps {
   initialContent: string;
+  // When provided, the Edit tab edits the structured agenda and the text content is rendered from it
+  initialDocument?: AgendaDocument;
   onContentChange: (content: string) => void;
-  onApprove?: (finalContent: string) => void;
+  onDocumentChange?: (document: AgendaDocument) => void;
+  onApprove?: (finalContent: string, document?: AgendaDocument) => void;
   onRegenerate?: () => void;
   onSendEmails?: (agenda: string, attendees: string[]) => void;
   editingTools?: Partial<RichTextTools>;
@@ -56,7 +62,9 @@ export interface AgendaEditorProps {
 
 export function AgendaEditor({
   initialContent,
+  initialDocument,
   onContentChange,
+  onDocumentChange,
   onApprove,
   onRegenerate,
   onSendEmails,
@@ -69,7 +77,8 @@ export function AgendaEditor({
   isSending = false,
   sendingStatus
 }: AgendaEditorProps) {
-  const [content, setContent] = useState(initialContent);
+  const [content, setContent] = useState(initialDocument ? renderAgendaMarkdown(initialDocument) : initialContent);
+  const [agendaDocument, setAgendaDocument] = useState<AgendaDocument | undefined>(initialDocument);
   const [activeTools, setActiveTools] = useState<RichTextTools>({
     bold: false,
     italic: false,
@@ -90,17 +99,25 @@ export function AgendaEditor({
 
   // Update content when initialContent changes
   useEffect(() => {
-    setContent(initialContent);
+    setContent(initialDocument ? renderAgendaMarkdown(initialDocument) : initialContent);
+    setAgendaDocument(initialDocument);
     setHasChanges(false);
-  }, [initialContent]);
+  }, [initialContent, initialDocument]);
+
+  // Structured edits re-render the markdown so validation and preview stay in sync
+  const handleDocumentChange = (updated: AgendaDocument) => {
+    setAgendaDocument(updated);
+    setContent(renderAgendaMarkdown(updated));
+    onDocumentChange?.(updated);
+  };
 
   // Validate content and notify parent of changes
   useEffect(() => {
     const validation = validateAgenda(content);
     setValidationResult(validation);
     onContentChange(content);
-    setHasChanges(content !== initialContent);
-  }, [content, initialContent, onContentChange]);
+    setHasChanges(initialDocument ? agendaDocument !== initialDocument : content !== initialContent);
+  }, [content, agendaDocument, initialContent, initialDocument, onContentChange]);
 
   // Validate agenda content
   const validateAgenda = (agenda: string): typeof validationResult => {
@@ -319,12 +336,16 @@ export function AgendaEditor({
 
   const handleSave = () => {
     if (onApprove && validationResult.isValid) {
-      onApprove(content);
+      onApprove(content, agendaDocument);
     }
   };
 
   const handleReset = () => {
-    setContent(initialContent);
+    if (initialDocument) {
+      handleDocumentChange(initialDocument);
+    } else {
+      setContent(initialContent);
+    }
     setHasChanges(false);
   };
 
@@ -429,131 +450,141 @@ export function AgendaEditor({
           </div>
 
           <TabsContent value="edit" className="space-y-4">
-            {/* Formatting Toolbar */}
-            <div className="flex flex-wrap items-center gap-2 p-2 bg-muted/50 rounded-lg border">
-              {/* Text Formatting */}
-              <div className="flex items-center gap-1">
-                <Button
-                  variant={activeTools.bold ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => applyFormatting('bold')}
-                  disabled={disabled}
-                  className="h-8 w-8 p-0"
-                >
-                  <Bold className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant={activeTools.italic ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => applyFormatting('italic')}
-                  disabled={disabled}
-                  className="h-8 w-8 p-0"
-                >
-                  <Italic className="h-4 w-4" />
-                </Button>
-              </div>
-
-              <div className="w-px h-6 bg-border" />
-
-              {/* Alignment */}
-              <div className="flex items-center gap-1">
-                <Button
-                  variant={activeTools.alignment === 'left' ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => applyAlignment('left')}
-                  disabled={disabled}
-                  className="h-8 w-8 p-0"
-                >
-                  <AlignLeft className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant={activeTools.alignment === 'center' ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => applyAlignment('center')}
-                  disabled={disabled}
-                  className="h-8 w-8 p-0"
-                >
-                  <AlignCenter className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant={activeTools.alignment === 'right' ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => applyAlignment('right')}
-                  disabled={disabled}
-                  className="h-8 w-8 p-0"
-                >
-                  <AlignRight className="h-4 w-4" />
-                </Button>
-              </div>
-
-              <div className="w-px h-6 bg-border" />
-
-              {/* Lists */}
-              <div className="flex items-center gap-1">
-                <Button
-                  variant={activeTools.bulletPoints ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => applyFormatting('bulletPoints')}
+            {agendaDocument ? (
+              <AgendaStructureEditor
+                document={agendaDocument}
+                onChange={handleDocumentChange}
+                disabled={disabled}
+              />
+            ) : (
+              <>
+                {/* Formatting Toolbar */}
+                <div className="flex flex-wrap items-center gap-2 p-2 bg-muted/50 rounded-lg border">
+                  {/* Text Formatting */}
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant={activeTools.bold ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => applyFormatting('bold')}
+                      disabled={disabled}
+                      className="h-8 w-8 p-0"
+                    >
+                      <Bold className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant={activeTools.italic ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => applyFormatting('italic')}
+                      disabled={disabled}
+                      className="h-8 w-8 p-0"
+                    >
+                      <Italic className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="w-px h-6 bg-border" />
+
+                  {/* Alignment */}
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant={activeTools.alignment === 'left' ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => applyAlignment('left')}
+                      disabled={disabled}
+                      className="h-8 w-8 p-0"
+                    >
+                      <AlignLeft className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant={activeTools.alignment === 'center' ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => applyAlignment('center')}
+                      disabled={disabled}
+                      className="h-8 w-8 p-0"
+                    >
+                      <AlignCenter className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant={activeTools.alignment === 'right' ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => applyAlignment('right')}
+                      disabled={disabled}
+                      className="h-8 w-8 p-0"
+                    >
+                      <AlignRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="w-px h-6 bg-border" />
+
+                  {/* Lists */}
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant={activeTools.bulletPoints ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => applyFormatting('bulletPoints')}
+                      disabled={disabled}
+                      className="h-8 w-8 p-0"
+                    >
+                      <List className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant={activeTools.numberedList ? "default" : "ghost"}
+                      size="sm"
+                      onClick={() => applyFormatting('numberedList')}
+                      disabled={disabled}
+                      className="h-8 w-8 p-0"
+                    >
+                      <ListOrdered className="h-4 w-4" />
+                    </Button>
+                  </div>
+
+                  <div className="w-px h-6 bg-border" />
+
+                  {/* Templates */}
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => insertTemplate('time-block')}
+                      disabled={disabled}
+                      className="text-xs px-2 h-8"
+                    >
+                      Time Block
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => insertTemplate('action-item')}
+                      disabled={disabled}
+                      className="text-xs px-2 h-8"
+                    >
+                      Action Items
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => insertTemplate('discussion')}
+                      disabled={disabled}
+                      className="text-xs px-2 h-8"
+                    >
+                      Discussion
+                    </Button>
+                  </div>
+                </div>
+
+                {/* Text Editor */}
+                <Textarea
+                  ref={textareaRef}
+                  value={content}
+                  onChange={(e) => setContent(e.target.value)}
+                  placeholder="Enter your meeting agenda here..."
                   disabled={disabled}
-                  className="h-8 w-8 p-0"
-                >
-                  <List className="h-4 w-4" />
-                </Button>
-                <Button
-                  variant={activeTools.numberedList ? "default" : "ghost"}
-                  size="sm"
-                  onClick={() => applyFormatting('numberedList')}
-                  disabled={disabled}
-                  className="h-8 w-8 p-0"
-                >
-                  <ListOrdered className="h-4 w-4" />
-                </Button>
-              </div>
-
-              <div className="w-px h-6 bg-border" />
-
-              {/* Templates */}
-              <div className="flex items-center gap-1">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => insertTemplate('time-block')}
-                  disabled={disabled}
-                  className="text-xs px-2 h-8"
-                >
-                  Time Block
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => insertTemplate('action-item')}
-                  disabled={disabled}
-                  className="text-xs px-2 h-8"
-                >
-                  Action Items
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => insertTemplate('discussion')}
-                  disabled={disabled}
-                  className="text-xs px-2 h-8"
-                >
-                  Discussion
-                </Button>
-              </div>
-            </div>
-
-            {/* Text Editor */}
-            <Textarea
-              ref={textareaRef}
-              value={content}
-              onChange={(e) => setContent(e.target.value)}
-              placeholder="Enter your meeting agenda here..."
-              disabled={disabled}
-              className="min-h-[400px] font-mono text-sm resize-none"
-              maxLength={maxLength}
-            />
+                  className="min-h-[400px] font-mono text-sm resize-none"
+                  maxLength={maxLength}
+                />
+              </>
+            )}
           </TabsContent>
 
           {showPreview && (
@@ -571,14 +602,16 @@ export function AgendaEditor({
         </Tabs>
 
         {/* Help Text */}
-        <div className="text-xs text-muted-foreground space-y-1 bg-muted/30 p-3 rounded-lg">
-          <p><strong>Formatting Tips:</strong></p>
-          <p>• Use **bold** and *italic* for emphasis</p>
-          <p>• Start lines with • for bullet points or 1. for numbered lists</p>
-          <p>• Use # for headers (# Main, ## Sub, ### Detail)</p>
-          <p>• Use - [ ] for checkboxes and - [x] for completed items</p>
-          <p>• Add time allocations like "(15 min)" for better planning</p>
-        </div>
+        {!agendaDocument && (
+          <div className="text-xs text-muted-foreground space-y-1 bg-muted/30 p-3 rounded-lg">
+            <p><strong>Formatting Tips:</strong></p>
+            <p>• Use **bold** and *italic* for emphasis</p>
+            <p>• Start lines with • for bullet points or 1. for numbered lists</p>
+            <p>• Use # for headers (# Main, ## Sub, ### Detail)</p>
+            <p>• Use - [ ] for checkboxes and - [x] for completed items</p>
+            <p>• Add time allocations like "(15 min)" for better planning</p>
+          </div>
+        )}
 
         {/* Action Buttons */}
         <div className="flex flex-wrap gap-3 pt-4 border-t">
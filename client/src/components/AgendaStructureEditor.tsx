@@ -0,0 +1,265 @@
+import React from 'react';
+import { ArrowDown, ArrowUp, Clock, Link2, ListChecks, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { AgendaActionItem, AgendaDocument, AgendaTopicItem } from '../../../shared/schema';
+import { createAgendaId, getAgendaTimeboxTotal } from '../../../shared/agendaDocument';
+
+export interface AgendaStructureEditorProps {
+  document: AgendaDocument;
+  onChange: (document: AgendaDocument) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+// Moves the item at index one step up or down, returning a new array
+function moveItem<T>(items: T[], index: number, direction: -1 | 1): T[] {
+  const target = index + direction;
+  if (target < 0 || target >= items.length) {
+    return items;
+  }
+  const next = [...items];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+export function AgendaStructureEditor({ document, onChange, disabled = false, className }: AgendaStructureEditorProps) {
+  const timeboxTotal = getAgendaTimeboxTotal(document);
+
+  const updateTopic = (index: number, changes: Partial<AgendaTopicItem>) => {
+    onChange({
+      ...document,
+      topics: document.topics.map((topic, i) => (i === index ? { ...topic, ...changes } : topic))
+    });
+  };
+
+  const addTopic = () => {
+    onChange({
+      ...document,
+      topics: [...document.topics, { id: createAgendaId('topic', document.topics), title: '', duration: 10, links: [] }]
+    });
+  };
+
+  const updateActionItem = (index: number, changes: Partial<AgendaActionItem>) => {
+    onChange({
+      ...document,
+      actionItems: document.actionItems.map((item, i) => (i === index ? { ...item, ...changes } : item))
+    });
+  };
+
+  const addActionItem = () => {
+    onChange({
+      ...document,
+      actionItems: [...document.actionItems, { id: createAgendaId('action', document.actionItems), task: '', priority: 'medium' }]
+    });
+  };
+
+  // Empty optional fields are removed so they don't render as blank lines
+  const optional = (value: string) => (value.trim() ? value : undefined);
+
+  return (
+    <div className={cn('space-y-6', className)}>
+      {/* Meeting details */}
+      <div className="grid gap-4 sm:grid-cols-[1fr_140px]">
+        <div className="space-y-1">
+          <Label htmlFor="agenda-title">Title</Label>
+          <Input
+            id="agenda-title"
+            value={document.title}
+            onChange={(e) => onChange({ ...document, title: e.target.value })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="agenda-duration">Duration (min)</Label>
+          <Input
+            id="agenda-duration"
+            type="number"
+            min={0}
+            value={document.duration}
+            onChange={(e) => onChange({ ...document, duration: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="agenda-purpose">Purpose</Label>
+          <Textarea
+            id="agenda-purpose"
+            value={document.purpose || ''}
+            onChange={(e) => onChange({ ...document, purpose: optional(e.target.value) })}
+            disabled={disabled}
+            className="min-h-[60px] resize-none"
+          />
+        </div>
+      </div>
+
+      {/* Topics */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-semibold flex items-center gap-2">
+            <Clock className="h-4 w-4 text-blue-500" />
+            Agenda Items
+          </h4>
+          <Badge variant={timeboxTotal > document.duration ? 'destructive' : 'secondary'}>
+            {timeboxTotal}/{document.duration} min
+          </Badge>
+        </div>
+
+        {document.topics.map((topic, index) => (
+          <Card key={topic.id}>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-muted-foreground w-6">{index + 1}.</span>
+                <Input
+                  aria-label={`Topic ${index + 1} title`}
+                  value={topic.title}
+                  placeholder="Topic"
+                  onChange={(e) => updateTopic(index, { title: e.target.value })}
+                  disabled={disabled}
+                />
+                <Input
+                  aria-label={`Topic ${index + 1} duration`}
+                  type="number"
+                  min={0}
+                  value={topic.duration}
+                  onChange={(e) => updateTopic(index, { duration: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  disabled={disabled}
+                  className="w-20"
+                />
+                <span className="text-xs text-muted-foreground">min</span>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => onChange({ ...document, topics: moveItem(document.topics, index, -1) })} disabled={disabled || index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => onChange({ ...document, topics: moveItem(document.topics, index, 1) })} disabled={disabled || index === document.topics.length - 1}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => onChange({ ...document, topics: document.topics.filter((_, i) => i !== index) })} disabled={disabled}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="pl-8 space-y-2">
+                <Input
+                  aria-label={`Topic ${index + 1} presenter`}
+                  value={topic.presenter || ''}
+                  placeholder="Presenter"
+                  onChange={(e) => updateTopic(index, { presenter: optional(e.target.value) })}
+                  disabled={disabled}
+                />
+                <Textarea
+                  aria-label={`Topic ${index + 1} description`}
+                  value={topic.description || ''}
+                  placeholder="Description"
+                  onChange={(e) => updateTopic(index, { description: optional(e.target.value) })}
+                  disabled={disabled}
+                  className="min-h-[60px] resize-none"
+                />
+
+                {topic.links.map((link, linkIndex) => (
+                  <div key={linkIndex} className="flex items-center gap-2">
+                    <Link2 className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <Input
+                      aria-label={`Topic ${index + 1} link ${linkIndex + 1} title`}
+                      value={link.title}
+                      placeholder="Document title"
+                      onChange={(e) => updateTopic(index, {
+                        links: topic.links.map((l, i) => (i === linkIndex ? { ...l, title: e.target.value } : l))
+                      })}
+                      disabled={disabled}
+                    />
+                    <Input
+                      aria-label={`Topic ${index + 1} link ${linkIndex + 1} URL`}
+                      value={link.url}
+                      placeholder="https://"
+                      onChange={(e) => updateTopic(index, {
+                        links: topic.links.map((l, i) => (i === linkIndex ? { ...l, url: e.target.value } : l))
+                      })}
+                      disabled={disabled}
+                    />
+                    <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => updateTopic(index, { links: topic.links.filter((_, i) => i !== linkIndex) })} disabled={disabled}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <Button variant="ghost" size="sm" className="text-xs h-7 px-2" onClick={() => updateTopic(index, { links: [...topic.links, { title: '', url: '' }] })} disabled={disabled}>
+                  <Link2 className="h-3 w-3 mr-1" />
+                  Link document
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        <Button variant="outline" size="sm" onClick={addTopic} disabled={disabled}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add topic
+        </Button>
+      </div>
+
+      {/* Action items */}
+      <div className="space-y-3">
+        <h4 className="text-sm font-semibold flex items-center gap-2">
+          <ListChecks className="h-4 w-4 text-blue-500" />
+          Action Items
+        </h4>
+
+        {document.actionItems.map((item, index) => (
+          <div key={item.id} className="flex flex-wrap items-center gap-2">
+            <Input
+              aria-label={`Action item ${index + 1} task`}
+              value={item.task}
+              placeholder="Task"
+              onChange={(e) => updateActionItem(index, { task: e.target.value })}
+              disabled={disabled}
+              className="flex-1 min-w-[200px]"
+            />
+            <Input
+              aria-label={`Action item ${index + 1} assignee`}
+              value={item.assignee || ''}
+              placeholder="Assignee"
+              onChange={(e) => updateActionItem(index, { assignee: optional(e.target.value) })}
+              disabled={disabled}
+              className="w-36"
+            />
+            <Input
+              aria-label={`Action item ${index + 1} deadline`}
+              value={item.deadline || ''}
+              placeholder="Due"
+              onChange={(e) => updateActionItem(index, { deadline: optional(e.target.value) })}
+              disabled={disabled}
+              className="w-28"
+            />
+            <Select
+              value={item.priority}
+              onValueChange={(value) => updateActionItem(index, { priority: value as AgendaActionItem['priority'] })}
+              disabled={disabled}
+            >
+              <SelectTrigger className="w-28" aria-label={`Action item ${index + 1} priority`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="high">High</SelectItem>
+                <SelectItem value="medium">Medium</SelectItem>
+                <SelectItem value="low">Low</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="sm" className="h-8 w-8 p-0" onClick={() => onChange({ ...document, actionItems: document.actionItems.filter((_, i) => i !== index) })} disabled={disabled}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <Button variant="outline" size="sm" onClick={addActionItem} disabled={disabled}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add action item
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,279 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { GitCompare, History, Loader2, RotateCcw, Save } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+import type { AgendaVersionRecord } from '../../../shared/schema';
+import type { AgendaDiffLine, AgendaSectionDiff } from '../../../shared/agendaDiff';
+
+type AgendaVersion = Omit<AgendaVersionRecord, 'createdAt'> & { createdAt: string | null };
+
+interface VersionComparison {
+  fromVersion: AgendaVersion;
+  toVersion: AgendaVersion;
+  lines: AgendaDiffLine[];
+  sections: AgendaSectionDiff[];
+  summary: {
+    additions: number;
+    deletions: number;
+    modifications: number;
+    overallChange: 'major' | 'minor' | 'patch';
+  };
+}
+
+interface AgendaVersionHistoryPanelProps {
+  agendaId: string;
+  title: string;
+  // What is in the editor now, saved by "Save version"
+  currentContent: string;
+  onRestore: (version: AgendaVersion) => void;
+  disabled?: boolean;
+}
+
+const changeTypeLabels: Record<AgendaVersion['changeType'], string> = {
+  created: 'Created',
+  edited: 'Edited',
+  auto_saved: 'Auto-saved',
+  enhanced: 'Enhanced',
+  restored: 'Restored'
+};
+
+const generationMethodLabels: Record<AgendaVersion['metadata']['generationMethod'], string> = {
+  ai: 'AI',
+  template: 'Template',
+  manual: 'Manual',
+  enhanced: 'AI enhanced'
+};
+
+const lineStyles: Record<AgendaDiffLine['type'], { old: string; new: string }> = {
+  unchanged: { old: '', new: '' },
+  added: { old: 'bg-muted/40', new: 'bg-green-50 text-green-900' },
+  removed: { old: 'bg-red-50 text-red-900', new: 'bg-muted/40' },
+  modified: { old: 'bg-red-50 text-red-900', new: 'bg-green-50 text-green-900' }
+};
+
+const sectionBadgeVariants: Record<AgendaSectionDiff['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  added: 'default',
+  removed: 'destructive',
+  modified: 'secondary',
+  unchanged: 'outline'
+};
+
+/**
+ * Saved versions of an agenda with who made them and how, a side-by-side diff
+ * between any two, and restoring an old one as a new version
+ */
+export function AgendaVersionHistoryPanel({ agendaId, title, currentContent, onRestore, disabled }: AgendaVersionHistoryPanelProps) {
+  const queryClient = useQueryClient();
+  const versionsKey = ['agendaVersions', agendaId];
+  const [compare, setCompare] = useState<{ from: number; to: number } | null>(null);
+
+  const { data, isLoading } = useQuery({
+    queryKey: versionsKey,
+    queryFn: async (): Promise<{ versions: AgendaVersion[] }> => {
+      const response = await apiRequest('GET', `/api/agenda/versions/${encodeURIComponent(agendaId)}?limit=50`);
+      return response.json();
+    }
+  });
+  const versions = data?.versions || [];
+
+  // Start out showing what changed in the latest version
+  useEffect(() => {
+    if (!compare && versions.length > 1) {
+      setCompare({ from: versions[1].version, to: versions[0].version });
+    }
+  }, [compare, versions]);
+
+  const { data: comparisonData, isFetching: isComparing } = useQuery({
+    queryKey: ['agendaVersionComparison', agendaId, compare?.from, compare?.to],
+    enabled: !!compare,
+    queryFn: async (): Promise<{ comparison: VersionComparison }> => {
+      const response = await apiRequest(
+        'GET',
+        `/api/agenda/versions/${encodeURIComponent(agendaId)}/compare?from=${compare!.from}&to=${compare!.to}`
+      );
+      return response.json();
+    }
+  });
+  const comparison = comparisonData?.comparison;
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', `/api/agenda/versions/${encodeURIComponent(agendaId)}`, {
+        content: currentContent,
+        title,
+        changeType: 'edited',
+        metadata: { generationMethod: 'manual' }
+      });
+      return response.json() as Promise<{ version: AgendaVersion }>;
+    },
+    onSuccess: () => {
+      setCompare(null);
+      queryClient.invalidateQueries({ queryKey: versionsKey });
+    }
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (version: number) => {
+      const response = await apiRequest('POST', `/api/agenda/versions/${encodeURIComponent(agendaId)}/${version}/restore`);
+      return response.json() as Promise<{ version: AgendaVersion }>;
+    },
+    onSuccess: (result) => {
+      onRestore(result.version);
+      setCompare(null);
+      queryClient.invalidateQueries({ queryKey: versionsKey });
+    }
+  });
+
+  const latestVersion = versions[0];
+  const isSaved = latestVersion?.content === currentContent;
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3" data-testid="agenda-version-history">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <History className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm font-medium">Version history</span>
+          <span className="text-xs text-muted-foreground">
+            {versions.length === 0 ? 'No saved versions yet' : `${versions.length} version${versions.length === 1 ? '' : 's'}`}
+          </span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={disabled || isSaved || !currentContent || saveMutation.isPending}
+          onClick={() => saveMutation.mutate()}
+        >
+          {saveMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Save className="h-4 w-4 mr-1" />}
+          {isSaved ? 'Saved' : 'Save version'}
+        </Button>
+      </div>
+
+      {versions.length > 0 && (
+        <ScrollArea className="max-h-64 rounded-lg border">
+          <div className="divide-y">
+            {versions.map((version, index) => {
+              const previous = versions[index + 1];
+              const isCompared = compare?.to === version.version;
+              return (
+                <div
+                  key={version.id}
+                  className={`p-3 space-y-1 ${isCompared ? 'bg-muted/40' : ''}`}
+                  data-testid={`agenda-version-${version.version}`}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2 min-w-0">
+                      <span className="text-sm font-semibold">v{version.version}</span>
+                      <Badge variant="outline">{changeTypeLabels[version.changeType]}</Badge>
+                      <Badge variant="secondary">{generationMethodLabels[version.metadata.generationMethod]}</Badge>
+                      {version.metadata.qualityScore !== undefined && (
+                        <Badge variant="outline" title="Agenda quality score">
+                          Quality {Math.round(version.metadata.qualityScore)}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1 shrink-0">
+                      {previous && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setCompare({ from: previous.version, to: version.version })}
+                          title={`Compare with v${previous.version}`}
+                        >
+                          <GitCompare className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {index > 0 && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={disabled || restoreMutation.isPending}
+                          onClick={() => restoreMutation.mutate(version.version)}
+                          title="Restore this version"
+                        >
+                          <RotateCcw className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {version.authorName}
+                    {version.createdAt && ` • ${format(new Date(version.createdAt), 'MMM d, h:mm a')}`}
+                    {` • ${version.metadata.wordCount} words`}
+                    {version.restoredFromVersion && ` • from v${version.restoredFromVersion}`}
+                  </p>
+                  {version.changeDescription && <p className="text-xs">{version.changeDescription}</p>}
+                </div>
+              );
+            })}
+          </div>
+        </ScrollArea>
+      )}
+
+      {compare && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">v{compare.from} → v{compare.to}</span>
+            {isComparing && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            {comparison && (
+              <>
+                <Badge variant="outline">{comparison.summary.overallChange}</Badge>
+                <span className="text-xs text-green-700">+{comparison.summary.additions}</span>
+                <span className="text-xs text-red-700">-{comparison.summary.deletions}</span>
+                <span className="text-xs text-muted-foreground">~{comparison.summary.modifications}</span>
+              </>
+            )}
+          </div>
+
+          {comparison && comparison.sections.some(section => section.status !== 'unchanged') && (
+            <div className="flex flex-wrap gap-1">
+              {comparison.sections
+                .filter(section => section.status !== 'unchanged')
+                .map((section, index) => (
+                  <Badge key={`${section.title}-${index}`} variant={sectionBadgeVariants[section.status]} className="font-normal">
+                    {section.title}: {section.status}
+                  </Badge>
+                ))}
+            </div>
+          )}
+
+          {comparison && (
+            <ScrollArea className="max-h-96 rounded-lg border">
+              <div className="grid grid-cols-2 text-xs font-mono">
+                <div className="px-2 py-1 border-b bg-muted/30 font-sans font-medium">v{comparison.fromVersion.version}</div>
+                <div className="px-2 py-1 border-b border-l bg-muted/30 font-sans font-medium">v{comparison.toVersion.version}</div>
+                {comparison.lines.map((line, index) => (
+                  <div key={index} className="contents">
+                    <div className={`flex gap-2 px-2 py-0.5 ${lineStyles[line.type].old}`}>
+                      <span className="w-6 shrink-0 text-right text-muted-foreground">{line.oldLineNumber ?? ''}</span>
+                      <span className="whitespace-pre-wrap break-words">{line.oldContent ?? ''}</span>
+                    </div>
+                    <div className={`flex gap-2 px-2 py-0.5 border-l ${lineStyles[line.type].new}`}>
+                      <span className="w-6 shrink-0 text-right text-muted-foreground">{line.newLineNumber ?? ''}</span>
+                      <span className="whitespace-pre-wrap break-words">{line.newContent ?? ''}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </div>
+      )}
+
+      {(saveMutation.error || restoreMutation.error) && (
+        <p className="text-sm text-destructive">{((saveMutation.error || restoreMutation.error) as Error).message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,161 @@
+import { useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { CalendarPlus, RefreshCw, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { apiRequest } from '@/lib/queryClient';
+import { formatDistanceToNow } from 'date-fns';
+import type { CalendarFeed } from '../../../shared/schema';
+
+type CalendarFeedSummary = Omit<CalendarFeed, 'content' | 'etag' | 'lastFetchedAt' | 'nextRefreshAt' | 'createdAt' | 'updatedAt'> & {
+  source: 'url' | 'upload';
+  lastFetchedAt: string | null;
+};
+
+/**
+ * Personal and client calendars published as ICS. Their events count as busy
+ * time when checking availability and suggesting meeting slots.
+ */
+export function CalendarFeedsPanel() {
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [url, setUrl] = useState('');
+
+  const { data } = useQuery({
+    queryKey: ['calendarFeeds'],
+    queryFn: async (): Promise<{ feeds: CalendarFeedSummary[] }> => {
+      const response = await apiRequest('GET', '/api/calendar/feeds');
+      return response.json();
+    }
+  });
+  const feeds = data?.feeds || [];
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['calendarFeeds'] });
+
+  const addMutation = useMutation({
+    mutationFn: async (feed: { name: string; url?: string; content?: string }) => {
+      const response = await apiRequest('POST', '/api/calendar/feeds', feed);
+      return response.json();
+    },
+    onSuccess: () => {
+      setUrl('');
+      invalidate();
+    }
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      const response = await apiRequest('PATCH', `/api/calendar/feeds/${encodeURIComponent(id)}`, { enabled });
+      return response.json();
+    },
+    onSuccess: invalidate
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('POST', `/api/calendar/feeds/${encodeURIComponent(id)}/refresh`);
+      return response.json();
+    },
+    onSuccess: invalidate
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest('DELETE', `/api/calendar/feeds/${encodeURIComponent(id)}`);
+      return response.json();
+    },
+    onSuccess: invalidate
+  });
+
+  const addUrl = () => {
+    const trimmed = url.trim();
+    if (!trimmed) return;
+    const name = trimmed.replace(/^(webcals?|https?):\/\//i, '').split(/[/?#]/)[0] || 'Calendar feed';
+    addMutation.mutate({ name, url: trimmed });
+  };
+
+  const uploadFile = async (file: File | undefined) => {
+    if (!file) return;
+    addMutation.mutate({ name: file.name.replace(/\.ics$/i, ''), content: await file.text() });
+    if (fileInput.current) fileInput.current.value = '';
+  };
+
+  const error = addMutation.error || refreshMutation.error || removeMutation.error || updateMutation.error;
+
+  return (
+    <div className="rounded-2xl border bg-card/50 p-4 space-y-3" data-testid="calendar-feeds">
+      <div className="flex items-center gap-2">
+        <CalendarPlus className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Other calendars</span>
+        <span className="text-xs text-muted-foreground">Events from these calendars count as busy time</span>
+      </div>
+
+      {feeds.map(feed => (
+        <div key={feed.id} className="flex items-center gap-3 rounded-lg border bg-background p-2" data-testid={`calendar-feed-${feed.id}`}>
+          <Switch
+            checked={feed.enabled}
+            disabled={updateMutation.isPending}
+            onCheckedChange={enabled => updateMutation.mutate({ id: feed.id, enabled })}
+            aria-label={`Include ${feed.name}`}
+          />
+          <div className="min-w-0 flex-1">
+            <p className="text-sm font-medium truncate">{feed.name}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {feed.eventCount} event{feed.eventCount === 1 ? '' : 's'}
+              {feed.source === 'url'
+                ? feed.lastFetchedAt ? ` · updated ${formatDistanceToNow(new Date(feed.lastFetchedAt))} ago` : ''
+                : ' · uploaded file'}
+            </p>
+            {feed.lastError && <p className="text-xs text-destructive truncate">{feed.lastError}</p>}
+          </div>
+          {feed.source === 'url' && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => refreshMutation.mutate(feed.id)}
+              disabled={refreshMutation.isPending}
+              title="Refresh now"
+            >
+              <RefreshCw className={`h-4 w-4 ${refreshMutation.isPending && refreshMutation.variables === feed.id ? 'animate-spin' : ''}`} />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => removeMutation.mutate(feed.id)}
+            disabled={removeMutation.isPending}
+            title="Remove calendar"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Input
+          value={url}
+          onChange={event => setUrl(event.target.value)}
+          onKeyDown={event => event.key === 'Enter' && addUrl()}
+          placeholder="https://… or webcal://… calendar feed"
+          className="flex-1"
+        />
+        <Button size="sm" onClick={addUrl} disabled={!url.trim() || addMutation.isPending}>
+          Subscribe
+        </Button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".ics,text/calendar"
+          className="hidden"
+          onChange={event => uploadFile(event.target.files?.[0])}
+        />
+        <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={addMutation.isPending} title="Upload an .ics file">
+          <Upload className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{(error as Error).message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { Layers } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useCalendars } from '@/hooks/useCalendars';
+
+const MEETING_TYPES = [
+  { type: 'online' as const, label: 'Online meetings' },
+  { type: 'physical' as const, label: 'In-person meetings' }
+];
+
+/**
+ * Choose which Google calendars count as busy time and which calendar new
+ * meetings of each type are created in (e.g. a shared team calendar)
+ */
+export function CalendarSelectionPanel() {
+  const { calendars, preferences, updatePreferences } = useCalendars();
+
+  if (!preferences || calendars.length === 0) {
+    return null;
+  }
+
+  const busy = new Set(preferences.busyCalendarIds);
+  const writable = calendars.filter(calendar => calendar.writable);
+
+  const toggleBusy = (calendarId: string, checked: boolean) => {
+    const busyCalendarIds = checked
+      ? [...preferences.busyCalendarIds, calendarId]
+      : preferences.busyCalendarIds.filter(id => id !== calendarId);
+    if (busyCalendarIds.length > 0) {
+      updatePreferences.mutate({ busyCalendarIds });
+    }
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3" data-testid="calendar-selection">
+      <div className="flex items-center gap-2">
+        <Layers className="h-4 w-4 text-muted-foreground" />
+        <span className="text-sm font-medium">Calendars</span>
+      </div>
+
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">Count as busy time</p>
+        {calendars.map(calendar => (
+          <label key={calendar.id} className="flex items-center gap-2 text-sm cursor-pointer">
+            <Checkbox
+              checked={busy.has(calendar.id)}
+              disabled={updatePreferences.isPending || (busy.size === 1 && busy.has(calendar.id))}
+              onCheckedChange={checked => toggleBusy(calendar.id, checked === true)}
+              data-testid={`checkbox-busy-calendar-${calendar.id}`}
+            />
+            <span className="h-2 w-2 rounded-full flex-shrink-0" style={{ backgroundColor: calendar.backgroundColor }} />
+            <span className="truncate">{calendar.summary}</span>
+          </label>
+        ))}
+      </div>
+
+      {writable.length > 1 && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">Create new meetings in</p>
+          {MEETING_TYPES.map(({ type, label }) => (
+            <div key={type} className="flex items-center justify-between gap-2">
+              <span className="text-sm">{label}</span>
+              <Select
+                value={preferences.meetingTypeCalendars[type] || 'primary'}
+                onValueChange={calendarId => updatePreferences.mutate({
+                  meetingTypeCalendars: { ...preferences.meetingTypeCalendars, [type]: calendarId }
+                })}
+              >
+                <SelectTrigger className="h-8 w-40 text-xs" data-testid={`select-meeting-calendar-${type}`}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {writable.map(calendar => (
+                    <SelectItem key={calendar.id} value={calendar.id}>{calendar.summary}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {updatePreferences.error && (
+        <p className="text-xs text-destructive">{(updatePreferences.error as Error).message}</p>
+      )}
+    </div>
+  );
+}
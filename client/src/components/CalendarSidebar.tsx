@@ -19,6 +19,8 @@ import {
 } from "@/components/ui/alert-dialog";
 import { format, isToday, isTomorrow } from "date-fns";
 import { useState, useEffect } from "react";
+import { CalendarSelectionPanel } from "@/components/CalendarSelectionPanel";
+import { useCalendars } from "@/hooks/useCalendars";
 
 interface CalendarEvent {
   id: string;
@@ -29,6 +31,7 @@ interface CalendarEvent {
   meetingLink?: string;
   attendees: string[];
   description?: string;
+  calendarId?: string;
 }
 
 interface CalendarSidebarProps {
@@ -40,6 +43,11 @@ interface CalendarSidebarProps {
 export function CalendarSidebar({ events, onDeleteEvent, onEventClick }: CalendarSidebarProps) {
   const [openEvent, setOpenEvent] = useState<string | null>(null);
   const [deleteEventId, setDeleteEventId] = useState<string | null>(null);
+  const { calendars } = useCalendars();
+
+  // Colour dot for events that are not on the primary calendar
+  const getCalendar = (calendarId?: string) =>
+    calendarId && calendarId !== 'primary' ? calendars.find(calendar => calendar.id === calendarId) : undefined;
 
   // Allow only one event to be expanded at a time
   const toggleEvent = (eventId: string) => {
@@ -88,6 +96,8 @@ export function CalendarSidebar({ events, onDeleteEvent, onEventClick }: Calenda
             Upcoming Events
           </h2>
         </div>
+
+        <CalendarSelectionPanel />
         
         <div className="flex-1 overflow-y-auto pr-2">
           <div className="space-y-4">
@@ -123,6 +133,15 @@ export function CalendarSidebar({ events, onDeleteEvent, onEventClick }: Calenda
                                 {format(new Date(event.startTime), "h:mm a")} - {format(new Date(event.endTime), "h:mm a")}
                               </span>
                             </div>
+                            {getCalendar(event.calendarId) && (
+                              <div className="flex items-center gap-1 mt-1" data-testid={`event-calendar-${event.id}`}>
+                                <span
+                                  className="h-2 w-2 rounded-full"
+                                  style={{ backgroundColor: getCalendar(event.calendarId)!.backgroundColor }}
+                                />
+                                <span className="text-xs text-muted-foreground truncate">{getCalendar(event.calendarId)!.summary}</span>
+                              </div>
+                            )}
                             {event.attendees.length > 0 && (
                               <Badge variant="secondary" className="mt-2 text-xs">
                                 {event.attendees.length} attendee{event.attendees.length > 1 ? 's' : ''}
@@ -0,0 +1,135 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { apiRequest } from '@/lib/queryClient';
+import { format } from 'date-fns';
+import type { CalendarEventSnapshot, CalendarFieldValue, CalendarSyncConflict, CalendarSyncField } from '../../../shared/schema';
+
+type CalendarConflict = Omit<CalendarSyncConflict, 'detectedAt' | 'resolvedAt'> & {
+  meetingTitle: string;
+  detectedAt: string | null;
+  resolvedAt: string | null;
+};
+
+const fieldLabels: Record<CalendarSyncField, string> = {
+  title: 'Title',
+  description: 'Description',
+  time: 'Time',
+  attendees: 'Attendees'
+};
+
+function formatValue(field: CalendarSyncField, value: CalendarFieldValue | null): string {
+  if (value == null) return 'None';
+  if (field === 'time') {
+    const time = value as CalendarEventSnapshot['time'];
+    return `${format(new Date(time.startTime), 'MMM d, h:mm a')} – ${format(new Date(time.endTime), 'h:mm a')}`;
+  }
+  if (field === 'attendees') {
+    const attendees = value as string[];
+    return attendees.length > 0 ? attendees.join(', ') : 'No attendees';
+  }
+  return (value as string) || 'Empty';
+}
+
+/**
+ * Meetings changed both here and in Google Calendar since the last sync. Each
+ * conflicting field is shown side by side for the organizer to pick one.
+ */
+export function CalendarSyncConflictsPanel() {
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery({
+    queryKey: ['calendarSyncConflicts'],
+    queryFn: async (): Promise<{ conflicts: CalendarConflict[] }> => {
+      const response = await apiRequest('GET', '/api/calendar/conflicts');
+      return response.json();
+    }
+  });
+  const conflicts = data?.conflicts || [];
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/calendar/sync-now');
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['calendarSyncConflicts'] })
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, resolution }: { id: string; resolution: 'keep_local' | 'accept_remote' }) => {
+      const response = await apiRequest('POST', `/api/calendar/conflicts/${encodeURIComponent(id)}/resolve`, { resolution });
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['calendarSyncConflicts'] })
+  });
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-2xl border border-amber-200 bg-amber-50/60 p-4 space-y-3" data-testid="calendar-sync-conflicts">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          <span className="text-sm font-medium">
+            {conflicts.length} calendar change{conflicts.length === 1 ? '' : 's'} need{conflicts.length === 1 ? 's' : ''} review
+          </span>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => syncMutation.mutate()}
+          disabled={syncMutation.isPending}
+          title="Check Google Calendar for changes"
+        >
+          <RefreshCw className={`h-4 w-4 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {conflicts.map(conflict => (
+        <div key={conflict.id} className="rounded-lg border bg-background p-3 space-y-2" data-testid={`calendar-conflict-${conflict.id}`}>
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-semibold">{conflict.meetingTitle}</span>
+            <Badge variant="outline">{fieldLabels[conflict.field]}</Badge>
+            {conflict.detectedAt && (
+              <span className="text-xs text-muted-foreground">{format(new Date(conflict.detectedAt), 'MMM d, h:mm a')}</span>
+            )}
+          </div>
+          <div className="grid grid-cols-2 gap-2 text-xs">
+            <div className="rounded bg-muted/40 p-2">
+              <p className="font-medium mb-1">Here</p>
+              <p className="whitespace-pre-wrap break-words">{formatValue(conflict.field, conflict.localValue)}</p>
+            </div>
+            <div className="rounded bg-muted/40 p-2">
+              <p className="font-medium mb-1">Google Calendar</p>
+              <p className="whitespace-pre-wrap break-words">{formatValue(conflict.field, conflict.remoteValue)}</p>
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={resolveMutation.isPending}
+              onClick={() => resolveMutation.mutate({ id: conflict.id, resolution: 'keep_local' })}
+            >
+              Keep mine
+            </Button>
+            <Button
+              size="sm"
+              disabled={resolveMutation.isPending}
+              onClick={() => resolveMutation.mutate({ id: conflict.id, resolution: 'accept_remote' })}
+            >
+              Use Google's
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      {resolveMutation.error && (
+        <p className="text-sm text-destructive">{(resolveMutation.error as Error).message}</p>
+      )}
+    </div>
+  );
+}
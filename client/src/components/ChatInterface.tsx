@@ -36,11 +36,16 @@ interface ChatInterfaceProps {
   onTypeSelect?: (type: 'physical' | 'online', meetingId: string, location?: string) => void;
   onAttendeesUpdate?: (attendees: AttendeeData[], meetingId: string) => void;
   onContinue?: (meetingId: string) => void;
-  onApprove?: (meetingId: string) => void;
+  onApprove?: (meetingId: string, calendarId?: string) => void;
   onEdit?: (field: string, meetingId: string) => void;
   onAgendaUpdate?: (agenda: string, meetingId: string) => void;
   onAgendaApprove?: (agenda: string, meetingId: string) => void;
   onAgendaRegenerate?: (meetingId: string) => void;
+  onSlotSelect?: (startTime: string, endTime: string, meetingId: string) => void;
+  onKeepOriginalTime?: (meetingId: string) => void;
+  onRoomSelect?: (roomId: string | null, meetingId: string) => void;
+  onEditConfirm?: (eventId: string, changes: Record<string, any>) => void;
+  onEditCancel?: (eventId: string) => void;
 }
 
 const quickActions = [
@@ -76,7 +81,12 @@ export function ChatInterface({
   onEdit,
   onAgendaUpdate,
   onAgendaApprove,
-  onAgendaRegenerate
+  onAgendaRegenerate,
+  onSlotSelect,
+  onKeepOriginalTime,
+  onRoomSelect,
+  onEditConfirm,
+  onEditCancel
 }: ChatInterfaceProps) {
   const [input, setInput] = useState('');
   const scrollAreaRef = useRef<HTMLDivElement>(null);
@@ -644,7 +654,7 @@ export function ChatInterface({
                       }`}
                     >
                       {/* Check if it's a conversational UI block */}
-                      {(['meeting_type_selection', 'attendee_management', 'meeting_approval', 'agenda_editor'].includes(message.uiBlock.type)) ? (
+                      {(['meeting_type_selection', 'attendee_management', 'meeting_approval', 'agenda_editor', 'time_slot_selection', 'meeting_edit_approval'].includes(message.uiBlock.type)) ? (
                         <ConversationalMeetingUIBlock
                           uiBlock={message.uiBlock as ConversationalUIBlock}
                           onTypeSelect={(type, meetingId, location) => {
@@ -660,6 +670,11 @@ export function ChatInterface({
                           onAgendaUpdate={onAgendaUpdate}
                           onAgendaApprove={onAgendaApprove}
                           onAgendaRegenerate={onAgendaRegenerate}
+                          onSlotSelect={onSlotSelect}
+                          onKeepOriginalTime={onKeepOriginalTime}
+                          onRoomSelect={onRoomSelect}
+                          onEditConfirm={onEditConfirm}
+                          onEditCancel={onEditCancel}
                           isCompleted={isBlockCompleted(message.id)}
                           onMarkCompleted={() => markBlockAsCompleted(message.id)}
                         />
@@ -0,0 +1,67 @@
+import { Loader2, Radio } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import type { AgendaCollaborator, CollaborationStatus } from '@/hooks/useCollaborativeAgenda';
+
+interface CollaboratorCursorsProps {
+  status: CollaborationStatus;
+  collaborators: AgendaCollaborator[];
+}
+
+const initials = (name: string) =>
+  name.split(/\s+/).filter(Boolean).slice(0, 2).map(part => part[0]!.toUpperCase()).join('') || '?';
+
+/**
+ * Shows who else is editing the agenda and where their cursor is
+ */
+export function CollaboratorCursors({ status, collaborators }: CollaboratorCursorsProps) {
+  if (status === 'idle') {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 p-2 rounded-lg border bg-muted/20" data-testid="collaborator-cursors">
+      {status === 'connected' && (
+        <Badge variant="secondary" className="gap-1">
+          <Radio className="h-3 w-3 text-green-600" />
+          Live
+        </Badge>
+      )}
+      {(status === 'connecting' || status === 'reconnecting') && (
+        <Badge variant="outline" className="gap-1">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {status === 'connecting' ? 'Connecting…' : 'Reconnecting…'}
+        </Badge>
+      )}
+      {status === 'ended' && <Badge variant="outline">Session ended</Badge>}
+
+      {collaborators.length === 0 && status === 'connected' && (
+        <span className="text-xs text-muted-foreground">Nobody else is editing right now</span>
+      )}
+
+      {collaborators.map(collaborator => {
+        const color = collaborator.cursor?.color || '#3B82F6';
+        return (
+          <div
+            key={collaborator.userId}
+            className="flex items-center gap-2 rounded-full border bg-background pl-1 pr-3 py-0.5"
+            style={{ borderColor: color }}
+            title={collaborator.email}
+          >
+            <span
+              className="flex h-6 w-6 items-center justify-center rounded-full text-[10px] font-semibold text-white"
+              style={{ backgroundColor: color }}
+            >
+              {initials(collaborator.name)}
+            </span>
+            <span className="text-xs font-medium">{collaborator.name}</span>
+            {collaborator.cursor && (
+              <span className="text-xs text-muted-foreground">
+                Ln {collaborator.cursor.line + 1}, Col {collaborator.cursor.column + 1}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,13 +1,14 @@
 import React, { useState } from 'react';
-import { Calendar, Users, Video, CheckCircle, AlertCircle, FileText, MapPin } from 'lucide-react';
+import { Calendar, Users, Video, CheckCircle, AlertCircle, FileText, MapPin, Repeat, Clock, Pencil, ArrowRight, DoorOpen } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AttendeeEditor } from './AttendeeEditor';
 import { AgendaEditor } from './AgendaEditor';
-import { AttendeeData } from '../../../shared/schema';
+import { AttendeeData, type AgendaDocument, type MeetingRoomOption } from '../../../shared/schema';
 
 import { ConversationalUIBlock } from '../services/conversationalMeetingService';
 
@@ -21,11 +22,13 @@ interface MeetingTypeSelectionProps {
     question: string;
     currentType?: 'physical' | 'online';
     currentLocation?: string;
+    rooms?: MeetingRoomOption[]; // follow-up offering free rooms once the time is known
   };
   onTypeSelect: (type: 'physical' | 'online', meetingId: string, location?: string) => void;
+  onRoomSelect?: (roomId: string | null, meetingId: string) => void;
 }
 
-export function MeetingTypeSelection({ data, onTypeSelect }: MeetingTypeSelectionProps) {
+export function MeetingTypeSelection({ data, onTypeSelect, onRoomSelect }: MeetingTypeSelectionProps) {
   const [selectedType, setSelectedType] = useState<'physical' | 'online' | null>(data.currentType || null);
   const [location, setLocation] = useState(data.currentLocation || '');
   const [locationError, setLocationError] = useState('');
@@ -61,6 +64,15 @@ export function MeetingTypeSelection({ data, onTypeSelect }: MeetingTypeSelectio
     }
   };
 
+  if (data.rooms && data.rooms.length > 0) {
+    return (
+      <MeetingRoomSelection
+        data={{ ...data, rooms: data.rooms }}
+        onRoomSelect={onRoomSelect || (() => {})}
+      />
+    );
+  }
+
   return (
     <Card className="w-full max-w-md border-2 shadow-sm">
       <CardHeader className="pb-3">
@@ -157,6 +169,81 @@ export function MeetingTypeSelection({ data, onTypeSelect }: MeetingTypeSelectio
   );
 }
 
+// Free rooms offered for a physical meeting once its time and attendees are known
+function MeetingRoomSelection({ data, onRoomSelect }: {
+  data: { meetingId: string; question: string; currentLocation?: string; rooms: MeetingRoomOption[] };
+  onRoomSelect: (roomId: string | null, meetingId: string) => void;
+}) {
+  const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
+
+  const selectRoom = (roomId: string | null) => {
+    setSelectedRoomId(roomId);
+    onRoomSelect(roomId, data.meetingId);
+  };
+
+  return (
+    <Card className="w-full max-w-md border-2 shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <DoorOpen className="h-4 w-4 text-green-500" />
+          Book a Room
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pb-3 space-y-3">
+        <p className="text-sm text-muted-foreground font-sans" style={{ lineHeight: '1.5' }}>
+          {data.question}
+        </p>
+
+        <div className="space-y-2">
+          {data.rooms.map(room => (
+            <button
+              key={room.id}
+              type="button"
+              onClick={() => selectRoom(room.id)}
+              disabled={selectedRoomId !== null}
+              className={`w-full text-left p-3 border rounded-lg transition-colors hover:bg-muted/50 ${selectedRoomId === room.id ? 'border-green-500 bg-green-50' : ''}`}
+              data-testid={`button-room-${room.id}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-medium text-sm">{room.name}</span>
+                {room.capacity !== undefined && (
+                  <Badge variant="secondary" className="text-xs">
+                    <Users className="h-3 w-3 mr-1" />
+                    {room.capacity}
+                  </Badge>
+                )}
+              </div>
+              {(room.building || room.floor) && (
+                <p className="text-xs text-muted-foreground">
+                  {[room.building, room.floor && `Floor ${room.floor}`].filter(Boolean).join(' · ')}
+                </p>
+              )}
+              {room.equipment.length > 0 && (
+                <p className="text-xs text-muted-foreground">{room.equipment.join(', ')}</p>
+              )}
+              {!room.availabilityKnown && (
+                <p className="text-xs text-orange-600">Availability could not be checked</p>
+              )}
+            </button>
+          ))}
+        </div>
+
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => selectRoom(null)}
+          disabled={selectedRoomId !== null}
+          className="w-full"
+          data-testid="button-keep-location"
+        >
+          <MapPin className="h-3 w-3 mr-1" />
+          {data.currentLocation ? `Keep "${data.currentLocation}"` : 'No room needed'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
 // Attendee management UI block using the new AttendeeEditor
 interface AttendeeManagementProps {
   data: {
@@ -228,17 +315,31 @@ interface MeetingApprovalProps {
     location?: string;
     attendees: AttendeeData[];
     agenda?: string;
+    calendarId?: string;
+    calendars?: Array<{ id: string; summary: string }>;
+    recurrence?: {
+      rrule: string;
+      summary: string;
+      occurrencesChecked: number;
+      conflictingOccurrences: Array<{
+        startTime: string;
+        endTime: string;
+        conflicts: string[];
+      }>;
+    };
     validation?: {
       isValid: boolean;
       errors: string[];
       warnings: string[];
     };
   };
-  onApprove: (meetingId: string) => void;
+  onApprove: (meetingId: string, calendarId?: string) => void;
   onEdit: (field: string, meetingId: string) => void;
 }
 
 export function MeetingApproval({ data, onApprove, onEdit }: MeetingApprovalProps) {
+  const [calendarId, setCalendarId] = useState(data.calendarId);
+  const writableCalendars = data.calendars || [];
   const startTime = new Date(data.startTime);
   const endTime = new Date(data.endTime);
   const duration = Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60));
@@ -372,6 +473,56 @@ export function MeetingApproval({ data, onApprove, onEdit }: MeetingApprovalProp
             </Button>
           </div>
 
+          {/* Recurrence (if present) */}
+          {data.recurrence && (
+            <div className="p-3 border rounded-lg" data-testid="recurrence-summary">
+              <div className="flex items-center gap-2">
+                <Repeat className="h-4 w-4 text-purple-500" />
+                <p className="font-semibold text-base">{data.recurrence.summary}</p>
+              </div>
+              {data.recurrence.occurrencesChecked > 0 && (
+                <p className="text-sm text-muted-foreground mt-1">
+                  {data.recurrence.conflictingOccurrences.length === 0
+                    ? `No conflicts in the first ${data.recurrence.occurrencesChecked} occurrences`
+                    : `${data.recurrence.conflictingOccurrences.length} of the first ${data.recurrence.occurrencesChecked} occurrences conflict:`}
+                </p>
+              )}
+              {data.recurrence.conflictingOccurrences.length > 0 && (
+                <ul className="text-sm text-yellow-700 mt-1 space-y-1">
+                  {data.recurrence.conflictingOccurrences.map((occurrence, index) => (
+                    <li key={index} data-testid={`recurrence-conflict-${index}`}>
+                      • {new Date(occurrence.startTime).toLocaleDateString('en-US', {
+                        weekday: 'short',
+                        month: 'short',
+                        day: 'numeric'
+                      })}: {occurrence.conflicts.join(', ')}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* Target calendar (only worth asking when there is more than one) */}
+          {writableCalendars.length > 1 && (
+            <div className="flex items-center justify-between p-3 border rounded-lg">
+              <div className="flex items-center gap-3 flex-1">
+                <Calendar className="h-5 w-5 text-muted-foreground" />
+                <p className="text-sm text-muted-foreground">Add to calendar</p>
+              </div>
+              <Select value={calendarId || 'primary'} onValueChange={setCalendarId}>
+                <SelectTrigger className="w-48" data-testid="select-meeting-calendar">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {writableCalendars.map(calendar => (
+                    <SelectItem key={calendar.id} value={calendar.id}>{calendar.summary}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           {/* Attendees */}
           <div className="flex items-start justify-between p-3 border rounded-lg">
             <div className="flex-1">
@@ -443,6 +594,9 @@ export function MeetingApproval({ data, onApprove, onEdit }: MeetingApprovalProp
                 <p className="font-medium text-blue-800">Meeting Creation Summary</p>
                 <ul className="text-blue-700 mt-1 space-y-1">
                   <li>• Calendar event will be created with all attendees</li>
+                  {data.recurrence && (
+                    <li>• Event will repeat: {data.recurrence.summary.toLowerCase()}</li>
+                  )}
                   {data.type === 'online' && (
                     <li>• Meeting link will be generated and included</li>
                   )}
@@ -459,7 +613,7 @@ export function MeetingApproval({ data, onApprove, onEdit }: MeetingApprovalProp
         {/* Approval Actions */}
         <div className="flex gap-3 pt-2">
           <Button
-            onClick={() => onApprove(data.meetingId)}
+            onClick={() => calendarId ? onApprove(data.meetingId, calendarId) : onApprove(data.meetingId)}
             disabled={!canApprove}
             className="flex-1 bg-green-500 hover:bg-green-600 disabled:bg-gray-300"
             data-testid="button-approve-meeting"
@@ -478,6 +632,7 @@ interface AgendaEditorBlockProps {
   data: {
     meetingId: string;
     initialAgenda: string;
+    initialDocument?: AgendaDocument;
     meetingTitle: string;
     duration: number;
     isApprovalMode?: boolean;
@@ -487,21 +642,22 @@ interface AgendaEditorBlockProps {
       warnings: string[];
     };
   };
-  onAgendaUpdate: (agenda: string, meetingId: string) => void;
-  onAgendaApprove: (agenda: string, meetingId: string) => void;
+  onAgendaUpdate: (agenda: string, meetingId: string, agendaDocument?: AgendaDocument) => void;
+  onAgendaApprove: (agenda: string, meetingId: string, agendaDocument?: AgendaDocument) => void;
   onAgendaRegenerate: (meetingId: string) => void;
 }
 
 export function AgendaEditorBlock({ data, onAgendaUpdate, onAgendaApprove, onAgendaRegenerate }: AgendaEditorBlockProps) {
   const [agenda, setAgenda] = useState(data.initialAgenda);
+  const [agendaDocument, setAgendaDocument] = useState(data.initialDocument);
 
   const handleContentChange = (content: string) => {
     setAgenda(content);
-    onAgendaUpdate(content, data.meetingId);
+    onAgendaUpdate(content, data.meetingId, agendaDocument);
   };
 
-  const handleApprove = (finalContent: string) => {
-    onAgendaApprove(finalContent, data.meetingId);
+  const handleApprove = (finalContent: string, finalDocument?: AgendaDocument) => {
+    onAgendaApprove(finalContent, data.meetingId, finalDocument);
   };
 
   const handleRegenerate = () => {
@@ -542,7 +698,9 @@ export function AgendaEditorBlock({ data, onAgendaUpdate, onAgendaApprove, onAge
       
       <AgendaEditor
         initialContent={data.initialAgenda}
+        initialDocument={data.initialDocument}
         onContentChange={handleContentChange}
+        onDocumentChange={setAgendaDocument}
         onApprove={handleApprove}
         onRegenerate={handleRegenerate}
         showPreview={true}
@@ -552,17 +710,219 @@ export function AgendaEditorBlock({ data, onAgendaUpdate, onAgendaApprove, onAge
   );
 }
 
+// Time slot selection UI block for choosing a ranked multi-attendee slot
+interface TimeSlotSelectionProps {
+  data: {
+    meetingId: string;
+    requestedStartTime: string;
+    attendeesChecked: string[];
+    unavailableCalendars?: string[];
+    slots: Array<{
+      startTime: string;
+      endTime: string;
+      requiredConflicts: string[];
+      optionalConflicts: string[];
+      outsideWorkingHours?: string[];
+    }>;
+  };
+  onSlotSelect: (startTime: string, endTime: string, meetingId: string) => void;
+  onKeepOriginal: (meetingId: string) => void;
+}
+
+export function TimeSlotSelection({ data, onSlotSelect, onKeepOriginal }: TimeSlotSelectionProps) {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  const handleConfirm = () => {
+    if (selectedIndex === null) return;
+    const slot = data.slots[selectedIndex];
+    onSlotSelect(slot.startTime, slot.endTime, data.meetingId);
+  };
+
+  return (
+    <Card className="w-full max-w-md border-2 shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Clock className="h-4 w-4 text-blue-500" />
+          Suggested Times
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Ranked by attendee availability across {data.attendeesChecked.length} participant{data.attendeesChecked.length === 1 ? '' : 's'}
+        </p>
+      </CardHeader>
+      <CardContent className="pb-3 space-y-3">
+        <div className="space-y-2">
+          {data.slots.map((slot, index) => {
+            const startTime = new Date(slot.startTime);
+            const endTime = new Date(slot.endTime);
+            const busy = [...slot.requiredConflicts, ...slot.optionalConflicts];
+
+            return (
+              <button
+                key={slot.startTime}
+                type="button"
+                onClick={() => setSelectedIndex(index)}
+                className={`w-full text-left p-3 border rounded-lg transition-colors ${
+                  selectedIndex === index ? 'border-primary bg-primary/5' : 'hover:bg-muted'
+                }`}
+                data-testid={`time-slot-${index}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <p className="font-medium text-sm">
+                    {startTime.toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' })}
+                    {' · '}
+                    {startTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - {endTime.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                  </p>
+                  {busy.length === 0 ? (
+                    <Badge variant="secondary" className="text-xs">Everyone free</Badge>
+                  ) : slot.requiredConflicts.length === 0 ? (
+                    <Badge variant="outline" className="text-xs">Optional busy</Badge>
+                  ) : (
+                    <Badge variant="destructive" className="text-xs">{slot.requiredConflicts.length} busy</Badge>
+                  )}
+                </div>
+                {busy.length > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">Busy: {busy.join(', ')}</p>
+                )}
+                {slot.outsideWorkingHours && slot.outsideWorkingHours.length > 0 && (
+                  <p className="text-xs text-yellow-700 mt-1">
+                    Outside working hours for: {slot.outsideWorkingHours.join(', ')}
+                  </p>
+                )}
+              </button>
+            );
+          })}
+        </div>
+
+        {data.unavailableCalendars && data.unavailableCalendars.length > 0 && (
+          <div className="flex items-start gap-2 text-xs text-yellow-700">
+            <AlertCircle className="h-3 w-3 mt-0.5" />
+            <span>Availability unknown for: {data.unavailableCalendars.join(', ')}</span>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            onClick={handleConfirm}
+            disabled={selectedIndex === null}
+            className="flex-1"
+            data-testid="button-confirm-slot"
+          >
+            Use This Time
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => onKeepOriginal(data.meetingId)}
+            data-testid="button-keep-original-time"
+          >
+            Keep Requested Time
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Edit approval UI block showing what changes in an existing meeting
+interface MeetingEditApprovalProps {
+  data: {
+    eventId: string;
+    eventTitle: string;
+    diff: Array<{
+      field: string;
+      label: string;
+      before: string;
+      after: string;
+    }>;
+    changes: Record<string, any>;
+    conflicts: string[];
+    warnings: string[];
+    timeChanged: boolean;
+  };
+  onConfirm: (eventId: string, changes: Record<string, any>) => void;
+  onCancel: (eventId: string) => void;
+}
+
+export function MeetingEditApproval({ data, onConfirm, onCancel }: MeetingEditApprovalProps) {
+  return (
+    <Card className="w-full max-w-md border-2 shadow-sm">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Pencil className="h-4 w-4 text-blue-500" />
+          Update "{data.eventTitle}"
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="pb-3 space-y-3">
+        <div className="space-y-2">
+          {data.diff.map(entry => (
+            <div key={entry.field} className="p-3 border rounded-lg" data-testid={`edit-diff-${entry.field}`}>
+              <p className="text-xs font-medium text-muted-foreground mb-1">{entry.label}</p>
+              <div className="flex items-center gap-2 text-sm">
+                <span className="line-through text-muted-foreground">{entry.before}</span>
+                <ArrowRight className="h-3 w-3 flex-shrink-0" />
+                <span className="font-medium">{entry.after}</span>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {data.conflicts.length > 0 && (
+          <div className="flex items-start gap-2 text-xs text-red-600">
+            <AlertCircle className="h-3 w-3 mt-0.5" />
+            <span>{data.conflicts.join('; ')}</span>
+          </div>
+        )}
+
+        {data.warnings.length > 0 && (
+          <div className="flex items-start gap-2 text-xs text-yellow-700">
+            <AlertCircle className="h-3 w-3 mt-0.5" />
+            <span>{data.warnings.join('; ')}</span>
+          </div>
+        )}
+
+        {data.timeChanged && (
+          <p className="text-xs text-muted-foreground">
+            Attendees will get an updated invite and the agenda will be resent.
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => onConfirm(data.eventId, data.changes)}
+            className="flex-1"
+            data-testid="button-confirm-edit"
+          >
+            <CheckCircle className="h-4 w-4 mr-2" />
+            Apply Changes
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => onCancel(data.eventId)}
+            data-testid="button-cancel-edit"
+          >
+            Cancel
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
 // Main component that renders the appropriate conversational UI block
 interface ConversationalMeetingUIBlockProps {
   uiBlock: ConversationalUIBlock;
   onTypeSelect?: (type: 'physical' | 'online', meetingId: string, location?: string) => void;
   onAttendeesUpdate?: (attendees: AttendeeData[], meetingId: string) => void;
   onContinue?: (meetingId: string) => void;
-  onApprove?: (meetingId: string) => void;
+  onApprove?: (meetingId: string, calendarId?: string) => void;
   onEdit?: (field: string, meetingId: string) => void;
-  onAgendaUpdate?: (agenda: string, meetingId: string) => void;
-  onAgendaApprove?: (agenda: string, meetingId: string) => void;
+  onAgendaUpdate?: (agenda: string, meetingId: string, agendaDocument?: AgendaDocument) => void;
+  onAgendaApprove?: (agenda: string, meetingId: string, agendaDocument?: AgendaDocument) => void;
   onAgendaRegenerate?: (meetingId: string) => void;
+  onSlotSelect?: (startTime: string, endTime: string, meetingId: string) => void;
+  onKeepOriginalTime?: (meetingId: string) => void;
+  onRoomSelect?: (roomId: string | null, meetingId: string) => void; // null keeps the typed location
+  onEditConfirm?: (eventId: string, changes: Record<string, any>) => void;
+  onEditCancel?: (eventId: string) => void;
   isCompleted?: boolean;
   onMarkCompleted?: () => void;
 }
@@ -577,6 +937,11 @@ export function ConversationalMeetingUIBlock({
   onAgendaUpdate,
   onAgendaApprove,
   onAgendaRegenerate,
+  onSlotSelect,
+  onKeepOriginalTime,
+  onRoomSelect,
+  onEditConfirm,
+  onEditCancel,
   isCompleted = false,
   onMarkCompleted,
 }: ConversationalMeetingUIBlockProps) {
@@ -593,6 +958,7 @@ export function ConversationalMeetingUIBlock({
               <MeetingTypeSelection
                 data={uiBlock.data}
                 onTypeSelect={onTypeSelect || (() => {})}
+                onRoomSelect={onRoomSelect}
               />
             );
           case 'attendee_management':
@@ -620,6 +986,22 @@ export function ConversationalMeetingUIBlock({
                 onAgendaRegenerate={onAgendaRegenerate || (() => {})}
               />
             );
+          case 'time_slot_selection':
+            return (
+              <TimeSlotSelection
+                data={uiBlock.data}
+                onSlotSelect={onSlotSelect || (() => {})}
+                onKeepOriginal={onKeepOriginalTime || (() => {})}
+              />
+            );
+          case 'meeting_edit_approval':
+            return (
+              <MeetingEditApproval
+                data={uiBlock.data}
+                onConfirm={onEditConfirm || (() => {})}
+                onCancel={onEditCancel || (() => {})}
+              />
+            );
           default:
             return null;
         }
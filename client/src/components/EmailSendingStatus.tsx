@@ -12,6 +12,7 @@ interface EmailSendingStatusProps {
   failed?: number;
   errors?: string[];
   onRetry?: () => void;
+  emailLabel?: string;
 }
 
 export function EmailSendingStatus({
@@ -21,7 +22,8 @@ export function EmailSendingStatus({
   total = 0,
   failed = 0,
   errors = [],
-  onRetry
+  onRetry,
+  emailLabel = 'Agenda'
 }: EmailSendingStatusProps) {
   if (status === 'idle') {
     return null;
@@ -45,9 +47,9 @@ export function EmailSendingStatus({
   const getStatusTitle = () => {
     switch (status) {
       case 'sending':
-        return 'Sending Agenda Emails...';
+        return `Sending ${emailLabel} Emails...`;
       case 'completed':
-        return 'Agenda Emails Sent Successfully';
+        return `${emailLabel} Emails Sent Successfully`;
       case 'failed':
         return 'Failed to Send Emails';
       case 'partial':
@@ -62,7 +64,7 @@ export function EmailSendingStatus({
       case 'sending':
         return `Sending to ${total} attendee${total !== 1 ? 's' : ''}... (${progress}% complete)`;
       case 'completed':
-        return `All ${total} attendee${total !== 1 ? 's' : ''} have been notified about the agenda.`;
+        return `All ${total} attendee${total !== 1 ? 's' : ''} have been notified about the ${emailLabel.toLowerCase()}.`;
       case 'failed':
         return `Failed to send emails to ${total} attendee${total !== 1 ? 's' : ''}. Please try again.`;
       case 'partial':
@@ -148,7 +150,7 @@ export function EmailSendingStatus({
 
         {status === 'sending' && (
           <div className="text-xs text-muted-foreground text-center italic">
-            Please wait while we send the agenda to all attendees...
+            Please wait while we send the {emailLabel.toLowerCase()} to all attendees...
           </div>
         )}
       </CardContent>
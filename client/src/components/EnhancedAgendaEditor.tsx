@@ -1,8 +1,8 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Video, Users, Calendar, CheckCircle, AlertCircle, Loader2, Edit, Eye, Send, ArrowLeft } from 'lucide-react';
+import { Video, Users, Calendar, CheckCircle, AlertCircle, Loader2, Edit, Eye, Send, ArrowLeft, History } from 'lucide-react';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
 import { Textarea } from '@/components/ui/textarea';
@@ -10,6 +10,11 @@ import { apiRequest } from '@/lib/queryClient';
 import { lazy, Suspense } from 'react';
 import { AgendaPreview } from './AgendaPreview';
 import { EmailSendingStatus } from './EmailSendingStatus';
+import { CollaboratorCursors } from './CollaboratorCursors';
+import { AgendaVersionHistoryPanel } from './AgendaVersionHistoryPanel';
+import { useCollaborativeAgenda } from '@/hooks/useCollaborativeAgenda';
+import type { AgendaTextOperation } from '../../../shared/schema';
+import { offsetToPosition, transformOffset } from '../../../shared/agendaOperations';
 
 // Lazily import React Quill to avoid SSR issues
 const ReactQuill = lazy(() => import('react-quill'));
@@ -73,6 +78,40 @@ export function EnhancedAgendaEditor({
   const [emailSendingSuccess, setEmailSendingSuccess] = useState(false);
   const [contentDisplayError, setContentDisplayError] = useState(false);
   const [forceRefreshKey, setForceRefreshKey] = useState(0);
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const restoreSelectionRef = useRef<[number, number] | null>(null);
+
+  // Everyone with the agenda open edits the same text; other people's edits arrive here
+  const collaboration = useCollaborativeAgenda({
+    agendaId: meetingData.id,
+    content: agendaContent,
+    enabled: step !== 'loading' && !!meetingData.id,
+    onRemoteContent: (content: string, operations?: AgendaTextOperation[]) => {
+      const textarea = textareaRef.current;
+      if (textarea && operations && document.activeElement === textarea) {
+        // Keep our caret on the same text rather than letting it jump to the end
+        restoreSelectionRef.current = [
+          transformOffset(textarea.selectionStart, operations),
+          transformOffset(textarea.selectionEnd, operations)
+        ];
+      }
+      setAgendaContent(content);
+      setHasUnsavedChanges(content !== originalAgenda);
+    }
+  });
+
+  useLayoutEffect(() => {
+    if (restoreSelectionRef.current && textareaRef.current) {
+      textareaRef.current.setSelectionRange(...restoreSelectionRef.current);
+      restoreSelectionRef.current = null;
+    }
+  }, [agendaContent]);
+
+  const shareCursor = (text: string, offset: number) => {
+    const { line, column } = offsetToPosition(text, offset);
+    collaboration.updateCursor(line, column);
+  };
 
   // React Quill modules configuration - optimized for agenda content
   const modules = {
@@ -532,6 +571,7 @@ export function EnhancedAgendaEditor({
             const cleanedContent = cleanHtmlForReactQuill(updatedContent);
             console.log('Setting updated content with narrative, length:', cleanedContent.length);
             setAgendaContent(cleanedContent);
+            collaboration.submitContent(cleanedContent);
           } else {
             console.warn('Agenda content not ready yet, will retry...');
             // Retry after another delay
@@ -540,6 +580,7 @@ export function EnhancedAgendaEditor({
                 const updatedContent = prependNarrativeToAgenda(formattedDescription, agendaContent);
                 const cleanedContent = cleanHtmlForReactQuill(updatedContent);
                 setAgendaContent(cleanedContent);
+                collaboration.submitContent(cleanedContent);
               } else {
                 console.error('Failed to add narrative - agenda content still not available');
                 // Don't fail completely, just log the issue
@@ -628,9 +669,12 @@ export function EnhancedAgendaEditor({
     return narrativeHtml + agendaHtml;
   };
 
-  const handleContentChange = (content: string) => {
+  const handleContentChange = (content: string, shareWithCollaborators: boolean = true) => {
     setAgendaContent(content);
     setHasUnsavedChanges(content !== originalAgenda);
+    if (shareWithCollaborators) {
+      collaboration.submitContent(content);
+    }
 
     // Auto-save draft after 2 seconds of inactivity
     if (autoSaveTimer) {
@@ -644,6 +688,16 @@ export function EnhancedAgendaEditor({
     setAutoSaveTimer(timer);
   };
 
+  // A restored version is shared like any other edit, in whichever mode the editor is in
+  const restoreVersionContent = (content: string) => {
+    const isHtml = /<[a-z][^>]*>/i.test(content);
+    if (usePlainTextFallback) {
+      handleContentChange(isHtml ? htmlToPlainText(content) : content);
+    } else {
+      handleContentChange(isHtml ? cleanHtmlForReactQuill(content) : content);
+    }
+  };
+
   const saveDraft = (content: string) => {
     try {
       localStorage.setItem(`agenda_draft_${meetingData.id}`, content);
@@ -1130,6 +1184,31 @@ export function EnhancedAgendaEditor({
                 </div>
               )}
 
+              <CollaboratorCursors status={collaboration.status} collaborators={collaboration.collaborators} />
+
+              {meetingData.id && (
+                <div className="rounded-lg border p-2 space-y-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-xs"
+                    onClick={() => setShowVersionHistory(show => !show)}
+                  >
+                    <History className="h-4 w-4 mr-1" />
+                    {showVersionHistory ? 'Hide version history' : 'Show version history'}
+                  </Button>
+                  {showVersionHistory && (
+                    <AgendaVersionHistoryPanel
+                      agendaId={String(meetingData.id)}
+                      title={meetingData.title || 'Meeting Agenda'}
+                      currentContent={agendaContent}
+                      onRestore={version => restoreVersionContent(version.content)}
+                      disabled={isSendingEmails}
+                    />
+                  )}
+                </div>
+              )}
+
               {/* Mode Toggle */}
               <div className="flex items-center justify-between p-2 bg-muted/30 rounded-lg">
                 <div className="flex items-center gap-2">
@@ -1150,11 +1229,13 @@ export function EnhancedAgendaEditor({
                       // Switch to HTML mode
                       const htmlContent = cleanHtmlForReactQuill(originalAgenda || agendaContent);
                       setAgendaContent(htmlContent);
+                      collaboration.submitContent(htmlContent);
                       setUsePlainTextFallback(false);
                     } else {
                       // Switch to plain text mode
                       const plainTextContent = htmlToPlainText(agendaContent);
                       setAgendaContent(plainTextContent);
+                      collaboration.submitContent(plainTextContent);
                       setUsePlainTextFallback(true);
                     }
                   }}
@@ -1195,7 +1276,9 @@ export function EnhancedAgendaEditor({
                           </p>
                         </div>
                         <Textarea
+                          ref={textareaRef}
                           value={agendaContent}
+                          onSelect={(e: React.SyntheticEvent<HTMLTextAreaElement>) => shareCursor(e.currentTarget.value, e.currentTarget.selectionStart)}
                           onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => {
                             if (isSendingEmails) {
                               alert('Please wait for emails to finish sending before editing.');
@@ -1215,7 +1298,7 @@ export function EnhancedAgendaEditor({
                            key={forceRefreshKey}
                            theme="snow"
                            value={agendaContent}
-                           onChange={(content) => {
+                           onChange={(content, _delta, source) => {
                              console.log('ReactQuill onChange triggered:', {
                                newLength: content.length,
                                oldLength: agendaContent.length,
@@ -1225,7 +1308,13 @@ export function EnhancedAgendaEditor({
                                alert('Please wait for emails to finish sending before editing.');
                                return;
                              }
-                             handleContentChange(content);
+                             // Content set from a collaborator's edit arrives with source "api"
+                             handleContentChange(content, source === 'user');
+                           }}
+                           onChangeSelection={(range, _source, editor) => {
+                             if (range) {
+                               shareCursor(editor.getText(), range.index);
+                             }
                            }}
                            modules={modules}
                            formats={formats}
@@ -1250,7 +1339,9 @@ export function EnhancedAgendaEditor({
                   </>
                 ) : (
                   <Textarea
+                    ref={textareaRef}
                     value={agendaContent}
+                    onSelect={(e: React.SyntheticEvent<HTMLTextAreaElement>) => shareCursor(e.currentTarget.value, e.currentTarget.selectionStart)}
                     onChange={(e: React.ChangeEvent<HTMLTextAreaElement>) => {
                       if (isSendingEmails) {
                         alert('Please wait for emails to finish sending before editing.');
@@ -18,6 +18,8 @@ import { AttendeeData } from '../../../shared/schema';
 interface EnhancedChatInterfaceProps {
   messages: ChatMessage[];
   isLoading?: boolean;
+  // Assistant reply streamed so far while isLoading
+  streamingText?: string;
   userName?: string;
   userAvatar?: string;
   onOpenAIPanel?: () => void;
@@ -28,16 +30,22 @@ interface EnhancedChatInterfaceProps {
   onTypeSelect?: (type: 'physical' | 'online', meetingId: string, location?: string) => void;
   onAttendeesUpdate?: (attendees: AttendeeData[], meetingId: string) => void;
   onContinue?: (meetingId: string) => void;
-  onApprove?: (meetingId: string) => void;
+  onApprove?: (meetingId: string, calendarId?: string) => void;
   onEdit?: (field: string, meetingId: string) => void;
   onAgendaUpdate?: (agenda: string, meetingId: string) => void;
   onAgendaApprove?: (agenda: string, meetingId: string) => void;
   onAgendaRegenerate?: (meetingId: string) => void;
+  onSlotSelect?: (startTime: string, endTime: string, meetingId: string) => void;
+  onKeepOriginalTime?: (meetingId: string) => void;
+  onRoomSelect?: (roomId: string | null, meetingId: string) => void;
+  onEditConfirm?: (eventId: string, changes: Record<string, any>) => void;
+  onEditCancel?: (eventId: string) => void;
 }
 
 export function EnhancedChatInterface({
   messages,
   isLoading = false,
+  streamingText,
   userName,
   userAvatar,
   onOpenAIPanel,
@@ -51,7 +59,12 @@ export function EnhancedChatInterface({
   onEdit,
   onAgendaUpdate,
   onAgendaApprove,
-  onAgendaRegenerate
+  onAgendaRegenerate,
+  onSlotSelect,
+  onKeepOriginalTime,
+  onRoomSelect,
+  onEditConfirm,
+  onEditCancel
 }: EnhancedChatInterfaceProps) {
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
@@ -60,7 +73,7 @@ export function EnhancedChatInterface({
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
+  }, [messages, streamingText]);
 
   const copyToClipboard = async (text: string) => {
     try {
@@ -158,6 +171,11 @@ export function EnhancedChatInterface({
                   onAgendaUpdate={onAgendaUpdate}
                   onAgendaApprove={onAgendaApprove}
                   onAgendaRegenerate={onAgendaRegenerate}
+                  onSlotSelect={onSlotSelect}
+                  onKeepOriginalTime={onKeepOriginalTime}
+                  onRoomSelect={onRoomSelect}
+                  onEditConfirm={onEditConfirm}
+                  onEditCancel={onEditCancel}
                 />
               </div>
             )}
@@ -273,23 +291,27 @@ export function EnhancedChatInterface({
                 </div>
                 <Card className="glass-effect border-border/20">
                   <CardContent className="p-4">
-                    <div className="flex items-center gap-2">
-                      <div className="flex gap-1">
-                        {[0, 1, 2].map((i) => (
-                          <motion.div
-                            key={i}
-                            className="w-2 h-2 bg-accent rounded-full"
-                            animate={{ scale: [1, 1.2, 1] }}
-                            transition={{
-                              duration: 1,
-                              repeat: Infinity,
-                              delay: i * 0.2
-                            }}
-                          />
-                        ))}
+                    {streamingText ? (
+                      <p className="text-sm text-foreground whitespace-pre-wrap">{streamingText}</p>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <div className="flex gap-1">
+                          {[0, 1, 2].map((i) => (
+                            <motion.div
+                              key={i}
+                              className="w-2 h-2 bg-accent rounded-full"
+                              animate={{ scale: [1, 1.2, 1] }}
+                              transition={{
+                                duration: 1,
+                                repeat: Infinity,
+                                delay: i * 0.2
+                              }}
+                            />
+                          ))}
+                        </div>
+                        <span className="text-sm text-muted-foreground">Processing your request</span>
                       </div>
-                      <span className="text-sm text-muted-foreground">Processing your request</span>
-                    </div>
+                    )}
                   </CardContent>
                 </Card>
               </div>
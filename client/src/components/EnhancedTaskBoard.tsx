@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, type DragEvent } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   CheckCircle, Circle, AlertCircle, Plus, Clock,
@@ -10,17 +10,9 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { format, isPast } from 'date-fns';
+import type { Task } from '@/hooks/useTasks';
+import { GoogleTasksSyncToggle } from '@/components/GoogleTasksSyncToggle';
 
-interface Task {
-  id: string;
-  title: string;
-  description?: string;
-  assignee: string;
-  deadline?: Date;
-  status: 'pending' | 'in_progress' | 'completed';
-  eventTitle?: string;
-  priority?: 'low' | 'medium' | 'high';
-}
 
 interface Meeting {
   id: string;
@@ -70,6 +62,7 @@ export function EnhancedTaskBoard({
 }: EnhancedTaskBoardProps) {
   const [selectedMeeting, setSelectedMeeting] = useState<string | null>(null);
   const [meetings, setMeetings] = useState<Meeting[]>([]);
+  const [dropTarget, setDropTarget] = useState<Task['status'] | null>(null);
 
   // Extract unique meetings from tasks
   useEffect(() => {
@@ -104,6 +97,16 @@ export function EnhancedTaskBoard({
     return getFilteredTasks().filter(task => task.status === status);
   };
 
+  // Moving a card to another column changes its status
+  const handleDrop = (e: DragEvent, status: Task['status']) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const task = tasks.find(t => t.id === e.dataTransfer.getData('text/plain'));
+    if (task && task.status !== status) {
+      onUpdateTaskStatus(task.id, status);
+    }
+  };
+
   const getPriorityColor = (priority?: string) => {
     switch (priority) {
       case 'high': return 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400 border-red-200';
@@ -146,17 +149,20 @@ export function EnhancedTaskBoard({
               </div>
             </div>
 
-            {onAddTask && (
-              <motion.button
-                onClick={onAddTask}
-                className="bg-gradient-to-r from-emerald-500 to-green-600 hover:from-emerald-600 hover:to-green-700 text-white px-6 py-3 rounded-xl font-medium text-sm flex items-center gap-2 shadow-lg transition-all"
-                whileHover={{ scale: 1.02 }}
-                whileTap={{ scale: 0.98 }}
-              >
-                <Plus className="h-4 w-4" />
-                Add Task
-              </motion.button>
-            )}
+            <div className="flex items-center gap-4">
+              <GoogleTasksSyncToggle />
+              {onAddTask && (
+                <motion.button
+                  onClick={onAddTask}
+                  className="bg-gradient-to-r from-emerald-500 to-green-600 hover:from-emerald-600 hover:to-green-700 text-white px-6 py-3 rounded-xl font-medium text-sm flex items-center gap-2 shadow-lg transition-all"
+                  whileHover={{ scale: 1.02 }}
+                  whileTap={{ scale: 0.98 }}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Task
+                </motion.button>
+              )}
+            </div>
           </motion.div>
         </div>
 
@@ -168,7 +174,17 @@ export function EnhancedTaskBoard({
               const IconComponent = column.icon;
 
               return (
-                <div key={column.status} className="flex flex-col h-full">
+                <div
+                  key={column.status}
+                  className={`flex flex-col h-full rounded-2xl transition-colors ${dropTarget === column.status ? 'bg-emerald-50/60 dark:bg-emerald-900/10' : ''}`}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDropTarget(column.status);
+                  }}
+                  onDragLeave={() => setDropTarget(null)}
+                  onDrop={(e) => handleDrop(e, column.status)}
+                  data-testid={`task-column-${column.status}`}
+                >
                   {/* Column Header - Taller and more prominent */}
                   <div className={`bg-gradient-to-r ${column.color} p-6 rounded-2xl mb-6 shadow-lg`}>
                     <div className="flex items-center justify-between">
@@ -203,6 +219,8 @@ export function EnhancedTaskBoard({
                               <Card 
                                 className={`${column.bgColor} hover:shadow-xl transition-all duration-300 border ${column.borderColor} cursor-pointer backdrop-blur-sm rounded-xl overflow-hidden`}
                                 onClick={() => onTaskClick(task)}
+                                draggable
+                                onDragStart={(e) => e.dataTransfer.setData('text/plain', task.id)}
                               >
                                 <CardContent className="p-6">
                                   <div className="space-y-4">
@@ -240,6 +258,15 @@ export function EnhancedTaskBoard({
                                       )}
                                     </div>
 
+                                    {/* Category and Estimate */}
+                                    {(task.category || task.estimatedHours) && (
+                                      <div className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                                        {task.category && <span className="capitalize">{task.category}</span>}
+                                        {task.category && task.estimatedHours && <span>·</span>}
+                                        {task.estimatedHours && <span>{task.estimatedHours}h estimate</span>}
+                                      </div>
+                                    )}
+
                                     {/* Event Association */}
                                     {task.eventTitle && (
                                       <div className="flex items-center gap-2 p-2 bg-white/50 dark:bg-white/5 rounded-lg">
@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { RefreshCw } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { apiRequest } from '@/lib/queryClient';
+
+/**
+ * Opt-in switch for pushing board tasks to Google Tasks, with a manual "sync now"
+ */
+export function GoogleTasksSyncToggle() {
+  const queryClient = useQueryClient();
+  const [lastResult, setLastResult] = useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ['googleTasksSync'],
+    queryFn: async (): Promise<{ enabled: boolean }> => {
+      const response = await apiRequest('GET', '/api/integrations/google-tasks');
+      return response.json();
+    }
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (enabled: boolean) => {
+      const response = await apiRequest('PUT', '/api/integrations/google-tasks', { enabled });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.setQueryData(['googleTasksSync'], { enabled: result.enabled });
+      setLastResult(result.enabled ? `${result.pushed} tasks sent to Google Tasks` : null);
+      queryClient.invalidateQueries({ queryKey: ['meetingTasks'] });
+    }
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/integrations/google-tasks/sync');
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setLastResult(`${result.pushed} sent, ${result.updated} updated from Google Tasks`);
+      queryClient.invalidateQueries({ queryKey: ['meetingTasks'] });
+    },
+    onError: () => setLastResult('Sync failed, please try again')
+  });
+
+  const enabled = data?.enabled ?? false;
+
+  return (
+    <div className="flex items-center gap-3">
+      <div className="flex items-center gap-2">
+        <Switch
+          id="google-tasks-sync"
+          checked={enabled}
+          disabled={toggleMutation.isPending}
+          onCheckedChange={(checked) => toggleMutation.mutate(checked)}
+          data-testid="switch-google-tasks-sync"
+        />
+        <Label htmlFor="google-tasks-sync" className="text-sm text-gray-600 dark:text-gray-400">
+          Google Tasks
+        </Label>
+      </div>
+      {enabled && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => syncMutation.mutate()}
+          disabled={syncMutation.isPending}
+          title="Sync with Google Tasks"
+          data-testid="button-google-tasks-sync"
+        >
+          <RefreshCw className={`h-4 w-4 ${syncMutation.isPending ? 'animate-spin' : ''}`} />
+        </Button>
+      )}
+      {lastResult && (
+        <span className="text-xs text-gray-500 dark:text-gray-400">{lastResult}</span>
+      )}
+    </div>
+  );
+}
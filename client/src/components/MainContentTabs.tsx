@@ -7,20 +7,14 @@ import { OnboardingMeetingSetup } from '@/components/OnboardingMeetingSetup';
 import { PremiumTaskBoard } from '@/components/PremiumTaskBoard';
 import { MeetingTaskDropdown } from '@/components/MeetingTaskDropdown';
 import { EnhancedTaskBoard } from '@/components/EnhancedTaskBoard';
-
-interface Task {
-  id: string;
-  title: string;
-  description?: string;
-  assignee: string;
-  deadline?: Date;
-  status: 'pending' | 'in_progress' | 'completed';
-  eventTitle?: string;
-}
+import { CalendarSyncConflictsPanel } from '@/components/CalendarSyncConflictsPanel';
+import { CalendarFeedsPanel } from '@/components/CalendarFeedsPanel';
+import { AIUsagePanel } from '@/components/AIUsagePanel';
+import type { Task } from '@/hooks/useTasks';
 
 interface MainContentTabsProps {
   tasks: Task[];
-  onTaskUpdate: (tasks: Task[]) => void;
+  onUpdateTaskStatus: (taskId: string, status: Task['status']) => void;
   onSidebarUpdate: (data: any) => void;
   onRestartProcess: () => void;
   activeTab: 'events' | 'tasks';
@@ -31,7 +25,7 @@ interface MainContentTabsProps {
 
 export function MainContentTabs({
   tasks,
-  onTaskUpdate,
+  onUpdateTaskStatus,
   onSidebarUpdate,
   onRestartProcess,
   activeTab,
@@ -124,7 +118,16 @@ export function MainContentTabs({
               
               {/* Content area with proper padding and scrolling */}
               <div className="px-8 pb-16">
-                <div className="max-w-6xl mx-auto">
+                <div className="max-w-6xl mx-auto space-y-6">
+                  {/* Meetings edited both here and in Google Calendar */}
+                  <CalendarSyncConflictsPanel />
+
+                  {/* External calendars counted as busy time */}
+                  <CalendarFeedsPanel />
+
+                  {/* AI consumption per user, for admins */}
+                  <AIUsagePanel />
+
                   {/* Content card with better spacing */}
                   <div className="bg-card/50 backdrop-blur-sm rounded-3xl border border-border/20 shadow-xl p-8">
                     <OnboardingMeetingSetup
@@ -159,12 +162,7 @@ export function MainContentTabs({
                 <div className="max-w-full mx-auto h-[calc(100vh-300px)]">
                   <EnhancedTaskBoard
                     tasks={tasks}
-                    onUpdateTaskStatus={(taskId, status) => {
-                      const updatedTasks = tasks.map(task =>
-                        task.id === taskId ? { ...task, status } : task
-                      );
-                      onTaskUpdate(updatedTasks);
-                    }}
+                    onUpdateTaskStatus={onUpdateTaskStatus}
                     onTaskClick={(task) => {
                       // Handle task click - could open task details or chat
                       console.log('Task clicked:', task);
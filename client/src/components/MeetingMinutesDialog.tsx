@@ -0,0 +1,408 @@
+import { useEffect, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Loader2, Send, Save, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { EmailSendingStatus } from './EmailSendingStatus';
+import { TaskAccessLinksPanel } from './TaskAccessLinksPanel';
+import { apiRequest } from '@/lib/queryClient';
+
+interface MinutesActionItem {
+  title: string;
+  description?: string;
+  assignee?: string;
+  assigneeEmail?: string;
+  dueDate?: string;
+  priority: 'high' | 'medium' | 'low';
+}
+
+interface MinutesDraft {
+  meetingId: string;
+  recipients: { email: string; name?: string }[];
+  minutes: {
+    title: string;
+    summary: string;
+    keyPoints: string[];
+    decisions: string[];
+    actionItems: MinutesActionItem[];
+    organizerNote?: string;
+  };
+  status: 'draft' | 'sent';
+  jobId?: string;
+}
+
+interface MinutesForm {
+  summary: string;
+  keyPoints: string;
+  decisions: string;
+  organizerNote: string;
+  actionItems: MinutesActionItem[];
+}
+
+interface EmailJobStatus {
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'partially_failed';
+  totalAttendees: number;
+  emailsSent: number;
+  emailsFailed: number;
+  progress: number;
+  errors: string[];
+}
+
+interface MeetingMinutesDialogProps {
+  meetingId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const toLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const toForm = (draft: MinutesDraft): MinutesForm => ({
+  summary: draft.minutes.summary,
+  keyPoints: draft.minutes.keyPoints.join('\n'),
+  decisions: draft.minutes.decisions.join('\n'),
+  organizerNote: draft.minutes.organizerNote || '',
+  actionItems: draft.minutes.actionItems
+});
+
+const toSendingStatus = (job?: EmailJobStatus) => {
+  switch (job?.status) {
+    case 'completed':
+      return 'completed';
+    case 'failed':
+      return 'failed';
+    case 'partially_failed':
+      return 'partial';
+    case undefined:
+      return 'idle';
+    default:
+      return 'sending';
+  }
+};
+
+/**
+ * Lets the organizer review, edit and preview post-meeting minutes before they are emailed to attendees
+ */
+export function MeetingMinutesDialog({ meetingId, open, onOpenChange }: MeetingMinutesDialogProps) {
+  const queryClient = useQueryClient();
+  const draftKey = ['meetingMinutes', meetingId];
+  const [form, setForm] = useState<MinutesForm | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [previewEmail, setPreviewEmail] = useState<string>('');
+  const [jobId, setJobId] = useState<string | null>(null);
+
+  const { data: draft, isLoading, error } = useQuery({
+    queryKey: draftKey,
+    queryFn: async (): Promise<MinutesDraft> => {
+      const response = await apiRequest('GET', `/api/meetings/${meetingId}/minutes`);
+      return response.json();
+    },
+    enabled: open
+  });
+
+  useEffect(() => {
+    if (draft) {
+      setForm(toForm(draft));
+      setIsDirty(false);
+      setJobId(draft.jobId || null);
+      setPreviewEmail(current => current || draft.recipients[0]?.email || '');
+    }
+  }, [draft]);
+
+  const { data: preview, isFetching: isPreviewLoading } = useQuery({
+    queryKey: ['meetingMinutesPreview', meetingId, previewEmail, draft?.minutes],
+    queryFn: async (): Promise<{ subject: string; html: string }> => {
+      const query = previewEmail ? `?email=${encodeURIComponent(previewEmail)}` : '';
+      const response = await apiRequest('GET', `/api/meetings/${meetingId}/minutes/preview${query}`);
+      return response.json();
+    },
+    enabled: open && !!draft
+  });
+
+  const { data: jobStatus } = useQuery({
+    queryKey: ['emailJobStatus', jobId],
+    queryFn: async (): Promise<EmailJobStatus> => {
+      const response = await apiRequest('GET', `/api/email/status/${jobId}`);
+      return response.json();
+    },
+    enabled: !!jobId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'pending' || status === 'in_progress' || !status ? 2000 : false;
+    }
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: MinutesForm) => {
+      const response = await apiRequest('PUT', `/api/meetings/${meetingId}/minutes`, {
+        summary: values.summary,
+        keyPoints: toLines(values.keyPoints),
+        decisions: toLines(values.decisions),
+        organizerNote: values.organizerNote,
+        actionItems: values.actionItems.filter(item => item.title.trim())
+      });
+      return response.json() as Promise<MinutesDraft>;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(draftKey, saved);
+    }
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      if (form && isDirty) {
+        await saveMutation.mutateAsync(form);
+      }
+      const response = await apiRequest('POST', '/api/email/send-minutes', { meetingId });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      setJobId(result.jobId);
+      queryClient.invalidateQueries({ queryKey: draftKey });
+    }
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', `/api/email/retry/${jobId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['emailJobStatus', jobId] });
+    }
+  });
+
+  const updateForm = (changes: Partial<MinutesForm>) => {
+    setForm(current => current ? { ...current, ...changes } : current);
+    setIsDirty(true);
+  };
+
+  const updateActionItem = (index: number, changes: Partial<MinutesActionItem>) => {
+    if (!form) return;
+    updateForm({
+      actionItems: form.actionItems.map((item, i) => i === index ? { ...item, ...changes } : item)
+    });
+  };
+
+  const isSent = draft?.status === 'sent';
+  const mutationError = saveMutation.error || sendMutation.error;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Meeting Minutes{draft ? `: ${draft.minutes.title}` : ''}</DialogTitle>
+          <DialogDescription>
+            Review the summary, decisions and action items before they are emailed to attendees.
+            Each attendee sees their own action items highlighted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-destructive">
+            Minutes are not available yet. Upload or generate a transcript for this meeting first.
+          </p>
+        )}
+
+        {draft && form && (
+          <Tabs defaultValue="edit">
+            <TabsList>
+              <TabsTrigger value="edit">Edit</TabsTrigger>
+              <TabsTrigger value="preview" onClick={() => isDirty && saveMutation.mutate(form)}>
+                Preview
+              </TabsTrigger>
+              <TabsTrigger value="links">Task links</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="edit" className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="minutes-note">Note to attendees (optional)</Label>
+                <Textarea
+                  id="minutes-note"
+                  value={form.organizerNote}
+                  disabled={isSent}
+                  onChange={(e) => updateForm({ organizerNote: e.target.value })}
+                  placeholder="Thanks everyone for joining..."
+                  data-testid="textarea-minutes-note"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="minutes-summary">Summary</Label>
+                <Textarea
+                  id="minutes-summary"
+                  rows={5}
+                  value={form.summary}
+                  disabled={isSent}
+                  onChange={(e) => updateForm({ summary: e.target.value })}
+                  data-testid="textarea-minutes-summary"
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="minutes-key-points">Key points (one per line)</Label>
+                  <Textarea
+                    id="minutes-key-points"
+                    rows={5}
+                    value={form.keyPoints}
+                    disabled={isSent}
+                    onChange={(e) => updateForm({ keyPoints: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="minutes-decisions">Decisions (one per line)</Label>
+                  <Textarea
+                    id="minutes-decisions"
+                    rows={5}
+                    value={form.decisions}
+                    disabled={isSent}
+                    onChange={(e) => updateForm({ decisions: e.target.value })}
+                    data-testid="textarea-minutes-decisions"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Action items</Label>
+                {form.actionItems.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No action items were found in this meeting.</p>
+                )}
+                {form.actionItems.map((item, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      value={item.title}
+                      disabled={isSent}
+                      onChange={(e) => updateActionItem(index, { title: e.target.value })}
+                      className="flex-1"
+                      data-testid={`input-minutes-action-${index}`}
+                    />
+                    <Input
+                      value={item.assigneeEmail || item.assignee || ''}
+                      disabled={isSent}
+                      placeholder="Owner"
+                      onChange={(e) => updateActionItem(index, e.target.value.includes('@')
+                        ? { assigneeEmail: e.target.value, assignee: undefined }
+                        : { assignee: e.target.value || undefined, assigneeEmail: undefined })}
+                      className="w-48"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={isSent}
+                      onClick={() => updateForm({ actionItems: form.actionItems.filter((_, i) => i !== index) })}
+                      title="Remove action item"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Recipients: {draft.recipients.map(recipient => recipient.name || recipient.email).join(', ') || 'none'}
+              </p>
+            </TabsContent>
+
+            <TabsContent value="preview" className="space-y-3">
+              <div className="flex items-center gap-3">
+                <Label className="shrink-0">Preview as</Label>
+                <Select value={previewEmail} onValueChange={setPreviewEmail}>
+                  <SelectTrigger className="w-72" data-testid="select-minutes-preview-recipient">
+                    <SelectValue placeholder="Select an attendee" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {draft.recipients.map(recipient => (
+                      <SelectItem key={recipient.email} value={recipient.email}>
+                        {recipient.name ? `${recipient.name} <${recipient.email}>` : recipient.email}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {(isPreviewLoading || saveMutation.isPending) && <Loader2 className="h-4 w-4 animate-spin" />}
+              </div>
+              {preview && (
+                <>
+                  <p className="text-sm"><span className="font-medium">Subject:</span> {preview.subject}</p>
+                  <iframe
+                    title="Minutes email preview"
+                    srcDoc={preview.html}
+                    sandbox=""
+                    className="w-full h-[420px] rounded border"
+                    data-testid="iframe-minutes-preview"
+                  />
+                </>
+              )}
+            </TabsContent>
+
+            <TabsContent value="links">
+              <TaskAccessLinksPanel
+                meetingId={meetingId}
+                meetingTitle={draft.minutes.title}
+                attendees={draft.recipients}
+              />
+            </TabsContent>
+          </Tabs>
+        )}
+
+        {mutationError && (
+          <p className="text-sm text-destructive">{(mutationError as Error).message}</p>
+        )}
+
+        {jobId && (
+          <EmailSendingStatus
+            status={toSendingStatus(jobStatus)}
+            progress={jobStatus?.progress}
+            sent={jobStatus?.emailsSent}
+            total={jobStatus?.totalAttendees}
+            failed={jobStatus?.emailsFailed}
+            errors={jobStatus?.errors}
+            onRetry={() => retryMutation.mutate()}
+            emailLabel="Meeting Minutes"
+          />
+        )}
+
+        {draft && !isSent && (
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              disabled={!isDirty || saveMutation.isPending}
+              onClick={() => form && saveMutation.mutate(form)}
+              data-testid="button-save-minutes"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save Draft
+            </Button>
+            <Button
+              disabled={sendMutation.isPending || draft.recipients.length === 0}
+              onClick={() => sendMutation.mutate()}
+              data-testid="button-send-minutes"
+            >
+              {sendMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4 mr-2" />
+              )}
+              Send to {draft.recipients.length} attendee{draft.recipients.length !== 1 ? 's' : ''}
+            </Button>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
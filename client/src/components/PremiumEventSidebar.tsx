@@ -1,8 +1,8 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import {
   Calendar, Clock, Users, ExternalLink, Video,
-  MapPin, ChevronDown, ChevronUp, ArrowRight, Plus, Trash2
+  MapPin, ChevronDown, ChevronUp, ArrowRight, Plus, Trash2, FileText, Loader2, Mail
 } from 'lucide-react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -20,6 +20,8 @@ import {
   AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import { format, isToday, isTomorrow } from 'date-fns';
+import { apiRequest } from '@/lib/queryClient';
+import { MeetingMinutesDialog } from './MeetingMinutesDialog';
 
 interface CalendarEvent {
   id: string;
@@ -37,20 +39,33 @@ interface PremiumEventSidebarProps {
   onViewEvent: (eventId: string) => void;
   onDeleteEvent: (eventId: string) => void;
   onCreateEvent?: () => void;
+  onTranscriptUploaded?: (eventId: string) => void;
 }
 
+interface TranscriptUploadState {
+  status: 'uploading' | 'done' | 'error';
+  message: string;
+}
+
+// Meetings that ended recently stay listed so their transcript can be uploaded
+const RECENTLY_ENDED_WINDOW_MS = 24 * 60 * 60 * 1000;
+
 export function PremiumEventSidebar({
   events,
   onJoinEvent,
   onViewEvent,
   onDeleteEvent,
-  onCreateEvent
+  onCreateEvent,
+  onTranscriptUploaded
 }: PremiumEventSidebarProps) {
   const [expandedEvents, setExpandedEvents] = useState<Set<string>>(new Set());
+  const [transcriptUploads, setTranscriptUploads] = useState<Record<string, TranscriptUploadState>>({});
+  const transcriptInputs = useRef<Record<string, HTMLInputElement | null>>({});
+  const [minutesMeetingId, setMinutesMeetingId] = useState<string | null>(null);
   
   const upcomingEvents = useMemo(() => {
     return events
-      .filter(event => new Date(event.startTime) > new Date())
+      .filter(event => new Date(event.endTime).getTime() > Date.now() - RECENTLY_ENDED_WINDOW_MS)
       .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
       .slice(0, 5);
   }, [events]);
@@ -76,11 +91,47 @@ export function PremiumEventSidebar({
     const eventStart = new Date(event.startTime);
     const eventEnd = new Date(event.endTime);
     
+    if (now > eventEnd) return 'ended';
     if (now >= eventStart && now <= eventEnd) return 'active';
     if (now < eventStart && eventStart.getTime() - now.getTime() < 30 * 60 * 1000) return 'starting';
     return 'upcoming';
   };
 
+  const handleTranscriptFile = async (event: CalendarEvent, file: File) => {
+    setTranscriptUploads(prev => ({ ...prev, [event.id]: { status: 'uploading', message: `Processing ${file.name}...` } }));
+
+    try {
+      const response = await apiRequest('POST', '/api/transcript/upload', {
+        meetingId: event.id,
+        content: await file.text(),
+        fileName: file.name,
+        meetingData: {
+          title: event.title,
+          startTime: new Date(event.startTime).toISOString(),
+          endTime: new Date(event.endTime).toISOString(),
+          attendees: event.attendees
+        }
+      });
+      const result = await response.json();
+      const unmatched: string[] = result.transcript?.unmatchedSpeakers || [];
+
+      setTranscriptUploads(prev => ({
+        ...prev,
+        [event.id]: {
+          status: 'done',
+          message: `${result.transcript?.turnsCount || 0} turns summarized, ${result.tasksCount || 0} tasks created` +
+            (unmatched.length > 0 ? ` (unmatched speakers: ${unmatched.join(', ')})` : '')
+        }
+      }));
+      onTranscriptUploaded?.(event.id);
+    } catch (error: any) {
+      setTranscriptUploads(prev => ({
+        ...prev,
+        [event.id]: { status: 'error', message: error.message || 'Failed to upload transcript' }
+      }));
+    }
+  };
+
   return (
     <div className="h-full bg-gradient-to-b from-background via-card to-background/95 border-r border-border/50">
       {/* Header */}
@@ -170,6 +221,11 @@ export function PremiumEventSidebar({
                                   Live
                                 </Badge>
                               )}
+                              {status === 'ended' && (
+                                <Badge variant="outline" className="text-xs">
+                                  Ended
+                                </Badge>
+                              )}
                             </div>
 
                             <h3 className="font-semibold text-lg text-foreground mb-2 line-clamp-2 group-hover:text-accent-foreground transition-colors">
@@ -294,6 +350,63 @@ export function PremiumEventSidebar({
                                 </div>
                               </div>
 
+                              {/* Transcript Upload */}
+                              {(status === 'active' || status === 'ended') && (
+                                <div className="space-y-2">
+                                  <p className="text-xs font-semibold text-foreground uppercase tracking-wider">
+                                    Transcript
+                                  </p>
+                                  <input
+                                    ref={element => { transcriptInputs.current[event.id] = element; }}
+                                    type="file"
+                                    accept=".vtt,.srt,.txt,text/vtt,text/plain"
+                                    className="hidden"
+                                    data-testid={`input-transcript-${event.id}`}
+                                    onChange={(e) => {
+                                      const file = e.target.files?.[0];
+                                      if (file) {
+                                        handleTranscriptFile(event, file);
+                                      }
+                                      e.target.value = '';
+                                    }}
+                                  />
+                                  <Button
+                                    variant="outline"
+                                    size="sm"
+                                    disabled={transcriptUploads[event.id]?.status === 'uploading'}
+                                    onClick={() => transcriptInputs.current[event.id]?.click()}
+                                    className="w-full hover:bg-muted/50"
+                                    data-testid={`button-upload-transcript-${event.id}`}
+                                  >
+                                    {transcriptUploads[event.id]?.status === 'uploading' ? (
+                                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                    ) : (
+                                      <FileText className="h-4 w-4 mr-2" />
+                                    )}
+                                    Upload Transcript
+                                  </Button>
+                                  {(status === 'ended' || transcriptUploads[event.id]?.status === 'done') && (
+                                    <Button
+                                      variant="outline"
+                                      size="sm"
+                                      onClick={() => setMinutesMeetingId(event.id)}
+                                      className="w-full hover:bg-muted/50"
+                                      data-testid={`button-review-minutes-${event.id}`}
+                                    >
+                                      <Mail className="h-4 w-4 mr-2" />
+                                      Review & Send Minutes
+                                    </Button>
+                                  )}
+                                  {transcriptUploads[event.id] && (
+                                    <p className={`text-xs ${
+                                      transcriptUploads[event.id].status === 'error' ? 'text-destructive' : 'text-muted-foreground'
+                                    }`}>
+                                      {transcriptUploads[event.id].message}
+                                    </p>
+                                  )}
+                                </div>
+                              )}
+
                               {/* Delete Button */}
                               <div className="pt-2 border-t border-border/20">
                                 <AlertDialog>
@@ -367,6 +480,14 @@ export function PremiumEventSidebar({
           )}
         </div>
       </ScrollArea>
+
+      {minutesMeetingId && (
+        <MeetingMinutesDialog
+          meetingId={minutesMeetingId}
+          open={!!minutesMeetingId}
+          onOpenChange={(open) => !open && setMinutesMeetingId(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, type DragEvent } from 'react';
 import { motion, AnimatePresence, Reorder } from 'framer-motion';
 import {
   CheckCircle, Circle, AlertCircle, Plus, Clock,
@@ -9,17 +9,8 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { format, isPast } from 'date-fns';
+import type { Task } from '@/hooks/useTasks';
 
-interface Task {
-  id: string;
-  title: string;
-  description?: string;
-  assignee: string;
-  deadline?: Date;
-  status: 'pending' | 'in_progress' | 'completed';
-  eventTitle?: string;
-  priority?: 'low' | 'medium' | 'high';
-}
 
 interface PremiumTaskBoardProps {
   tasks: Task[];
@@ -58,10 +49,21 @@ export function PremiumTaskBoard({
   onTaskClick,
   onAddTask
 }: PremiumTaskBoardProps) {
+  const [dropTarget, setDropTarget] = useState<Task['status'] | null>(null);
   const getTasksByStatus = (status: Task['status']) => {
     return tasks.filter(task => task.status === status);
   };
 
+  // Moving a card to another column changes its status
+  const handleDrop = (e: DragEvent, status: Task['status']) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const task = tasks.find(t => t.id === e.dataTransfer.getData('text/plain'));
+    if (task && task.status !== status) {
+      onUpdateTaskStatus(task.id, status);
+    }
+  };
+
   const getPriorityColor = (priority?: string) => {
     switch (priority) {
       case 'high': return 'bg-red-100 text-red-800 dark:bg-red-900/20 dark:text-red-400';
@@ -113,7 +115,17 @@ export function PremiumTaskBoard({
             const IconComponent = column.icon;
 
             return (
-              <div key={column.status} className="flex flex-col">
+              <div
+                key={column.status}
+                className={`flex flex-col rounded-xl transition-colors ${dropTarget === column.status ? 'bg-muted/50' : ''}`}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  setDropTarget(column.status);
+                }}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(e) => handleDrop(e, column.status)}
+                data-testid={`task-column-${column.status}`}
+              >
                 {/* Column Header */}
                 <div className={`bg-gradient-to-r ${column.color} p-4 rounded-xl mb-4`}>
                   <div className="flex items-center justify-between">
@@ -144,7 +156,9 @@ export function PremiumTaskBoard({
                         className="group"
                       >
                         <Card className={`${column.bgColor} hover:shadow-lg transition-all duration-300 border-0 cursor-pointer`}
-                              onClick={() => onTaskClick(task)}>
+                              onClick={() => onTaskClick(task)}
+                              draggable
+                              onDragStart={(e) => e.dataTransfer.setData('text/plain', task.id)}>
                           <CardContent className="p-4">
                             <div className="space-y-3">
                               {/* Task Header */}
@@ -181,6 +195,15 @@ export function PremiumTaskBoard({
                                 )}
                               </div>
 
+                              {/* Category and Estimate */}
+                              {(task.category || task.estimatedHours) && (
+                                <div className="flex items-center gap-1.5 text-xs text-gray-500 dark:text-gray-400">
+                                  {task.category && <span className="capitalize">{task.category}</span>}
+                                  {task.category && task.estimatedHours && <span>·</span>}
+                                  {task.estimatedHours && <span>{task.estimatedHours}h estimate</span>}
+                                </div>
+                              )}
+
                               {/* Event Association */}
                               {task.eventTitle && (
                                 <div className="flex items-center gap-1.5">
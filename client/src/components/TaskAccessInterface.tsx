@@ -8,16 +8,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
-import { Input } from '@/components/ui/input';
-import { Label } from '@/components/ui/label';
 import { format, isPast } from 'date-fns';
-import {
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from '@/components/ui/select';
 
 interface Task {
   id: string;
@@ -37,159 +28,126 @@ interface Task {
 interface MeetingData {
   id: string;
   title: string;
-  date: Date;
+  date: Date | null;
   attendees: Array<{
-    email: string;
-    firstName?: string;
-    lastName?: string;
+    email?: string;
+    name: string;
+  }>;
+}
+
+/**
+ * Response of GET /api/task-access/verify for a valid task link
+ */
+export interface TaskAccessDetails {
+  attendeeEmail: string;
+  expiresAt: string;
+  meeting: {
+    id: string;
+    title: string;
+    startTime: string | null;
+  };
+  tasks: Array<{
+    id: string;
+    title: string;
+    description: string | null;
+    assignee: string;
+    assigneeEmail: string | null;
+    deadline: string | null;
+    status: Task['status'];
+    priority: NonNullable<Task['priority']>;
+    category: string;
+    estimatedHours: number | null;
   }>;
 }
 
 interface TaskAccessInterfaceProps {
-  meetingId: string;
-  magicToken: string;
-  onTaskUpdate: (taskId: string, status: Task['status']) => void;
+  access: TaskAccessDetails;
+  onTaskUpdate: (taskId: string, status: Task['status']) => Promise<void>;
   onBackToDashboard?: () => void;
 }
 
+// Everyone who has a task in the meeting, for the overview panel
+function getAttendees(tasks: Task[]): MeetingData['attendees'] {
+  const attendees = new Map<string, MeetingData['attendees'][number]>();
+  for (const task of tasks) {
+    const key = task.assigneeEmail?.toLowerCase() || task.assignee;
+    if (!attendees.has(key)) {
+      attendees.set(key, { email: task.assigneeEmail, name: task.assignee });
+    }
+  }
+  return Array.from(attendees.values());
+}
+
 export function TaskAccessInterface({
-  meetingId,
-  magicToken,
+  access,
   onTaskUpdate,
   onBackToDashboard
 }: TaskAccessInterfaceProps) {
-  const [currentUser, setCurrentUser] = useState<{
-    email: string;
-    name: string;
-  } | null>(null);
-  const [meetingData, setMeetingData] = useState<MeetingData | null>(null);
   const [tasks, setTasks] = useState<Task[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
   const [userTasks, setUserTasks] = useState<Task[]>([]);
   const [allTasks, setAllTasks] = useState<Task[]>([]);
 
-  // Load meeting data and tasks
-  useEffect(() => {
-    loadMeetingData();
-  }, [meetingId]);
-
-  // Filter tasks based on current user
-  useEffect(() => {
-    if (currentUser && tasks.length > 0) {
-      const userEmail = currentUser.email.toLowerCase();
-      const filteredTasks = tasks.filter(task =>
-        task.assigneeEmail?.toLowerCase() === userEmail ||
-        task.assignee.toLowerCase().includes(currentUser.name.toLowerCase().split(' ')[0])
-      );
-      setUserTasks(filteredTasks);
+  // The signed link identifies the attendee, so there is no need to ask who they are
+  const userEmail = access.attendeeEmail.toLowerCase();
+  const ownTask = tasks.find(task => task.assigneeEmail?.toLowerCase() === userEmail);
+  const currentUser = {
+    email: access.attendeeEmail,
+    name: ownTask?.assignee || access.attendeeEmail.split('@')[0]
+  };
 
-      // Also show all tasks for context
-      setAllTasks(tasks);
-    }
-  }, [currentUser, tasks]);
+  const meetingData: MeetingData = {
+    id: access.meeting.id,
+    title: access.meeting.title,
+    date: access.meeting.startTime ? new Date(access.meeting.startTime) : null,
+    attendees: getAttendees(tasks)
+  };
 
-  const loadMeetingData = async () => {
-    try {
-      setIsLoading(true);
-      // In a real implementation, this would fetch from your API
-      // For now, we'll use mock data
-      const mockMeetingData: MeetingData = {
-        id: meetingId,
-        title: 'Q4 Planning Meeting',
-        date: new Date(),
-        attendees: [
-          { email: 'sarah@example.com', firstName: 'Sarah', lastName: 'Johnson' },
-          { email: 'mike@example.com', firstName: 'Mike', lastName: 'Chen' },
-          { email: 'alex@example.com', firstName: 'Alex', lastName: 'Rodriguez' }
-        ]
-      };
+  // Load tasks from the verified link
+  useEffect(() => {
+    setTasks(access.tasks.map(task => ({
+      id: task.id,
+      title: task.title,
+      description: task.description ?? undefined,
+      assignee: task.assignee,
+      assigneeEmail: task.assigneeEmail ?? undefined,
+      deadline: task.deadline ? new Date(task.deadline) : undefined,
+      status: task.status,
+      eventTitle: access.meeting.title,
+      eventId: access.meeting.id,
+      priority: task.priority,
+      category: task.category,
+      estimatedHours: task.estimatedHours ?? undefined
+    })));
+  }, [access]);
+
+  // Only tasks assigned to the link's attendee can be updated from here
+  useEffect(() => {
+    setUserTasks(tasks.filter(task => task.assigneeEmail?.toLowerCase() === userEmail));
 
-      const mockTasks: Task[] = [
-        {
-          id: '1',
-          title: 'Prepare Q4 budget presentation',
-          description: 'Create slides covering Q4 budget projections and resource allocation',
-          assignee: 'Sarah Johnson',
-          assigneeEmail: 'sarah@example.com',
-          deadline: new Date(Date.now() + 3 * 24 * 60 * 60 * 1000),
-          status: 'pending',
-          eventTitle: 'Q4 Planning Meeting',
-          eventId: meetingId,
-          priority: 'high',
-          category: 'presentation',
-          estimatedHours: 8
-        },
-        {
-          id: '2',
-          title: 'Review competitive analysis',
-          description: 'Analyze competitor strategies and market positioning',
-          assignee: 'Mike Chen',
-          assigneeEmail: 'mike@example.com',
-          deadline: new Date(Date.now() + 5 * 24 * 60 * 60 * 1000),
-          status: 'in_progress',
-          eventTitle: 'Q4 Planning Meeting',
-          eventId: meetingId,
-          priority: 'medium',
-          category: 'research',
-          estimatedHours: 4
-        },
-        {
-          id: '3',
-          title: 'Update project timeline',
-          description: 'Revise project milestones based on Q4 planning decisions',
-          assignee: 'Alex Rodriguez',
-          assigneeEmail: 'alex@example.com',
-          deadline: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-          status: 'pending',
-          eventTitle: 'Q4 Planning Meeting',
-          eventId: meetingId,
-          priority: 'medium',
-          category: 'planning',
-          estimatedHours: 3
-        }
-      ];
+    // Also show all tasks for context
+    setAllTasks(tasks);
+  }, [userEmail, tasks]);
 
-      setMeetingData(mockMeetingData);
-      setTasks(mockTasks);
-    } catch (error) {
-      console.error('Error loading meeting data:', error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
+  const handleTaskStatusUpdate = async (taskId: string, newStatus: Task['status']) => {
+    const previousStatus = tasks.find(task => task.id === taskId)?.status;
 
-  const handleUserSelect = (email: string) => {
-    const attendee = meetingData?.attendees.find(a => a.email === email);
-    if (attendee) {
-      setCurrentUser({
-        email: attendee.email,
-        name: `${attendee.firstName} ${attendee.lastName}`.trim()
-      });
-    }
-  };
+    // Update local state immediately for better UX
+    setTasks(prevTasks =>
+      prevTasks.map(task =>
+        task.id === taskId ? { ...task, status: newStatus } : task
+      )
+    );
 
-  const handleTaskStatusUpdate = async (taskId: string, newStatus: Task['status']) => {
     try {
-      // Update local state immediately for better UX
+      await onTaskUpdate(taskId, newStatus);
+    } catch (error) {
+      console.error('Error updating task status:', error);
+      // Revert on error
       setTasks(prevTasks =>
         prevTasks.map(task =>
-          task.id === taskId ? { ...task, status: newStatus } : task
+          task.id === taskId && previousStatus ? { ...task, status: previousStatus } : task
         )
       );
-
-      // Call the parent update function
-      onTaskUpdate(taskId, newStatus);
-
-      // In a real implementation, you would also send this to your backend
-      // await fetch(`/api/tasks/${taskId}`, {
-      //   method: 'PATCH',
-      //   headers: { 'Content-Type': 'application/json' },
-      //   body: JSON.stringify({ status: newStatus })
-      // });
-    } catch (error) {
-      console.error('Error updating task status:', error);
-      // Revert on error
-      loadMeetingData();
     }
   };
 
@@ -220,80 +178,6 @@ export function TaskAccessInterface({
     return taskList.filter(task => task.status === status);
   };
 
-  if (isLoading) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center">
-        <div className="text-center">
-          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600 dark:text-gray-400">Loading meeting tasks...</p>
-        </div>
-      </div>
-    );
-  }
-
-  if (!meetingData) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-red-50 to-pink-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center">
-        <Card className="max-w-md mx-auto">
-          <CardContent className="p-6 text-center">
-            <div className="text-red-500 mb-4">
-              <AlertCircle className="h-12 w-12 mx-auto" />
-            </div>
-            <h2 className="text-xl font-semibold mb-2">Meeting Not Found</h2>
-            <p className="text-gray-600 dark:text-gray-400 mb-4">
-              The meeting you're looking for could not be found or the link has expired.
-            </p>
-            {onBackToDashboard && (
-              <Button onClick={onBackToDashboard} variant="outline">
-                <ArrowLeft className="h-4 w-4 mr-2" />
-                Back to Dashboard
-              </Button>
-            )}
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
-  if (!currentUser) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center p-4">
-        <Card className="max-w-md mx-auto">
-          <CardHeader className="text-center">
-            <div className="w-16 h-16 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-full flex items-center justify-center mx-auto mb-4">
-              <Users className="h-8 w-8 text-white" />
-            </div>
-            <CardTitle className="text-2xl">Welcome to Your Meeting Tasks</CardTitle>
-            <p className="text-gray-600 dark:text-gray-400">
-              Please select your identity to view and manage your tasks for "{meetingData.title}"
-            </p>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="user-select">Select Your Name</Label>
-              <Select onValueChange={handleUserSelect}>
-                <SelectTrigger>
-                  <SelectValue placeholder="Choose your name from the attendee list" />
-                </SelectTrigger>
-                <SelectContent>
-                  {meetingData.attendees.map((attendee) => (
-                    <SelectItem key={attendee.email} value={attendee.email}>
-                      {attendee.firstName} {attendee.lastName} ({attendee.email})
-                    </SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-            </div>
-
-            <div className="text-center text-sm text-gray-500 dark:text-gray-400">
-              <p>Don't see your name? Contact the meeting organizer.</p>
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-    );
-  }
-
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-gray-800">
       {/* Header */}
@@ -312,7 +196,7 @@ export function TaskAccessInterface({
                   {meetingData.title}
                 </h1>
                 <p className="text-sm text-gray-600 dark:text-gray-400">
-                  Tasks for {currentUser.name} • {format(meetingData.date, 'MMMM d, yyyy')}
+                  Tasks for {currentUser.name}{meetingData.date && ` • ${format(meetingData.date, 'MMMM d, yyyy')}`}
                 </p>
               </div>
             </div>
@@ -466,9 +350,11 @@ export function TaskAccessInterface({
                   <h3 className="font-medium text-gray-900 dark:text-white mb-2">
                     {meetingData.title}
                   </h3>
-                  <p className="text-sm text-gray-600 dark:text-gray-400">
-                    {format(meetingData.date, 'EEEE, MMMM d, yyyy')}
-                  </p>
+                  {meetingData.date && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {format(meetingData.date, 'EEEE, MMMM d, yyyy')}
+                    </p>
+                  )}
                 </div>
 
                 <div>
@@ -477,16 +363,16 @@ export function TaskAccessInterface({
                   </h4>
                   <div className="space-y-2">
                     {meetingData.attendees.map((attendee) => (
-                      <div key={attendee.email} className="flex items-center gap-2">
+                      <div key={attendee.email || attendee.name} className="flex items-center gap-2">
                         <Avatar className="h-6 w-6">
                           <AvatarFallback className="text-xs bg-gradient-to-br from-gray-500 to-gray-600 text-white">
-                            {attendee.firstName?.[0]}{attendee.lastName?.[0]}
+                            {attendee.name.split(' ').map(n => n[0]).join('').slice(0, 2)}
                           </AvatarFallback>
                         </Avatar>
                         <span className="text-sm text-gray-600 dark:text-gray-400">
-                          {attendee.firstName} {attendee.lastName}
+                          {attendee.name}
                         </span>
-                        {attendee.email === currentUser.email && (
+                        {attendee.email?.toLowerCase() === userEmail && (
                           <Badge variant="outline" className="text-xs">You</Badge>
                         )}
                       </div>
@@ -0,0 +1,163 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { Copy, Link2, Loader2, RefreshCw, ShieldOff } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { apiRequest } from '@/lib/queryClient';
+import { format, isPast } from 'date-fns';
+
+interface TaskAccessLink {
+  id: string;
+  attendeeEmail: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
+interface TaskAccessLinksPanelProps {
+  meetingId: string;
+  meetingTitle?: string;
+  attendees: { email: string; name?: string }[];
+}
+
+const getLinkStatus = (link: TaskAccessLink): 'active' | 'revoked' | 'expired' => {
+  if (link.revokedAt) return 'revoked';
+  if (isPast(new Date(link.expiresAt))) return 'expired';
+  return 'active';
+};
+
+/**
+ * Lets the organizer see, revoke and reissue the task links sent to each attendee
+ */
+export function TaskAccessLinksPanel({ meetingId, meetingTitle, attendees }: TaskAccessLinksPanelProps) {
+  const queryClient = useQueryClient();
+  const linksKey = ['taskAccessLinks', meetingId];
+  // URLs are only known right after issuing; the server stores no tokens
+  const [issuedUrls, setIssuedUrls] = useState<Record<string, string>>({});
+
+  const { data, isLoading } = useQuery({
+    queryKey: linksKey,
+    queryFn: async (): Promise<{ links: TaskAccessLink[] }> => {
+      const response = await apiRequest('GET', `/api/meetings/${meetingId}/task-links`);
+      return response.json();
+    }
+  });
+
+  const issueMutation = useMutation({
+    mutationFn: async (attendeeEmails: string[]) => {
+      const response = await apiRequest('POST', `/api/meetings/${meetingId}/task-links`, { attendeeEmails, meetingTitle });
+      return response.json() as Promise<{ links: Array<TaskAccessLink & { url: string }> }>;
+    },
+    onSuccess: (result) => {
+      setIssuedUrls(current => ({
+        ...current,
+        ...Object.fromEntries(result.links.map(link => [link.attendeeEmail, link.url]))
+      }));
+      queryClient.invalidateQueries({ queryKey: linksKey });
+    }
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      await apiRequest('DELETE', `/api/task-links/${linkId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: linksKey });
+    }
+  });
+
+  // The newest link per attendee is the one that matters; older ones were revoked on reissue
+  const latestLinks = new Map<string, TaskAccessLink>();
+  for (const link of data?.links || []) {
+    if (!latestLinks.has(link.attendeeEmail)) {
+      latestLinks.set(link.attendeeEmail, link);
+    }
+  }
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Each attendee gets a personal link to their tasks. Reissuing a link revokes the previous one.
+      </p>
+
+      {attendees.map(attendee => {
+        const email = attendee.email.toLowerCase();
+        const link = latestLinks.get(email);
+        const status = link ? getLinkStatus(link) : undefined;
+        const url = issuedUrls[email];
+
+        return (
+          <div key={email} className="rounded-lg border p-3 space-y-2" data-testid={`task-link-${email}`}>
+            <div className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <p className="text-sm font-medium truncate">{attendee.name || attendee.email}</p>
+                {link && (
+                  <p className="text-xs text-muted-foreground">
+                    {status === 'active' && `Expires ${format(new Date(link.expiresAt), 'MMM d, yyyy')}`}
+                    {status === 'expired' && `Expired ${format(new Date(link.expiresAt), 'MMM d, yyyy')}`}
+                    {status === 'revoked' && `Revoked ${format(new Date(link.revokedAt!), 'MMM d, yyyy')}`}
+                    {link.lastUsedAt && ` • Last opened ${format(new Date(link.lastUsedAt), 'MMM d, h:mm a')}`}
+                  </p>
+                )}
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                {status && (
+                  <Badge variant={status === 'active' ? 'secondary' : 'outline'}>
+                    {status === 'active' ? 'Active' : status === 'revoked' ? 'Revoked' : 'Expired'}
+                  </Badge>
+                )}
+                {status === 'active' && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate(link!.id)}
+                  >
+                    <ShieldOff className="h-4 w-4 mr-1" />
+                    Revoke
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={issueMutation.isPending}
+                  onClick={() => issueMutation.mutate([attendee.email])}
+                >
+                  {link ? <RefreshCw className="h-4 w-4 mr-1" /> : <Link2 className="h-4 w-4 mr-1" />}
+                  {link ? 'Reissue' : 'Issue link'}
+                </Button>
+              </div>
+            </div>
+
+            {url && (
+              <div className="flex items-center gap-2">
+                <code className="text-xs bg-muted rounded px-2 py-1 truncate flex-1">{url}</code>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => navigator.clipboard.writeText(url)}
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {(issueMutation.error || revokeMutation.error) && (
+        <p className="text-sm text-destructive">{((issueMutation.error || revokeMutation.error) as Error).message}</p>
+      )}
+    </div>
+  );
+}
@@ -6,7 +6,8 @@ import {
   MeetingTypeSelection,
   AttendeeManagement,
   MeetingApproval,
-  AgendaApproval
+  AgendaApproval,
+  MeetingEditApproval
 } from '../ConversationalMeetingUIBlocks';
 import type { AttendeeData } from '../../../../shared/schema';
 
@@ -342,6 +343,52 @@ describe('ConversationalMeetingUIBlocks', () => {
       expect(screen.getByText('No attendees')).toBeInTheDocument();
       expect(screen.queryByText('Agenda')).not.toBeInTheDocument();
     });
+
+    it('should show recurrence summary and conflicting occurrences', () => {
+      const recurringProps = {
+        ...defaultProps,
+        data: {
+          ...defaultProps.data,
+          recurrence: {
+            rrule: 'RRULE:FREQ=WEEKLY;BYDAY=MO',
+            summary: 'Every week on Monday',
+            occurrencesChecked: 10,
+            conflictingOccurrences: [
+              {
+                startTime: '2024-01-22T10:00:00Z',
+                endTime: '2024-01-22T11:00:00Z',
+                conflicts: ['Quarterly Planning']
+              }
+            ]
+          }
+        }
+      };
+
+      render(<MeetingApproval {...recurringProps} />);
+
+      expect(screen.getByTestId('recurrence-summary')).toHaveTextContent('Every week on Monday');
+      expect(screen.getByText('1 of the first 10 occurrences conflict:')).toBeInTheDocument();
+      expect(screen.getByTestId('recurrence-conflict-0')).toHaveTextContent('Quarterly Planning');
+    });
+
+    it('should report a conflict-free recurring series', () => {
+      const recurringProps = {
+        ...defaultProps,
+        data: {
+          ...defaultProps.data,
+          recurrence: {
+            rrule: 'RRULE:FREQ=WEEKLY;BYDAY=MO',
+            summary: 'Every week on Monday',
+            occurrencesChecked: 10,
+            conflictingOccurrences: []
+          }
+        }
+      };
+
+      render(<MeetingApproval {...recurringProps} />);
+
+      expect(screen.getByText('No conflicts in the first 10 occurrences')).toBeInTheDocument();
+    });
   });
 
   describe('AgendaApproval', () => {
@@ -483,6 +530,43 @@ Content for section 3
     });
   });
 
+  describe('MeetingEditApproval', () => {
+    const mockOnConfirm = vi.fn();
+    const mockOnCancel = vi.fn();
+
+    const defaultProps = {
+      data: {
+        eventId: 'event-123',
+        eventTitle: 'Design Review',
+        diff: [
+          { field: 'time', label: 'Time', before: 'Tue, Jan 8, 2:00 PM - 2:45 PM', after: 'Thu, Jan 10, 3:00 PM - 3:45 PM' }
+        ],
+        changes: { startTime: '2030-01-10T15:00:00.000Z', endTime: '2030-01-10T15:45:00.000Z' },
+        conflicts: ['alice@acme.com is busy at that time'],
+        warnings: [],
+        timeChanged: true
+      },
+      onConfirm: mockOnConfirm,
+      onCancel: mockOnCancel
+    };
+
+    it('should show the before and after values of each change', () => {
+      render(<MeetingEditApproval {...defaultProps} />);
+
+      expect(screen.getByText('Tue, Jan 8, 2:00 PM - 2:45 PM')).toBeInTheDocument();
+      expect(screen.getByText('Thu, Jan 10, 3:00 PM - 3:45 PM')).toBeInTheDocument();
+      expect(screen.getByText('alice@acme.com is busy at that time')).toBeInTheDocument();
+    });
+
+    it('should confirm with the proposed changes', () => {
+      render(<MeetingEditApproval {...defaultProps} />);
+
+      fireEvent.click(screen.getByTestId('button-confirm-edit'));
+
+      expect(mockOnConfirm).toHaveBeenCalledWith('event-123', defaultProps.data.changes);
+    });
+  });
+
   describe('Accessibility and Keyboard Navigation', () => {
     it('should support keyboard navigation in MeetingTypeSelection', async () => {
       const user = userEvent.setup();
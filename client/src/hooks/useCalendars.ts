@@ -0,0 +1,55 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { MeetingTypeCalendars, UpdateCalendarPreferences } from '../../../shared/schema';
+
+export interface GoogleCalendar {
+  id: string; // 'primary' for the user's own calendar
+  summary: string;
+  primary: boolean;
+  accessRole: string;
+  backgroundColor?: string;
+  writable: boolean;
+}
+
+export interface CalendarPreferences {
+  busyCalendarIds: string[];
+  meetingTypeCalendars: MeetingTypeCalendars;
+}
+
+const CALENDARS_KEY = ['calendars'];
+
+/**
+ * The user's Google calendars and which of them count as busy time or receive new meetings
+ */
+export function useCalendars() {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: CALENDARS_KEY,
+    queryFn: async (): Promise<{ calendars: GoogleCalendar[]; preferences: CalendarPreferences }> => {
+      const response = await apiRequest('GET', '/api/calendar/calendars');
+      return response.json();
+    },
+    staleTime: 5 * 60 * 1000
+  });
+
+  const updatePreferences = useMutation({
+    mutationFn: async (changes: UpdateCalendarPreferences): Promise<{ preferences: CalendarPreferences }> => {
+      const response = await apiRequest('PUT', '/api/calendar/preferences', changes);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: CALENDARS_KEY });
+      // The upcoming events list shows the busy calendars
+      queryClient.invalidateQueries({ queryKey: ['calendarEvents'] });
+    }
+  });
+
+  return {
+    calendars: query.data?.calendars || [],
+    preferences: query.data?.preferences,
+    isLoading: query.isLoading,
+    error: query.error,
+    updatePreferences
+  };
+}
@@ -0,0 +1,306 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { apiRequest } from '@/lib/queryClient';
+import type { AgendaTextOperation } from '../../../shared/schema';
+import { applyOperations, diffToOperations, transformOperations } from '../../../shared/agendaOperations';
+
+export interface AgendaCollaborator {
+  id: string;
+  userId: string;
+  name: string;
+  email: string;
+  role: 'owner' | 'editor' | 'viewer';
+  isOnline: boolean;
+  cursor?: { line: number; column: number; color: string };
+}
+
+export interface AgendaSectionLock {
+  id: string;
+  section: string;
+  lockedBy: string;
+  expiresAt: string;
+}
+
+interface AgendaChangeMessage {
+  revision: number;
+  operations: AgendaTextOperation[];
+  clientId?: string;
+}
+
+interface SessionSnapshot {
+  id: string;
+  content: string;
+  revision: number;
+  participants: AgendaCollaborator[];
+}
+
+export type CollaborationStatus = 'idle' | 'connecting' | 'connected' | 'reconnecting' | 'ended';
+
+interface UseCollaborativeAgendaOptions {
+  agendaId?: string;
+  content: string;
+  enabled: boolean;
+  // Called with the merged text whenever someone else's edit arrives; `operations` is what
+  // changed locally (absent when the text was replaced wholesale), for keeping the caret in place
+  onRemoteContent: (content: string, operations?: AgendaTextOperation[]) => void;
+}
+
+const RECONNECT_DELAY = 2000;
+const CURSOR_THROTTLE = 100;
+
+const socketUrl = (sessionId: string) =>
+  `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}/ws/collaborative?sessionId=${encodeURIComponent(sessionId)}`;
+
+/**
+ * Keeps an agenda in sync with everyone else editing it. Local edits are sent as text
+ * operations; remote ones are transformed against edits that are still in flight, so
+ * both sides end up with the same text without locking.
+ */
+export function useCollaborativeAgenda({ agendaId, content, enabled, onRemoteContent }: UseCollaborativeAgendaOptions) {
+  const [status, setStatus] = useState<CollaborationStatus>('idle');
+  const [collaborators, setCollaborators] = useState<AgendaCollaborator[]>([]);
+  const [locks, setLocks] = useState<AgendaSectionLock[]>([]);
+  const [selfId, setSelfId] = useState<string | null>(null);
+
+  const socketRef = useRef<WebSocket | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
+  const clientIdRef = useRef(`client_${Date.now()}_${Math.random().toString(36).slice(2, 9)}`);
+  // Text as of the last change we know about, plus our own edits on top
+  const shadowRef = useRef(content);
+  const revisionRef = useRef<number | null>(null);
+  const pendingRef = useRef<AgendaTextOperation[] | null>(null); // sent, awaiting the server
+  const bufferRef = useRef<AgendaTextOperation[]>([]); // typed while waiting
+  const replayingRef = useRef(false); // holds back sends while missed changes are applied
+  const cursorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onRemoteContentRef = useRef(onRemoteContent);
+  onRemoteContentRef.current = onRemoteContent;
+  // The latest content only seeds a new session; later edits flow through submitContent
+  const contentRef = useRef(content);
+  contentRef.current = content;
+
+  const send = useCallback((message: Record<string, any>) => {
+    if (socketRef.current?.readyState === WebSocket.OPEN) {
+      socketRef.current.send(JSON.stringify(message));
+    }
+  }, []);
+
+  const sendPending = useCallback(() => {
+    if (replayingRef.current || pendingRef.current || bufferRef.current.length === 0 || revisionRef.current === null) {
+      return;
+    }
+    pendingRef.current = bufferRef.current;
+    bufferRef.current = [];
+    send({
+      type: 'operations',
+      sessionId: sessionIdRef.current,
+      baseRevision: revisionRef.current,
+      operations: pendingRef.current,
+      clientId: clientIdRef.current
+    });
+  }, [send]);
+
+  const resetTo = useCallback((session: SessionSnapshot) => {
+    shadowRef.current = session.content;
+    revisionRef.current = session.revision;
+    pendingRef.current = null;
+    bufferRef.current = [];
+    setCollaborators(session.participants);
+    onRemoteContentRef.current(session.content);
+  }, []);
+
+  const applyChange = useCallback((change: AgendaChangeMessage) => {
+    if (revisionRef.current !== null && change.revision <= revisionRef.current) {
+      return; // already seen, e.g. replayed after a reconnect
+    }
+
+    if (change.clientId === clientIdRef.current) {
+      // Our own edit came back: it is acknowledged, send what was typed meanwhile
+      revisionRef.current = change.revision;
+      pendingRef.current = null;
+      sendPending();
+      return;
+    }
+
+    const [pending, afterPending] = transformOperations(pendingRef.current ?? [], change.operations, 'right');
+    const [buffer, remote] = transformOperations(bufferRef.current, afterPending, 'right');
+    pendingRef.current = pendingRef.current ? pending : null;
+    bufferRef.current = buffer;
+    revisionRef.current = change.revision;
+    shadowRef.current = applyOperations(shadowRef.current, remote);
+    onRemoteContentRef.current(shadowRef.current, remote);
+  }, [sendPending]);
+
+  const handleMessage = useCallback((message: any) => {
+    switch (message.type) {
+      case 'joined': {
+        const session: SessionSnapshot = message.session;
+        sessionIdRef.current = session.id;
+        setSelfId(message.collaboratorId);
+        setLocks(message.locks || []);
+        setStatus('connected');
+
+        if (message.missedChanges && revisionRef.current !== null) {
+          // Back after a dropped connection: replay what we missed, then resend unacknowledged edits
+          setCollaborators(session.participants);
+          replayingRef.current = true;
+          message.missedChanges.forEach(applyChange);
+          replayingRef.current = false;
+          // Still pending means the server never got it
+          if (pendingRef.current) {
+            bufferRef.current = [...pendingRef.current, ...bufferRef.current];
+            pendingRef.current = null;
+          }
+          sendPending();
+        } else {
+          resetTo(session);
+        }
+        break;
+      }
+      case 'change':
+        applyChange(message.change);
+        break;
+      case 'resync':
+        if (message.session) {
+          resetTo(message.session);
+        }
+        break;
+      case 'presence':
+        setCollaborators(current => {
+          const others = current.filter(c => c.userId !== message.collaborator.userId);
+          return [...others, message.collaborator];
+        });
+        break;
+      case 'cursor':
+        setCollaborators(current => current.map(c => (c.userId === message.userId ? { ...c, cursor: message.cursor } : c)));
+        break;
+      case 'lockAcquired':
+        setLocks(current => [...current.filter(lock => lock.id !== message.lock.id), message.lock]);
+        break;
+      case 'lockReleased':
+        setLocks(current => current.filter(lock => lock.id !== message.lockId));
+        break;
+      case 'sessionEnded':
+        setStatus('ended');
+        // Detach first so the close handler doesn't try to reconnect
+        socketRef.current?.close();
+        socketRef.current = null;
+        break;
+      case 'error':
+        console.warn('Collaborative agenda error:', message.error);
+        break;
+    }
+  }, [applyChange, resetTo, sendPending]);
+
+  useEffect(() => {
+    if (!enabled || !agendaId) {
+      return;
+    }
+
+    let cancelled = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const connect = () => {
+      const socket = new WebSocket(socketUrl(sessionIdRef.current!));
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        send({
+          type: 'join',
+          sessionId: sessionIdRef.current,
+          sinceRevision: revisionRef.current ?? undefined
+        });
+      };
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Failed to handle collaborative agenda message:', error);
+        }
+      };
+      socket.onclose = () => {
+        if (cancelled || socketRef.current !== socket) {
+          return;
+        }
+        setStatus('reconnecting');
+        reconnectTimer = setTimeout(connect, RECONNECT_DELAY);
+      };
+    };
+
+    const start = async () => {
+      setStatus('connecting');
+      shadowRef.current = contentRef.current;
+      try {
+        // Join the agenda's open session, or open one seeded with our text
+        let session: SessionSnapshot;
+        try {
+          const response = await apiRequest('GET', `/api/collaborative/agendas/${encodeURIComponent(agendaId)}/session`);
+          session = (await response.json()).session;
+        } catch {
+          const response = await apiRequest('POST', '/api/collaborative/sessions', { agendaId, content: contentRef.current });
+          session = (await response.json()).session;
+        }
+        if (cancelled) return;
+
+        sessionIdRef.current = session.id;
+        connect();
+      } catch (error) {
+        console.error('Failed to start collaborative editing:', error);
+        if (!cancelled) setStatus('idle');
+      }
+    };
+
+    start();
+
+    return () => {
+      cancelled = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      if (cursorTimerRef.current) clearTimeout(cursorTimerRef.current);
+      const socket = socketRef.current;
+      socketRef.current = null;
+      if (socket) {
+        if (socket.readyState === WebSocket.OPEN && sessionIdRef.current) {
+          socket.send(JSON.stringify({ type: 'leave', sessionId: sessionIdRef.current }));
+        }
+        socket.close();
+      }
+      sessionIdRef.current = null;
+      revisionRef.current = null;
+      pendingRef.current = null;
+      bufferRef.current = [];
+      setStatus('idle');
+      setCollaborators([]);
+    };
+  }, [agendaId, enabled, handleMessage, send]);
+
+  /**
+   * Records a local edit given the editor's full new text
+   */
+  const submitContent = useCallback((next: string) => {
+    // Refs rather than state, so callers holding an older render's callback still share edits
+    if (revisionRef.current === null || next === shadowRef.current) {
+      return;
+    }
+    bufferRef.current = [...bufferRef.current, ...diffToOperations(shadowRef.current, next)];
+    shadowRef.current = next;
+    sendPending();
+  }, [sendPending]);
+
+  /**
+   * Shares our cursor position, at most every 100ms
+   */
+  const updateCursor = useCallback((line: number, column: number) => {
+    if (cursorTimerRef.current) clearTimeout(cursorTimerRef.current);
+    cursorTimerRef.current = setTimeout(() => {
+      send({ type: 'cursor', sessionId: sessionIdRef.current, line, column });
+    }, CURSOR_THROTTLE);
+  }, [send]);
+
+  return {
+    status,
+    isCollaborating: status === 'connected',
+    // Other people in the session who are online
+    collaborators: collaborators.filter(c => c.id !== selfId && c.isOnline),
+    locks,
+    submitContent,
+    updateCursor
+  };
+}
@@ -0,0 +1,143 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+
+export type TaskStatus = 'pending' | 'in_progress' | 'completed';
+export type TaskPriority = 'high' | 'medium' | 'low';
+
+export interface Task {
+  id: string;
+  title: string;
+  description?: string;
+  assignee: string;
+  assigneeEmail?: string;
+  deadline?: Date;
+  status: TaskStatus;
+  priority?: TaskPriority;
+  category?: string;
+  estimatedHours?: number;
+  eventId?: string;
+  eventTitle?: string;
+}
+
+export interface TaskFilters {
+  status?: TaskStatus[];
+  priority?: TaskPriority[];
+  category?: string;
+  eventId?: string;
+  assignee?: string;
+  search?: string;
+  sortBy?: 'deadline' | 'priority' | 'status' | 'title' | 'createdAt' | 'updatedAt';
+  sortOrder?: 'asc' | 'desc';
+  page?: number;
+  pageSize?: number;
+}
+
+export type NewTask = Omit<Task, 'id' | 'status' | 'eventTitle'> & { status?: TaskStatus };
+export type TaskChanges = Partial<Omit<Task, 'id' | 'eventId' | 'eventTitle'>>;
+
+interface TaskPage {
+  tasks: Task[];
+  totalCount: number;
+  page: number;
+  totalPages: number;
+}
+
+const toTask = (task: any): Task => ({
+  ...task,
+  description: task.description ?? undefined,
+  assigneeEmail: task.assigneeEmail ?? undefined,
+  deadline: task.deadline ? new Date(task.deadline) : undefined,
+  estimatedHours: task.estimatedHours ?? undefined,
+  eventId: task.eventId ?? undefined,
+  eventTitle: task.eventTitle || undefined
+});
+
+const toQueryString = (filters: TaskFilters): string => {
+  const params = new URLSearchParams();
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  });
+  const query = params.toString();
+  return query ? `?${query}` : '';
+};
+
+/**
+ * Tasks stored in the database, with mutations that keep every board in sync.
+ * Status changes are applied optimistically and rolled back if the server rejects them.
+ */
+export function useTasks(filters: TaskFilters = {}) {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading, error } = useQuery({
+    queryKey: ['meetingTasks', filters],
+    queryFn: async (): Promise<TaskPage> => {
+      const response = await apiRequest('GET', `/api/tasks${toQueryString(filters)}`);
+      const data = await response.json();
+      return {
+        tasks: data.tasks.map(toTask),
+        totalCount: data.totalCount,
+        page: data.page,
+        totalPages: data.totalPages
+      };
+    },
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    refetchOnWindowFocus: true,
+  });
+
+  const updateTaskMutation = useMutation({
+    mutationFn: async ({ taskId, changes }: { taskId: string; changes: TaskChanges }) => {
+      const response = await apiRequest('PATCH', `/api/tasks/${taskId}`, changes);
+      return toTask((await response.json()).task);
+    },
+    onMutate: async ({ taskId, changes }) => {
+      await queryClient.cancelQueries({ queryKey: ['meetingTasks'] });
+      const previous = queryClient.getQueriesData<TaskPage>({ queryKey: ['meetingTasks'] });
+
+      queryClient.setQueriesData<TaskPage>({ queryKey: ['meetingTasks'] }, page => page && {
+        ...page,
+        tasks: page.tasks.map(task => task.id === taskId ? { ...task, ...changes } : task)
+      });
+
+      return { previous };
+    },
+    onError: (_error, _variables, context) => {
+      context?.previous.forEach(([queryKey, page]) => queryClient.setQueryData<TaskPage>(queryKey, page));
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: ['meetingTasks'] });
+    }
+  });
+
+  const createTaskMutation = useMutation({
+    mutationFn: async (task: NewTask) => {
+      const response = await apiRequest('POST', '/api/tasks', task);
+      return toTask((await response.json()).task);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['meetingTasks'] });
+    }
+  });
+
+  const deleteTaskMutation = useMutation({
+    mutationFn: async (taskId: string) => {
+      await apiRequest('DELETE', `/api/tasks/${taskId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['meetingTasks'] });
+    }
+  });
+
+  return {
+    tasks: data?.tasks ?? [],
+    totalCount: data?.totalCount ?? 0,
+    page: data?.page ?? 1,
+    totalPages: data?.totalPages ?? 1,
+    isLoading,
+    error,
+    updateTask: (taskId: string, changes: TaskChanges) => updateTaskMutation.mutateAsync({ taskId, changes }),
+    updateTaskStatus: (taskId: string, status: TaskStatus) => updateTaskMutation.mutateAsync({ taskId, changes: { status } }),
+    createTask: createTaskMutation.mutateAsync,
+    deleteTask: deleteTaskMutation.mutateAsync
+  };
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseSSEEvents, streamConversationalChat } from '../chatStream';
+
+const streamResponse = (chunks: string[]) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+  return { ok: true, body } as unknown as Response;
+};
+
+describe('parseSSEEvents', () => {
+  it('should return complete events and keep the incomplete remainder', () => {
+    expect(parseSSEEvents('event: token\ndata: {"text":"Hi"}\n\nevent: done\ndata: {"mess')).toEqual({
+      events: [{ event: 'token', data: '{"text":"Hi"}' }],
+      rest: 'event: done\ndata: {"mess'
+    });
+  });
+
+  it('should join multi-line data and default the event name', () => {
+    expect(parseSSEEvents('data: first\ndata: second\n\nevent: ping\n\n').events).toEqual([
+      { event: 'message', data: 'first\nsecond' }
+    ]);
+  });
+
+  it('should parse events whose chunks split anywhere across event boundaries', () => {
+    const stream = 'event: token\ndata: {"text":"Hello "}\n\nevent: token\ndata: {"text":"there"}\n\nevent: done\ndata: {"message":"Hello there"}\n\n';
+
+    for (const splitAt of [1, 13, 36, 37, 38, 60]) {
+      const first = parseSSEEvents(stream.slice(0, splitAt));
+      const second = parseSSEEvents(first.rest + stream.slice(splitAt));
+
+      expect([...first.events, ...second.events].map(event => event.event)).toEqual(['token', 'token', 'done']);
+      expect(second.rest).toBe('');
+    }
+  });
+});
+
+describe('streamConversationalChat', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should pass tokens from split chunks to onToken and resolve with the done payload', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => streamResponse([
+      'event: token\ndata: {"text":"Hel',
+      'lo "}\n',
+      '\nevent: token\ndata: {"text":"there"}\n\nevent: do',
+      'ne\ndata: {"message":"Hello there","conversationId":"conv-1"}\n\n'
+    ])));
+    const onToken = vi.fn();
+
+    await expect(streamConversationalChat({ message: 'hi' }, onToken)).resolves.toEqual({ message: 'Hello there', conversationId: 'conv-1' });
+    expect(onToken.mock.calls).toEqual([['Hello '], ['there']]);
+    expect(fetch).toHaveBeenCalledWith('/api/chat/conversational/stream', expect.objectContaining({ method: 'POST', body: '{"message":"hi"}' }));
+  });
+
+  it('should reject with the error event message', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => streamResponse([
+      'event: error\ndata: {"error":"Workflow unavailable","conversationId":null}\n\n'
+    ])));
+
+    await expect(streamConversationalChat({ message: 'hi' }, vi.fn())).rejects.toThrow('Workflow unavailable');
+  });
+
+  it('should reject when the stream ends without a done event', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => streamResponse(['event: token\ndata: {"text":"Hel'])));
+
+    await expect(streamConversationalChat({ message: 'hi' }, vi.fn())).rejects.toThrow('Conversational stream ended without a response');
+  });
+});
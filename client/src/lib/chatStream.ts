@@ -0,0 +1,76 @@
+export interface SSEEvent {
+  event: string;
+  data: string;
+}
+
+/**
+ * Parses the complete events in a Server-Sent Events buffer. Events are separated
+ * by a blank line; an incomplete trailing event is returned as `rest` so the next
+ * chunk can be appended to it. Events without data are skipped.
+ */
+export function parseSSEEvents(buffer: string): { events: SSEEvent[]; rest: string } {
+  const events: SSEEvent[] = [];
+  let rest = buffer;
+
+  let boundary: number;
+  while ((boundary = rest.indexOf("\n\n")) !== -1) {
+    const raw = rest.slice(0, boundary);
+    rest = rest.slice(boundary + 2);
+
+    let event = "message";
+    const data: string[] = [];
+    for (const line of raw.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+    }
+    if (data.length > 0) events.push({ event, data: data.join("\n") });
+  }
+
+  return { events, rest };
+}
+
+/**
+ * Client for POST /api/chat/conversational/stream. Assistant text arrives in
+ * "token" events while it is generated; the "done" event carries the full
+ * conversational response, whose message replaces the streamed text.
+ */
+export async function streamConversationalChat<T>(
+  body: unknown,
+  onToken: (text: string) => void,
+): Promise<T> {
+  const res = await fetch("/api/chat/conversational/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    credentials: "include",
+  });
+
+  if (!res.ok || !res.body) {
+    throw new Error("Failed to get response from conversational API");
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    const parsed = parseSSEEvents(buffer + decoder.decode(value, { stream: true }));
+    buffer = parsed.rest;
+
+    for (const { event, data } of parsed.events) {
+      const payload = JSON.parse(data);
+      if (event === "token") {
+        onToken(payload.text);
+      } else if (event === "done") {
+        return payload as T;
+      } else if (event === "error") {
+        throw new Error(payload.error || "Failed to process conversational chat");
+      }
+    }
+  }
+
+  throw new Error("Conversational stream ended without a response");
+}
@@ -15,42 +15,12 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Bot, Calendar, CheckSquare, User, LogOut, Clock, Users, ExternalLink, Video, X } from 'lucide-react';
-import { addDays, addHours } from 'date-fns';
 import { useAuth } from '@/hooks/useAuth';
+import { useTasks, type Task } from '@/hooks/useTasks';
 import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { ConversationalMeetingUIBlock } from '@/components/ConversationalMeetingUIBlocks';
 import { AttendeeData } from '../../../shared/schema';
-
-// Mock data - todo: remove mock functionality when real API is connected
-
-const mockTasks = [
-  {
-    id: '1',
-    title: 'Prepare quarterly business review presentation',
-    description: 'Create slides covering Q3 metrics, achievements, and Q4 roadmap',
-    assignee: 'Sarah Johnson',
-    deadline: addDays(new Date(), 3),
-    status: 'pending' as const,
-    eventTitle: 'Q3 Business Review Meeting'
-  },
-  {
-    id: '2',
-    title: 'Review API documentation',
-    description: 'Go through the new authentication endpoints and update integration',
-    assignee: 'Mike Chen',
-    deadline: addDays(new Date(), 1),
-    status: 'in_progress' as const,
-    eventTitle: 'API Integration Sync'
-  },
-  {
-    id: '3',
-    title: 'Send follow-up email to clients',
-    description: 'Include meeting summary and next steps from discussion',
-    assignee: 'Sarah Johnson',
-    status: 'completed' as const,
-    eventTitle: 'Client Strategy Meeting'
-  }
-];
+import { streamConversationalChat } from '@/lib/chatStream';
 
 // Define the event type
 interface CalendarEvent {
@@ -62,6 +32,7 @@ interface CalendarEvent {
   endTime: Date;
   meetingLink?: string;
   attendees: string[];
+  calendarId?: string;
 }
 
 // Event Card Component
@@ -164,22 +135,14 @@ interface ConversationalResponse {
   };
 }
 
-interface Task {
-  id: string;
-  title: string;
-  description?: string;
-  assignee: string;
-  deadline?: Date;
-  status: 'pending' | 'in_progress' | 'completed';
-  eventTitle?: string;
-}
-
 export default function Dashboard() {
   const { user, logout, isLoggingOut } = useAuth();
   const queryClient = useQueryClient();
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const { tasks, updateTaskStatus, createTask } = useTasks();
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  // Assistant text streamed so far for the pending reply
+  const [streamingText, setStreamingText] = useState('');
 
 
   // New state for conversational API integration
@@ -190,7 +153,10 @@ export default function Dashboard() {
 
 
   // Premium dashboard state
-  const [activeTab, setActiveTab] = useState<'events' | 'tasks'>('events');
+  // Links from Google Tasks open the task board directly (?tab=tasks)
+  const [activeTab, setActiveTab] = useState<'events' | 'tasks'>(() =>
+    new URLSearchParams(window.location.search).get('tab') === 'tasks' ? 'tasks' : 'events'
+  );
   const [isSidebarOpen, setIsSidebarOpen] = useState(true); // Open sidebar by default
   const [sidebarWidth, setSidebarWidth] = useState(400);
 
@@ -356,7 +322,7 @@ export default function Dashboard() {
     }
   };
 
-  const handleApprove = async (meetingId: string) => {
+  const handleApprove = async (meetingId: string, calendarId?: string) => {
     try {
       const response = await fetch('/api/workflow/ui-interaction', {
         method: 'POST',
@@ -367,7 +333,7 @@ export default function Dashboard() {
         body: JSON.stringify({
           blockType: 'meeting_approval',
           action: 'approve',
-          data: { meetingId },
+          data: { meetingId, calendarId },
           conversationId
         })
       });
@@ -494,6 +460,142 @@ export default function Dashboard() {
     }
   };
 
+  const handleSlotSelect = async (startTime: string, endTime: string, meetingId: string) => {
+    try {
+      const response = await fetch('/api/workflow/ui-interaction', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          blockType: 'time_slot_selection',
+          action: 'select_slot',
+          data: { startTime, endTime, meetingId },
+          conversationId
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to select time slot');
+      }
+
+      const data: ConversationalResponse = await response.json();
+      handleWorkflowResponse(data);
+    } catch (error) {
+      handleAPIError(error, 'Failed to select time slot. Please try again.');
+    }
+  };
+
+  const handleKeepOriginalTime = async (meetingId: string) => {
+    try {
+      const response = await fetch('/api/workflow/ui-interaction', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          blockType: 'time_slot_selection',
+          action: 'keep_original',
+          data: { meetingId },
+          conversationId
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to keep requested time');
+      }
+
+      const data: ConversationalResponse = await response.json();
+      handleWorkflowResponse(data);
+    } catch (error) {
+      handleAPIError(error, 'Failed to keep requested time. Please try again.');
+    }
+  };
+
+  const handleRoomSelect = async (roomId: string | null, meetingId: string) => {
+    try {
+      const response = await fetch('/api/workflow/ui-interaction', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          blockType: 'meeting_type_selection',
+          action: roomId ? 'select_room' : 'keep_location',
+          data: { roomId, meetingId },
+          conversationId
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to book meeting room');
+      }
+
+      const data: ConversationalResponse = await response.json();
+      handleWorkflowResponse(data);
+    } catch (error) {
+      handleAPIError(error, 'Failed to book the meeting room. Please try again.');
+    }
+  };
+
+  const handleEditConfirm = async (eventId: string, changes: Record<string, any>) => {
+    try {
+      const response = await fetch('/api/workflow/ui-interaction', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          blockType: 'meeting_edit_approval',
+          action: 'confirm',
+          data: { eventId, changes },
+          conversationId
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to update meeting');
+      }
+
+      const data: ConversationalResponse = await response.json();
+      handleWorkflowResponse(data);
+      queryClient.invalidateQueries({ queryKey: ['calendarEvents'] });
+    } catch (error) {
+      handleAPIError(error, 'Failed to update meeting. Please try again.');
+    }
+  };
+
+  const handleEditCancel = async (eventId: string) => {
+    try {
+      const response = await fetch('/api/workflow/ui-interaction', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        credentials: 'include',
+        body: JSON.stringify({
+          blockType: 'meeting_edit_approval',
+          action: 'cancel',
+          data: { eventId },
+          conversationId
+        })
+      });
+
+      if (!response.ok) {
+        throw new Error('Failed to cancel meeting update');
+      }
+
+      const data: ConversationalResponse = await response.json();
+      handleWorkflowResponse(data);
+    } catch (error) {
+      handleAPIError(error, 'Failed to cancel meeting update. Please try again.');
+    }
+  };
+
   // Comprehensive error handling function
   const handleAPIError = (error: any, fallbackMessage: string) => {
     console.error('API Error:', error);
@@ -555,44 +657,12 @@ export default function Dashboard() {
     refetchOnWindowFocus: true,
   });
 
-  // Fetch tasks from database
-  const { data: dbTasks = [], isLoading: isTasksLoading } = useQuery({
-    queryKey: ['meetingTasks'],
-    queryFn: async (): Promise<Task[]> => {
-      const response = await fetch('/api/tasks', {
-        credentials: 'include'
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to fetch tasks');
-      }
-
-      const data = await response.json();
-      // Convert date strings to Date objects and ensure proper typing
-      return data.tasks.map((task: any) => ({
-        ...task,
-        deadline: task.deadline ? new Date(task.deadline) : undefined,
-        status: task.status as 'pending' | 'in_progress' | 'completed',
-        eventTitle: task.eventTitle || task.meetingTitle || 'Meeting'
-      }));
-    },
-    staleTime: 2 * 60 * 1000, // 2 minutes
-    refetchOnWindowFocus: true,
-  });
-
-  // Use database tasks if available, otherwise fall back to mock tasks
-  const displayTasks = dbTasks.length > 0 ? dbTasks : mockTasks;
-
-  // Update local tasks state when database tasks are fetched
-  useEffect(() => {
-    if (dbTasks.length > 0) {
-      setTasks(dbTasks);
-    }
-  }, [dbTasks]);
-
   const handleDeleteEvent = async (eventId: string) => {
     try {
-      const response = await fetch(`/api/calendar/events/${eventId}`, {
+      // Events from other calendars are deleted from the calendar they are on
+      const calendarId = events.find(event => event.id === eventId)?.calendarId;
+      const query = calendarId ? `?calendarId=${encodeURIComponent(calendarId)}` : '';
+      const response = await fetch(`/api/calendar/events/${eventId}${query}`, {
         method: 'DELETE',
         credentials: 'include'
       });
@@ -643,25 +713,15 @@ export default function Dashboard() {
     setIsLoading(true);
     
     try {
-      // Call the conversational API endpoint instead of basic chat
-      const response = await fetch('/api/chat/conversational', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify({ 
+      // Call the streaming conversational API endpoint instead of basic chat
+      const data = await streamConversationalChat<ConversationalResponse>(
+        {
           message,
           conversationId: conversationId || undefined,
           context: workflowState || undefined
-        })
-      });
-      
-      if (!response.ok) {
-        throw new Error('Failed to get response from conversational API');
-      }
-      
-      const data: ConversationalResponse = await response.json();
+        },
+        (text) => setStreamingText(prev => prev + text)
+      );
       
       // Handle workflow response
       handleWorkflowResponse(data);
@@ -671,40 +731,15 @@ export default function Dashboard() {
       handleAPIError(error, 'Sorry, I encountered an error processing your request. Please try again.');
     } finally {
       setIsLoading(false);
+      setStreamingText('');
     }
   };
 
-  const handleUpdateTaskStatus = async (taskId: string, status: 'pending' | 'in_progress' | 'completed') => {
+  const handleUpdateTaskStatus = async (taskId: string, status: Task['status']) => {
     try {
-      // Update local state immediately for better UX
-      const updatedTasks = tasks.map(task =>
-        task.id === taskId ? { ...task, status } : task
-      );
-      setTasks(updatedTasks);
-
-      // Update in database
-      const response = await fetch(`/api/tasks/${taskId}`, {
-        method: 'PATCH',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        credentials: 'include',
-        body: JSON.stringify({ status })
-      });
-
-      if (!response.ok) {
-        throw new Error('Failed to update task in database');
-      }
-
-      console.log('Task updated:', taskId, status);
-
-      // Refresh tasks from database to ensure consistency
-      queryClient.invalidateQueries({ queryKey: ['meetingTasks'] });
+      await updateTaskStatus(taskId, status);
     } catch (error) {
       console.error('Error updating task status:', error);
-
-      // Revert local state on error
-      queryClient.invalidateQueries({ queryKey: ['meetingTasks'] });
     }
   };
 
@@ -713,14 +748,12 @@ export default function Dashboard() {
     handleSendMessage(message);
   };
 
-  const handleAddTask = (newTask: Omit<Task, 'id' | 'status'>) => {
-    const task: Task = {
-      ...newTask,
-      id: `task-${Date.now()}`,
-      status: 'pending'
-    };
-    setTasks(prev => [...prev, task]);
-    console.log('Task added:', task);
+  const handleAddTask = async (newTask: Omit<Task, 'id' | 'status'>) => {
+    try {
+      await createTask(newTask);
+    } catch (error) {
+      console.error('Error adding task:', error);
+    }
   };
 
   const handleSignOut = () => {
@@ -776,7 +809,7 @@ export default function Dashboard() {
         >
           <MainContentTabs
             tasks={tasks}
-            onTaskUpdate={setTasks}
+            onUpdateTaskStatus={handleUpdateTaskStatus}
             onSidebarUpdate={handleSidebarUpdate}
             onRestartProcess={handleRestartProcess}
             activeTab={activeTab}
@@ -793,11 +826,17 @@ export default function Dashboard() {
         chatMessages={chatMessages}
         onSendMessage={handleSendMessage}
         isLoading={isLoading}
+        streamingText={streamingText}
         activeUIBlock={activeUIBlock}
         onTypeSelect={handleTypeSelect}
         onAttendeesUpdate={handleAttendeesUpdate}
         onContinue={handleContinue}
         onApprove={handleApprove}
+        onSlotSelect={handleSlotSelect}
+        onKeepOriginalTime={handleKeepOriginalTime}
+        onRoomSelect={handleRoomSelect}
+        onEditConfirm={handleEditConfirm}
+        onEditCancel={handleEditCancel}
       />
     </div>
   );
@@ -1,26 +1,45 @@
 import { useEffect, useState } from 'react';
-import { useLocation } from 'wouter';
-import { TaskAccessInterface } from '@/components/TaskAccessInterface';
+import { useSearch } from 'wouter';
+import { TaskAccessInterface, type TaskAccessDetails } from '@/components/TaskAccessInterface';
 
 export default function TaskAccess() {
-  const [location] = useLocation();
-  const searchParams = new URLSearchParams(location.split('?')[1] || '');
-  const meetingId = searchParams.get('meetingId');
+  const searchParams = new URLSearchParams(useSearch());
   const magicToken = searchParams.get('token');
-  const email = searchParams.get('email');
 
+  const [access, setAccess] = useState<TaskAccessDetails | null>(null);
   const [isValidAccess, setIsValidAccess] = useState<boolean | null>(null);
 
   useEffect(() => {
-    // Validate magic link access
-    if (meetingId && magicToken && email) {
-      // In a real implementation, you would validate the token with your backend
-      // For now, we'll assume it's valid if all parameters are present
-      setIsValidAccess(true);
-    } else {
+    if (!magicToken) {
       setIsValidAccess(false);
+      return;
     }
-  }, [meetingId, magicToken, email]);
+
+    // The server checks the link's signature, expiry and whether the organizer revoked it
+    let cancelled = false;
+    fetch(`/api/task-access/verify?token=${encodeURIComponent(magicToken)}`)
+      .then(async response => {
+        if (!response.ok) {
+          throw new Error('Invalid task link');
+        }
+        return response.json() as Promise<TaskAccessDetails>;
+      })
+      .then(details => {
+        if (!cancelled) {
+          setAccess(details);
+          setIsValidAccess(true);
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setIsValidAccess(false);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [magicToken]);
 
   const handleBackToDashboard = () => {
     window.location.href = '/';
@@ -28,12 +47,12 @@ export default function TaskAccess() {
 
   const handleTaskUpdate = async (taskId: string, status: 'pending' | 'in_progress' | 'completed') => {
     try {
-      const response = await fetch(`/api/tasks/${taskId}`, {
+      const response = await fetch(`/api/task-access/tasks/${taskId}`, {
         method: 'PATCH',
         headers: {
           'Content-Type': 'application/json',
+          Authorization: `Bearer ${magicToken}`
         },
-        credentials: 'include',
         body: JSON.stringify({ status })
       });
 
@@ -59,7 +78,7 @@ export default function TaskAccess() {
     );
   }
 
-  if (!isValidAccess) {
+  if (!isValidAccess || !access) {
     return (
       <div className="min-h-screen bg-gradient-to-br from-red-50 to-pink-100 dark:from-gray-900 dark:to-gray-800 flex items-center justify-center">
         <div className="text-center max-w-md mx-auto p-6">
@@ -85,8 +104,7 @@ export default function TaskAccess() {
 
   return (
     <TaskAccessInterface
-      meetingId={meetingId!}
-      magicToken={magicToken!}
+      access={access}
       onTaskUpdate={handleTaskUpdate}
       onBackToDashboard={handleBackToDashboard}
     />
@@ -2,7 +2,7 @@ import { AttendeeData } from '../../../shared/schema';
 
 // Define ConversationalUIBlock type locally
 export interface ConversationalUIBlock {
-  type: 'meeting_type_selection' | 'attendee_management' | 'meeting_approval' | 'agenda_editor';
+  type: 'meeting_type_selection' | 'attendee_management' | 'meeting_approval' | 'agenda_editor' | 'time_slot_selection' | 'meeting_edit_approval';
   data: any;
 }
 
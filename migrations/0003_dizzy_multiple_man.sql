@@ -0,0 +1,14 @@
+CREATE TABLE "user_profiles" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"timezone" text DEFAULT 'UTC' NOT NULL,
+	"working_days" json DEFAULT '[1,2,3,4,5]'::json,
+	"working_hours_start" integer DEFAULT 9 NOT NULL,
+	"working_hours_end" integer DEFAULT 17 NOT NULL,
+	"preferred_meeting_lengths" json DEFAULT '[30,60]'::json,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "user_profiles_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD CONSTRAINT "user_profiles_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
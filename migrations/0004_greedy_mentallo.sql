@@ -0,0 +1,8 @@
+ALTER TABLE "tasks" ADD COLUMN "user_id" varchar;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "assignee_email" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "priority" text DEFAULT 'medium' NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "category" text DEFAULT 'general' NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "estimated_hours" real;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "updated_at" timestamp DEFAULT now();--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+UPDATE "tasks" SET "user_id" = "events"."user_id" FROM "events" WHERE "tasks"."event_id" = "events"."id" AND "tasks"."user_id" IS NULL;
\ No newline at end of file
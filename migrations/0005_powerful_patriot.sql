@@ -0,0 +1,5 @@
+ALTER TABLE "tasks" ADD COLUMN "google_task_id" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "google_task_list_id" text;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "google_task_user_id" varchar;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "google_tasks_sync_enabled" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_google_task_user_id_users_id_fk" FOREIGN KEY ("google_task_user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE "scheduled_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"type" text NOT NULL,
+	"dedupe_key" text NOT NULL,
+	"run_at" timestamp NOT NULL,
+	"status" text DEFAULT 'scheduled' NOT NULL,
+	"payload" json DEFAULT '{}'::json,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"last_error" text,
+	"locked_at" timestamp,
+	"completed_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "scheduled_jobs_dedupe_key_unique" UNIQUE("dedupe_key")
+);
+--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "agenda_reminder_hours" integer DEFAULT 24;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "task_digest_enabled" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "scheduled_jobs" ADD CONSTRAINT "scheduled_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
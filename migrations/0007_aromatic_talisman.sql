@@ -0,0 +1 @@
+ALTER TABLE "meeting_drafts" ADD COLUMN "agenda_document" json;
\ No newline at end of file
@@ -0,0 +1,36 @@
+CREATE TABLE "agenda_changes" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar NOT NULL,
+	"agenda_id" text NOT NULL,
+	"user_id" varchar NOT NULL,
+	"user_name" text NOT NULL,
+	"revision" integer NOT NULL,
+	"change_type" text NOT NULL,
+	"operations" json NOT NULL,
+	"position" json NOT NULL,
+	"content" text,
+	"length" integer,
+	"previous_content" text,
+	"client_id" text,
+	"metadata" json,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "agenda_changes_session_revision_unique" UNIQUE("session_id","revision")
+);
+--> statement-breakpoint
+CREATE TABLE "collaborative_sessions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"agenda_id" text NOT NULL,
+	"owner_id" varchar NOT NULL,
+	"content" text DEFAULT '' NOT NULL,
+	"revision" integer DEFAULT 0 NOT NULL,
+	"participants" json DEFAULT '[]'::json NOT NULL,
+	"settings" json NOT NULL,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"last_activity" timestamp DEFAULT now(),
+	"ended_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "agenda_changes" ADD CONSTRAINT "agenda_changes_session_id_collaborative_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."collaborative_sessions"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "agenda_changes" ADD CONSTRAINT "agenda_changes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "collaborative_sessions" ADD CONSTRAINT "collaborative_sessions_owner_id_users_id_fk" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,17 @@
+CREATE TABLE "agenda_versions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"agenda_id" text NOT NULL,
+	"version" integer NOT NULL,
+	"title" text NOT NULL,
+	"content" text NOT NULL,
+	"created_by" varchar NOT NULL,
+	"author_name" text NOT NULL,
+	"change_type" text NOT NULL,
+	"change_description" text,
+	"restored_from_version" integer,
+	"metadata" json NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	CONSTRAINT "agenda_versions_agenda_version_unique" UNIQUE("agenda_id","version")
+);
+--> statement-breakpoint
+ALTER TABLE "agenda_versions" ADD CONSTRAINT "agenda_versions_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,62 @@
+CREATE TABLE "calendar_sync_conflicts" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"event_id" varchar NOT NULL,
+	"google_event_id" text NOT NULL,
+	"field" text NOT NULL,
+	"base_value" json,
+	"local_value" json,
+	"remote_value" json,
+	"status" text DEFAULT 'open' NOT NULL,
+	"resolution" text,
+	"detected_at" timestamp DEFAULT now(),
+	"resolved_at" timestamp
+);
+--> statement-breakpoint
+CREATE TABLE "calendar_sync_settings" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"auto_sync" boolean DEFAULT true NOT NULL,
+	"sync_on_agenda_update" boolean DEFAULT true NOT NULL,
+	"sync_on_version_change" boolean DEFAULT false NOT NULL,
+	"include_agenda_in_description" boolean DEFAULT true NOT NULL,
+	"update_event_title" boolean DEFAULT false NOT NULL,
+	"notify_on_sync" boolean DEFAULT false NOT NULL,
+	"last_sync_at" timestamp,
+	"sync_errors" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "calendar_sync_settings_user_id_unique" UNIQUE("user_id")
+);
+--> statement-breakpoint
+CREATE TABLE "calendar_sync_states" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"calendar_id" text DEFAULT 'primary' NOT NULL,
+	"sync_token" text,
+	"last_synced_at" timestamp,
+	"last_full_sync_at" timestamp,
+	CONSTRAINT "calendar_sync_states_user_calendar_unique" UNIQUE("user_id","calendar_id")
+);
+--> statement-breakpoint
+CREATE TABLE "calendar_sync_updates" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"agenda_id" text NOT NULL,
+	"calendar_event_id" text NOT NULL,
+	"direction" text DEFAULT 'push' NOT NULL,
+	"update_type" text NOT NULL,
+	"changes" json DEFAULT '[]'::json NOT NULL,
+	"sync_status" text DEFAULT 'pending' NOT NULL,
+	"error_message" text,
+	"created_at" timestamp DEFAULT now(),
+	"synced_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "synced_snapshot" json;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "last_synced_at" timestamp;--> statement-breakpoint
+ALTER TABLE "calendar_sync_conflicts" ADD CONSTRAINT "calendar_sync_conflicts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "calendar_sync_conflicts" ADD CONSTRAINT "calendar_sync_conflicts_event_id_events_id_fk" FOREIGN KEY ("event_id") REFERENCES "public"."events"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "calendar_sync_settings" ADD CONSTRAINT "calendar_sync_settings_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "calendar_sync_states" ADD CONSTRAINT "calendar_sync_states_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "calendar_sync_updates" ADD CONSTRAINT "calendar_sync_updates_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
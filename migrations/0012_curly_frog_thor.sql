@@ -0,0 +1,43 @@
+CREATE TABLE "email_deliveries" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" varchar,
+	"idempotency_key" text NOT NULL,
+	"recipient_email" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"message_id" text,
+	"error" text,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"sent_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "email_deliveries_idempotency_key_unique" UNIQUE("idempotency_key")
+);
+--> statement-breakpoint
+CREATE TABLE "email_jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"type" text NOT NULL,
+	"meeting_id" text NOT NULL,
+	"attendees" json NOT NULL,
+	"meeting_data" json NOT NULL,
+	"agenda_content" json,
+	"minutes" json,
+	"template_version" text NOT NULL,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"retry_count" integer DEFAULT 0 NOT NULL,
+	"max_retries" integer DEFAULT 3 NOT NULL,
+	"retry_config" json NOT NULL,
+	"errors" json DEFAULT '[]'::json NOT NULL,
+	"available_at" timestamp DEFAULT now() NOT NULL,
+	"lease_owner" text,
+	"lease_expires_at" timestamp,
+	"dead_lettered_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"started_at" timestamp,
+	"completed_at" timestamp,
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "email_deliveries" ADD CONSTRAINT "email_deliveries_job_id_email_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."email_jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "email_jobs" ADD CONSTRAINT "email_jobs_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "events" ADD COLUMN "location" text;--> statement-breakpoint
+ALTER TABLE "events" ADD COLUMN "ics_sequence" integer DEFAULT 0 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "calendar_feeds" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"name" text NOT NULL,
+	"url" text,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"refresh_interval_minutes" integer DEFAULT 60 NOT NULL,
+	"content" text,
+	"etag" text,
+	"event_count" integer DEFAULT 0 NOT NULL,
+	"last_fetched_at" timestamp,
+	"next_refresh_at" timestamp,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "calendar_feeds" ADD CONSTRAINT "calendar_feeds_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "events" ADD COLUMN "calendar_id" text DEFAULT 'primary' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "busy_calendar_ids" json DEFAULT '["primary"]'::json;--> statement-breakpoint
+ALTER TABLE "user_profiles" ADD COLUMN "meeting_type_calendars" json DEFAULT '{}'::json;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "ai_usage" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"email" text,
+	"team" text,
+	"function_name" text NOT NULL,
+	"provider" text NOT NULL,
+	"tokens" integer NOT NULL,
+	"cost" real DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ai_usage" ADD CONSTRAINT "ai_usage_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "ai_usage_user_created_idx" ON "ai_usage" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "ai_usage_team_created_idx" ON "ai_usage" USING btree ("team","created_at");
\ No newline at end of file
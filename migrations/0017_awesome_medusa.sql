@@ -0,0 +1 @@
+ALTER TABLE "calendar_sync_states" ADD COLUMN "retry_events" json DEFAULT '[]'::json NOT NULL;
\ No newline at end of file
@@ -1,11 +1,69 @@
 import { Pool } from 'pg';
-import { readFileSync } from 'fs';
+import { readFileSync, readdirSync, existsSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+/**
+ * Imports tasks that were stored as tasks/tasks-<meetingId>.json before tasks moved to Postgres.
+ * Task IDs are kept, so running the import again skips tasks that are already in the table.
+ */
+async function importTaskFiles(pool: Pool) {
+  const tasksDir = join(process.cwd(), 'tasks');
+  if (!existsSync(tasksDir)) {
+    console.log('⏭️  No tasks directory found, skipping task file import\n');
+    return;
+  }
+
+  const files = readdirSync(tasksDir).filter(file => /^tasks-.+\.json$/.test(file));
+  let imported = 0;
+  let skipped = 0;
+
+  for (const file of files) {
+    const data = JSON.parse(readFileSync(join(tasksDir, file), 'utf-8'));
+    const meetingId: string = data.meetingId;
+
+    // Tasks need an owner, which only the meeting's event row can provide
+    const eventResult = await pool.query(
+      'SELECT id, user_id FROM events WHERE id = $1 OR google_event_id = $1 LIMIT 1',
+      [meetingId]
+    );
+    const event = eventResult.rows[0];
+    if (!event) {
+      console.log(`  ⚠️  Skipped ${file} (no event found for meeting ${meetingId})`);
+      skipped += data.tasks?.length || 0;
+      continue;
+    }
+
+    for (const task of data.tasks || []) {
+      const result = await pool.query(
+        `INSERT INTO tasks (id, event_id, user_id, title, description, assignee, assignee_email, deadline, status, priority, category, estimated_hours)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+         ON CONFLICT (id) DO NOTHING`,
+        [
+          task.id,
+          event.id,
+          event.user_id,
+          task.title,
+          task.description || null,
+          task.assignee || 'Unassigned',
+          task.assigneeEmail || null,
+          task.dueDate ? new Date(task.dueDate) : null,
+          task.status || 'pending',
+          task.priority || 'medium',
+          task.category || 'general',
+          task.estimatedHours ?? null
+        ]
+      );
+      imported += result.rowCount || 0;
+    }
+  }
+
+  console.log(`✅ Imported ${imported} tasks from ${files.length} task files (${skipped} skipped)\n`);
+}
+
 async function runMigrations() {
   const DATABASE_URL = process.env.DATABASE_URL;
   
@@ -36,12 +94,27 @@ async function runMigrations() {
     const migrationsDir = join(__dirname, '..', 'migrations');
     const migration1 = readFileSync(join(migrationsDir, '0000_huge_magdalene.sql'), 'utf-8');
     const migration2 = readFileSync(join(migrationsDir, '0001_light_psylocke.sql'), 'utf-8');
+    const migration3 = readFileSync(join(migrationsDir, '0002_awesome_meteorite.sql'), 'utf-8');
+    const migration4 = readFileSync(join(migrationsDir, '0003_dizzy_multiple_man.sql'), 'utf-8');
+    const migration5 = readFileSync(join(migrationsDir, '0004_greedy_mentallo.sql'), 'utf-8');
+    const migration6 = readFileSync(join(migrationsDir, '0005_powerful_patriot.sql'), 'utf-8');
+    const migration7 = readFileSync(join(migrationsDir, '0006_past_whiplash.sql'), 'utf-8');
+    const migration8 = readFileSync(join(migrationsDir, '0007_aromatic_talisman.sql'), 'utf-8');
+    const migration9 = readFileSync(join(migrationsDir, '0008_jazzy_outlaw_kid.sql'), 'utf-8');
+    const migration10 = readFileSync(join(migrationsDir, '0009_colossal_wolverine.sql'), 'utf-8');
+    const migration11 = readFileSync(join(migrationsDir, '0010_unique_cable.sql'), 'utf-8');
+    const migration12 = readFileSync(join(migrationsDir, '0011_material_christian_walker.sql'), 'utf-8');
+    const migration13 = readFileSync(join(migrationsDir, '0012_curly_frog_thor.sql'), 'utf-8');
+    const migration14 = readFileSync(join(migrationsDir, '0013_uneven_spitfire.sql'), 'utf-8');
+    const migration15 = readFileSync(join(migrationsDir, '0014_greedy_doctor_spectrum.sql'), 'utf-8');
+    const migration16 = readFileSync(join(migrationsDir, '0015_dapper_giant_man.sql'), 'utf-8');
+    const migration17 = readFileSync(join(migrationsDir, '0016_confused_tony_stark.sql'), 'utf-8');
 
     // Check which tables already exist
     const checkTablesResult = await pool.query(`
       SELECT table_name FROM information_schema.tables 
       WHERE table_schema = 'public' 
-      AND table_name IN ('users', 'chat_messages', 'events', 'tasks', 'conversation_contexts', 'meeting_drafts')
+      AND table_name IN ('users', 'chat_messages', 'events', 'tasks', 'conversation_contexts', 'meeting_drafts', 'user_profiles')
     `);
     const existingTables = checkTablesResult.rows.map((row: any) => row.table_name);
     
@@ -91,6 +164,396 @@ async function runMigrations() {
       console.log('⏭️  Skipping 0001_light_psylocke.sql (conversation_contexts already exists)\n');
     }
 
+    // Run third migration if events.recurrence_rule doesn't exist
+    const checkRecurrenceColumnResult = await pool.query(`
+      SELECT column_name FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'events' AND column_name = 'recurrence_rule'
+    `);
+    if (checkRecurrenceColumnResult.rows.length === 0) {
+      console.log('📄 Running migration: 0002_awesome_meteorite.sql');
+      const statements3 = splitStatements(migration3);
+      for (let i = 0; i < statements3.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements3.length}...`);
+        try {
+          await pool.query(statements3[i]);
+        } catch (err: any) {
+          // Skip "column already exists" errors
+          if (err.code === '42701') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0002_awesome_meteorite.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0002_awesome_meteorite.sql (events.recurrence_rule already exists)\n');
+    }
+
+    // Run fourth migration if user_profiles doesn't exist
+    if (!existingTables.includes('user_profiles')) {
+      console.log('📄 Running migration: 0003_dizzy_multiple_man.sql');
+      const statements4 = splitStatements(migration4);
+      for (let i = 0; i < statements4.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements4.length}...`);
+        try {
+          await pool.query(statements4[i]);
+        } catch (err: any) {
+          // Skip "already exists" errors
+          if (err.code === '42P07' || err.code === '42710') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0003_dizzy_multiple_man.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0003_dizzy_multiple_man.sql (user_profiles already exists)\n');
+    }
+
+    // Run fifth migration if tasks.priority doesn't exist
+    const checkTaskPriorityColumnResult = await pool.query(`
+      SELECT column_name FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'tasks' AND column_name = 'priority'
+    `);
+    if (checkTaskPriorityColumnResult.rows.length === 0) {
+      console.log('📄 Running migration: 0004_greedy_mentallo.sql');
+      const statements5 = splitStatements(migration5);
+      for (let i = 0; i < statements5.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements5.length}...`);
+        try {
+          await pool.query(statements5[i]);
+        } catch (err: any) {
+          // Skip "column already exists" and "constraint already exists" errors
+          if (err.code === '42701' || err.code === '42710') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0004_greedy_mentallo.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0004_greedy_mentallo.sql (tasks.priority already exists)\n');
+    }
+
+    // Run sixth migration if tasks.google_task_id doesn't exist
+    const checkGoogleTaskColumnResult = await pool.query(`
+      SELECT column_name FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'tasks' AND column_name = 'google_task_id'
+    `);
+    if (checkGoogleTaskColumnResult.rows.length === 0) {
+      console.log('📄 Running migration: 0005_powerful_patriot.sql');
+      const statements6 = splitStatements(migration6);
+      for (let i = 0; i < statements6.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements6.length}...`);
+        try {
+          await pool.query(statements6[i]);
+        } catch (err: any) {
+          // Skip "column already exists" and "constraint already exists" errors
+          if (err.code === '42701' || err.code === '42710') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0005_powerful_patriot.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0005_powerful_patriot.sql (tasks.google_task_id already exists)\n');
+    }
+
+    // Run seventh migration if scheduled_jobs doesn't exist
+    const checkScheduledJobsResult = await pool.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = 'public' AND table_name = 'scheduled_jobs'
+    `);
+    if (checkScheduledJobsResult.rows.length === 0) {
+      console.log('📄 Running migration: 0006_past_whiplash.sql');
+      const statements7 = splitStatements(migration7);
+      for (let i = 0; i < statements7.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements7.length}...`);
+        try {
+          await pool.query(statements7[i]);
+        } catch (err: any) {
+          // Skip "already exists" errors for tables, columns and constraints
+          if (err.code === '42P07' || err.code === '42701' || err.code === '42710') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0006_past_whiplash.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0006_past_whiplash.sql (scheduled_jobs already exists)\n');
+    }
+
+    // Run eighth migration if meeting_drafts.agenda_document doesn't exist
+    const checkAgendaDocumentColumnResult = await pool.query(`
+      SELECT column_name FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'meeting_drafts' AND column_name = 'agenda_document'
+    `);
+    if (checkAgendaDocumentColumnResult.rows.length === 0) {
+      console.log('📄 Running migration: 0007_aromatic_talisman.sql');
+      const statements8 = splitStatements(migration8);
+      for (let i = 0; i < statements8.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements8.length}...`);
+        try {
+          await pool.query(statements8[i]);
+        } catch (err: any) {
+          // Skip "column already exists" errors
+          if (err.code === '42701') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0007_aromatic_talisman.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0007_aromatic_talisman.sql (meeting_drafts.agenda_document already exists)\n');
+    }
+
+    // Run ninth migration if task_access_links doesn't exist
+    const checkTaskAccessLinksResult = await pool.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = 'public' AND table_name = 'task_access_links'
+    `);
+    if (checkTaskAccessLinksResult.rows.length === 0) {
+      console.log('📄 Running migration: 0008_jazzy_outlaw_kid.sql');
+      const statements9 = splitStatements(migration9);
+      for (let i = 0; i < statements9.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements9.length}...`);
+        try {
+          await pool.query(statements9[i]);
+        } catch (err: any) {
+          // Skip "already exists" errors for tables and constraints
+          if (err.code === '42P07' || err.code === '42710') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0008_jazzy_outlaw_kid.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0008_jazzy_outlaw_kid.sql (task_access_links already exists)\n');
+    }
+
+    // Run tenth migration if collaborative_sessions doesn't exist
+    const checkCollaborativeSessionsResult = await pool.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = 'public' AND table_name = 'collaborative_sessions'
+    `);
+    if (checkCollaborativeSessionsResult.rows.length === 0) {
+      console.log('📄 Running migration: 0009_colossal_wolverine.sql');
+      const statements10 = splitStatements(migration10);
+      for (let i = 0; i < statements10.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements10.length}...`);
+        try {
+          await pool.query(statements10[i]);
+        } catch (err: any) {
+          // Skip "already exists" errors for tables and constraints
+          if (err.code === '42P07' || err.code === '42710') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0009_colossal_wolverine.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0009_colossal_wolverine.sql (collaborative_sessions already exists)\n');
+    }
+
+    // Run eleventh migration if agenda_versions doesn't exist
+    const checkAgendaVersionsResult = await pool.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = 'public' AND table_name = 'agenda_versions'
+    `);
+    if (checkAgendaVersionsResult.rows.length === 0) {
+      console.log('📄 Running migration: 0010_unique_cable.sql');
+      const statements11 = splitStatements(migration11);
+      for (let i = 0; i < statements11.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements11.length}...`);
+        try {
+          await pool.query(statements11[i]);
+        } catch (err: any) {
+          // Skip "already exists" errors for tables and constraints
+          if (err.code === '42P07' || err.code === '42710') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0010_unique_cable.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0010_unique_cable.sql (agenda_versions already exists)\n');
+    }
+
+    // Run twelfth migration if calendar_sync_states doesn't exist
+    const checkCalendarSyncResult = await pool.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = 'public' AND table_name = 'calendar_sync_states'
+    `);
+    if (checkCalendarSyncResult.rows.length === 0) {
+      console.log('📄 Running migration: 0011_material_christian_walker.sql');
+      const statements12 = splitStatements(migration12);
+      for (let i = 0; i < statements12.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements12.length}...`);
+        try {
+          await pool.query(statements12[i]);
+        } catch (err: any) {
+          // Skip "already exists" errors for tables, columns and constraints
+          if (err.code === '42P07' || err.code === '42701' || err.code === '42710') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0011_material_christian_walker.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0011_material_christian_walker.sql (calendar_sync_states already exists)\n');
+    }
+
+    // Run thirteenth migration if email_jobs doesn't exist
+    const checkEmailJobsResult = await pool.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = 'public' AND table_name = 'email_jobs'
+    `);
+    if (checkEmailJobsResult.rows.length === 0) {
+      console.log('📄 Running migration: 0012_curly_frog_thor.sql');
+      const statements13 = splitStatements(migration13);
+      for (let i = 0; i < statements13.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements13.length}...`);
+        try {
+          await pool.query(statements13[i]);
+        } catch (err: any) {
+          // Skip "already exists" errors for tables and constraints
+          if (err.code === '42P07' || err.code === '42710') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0012_curly_frog_thor.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0012_curly_frog_thor.sql (email_jobs already exists)\n');
+    }
+
+    // Run fourteenth migration if events.ics_sequence doesn't exist
+    const checkIcsSequenceColumnResult = await pool.query(`
+      SELECT column_name FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'events' AND column_name = 'ics_sequence'
+    `);
+    if (checkIcsSequenceColumnResult.rows.length === 0) {
+      console.log('📄 Running migration: 0013_uneven_spitfire.sql');
+      const statements14 = splitStatements(migration14);
+      for (let i = 0; i < statements14.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements14.length}...`);
+        try {
+          await pool.query(statements14[i]);
+        } catch (err: any) {
+          // Skip "column already exists" errors
+          if (err.code === '42701') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0013_uneven_spitfire.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0013_uneven_spitfire.sql (events.ics_sequence already exists)\n');
+    }
+
+    // Run fifteenth migration if calendar_feeds doesn't exist
+    const checkCalendarFeedsResult = await pool.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = 'public' AND table_name = 'calendar_feeds'
+    `);
+    if (checkCalendarFeedsResult.rows.length === 0) {
+      console.log('📄 Running migration: 0014_greedy_doctor_spectrum.sql');
+      const statements15 = splitStatements(migration15);
+      for (let i = 0; i < statements15.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements15.length}...`);
+        try {
+          await pool.query(statements15[i]);
+        } catch (err: any) {
+          // Skip "already exists" errors for tables and constraints
+          if (err.code === '42P07' || err.code === '42710') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0014_greedy_doctor_spectrum.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0014_greedy_doctor_spectrum.sql (calendar_feeds already exists)\n');
+    }
+
+    // Run sixteenth migration if events.calendar_id doesn't exist
+    const checkCalendarIdColumnResult = await pool.query(`
+      SELECT column_name FROM information_schema.columns
+      WHERE table_schema = 'public' AND table_name = 'events' AND column_name = 'calendar_id'
+    `);
+    if (checkCalendarIdColumnResult.rows.length === 0) {
+      console.log('📄 Running migration: 0015_dapper_giant_man.sql');
+      const statements16 = splitStatements(migration16);
+      for (let i = 0; i < statements16.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements16.length}...`);
+        try {
+          await pool.query(statements16[i]);
+        } catch (err: any) {
+          // Skip "column already exists" errors
+          if (err.code === '42701') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0015_dapper_giant_man.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0015_dapper_giant_man.sql (events.calendar_id already exists)\n');
+    }
+
+    // Run seventeenth migration if ai_usage doesn't exist
+    const checkAIUsageResult = await pool.query(`
+      SELECT table_name FROM information_schema.tables
+      WHERE table_schema = 'public' AND table_name = 'ai_usage'
+    `);
+    if (checkAIUsageResult.rows.length === 0) {
+      console.log('📄 Running migration: 0016_confused_tony_stark.sql');
+      const statements17 = splitStatements(migration17);
+      for (let i = 0; i < statements17.length; i++) {
+        console.log(`  Executing statement ${i + 1}/${statements17.length}...`);
+        try {
+          await pool.query(statements17[i]);
+        } catch (err: any) {
+          // Skip "already exists" errors for tables, constraints and indexes
+          if (err.code === '42P07' || err.code === '42710') {
+            console.log(`  ⚠️  Skipped (already exists)`);
+          } else {
+            throw err;
+          }
+        }
+      }
+      console.log('✅ Migration 0016_confused_tony_stark.sql completed\n');
+    } else {
+      console.log('⏭️  Skipping 0016_confused_tony_stark.sql (ai_usage already exists)\n');
+    }
+
+    // Move tasks from the old JSON task files into the tasks table
+    console.log('📄 Importing task files from tasks/');
+    await importTaskFiles(pool);
+
     console.log('🎉 All migrations completed successfully!\n');
     console.log('Tables created:');
     console.log('  - users');
@@ -98,7 +561,9 @@ async function runMigrations() {
     console.log('  - events');
     console.log('  - tasks');
     console.log('  - conversation_contexts ✅');
-    console.log('  - meeting_drafts\n');
+    console.log('  - meeting_drafts');
+    console.log('  - user_profiles');
+    console.log('  - scheduled_jobs\n');
 
     await pool.end();
   } catch (error) {
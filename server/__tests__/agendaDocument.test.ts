@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  coerceAgendaDocument,
+  foldIcsLine,
+  parseAgendaMarkdown,
+  renderAgendaHtml,
+  renderAgendaIcsDescription,
+  renderAgendaMarkdown,
+  renderAgendaPlainText,
+  toAgendaDocument,
+  toAgendaFields
+} from '../../shared/agendaDocument';
+import type { AgendaDocument } from '../../shared/schema';
+
+const document: AgendaDocument = {
+  version: 1,
+  title: 'Q3 Planning',
+  duration: 60,
+  purpose: 'Agree on Q3 priorities\nand owners',
+  topics: [
+    {
+      id: 'topic-1',
+      title: 'Roadmap review',
+      duration: 20,
+      presenter: 'Priya Patel',
+      description: 'Walk through the draft roadmap',
+      links: [{ title: 'Roadmap', url: 'https://docs.example.com/roadmap' }]
+    },
+    { id: 'topic-2', title: 'Budget', duration: 30, links: [] },
+    { id: 'topic-7', title: 'Wrap-up', duration: 10, links: [] }
+  ],
+  actionItems: [
+    { id: 'action-1', task: 'Share final roadmap', assignee: 'Priya Patel', deadline: '2030-01-10', priority: 'high' },
+    { id: 'action-2', task: 'Book follow-up', priority: 'medium' }
+  ]
+};
+
+describe('Agenda document', () => {
+  it('should round-trip through markdown without losing structure', () => {
+    const markdown = renderAgendaMarkdown(document);
+
+    expect(markdown).toContain('1. **Roadmap review** (20 min)');
+    expect(markdown).toContain('*Presenter: Priya Patel*');
+    expect(markdown).toContain('- [Roadmap](https://docs.example.com/roadmap)');
+    expect(parseAgendaMarkdown(markdown, document)).toEqual(document);
+  });
+
+  it('should keep ids stable when topics are edited as text', () => {
+    const edited = renderAgendaMarkdown(document).replace('**Budget** (30 min)', '**Budget and hiring** (25 min)');
+    const { agendaDocument } = toAgendaFields(edited, document);
+
+    expect(agendaDocument.topics[1]).toMatchObject({ id: 'topic-2', title: 'Budget and hiring', duration: 25 });
+  });
+
+  it('should convert generator output into a versioned document', () => {
+    const converted = toAgendaDocument({
+      title: 'Sync',
+      duration: 30,
+      enhancedPurpose: 'Weekly sync',
+      topics: [{ title: 'Updates', duration: 20 }, { title: 'Blockers', duration: 10 }],
+      actionItems: [{ task: 'Send notes' }]
+    });
+
+    expect(converted).toMatchObject({ version: 1, purpose: 'Weekly sync' });
+    expect(converted.topics.map(topic => topic.id)).toEqual(['topic-1', 'topic-2']);
+    expect(converted.actionItems[0]).toMatchObject({ id: 'action-1', priority: 'medium' });
+  });
+
+  it('should reject documents from an unknown version', () => {
+    expect(() => toAgendaDocument({ ...document, version: 2 } as any)).toThrow('Unsupported agenda document version');
+  });
+
+  it('should read agendas stored as generator JSON or markdown', () => {
+    const fromJson = coerceAgendaDocument(JSON.stringify({ title: 'Sync', duration: 30, topics: [{ title: 'Updates', duration: 30 }], actionItems: [] }));
+    const fromMarkdown = coerceAgendaDocument(renderAgendaMarkdown(document));
+
+    expect(fromJson?.topics[0].title).toBe('Updates');
+    expect(fromMarkdown?.topics.map(topic => topic.title)).toEqual(['Roadmap review', 'Budget', 'Wrap-up']);
+    expect(coerceAgendaDocument('')).toBeUndefined();
+  });
+
+  it('should escape user content in the email rendering', () => {
+    const html = renderAgendaHtml({ ...document, topics: [{ ...document.topics[0], title: '<script>alert(1)</script>' }] });
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).toContain('href="https://docs.example.com/roadmap"');
+  });
+
+  it('should render every topic and action item for the calendar', () => {
+    const text = renderAgendaPlainText(document);
+
+    expect(text).toContain('1. Roadmap review (20 min) - Priya Patel');
+    expect(text).toContain('Roadmap: https://docs.example.com/roadmap');
+    expect(text).toContain('- Share final roadmap (Priya Patel, due 2030-01-10, high)');
+  });
+
+  it('should escape and fold the ICS description', () => {
+    const ics = renderAgendaIcsDescription({ ...document, title: 'Plan; review, ship' });
+    const lines = ics.split('\r\n');
+
+    expect(ics).toContain('Plan\\; review\\, ship');
+    expect(ics).not.toMatch(/[^\r]\n/);
+    expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(lines.slice(1).every(line => line.startsWith(' '))).toBe(true);
+  });
+
+  it('should not split multi-byte characters when folding', () => {
+    const folded = foldIcsLine(`DESCRIPTION:${'ü'.repeat(80)}`);
+
+    expect(folded.split('\r\n ').join('')).toBe(`DESCRIPTION:${'ü'.repeat(80)}`);
+    expect(folded.split('\r\n').every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+  });
+});
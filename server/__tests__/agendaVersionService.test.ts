@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AgendaVersionService, type AgendaVersionStore } from '../agendaVersionService';
+import { diffAgendaLines, diffAgendaSections, diffAgendas, toComparableLines } from '../../shared/agendaDiff';
+import type { AgendaVersionRecord } from '../../shared/schema';
+
+class MemoryAgendaVersionStore implements AgendaVersionStore {
+  versions: AgendaVersionRecord[] = [];
+
+  async insertVersion(version: any) {
+    const latest = await this.getLatestVersion(version.agendaId);
+    const created: AgendaVersionRecord = {
+      changeDescription: null,
+      restoredFromVersion: null,
+      ...version,
+      id: `version-${this.versions.length + 1}`,
+      version: (latest?.version ?? 0) + 1,
+      createdAt: new Date()
+    };
+    this.versions.push(created);
+    return created;
+  }
+
+  async listVersions(agendaId: string, { limit, offset = 0, newestFirst = false }: { limit?: number; offset?: number; newestFirst?: boolean } = {}) {
+    const versions = this.versions.filter(version => version.agendaId === agendaId).sort((a, b) => a.version - b.version);
+    if (newestFirst) versions.reverse();
+    return versions.slice(offset, limit === undefined ? undefined : offset + limit);
+  }
+
+  async countVersions(agendaId: string) {
+    return this.versions.filter(version => version.agendaId === agendaId).length;
+  }
+
+  async getVersion(agendaId: string, version: number) {
+    return this.versions.find(existing => existing.agendaId === agendaId && existing.version === version);
+  }
+
+  async getLatestVersion(agendaId: string) {
+    return (await this.listVersions(agendaId, { newestFirst: true }))[0];
+  }
+
+  async deleteVersions(agendaId: string, beforeVersion?: number) {
+    const before = this.versions.length;
+    this.versions = this.versions.filter(version =>
+      version.agendaId !== agendaId || (beforeVersion !== undefined && version.version >= beforeVersion)
+    );
+    return before - this.versions.length;
+  }
+}
+
+describe('Agenda diffs', () => {
+  it('should pair changed lines side by side and keep unchanged lines aligned', () => {
+    const rows = diffAgendaLines(
+      ['# Sync', 'Roadmap', 'Budget', 'Wrap-up'],
+      ['# Sync', 'Roadmap review', 'Budget', 'Hiring', 'Wrap-up']
+    );
+
+    expect(rows).toEqual([
+      { type: 'unchanged', oldLineNumber: 1, newLineNumber: 1, oldContent: '# Sync', newContent: '# Sync' },
+      { type: 'modified', oldLineNumber: 2, newLineNumber: 2, oldContent: 'Roadmap', newContent: 'Roadmap review' },
+      { type: 'unchanged', oldLineNumber: 3, newLineNumber: 3, oldContent: 'Budget', newContent: 'Budget' },
+      { type: 'added', newLineNumber: 4, newContent: 'Hiring' },
+      { type: 'unchanged', oldLineNumber: 4, newLineNumber: 5, oldContent: 'Wrap-up', newContent: 'Wrap-up' }
+    ]);
+  });
+
+  it('should compare HTML agendas by their visible text', () => {
+    expect(toComparableLines('<h2>Agenda</h2><h3>Introduction</h3><p>Welcome &amp; goals</p><ul><li>Ground rules</li></ul>'))
+      .toEqual(['## Agenda', '### Introduction', 'Welcome & goals', '- Ground rules']);
+  });
+
+  it('should match sections by title when they are renumbered or retimed', () => {
+    const sections = diffAgendaSections(
+      ['1. **Roadmap** (10 min)', '   Q3 plans', '2. **Budget** (15 min)', '   Spend so far', '3. **Wrap-up** (5 min)'],
+      ['1. **Budget** (20 min)', '   Spend so far', '   Forecast', '2. **Hiring** (10 min)', '3. **Wrap-up** (5 min)']
+    );
+
+    expect(sections).toEqual([
+      { title: 'Roadmap', status: 'removed', additions: 0, deletions: 1 },
+      { title: 'Budget', status: 'modified', additions: 1, deletions: 0 },
+      { title: 'Hiring', status: 'added', additions: 0, deletions: 0 },
+      { title: 'Wrap-up', status: 'unchanged', additions: 0, deletions: 0 }
+    ]);
+  });
+
+  it('should count additions, deletions and modifications', () => {
+    const diff = diffAgendas('# Sync\nA\nB\nC', '# Sync\nA changed\nC\nD');
+
+    expect(diff.stats).toEqual({ additions: 1, deletions: 1, modifications: 1, unchanged: 2 });
+  });
+});
+
+describe('AgendaVersionService', () => {
+  let store: MemoryAgendaVersionStore;
+  let service: AgendaVersionService;
+
+  beforeEach(() => {
+    store = new MemoryAgendaVersionStore();
+    service = new AgendaVersionService(store);
+  });
+
+  it('should record who made each version and how', async () => {
+    const version = await service.createVersion('meeting-1', '<h2>Sync</h2><p>Roadmap review</p>', 'Sync', 'user-1', 'created', {
+      authorName: 'Priya',
+      metadata: { generationMethod: 'ai', qualityScore: 82 }
+    });
+
+    expect(version).toMatchObject({
+      version: 1,
+      authorName: 'Priya',
+      changeType: 'created',
+      metadata: { generationMethod: 'ai', qualityScore: 82, wordCount: 3 }
+    });
+  });
+
+  it('should restore an old version as a new one without rewriting history', async () => {
+    await service.createVersion('meeting-1', '# Sync\nRoadmap', 'Sync', 'user-1', 'created', { metadata: { generationMethod: 'ai', qualityScore: 75 } });
+    await service.createVersion('meeting-1', '# Sync\nBudget', 'Sync', 'user-1', 'edited');
+
+    const restored = await service.restoreVersion('meeting-1', 1, 'user-2', 'Sam');
+
+    expect(restored).toMatchObject({
+      version: 3,
+      content: '# Sync\nRoadmap',
+      changeType: 'restored',
+      restoredFromVersion: 1,
+      authorName: 'Sam',
+      metadata: { generationMethod: 'ai', qualityScore: 75 }
+    });
+    expect((await service.getVersions('meeting-1')).map(version => version.content)).toEqual([
+      '# Sync\nRoadmap',
+      '# Sync\nBudget',
+      '# Sync\nRoadmap'
+    ]);
+    expect(await service.restoreVersion('meeting-1', 9, 'user-2', 'Sam')).toBeUndefined();
+  });
+
+  it('should compare versions with line and section detail', async () => {
+    await service.createVersion('meeting-1', '## Introduction\nWelcome\n## Discussion\nRoadmap', 'Sync', 'user-1', 'created');
+    await service.createVersion('meeting-1', '## Introduction\nWelcome\n## Discussion\nRoadmap\nBudget\n## Action Items\nOwners', 'Sync', 'user-1', 'edited');
+
+    const comparison = await service.compareVersions('meeting-1', 1, 2);
+
+    expect(comparison?.changes).toEqual([
+      { type: 'added', content: 'Budget', lineNumber: 5 },
+      { type: 'added', content: '## Action Items', lineNumber: 6 },
+      { type: 'added', content: 'Owners', lineNumber: 7 }
+    ]);
+    expect(comparison?.sections.filter(section => section.status !== 'unchanged')).toEqual([
+      { title: 'Discussion', status: 'modified', additions: 1, deletions: 0 },
+      { title: 'Action Items', status: 'added', additions: 1, deletions: 0 }
+    ]);
+    expect(comparison?.summary).toMatchObject({ additions: 3, sectionsAdded: 1, overallChange: 'major' });
+    expect(await service.compareVersions('meeting-1', 1, 5)).toBeNull();
+  });
+
+  it('should keep version numbers when old versions are cleaned up', async () => {
+    for (let i = 1; i <= 5; i++) {
+      await service.createVersion('meeting-1', `Draft ${i}`, 'Sync', 'user-1', 'auto_saved');
+    }
+
+    expect(await service.cleanupOldVersions('meeting-1', 2)).toBe(3);
+    expect((await service.getVersions('meeting-1')).map(version => version.version)).toEqual([4, 5]);
+    expect((await service.createVersion('meeting-1', 'Draft 6', 'Sync', 'user-1', 'edited')).version).toBe(6);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AIProviderRegistry, type AIProvider } from '../aiProviderRegistry';
+import { AIRouterService } from '../aiRouterService';
+import { DEFAULT_ROUTING_CONFIG } from '../config/aiRoutingConfig';
+import { AI_OUTPUT_SCHEMAS, parseRepairedOutput } from '../aiOutputSchemas';
+import { usageAnalytics } from '../usageAnalyticsService';
+
+const provider = (name: string, call: AIProvider['call'], deterministic = false): AIProvider => ({
+  name,
+  model: `${name}-model`,
+  capabilities: { functions: ['generateMeetingTitles', 'getGeminiResponse'], streaming: [], local: false, deterministic },
+  call: vi.fn(call)
+});
+
+const titlesRouter = (...providers: AIProvider[]) => new AIRouterService({
+  ...DEFAULT_ROUTING_CONFIG,
+  rules: {
+    generateMeetingTitles: {
+      primaryModel: providers[0].name,
+      fallbackModels: providers.slice(1).map(p => p.name),
+      enableFallback: true,
+      timeout: 1000
+    }
+  },
+  circuitBreaker: Object.fromEntries(providers.map(p => [p.name, { failureThreshold: 5, resetTimeout: 1000, maxRetries: 0 }]))
+}, new AIProviderRegistry(providers));
+
+const twoTitles = { suggestions: ['Design Review', 'Sync'], context: 'Design' };
+const threeTitles = { suggestions: ['Design Review', 'Design Sync', 'Mockup Walkthrough'], context: 'Design' };
+
+describe('AI output schemas', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should declare a schema for every routed function', () => {
+    expect(Object.keys(AI_OUTPUT_SCHEMAS)).toEqual(expect.arrayContaining(Object.keys(DEFAULT_ROUTING_CONFIG.rules)));
+  });
+
+  it('should read repaired JSON out of fenced replies', () => {
+    expect(parseRepairedOutput('Here you go:\n```json\n{"a": 1}\n```', AI_OUTPUT_SCHEMAS.generateMeetingTitles)).toEqual({ a: 1 });
+    expect(parseRepairedOutput('null', AI_OUTPUT_SCHEMAS.extractTimeFromNaturalLanguage)).toBeNull();
+    expect(parseRepairedOutput('  Plain agenda  ', AI_OUTPUT_SCHEMAS.generateMeetingAgenda)).toBe('Plain agenda');
+  });
+
+  it('should send invalid output back to the provider with its validation errors', async () => {
+    const titles = provider('titles-repair', async (functionName, args) => {
+      if (functionName === 'generateMeetingTitles') return twoTitles;
+      expect(args[0][1].content).toContain('suggestions: Array must contain exactly 3 element(s)');
+      return '```json\n' + JSON.stringify(threeTitles) + '\n```';
+    });
+
+    await expect(titlesRouter(titles).routeRequest('generateMeetingTitles', ['design', []])).resolves.toEqual(threeTitles);
+
+    expect(titles.call).toHaveBeenCalledTimes(2);
+    expect(usageAnalytics.getSchemaValidationStats(1).generateMeetingTitles['titles-repair']).toEqual({
+      validations: 1,
+      invalidOutputs: 1,
+      repaired: 1,
+      failed: 0,
+      failureRate: 1
+    });
+  });
+
+  it('should return the parsed output with schema defaults applied', async () => {
+    const items = provider('items-defaults', async () => [{ task: 'Send the notes', assignee: 'Ada', extra: true }]);
+    const router = new AIRouterService({
+      ...DEFAULT_ROUTING_CONFIG,
+      rules: { generateActionItems: { primaryModel: 'items-defaults', fallbackModels: [], enableFallback: false, timeout: 1000 } }
+    }, new AIProviderRegistry([{ ...items, capabilities: { ...items.capabilities, functions: ['generateActionItems'] } }]));
+
+    await expect(router.routeRequest('generateActionItems', ['Retro', 'Review the sprint', [], [], ''])).resolves.toEqual([
+      { task: 'Send the notes', assignee: 'Ada', priority: 'medium' }
+    ]);
+  });
+
+  it('should move down the fallback chain when repair does not fix the output', async () => {
+    const stubborn = provider('titles-stubborn', async functionName =>
+      functionName === 'generateMeetingTitles' ? twoTitles : 'I cannot do that'
+    );
+    const offline = provider('titles-fixed', async () => twoTitles, true);
+    const backup = provider('titles-backup', async () => threeTitles);
+
+    await expect(titlesRouter(stubborn, offline, backup).routeRequest('generateMeetingTitles', ['design', []]))
+      .resolves.toEqual(threeTitles);
+
+    // One repair for the model, none for fixed output
+    expect(stubborn.call).toHaveBeenCalledTimes(2);
+    expect(offline.call).toHaveBeenCalledTimes(1);
+    const stats = usageAnalytics.getSchemaValidationStats(1).generateMeetingTitles;
+    expect(stats['titles-stubborn'].failed).toBe(1);
+    expect(stats['titles-fixed'].failed).toBe(1);
+    expect(stats['titles-backup'].failureRate).toBe(0);
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  AIProviderRegistry,
+  createDefaultProviderRegistry,
+  createOfflineProvider,
+  createOpenAICompatibleProvider,
+  OFFLINE_RESPONSE,
+  type AIProvider
+} from '../aiProviderRegistry';
+import { AIRouterService } from '../aiRouterService';
+import {
+  ConfigurationValidator,
+  DEFAULT_ROUTING_CONFIG,
+  getFallbackChain,
+  type AIRoutingConfiguration
+} from '../config/aiRoutingConfig';
+
+const provider = (name: string, functions: string[], call: AIProvider['call']): AIProvider => ({
+  name,
+  model: `${name}-model`,
+  capabilities: { functions, streaming: [], local: false, deterministic: false },
+  call: vi.fn(call)
+});
+
+const rateLimited = () => Object.assign(new Error('Too many requests'), { status: 429 });
+
+const routerConfig = (overrides: Partial<AIRoutingConfiguration>): AIRoutingConfiguration => ({
+  ...DEFAULT_ROUTING_CONFIG,
+  ...overrides
+});
+
+describe('AIProviderRegistry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should register the HTTP providers only when their base URL is set', () => {
+    expect(createDefaultProviderRegistry({}).names()).toEqual(['gemini', 'mistral', 'offline']);
+
+    const registry = createDefaultProviderRegistry({
+      OPENAI_COMPATIBLE_BASE_URL: 'https://api.example.com/v1',
+      LOCAL_AI_BASE_URL: 'http://localhost:11434/v1'
+    });
+
+    expect(registry.names()).toEqual(['gemini', 'mistral', 'offline', 'openai', 'local']);
+    expect(registry.get('local')?.capabilities.local).toBe(true);
+    expect(registry.supports('openai', 'getGeminiResponse')).toBe(true);
+    expect(registry.supports('openai', 'extractMeetingIntent')).toBe(false);
+  });
+
+  it('should call chat completions on OpenAI-compatible servers', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(new Response(JSON.stringify({ choices: [{ message: { content: ' Hello there ' } }] })))
+      .mockResolvedValueOnce(new Response('slow down', { status: 429 }));
+    const openai = createOpenAICompatibleProvider({
+      name: 'openai',
+      baseUrl: 'https://api.example.com/v1/',
+      model: 'gpt-test',
+      apiKey: 'secret',
+      fetch
+    });
+
+    await expect(openai.call('generateBasicResponse', ['Hi'])).resolves.toBe('Hello there');
+    expect(fetch).toHaveBeenCalledWith('https://api.example.com/v1/chat/completions', expect.objectContaining({
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: 'Bearer secret' },
+      body: JSON.stringify({ model: 'gpt-test', messages: [{ role: 'user', content: 'Hi' }] })
+    }));
+
+    await expect(openai.call('getGeminiResponse', [[]])).rejects.toMatchObject({ status: 429 });
+  });
+
+  it('should read streamed chat completions as server-sent events', async () => {
+    const encoder = new TextEncoder();
+    const events = [
+      'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\ndata: {"choices":[{"delta":{"content":"Hel"}}]}\n',
+      '\ndata: {"choices":[{"delta":{"content":"lo"}}]}\n\ndata: [DONE]\n\n'
+    ];
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        events.forEach(event => controller.enqueue(encoder.encode(event)));
+        controller.close();
+      }
+    });
+    const fetch = vi.fn().mockResolvedValue(new Response(body));
+    const openai = createOpenAICompatibleProvider({ name: 'openai', baseUrl: 'https://api.example.com/v1', model: 'gpt-test', fetch });
+    const chunks: string[] = [];
+
+    await expect(openai.stream!('generateBasicResponse', ['Hi'], chunk => chunks.push(chunk))).resolves.toBe('Hello');
+    expect(chunks).toEqual(['Hel', 'lo']);
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toMatchObject({ stream: true });
+  });
+
+  it('should answer every function the same way when offline', async () => {
+    const offline = createOfflineProvider();
+
+    expect(await offline.call('getGeminiResponse', [[{ role: 'user', content: 'hello' }]])).toBe(OFFLINE_RESPONSE);
+    expect(await offline.call('generateMeetingTitles', ['quarterly planning', []])).toEqual({
+      suggestions: ['Quarterly planning', 'Discussion Session', 'Project Sync'],
+      context: 'Offline suggestions'
+    });
+    expect(await offline.call('verifyAttendees', [['ada@example.com', 'not-an-email']])).toEqual([
+      { email: 'ada@example.com', valid: true, trusted: false },
+      { email: 'not-an-email', valid: false, trusted: false }
+    ]);
+    expect(await offline.call('extractTimeFromNaturalLanguage', ['tomorrow', {}])).toBeNull();
+  });
+});
+
+describe('AIRouterService with registered providers', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should walk the fallback chain, skipping providers without the capability', async () => {
+    const primary = provider('primary', ['summarize'], async () => { throw rateLimited(); });
+    const chatOnly = provider('chat-only', ['getGeminiResponse'], async () => 'never');
+    const backup = provider('backup', ['summarize'], async () => 'summary');
+    const router = new AIRouterService(routerConfig({
+      rules: {
+        summarize: { primaryModel: 'primary', fallbackModels: ['chat-only', 'backup'], enableFallback: true, timeout: 1000 }
+      },
+      circuitBreaker: { primary: { failureThreshold: 5, resetTimeout: 1000, maxRetries: 0 } }
+    }), new AIProviderRegistry([primary, chatOnly, backup]));
+
+    await expect(router.routeRequest('summarize', ['notes'])).resolves.toBe('summary');
+
+    expect(primary.call).toHaveBeenCalledTimes(1);
+    expect(chatOnly.call).not.toHaveBeenCalled();
+    const stats = router.getUsageStats();
+    expect(stats.providers.backup.totalRequests).toBe(1);
+    expect(stats.routing.fallbacksTriggered).toBe(1);
+  });
+
+  it('should open a provider circuit breaker after its configured failures', async () => {
+    const flaky = provider('flaky', ['summarize'], async () => { throw new Error('Model exploded'); });
+    const router = new AIRouterService(routerConfig({
+      rules: { summarize: { primaryModel: 'flaky', enableFallback: false, timeout: 1000 } },
+      circuitBreaker: { flaky: { failureThreshold: 1, resetTimeout: 60000, maxRetries: 0 } }
+    }), new AIProviderRegistry([flaky]));
+
+    await expect(router.routeRequest('summarize', [])).rejects.toThrow('Model exploded');
+    await expect(router.routeRequest('summarize', [])).rejects.toThrow('Circuit breaker is open for flaky service');
+    expect(flaky.call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stream from providers that can and send a single chunk otherwise', async () => {
+    const streamer: AIProvider = {
+      ...provider('streamer', ['getGeminiResponse'], async () => 'never'),
+      capabilities: { functions: ['getGeminiResponse'], streaming: ['getGeminiResponse'], local: false, deterministic: false },
+      stream: vi.fn(async (_functionName, _args, onChunk) => {
+        onChunk('Hello ');
+        onChunk('world');
+        return 'Hello world';
+      })
+    };
+    const plain = provider('plain', ['getGeminiResponse'], async () => 'All at once');
+    const registry = new AIProviderRegistry([streamer, plain]);
+    const chunks: string[] = [];
+
+    const streamed = new AIRouterService(routerConfig({
+      rules: { getGeminiResponse: { primaryModel: 'streamer', enableFallback: false, timeout: 1000 } }
+    }), registry);
+    await expect(streamed.streamRequest('getGeminiResponse', [[]], chunk => chunks.push(chunk))).resolves.toBe('Hello world');
+    expect(chunks).toEqual(['Hello ', 'world']);
+
+    chunks.length = 0;
+    const buffered = new AIRouterService(routerConfig({
+      rules: { getGeminiResponse: { primaryModel: 'plain', enableFallback: false, timeout: 1000 } }
+    }), registry);
+    await expect(buffered.streamRequest('getGeminiResponse', [[]], chunk => chunks.push(chunk))).resolves.toBe('All at once');
+    expect(chunks).toEqual(['All at once']);
+  });
+
+  it('should fall back to the routed request when a stream fails before its first chunk', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const broken: AIProvider = {
+      ...provider('broken', ['getGeminiResponse'], async () => { throw rateLimited(); }),
+      capabilities: { functions: ['getGeminiResponse'], streaming: ['getGeminiResponse'], local: false, deterministic: false },
+      stream: vi.fn(async () => { throw rateLimited(); })
+    };
+    const backup = provider('backup', ['getGeminiResponse'], async () => 'From backup');
+    const router = new AIRouterService(routerConfig({
+      rules: { getGeminiResponse: { primaryModel: 'broken', fallbackModels: ['backup'], enableFallback: true, timeout: 1000 } },
+      circuitBreaker: { broken: { failureThreshold: 5, resetTimeout: 1000, maxRetries: 0 } }
+    }), new AIProviderRegistry([broken, backup]));
+    const chunks: string[] = [];
+
+    await expect(router.streamRequest('getGeminiResponse', [[]], chunk => chunks.push(chunk))).resolves.toBe('From backup');
+    expect(chunks).toEqual(['From backup']);
+    expect(broken.stream).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('routing rule validation', () => {
+  it('should accept any registered provider and reject unknown ones', () => {
+    const providers = ['gemini', 'mistral', 'local'];
+
+    expect(ConfigurationValidator.validateRoutingRule('summarize', {
+      primaryModel: 'local',
+      fallbackModels: ['mistral', 'gemini'],
+      enableFallback: true,
+      timeout: 5000
+    }, providers)).toEqual([]);
+
+    expect(ConfigurationValidator.validateRoutingRule('summarize', {
+      primaryModel: 'gemini',
+      fallbackModels: ['openai', 'gemini'],
+      enableFallback: true,
+      timeout: 5000
+    }, providers)).toEqual([
+      "summarize: Invalid fallback model 'openai'. Must be a registered provider (gemini, mistral, local)",
+      'summarize: Primary and fallback models cannot be the same'
+    ]);
+  });
+
+  it('should treat a single fallbackModel as a one-provider chain', () => {
+    expect(getFallbackChain({ primaryModel: 'gemini', fallbackModel: 'mistral', enableFallback: true, timeout: 5000 }))
+      .toEqual(['mistral']);
+    expect(getFallbackChain({ primaryModel: 'gemini', enableFallback: false, timeout: 5000 })).toEqual([]);
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AIProviderRegistry, type AIProvider } from '../aiProviderRegistry';
+import { AIRouterService } from '../aiRouterService';
+import { DEFAULT_ROUTING_CONFIG } from '../config/aiRoutingConfig';
+import { agendaTemplateService } from '../agendaTemplates';
+import { performanceMonitor } from '../performanceMonitor';
+import {
+  AIQuotaExceededError,
+  AIQuotaService,
+  loadQuotaSettings,
+  teamForEmail,
+  type AIUsageEntry,
+  type AIUsageStore,
+  type AIUsageTotals
+} from '../aiQuotaService';
+
+class MemoryAIUsageStore implements AIUsageStore {
+  entries: AIUsageEntry[] = [];
+
+  async insertUsage(entry: AIUsageEntry) {
+    this.entries.push(entry);
+  }
+
+  async sumUsage(since: Date, owner: { userId: string } | { team: string }) {
+    return this.totals(this.entries.filter(entry => entry.createdAt >= since &&
+      ('userId' in owner ? entry.userId === owner.userId : entry.team === owner.team)));
+  }
+
+  async listUserTotals(since: Date) {
+    const userIds = [...new Set(this.entries.filter(entry => entry.createdAt >= since).map(entry => entry.userId))];
+    return Promise.all(userIds.map(async userId => {
+      const latest = this.entries.filter(entry => entry.userId === userId).at(-1)!;
+      return { userId, email: latest.email, team: latest.team, ...(await this.sumUsage(since, { userId })) };
+    }));
+  }
+
+  async deleteUsageBefore(cutoff: Date) {
+    this.entries = this.entries.filter(entry => entry.createdAt >= cutoff);
+  }
+
+  private totals(entries: AIUsageEntry[]): AIUsageTotals {
+    return {
+      requests: entries.length,
+      tokens: entries.reduce((sum, entry) => sum + entry.tokens, 0),
+      cost: entries.reduce((sum, entry) => sum + entry.cost, 0)
+    };
+  }
+}
+
+const provider = (name: string, call: AIProvider['call']): AIProvider => ({
+  name,
+  model: `${name}-model`,
+  capabilities: { functions: ['generateMeetingTitles', 'generateMeetingAgenda', 'getGeminiResponse'], streaming: [], local: false, deterministic: false },
+  call: vi.fn(call)
+});
+
+const rule = { primaryModel: 'gemini', fallbackModels: ['mistral'], enableFallback: true, timeout: 1000 };
+
+const ada = { userId: 'user-ada', email: 'ada@example.com' };
+const grace = { userId: 'user-grace', email: 'grace@example.com' };
+
+describe('AIQuotaService', () => {
+  it('should read limits from the environment', () => {
+    expect(loadQuotaSettings({
+      AI_QUOTA_USER_TOKENS: '5000',
+      AI_QUOTA_TEAM_COST: '2.5',
+      AI_QUOTA_DEGRADE_AT: '2',
+      ADMIN_EMAILS: ' Admin@Example.com, ops@example.com'
+    })).toEqual({
+      windowHours: 24,
+      degradeAt: 0.8,
+      user: { tokens: 5000, cost: undefined },
+      team: { tokens: undefined, cost: 2.5 },
+      adminEmails: ['admin@example.com', 'ops@example.com']
+    });
+    expect(teamForEmail('Ada@Example.COM')).toBe('example.com');
+  });
+
+  it('should charge usage to the user and team running the request', async () => {
+    let now = Date.parse('2025-03-10T09:00:00Z');
+    const quotas = new AIQuotaService(loadQuotaSettings({ AI_QUOTA_USER_TOKENS: '1000', AI_QUOTA_TEAM_TOKENS: '2000' }), new MemoryAIUsageStore(), () => now);
+
+    await quotas.recordUsage('getGeminiResponse', 'gemini', { input: 100, output: 100 });
+    await quotas.runAs(ada, () => quotas.recordUsage('getGeminiResponse', 'gemini', { input: 600, output: 200 }));
+    await quotas.runAs(grace, () => quotas.recordUsage('generateMeetingTitles', 'mistral', { input: 500, output: 100 }));
+
+    expect(await quotas.check(ada)).toEqual({ status: 'degraded', scope: 'user', metric: 'tokens', used: 800, limit: 1000 });
+    expect(await quotas.check(grace)).toMatchObject({ status: 'ok', scope: 'team', used: 1400 });
+
+    const report = await quotas.getUsageReport();
+    expect(report.users.map(user => [user.email, user.tokens, user.status])).toEqual([
+      ['ada@example.com', 800, 'degraded'],
+      ['grace@example.com', 600, 'ok']
+    ]);
+    expect(report.users[0].cost).toBeCloseTo(600 * 0.00000125 + 200 * 0.00000375);
+    expect(report.teams).toMatchObject([{ id: 'example.com', requests: 2, tokens: 1400, status: 'ok' }]);
+
+    // Usage ages out of the rolling window
+    now += 25 * 60 * 60 * 1000;
+    expect((await quotas.check(ada)).status).toBe('ok');
+  });
+
+  it('should not pool users of public email providers into one team', async () => {
+    expect(teamForEmail('Ada@Gmail.com')).toBeUndefined();
+    expect(teamForEmail('grace@outlook.com')).toBeUndefined();
+
+    const quotas = new AIQuotaService(loadQuotaSettings({ AI_QUOTA_TEAM_TOKENS: '1000' }), new MemoryAIUsageStore());
+    const heavy = { userId: 'user-heavy', email: 'heavy@gmail.com' };
+    const light = { userId: 'user-light', email: 'light@gmail.com' };
+
+    await quotas.runAs(heavy, () => quotas.recordUsage('getGeminiResponse', 'gemini', { input: 5000, output: 0 }));
+
+    expect(await quotas.check(light)).toEqual({ status: 'ok' });
+    expect((await quotas.getUsageReport()).teams).toEqual([]);
+  });
+
+  it('should count usage stored by other instances and prune it after the retention period', async () => {
+    let now = Date.parse('2025-03-10T09:00:00Z');
+    const store = new MemoryAIUsageStore();
+    const settings = loadQuotaSettings({ AI_QUOTA_USER_TOKENS: '1000' });
+
+    const first = new AIQuotaService(settings, store, () => now);
+    await first.runAs(ada, () => first.recordUsage('getGeminiResponse', 'gemini', { input: 1200, output: 0 }));
+
+    // A restarted or second server sees the same usage
+    const restarted = new AIQuotaService(settings, store, () => now);
+    expect(await restarted.check(ada)).toMatchObject({ status: 'exceeded', used: 1200 });
+
+    now += 8 * 24 * 60 * 60 * 1000;
+    await restarted.runAs(grace, () => restarted.recordUsage('getGeminiResponse', 'gemini', { input: 10, output: 0 }));
+    expect(store.entries.map(entry => entry.userId)).toEqual(['user-grace']);
+  });
+
+  it('should check and charge calls made outside the router', async () => {
+    const quotas = new AIQuotaService(loadQuotaSettings({ AI_QUOTA_USER_TOKENS: '1000' }), new MemoryAIUsageStore());
+    const call = vi.fn(async () => 'x'.repeat(400));
+
+    await quotas.runAs(ada, async () => {
+      await expect(quotas.meter('generateTranscript', 'mistral', 'y'.repeat(400), call)).resolves.toHaveLength(400);
+      const charged = performanceMonitor.estimateTokenCount('y'.repeat(400)) + performanceMonitor.estimateTokenCount('x'.repeat(400));
+      expect(await quotas.check()).toMatchObject({ status: 'ok', used: charged });
+
+      await quotas.recordUsage('getGeminiResponse', 'gemini', { input: 900, output: 0 });
+      await expect(quotas.meter('generateTranscript', 'mistral', 'hello', call)).rejects.toBeInstanceOf(AIQuotaExceededError);
+    });
+
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
+
+
+describe('AIRouterService with AI quotas', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  let quotas: AIQuotaService;
+  let gemini: AIProvider;
+  let mistral: AIProvider;
+  let router: AIRouterService;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    quotas = new AIQuotaService(loadQuotaSettings({ AI_QUOTA_USER_TOKENS: '1000' }), new MemoryAIUsageStore());
+    gemini = provider('gemini', async () => 'From Gemini');
+    mistral = provider('mistral', async () => 'From Mistral');
+    router = new AIRouterService({
+      ...DEFAULT_ROUTING_CONFIG,
+      rules: { getGeminiResponse: rule, generateMeetingAgenda: rule, generateMeetingTitles: rule }
+    }, new AIProviderRegistry([gemini, mistral]), quotas);
+  });
+
+  it('should move users close to their quota to the cheaper model', async () => {
+    await quotas.runAs(ada, async () => {
+      await expect(router.routeRequest('getGeminiResponse', [[]])).resolves.toBe('From Gemini');
+
+      await quotas.recordUsage('getGeminiResponse', 'gemini', { input: 850, output: 0 });
+      await expect(router.routeRequest('getGeminiResponse', [[]])).resolves.toBe('From Mistral');
+    });
+
+    expect(gemini.call).toHaveBeenCalledTimes(1);
+    expect(mistral.call).toHaveBeenCalledTimes(1);
+  });
+
+  it('should answer over-quota requests from templates or with the quota message', async () => {
+    await quotas.runAs(ada, async () => {
+      await quotas.recordUsage('getGeminiResponse', 'gemini', { input: 1200, output: 0 });
+
+      const agenda = await router.routeRequest<string>('generateMeetingAgenda', ['Sprint Planning', 'Plan the next sprint', [], 60, '']);
+      expect(agenda).toContain('<h1>Sprint Planning Agenda</h1>');
+
+      await expect(router.routeRequest('getGeminiResponse', [[]])).resolves.toBe(
+        'You have used your AI allowance for the last 24 hours (1,200 tokens of 1,000 tokens). It frees up as older usage ages out of that window.'
+      );
+      await expect(router.routeRequest('generateMeetingTitles', ['planning', []])).rejects.toBeInstanceOf(AIQuotaExceededError);
+    });
+
+    expect(gemini.call).not.toHaveBeenCalled();
+    expect(mistral.call).not.toHaveBeenCalled();
+
+    // Requests outside a signed-in user's request are not limited
+    await expect(router.routeRequest('getGeminiResponse', [[]])).resolves.toBe('From Gemini');
+  });
+
+  it('should refuse an over-quota agenda when no template matches', async () => {
+    vi.spyOn(agendaTemplateService, 'suggestTemplates').mockReturnValue([]);
+
+    await quotas.runAs(ada, async () => {
+      await quotas.recordUsage('getGeminiResponse', 'gemini', { input: 1200, output: 0 });
+      await expect(router.routeRequest('generateMeetingAgenda', ['Sync', '', [], 30, ''])).rejects.toBeInstanceOf(AIQuotaExceededError);
+    });
+  });
+});
@@ -40,6 +40,22 @@ describe('BusinessRulesEngine', () => {
       expect(result.isValid).toBe(true);
       expect(result.errors).toHaveLength(0);
     });
+
+    it('should reject a room too small for the attendees and the organizer', () => {
+      const room = { id: 'huddle', name: 'Huddle 1', capacity: 2, equipment: [], source: 'config' as const };
+      const attendees: AttendeeData[] = [
+        { email: 'a@gmail.com', isValidated: true, isRequired: true },
+        { email: 'b@gmail.com', isValidated: true, isRequired: true }
+      ];
+
+      const result = rulesEngine.validateMeetingType('physical', { location: 'Huddle 1', room, attendees });
+      expect(result.isValid).toBe(false);
+      expect(result.errors[0]).toContain(ERROR_MESSAGES.ROOM_OVER_CAPACITY);
+
+      expect(rulesEngine.validateMeetingType('physical', { location: 'Huddle 1', room, attendees: attendees.slice(1) }).isValid).toBe(true);
+      // Capacity is not known for every room
+      expect(rulesEngine.validateMeetingType('physical', { location: 'Atrium', room: { ...room, capacity: undefined }, attendees }).isValid).toBe(true);
+    });
   });
 
   describe('enforceAttendeeRequirement', () => {
@@ -118,6 +134,61 @@ describe('BusinessRulesEngine', () => {
     });
   });
 
+  describe('working hours profile', () => {
+    const tokyoProfile = {
+      timezone: 'Asia/Tokyo',
+      workingDays: [1, 2, 3, 4, 5],
+      workingHoursStart: 9,
+      workingHoursEnd: 18,
+      preferredMeetingLengths: [30]
+    };
+
+    it('should warn using the profile timezone instead of server time', () => {
+      rulesEngine.setWorkingHours(tokyoProfile);
+
+      // Monday 01:00 UTC is 10:00 in Tokyo
+      const inside = rulesEngine.validateTimeConstraints(
+        new Date('2030-01-07T01:00:00Z'),
+        new Date('2030-01-07T02:00:00Z')
+      );
+      // Monday 12:00 UTC is 21:00 in Tokyo
+      const outside = rulesEngine.validateTimeConstraints(
+        new Date('2030-01-07T12:00:00Z'),
+        new Date('2030-01-07T13:00:00Z')
+      );
+
+      expect(inside.warnings).toHaveLength(0);
+      expect(outside.warnings[0]).toContain(WARNING_MESSAGES.OUTSIDE_WORKING_HOURS);
+    });
+
+    it('should warn about non-working days from the profile', () => {
+      rulesEngine.setWorkingHours({ ...tokyoProfile, workingDays: [2, 3, 4, 5, 6] });
+
+      const result = rulesEngine.validateTimeConstraints(
+        new Date('2030-01-07T01:00:00Z'),
+        new Date('2030-01-07T02:00:00Z')
+      );
+
+      expect(result.warnings).toContain(WARNING_MESSAGES.NON_WORKING_DAY);
+    });
+
+    it('should warn about attendees whose working hours the meeting falls outside', () => {
+      const result = rulesEngine.validateAttendeeWorkingHours(
+        new Date('2030-01-07T14:00:00Z'),
+        new Date('2030-01-07T15:00:00Z'),
+        new Map([
+          ['tokyo@example.com', tokyoProfile],
+          ['london@example.com', { ...tokyoProfile, timezone: 'Europe/London' }]
+        ])
+      );
+
+      expect(result.isValid).toBe(true);
+      expect(result.warnings).toHaveLength(1);
+      expect(result.warnings[0]).toContain('tokyo@example.com');
+      expect(result.warnings[0]).toContain('Mon 23:00');
+    });
+  });
+
   describe('validateEmailFormat', () => {
     it('should accept valid email formats', () => {
       expect(rulesEngine.validateEmailFormat('test@gmail.com')).toBe(true);
@@ -0,0 +1,453 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  CalendarAgendaSyncService,
+  SyncTokenExpiredError,
+  extractAgendaFromDescription,
+  mergeEventFields,
+  snapshotFromEvent,
+  type CalendarEventData,
+  type CalendarEventsClient,
+  type CalendarSyncStore
+} from '../calendarAgendaSyncService';
+import type { CalendarSyncConflict, CalendarSyncSettingsRecord, CalendarSyncState, CalendarSyncUpdate, Event } from '../../shared/schema';
+
+class FakeCalendar implements CalendarEventsClient {
+  events = new Map<string, CalendarEventData>();
+  // Ids of edited events in edit order; a sync token lists the edits made after it was issued
+  edits: string[] = [];
+  tokenPositions = new Map<string, number>();
+  tokens = 0;
+  expiredTokens = new Set<string>();
+  listCalls: Array<string | undefined> = [];
+  listedCalendars: string[] = [];
+  patches: Array<{ eventId: string; patch: any; notifyAttendees: boolean }> = [];
+  patchedCalendars: string[] = [];
+
+  edit(eventId: string, changes: Partial<CalendarEventData>) {
+    this.events.set(eventId, { ...this.events.get(eventId)!, ...changes });
+    this.edits.push(eventId);
+  }
+
+  async listChanges(calendarId: string, syncToken?: string) {
+    this.listCalls.push(syncToken);
+    this.listedCalendars.push(calendarId);
+    if (syncToken && this.expiredTokens.has(syncToken)) {
+      throw new SyncTokenExpiredError();
+    }
+    const ids = syncToken ? Array.from(new Set(this.edits.slice(this.tokenPositions.get(syncToken)))) : Array.from(this.events.keys());
+    const nextSyncToken = `token-${++this.tokens}`;
+    this.tokenPositions.set(nextSyncToken, this.edits.length);
+    return { events: ids.map(id => ({ ...this.events.get(id)! })), nextSyncToken };
+  }
+
+  async patchEvent(calendarId: string, eventId: string, patch: any, notifyAttendees: boolean) {
+    this.patches.push({ eventId, patch, notifyAttendees });
+    this.patchedCalendars.push(calendarId);
+    const event = { ...this.events.get(eventId)!, ...patch };
+    this.events.set(eventId, event);
+    return event;
+  }
+}
+
+class MemoryCalendarSyncStore implements CalendarSyncStore {
+  settings: CalendarSyncSettingsRecord[] = [];
+  states: CalendarSyncState[] = [];
+  events: Event[] = [];
+  updates: CalendarSyncUpdate[] = [];
+  conflicts: CalendarSyncConflict[] = [];
+
+  async getSettings(userId: string) {
+    return this.settings.find(settings => settings.userId === userId);
+  }
+
+  async saveSettings(userId: string, changes: any) {
+    let settings = await this.getSettings(userId);
+    if (!settings) {
+      settings = {
+        id: `settings-${userId}`, userId, autoSync: true, syncOnAgendaUpdate: true, syncOnVersionChange: false,
+        includeAgendaInDescription: true, updateEventTitle: false, notifyOnSync: false, lastSyncAt: null,
+        syncErrors: 0, createdAt: new Date(), updatedAt: new Date()
+      };
+      this.settings.push(settings);
+    }
+    return Object.assign(settings, changes);
+  }
+
+  async getSyncUsers() {
+    return [{ id: 'user-1', accessToken: 'token' }];
+  }
+
+  async getSyncCalendarIds(userId: string) {
+    return Array.from(new Set(this.events.filter(event => event.userId === userId && event.googleEventId).map(event => event.calendarId)));
+  }
+
+  async getSyncState(userId: string, calendarId: string) {
+    return this.states.find(state => state.userId === userId && state.calendarId === calendarId);
+  }
+
+  async saveSyncState(userId: string, calendarId: string, changes: any) {
+    const state = await this.getSyncState(userId, calendarId);
+    if (state) {
+      Object.assign(state, changes);
+    } else {
+      this.states.push({ id: `state-${this.states.length + 1}`, userId, calendarId, syncToken: null, retryEvents: [], lastSyncedAt: null, lastFullSyncAt: null, ...changes });
+    }
+  }
+
+  async getEvent(eventId: string) {
+    return this.events.find(event => event.id === eventId);
+  }
+
+  async getEventsByGoogleIds(userId: string, googleEventIds: string[]) {
+    return this.events.filter(event => event.userId === userId && googleEventIds.includes(event.googleEventId!));
+  }
+
+  async updateEvent(eventId: string, changes: any) {
+    Object.assign((await this.getEvent(eventId))!, changes);
+  }
+
+  async insertUpdate(update: any) {
+    const created = { errorMessage: null, syncedAt: null, ...update, id: `update-${this.updates.length + 1}`, createdAt: new Date() };
+    this.updates.push(created);
+    return created;
+  }
+
+  async updateUpdate(updateId: string, changes: any) {
+    Object.assign(this.updates.find(update => update.id === updateId)!, changes);
+  }
+
+  async listUpdates(userId: string, { status }: { status?: string } = {}) {
+    return this.updates.filter(update => update.userId === userId && (!status || update.syncStatus === status));
+  }
+
+  async countUpdates(userId: string, status?: CalendarSyncUpdate['syncStatus']) {
+    return (await this.listUpdates(userId, { status })).length;
+  }
+
+  async skipUpdates() {
+    return 0;
+  }
+
+  async deleteUpdatesBefore() {
+    return 0;
+  }
+
+  async listConflicts(userId: string, status?: string) {
+    return this.conflicts
+      .filter(conflict => conflict.userId === userId && (!status || conflict.status === status))
+      .map(conflict => ({ ...conflict, meetingTitle: this.events.find(event => event.id === conflict.eventId)!.title }));
+  }
+
+  async getConflict(userId: string, conflictId: string) {
+    return this.conflicts.find(conflict => conflict.userId === userId && conflict.id === conflictId);
+  }
+
+  async getOpenConflicts(eventId: string) {
+    return this.conflicts.filter(conflict => conflict.eventId === eventId && conflict.status === 'open');
+  }
+
+  async insertConflict(conflict: any) {
+    const created = { status: 'open', resolution: null, resolvedAt: null, ...conflict, id: `conflict-${this.conflicts.length + 1}`, detectedAt: new Date() };
+    this.conflicts.push(created);
+    return created;
+  }
+
+  async updateConflict(conflictId: string, changes: any) {
+    Object.assign(this.conflicts.find(conflict => conflict.id === conflictId)!, changes);
+  }
+}
+
+const user = { id: 'user-1', googleId: 'google-1', accessToken: 'token', refreshToken: 'refresh-token' };
+
+const remoteEvent: CalendarEventData = {
+  id: 'g-1',
+  status: 'confirmed',
+  title: 'Roadmap sync',
+  description: '📋 Meeting Agenda\n\n1. Roadmap\n2. Budget\n\n🔗 Join Meeting: https://meet.example.com/abc',
+  startTime: '2026-10-20T10:00:00.000Z',
+  endTime: '2026-10-20T10:30:00.000Z',
+  attendees: ['sam@example.com']
+};
+
+const profiles = {
+  getWorkingHours: async () => ({ timezone: 'Europe/Berlin' }) as any,
+  getCalendarPreferences: async () => ({ busyCalendarIds: ['primary', 'team@group.calendar.google.com'], meetingTypeCalendars: { physical: 'rooms@group.calendar.google.com' } })
+};
+
+const localEvent = (): Event => ({
+  id: 'event-1',
+  googleEventId: 'g-1',
+  userId: 'user-1',
+  title: remoteEvent.title,
+  description: remoteEvent.description,
+  startTime: new Date(remoteEvent.startTime),
+  endTime: new Date(remoteEvent.endTime),
+  meetingLink: 'https://meet.example.com/abc',
+  attendees: ['sam@example.com'],
+  agenda: '1. Roadmap\n2. Budget',
+  calendarId: 'primary',
+  recurrenceRule: null,
+  transcriptGenerated: false,
+  syncedSnapshot: null,
+  lastSyncedAt: null
+});
+
+describe('Calendar field merging', () => {
+  it('should take one-sided changes and flag two-sided ones', () => {
+    const base = snapshotFromEvent(localEvent());
+    const local = { ...base, title: 'Roadmap review', attendees: ['ana@example.com', 'sam@example.com'] };
+    const remote = { ...base, title: 'Roadmap planning', time: { startTime: '2026-10-20T11:00:00.000Z', endTime: '2026-10-20T11:30:00.000Z' }, attendees: ['ANA@example.com', 'sam@example.com'] };
+
+    expect(mergeEventFields(base, local, remote).map(merge => [merge.field, merge.outcome])).toEqual([
+      ['title', 'conflict'],
+      ['description', 'unchanged'],
+      ['time', 'remote_only'],
+      ['attendees', 'converged']
+    ]);
+  });
+
+  it('should treat an HTML description with the same text as unchanged', () => {
+    const base = snapshotFromEvent(localEvent());
+    const remote = { ...base, description: '📋 Meeting Agenda<br><br>1. Roadmap<br>2. Budget<br><br>🔗 Join Meeting: https://meet.example.com/abc' };
+
+    expect(mergeEventFields(base, base, remote).find(merge => merge.field === 'description')?.outcome).toBe('unchanged');
+  });
+
+  it('should pull the agenda text out of a calendar description', () => {
+    expect(extractAgendaFromDescription('📋 Meeting Agenda\n\nTitle: Sync\nPurpose: Plan Q3\n\n1. Roadmap\n2. Budget\n\n🔗 Join Meeting: https://meet.example.com/abc'))
+      .toBe('1. Roadmap\n2. Budget');
+  });
+});
+
+describe('CalendarAgendaSyncService', () => {
+  let calendar: FakeCalendar;
+  let store: MemoryCalendarSyncStore;
+  let versions: any[];
+  let notifications: any[];
+  let service: CalendarAgendaSyncService;
+
+  beforeEach(() => {
+    calendar = new FakeCalendar();
+    calendar.events.set('g-1', { ...remoteEvent });
+    store = new MemoryCalendarSyncStore();
+    store.events.push(localEvent());
+    versions = [];
+    notifications = [];
+    service = new CalendarAgendaSyncService(
+      () => calendar,
+      store,
+      { createVersion: async (...args: any[]) => { versions.push(args); return args as any; } },
+      { notifyCalendarSyncConflict: (...args: any[]) => { notifications.push(args); return args as any; } },
+      profiles
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should apply time and attendee changes made in Google Calendar and continue from the sync token', async () => {
+    const first = await service.pullUser(user);
+    calendar.edit('g-1', { startTime: '2026-10-21T09:00:00Z', endTime: '2026-10-21T09:45:00Z', attendees: ['sam@example.com', 'lee@example.com'] });
+
+    const second = await service.pullUser(user);
+
+    expect(first).toMatchObject({ checked: 1, updated: 0, fullSync: true });
+    expect(second).toMatchObject({ checked: 1, updated: 1, fullSync: false });
+    expect(calendar.listCalls).toEqual([undefined, 'token-1']);
+    expect(store.events[0]).toMatchObject({
+      startTime: new Date('2026-10-21T09:00:00Z'),
+      endTime: new Date('2026-10-21T09:45:00Z'),
+      attendees: ['lee@example.com', 'sam@example.com']
+    });
+    expect(store.updates[0]).toMatchObject({ direction: 'pull', updateType: 'updated', syncStatus: 'success' });
+    expect(store.states[0].syncToken).toBe('token-2');
+  });
+
+  it('should retry an event that failed to reconcile on the next pull while the token moves on', async () => {
+    await service.pullUser(user);
+    calendar.edit('g-1', { title: 'Roadmap planning' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const updateEvent = store.updateEvent.bind(store);
+    store.updateEvent = async () => { throw new Error('connection reset'); };
+
+    expect(await service.pullUser(user)).toMatchObject({ checked: 1, updated: 0 });
+    expect(store.states[0]).toMatchObject({ syncToken: 'token-2', retryEvents: [{ event: { id: 'g-1' }, attempts: 1 }] });
+
+    store.updateEvent = updateEvent;
+    expect(await service.pullUser(user)).toMatchObject({ checked: 1, updated: 1 });
+    expect(calendar.listCalls).toEqual([undefined, 'token-1', 'token-2']);
+    expect(store.events[0].title).toBe('Roadmap planning');
+    expect(store.states[0]).toMatchObject({ syncToken: 'token-3', retryEvents: [] });
+  });
+
+  it('should give up on an event that keeps failing to reconcile', async () => {
+    await service.pullUser(user);
+    calendar.edit('g-1', { title: 'Roadmap planning' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    store.updateEvent = async () => { throw new Error('value too long'); };
+
+    for (let pull = 0; pull < 3; pull++) {
+      expect(await service.pullUser(user)).toMatchObject({ checked: 1, updated: 0 });
+    }
+
+    expect(store.states[0]).toMatchObject({ syncToken: 'token-4', retryEvents: [] });
+    expect(await service.pullUser(user)).toMatchObject({ checked: 0 });
+  });
+
+  it('should pull with a refreshed token once the stored one has expired', async () => {
+    const tokens: string[] = [];
+    const auth = {
+      async executeWithAuthRecovery(operation: (user: any) => Promise<any>, syncUser: any) {
+        try {
+          return await operation(syncUser);
+        } catch {
+          return operation({ ...syncUser, accessToken: 'fresh-token' });
+        }
+      }
+    };
+    service = new CalendarAgendaSyncService(
+      token => {
+        tokens.push(token);
+        return token === 'fresh-token' ? calendar : { ...calendar, listChanges: async () => { throw new Error('Invalid Credentials'); } } as any;
+      },
+      store,
+      { createVersion: async () => ({}) as any },
+      { notifyCalendarSyncConflict: async () => undefined as any },
+      profiles,
+      auth as any
+    );
+    const syncUser = { ...user, accessToken: 'expired-token' };
+
+    expect(await service.pullUser(syncUser)).toMatchObject({ checked: 1, fullSync: true });
+    expect(tokens).toEqual(['expired-token', 'fresh-token']);
+    expect(syncUser.accessToken).toBe('fresh-token');
+    expect(store.states[0].syncToken).toBe('token-1');
+  });
+
+  it('should record an agenda edited in Google Calendar as a new agenda version', async () => {
+    await service.pullUser(user);
+    calendar.edit('g-1', { description: '📋 Meeting Agenda<br><br>1. Roadmap<br>2. Hiring<br><br>🔗 Join Meeting: https://meet.example.com/abc' });
+
+    await service.pullUser(user);
+
+    expect(store.events[0].agenda).toBe('1. Roadmap\n2. Hiring');
+    expect(versions).toEqual([[
+      'g-1', '1. Roadmap\n2. Hiring', 'Roadmap sync', 'user-1', 'edited',
+      { authorName: 'Google Calendar', changeDescription: 'Edited in Google Calendar', metadata: { generationMethod: 'manual' } }
+    ]]);
+  });
+
+  it('should surface conflicting edits to the organizer instead of overwriting them', async () => {
+    await service.pullUser(user);
+    store.events[0].title = 'Roadmap review';
+    calendar.edit('g-1', { title: 'Roadmap planning' });
+
+    const result = await service.pullUser(user);
+
+    expect(result.conflicts).toBe(1);
+    expect(store.events[0].title).toBe('Roadmap review');
+    expect(store.conflicts[0]).toMatchObject({ field: 'title', baseValue: 'Roadmap sync', localValue: 'Roadmap review', remoteValue: 'Roadmap planning', status: 'open' });
+    expect(notifications[0]).toEqual(['user-1', 'conflict-1', 'Roadmap review', ['title'], expect.objectContaining({ eventId: 'event-1' })]);
+    expect(await service.getConflicts('user-1')).toEqual([expect.objectContaining({ meetingTitle: 'Roadmap review' })]);
+
+    // Pulling again without new changes leaves the conflict open and does not notify twice
+    calendar.edits.push('g-1');
+    await service.pullUser(user);
+    expect(store.conflicts).toHaveLength(1);
+    expect(notifications).toHaveLength(1);
+  });
+
+  it('should resolve conflicts either way', async () => {
+    await service.pullUser(user);
+    store.events[0].title = 'Roadmap review';
+    store.events[0].startTime = new Date('2026-10-20T13:00:00Z');
+    store.events[0].endTime = new Date('2026-10-20T13:30:00Z');
+    calendar.edit('g-1', { title: 'Roadmap planning', startTime: '2026-10-20T15:00:00Z', endTime: '2026-10-20T15:30:00Z' });
+    await service.pullUser(user);
+    const [titleConflict, timeConflict] = store.conflicts;
+
+    expect(await service.resolveConflict(user, titleConflict.id, 'accept_remote')).toMatchObject({ status: 'resolved', resolution: 'accept_remote' });
+    await service.resolveConflict(user, timeConflict.id, 'keep_local');
+
+    expect(store.events[0].title).toBe('Roadmap planning');
+    expect(calendar.patches).toEqual([{
+      eventId: 'g-1',
+      patch: { startTime: '2026-10-20T13:00:00.000Z', endTime: '2026-10-20T13:30:00.000Z', timeZone: 'Europe/Berlin' },
+      notifyAttendees: true
+    }]);
+    expect(await service.resolveConflict(user, titleConflict.id, 'keep_local')).toBeUndefined();
+
+    // Both sides agree again, so the next change in Google Calendar applies cleanly
+    calendar.edit('g-1', { title: 'Roadmap planning (Q4)' });
+    expect(await service.pullUser(user)).toMatchObject({ updated: 1, conflicts: 0 });
+    expect(store.events[0].title).toBe('Roadmap planning (Q4)');
+  });
+
+  it('should pull and push meetings on the calendar they were created in', async () => {
+    store.events[0].calendarId = 'team@group.calendar.google.com';
+
+    expect(await service.pullUserCalendars(user)).toMatchObject({ checked: 1, fullSync: true });
+    expect(calendar.listedCalendars).toEqual(['team@group.calendar.google.com']);
+    expect(store.states[0].calendarId).toBe('team@group.calendar.google.com');
+
+    store.events[0].title = 'Roadmap review';
+    calendar.edit('g-1', { title: 'Roadmap planning' });
+    await service.pullUserCalendars(user);
+    await service.resolveConflict(user, store.conflicts[0].id, 'keep_local');
+
+    expect(calendar.listCalls).toEqual([undefined, 'token-1']);
+    expect(calendar.patchedCalendars).toEqual(['team@group.calendar.google.com']);
+  });
+
+  it('should run a full sync when the sync token has expired', async () => {
+    await service.pullUser(user);
+    calendar.expiredTokens.add('token-1');
+
+    const result = await service.pullUser(user);
+
+    expect(result).toMatchObject({ checked: 1, fullSync: true });
+    expect(calendar.listCalls).toEqual([undefined, 'token-1', undefined]);
+    expect(store.states[0]).toMatchObject({ syncToken: 'token-2', lastFullSyncAt: expect.any(Date) });
+  });
+
+  it('should not push an agenda over a description that is in conflict', async () => {
+    await service.pullUser(user);
+    store.events[0].description = 'Local notes';
+    calendar.edit('g-1', { description: 'Notes typed in Google Calendar' });
+
+    await service.queueAgendaUpdate('g-1', 'g-1', 'user-1', 'updated', [{ field: 'agenda', newValue: '1. Roadmap' }]);
+    const result = await service.syncToCalendar(user as any, '1. Roadmap', { title: 'Roadmap sync' });
+
+    expect(result).toMatchObject({ success: true, updatesProcessed: 1, updatesSynced: 0 });
+    expect(calendar.patches).toHaveLength(0);
+    expect(store.updates.find(update => update.direction === 'push')).toMatchObject({ syncStatus: 'skipped' });
+    expect(store.conflicts[0]).toMatchObject({ field: 'description', status: 'open' });
+  });
+
+  it('should list agenda-related events from every selected calendar', async () => {
+    const list = vi.fn(async ({ calendarId }: { calendarId: string }) => {
+      if (calendarId === 'rooms@group.calendar.google.com') {
+        throw new Error('Not Found');
+      }
+      return {
+        data: {
+          items: calendarId === 'primary'
+            ? [{ summary: 'Lunch', start: { dateTime: '2026-10-20T12:00:00Z' } }, { summary: 'Budget meeting', start: { dateTime: '2026-10-21T09:00:00Z' } }]
+            : [{ summary: 'Team meeting', start: { dateTime: '2026-10-20T15:00:00Z' } }]
+        }
+      };
+    });
+    vi.spyOn(service as any, 'getCalendarClient').mockReturnValue({ events: { list } });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const events = await service.getRelevantCalendarEvents(user as any);
+
+    expect(list.mock.calls.map(([params]) => params.calendarId)).toEqual(['primary', 'team@group.calendar.google.com', 'rooms@group.calendar.google.com']);
+    expect(events.map(event => [event.summary, event.calendarId])).toEqual([
+      ['Team meeting', 'team@group.calendar.google.com'],
+      ['Budget meeting', 'primary']
+    ]);
+    expect(await service.testCalendarConnection(user as any)).toEqual({ success: false, error: 'Calendar rooms@group.calendar.google.com: Not Found' });
+  });
+});
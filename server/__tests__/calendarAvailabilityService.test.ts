@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, vi, Mock } from 'vitest';
+import { google } from 'googleapis';
+import { findMultiAttendeeSlots, rankCandidateSlots, type TimeSlot } from '../calendarAvailabilityService';
+import { calendarFeedService } from '../calendarFeedService';
+import { userProfileService } from '../userProfileService';
+import type { User } from '../../shared/schema';
+
+// Mock googleapis
+vi.mock('googleapis');
+vi.mock('../calendarFeedService', () => ({
+  calendarFeedService: { getBusyEvents: vi.fn(async () => []) }
+}));
+vi.mock('../userProfileService', () => ({
+  userProfileService: { getCalendarPreferences: vi.fn(async () => ({ busyCalendarIds: ['primary'], meetingTypeCalendars: {} })) }
+}));
+
+const mockUser: User = {
+  id: 'test-user-id',
+  googleId: 'google-123',
+  email: 'organizer@example.com',
+  name: 'Test User',
+  picture: null,
+  accessToken: 'mock-access-token',
+  refreshToken: 'mock-refresh-token'
+};
+
+// Monday, January 7, 2030
+const at = (hours: number, minutes: number = 0, day: number = 7) => new Date(2030, 0, day, hours, minutes, 0);
+
+const slot = (start: Date, durationMinutes: number = 30): TimeSlot => ({
+  startTime: start,
+  endTime: new Date(start.getTime() + durationMinutes * 60 * 1000),
+  duration: durationMinutes,
+  isAvailable: true
+});
+
+describe('CalendarAvailabilityService multi-attendee slot finder', () => {
+  describe('rankCandidateSlots', () => {
+    const attendees = [
+      { email: 'required@example.com', isRequired: true },
+      { email: 'optional@example.com', isRequired: false }
+    ];
+
+    it('should rank slots with fewer required conflicts first', () => {
+      const busy = new Map([
+        ['required@example.com', [{ startTime: at(10), endTime: at(11) }]]
+      ]);
+
+      const ranked = rankCandidateSlots([slot(at(10)), slot(at(14))], busy, attendees, at(10));
+
+      expect(ranked[0].startTime).toEqual(at(14));
+      expect(ranked[0].isAvailable).toBe(true);
+      expect(ranked[1].requiredConflicts).toEqual(['required@example.com']);
+    });
+
+    it('should prefer slots closer to the requested time when conflicts are equal', () => {
+      const ranked = rankCandidateSlots(
+        [slot(at(15)), slot(at(9)), slot(at(11))],
+        new Map(),
+        attendees,
+        at(10)
+      );
+
+      expect(ranked.map(r => r.startTime.getHours())).toEqual([9, 11, 15]);
+      expect(ranked[0].distanceMinutes).toBe(60);
+    });
+
+    it('should not count optional attendees against the required ranking', () => {
+      const busy = new Map([
+        ['optional@example.com', [{ startTime: at(10), endTime: at(10, 30) }]]
+      ]);
+
+      const ranked = rankCandidateSlots([slot(at(12)), slot(at(10))], busy, attendees, at(10));
+
+      expect(ranked[0].startTime).toEqual(at(10));
+      expect(ranked[0].optionalConflicts).toEqual(['optional@example.com']);
+      expect(ranked[0].requiredConflicts).toEqual([]);
+    });
+
+    it('should rank slots outside attendee working hours after slots inside them', () => {
+      const remoteAttendee = {
+        email: 'tokyo@example.com',
+        isRequired: true,
+        workingHours: {
+          timezone: 'Asia/Tokyo',
+          workingDays: [1, 2, 3, 4, 5],
+          workingHoursStart: 9,
+          workingHoursEnd: 17,
+          preferredMeetingLengths: [30]
+        }
+      };
+      // 01:00 UTC is 10:00 in Tokyo, 12:00 UTC is 21:00 in Tokyo
+      const early = new Date('2030-01-07T01:00:00Z');
+      const late = new Date('2030-01-07T12:00:00Z');
+
+      const ranked = rankCandidateSlots([slot(late), slot(early)], new Map(), [remoteAttendee], late);
+
+      expect(ranked[0].startTime).toEqual(early);
+      expect(ranked[0].outsideWorkingHours).toEqual([]);
+      expect(ranked[1].outsideWorkingHours).toEqual(['tokyo@example.com']);
+    });
+  });
+
+  describe('findMultiAttendeeSlots', () => {
+    let mockCalendar: any;
+
+    beforeEach(() => {
+      vi.clearAllMocks();
+
+      mockCalendar = {
+        freebusy: {
+          query: vi.fn()
+        }
+      };
+
+      (google.auth.OAuth2 as unknown as Mock).mockImplementation(() => ({ setCredentials: vi.fn() }));
+      (google.calendar as Mock).mockReturnValue(mockCalendar);
+    });
+
+    it('should query free/busy for the organizer and every attendee', async () => {
+      mockCalendar.freebusy.query.mockResolvedValue({ data: { calendars: {} } });
+
+      await findMultiAttendeeSlots(
+        mockUser,
+        [{ email: 'alice@example.com', isRequired: true }, { email: 'bob@example.com', isRequired: false }],
+        at(10),
+        30
+      );
+
+      const request = mockCalendar.freebusy.query.mock.calls[0][0].requestBody;
+      expect(request.items).toEqual([
+        { id: 'primary' },
+        { id: 'alice@example.com' },
+        { id: 'bob@example.com' }
+      ]);
+    });
+
+    it('should score the requested slot and suggest slots inside working hours', async () => {
+      mockCalendar.freebusy.query.mockResolvedValue({
+        data: {
+          calendars: {
+            primary: { busy: [] },
+            'alice@example.com': { busy: [{ start: at(10).toISOString(), end: at(11).toISOString() }] }
+          }
+        }
+      });
+
+      const result = await findMultiAttendeeSlots(
+        mockUser,
+        [{ email: 'alice@example.com', isRequired: true }],
+        at(10),
+        60,
+        3
+      );
+
+      expect(result.requestedSlot.requiredConflicts).toEqual(['alice@example.com']);
+      expect(result.slots).toHaveLength(3);
+      expect(result.slots.every(s => s.requiredConflicts.length === 0)).toBe(true);
+      expect(result.slots.map(s => s.startTime)).toEqual([at(9), at(11), at(11, 30)]);
+      expect(result.slots.every(s => s.startTime.getHours() >= 9 && s.endTime <= at(17, 0, s.startTime.getDate()))).toBe(true);
+    });
+
+    it('should count events from the organizer\'s calendar feeds as busy time', async () => {
+      mockCalendar.freebusy.query.mockResolvedValue({ data: { calendars: { primary: { busy: [] } } } });
+      vi.mocked(calendarFeedService.getBusyEvents).mockResolvedValueOnce([
+        { id: 'feed-1:dentist', title: 'Dentist', startTime: at(10), endTime: at(11), status: 'confirmed', source: 'Personal' }
+      ]);
+
+      const result = await findMultiAttendeeSlots(mockUser, [], at(10), 30);
+
+      expect(calendarFeedService.getBusyEvents).toHaveBeenCalledWith(mockUser.id, expect.any(Date), expect.any(Date));
+      expect(result.requestedSlot.requiredConflicts).toEqual(['organizer@example.com']);
+      expect(result.slots[0].isAvailable).toBe(true);
+    });
+
+    it('should count every calendar the organizer marked as busy', async () => {
+      vi.mocked(userProfileService.getCalendarPreferences).mockResolvedValueOnce({
+        busyCalendarIds: ['primary', 'team@group.calendar.google.com'],
+        meetingTypeCalendars: {}
+      });
+      mockCalendar.freebusy.query.mockResolvedValue({
+        data: {
+          calendars: {
+            primary: { busy: [] },
+            'team@group.calendar.google.com': { busy: [{ start: at(10).toISOString(), end: at(11).toISOString() }] },
+            'alice@example.com': { busy: [] }
+          }
+        }
+      });
+
+      const result = await findMultiAttendeeSlots(mockUser, [{ email: 'alice@example.com', isRequired: true }], at(10), 30);
+
+      expect(mockCalendar.freebusy.query.mock.calls[0][0].requestBody.items).toEqual([
+        { id: 'primary' },
+        { id: 'team@group.calendar.google.com' },
+        { id: 'alice@example.com' }
+      ]);
+      expect(result.requestedSlot.requiredConflicts).toEqual(['organizer@example.com']);
+      expect(result.unavailableCalendars).toEqual([]);
+    });
+
+    it('should report calendars whose free/busy is not shared', async () => {
+      mockCalendar.freebusy.query.mockResolvedValue({
+        data: {
+          calendars: {
+            primary: { busy: [] },
+            'external@other.com': { errors: [{ domain: 'global', reason: 'notFound' }] }
+          }
+        }
+      });
+
+      const result = await findMultiAttendeeSlots(
+        mockUser,
+        [{ email: 'external@other.com', isRequired: true }],
+        at(10),
+        30
+      );
+
+      expect(result.unavailableCalendars).toEqual(['external@other.com']);
+      expect(result.requestedSlot.isAvailable).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,300 @@
+import { describe, it, expect, vi } from 'vitest';
+import { parseIcsCalendar, expandIcsEvents } from '../icsParser';
+import {
+  CalendarFeedService,
+  CalendarFeedError,
+  httpCalendarFeedFetcher,
+  isPublicAddress,
+  type CalendarFeedFetcher,
+  type CalendarFeedStore
+} from '../calendarFeedService';
+import type { CalendarFeed } from '../../shared/schema';
+
+const calendar = (...events: string[]) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Example//Personal//EN',
+  'X-WR-TIMEZONE:America/New_York',
+  ...events,
+  'END:VCALENDAR'
+].join('\r\n');
+
+const standup = [
+  'BEGIN:VEVENT',
+  'UID:standup@example.com',
+  'DTSTART;TZID=America/New_York:20300107T093000',
+  'DTEND;TZID=America/New_York:20300107T094500',
+  'RRULE:FREQ=WEEKLY;BYDAY=MO,WE,FR',
+  'EXDATE;TZID=America/New_York:20300109T093000',
+  'SUMMARY:Client standup\\, Acme',
+  'BEGIN:VALARM',
+  'TRIGGER:-PT10M',
+  'SUMMARY:Reminder',
+  'END:VALARM',
+  'END:VEVENT'
+].join('\r\n');
+
+// Friday's standup moved to the afternoon, Monday's next-week standup cancelled
+const overrides = [
+  'BEGIN:VEVENT',
+  'UID:standup@example.com',
+  'RECURRENCE-ID;TZID=America/New_York:20300111T093000',
+  'DTSTART;TZID=America/New_York:20300111T140000',
+  'DTEND;TZID=America/New_York:20300111T141500',
+  'SUMMARY:Client standup (moved)',
+  'END:VEVENT',
+  'BEGIN:VEVENT',
+  'UID:standup@example.com',
+  'RECURRENCE-ID;TZID=America/New_York:20300114T093000',
+  'DTSTART;TZID=America/New_York:20300114T093000',
+  'DTEND;TZID=America/New_York:20300114T094500',
+  'STATUS:CANCELLED',
+  'SUMMARY:Client standup',
+  'END:VEVENT'
+].join('\r\n');
+
+const offsite = [
+  'BEGIN:VEVENT',
+  'UID:offsite@example.com',
+  'DTSTART;VALUE=DATE:20300108',
+  'SUMMARY:Team offsite',
+  'LOCATION:Lakeside Lodge\\; Main hall',
+  'END:VEVENT'
+].join('\r\n');
+
+const lunch = [
+  'BEGIN:VEVENT',
+  'UID:lunch@example.com',
+  'DTSTART:20300110T170000Z',
+  'DURATION:PT1H',
+  'TRANSP:TRANSPARENT',
+  'SUMMARY:Maybe lunch with a very long title that the publisher folded ove',
+  ' r two lines',
+  'END:VEVENT'
+].join('\r\n');
+
+const windowStart = new Date('2030-01-07T00:00:00Z');
+const windowEnd = new Date('2030-01-15T00:00:00Z');
+
+function memoryStore(initial: CalendarFeed[] = []): CalendarFeedStore & { feeds: CalendarFeed[] } {
+  const feeds = [...initial];
+  let nextId = feeds.length + 1;
+  let clock = 0;
+
+  return {
+    feeds,
+    async listFeeds(userId) {
+      return feeds.filter(feed => feed.userId === userId);
+    },
+    async getFeed(userId, feedId) {
+      return feeds.find(feed => feed.userId === userId && feed.id === feedId);
+    },
+    async insertFeed(feed) {
+      const created = {
+        id: `feed-${nextId++}`,
+        url: null,
+        enabled: true,
+        refreshIntervalMinutes: 60,
+        content: null,
+        etag: null,
+        eventCount: 0,
+        lastFetchedAt: null,
+        nextRefreshAt: null,
+        lastError: null,
+        createdAt: new Date(),
+        updatedAt: new Date(++clock),
+        ...feed
+      } as CalendarFeed;
+      feeds.push(created);
+      return created;
+    },
+    async updateFeed(feedId, changes) {
+      const index = feeds.findIndex(feed => feed.id === feedId);
+      if (index === -1) return undefined;
+      feeds[index] = { ...feeds[index], ...changes, updatedAt: new Date(++clock) };
+      return feeds[index];
+    },
+    async deleteFeed(userId, feedId) {
+      const index = feeds.findIndex(feed => feed.userId === userId && feed.id === feedId);
+      if (index === -1) return false;
+      feeds.splice(index, 1);
+      return true;
+    },
+    async listDueFeeds(now) {
+      return feeds.filter(feed => feed.enabled && feed.url && (!feed.nextRefreshAt || feed.nextRefreshAt <= now));
+    }
+  };
+}
+
+describe('ICS parser', () => {
+  it('should read timezones, all-day dates, durations, folding and escaping', () => {
+    const events = parseIcsCalendar(calendar(standup, offsite, lunch));
+
+    expect(events).toHaveLength(3);
+    expect(events[0]).toMatchObject({
+      uid: 'standup@example.com',
+      title: 'Client standup, Acme',
+      startTime: new Date('2030-01-07T14:30:00Z'),
+      endTime: new Date('2030-01-07T14:45:00Z'),
+      exdates: [new Date('2030-01-09T14:30:00Z')]
+    });
+    // All-day dates use the calendar's timezone and last one day without DTEND
+    expect(events[1]).toMatchObject({
+      allDay: true,
+      location: 'Lakeside Lodge; Main hall',
+      startTime: new Date('2030-01-08T05:00:00Z'),
+      endTime: new Date('2030-01-09T05:00:00Z')
+    });
+    expect(events[2]).toMatchObject({
+      title: 'Maybe lunch with a very long title that the publisher folded over two lines',
+      endTime: new Date('2030-01-10T18:00:00Z'),
+      transparency: 'transparent'
+    });
+  });
+
+  it('should expand recurring events with exclusions and overrides', () => {
+    const occurrences = expandIcsEvents(parseIcsCalendar(calendar(standup, overrides)), windowStart, windowEnd);
+    const confirmed = occurrences.filter(event => event.status !== 'cancelled');
+
+    expect(confirmed.map(event => event.startTime.toISOString())).toEqual([
+      '2030-01-07T14:30:00.000Z', // Monday
+      '2030-01-11T19:00:00.000Z' // Friday, moved to 2pm; Wednesday is excluded
+    ]);
+    expect(confirmed[1].title).toBe('Client standup (moved)');
+    expect(occurrences.filter(event => event.status === 'cancelled').map(event => event.startTime.toISOString()))
+      .toEqual(['2030-01-14T14:30:00.000Z']);
+  });
+
+  it('should repeat recurring events in their own timezone', () => {
+    const event = (uid: string, start: string, end: string, rrule: string) => [
+      'BEGIN:VEVENT',
+      `UID:${uid}`,
+      `DTSTART;TZID=${start}`,
+      `DTEND;TZID=${end}`,
+      `RRULE:${rrule}`,
+      'END:VEVENT'
+    ].join('\r\n');
+    const starts = (uid: string, from: string, to: string) =>
+      expandIcsEvents(parseIcsCalendar(calendar(
+        // Monday evening in Los Angeles is Tuesday in UTC
+        event('yoga', 'America/Los_Angeles:20300107T180000', 'America/Los_Angeles:20300107T190000', 'FREQ=WEEKLY;BYDAY=MO'),
+        // Stays at 10:00 New York time after DST starts on March 10
+        event('sync', 'America/New_York:20300308T100000', 'America/New_York:20300308T103000', 'FREQ=DAILY'),
+        event('board', 'America/New_York:20300108T150000', 'America/New_York:20300108T160000', 'FREQ=MONTHLY;BYDAY=2TU'),
+        event('rent', 'America/New_York:20300131T090000', 'America/New_York:20300131T091500', 'FREQ=MONTHLY;BYMONTHDAY=-1')
+      )), new Date(from), new Date(to))
+        .filter(occurrence => occurrence.id.startsWith(`${uid}:`))
+        .map(occurrence => occurrence.startTime.toISOString());
+
+    expect(starts('yoga', '2030-01-13T00:00:00Z', '2030-01-16T00:00:00Z')).toEqual(['2030-01-15T02:00:00.000Z']);
+    expect(starts('sync', '2030-03-09T00:00:00Z', '2030-03-12T00:00:00Z')).toEqual([
+      '2030-03-09T15:00:00.000Z',
+      '2030-03-10T14:00:00.000Z',
+      '2030-03-11T14:00:00.000Z'
+    ]);
+    expect(starts('board', '2030-01-01T00:00:00Z', '2030-04-01T00:00:00Z')).toEqual([
+      '2030-01-08T20:00:00.000Z',
+      '2030-02-12T20:00:00.000Z',
+      '2030-03-12T19:00:00.000Z'
+    ]);
+    expect(starts('rent', '2030-02-01T00:00:00Z', '2030-05-01T00:00:00Z')).toEqual([
+      '2030-02-28T14:00:00.000Z',
+      '2030-03-31T13:00:00.000Z',
+      '2030-04-30T13:00:00.000Z'
+    ]);
+  });
+
+  it('should reach the window for long-running series', () => {
+    const since2010 = [
+      'BEGIN:VEVENT',
+      'UID:checkin@example.com',
+      'DTSTART;TZID=America/New_York:20100104T083000',
+      'DTEND;TZID=America/New_York:20100104T084500',
+      'RRULE:FREQ=DAILY',
+      'EXDATE;TZID=America/New_York:20300108T083000',
+      'END:VEVENT'
+    ].join('\r\n');
+
+    const occurrences = expandIcsEvents(parseIcsCalendar(calendar(since2010)), windowStart, new Date('2030-01-10T00:00:00Z'));
+
+    expect(occurrences.map(event => event.startTime.toISOString())).toEqual([
+      '2030-01-07T13:30:00.000Z',
+      '2030-01-09T13:30:00.000Z'
+    ]);
+  });
+});
+
+describe('CalendarFeedService', () => {
+  it('should subscribe to a feed and count its busy events', async () => {
+    const fetcher = vi.fn<CalendarFeedFetcher>(async () => ({ notModified: false, content: calendar(standup, overrides, offsite, lunch), etag: '"v1"' }));
+    const service = new CalendarFeedService(memoryStore(), fetcher);
+    const now = new Date('2030-01-06T12:00:00Z');
+
+    const feed = await service.addFeed('user-1', { name: 'Personal', url: 'https://calendar.example.com/personal.ics', refreshIntervalMinutes: 30 }, now);
+    const busy = await service.getBusyEvents('user-1', windowStart, windowEnd);
+
+    expect(feed).toMatchObject({ eventCount: 5, etag: '"v1"', nextRefreshAt: new Date('2030-01-06T12:30:00Z') });
+    // The cancelled override and the transparent lunch do not block time
+    expect(busy.map(event => event.title)).toEqual(['Client standup, Acme', 'Team offsite', 'Client standup (moved)']);
+    expect(busy.every(event => event.source === 'Personal' && event.id.startsWith(`${feed.id}:`))).toBe(true);
+  });
+
+  it('should store uploaded files and leave disabled feeds out of busy time', async () => {
+    const store = memoryStore();
+    const service = new CalendarFeedService(store, vi.fn());
+
+    const feed = await service.addFeed('user-1', { name: 'Client', content: calendar(offsite) });
+    expect(await service.getBusyEvents('user-1', windowStart, windowEnd)).toHaveLength(1);
+
+    await service.updateFeed('user-1', feed.id, { enabled: false });
+    expect(await service.getBusyEvents('user-1', windowStart, windowEnd)).toEqual([]);
+    expect(await service.updateFeed('someone-else', feed.id, { enabled: true })).toBeUndefined();
+  });
+
+  it('should reject content that is not iCalendar data', async () => {
+    const service = new CalendarFeedService(memoryStore(), vi.fn());
+
+    await expect(service.addFeed('user-1', { name: 'Notes', content: 'just some text' })).rejects.toBeInstanceOf(CalendarFeedError);
+  });
+
+  it('should refresh due feeds, keeping the last good content when a fetch fails', async () => {
+    const store = memoryStore();
+    const fetcher = vi.fn<CalendarFeedFetcher>()
+      .mockResolvedValueOnce({ notModified: false, content: calendar(offsite), etag: '"v1"' })
+      .mockResolvedValueOnce({ notModified: true })
+      .mockRejectedValueOnce(new CalendarFeedError('Feed request failed with HTTP 503'));
+    const service = new CalendarFeedService(store, fetcher);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const feed = await service.addFeed('user-1', { name: 'Client', url: 'https://example.com/client.ics' }, new Date('2030-01-06T12:00:00Z'));
+
+    expect(await service.refreshDueFeeds(new Date('2030-01-06T12:30:00Z'))).toBe(0);
+    expect(await service.refreshDueFeeds(new Date('2030-01-06T13:00:00Z'))).toBe(1);
+    expect(fetcher).toHaveBeenLastCalledWith('https://example.com/client.ics', '"v1"');
+
+    await service.refreshDueFeeds(new Date('2030-01-06T14:00:00Z'));
+    expect(store.feeds[0]).toMatchObject({
+      id: feed.id,
+      lastError: 'Feed request failed with HTTP 503',
+      lastFetchedAt: new Date('2030-01-06T13:00:00Z'),
+      nextRefreshAt: new Date('2030-01-06T15:00:00Z')
+    });
+    expect(await service.getBusyEvents('user-1', windowStart, windowEnd)).toHaveLength(1);
+  });
+});
+
+describe('httpCalendarFeedFetcher', () => {
+  it('should only treat public addresses as fetchable', () => {
+    expect(['93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946'].every(isPublicAddress)).toBe(true);
+    expect(['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.10', '169.254.169.254', '100.64.0.1', '0.0.0.0',
+      '::1', '::', 'fd00:ec2::254', 'fe80::1', '::ffff:127.0.0.1', 'not-an-ip'].some(isPublicAddress)).toBe(false);
+  });
+
+  it('should refuse feeds on loopback, private and metadata addresses', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    for (const url of ['http://127.0.0.1:6379/', 'http://169.254.169.254/latest/meta-data/', 'http://[::1]/feed.ics', 'http://localhost/feed.ics']) {
+      await expect(httpCalendarFeedFetcher(url)).rejects.toThrow(new CalendarFeedError('Feed URL must point to a public address'));
+    }
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it, expect, vi } from 'vitest';
+import { buildCalendarInvite, buildVTimezone, toCalendarInviteAttachment, toInviteAttendees, type CalendarInvite } from '../calendarInvite';
+import { CalendarInviteService, type CalendarInviteStore } from '../calendarInviteService';
+import type { Event, User } from '../../shared/schema';
+import { DEFAULT_WORKING_HOURS_PROFILE } from '../utils/workingHours';
+
+const organizer = { id: 'organizer', email: 'olivia@acme.com', name: 'Olivia Organizer' } as User;
+
+const invite: CalendarInvite = {
+  uid: 'evt-1@google.com',
+  sequence: 0,
+  title: 'Q3 Planning; budget, hiring',
+  description: 'Roadmap review\nBudget sign-off',
+  startTime: new Date('2026-03-02T15:00:00Z'),
+  endTime: '2026-03-02T16:00:00.000Z',
+  location: 'Room 4B',
+  meetingLink: 'https://meet.google.com/abc-defg-hij',
+  recurrenceRule: 'RRULE:FREQ=WEEKLY;BYDAY=MO',
+  organizer: { email: 'olivia@acme.com', name: 'Olivia Organizer' },
+  attendees: [
+    { email: 'olivia@acme.com' },
+    { email: 'priya@acme.com', name: 'Priya Shah' },
+    { email: 'sam@acme.com', role: 'OPT-PARTICIPANT' }
+  ]
+};
+
+// Undo RFC 5545 line folding so assertions can match whole properties
+function unfold(ics: string): string[] {
+  return ics.replace(/\r\n /g, '').split('\r\n');
+}
+
+function storedEvent(overrides: Partial<Event> = {}): Event {
+  return {
+    id: 'local-1',
+    googleEventId: 'evt-1',
+    userId: 'organizer',
+    title: 'Vendor Review',
+    description: 'Quarterly vendor review',
+    startTime: new Date('2026-03-02T15:00:00Z'),
+    endTime: new Date('2026-03-02T16:00:00Z'),
+    attendees: ['olivia@acme.com', 'priya@acme.com', 'sam@acme.com'],
+    meetingLink: null,
+    location: 'Room 4B',
+    agenda: null,
+    recurrenceRule: null,
+    icsSequence: 2,
+    ...overrides
+  } as Event;
+}
+
+const profiles = { getWorkingHours: vi.fn(async () => ({ ...DEFAULT_WORKING_HOURS_PROFILE, timezone: 'America/New_York' })) };
+
+function memoryStore(event: Event, inviteRecipients: string[] = ['priya@acme.com', 'sam@acme.com']): CalendarInviteStore {
+  return {
+    async findEvent(userId, meetingId) {
+      return event.userId === userId && (event.id === meetingId || event.googleEventId === meetingId) ? event : undefined;
+    },
+    async incrementSequence() {
+      event = { ...event, icsSequence: event.icsSequence + 1 };
+      return event;
+    },
+    async listInviteRecipients() {
+      return inviteRecipients;
+    }
+  };
+}
+
+describe('Calendar invites', () => {
+  it('should build a REQUEST with recurrence, location, meeting link and attendee roles', () => {
+    const ics = buildCalendarInvite(invite, 'REQUEST', new Date('2026-02-20T09:30:00Z'));
+    const lines = unfold(ics);
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(lines).toEqual(expect.arrayContaining([
+      'METHOD:REQUEST',
+      'UID:evt-1@google.com',
+      'SEQUENCE:0',
+      'DTSTAMP:20260220T093000Z',
+      'DTSTART:20260302T150000Z',
+      'DTEND:20260302T160000Z',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO',
+      'SUMMARY:Q3 Planning\\; budget\\, hiring',
+      'DESCRIPTION:Roadmap review\\nBudget sign-off\\n\\nJoin: https://meet.google.com/abc-defg-hij',
+      'LOCATION:Room 4B',
+      'URL:https://meet.google.com/abc-defg-hij',
+      'STATUS:CONFIRMED',
+      'ORGANIZER;CN="Olivia Organizer":mailto:olivia@acme.com',
+      'ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=CHAIR;PARTSTAT=ACCEPTED;CN="Olivia Organizer":mailto:olivia@acme.com',
+      'ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE;CN="Priya Shah":mailto:priya@acme.com',
+      'ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=OPT-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE:mailto:sam@acme.com'
+    ]));
+    // The organizer is listed once, as chair
+    expect(lines.filter(line => line.endsWith(':mailto:olivia@acme.com'))).toHaveLength(2);
+    expect(ics.split('\r\n').every(line => Buffer.byteLength(line) <= 75)).toBe(true);
+  });
+
+  it('should write recurring events in their timezone with a matching VTIMEZONE', () => {
+    // Monday 18:00 in New York is Tuesday in UTC
+    const lines = unfold(buildCalendarInvite({
+      ...invite,
+      startTime: '2026-03-02T23:00:00.000Z',
+      endTime: '2026-03-03T00:00:00.000Z',
+      timeZone: 'America/New_York'
+    }, 'REQUEST'));
+
+    expect(lines).toEqual(expect.arrayContaining([
+      'DTSTART;TZID=America/New_York:20260302T180000',
+      'DTEND;TZID=America/New_York:20260302T190000',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO'
+    ]));
+    expect(lines.slice(lines.indexOf('BEGIN:VTIMEZONE'), lines.indexOf('END:VTIMEZONE') + 1)).toEqual([
+      'BEGIN:VTIMEZONE',
+      'TZID:America/New_York',
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20250309T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+      'TZOFFSETFROM:-0500',
+      'TZOFFSETTO:-0400',
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20251102T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+      'TZOFFSETFROM:-0400',
+      'TZOFFSETTO:-0500',
+      'END:STANDARD',
+      'END:VTIMEZONE'
+    ]);
+    expect(lines.indexOf('END:VTIMEZONE')).toBeLessThan(lines.indexOf('BEGIN:VEVENT'));
+  });
+
+  it('should describe timezones without DST and last-weekday rules', () => {
+    expect(buildVTimezone('Asia/Tokyo', 2025)).toEqual(expect.arrayContaining(['TZOFFSETFROM:+0900', 'TZOFFSETTO:+0900']));
+    expect(buildVTimezone('Europe/Berlin', 2025)).toEqual(expect.arrayContaining([
+      'DTSTART:20250330T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+      'DTSTART:20251026T030000',
+      'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU'
+    ]));
+  });
+
+  it('should build a CANCEL without asking for replies', () => {
+    const lines = unfold(buildCalendarInvite({ ...invite, sequence: 3, location: undefined }, 'CANCEL'));
+
+    expect(lines).toEqual(expect.arrayContaining(['METHOD:CANCEL', 'SEQUENCE:3', 'STATUS:CANCELLED', 'LOCATION:https://meet.google.com/abc-defg-hij']));
+    expect(lines.some(line => line.includes('RSVP=TRUE'))).toBe(false);
+  });
+
+  it('should attach invites as text/calendar with the method', () => {
+    expect(toCalendarInviteAttachment(invite, 'REQUEST')).toMatchObject({
+      filename: 'invite.ics',
+      contentType: 'text/calendar; charset=utf-8; method=REQUEST'
+    });
+  });
+
+  it('should make attendees who are not required optional', () => {
+    expect(toInviteAttendees([{ email: 'priya@acme.com', firstName: 'Priya', lastName: 'Shah' }, { email: 'sam@acme.com', isRequired: false }])).toEqual([
+      { email: 'priya@acme.com', name: 'Priya Shah', role: 'REQ-PARTICIPANT' },
+      { email: 'sam@acme.com', name: undefined, role: 'OPT-PARTICIPANT' }
+    ]);
+  });
+});
+
+describe('CalendarInviteService', () => {
+  it('should export a stored meeting as a PUBLISH document', async () => {
+    const service = new CalendarInviteService(memoryStore(storedEvent()), { sendMeetingCancellationEmail: vi.fn() }, profiles);
+
+    const file = await service.exportMeeting(organizer, 'evt-1');
+
+    expect(file?.filename).toBe('vendor-review.ics');
+    expect(unfold(file!.content)).toEqual(expect.arrayContaining(['METHOD:PUBLISH', 'UID:evt-1@google.com', 'SEQUENCE:2']));
+    expect(await service.exportMeeting(organizer, 'someone-elses-meeting')).toBeUndefined();
+  });
+
+  it('should bump the sequence when a meeting is updated', async () => {
+    const service = new CalendarInviteService(memoryStore(storedEvent()), { sendMeetingCancellationEmail: vi.fn() }, profiles);
+
+    const updated = await service.getUpdatedInvite(organizer, 'local-1');
+
+    expect(updated).toMatchObject({ uid: 'evt-1@google.com', sequence: 3, location: 'Room 4B' });
+  });
+
+  it('should send every attendee but the organizer a cancellation at the next sequence', async () => {
+    const sendMeetingCancellationEmail = vi.fn(async (_user: User, email: string) => ({ email, success: true }));
+    const service = new CalendarInviteService(memoryStore(storedEvent()), { sendMeetingCancellationEmail }, profiles);
+
+    const results = await service.cancelMeeting(organizer, 'evt-1');
+
+    expect(results).toEqual([{ email: 'priya@acme.com', success: true }, { email: 'sam@acme.com', success: true }]);
+    expect(sendMeetingCancellationEmail).toHaveBeenCalledWith(organizer, 'priya@acme.com', expect.objectContaining({ sequence: 3 }));
+  });
+
+  it('should only cancel for attendees who were emailed the invite', async () => {
+    const sendMeetingCancellationEmail = vi.fn(async (_user: User, email: string) => ({ email, success: true }));
+    const service = new CalendarInviteService(memoryStore(storedEvent(), ['Sam@acme.com']), { sendMeetingCancellationEmail }, profiles);
+
+    expect(await service.cancelMeeting(organizer, 'evt-1')).toEqual([{ email: 'sam@acme.com', success: true }]);
+  });
+
+  it('should write recurring meetings in the organizer timezone', async () => {
+    const service = new CalendarInviteService(
+      memoryStore(storedEvent({ recurrenceRule: 'RRULE:FREQ=WEEKLY;BYDAY=MO' })),
+      { sendMeetingCancellationEmail: vi.fn() },
+      profiles
+    );
+
+    const invite = await service.getInvite(organizer, 'evt-1');
+
+    expect(invite?.timeZone).toBe('America/New_York');
+    expect((await new CalendarInviteService(memoryStore(storedEvent()), { sendMeetingCancellationEmail: vi.fn() }, profiles)
+      .getInvite(organizer, 'evt-1'))?.timeZone).toBeUndefined();
+  });
+});
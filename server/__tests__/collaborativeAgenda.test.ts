@@ -0,0 +1,250 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CollaborativeAgendaService, type AgendaMeeting, type CollaborativeSessionStore } from '../collaborativeAgendaService';
+import {
+  applyOperations,
+  diffToOperations,
+  offsetToPosition,
+  positionToOffset,
+  transformOffset,
+  transformOperations
+} from '../../shared/agendaOperations';
+import type { AgendaChangeRecord, AgendaTextOperation, CollaborativeSessionRecord } from '../../shared/schema';
+
+class MemoryCollaborativeStore implements CollaborativeSessionStore {
+  sessions: CollaborativeSessionRecord[] = [];
+  changes: AgendaChangeRecord[] = [];
+  meetings: Record<string, AgendaMeeting> = {
+    'agenda-1': { userId: 'user-1', attendees: ['Sam@example.com'] }
+  };
+
+  async createSession(session: any) {
+    const created: CollaborativeSessionRecord = {
+      id: `session-${this.sessions.length + 1}`,
+      agendaId: session.agendaId,
+      ownerId: session.ownerId,
+      content: session.content ?? '',
+      revision: 0,
+      participants: session.participants ?? [],
+      settings: session.settings,
+      isActive: true,
+      createdAt: new Date(),
+      lastActivity: new Date(),
+      endedAt: null
+    };
+    this.sessions.push(created);
+    return { ...created };
+  }
+
+  async getSession(sessionId: string) {
+    const session = this.sessions.find(session => session.id === sessionId);
+    return session && { ...session };
+  }
+
+  async findActiveSession(agendaId: string) {
+    return this.sessions.find(session => session.agendaId === agendaId && session.isActive);
+  }
+
+  async listActiveSessions() {
+    return this.sessions.filter(session => session.isActive);
+  }
+
+  async updateSession(sessionId: string, changes: any) {
+    Object.assign(this.sessions.find(session => session.id === sessionId)!, changes);
+  }
+
+  async appendChange(change: any, content: string) {
+    if (this.changes.some(existing => existing.sessionId === change.sessionId && existing.revision === change.revision)) {
+      throw new Error('duplicate revision');
+    }
+    const created = {
+      content: null, length: null, previousContent: null, clientId: null, metadata: null,
+      ...change,
+      id: `change-${this.changes.length + 1}`,
+      createdAt: new Date()
+    } as AgendaChangeRecord;
+    this.changes.push(created);
+    await this.updateSession(change.sessionId, { content, revision: change.revision });
+    return created;
+  }
+
+  async listChangesAfter(sessionId: string, revision: number) {
+    return this.changes.filter(change => change.sessionId === sessionId && change.revision > revision);
+  }
+
+  async listAgendaChanges(agendaId: string) {
+    return this.changes.filter(change => change.agendaId === agendaId);
+  }
+
+  async countAgendaChanges(agendaId: string) {
+    return this.changes.filter(change => change.agendaId === agendaId).length;
+  }
+
+  async findAgendaCreator(agendaId: string) {
+    return this.sessions.find(session => session.agendaId === agendaId)?.ownerId;
+  }
+
+  async findMeeting(agendaId: string) {
+    return this.meetings[agendaId];
+  }
+}
+
+// Both orders of applying concurrent edits must produce the same text
+function expectConvergence(text: string, a: AgendaTextOperation[], b: AgendaTextOperation[]) {
+  const [aPrime, bPrime] = transformOperations(a, b, 'right');
+  const viaB = applyOperations(applyOperations(text, b), aPrime);
+  const viaA = applyOperations(applyOperations(text, a), bPrime);
+  expect(viaB).toBe(viaA);
+  return viaB;
+}
+
+describe('Agenda text operations', () => {
+  const text = '1. Roadmap\n2. Budget\n3. Wrap-up';
+
+  it('should merge inserts at different places', () => {
+    const merged = expectConvergence(
+      text,
+      [{ type: 'insert', index: 10, text: ' review' }],
+      [{ type: 'insert', index: 20, text: ' and hiring' }]
+    );
+
+    expect(merged).toBe('1. Roadmap review\n2. Budget and hiring\n3. Wrap-up');
+  });
+
+  it('should order inserts at the same offset consistently', () => {
+    const merged = expectConvergence('ab', [{ type: 'insert', index: 1, text: 'X' }], [{ type: 'insert', index: 1, text: 'Y' }]);
+
+    expect(merged).toBe('aYXb');
+  });
+
+  it('should keep text typed inside a range someone else deleted', () => {
+    const merged = expectConvergence(
+      text,
+      [{ type: 'insert', index: 14, text: 'Q3 ' }],
+      [{ type: 'delete', index: 11, length: 10 }]
+    );
+
+    expect(merged).toBe('1. Roadmap\nQ3 3. Wrap-up');
+  });
+
+  it('should not delete the same text twice', () => {
+    const merged = expectConvergence(
+      text,
+      [{ type: 'delete', index: 11, length: 10 }],
+      [{ type: 'delete', index: 14, length: 7 }]
+    );
+
+    expect(merged).toBe('1. Roadmap\n3. Wrap-up');
+  });
+
+  it('should keep an insert when a delete spans it', () => {
+    const merged = expectConvergence(
+      text,
+      [{ type: 'delete', index: 3, length: 18 }],
+      [{ type: 'insert', index: 10, text: '!' }]
+    );
+
+    expect(merged).toBe('1. !3. Wrap-up');
+  });
+
+  it('should merge sequences of edits', () => {
+    const typed = diffToOperations(text, '1. Roadmap (20 min)\n2. Budget\n3. Wrap-up');
+    const replaced = diffToOperations(text, '1. Roadmap\n2. Hiring\n3. Wrap-up');
+
+    expect(expectConvergence(text, typed, replaced)).toBe('1. Roadmap (20 min)\n2. Hiring\n3. Wrap-up');
+  });
+
+  it('should convert between offsets and cursor positions', () => {
+    const offset = positionToOffset(text, { line: 1, column: 3 });
+
+    expect(text.slice(offset, offset + 6)).toBe('Budget');
+    expect(offsetToPosition(text, offset)).toEqual({ line: 1, column: 3 });
+    expect(transformOffset(offset, [{ type: 'insert', index: 0, text: '# ' }])).toBe(offset + 2);
+  });
+});
+
+describe('CollaborativeAgendaService', () => {
+  let store: MemoryCollaborativeStore;
+  let service: CollaborativeAgendaService;
+
+  beforeEach(() => {
+    store = new MemoryCollaborativeStore();
+    service = new CollaborativeAgendaService(store);
+  });
+
+  it('should merge edits made on the same revision', async () => {
+    const session = (await service.createSession('agenda-1', 'user-1', 'priya@example.com', 'Priya', 'Roadmap\nBudget'))!;
+    await service.joinSession(session.id, 'user-2', 'sam@example.com', 'Sam');
+
+    const [first, second] = await Promise.all([
+      service.submitOperations({ sessionId: session.id, userId: 'user-1', userName: 'Priya', baseRevision: 0, operations: [{ type: 'insert', index: 7, text: ' review' }] }),
+      service.submitOperations({ sessionId: session.id, userId: 'user-2', userName: 'Sam', baseRevision: 0, operations: [{ type: 'insert', index: 14, text: ' and hiring' }] })
+    ]);
+
+    expect(first?.revision).toBe(1);
+    expect(second?.revision).toBe(2);
+    expect(second?.operations).toEqual([{ type: 'insert', index: 21, text: ' and hiring' }]);
+    expect((await service.getSession(session.id))?.content).toBe('Roadmap review\nBudget and hiring');
+  });
+
+  it('should resume sessions and history from the store after a restart', async () => {
+    const session = (await service.createSession('agenda-1', 'user-1', 'priya@example.com', 'Priya', 'Roadmap'))!;
+    await service.submitOperations({ sessionId: session.id, userId: 'user-1', userName: 'Priya', baseRevision: 0, operations: [{ type: 'delete', index: 0, length: 4 }] });
+
+    const restarted = new CollaborativeAgendaService(store);
+    const resumed = await restarted.getSession(session.id);
+
+    expect(resumed).toMatchObject({ content: 'map', revision: 1 });
+    expect(resumed?.participants[0]).toMatchObject({ userId: 'user-1', isOnline: false });
+    expect((await restarted.getChangesAfterRevision(session.id, 0))[0]).toMatchObject({ changeType: 'delete', previousContent: 'Road' });
+  });
+
+  it('should only let session editors change the agenda', async () => {
+    const session = (await service.createSession('agenda-1', 'user-1', 'priya@example.com', 'Priya', 'Roadmap'))!;
+
+    const change = await service.submitOperations({ sessionId: session.id, userId: 'stranger', userName: 'Eve', baseRevision: 0, operations: [{ type: 'insert', index: 0, text: 'x' }] });
+
+    expect(change).toBeNull();
+    expect(store.changes).toHaveLength(0);
+  });
+
+  it('should only let the organizer and attendees into a meeting\'s sessions', async () => {
+    const session = (await service.createSession('agenda-1', 'user-1', 'priya@example.com', 'Priya', 'Roadmap'))!;
+
+    expect(await service.joinSession(session.id, 'user-2', 'sam@example.com', 'Sam')).toMatchObject({ role: 'editor' });
+    expect(await service.canJoinSession(session.id, 'stranger', 'eve@example.com')).toBe(false);
+    expect(await service.joinSession(session.id, 'stranger', 'eve@example.com', 'Eve')).toBeNull();
+    expect(await service.createSession('agenda-1', 'stranger', 'eve@example.com', 'Eve')).toBeNull();
+    expect((await service.getSession(session.id))?.participants.map(p => p.userId)).toEqual(['user-1', 'user-2']);
+  });
+
+  it('should keep sessions on unsaved meetings to their owner', async () => {
+    const session = (await service.createSession('draft-1', 'user-1', 'priya@example.com', 'Priya'))!;
+
+    expect(await service.canJoinSession(session.id, 'user-1', 'priya@example.com')).toBe(true);
+    expect(await service.joinSession(session.id, 'user-2', 'sam@example.com', 'Sam')).toBeNull();
+
+    // The agenda stays its creator's, even once the first session has ended
+    await store.updateSession(session.id, { isActive: false });
+    expect(await service.canAccessAgenda('draft-1', 'user-2', 'sam@example.com')).toBe(false);
+    expect(await service.createSession('draft-1', 'user-2', 'sam@example.com', 'Sam')).toBeNull();
+    expect(await service.canAccessAgenda('draft-1', 'user-1', 'priya@example.com')).toBe(true);
+  });
+
+  it('should lock sections of the session\'s own agenda only', async () => {
+    const session = (await service.createSession('agenda-1', 'user-1', 'priya@example.com', 'Priya', 'Roadmap'))!;
+    await service.joinSession(session.id, 'user-2', 'sam@example.com', 'Sam');
+
+    expect(await service.acquireLock(session.id, 'topic-1', 'user-2')).toMatchObject({ agendaId: 'agenda-1', sessionId: session.id });
+    expect(await service.acquireLock(session.id, 'topic-1', 'user-1')).toBeNull();
+    expect(await service.acquireLock(session.id, 'topic-2', 'stranger')).toBeNull();
+  });
+
+  it('should reject edits that do not fit the agenda', async () => {
+    const session = (await service.createSession('agenda-1', 'user-1', 'priya@example.com', 'Priya', 'Roadmap'))!;
+
+    await expect(service.submitOperations({ sessionId: session.id, userId: 'user-1', userName: 'Priya', baseRevision: 0, operations: [{ type: 'delete', index: 5, length: 10 }] }))
+      .rejects.toThrow('past the end');
+    await expect(service.submitOperations({ sessionId: session.id, userId: 'user-1', userName: 'Priya', baseRevision: 3, operations: [{ type: 'insert', index: 0, text: 'x' }] }))
+      .rejects.toThrow('ahead of the session');
+  });
+});
@@ -0,0 +1,155 @@
+import { EventEmitter } from 'events';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { Request, Response } from 'express';
+import { createConversationalStreamHandler, toTextChunks, type ConversationalStreamDependencies } from '../conversationalChatStream';
+import type { ChatWorkflowResponse } from '../workflowChatIntegration';
+
+class MockResponse extends EventEmitter {
+  statusCode = 200;
+  headers: Record<string, string> = {};
+  body = '';
+  json = vi.fn();
+  writableFinished = false;
+  ended = false;
+
+  status(code: number) {
+    this.statusCode = code;
+    return this;
+  }
+
+  writeHead(code: number, headers: Record<string, string>) {
+    this.statusCode = code;
+    this.headers = headers;
+    return this;
+  }
+
+  flushHeaders() {}
+
+  write(chunk: string) {
+    this.body += chunk;
+    return true;
+  }
+
+  end() {
+    this.ended = true;
+    this.writableFinished = true;
+    this.emit('close');
+    return this;
+  }
+
+  disconnect() {
+    this.emit('close');
+  }
+
+  events() {
+    return this.body.split('\n\n').filter(Boolean).map(raw => {
+      const [eventLine, dataLine] = raw.split('\n');
+      return { event: eventLine.replace('event: ', ''), data: JSON.parse(dataLine.replace('data: ', '')) };
+    });
+  }
+}
+
+const mockRequest = (body: any, authenticated = true) => ({
+  body,
+  user: { id: 'user-ada', email: 'ada@example.com' },
+  isAuthenticated: () => authenticated
+}) as unknown as Request;
+
+const chatResponse = (message: string) => ({ message, conversationId: 'conv-1' }) as ChatWorkflowResponse;
+
+describe('conversational chat stream', () => {
+  let dependencies: ConversationalStreamDependencies;
+  let res: MockResponse;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    dependencies = {
+      processMessage: vi.fn(async () => chatResponse('Should this be online or in person?')),
+      buildResponse: vi.fn(async (_user, _conversationId, response) => ({ ...response, uiBlock: null }))
+    };
+    res = new MockResponse();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const handle = (body: any, authenticated = true) =>
+    createConversationalStreamHandler(dependencies)(mockRequest(body, authenticated), res as unknown as Response);
+
+  it('should reject unauthenticated requests and missing messages before opening the stream', async () => {
+    await handle({ message: 'hi' }, false);
+    expect(res.statusCode).toBe(401);
+
+    res = new MockResponse();
+    await handle({ conversationId: 'conv-1' });
+    expect(res.statusCode).toBe(400);
+    expect(res.json).toHaveBeenCalledWith({ error: 'Message is required' });
+    expect(dependencies.processMessage).not.toHaveBeenCalled();
+  });
+
+  it('should send event-stream headers and frame tokens before the done event', async () => {
+    dependencies.processMessage = vi.fn(async (_userId, _message, _conversationId, _user, onToken) => {
+      onToken('Hello ');
+      onToken('there');
+      return chatResponse('Hello there');
+    });
+
+    await handle({ message: 'hi', conversationId: 'conv-1' });
+
+    expect(res.headers).toEqual({ 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', 'Connection': 'keep-alive' });
+    expect(res.body.startsWith('event: token\ndata: {"text":"Hello "}\n\n')).toBe(true);
+    expect(res.events()).toEqual([
+      { event: 'token', data: { text: 'Hello ' } },
+      { event: 'token', data: { text: 'there' } },
+      { event: 'done', data: { message: 'Hello there', conversationId: 'conv-1', uiBlock: null } }
+    ]);
+    expect(dependencies.processMessage).toHaveBeenCalledWith('user-ada', 'hi', 'conv-1', expect.anything(), expect.any(Function));
+    expect(res.ended).toBe(true);
+  });
+
+  it('should stream replies from steps that do not use the AI word by word', async () => {
+    await handle({ message: 'online please' });
+
+    const tokens = res.events().filter(event => event.event === 'token').map(event => event.data.text);
+    expect(tokens).toEqual(['Should ', 'this ', 'be ', 'online ', 'or ', 'in ', 'person?']);
+    expect(res.events().at(-1)).toMatchObject({ event: 'done', data: { message: 'Should this be online or in person?' } });
+  });
+
+  it('should send an error event when the workflow fails', async () => {
+    dependencies.processMessage = vi.fn(async () => {
+      throw new Error('Workflow unavailable');
+    });
+
+    await handle({ message: 'hi', conversationId: 'conv-1' });
+
+    expect(res.events()).toEqual([{
+      event: 'error',
+      data: {
+        error: 'Workflow unavailable',
+        conversationId: 'conv-1',
+        fallbackMessage: 'I encountered an error processing your message. Please try again or start a new conversation.'
+      }
+    }]);
+    expect(res.ended).toBe(true);
+  });
+
+  it('should stop writing once the client disconnects', async () => {
+    dependencies.processMessage = vi.fn(async (_userId, _message, _conversationId, _user, onToken) => {
+      onToken('Hello ');
+      res.disconnect();
+      onToken('there');
+      return chatResponse('Hello there');
+    });
+
+    await handle({ message: 'hi' });
+
+    expect(res.events()).toEqual([{ event: 'token', data: { text: 'Hello ' } }]);
+    expect(res.ended).toBe(false);
+  });
+
+  it('should keep whitespace when splitting text into chunks', () => {
+    expect(toTextChunks('  Pick a time:\n9am or 2pm ').join('')).toBe('  Pick a time:\n9am or 2pm ');
+    expect(toTextChunks('')).toEqual([]);
+  });
+});
@@ -0,0 +1,302 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EmailWorkflowOrchestrator, getDeliveryKey, getTemplateVersion, type EmailJobStore, type EmailSender } from '../emailWorkflowOrchestrator';
+import { emailNotificationService } from '../emailNotificationService';
+import { AGENDA_DOCUMENT_VERSION } from '../../shared/schema';
+import type { AgendaDocument, EmailDeliveryRecord, EmailJobRecord, MeetingMinutes, User } from '../../shared/schema';
+
+class MemoryEmailJobStore implements EmailJobStore {
+  jobs: EmailJobRecord[] = [];
+  deliveries: EmailDeliveryRecord[] = [];
+
+  async getUser(userId: string) {
+    return userId === user.id ? user : undefined;
+  }
+
+  async insertJob(job: any) {
+    const now = new Date();
+    const created: EmailJobRecord = {
+      agendaContent: null,
+      minutes: null,
+      attempts: 0,
+      retryCount: 0,
+      maxRetries: 3,
+      availableAt: now,
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      deadLetteredAt: null,
+      startedAt: null,
+      completedAt: null,
+      ...job,
+      id: `job-${this.jobs.length + 1}`,
+      createdAt: new Date(now.getTime() + this.jobs.length),
+      updatedAt: now
+    };
+    this.jobs.push(created);
+    return created;
+  }
+
+  async getJob(jobId: string, userId?: string) {
+    return this.jobs.find(job => job.id === jobId && (!userId || job.userId === userId));
+  }
+
+  async updateJob(jobId: string, changes: any) {
+    Object.assign((await this.getJob(jobId))!, changes, { updatedAt: new Date() });
+  }
+
+  async claimJobs(workerId: string, now: Date, leaseExpiresAt: Date, limit: number) {
+    const claimable = this.jobs
+      .filter(job =>
+        (job.status === 'pending' && job.availableAt <= now) ||
+        (job.status === 'in_progress' && job.leaseExpiresAt! < now)
+      )
+      .slice(0, limit);
+
+    claimable.forEach(job => Object.assign(job, {
+      status: 'in_progress',
+      leaseOwner: workerId,
+      leaseExpiresAt,
+      attempts: job.attempts + 1,
+      startedAt: job.startedAt ?? now
+    }));
+    return claimable.map(job => ({ ...job }));
+  }
+
+  async renewLease(jobId: string, workerId: string, leaseExpiresAt: Date) {
+    const job = await this.getJob(jobId);
+    if (job?.leaseOwner !== workerId || job.status !== 'in_progress') return false;
+    job.leaseExpiresAt = leaseExpiresAt;
+    return true;
+  }
+
+  async releaseJob(jobId: string, workerId: string, changes: any) {
+    const job = await this.getJob(jobId);
+    if (job?.leaseOwner !== workerId) return false;
+    Object.assign(job, changes, { leaseOwner: null, leaseExpiresAt: null });
+    return true;
+  }
+
+  async listJobs(userId: string, { deadLettered, limit = 50 }: { deadLettered?: boolean; limit?: number } = {}) {
+    return this.jobs
+      .filter(job => job.userId === userId && (deadLettered === undefined || !!job.deadLetteredAt === deadLettered))
+      .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime())
+      .slice(0, limit);
+  }
+
+  async deleteFinishedJobsBefore(cutoff: Date) {
+    const before = this.jobs.length;
+    this.jobs = this.jobs.filter(job =>
+      !['completed', 'failed'].includes(job.status) || !!job.deadLetteredAt || job.updatedAt! >= cutoff
+    );
+    return before - this.jobs.length;
+  }
+
+  async ensureDeliveries(deliveries: any[]) {
+    for (const delivery of deliveries) {
+      if (this.deliveries.some(existing => existing.idempotencyKey === delivery.idempotencyKey)) continue;
+      this.deliveries.push({
+        status: 'pending',
+        messageId: null,
+        error: null,
+        attempts: 0,
+        sentAt: null,
+        ...delivery,
+        id: `delivery-${this.deliveries.length + 1}`,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      });
+    }
+  }
+
+  async getDeliveries(idempotencyKeys: string[]) {
+    return this.deliveries.filter(delivery => idempotencyKeys.includes(delivery.idempotencyKey)).map(delivery => ({ ...delivery }));
+  }
+
+  async claimDelivery(idempotencyKey: string, from: EmailDeliveryRecord['status'][]) {
+    const delivery = this.deliveries.find(existing => existing.idempotencyKey === idempotencyKey);
+    if (!delivery || !from.includes(delivery.status)) return false;
+    Object.assign(delivery, { status: 'sending', attempts: delivery.attempts + 1, updatedAt: new Date() });
+    return true;
+  }
+
+  async updateDelivery(idempotencyKey: string, changes: any) {
+    Object.assign(this.deliveries.find(delivery => delivery.idempotencyKey === idempotencyKey)!, changes, { updatedAt: new Date() });
+  }
+
+  async resetDeliveries(idempotencyKeys: string[], from: EmailDeliveryRecord['status'][]) {
+    const reset = this.deliveries.filter(delivery => idempotencyKeys.includes(delivery.idempotencyKey) && from.includes(delivery.status));
+    reset.forEach(delivery => Object.assign(delivery, { status: 'pending', error: null }));
+    return reset.length;
+  }
+}
+
+const user = { id: 'organizer', email: 'organizer@acme.com', accessToken: 'token' } as User;
+
+const attendees = [
+  { email: 'priya@acme.com', isValid: true, exists: true, isGoogleUser: true },
+  { email: 'sam@acme.com', isValid: true, exists: true, isGoogleUser: true }
+];
+
+const agenda: AgendaDocument = {
+  version: AGENDA_DOCUMENT_VERSION,
+  title: 'Vendor Review',
+  duration: 30,
+  purpose: 'Pick a vendor',
+  topics: [{ id: 'topic-1', title: 'Proposals', duration: 20, links: [] }],
+  actionItems: []
+};
+
+const minutes: MeetingMinutes = {
+  title: 'Vendor Review',
+  summary: 'We reviewed the vendor proposals.',
+  keyPoints: [],
+  decisions: ['Go with Acme'],
+  actionItems: []
+};
+
+function createSender(fail: (email: string) => string | undefined = () => undefined) {
+  const send = async (_user: User, attendee: { email: string }) => {
+    const error = fail(attendee.email);
+    return error ? { email: attendee.email, success: false, error } : { email: attendee.email, success: true, messageId: `msg-${attendee.email}` };
+  };
+  return {
+    sendAgendaEmail: vi.fn(send),
+    sendMinutesEmail: vi.fn(send)
+  } satisfies EmailSender;
+}
+
+describe('Email job queue', () => {
+  let store: MemoryEmailJobStore;
+
+  beforeEach(() => {
+    store = new MemoryEmailJobStore();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should send minutes one recipient at a time and report completion', async () => {
+    const sender = createSender();
+    const orchestrator = new EmailWorkflowOrchestrator(store, sender, 0);
+
+    const jobId = await orchestrator.startMinutesEmailWorkflow(user, 'meeting-1', attendees.slice(0, 1), { title: 'Vendor Review' }, minutes);
+
+    await vi.waitFor(async () => expect((await orchestrator.getEmailSendingStatus(user.id, jobId))?.status).toBe('completed'));
+    expect(sender.sendMinutesEmail).toHaveBeenCalledWith(user, attendees[0], { title: 'Vendor Review' }, minutes);
+    expect(sender.sendAgendaEmail).not.toHaveBeenCalled();
+    expect(await orchestrator.getEmailSendingStatus(user.id, jobId)).toMatchObject({ emailType: 'minutes', emailsSent: 1, progress: 100 });
+    expect(emailNotificationService.getUserNotifications(user.id, 1)[0].title).toBe('Meeting Minutes Emails Sent Successfully');
+  });
+
+  it('should not send the same agenda to a recipient twice, but should send an updated one', async () => {
+    const sender = createSender();
+    const orchestrator = new EmailWorkflowOrchestrator(store, sender, 0);
+
+    const first = await orchestrator.startEmailSendingWorkflow(user, 'meeting-1', attendees, { title: 'Vendor Review' }, agenda);
+    await vi.waitFor(async () => expect((await orchestrator.getEmailSendingStatus(user.id, first))?.status).toBe('completed'));
+    const repeat = await orchestrator.startEmailSendingWorkflow(user, 'meeting-1', attendees, { title: 'Vendor Review' }, agenda);
+    await vi.waitFor(async () => expect((await orchestrator.getEmailSendingStatus(user.id, repeat))?.status).toBe('completed'));
+
+    expect(sender.sendAgendaEmail).toHaveBeenCalledTimes(2);
+    expect(sender.sendAgendaEmail.mock.calls[0][2]).toMatchObject({ description: 'Pick a vendor' });
+
+    const updated = await orchestrator.startEmailSendingWorkflow(user, 'meeting-1', attendees, { title: 'Vendor Review (moved)' }, agenda);
+    await vi.waitFor(async () => expect((await orchestrator.getEmailSendingStatus(user.id, updated))?.status).toBe('completed'));
+
+    expect(sender.sendAgendaEmail).toHaveBeenCalledTimes(4);
+    expect(getTemplateVersion('agenda', { title: 'Vendor Review' }, agenda))
+      .not.toBe(getTemplateVersion('agenda', { title: 'Vendor Review (moved)' }, agenda));
+  });
+
+  it('should reject an agenda without topics before storing a job', async () => {
+    const sender = createSender();
+    const orchestrator = new EmailWorkflowOrchestrator(store, sender, 0);
+
+    await expect(orchestrator.startEmailSendingWorkflow(user, 'meeting-1', attendees, { title: 'Vendor Review' }, { ...agenda, topics: [] }))
+      .rejects.toThrow('Agenda content is required');
+    expect(store.jobs).toHaveLength(0);
+  });
+
+  it('should leave jobs leased by another worker alone until the lease lapses', async () => {
+    const sender = createSender();
+    const orchestrator = new EmailWorkflowOrchestrator(store, sender, 0);
+    const templateVersion = getTemplateVersion('agenda', { title: 'Vendor Review' }, agenda);
+    const job = await store.insertJob({
+      userId: user.id,
+      type: 'agenda',
+      meetingId: 'meeting-1',
+      attendees,
+      meetingData: { title: 'Vendor Review' },
+      agendaContent: agenda,
+      templateVersion,
+      status: 'in_progress',
+      attempts: 1,
+      leaseOwner: 'other-instance',
+      leaseExpiresAt: new Date(Date.now() + 60_000),
+      retryConfig: { retryDelayMs: 0, exponentialBackoff: false, retryableErrors: [] },
+      errors: []
+    });
+    // The other instance had sent to Priya and was part way through sending to Sam
+    await store.ensureDeliveries(attendees.map(attendee => ({
+      jobId: job.id,
+      idempotencyKey: getDeliveryKey('meeting-1', attendee.email, templateVersion),
+      recipientEmail: attendee.email
+    })));
+    Object.assign(store.deliveries[0], { status: 'sent' });
+    Object.assign(store.deliveries[1], { status: 'sending', updatedAt: new Date(Date.now() - 10 * 60_000) });
+
+    expect(await orchestrator.processAvailableJobs()).toBe(0);
+
+    expect(await orchestrator.processAvailableJobs(new Date(Date.now() + 120_000))).toBe(1);
+    expect(sender.sendAgendaEmail).not.toHaveBeenCalled();
+    expect(store.deliveries[1]).toMatchObject({ status: 'unknown' });
+    expect(await orchestrator.getEmailSendingStatus(user.id, job.id)).toMatchObject({
+      status: 'partially_failed',
+      emailsSent: 1,
+      emailsFailed: 1,
+      deadLettered: true
+    });
+  });
+
+  it('should dead-letter a job once retries run out and resend only failed recipients on requeue', async () => {
+    let rateLimited = true;
+    const sender = createSender(email => (rateLimited && email === 'sam@acme.com' ? 'Rate limit exceeded' : undefined));
+    const orchestrator = new EmailWorkflowOrchestrator(store, sender, 0);
+
+    const jobId = await orchestrator.startEmailSendingWorkflow(user, 'meeting-1', attendees, { title: 'Vendor Review' }, agenda, {
+      maxRetries: 1,
+      retryDelayMs: 0
+    });
+
+    await vi.waitFor(async () => expect((await orchestrator.getEmailSendingStatus(user.id, jobId))?.deadLettered).toBe(true));
+    expect(sender.sendAgendaEmail.mock.calls.map(call => call[1].email)).toEqual(['priya@acme.com', 'sam@acme.com', 'sam@acme.com']);
+    expect((await orchestrator.getUserEmailJobs(user.id, { deadLettered: true })).map(job => job.id)).toEqual([jobId]);
+    expect(await orchestrator.getUserEmailJobs(user.id, { deadLettered: false })).toEqual([]);
+    expect(await orchestrator.getJobStatistics(user.id)).toMatchObject({ total: 1, partiallyFailed: 1, deadLettered: 1 });
+
+    rateLimited = false;
+    expect(await orchestrator.requeueDeadLetteredJob('someone-else', jobId)).toBe(false);
+    expect(await orchestrator.requeueDeadLetteredJob(user.id, jobId)).toBe(true);
+
+    await vi.waitFor(async () => expect((await orchestrator.getEmailSendingStatus(user.id, jobId))?.status).toBe('completed'));
+    expect(sender.sendAgendaEmail.mock.calls.map(call => call[1].email)).toEqual(['priya@acme.com', 'sam@acme.com', 'sam@acme.com', 'sam@acme.com']);
+    expect(await orchestrator.getUserEmailJobs(user.id, { deadLettered: true })).toEqual([]);
+  });
+
+  it('should stop sending once a job is cancelled', async () => {
+    const sender = createSender();
+    const orchestrator = new EmailWorkflowOrchestrator(store, sender, 0);
+    sender.sendAgendaEmail.mockImplementationOnce(async (_user, attendee) => {
+      await orchestrator.cancelEmailSendingJob(user.id, 'job-1');
+      return { email: attendee.email, success: true };
+    });
+
+    const jobId = await orchestrator.startEmailSendingWorkflow(user, 'meeting-1', attendees, { title: 'Vendor Review' }, agenda);
+    expect(await orchestrator.getEmailSendingStatus('someone-else', jobId)).toBeNull();
+    expect(await orchestrator.cancelEmailSendingJob('someone-else', jobId)).toBe(false);
+
+    await vi.waitFor(async () => expect((await orchestrator.getEmailSendingStatus(user.id, jobId))?.errors).toContain('Job cancelled by user'));
+    expect(sender.sendAgendaEmail).toHaveBeenCalledTimes(1);
+    expect(await orchestrator.getEmailSendingStatus(user.id, jobId)).toMatchObject({ status: 'failed', emailsSent: 1 });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtemp, readdir, readFile, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { buildMimeMessage, createFallbackTransport, createOutboxTransport, htmlToPlainText, type EmailTransport } from '../emailTransport';
+import { GmailService } from '../gmailService';
+import type { User } from '../../shared/schema';
+
+const user = { id: 'organizer', email: 'organizer@acme.com', name: 'Olivia Organizer', accessToken: 'token' } as User;
+
+function failingTransport(name: EmailTransport['name'], message: string): EmailTransport {
+  return { name, send: vi.fn(async () => { throw new Error(message); }) };
+}
+
+describe('Email transports', () => {
+  const directories: string[] = [];
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await Promise.all(directories.splice(0).map(directory => rm(directory, { recursive: true, force: true })));
+  });
+
+  it('should write outbox emails as .eml files with text and HTML parts', async () => {
+    const directory = await mkdtemp(path.join(os.tmpdir(), 'outbox-'));
+    directories.push(directory);
+
+    const result = await createOutboxTransport(directory).send(
+      { to: 'priya@acme.com', subject: 'Meeting Agenda: Sync', html: '<p>Roadmap &amp; budget</p>' },
+      { user }
+    );
+
+    const [file] = await readdir(directory);
+    const contents = await readFile(path.join(directory, file), 'utf8');
+    expect(result).toMatchObject({ transport: 'outbox', messageId: expect.stringMatching(/^outbox-/) });
+    expect(file).toMatch(/\.eml$/);
+    expect(contents).toContain('From: "Olivia Organizer" <organizer@acme.com>');
+    expect(contents).toContain('To: priya@acme.com');
+    expect(contents).toContain('Subject: Meeting Agenda: Sync');
+    expect(contents).toContain('Roadmap & budget');
+    expect(contents).toContain('<p>Roadmap &amp; budget</p>');
+  });
+
+  it('should add attachments as base64 parts of a multipart/mixed message', () => {
+    const content = 'BEGIN:VCALENDAR\r\nMETHOD:REQUEST\r\nEND:VCALENDAR\r\n';
+    const mime = buildMimeMessage('organizer@acme.com', {
+      to: 'priya@acme.com',
+      subject: 'Meeting Agenda: Sync',
+      html: '<p>Agenda</p>',
+      attachments: [{ filename: 'invite.ics', content, contentType: 'text/calendar; charset=utf-8; method=REQUEST' }]
+    });
+
+    expect(mime).toMatch(/Content-Type: multipart\/mixed; boundary=mixed_boundary_\w+/);
+    expect(mime).toContain('Content-Type: text/calendar; charset=utf-8; method=REQUEST; name="invite.ics"');
+    expect(mime).toContain('Content-Disposition: attachment; filename="invite.ics"');
+    expect(mime).toContain(Buffer.from(content).toString('base64'));
+    expect(mime).toContain('Content-Type: multipart/alternative');
+  });
+
+  it('should fall back to the next transport when one fails', async () => {
+    const sendgrid: EmailTransport = { name: 'sendgrid', send: vi.fn(async () => ({ messageId: 'sg-1', transport: 'sendgrid' as const })) };
+    const transport = createFallbackTransport([failingTransport('gmail', 'User access token is missing'), sendgrid]);
+
+    const result = await transport.send({ to: 'priya@acme.com', subject: 'Hi', html: '<p>Hi</p>' }, { user });
+
+    expect(result).toEqual({ messageId: 'sg-1', transport: 'sendgrid' });
+  });
+
+  it('should report every transport error when all of them fail', async () => {
+    const transport = createFallbackTransport([
+      failingTransport('gmail', 'Rate limit exceeded'),
+      failingTransport('smtp', 'Connection refused')
+    ]);
+
+    await expect(transport.send({ to: 'priya@acme.com', subject: 'Hi', html: '<p>Hi</p>' }, { user }))
+      .rejects.toThrow('gmail: Rate limit exceeded; smtp: Connection refused');
+  });
+
+  it('should decode entities when deriving plain text', () => {
+    expect(htmlToPlainText('<h1>Q3 &amp; Q4</h1><p>&lt;draft&gt; &quot;final&quot;</p>')).toBe('Q3 & Q4<draft> "final"');
+  });
+});
+
+describe('GmailService', () => {
+  it('should render task link emails and send them through its transport', async () => {
+    const send = vi.fn(async () => ({ messageId: 'msg-1', transport: 'outbox' as const }));
+    const service = new GmailService({ name: 'outbox', send });
+
+    const result = await service.sendTaskLinkEmail(user, { email: 'sam@acme.com', firstName: 'Sam' }, 'Vendor Review', 'https://app.test/tasks?token=abc');
+
+    expect(result).toEqual({ email: 'sam@acme.com', success: true, messageId: 'msg-1', transport: 'outbox' });
+    expect(send).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'sam@acme.com',
+      subject: 'Your tasks from Vendor Review',
+      html: expect.stringContaining('href="https://app.test/tasks?token=abc"'),
+      text: expect.stringContaining('Hello Sam,')
+    }), { user });
+  });
+
+  it('should report transport failures in the send result', async () => {
+    const service = new GmailService(failingTransport('gmail', 'Service unavailable'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const result = await service.sendEmail(user, 'sam@acme.com', 'Hi', '<p>Hi</p>');
+
+    expect(result).toEqual({ email: 'sam@acme.com', success: false, error: 'Service unavailable' });
+  });
+});
@@ -46,13 +46,15 @@ describe('End-to-End AI Routing Validation', () => {
         // Mock the actual AI service calls to avoid real API calls
         vi.mock('../gemini', () => ({
             extractMeetingIntent: vi.fn().mockResolvedValue({
-                intent: 'scheduling',
+                intent: 'schedule_meeting',
                 confidence: 0.85,
-                extractedData: {
-                    title: 'Team Meeting',
+                fields: {
+                    suggestedTitle: 'Team Meeting',
                     participants: ['user@example.com'],
-                    timeReferences: ['tomorrow at 2pm']
-                }
+                    startTime: '2025-03-11T14:00:00Z'
+                },
+                missing: [],
+                contextualConfidence: 0.85
             }),
             generateMeetingTitles: vi.fn().mockResolvedValue({
                 suggestions: ['Team Sync', 'Weekly Standup', 'Project Review'],
@@ -93,7 +95,7 @@ describe('End-to-End AI Routing Validation', () => {
             const result = await extractMeetingIntent(testMessages);
             
             expect(result).toBeDefined();
-            expect(result.intent).toBe('scheduling');
+            expect(result.intent).toBe('schedule_meeting');
             expect(result.confidence).toBeGreaterThan(0.8);
         });
 
@@ -147,7 +149,7 @@ describe('End-to-End AI Routing Validation', () => {
             ];
 
             const intentResult = await extractMeetingIntent(conversationMessages);
-            expect(intentResult.intent).toBe('scheduling');
+            expect(intentResult.intent).toBe('schedule_meeting');
             expect(intentResult.confidence).toBeGreaterThan(0.7);
 
             // Step 2: Generate meeting titles
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  GoogleTasksSyncService,
+  toGoogleTask,
+  toLocalStatus,
+  getTaskBacklink,
+  type GoogleTasksClient,
+  type GoogleTaskItem,
+  type GoogleTaskList,
+  type SyncableTask,
+  type SyncUser,
+  type TaskSyncStore
+} from '../googleTasksService';
+
+/**
+ * In-memory Google Tasks account
+ */
+class FakeGoogleTasks implements GoogleTasksClient {
+  lists: GoogleTaskList[] = [];
+  items = new Map<string, GoogleTaskItem[]>();
+  patches: Array<{ listId: string; taskId: string; changes: Partial<GoogleTaskItem> }> = [];
+  private nextId = 1;
+
+  async listTaskLists() {
+    return this.lists;
+  }
+
+  async insertTaskList(title: string) {
+    const list = { id: `list-${this.nextId++}`, title };
+    this.lists.push(list);
+    return list;
+  }
+
+  async insertTask(listId: string, task: Omit<GoogleTaskItem, 'id' | 'updated'>) {
+    const item = { ...task, id: `gtask-${this.nextId++}` };
+    this.items.set(listId, [...(this.items.get(listId) || []), item]);
+    return item;
+  }
+
+  async patchTask(listId: string, taskId: string, changes: Partial<GoogleTaskItem>) {
+    this.patches.push({ listId, taskId, changes });
+    const item = this.items.get(listId)!.find(candidate => candidate.id === taskId)!;
+    Object.assign(item, changes);
+    return item;
+  }
+
+  async listTasks(listId: string) {
+    return this.items.get(listId) || [];
+  }
+}
+
+class MemoryStore implements TaskSyncStore {
+  constructor(public tasks: SyncableTask[], public syncUsers: SyncUser[]) {}
+
+  async getSyncUser(userId: string) {
+    return this.syncUsers.find(user => user.id === userId);
+  }
+
+  async getSyncUserByEmail(email: string) {
+    return this.syncUsers.find(user => user.email === email);
+  }
+
+  async getSyncUsersWithLinkedTasks() {
+    return this.syncUsers.filter(user => this.tasks.some(task => task.googleTaskUserId === user.id));
+  }
+
+  async getTasks(taskIds: string[]) {
+    return this.tasks.filter(task => taskIds.includes(task.id));
+  }
+
+  async getUnlinkedTasks(userId: string) {
+    return this.tasks.filter(task => task.userId === userId && !task.googleTaskId);
+  }
+
+  async getLinkedTasks(googleTaskUserId: string) {
+    return this.tasks.filter(task => task.googleTaskUserId === googleTaskUserId && task.googleTaskId);
+  }
+
+  async saveLink(taskId: string, link: { googleTaskId: string; googleTaskListId: string; googleTaskUserId: string }) {
+    Object.assign(this.tasks.find(task => task.id === taskId)!, link);
+  }
+
+  async updateStatus(taskId: string, status: string) {
+    this.tasks.find(task => task.id === taskId)!.status = status;
+  }
+}
+
+const task = (id: string, overrides: Partial<SyncableTask> = {}): SyncableTask => ({
+  id,
+  title: `Task ${id}`,
+  description: 'Follow up with the vendor',
+  deadline: new Date('2030-01-10T15:30:00Z'),
+  status: 'pending',
+  assigneeEmail: null,
+  userId: 'organizer',
+  eventId: 'event-1',
+  eventTitle: 'Vendor Review',
+  googleTaskId: null,
+  googleTaskListId: null,
+  googleTaskUserId: null,
+  ...overrides
+});
+
+const organizer: SyncUser = { id: 'organizer', email: 'organizer@acme.com', googleId: 'google-organizer', accessToken: 'organizer-token', refreshToken: null };
+const priya: SyncUser = { id: 'priya', email: 'priya@acme.com', googleId: 'google-priya', accessToken: 'priya-token', refreshToken: null };
+
+describe('GoogleTasksSyncService', () => {
+  let accounts: Map<string, FakeGoogleTasks>;
+  const clientFactory = (token: string) => {
+    if (!accounts.has(token)) {
+      accounts.set(token, new FakeGoogleTasks());
+    }
+    return accounts.get(token)!;
+  };
+
+  beforeEach(() => {
+    accounts = new Map();
+  });
+
+  describe('toGoogleTask', () => {
+    it('should include the meeting, a backlink and the due date', () => {
+      const googleTask = toGoogleTask(task('t1'), getTaskBacklink('t1', 'https://app.example.com/'));
+
+      expect(googleTask).toEqual({
+        title: 'Task t1',
+        notes: 'Follow up with the vendor\n\nFrom meeting: Vendor Review\n\nhttps://app.example.com/?tab=tasks&task=t1',
+        due: '2030-01-10T00:00:00.000Z',
+        status: 'needsAction'
+      });
+    });
+  });
+
+  describe('toLocalStatus', () => {
+    it('should complete cards and reopen them without losing in-progress state', () => {
+      expect(toLocalStatus('completed', 'in_progress')).toBe('completed');
+      expect(toLocalStatus('needsAction', 'completed')).toBe('pending');
+      expect(toLocalStatus('needsAction', 'in_progress')).toBe('in_progress');
+    });
+  });
+
+  describe('pushTasks', () => {
+    it('should push to the assignee when they opted in and to the organizer otherwise', async () => {
+      const store = new MemoryStore(
+        [task('t1', { assigneeEmail: 'priya@acme.com' }), task('t2', { assigneeEmail: 'sam@acme.com' })],
+        [organizer, priya]
+      );
+      const service = new GoogleTasksSyncService(clientFactory, store);
+
+      const pushed = await service.pushTasks(['t1', 't2'], 'organizer');
+
+      expect(pushed).toBe(2);
+      expect(store.tasks[0].googleTaskUserId).toBe('priya');
+      expect(store.tasks[1].googleTaskUserId).toBe('organizer');
+      expect(accounts.get('priya-token')!.lists).toEqual([{ id: 'list-1', title: 'Vendor Review' }]);
+    });
+
+    it('should reuse an existing list named after the meeting', async () => {
+      const account = clientFactory('organizer-token') as FakeGoogleTasks;
+      account.lists.push({ id: 'existing', title: 'Vendor Review' });
+      const store = new MemoryStore([task('t1'), task('t2')], [organizer]);
+
+      await new GoogleTasksSyncService(clientFactory, store).pushTasks(['t1', 't2'], 'organizer');
+
+      expect(account.lists).toHaveLength(1);
+      expect(account.items.get('existing')).toHaveLength(2);
+    });
+
+    it('should skip tasks when nobody opted in and never push a task twice', async () => {
+      const store = new MemoryStore([task('t1')], []);
+      const service = new GoogleTasksSyncService(clientFactory, store);
+
+      expect(await service.pushTasks(['t1'], 'organizer')).toBe(0);
+
+      store.syncUsers.push(organizer);
+      expect(await service.pushTasks(['t1'], 'organizer')).toBe(1);
+      expect(await service.pushTasks(['t1'], 'organizer')).toBe(0);
+    });
+  });
+
+  describe('two-way status sync', () => {
+    it('should complete the card when the Google task is completed', async () => {
+      const store = new MemoryStore([task('t1', { status: 'in_progress' })], [organizer]);
+      const service = new GoogleTasksSyncService(clientFactory, store);
+      await service.pushTasks(['t1'], 'organizer');
+
+      const account = accounts.get('organizer-token')!;
+      account.items.get(store.tasks[0].googleTaskListId!)![0].status = 'completed';
+
+      expect(await service.pullAll()).toEqual({ checked: 1, updated: 1 });
+      expect(store.tasks[0].status).toBe('completed');
+    });
+
+    it('should send board status changes to Google Tasks', async () => {
+      const store = new MemoryStore([task('t1')], [organizer]);
+      const service = new GoogleTasksSyncService(clientFactory, store);
+      await service.pushTasks(['t1'], 'organizer');
+
+      await service.pushStatus('t1', 'completed');
+
+      expect(accounts.get('organizer-token')!.patches).toEqual([
+        { listId: store.tasks[0].googleTaskListId, taskId: store.tasks[0].googleTaskId, changes: { status: 'completed' } }
+      ]);
+    });
+
+    it('should refresh an expired access token and keep syncing with the new one', async () => {
+      const sam: SyncUser = { id: 'sam', email: 'sam@acme.com', googleId: 'google-sam', accessToken: 'expired-token', refreshToken: 'refresh-token' };
+      const store = new MemoryStore([task('t1'), task('t2')], [sam]);
+      const expired = new FakeGoogleTasks();
+      expired.listTaskLists = async () => { throw Object.assign(new Error('Invalid Credentials'), { status: 401 }); };
+      expired.listTasks = expired.listTaskLists as any;
+      // Stands in for the auth error handler: refreshes on a 401 and retries once
+      const refreshes: string[] = [];
+      const auth = {
+        async executeWithAuthRecovery(operation: (user: any) => Promise<any>, user: any) {
+          try {
+            return await operation(user);
+          } catch (error: any) {
+            if (error.status !== 401) throw error;
+            refreshes.push(user.refreshToken);
+            return operation({ ...user, accessToken: 'fresh-token' });
+          }
+        }
+      };
+      const service = new GoogleTasksSyncService(token => (token === 'expired-token' ? expired : clientFactory(token)), store, auth as any);
+
+      expect(await service.pushTasks(['t1', 't2'], 'sam')).toBe(2);
+      expect(accounts.get('fresh-token')!.items.get('list-1')).toHaveLength(2);
+      expect(refreshes).toEqual(['refresh-token']);
+
+      // An hour later the background pull starts from an expired token again
+      sam.accessToken = 'expired-token';
+      accounts.get('fresh-token')!.items.get('list-1')![0].status = 'completed';
+
+      expect(await service.pullAll()).toEqual({ checked: 2, updated: 1 });
+      expect(store.tasks[0].status).toBe('completed');
+      expect(refreshes).toHaveLength(2);
+    });
+  });
+});
@@ -12,9 +12,10 @@ import { aiRouter } from '../aiRouterService';
 // Mock the actual AI services to avoid API calls
 vi.mock('../gemini', () => ({
     extractMeetingIntent: vi.fn().mockResolvedValue({
-        intent: 'scheduling',
+        intent: 'schedule_meeting',
         confidence: 0.85,
-        extractedData: { title: 'Test Meeting' }
+        fields: { suggestedTitle: 'Test Meeting', participants: [] },
+        missing: []
     }),
     generateMeetingTitles: vi.fn().mockResolvedValue({
         suggestions: ['Meeting Title 1', 'Meeting Title 2'],
@@ -72,10 +73,10 @@ describe('AI Routing Integration Validation', () => {
         it('should have fallback models configured', () => {
             const rules = aiRouter.getRoutingRules();
             
-            // Each rule should have a fallback model
+            // Each rule should have a fallback chain
             Object.values(rules).forEach(rule => {
-                expect(rule.fallbackModel).toBeDefined();
-                expect(rule.fallbackModel).not.toBe(rule.primaryModel);
+                expect(rule.fallbackModels?.length).toBeGreaterThan(0);
+                expect(rule.fallbackModels).not.toContain(rule.primaryModel);
             });
         });
     });
@@ -0,0 +1,236 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { JobScheduler, getRetryDelay, type NewScheduledJob, type ScheduledJobStore } from '../jobScheduler';
+import { getAgendaReminderTime, getDigestDateKey, getNextDigestTime, splitDigestTasks } from '../scheduledNotifications';
+import { emailTemplateService } from '../emailTemplateService';
+import type { ScheduledJob } from '../../shared/schema';
+import type { WorkingHoursProfile } from '../utils/workingHours';
+
+class MemoryJobStore implements ScheduledJobStore {
+  jobs: ScheduledJob[] = [];
+
+  async insert(job: NewScheduledJob) {
+    if (this.jobs.some(existing => existing.dedupeKey === job.dedupeKey)) {
+      return undefined;
+    }
+
+    const created: ScheduledJob = {
+      id: `job-${this.jobs.length + 1}`,
+      userId: job.userId,
+      type: job.type,
+      dedupeKey: job.dedupeKey,
+      runAt: job.runAt,
+      status: 'scheduled',
+      payload: job.payload ?? {},
+      attempts: 0,
+      maxAttempts: job.maxAttempts ?? 3,
+      lastError: null,
+      lockedAt: null,
+      completedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.jobs.push(created);
+    return created;
+  }
+
+  async claimDue(now: Date, limit: number) {
+    const due = this.jobs
+      .filter(job => job.status === 'scheduled' && job.runAt <= now)
+      .slice(0, limit);
+    due.forEach(job => Object.assign(job, { status: 'running', attempts: job.attempts + 1, lockedAt: now }));
+    return due.map(job => ({ ...job }));
+  }
+
+  async releaseStale(lockedBefore: Date) {
+    const stale = this.jobs.filter(job => job.status === 'running' && job.lockedAt && job.lockedAt < lockedBefore);
+    stale.forEach(job => Object.assign(job, { status: 'scheduled', lockedAt: null }));
+    return stale.length;
+  }
+
+  async complete(job: ScheduledJob, now: Date) {
+    this.updateHeld(job, { status: 'completed', lockedAt: null, completedAt: now });
+  }
+
+  async retry(job: ScheduledJob, runAt: Date, error: string) {
+    this.updateHeld(job, { status: 'scheduled', runAt, lastError: error, lockedAt: null });
+  }
+
+  async fail(job: ScheduledJob, error: string) {
+    this.updateHeld(job, { status: 'failed', lastError: error, lockedAt: null });
+  }
+
+  private updateHeld(job: ScheduledJob, changes: Partial<ScheduledJob>) {
+    const stored = this.find(job.id);
+    if (stored.status === 'running' && stored.lockedAt?.getTime() === job.lockedAt?.getTime()) {
+      Object.assign(stored, changes);
+    }
+  }
+
+  async cancel(userId: string, jobId: string) {
+    const job = this.jobs.find(job => job.id === jobId && job.userId === userId && job.status === 'scheduled');
+    if (job) {
+      job.status = 'cancelled';
+    }
+    return job;
+  }
+
+  async list(userId: string) {
+    return this.jobs.filter(job => job.userId === userId);
+  }
+
+  find(jobId: string): ScheduledJob {
+    return this.jobs.find(job => job.id === jobId)!;
+  }
+}
+
+const now = new Date('2030-01-07T08:00:00Z'); // a Monday
+
+const digestJob = (runAt: Date = now): NewScheduledJob => ({
+  userId: 'user-1',
+  type: 'task_digest',
+  dedupeKey: 'task_digest:user-1:2030-01-07',
+  runAt
+});
+
+describe('JobScheduler', () => {
+  let store: MemoryJobStore;
+  let scheduler: JobScheduler;
+
+  beforeEach(() => {
+    store = new MemoryJobStore();
+    scheduler = new JobScheduler(store);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('should not schedule the same job twice', async () => {
+    expect(await scheduler.schedule(digestJob())).toBeDefined();
+    expect(await scheduler.schedule(digestJob())).toBeUndefined();
+    expect(store.jobs).toHaveLength(1);
+  });
+
+  it('should run planners before due jobs and leave future jobs alone', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined);
+    scheduler.registerHandler('task_digest', handler);
+    scheduler.registerPlanner(async planNow => {
+      await scheduler.schedule(digestJob(planNow));
+      await scheduler.schedule({ ...digestJob(new Date(planNow.getTime() + 60 * 60 * 1000)), dedupeKey: 'later' });
+    });
+
+    const result = await scheduler.tick(now);
+
+    expect(result).toEqual({ claimed: 1, completed: 1, retried: 0, failed: 0 });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(store.jobs.map(job => job.status)).toEqual(['completed', 'scheduled']);
+  });
+
+  it('should retry failed jobs with backoff, then give up after max attempts', async () => {
+    scheduler.registerHandler('task_digest', vi.fn().mockRejectedValue(new Error('Gmail unavailable')));
+    await scheduler.schedule({ ...digestJob(), maxAttempts: 2 });
+
+    expect((await scheduler.runDueJobs(now)).retried).toBe(1);
+    expect(store.jobs[0]).toMatchObject({ status: 'scheduled', attempts: 1, lastError: 'Gmail unavailable' });
+    expect(store.jobs[0].runAt).toEqual(new Date(now.getTime() + getRetryDelay(1)));
+
+    // Not due again until the backoff passes
+    expect((await scheduler.runDueJobs(now)).claimed).toBe(0);
+
+    expect((await scheduler.runDueJobs(store.jobs[0].runAt)).failed).toBe(1);
+    expect(store.jobs[0]).toMatchObject({ status: 'failed', attempts: 2 });
+  });
+
+  it('should fail jobs that have no handler without retrying', async () => {
+    await scheduler.schedule(digestJob());
+
+    expect((await scheduler.runDueJobs(now)).failed).toBe(1);
+    expect(store.jobs[0].lastError).toContain('No handler registered');
+  });
+
+  it('should only cancel the owner\'s jobs that have not run yet', async () => {
+    const job = (await scheduler.schedule(digestJob()))!;
+
+    expect(await scheduler.cancel('someone-else', job.id)).toBeUndefined();
+    expect((await scheduler.cancel('user-1', job.id))?.status).toBe('cancelled');
+    expect((await scheduler.runDueJobs(now)).claimed).toBe(0);
+    expect(await scheduler.cancel('user-1', job.id)).toBeUndefined();
+  });
+
+  it('should let only the latest run of a released job set its final state', async () => {
+    const later = new Date(now.getTime() + 60 * 60 * 1000);
+    let finishFirstRun!: () => void;
+    scheduler.registerHandler('task_digest', vi.fn()
+      .mockImplementationOnce(() => new Promise<void>(resolve => { finishFirstRun = resolve; }))
+      .mockRejectedValueOnce(new Error('Gmail unavailable')));
+    await scheduler.schedule(digestJob());
+
+    const firstRun = scheduler.runDueJobs(now);
+    await vi.waitFor(() => expect(finishFirstRun).toBeDefined());
+
+    // The first run is stuck past its lease, so the job is released and runs again
+    expect((await scheduler.runDueJobs(later)).retried).toBe(1);
+    finishFirstRun();
+    await firstRun;
+
+    expect(store.jobs[0]).toMatchObject({ status: 'scheduled', attempts: 2, lastError: 'Gmail unavailable' });
+  });
+
+  it('should keep a job cancelled while an earlier run was still finishing', async () => {
+    let finishFirstRun!: () => void;
+    scheduler.registerHandler('task_digest', () => new Promise<void>(resolve => { finishFirstRun = resolve; }));
+    const job = (await scheduler.schedule(digestJob()))!;
+
+    const firstRun = scheduler.runDueJobs(now);
+    await vi.waitFor(() => expect(finishFirstRun).toBeDefined());
+    await store.releaseStale(new Date(now.getTime() + 1));
+    expect((await scheduler.cancel('user-1', job.id))?.status).toBe('cancelled');
+    finishFirstRun();
+    await firstRun;
+
+    expect(store.jobs[0]).toMatchObject({ status: 'cancelled', completedAt: null });
+  });
+});
+
+describe('Scheduled notifications', () => {
+  const berlin: WorkingHoursProfile = {
+    timezone: 'Europe/Berlin',
+    workingDays: [1, 2, 3, 4, 5],
+    workingHoursStart: 9,
+    workingHoursEnd: 17,
+    preferredMeetingLengths: [30]
+  };
+
+  it('should send agenda reminders the configured hours before the meeting', () => {
+    expect(getAgendaReminderTime(new Date('2030-01-08T10:00:00Z'), 24)).toEqual(new Date('2030-01-07T10:00:00Z'));
+  });
+
+  it('should plan digests for the start of the next working day in the user\'s timezone', () => {
+    // 09:00 Berlin is 08:00 UTC in winter
+    expect(getNextDigestTime(berlin, new Date('2030-01-07T07:00:00Z'))).toEqual(new Date('2030-01-07T08:00:00Z'));
+    expect(getNextDigestTime(berlin, new Date('2030-01-07T08:10:00Z'))).toEqual(new Date('2030-01-07T08:00:00Z'));
+    expect(getNextDigestTime(berlin, new Date('2030-01-07T12:00:00Z'))).toEqual(new Date('2030-01-08T08:00:00Z'));
+    // Friday afternoon skips the weekend
+    expect(getNextDigestTime(berlin, new Date('2030-01-11T12:00:00Z'))).toEqual(new Date('2030-01-14T08:00:00Z'));
+    expect(getDigestDateKey(new Date('2030-01-14T08:00:00Z'), 'Europe/Berlin')).toBe('2030-01-14');
+  });
+
+  it('should flag overdue tasks in the digest', () => {
+    const { overdue, open } = splitDigestTasks([
+      { title: 'Send contract', deadline: new Date('2030-01-06T12:00:00Z'), status: 'pending' },
+      { title: 'Book venue', deadline: new Date('2030-01-09T12:00:00Z'), status: 'in_progress' },
+      { title: 'Share notes', deadline: null, status: 'pending' },
+      { title: 'Done already', deadline: new Date('2030-01-01T12:00:00Z'), status: 'completed' }
+    ], now);
+
+    expect(overdue.map(task => task.title)).toEqual(['Send contract']);
+    expect(open.map(task => task.title)).toEqual(['Book venue', 'Share notes']);
+
+    const html = emailTemplateService.generateTaskDigestTemplate(
+      'Priya Patel',
+      [{ title: 'Send <contract>', deadline: overdue[0].deadline, priority: 'high', status: 'pending', eventTitle: 'Vendor Review' }],
+      [],
+      'http://localhost:3000/?tab=tasks'
+    );
+    expect(html).toContain('1 open task, 1 overdue');
+    expect(html).toContain('class="overdue"');
+    expect(html).toContain('Send &lt;contract&gt;');
+  });
+});
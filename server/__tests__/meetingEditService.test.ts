@@ -0,0 +1,256 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  parseEditCommand,
+  resolveTargetEvent,
+  resolveAttendeeEmails,
+  buildEditChanges,
+  diffEventChanges,
+  applyMeetingEdit,
+  type EditableEvent
+} from '../meetingEditService';
+import { subtractBusyInterval } from '../calendarAvailabilityService';
+import { emailWorkflowOrchestrator } from '../emailWorkflowOrchestrator';
+import { DEFAULT_WORKING_HOURS_PROFILE } from '../utils/workingHours';
+import { renderAgendaMarkdown } from '../../shared/agendaDocument';
+import { AGENDA_DOCUMENT_VERSION, type User } from '../../shared/schema';
+
+const stored = vi.hoisted(() => ({ agenda: null as string | null }));
+
+vi.mock('../storage', () => ({
+  db: {
+    select: () => ({ from: () => ({ where: () => ({ limit: async () => [{ agenda: stored.agenda }] }) }) }),
+    update: () => ({ set: () => ({ where: async () => undefined }) })
+  }
+}));
+
+vi.mock('../googleCalendar', () => ({
+  updateCalendarEvent: vi.fn(async (_user, eventId, changes) => ({ id: eventId, ...changes }))
+}));
+
+vi.mock('../calendarInviteService', () => ({
+  calendarInviteService: { getUpdatedInvite: vi.fn(async () => undefined) }
+}));
+
+vi.mock('../emailWorkflowOrchestrator', () => ({
+  emailWorkflowOrchestrator: { startEmailSendingWorkflow: vi.fn() }
+}));
+
+// Monday, January 7, 2030 at 08:00 UTC
+const now = new Date('2030-01-07T08:00:00Z');
+
+const event = (id: string, title: string, start: string, attendees: string[] = []): EditableEvent => ({
+  id,
+  title,
+  startTime: new Date(start),
+  endTime: new Date(new Date(start).getTime() + 45 * 60 * 1000),
+  attendees,
+  location: ''
+});
+
+const upcoming = [
+  event('e1', 'Design Review', '2030-01-08T14:00:00Z', ['alice@acme.com']),
+  event('e2', 'Sprint Planning', '2030-01-09T10:00:00Z', ['alice@acme.com', 'bob@acme.com']),
+  event('e3', 'Design Review', '2030-01-10T14:00:00Z'),
+  event('e4', 'Team Standup', '2030-01-08T09:00:00Z')
+];
+
+describe('MeetingEditService', () => {
+  describe('parseEditCommand', () => {
+    it('should parse reschedule commands', () => {
+      expect(parseEditCommand("Move tomorrow's design review to Thursday 3pm")).toEqual({
+        action: 'reschedule',
+        targetReference: "tomorrow's design review",
+        value: 'Thursday 3pm'
+      });
+    });
+
+    it('should parse attendee additions with the attendee first', () => {
+      expect(parseEditCommand('add priya@ to the sprint planning')).toEqual({
+        action: 'add_attendees',
+        targetReference: 'the sprint planning',
+        value: 'priya@'
+      });
+    });
+
+    it('should parse removals, renames and location changes', () => {
+      expect(parseEditCommand('remove bob from the sprint planning')?.action).toBe('remove_attendees');
+      expect(parseEditCommand('rename the standup to Daily Sync.')?.value).toBe('Daily Sync');
+      expect(parseEditCommand('change the location of the design review to Room 4')?.value).toBe('Room 4');
+    });
+
+    it('should ignore messages that are not edits', () => {
+      expect(parseEditCommand('Schedule a meeting with the team tomorrow at 3pm')).toBeNull();
+      expect(parseEditCommand('add a meeting to my calendar')).toBeNull();
+    });
+  });
+
+  describe('resolveTargetEvent', () => {
+    it('should use day words to pick between meetings with the same title', () => {
+      const result = resolveTargetEvent(upcoming, "tomorrow's design review", 'UTC', now);
+
+      expect(result.event?.id).toBe('e1');
+    });
+
+    it('should match on title words', () => {
+      expect(resolveTargetEvent(upcoming, 'the sprint planning', 'UTC', now).event?.id).toBe('e2');
+    });
+
+    it('should return every candidate when the reference is ambiguous', () => {
+      const result = resolveTargetEvent(upcoming, 'the design review', 'UTC', now);
+
+      expect(result.event).toBeNull();
+      expect(result.candidates.map(candidate => candidate.id)).toEqual(['e1', 'e3']);
+    });
+
+    it('should return no candidates when nothing matches', () => {
+      expect(resolveTargetEvent(upcoming, 'the budget meeting', 'UTC', now).candidates).toEqual([]);
+    });
+  });
+
+  describe('resolveAttendeeEmails', () => {
+    it('should complete partial addresses with the organizer domain', () => {
+      expect(resolveAttendeeEmails('priya@ and Sam@partner.io', 'organizer@acme.com')).toEqual({
+        emails: ['priya@acme.com', 'sam@partner.io'],
+        unresolved: []
+      });
+    });
+
+    it('should report names without an address', () => {
+      expect(resolveAttendeeEmails('priya', 'organizer@acme.com').unresolved).toEqual(['priya']);
+    });
+  });
+
+  describe('buildEditChanges', () => {
+    it('should keep the meeting duration when rescheduling', () => {
+      const newStart = new Date('2030-01-10T15:00:00Z');
+      const { changes, errors } = buildEditChanges(
+        { action: 'reschedule', targetReference: 'design review', value: 'Thursday 3pm' },
+        upcoming[0],
+        'organizer@acme.com',
+        newStart
+      );
+
+      expect(errors).toEqual([]);
+      expect(changes.startTime).toEqual(newStart);
+      expect(changes.endTime).toEqual(new Date('2030-01-10T15:45:00Z'));
+    });
+
+    it('should report a time that could not be understood', () => {
+      const { errors } = buildEditChanges(
+        { action: 'reschedule', targetReference: 'design review', value: 'sometime' },
+        upcoming[0],
+        'organizer@acme.com'
+      );
+
+      expect(errors[0]).toContain('sometime');
+    });
+
+    it('should add new attendees without duplicating existing ones', () => {
+      const { changes } = buildEditChanges(
+        { action: 'add_attendees', targetReference: 'sprint planning', value: 'priya@, alice@' },
+        upcoming[1],
+        'organizer@acme.com'
+      );
+
+      expect(changes.attendees).toEqual(['alice@acme.com', 'bob@acme.com', 'priya@acme.com']);
+    });
+
+    it('should remove attendees by name', () => {
+      const { changes } = buildEditChanges(
+        { action: 'remove_attendees', targetReference: 'sprint planning', value: 'bob' },
+        upcoming[1],
+        'organizer@acme.com'
+      );
+
+      expect(changes.attendees).toEqual(['alice@acme.com']);
+    });
+  });
+
+  describe('diffEventChanges', () => {
+    it('should describe time and attendee changes', () => {
+      const diff = diffEventChanges(upcoming[1], {
+        startTime: new Date('2030-01-09T15:00:00Z'),
+        endTime: new Date('2030-01-09T15:45:00Z'),
+        attendees: ['alice@acme.com', 'bob@acme.com', 'priya@acme.com']
+      }, 'UTC');
+
+      expect(diff).toEqual([
+        { field: 'time', label: 'Time', before: 'Wed, Jan 9, 10:00 AM - 10:45 AM', after: 'Wed, Jan 9, 3:00 PM - 3:45 PM' },
+        { field: 'attendees', label: 'Attendees', before: '2 invited', after: 'Add priya@acme.com' }
+      ]);
+    });
+
+    it('should be empty when nothing changes', () => {
+      expect(diffEventChanges(upcoming[0], { title: 'Design Review' }, 'UTC')).toEqual([]);
+    });
+  });
+
+  describe('subtractBusyInterval', () => {
+    it('should drop the meeting being moved from busy time', () => {
+      const busy = [{ startTime: new Date('2030-01-08T13:00:00Z'), endTime: new Date('2030-01-08T15:00:00Z') }];
+      const remaining = subtractBusyInterval(busy, {
+        startTime: new Date('2030-01-08T14:00:00Z'),
+        endTime: new Date('2030-01-08T14:45:00Z')
+      });
+
+      expect(remaining).toEqual([
+        { startTime: new Date('2030-01-08T13:00:00Z'), endTime: new Date('2030-01-08T14:00:00Z') },
+        { startTime: new Date('2030-01-08T14:45:00Z'), endTime: new Date('2030-01-08T15:00:00Z') }
+      ]);
+    });
+  });
+
+  describe('applyMeetingEdit', () => {
+    const organizer = { id: 'organizer', email: 'organizer@acme.com', accessToken: 'token' } as User;
+    const reschedule = {
+      startTime: new Date('2030-01-09T15:00:00Z'),
+      endTime: new Date('2030-01-09T15:45:00Z')
+    };
+
+    beforeEach(() => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      vi.mocked(emailWorkflowOrchestrator.startEmailSendingWorkflow).mockResolvedValue('job-1');
+      stored.agenda = renderAgendaMarkdown({
+        version: AGENDA_DOCUMENT_VERSION,
+        title: 'Sprint Planning',
+        duration: 45,
+        purpose: 'Plan the next sprint',
+        topics: [{ id: 'topic-1', title: 'Backlog review', duration: 30, links: [] }],
+        actionItems: []
+      });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+      vi.mocked(emailWorkflowOrchestrator.startEmailSendingWorkflow).mockReset();
+    });
+
+    it('should resend the stored agenda with the new time after a reschedule', async () => {
+      const result = await applyMeetingEdit(organizer, upcoming[1], reschedule, DEFAULT_WORKING_HOURS_PROFILE);
+
+      expect(result).toMatchObject({ agendaResent: true, agendaJobId: 'job-1' });
+      const [, meetingId, recipients, meetingData, agenda] = vi.mocked(emailWorkflowOrchestrator.startEmailSendingWorkflow).mock.calls[0];
+      expect(meetingId).toBe('e2');
+      expect(recipients.map(recipient => recipient.email)).toEqual(['alice@acme.com', 'bob@acme.com']);
+      expect(meetingData).toMatchObject({ title: 'Sprint Planning', startTime: reschedule.startTime });
+      expect(agenda).toMatchObject({
+        duration: 45,
+        topics: [{ title: 'Backlog review', duration: 30 }],
+        purpose: expect.stringMatching(/^This meeting has been rescheduled to .+\n\nPlan the next sprint$/)
+      });
+    });
+
+    it('should not report a resend when there is no agenda or the email job is rejected', async () => {
+      const agenda = stored.agenda;
+      stored.agenda = null;
+      expect(await applyMeetingEdit(organizer, upcoming[1], reschedule, DEFAULT_WORKING_HOURS_PROFILE)).toMatchObject({ agendaResent: false });
+      expect(emailWorkflowOrchestrator.startEmailSendingWorkflow).not.toHaveBeenCalled();
+
+      stored.agenda = agenda;
+      vi.mocked(emailWorkflowOrchestrator.startEmailSendingWorkflow).mockRejectedValue(new Error('Email prerequisites validation failed'));
+      const result = await applyMeetingEdit(organizer, upcoming[1], reschedule, DEFAULT_WORKING_HOURS_PROFILE);
+      expect(result.agendaResent).toBe(false);
+      expect(result.agendaJobId).toBeUndefined();
+    });
+  });
+});
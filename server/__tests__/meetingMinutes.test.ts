@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { emailTemplateService, isActionItemAssignedTo } from '../emailTemplateService';
+import { MeetingMinutesService, buildMeetingMinutes, toMinutesRecipients } from '../meetingMinutesService';
+import { emailWorkflowOrchestrator } from '../emailWorkflowOrchestrator';
+import type { MeetingSummary } from '../transcriptService';
+import type { MeetingMinutes, User } from '../../shared/schema';
+
+const summary: MeetingSummary = {
+  meetingId: 'meeting-1',
+  title: 'Vendor Review',
+  summary: 'We reviewed the vendor proposals.',
+  keyPoints: ['Two proposals are within budget'],
+  decisions: ['Go with Acme'],
+  actionItems: ['Priya: send the contract'],
+  generatedAt: new Date('2030-01-01T10:00:00Z'),
+  wordCount: 120
+};
+
+const minutes: MeetingMinutes = {
+  title: 'Vendor Review',
+  summary: 'We reviewed the <b>vendor</b> proposals.',
+  keyPoints: [],
+  decisions: ['Go with Acme'],
+  actionItems: [
+    { title: 'Send the contract', assigneeEmail: 'priya@acme.com', priority: 'high' },
+    { title: 'Book the kickoff', assignee: 'Sam', priority: 'medium' }
+  ]
+};
+
+const user = { id: 'organizer', email: 'organizer@acme.com', accessToken: 'token' } as User;
+
+describe('Meeting minutes', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('isActionItemAssignedTo', () => {
+    it('should match by assignee email, then by name', () => {
+      expect(isActionItemAssignedTo(minutes.actionItems[0], { email: 'Priya@acme.com' })).toBe(true);
+      expect(isActionItemAssignedTo(minutes.actionItems[0], { email: 'sam@acme.com', name: 'Priya Patel' })).toBe(false);
+      expect(isActionItemAssignedTo(minutes.actionItems[1], { email: 'sam.lee@acme.com', name: 'Sam Lee' })).toBe(true);
+      expect(isActionItemAssignedTo(minutes.actionItems[1], { email: 'priya@acme.com' })).toBe(false);
+    });
+  });
+
+  describe('generateMinutesEmailTemplate', () => {
+    it('should highlight only the recipient\'s action items and escape edited text', () => {
+      const html = emailTemplateService.generateMinutesEmailTemplate(minutes, {}, { email: 'priya@acme.com', name: 'Priya' });
+
+      expect(html).toContain('Your Action Items');
+      expect(html).toContain('Other Action Items');
+      expect(html.indexOf('Send the contract')).toBeLessThan(html.indexOf('Other Action Items'));
+      expect(html.match(/action-item action-item-mine/g)).toHaveLength(1);
+      expect(html).toContain('&lt;b&gt;vendor&lt;/b&gt;');
+    });
+
+    it('should list every action item plainly for attendees without assignments', () => {
+      const text = emailTemplateService.generateMinutesEmailPlainText(minutes, {}, { email: 'guest@acme.com' });
+
+      expect(text).not.toContain('Your Action Items');
+      expect(text).toContain('- Send the contract');
+      expect(text).toContain('- Book the kickoff (Owner: Sam, Priority: medium)');
+    });
+  });
+
+  describe('buildMeetingMinutes', () => {
+    it('should fall back to the summary action items when no tasks were extracted', () => {
+      expect(buildMeetingMinutes(summary, []).actionItems).toEqual([
+        { title: 'Priya: send the contract', priority: 'medium' }
+      ]);
+    });
+
+    it('should normalize and de-duplicate recipients', () => {
+      expect(toMinutesRecipients([
+        'priya@acme.com',
+        { email: 'sam@acme.com', firstName: 'Sam', lastName: 'Lee' },
+        { email: 'PRIYA@acme.com', name: 'Priya' }
+      ])).toEqual([
+        { email: 'priya@acme.com', name: undefined },
+        { email: 'sam@acme.com', name: 'Sam Lee' }
+      ]);
+    });
+  });
+
+  describe('MeetingMinutesService', () => {
+    let service: MeetingMinutesService;
+
+    beforeEach(() => {
+      service = new MeetingMinutesService();
+      service.createDraft('organizer', 'meeting-1', {
+        title: 'Vendor Review',
+        startTime: '2030-01-01T10:00:00Z',
+        attendees: [{ email: 'priya@acme.com', name: 'Priya' }, 'sam@acme.com']
+      }, summary, minutes.actionItems);
+    });
+
+    it('should only expose drafts to the organizer', () => {
+      expect(service.getDraft('organizer', 'meeting-1')?.status).toBe('draft');
+      expect(service.getDraft('someone-else', 'meeting-1')).toBeUndefined();
+    });
+
+    it('should apply organizer edits and render them in the preview', () => {
+      service.updateDraft('organizer', 'meeting-1', { organizerNote: 'Thanks all!', decisions: ['Go with Beta'] });
+
+      const preview = service.previewDraft('organizer', 'meeting-1', 'priya@acme.com')!;
+
+      expect(preview.subject).toBe('Meeting Minutes: Vendor Review');
+      expect(preview.recipient).toEqual({ email: 'priya@acme.com', name: 'Priya' });
+      expect(preview.html).toContain('Thanks all!');
+      expect(preview.html).toContain('Go with Beta');
+      expect(preview.html).not.toContain('Go with Acme');
+    });
+
+    it('should send the draft as a minutes email job and mark it sent', async () => {
+      const start = vi.spyOn(emailWorkflowOrchestrator, 'startMinutesEmailWorkflow').mockResolvedValue('job-1');
+
+      const jobId = await service.sendDraft(user, 'meeting-1');
+
+      expect(jobId).toBe('job-1');
+      expect(start.mock.calls[0][2].map(attendee => attendee.email)).toEqual(['priya@acme.com', 'sam@acme.com']);
+      expect(start.mock.calls[0][4].summary).toBe(summary.summary);
+      expect(service.getDraft('organizer', 'meeting-1')).toMatchObject({ status: 'sent', jobId: 'job-1' });
+    });
+  });
+});
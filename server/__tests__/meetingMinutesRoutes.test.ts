@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import meetingMinutesRoutes from '../routes/meetingMinutesRoutes';
+import { getCalendarEvent } from '../googleCalendar';
+import { transcriptService, type MeetingSummary } from '../transcriptService';
+import { emailWorkflowOrchestrator } from '../emailWorkflowOrchestrator';
+
+vi.mock('../googleCalendar', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../googleCalendar')>()),
+  getCalendarEvent: vi.fn()
+}));
+
+vi.mock('../taskService', () => ({
+  taskService: { listTasks: vi.fn(async () => ({ tasks: [] })) }
+}));
+
+vi.mock('../transcriptService', () => ({
+  transcriptService: { getSummary: vi.fn() }
+}));
+
+const summary: MeetingSummary = {
+  meetingId: 'vendor-review',
+  title: 'Vendor Review',
+  summary: 'We reviewed the vendor proposals.',
+  keyPoints: ['Two proposals are within budget'],
+  decisions: ['Go with Acme'],
+  actionItems: ['Priya: send the contract'],
+  generatedAt: new Date('2030-01-01T10:00:00Z'),
+  wordCount: 120
+};
+
+const event = {
+  id: 'vendor-review',
+  title: 'Vendor Review',
+  startTime: new Date('2030-01-01T09:00:00Z'),
+  endTime: new Date('2030-01-01T10:00:00Z'),
+  attendees: ['priya@acme.com', 'guest@acme.com'],
+  organizer: 'Organizer@acme.com'
+};
+
+const organizer = { id: 'organizer', email: 'organizer@acme.com', accessToken: 'token' };
+const attendee = { id: 'guest', email: 'guest@acme.com', accessToken: 'token' };
+const stranger = { id: 'stranger', email: 'stranger@other.com', accessToken: 'token' };
+
+let baseUrl: string;
+let server: http.Server;
+
+const request = (method: string, path: string, user: object, body?: unknown) =>
+  new Promise<{ status: number; body: any }>((resolve, reject) => {
+    const req = http.request(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', 'X-Test-User': JSON.stringify(user) }
+    }, (res) => {
+      let data = '';
+      res.on('data', chunk => data += chunk);
+      res.on('end', () => resolve({ status: res.statusCode!, body: data ? JSON.parse(data) : undefined }));
+    });
+    req.on('error', reject);
+    req.end(body ? JSON.stringify(body) : undefined);
+  });
+
+describe('Meeting minutes routes', () => {
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use((req, _res, next) => {
+      const user = JSON.parse(req.header('X-Test-User')!);
+      (req as any).user = user;
+      (req as any).isAuthenticated = () => true;
+      next();
+    });
+    app.use('/api', meetingMinutesRoutes);
+
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.mocked(transcriptService.getSummary).mockResolvedValue(summary);
+    vi.mocked(getCalendarEvent).mockImplementation(async (user) => {
+      if (user.id === 'stranger') {
+        throw new Error('Failed to fetch calendar event');
+      }
+      return event as any;
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should restore the minutes for the meeting organizer', async () => {
+    const response = await request('GET', '/api/meetings/vendor-review/minutes', organizer);
+
+    expect(response.status).toBe(200);
+    expect(response.body).toMatchObject({
+      meetingId: 'vendor-review',
+      userId: 'organizer',
+      minutes: { summary: 'We reviewed the vendor proposals.' },
+      recipients: [{ email: 'priya@acme.com' }, { email: 'guest@acme.com' }]
+    });
+  });
+
+  it('should return 404 to attendees and users who cannot see the meeting', async () => {
+    const startWorkflow = vi.spyOn(emailWorkflowOrchestrator, 'startMinutesEmailWorkflow');
+
+    for (const user of [attendee, stranger]) {
+      expect((await request('GET', '/api/meetings/vendor-review/minutes', user)).status).toBe(404);
+      expect((await request('GET', '/api/meetings/vendor-review/minutes/preview', user)).status).toBe(404);
+      expect((await request('PUT', '/api/meetings/vendor-review/minutes', user, { summary: 'Edited' })).status).toBe(404);
+      expect((await request('POST', '/api/email/send-minutes', user, { meetingId: 'vendor-review' })).status).toBe(404);
+    }
+
+    expect(startWorkflow).not.toHaveBeenCalled();
+  });
+
+  it('should reject meeting ids that are not plain ids before reading summaries', async () => {
+    expect((await request('GET', '/api/meetings/..%2F..%2Fsecrets/minutes', organizer)).status).toBe(404);
+    expect((await request('POST', '/api/email/send-minutes', organizer, { meetingId: '../secrets' })).status).toBe(400);
+
+    expect(getCalendarEvent).not.toHaveBeenCalled();
+    expect(transcriptService.getSummary).not.toHaveBeenCalled();
+  });
+});
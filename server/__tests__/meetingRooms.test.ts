@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  MeetingRoomService,
+  parseRoomConfig,
+  parseResourceCalendarName,
+  formatRoomLocation,
+  type MeetingRoomCatalog,
+  type RoomBusyLookup
+} from '../meetingRoomService';
+import type { MeetingRoom, User } from '../../shared/schema';
+
+const user = { id: 'user-1', email: 'organizer@example.com', accessToken: 'token' } as User;
+
+const start = new Date('2030-01-07T15:00:00Z');
+const end = new Date('2030-01-07T16:00:00Z');
+
+const googleRooms: MeetingRoom[] = [
+  { id: 'orion', name: 'Orion', calendarId: 'orion@resource.calendar.google.com', capacity: 10, equipment: ['TV'], building: 'HQ', floor: '3', source: 'google' },
+  { id: 'lyra', name: 'Lyra', calendarId: 'lyra@resource.calendar.google.com', capacity: 4, equipment: [], source: 'google' },
+  { id: 'vega', name: 'Vega', calendarId: 'vega@resource.calendar.google.com', capacity: 2, equipment: [], source: 'google' },
+  { id: 'atlas', name: 'Atlas', calendarId: 'atlas@resource.calendar.google.com', capacity: 6, equipment: [], source: 'google' }
+];
+
+const catalog = (rooms: MeetingRoom[]): MeetingRoomCatalog => ({ listRooms: async () => rooms });
+
+describe('meeting room catalog', () => {
+  it('should read rooms from a local config file', () => {
+    const rooms = parseRoomConfig(JSON.stringify([
+      { id: 'loft', name: 'The Loft', capacity: 12, equipment: ['Projector'], building: 'Annex' },
+      { id: 'booth', name: 'Phone booth' }
+    ]));
+
+    expect(rooms).toEqual([
+      { id: 'loft', name: 'The Loft', capacity: 12, equipment: ['Projector'], building: 'Annex', source: 'config' },
+      { id: 'booth', name: 'Phone booth', equipment: [], source: 'config' }
+    ]);
+    expect(() => parseRoomConfig('[{ "name": "No id" }]')).toThrow();
+  });
+
+  it('should read capacity and equipment from generated resource calendar names', () => {
+    expect(parseResourceCalendarName('HQ-3-Orion (10) [TV, Whiteboard]')).toEqual({
+      name: 'HQ-3-Orion',
+      capacity: 10,
+      equipment: ['TV', 'Whiteboard']
+    });
+    expect(parseResourceCalendarName('Quiet room')).toEqual({ name: 'Quiet room', capacity: undefined, equipment: [] });
+    expect(formatRoomLocation(googleRooms[0])).toBe('Orion (HQ, Floor 3)');
+  });
+});
+
+describe('MeetingRoomService', () => {
+  it('should offer free rooms that seat the meeting, smallest first', async () => {
+    const busyLookup = vi.fn<RoomBusyLookup>(async () => new Map([
+      ['orion@resource.calendar.google.com', []],
+      ['lyra@resource.calendar.google.com', []],
+      ['vega@resource.calendar.google.com', []],
+      // Booked until 15:30
+      ['atlas@resource.calendar.google.com', [{ startTime: new Date('2030-01-07T14:30:00Z'), endTime: new Date('2030-01-07T15:30:00Z') }]]
+    ]));
+    const service = new MeetingRoomService([catalog(googleRooms)], busyLookup);
+
+    const rooms = await service.findAvailableRooms(user, start, end, 3);
+
+    expect(rooms.map(room => room.name)).toEqual(['Lyra', 'Orion']);
+    expect(rooms.every(room => room.availabilityKnown)).toBe(true);
+    // Vega is too small to be worth checking
+    expect(busyLookup.mock.calls[0][1]).not.toContain('vega@resource.calendar.google.com');
+  });
+
+  it('should list rooms without a calendar last and skip rooms whose calendar cannot be read', async () => {
+    const configRooms: MeetingRoom[] = [
+      { id: 'loft', name: 'The Loft', capacity: 12, equipment: [], source: 'config' },
+      // Also listed by Google, which wins
+      { id: 'orion-local', name: 'Orion (local)', calendarId: 'ORION@resource.calendar.google.com', equipment: [], source: 'config' }
+    ];
+    const busyLookup: RoomBusyLookup = async () => new Map([['orion@resource.calendar.google.com', []]]);
+    const service = new MeetingRoomService([catalog(googleRooms.slice(0, 2)), catalog(configRooms)], busyLookup);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const rooms = await service.findAvailableRooms(user, start, end, 3);
+
+    expect(rooms.map(room => [room.name, room.availabilityKnown])).toEqual([
+      ['Orion', true],
+      ['The Loft', false]
+    ]);
+  });
+
+  it('should keep rooms from the other catalogs when one fails', async () => {
+    const failing: MeetingRoomCatalog = { listRooms: async () => { throw new Error('Directory unavailable'); } };
+    const service = new MeetingRoomService([failing, catalog(googleRooms.slice(1, 2))], async () => new Map());
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect((await service.listRooms(user)).map(room => room.id)).toEqual(['lyra']);
+  });
+});
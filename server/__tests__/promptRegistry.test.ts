@@ -0,0 +1,118 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PromptRegistry, parsePromptVersions, promptRegistry, renderPromptForCall, type PromptTemplate } from '../promptRegistry';
+import { PROMPT_CATALOG } from '../promptCatalog';
+import { aiRoutingLogger } from '../aiRoutingLogger';
+import { createRecordedProvider, createStubProvider, runPromptEval, type PromptEvalFixture } from '../promptEvaluation';
+
+vi.mock('../gemini.js', () => ({
+  getGeminiResponse: vi.fn()
+}));
+
+const greeting = (version: number, template: string, variables = ['name']): PromptTemplate => ({
+  id: 'greeting',
+  version,
+  description: 'Greets a user',
+  variables,
+  template
+});
+
+describe('PromptRegistry', () => {
+  it('should load every catalog prompt with matching variables', () => {
+    const registry = new PromptRegistry(PROMPT_CATALOG);
+
+    expect(registry.ids()).toEqual(expect.arrayContaining([
+      'assistant_system',
+      'time_extraction',
+      'agenda_system.general',
+      'meeting_title_generation.mistral',
+      'purpose_enhancement.mistral',
+      'attendee_verification.mistral'
+    ]));
+    expect(registry.versions('time_extraction')).toEqual([1]);
+  });
+
+  it('should reject templates whose placeholders do not match their variables', () => {
+    const registry = new PromptRegistry();
+
+    expect(() => registry.register(greeting(1, 'Hello {name}, it is {day}'))).toThrow('undeclared: day');
+    expect(() => registry.register(greeting(1, 'Hello there'))).toThrow('unused: name');
+    registry.register(greeting(1, 'Hello {name}'));
+    expect(() => registry.register(greeting(1, 'Hi {name}'))).toThrow('greeting@1 is already registered');
+  });
+
+  it('should render the pinned version, otherwise the latest', () => {
+    const prompts = [greeting(2, 'Hi {name}'), greeting(1, 'Hello {name}')];
+
+    expect(new PromptRegistry(prompts).render('greeting', { name: 'Ada' })).toEqual({ id: 'greeting', version: 2, text: 'Hi Ada' });
+
+    const pinned = new PromptRegistry(prompts, parsePromptVersions('greeting=1, other=x'));
+    expect(pinned.render('greeting', { name: 'Ada' }).text).toBe('Hello Ada');
+    expect(pinned.render('greeting', { name: 'Ada' }, 2).text).toBe('Hi Ada');
+    expect(() => pinned.setActiveVersion('greeting', 3)).toThrow('greeting has no version 3 (available: 1, 2)');
+  });
+
+  it('should require every variable and leave braces in values alone', () => {
+    const registry = new PromptRegistry([greeting(1, 'Echo {name} and {json}', ['name', 'json'])]);
+
+    expect(() => registry.render('greeting', { name: 'Ada' })).toThrow('missing variables: json');
+    expect(registry.render('greeting', { name: '{json}', json: '{"a": 1}' }).text).toBe('Echo {json} and {"a": 1}');
+  });
+
+  it('should log the prompt version of each AI call', () => {
+    const before = aiRoutingLogger.getPromptUsage(1)['time_extraction@1'] || 0;
+
+    const text = renderPromptForCall('time_extraction', {
+      message: 'tomorrow at 3pm',
+      currentDate: '2025-03-10',
+      currentTime: '09:00',
+      timezone: 'UTC',
+      workingHoursLine: '',
+      defaultDurationMinutes: 45
+    }, 'gemini');
+
+    expect(text).toContain('assume 45 minutes duration');
+    expect(aiRoutingLogger.getPromptUsage(1)['time_extraction@1']).toBe(before + 1);
+  });
+});
+
+describe('prompt evaluation', () => {
+  const timeFixture: PromptEvalFixture = {
+    id: 'time',
+    promptId: 'time_extraction',
+    variables: { message: 'at 3pm', currentDate: '2025-03-10', currentTime: '09:00', timezone: 'Europe/Berlin', workingHoursLine: '', defaultDurationMinutes: 60 },
+    responses: {
+      '1': '```json\n{"startTime": "2025-03-10T15:00:00+01:00", "endTime": "2025-03-10T17:00:00+01:00", "confidence": 0.9, "reasoning": "3pm"}\n```'
+    },
+    expected: { startTime: '2025-03-10T14:00:00Z', endTime: '2025-03-10T15:00:00Z' }
+  };
+  const agendaFixture: PromptEvalFixture = {
+    id: 'agenda',
+    promptId: 'agenda_text_generation',
+    variables: { title: 'Planning', meetingType: 'planning', duration: 30, attendeeCount: 3, context: 'Sprint' },
+    responses: { '*': 'Too short' }
+  };
+
+  it('should score recorded replies for schema validity, field accuracy and agenda validation', async () => {
+    const reports = await runPromptEval([timeFixture, agendaFixture], createRecordedProvider());
+
+    expect(reports).toMatchObject([
+      { promptId: 'time_extraction', version: 1, errors: 0, schemaValidity: 1, fieldAccuracy: 0.5, agendaPassRate: null },
+      { promptId: 'agenda_text_generation', version: 1, errors: 0, schemaValidity: null, agendaPassRate: 0 }
+    ]);
+  });
+
+  it('should report fixtures that cannot run against the chosen version', async () => {
+    const [recorded] = await runPromptEval([timeFixture], createRecordedProvider(), { version: 2 });
+    expect(recorded.results[0].error).toBe('Prompt time_extraction has no version 2 (available: 1)');
+
+    const registry = new PromptRegistry([...PROMPT_CATALOG.filter(prompt => prompt.id === 'time_extraction'), {
+      ...promptRegistry.get('time_extraction'),
+      version: 2
+    }]);
+    const [stubbed] = await runPromptEval([timeFixture], createStubProvider(), { version: 2, registry });
+    expect(stubbed).toMatchObject({ version: 2, errors: 0, fieldAccuracy: 1 });
+
+    const [unrecorded] = await runPromptEval([timeFixture], createRecordedProvider(), { registry });
+    expect(unrecorded.results[0].error).toBe('No recorded response for time_extraction@2');
+  });
+});
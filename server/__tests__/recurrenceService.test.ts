@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectRecurrence,
+  buildRRule,
+  parseRRule,
+  expandOccurrences,
+  describeRecurrence
+} from '../recurrenceService.js';
+
+// Thursday, October 15, 2026
+const referenceDate = new Date(2026, 9, 15, 9, 0, 0);
+
+describe('RecurrenceService', () => {
+  describe('detectRecurrence', () => {
+    it('should return null for one-off meetings', () => {
+      expect(detectRecurrence('Schedule a design review tomorrow at 3pm', referenceDate)).toBeNull();
+    });
+
+    it('should detect weekly meetings on a named weekday', () => {
+      const rule = detectRecurrence('Set up a standup every Tuesday at 10', referenceDate);
+
+      expect(rule).toEqual({ frequency: 'WEEKLY', interval: 1, byDay: ['TU'] });
+    });
+
+    it('should detect biweekly meetings with an until month', () => {
+      const rule = detectRecurrence('Retro biweekly until December', referenceDate);
+
+      expect(rule?.frequency).toBe('WEEKLY');
+      expect(rule?.interval).toBe(2);
+      expect(rule?.until?.getMonth()).toBe(11);
+      expect(rule?.until?.getDate()).toBe(31);
+      expect(rule?.until?.getFullYear()).toBe(2026);
+    });
+
+    it('should roll an until month that has already passed into next year', () => {
+      const rule = detectRecurrence('Sync every week until March 3', referenceDate);
+
+      expect(rule?.until?.getFullYear()).toBe(2027);
+      expect(rule?.until?.getMonth()).toBe(2);
+      expect(rule?.until?.getDate()).toBe(3);
+    });
+
+    it('should end the series on the until day in the user\'s time zone, whatever the server\'s', () => {
+      const serverTimeZone = process.env.TZ;
+      process.env.TZ = 'Pacific/Auckland';
+      try {
+        const reference = new Date('2026-10-15T07:00:00Z');
+
+        expect(detectRecurrence('Standup daily until 2026-12-01', reference, 'America/New_York')?.until)
+          .toEqual(new Date('2026-12-02T04:59:59Z'));
+        expect(buildRRule(detectRecurrence('Retro biweekly until December', reference, 'Europe/Berlin')!))
+          .toBe('RRULE:FREQ=WEEKLY;INTERVAL=2;UNTIL=20261231T225959Z');
+      } finally {
+        if (serverTimeZone === undefined) {
+          delete process.env.TZ;
+        } else {
+          process.env.TZ = serverTimeZone;
+        }
+      }
+    });
+
+    it('should detect every weekday', () => {
+      const rule = detectRecurrence('Daily check-in every weekday at 9am', referenceDate);
+
+      expect(rule?.frequency).toBe('WEEKLY');
+      expect(rule?.byDay).toEqual(['MO', 'TU', 'WE', 'TH', 'FR']);
+    });
+
+    it('should detect an explicit interval and occurrence count', () => {
+      const rule = detectRecurrence('Planning every 3 weeks for 6 sessions', referenceDate);
+
+      expect(rule).toEqual({ frequency: 'WEEKLY', interval: 3, count: 6 });
+    });
+
+    it('should convert a duration into an occurrence count', () => {
+      const rule = detectRecurrence('Every other Monday for 8 weeks', referenceDate);
+
+      expect(rule?.interval).toBe(2);
+      expect(rule?.byDay).toEqual(['MO']);
+      expect(rule?.count).toBe(4);
+    });
+
+    it('should detect monthly meetings', () => {
+      expect(detectRecurrence('Monthly business review', referenceDate)).toEqual({
+        frequency: 'MONTHLY',
+        interval: 1
+      });
+    });
+  });
+
+  describe('buildRRule and parseRRule', () => {
+    it('should build Google Calendar compatible rules', () => {
+      expect(buildRRule({ frequency: 'WEEKLY', interval: 2, byDay: ['TU'], count: 5 }))
+        .toBe('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU;COUNT=5');
+    });
+
+    it('should format UNTIL as a UTC timestamp', () => {
+      const rrule = buildRRule({
+        frequency: 'DAILY',
+        interval: 1,
+        until: new Date(Date.UTC(2026, 11, 31, 23, 59, 59))
+      });
+
+      expect(rrule).toBe('RRULE:FREQ=DAILY;UNTIL=20261231T235959Z');
+    });
+
+    it('should round-trip rules', () => {
+      const rule = { frequency: 'WEEKLY' as const, interval: 2, byDay: ['MO' as const, 'TH' as const], count: 4 };
+
+      expect(parseRRule(buildRRule(rule))).toEqual(rule);
+    });
+
+    it('should reject unsupported frequencies', () => {
+      expect(() => parseRRule('RRULE:FREQ=YEARLY')).toThrow('Unsupported recurrence frequency');
+      expect(() => parseRRule('RRULE:FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2')).toThrow('Unsupported recurrence rule part: BYSETPOS');
+      expect(() => parseRRule('RRULE:FREQ=WEEKLY;BYDAY=2TU')).toThrow('Unsupported ordinal weekday');
+    });
+
+    it('should round-trip ordinal weekdays and days of the month', () => {
+      const rule = parseRRule('RRULE:FREQ=MONTHLY;BYDAY=2TU,-1FR;BYMONTHDAY=1,-1');
+
+      expect(rule).toEqual({
+        frequency: 'MONTHLY',
+        interval: 1,
+        byNthDay: [{ ordinal: 2, day: 'TU' }, { ordinal: -1, day: 'FR' }],
+        byMonthDay: [1, -1]
+      });
+      expect(buildRRule(rule)).toBe('RRULE:FREQ=MONTHLY;BYDAY=2TU,-1FR;BYMONTHDAY=1,-1');
+    });
+  });
+
+  describe('expandOccurrences', () => {
+    const start = new Date(2026, 9, 20, 10, 0, 0); // Tuesday
+    const end = new Date(2026, 9, 20, 10, 30, 0);
+
+    it('should expand weekly rules keeping the meeting duration', () => {
+      const occurrences = expandOccurrences({ frequency: 'WEEKLY', interval: 1, byDay: ['TU'] }, start, end, 3);
+
+      expect(occurrences).toHaveLength(3);
+      expect(occurrences[1].startTime).toEqual(new Date(2026, 9, 27, 10, 0, 0));
+      expect(occurrences[2].endTime).toEqual(new Date(2026, 10, 3, 10, 30, 0));
+    });
+
+    it('should honour interval and multiple weekdays', () => {
+      const occurrences = expandOccurrences(
+        { frequency: 'WEEKLY', interval: 2, byDay: ['TU', 'TH'] },
+        start,
+        end,
+        4
+      );
+
+      expect(occurrences.map(o => o.startTime.getDate())).toEqual([20, 22, 3, 5]);
+    });
+
+    it('should stop at COUNT and UNTIL', () => {
+      expect(expandOccurrences({ frequency: 'DAILY', interval: 1, count: 2 }, start, end, 10)).toHaveLength(2);
+
+      const untilOccurrences = expandOccurrences(
+        { frequency: 'DAILY', interval: 1, until: new Date(2026, 9, 23, 23, 59, 59) },
+        start,
+        end,
+        10
+      );
+      expect(untilOccurrences).toHaveLength(4);
+    });
+
+    it('should skip months without the start day', () => {
+      const monthEndStart = new Date(2026, 0, 31, 10, 0, 0);
+      const monthEndEnd = new Date(2026, 0, 31, 11, 0, 0);
+      const occurrences = expandOccurrences({ frequency: 'MONTHLY', interval: 1 }, monthEndStart, monthEndEnd, 3);
+
+      expect(occurrences.map(o => o.startTime.getMonth())).toEqual([0, 2, 4]);
+    });
+
+    it('should step weekdays and wall-clock times in the given timezone', () => {
+      // Monday 18:00 in Los Angeles is already Tuesday in UTC; DST ends on November 1
+      const occurrences = expandOccurrences(
+        { frequency: 'WEEKLY', interval: 1, byDay: ['MO'] },
+        new Date('2026-10-27T01:00:00Z'),
+        new Date('2026-10-27T01:30:00Z'),
+        3,
+        'America/Los_Angeles'
+      );
+
+      expect(occurrences.map(o => o.startTime.toISOString())).toEqual([
+        '2026-10-27T01:00:00.000Z',
+        '2026-11-03T02:00:00.000Z',
+        '2026-11-10T02:00:00.000Z'
+      ]);
+      expect(occurrences[1].endTime.toISOString()).toBe('2026-11-03T02:30:00.000Z');
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('should summarise weekly rules', () => {
+      expect(describeRecurrence({ frequency: 'WEEKLY', interval: 2, byDay: ['TU'] }))
+        .toBe('Every 2 weeks on Tuesday');
+    });
+
+    it('should summarise weekday rules with a count', () => {
+      expect(describeRecurrence({
+        frequency: 'WEEKLY',
+        interval: 1,
+        byDay: ['MO', 'TU', 'WE', 'TH', 'FR'],
+        count: 10
+      })).toBe('Every weekday, 10 times');
+    });
+  });
+});
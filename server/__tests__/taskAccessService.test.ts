@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { readTaskAccessToken, signTaskAccessToken, type TaskAccessClaims } from '../taskAccessService';
+
+const secret = 'test-task-link-secret';
+const now = new Date('2030-01-07T08:00:00Z');
+
+const claims: TaskAccessClaims = {
+  linkId: 'link-1',
+  meetingId: 'meeting-1',
+  email: 'priya@example.com',
+  expiresAt: Math.floor(now.getTime() / 1000) + 60 * 60
+};
+
+describe('Task access tokens', () => {
+  it('should read back the claims of a token it signed', () => {
+    const token = signTaskAccessToken(claims, secret);
+
+    expect(readTaskAccessToken(token, now, secret)).toEqual(claims);
+  });
+
+  it('should reject tokens signed with another secret', () => {
+    const token = signTaskAccessToken(claims, 'someone-elses-secret');
+
+    expect(readTaskAccessToken(token, now, secret)).toBeUndefined();
+  });
+
+  it('should reject tokens whose claims were changed', () => {
+    const [, signature] = signTaskAccessToken(claims, secret).split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({
+      lid: claims.linkId,
+      mid: 'another-meeting',
+      email: claims.email,
+      exp: claims.expiresAt
+    })).toString('base64url');
+
+    expect(readTaskAccessToken(`${forgedPayload}.${signature}`, now, secret)).toBeUndefined();
+  });
+
+  it('should reject expired tokens', () => {
+    const token = signTaskAccessToken(claims, secret);
+
+    expect(readTaskAccessToken(token, new Date((claims.expiresAt + 1) * 1000), secret)).toBeUndefined();
+  });
+
+  it('should reject malformed tokens', () => {
+    expect(readTaskAccessToken('magic_1700000000000_abc123', now, secret)).toBeUndefined();
+    expect(readTaskAccessToken('a.b.c', now, secret)).toBeUndefined();
+    expect(readTaskAccessToken('', now, secret)).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { taskQuerySchema, createTaskSchema, updateTaskSchema } from '../../shared/schema';
+
+describe('Task schemas', () => {
+  describe('taskQuerySchema', () => {
+    it('should apply defaults for sorting and pagination', () => {
+      expect(taskQuerySchema.parse({})).toEqual({
+        sortBy: 'createdAt',
+        sortOrder: 'desc',
+        page: 1,
+        pageSize: 50
+      });
+    });
+
+    it('should parse comma separated filters and numeric query strings', () => {
+      const query = taskQuerySchema.parse({
+        status: 'pending,in_progress',
+        priority: 'high',
+        dueBefore: '2030-01-10T00:00:00Z',
+        sortBy: 'deadline',
+        sortOrder: 'asc',
+        page: '3',
+        pageSize: '20'
+      });
+
+      expect(query.status).toEqual(['pending', 'in_progress']);
+      expect(query.priority).toEqual(['high']);
+      expect(query.dueBefore).toEqual(new Date('2030-01-10T00:00:00Z'));
+      expect(query.page).toBe(3);
+      expect(query.pageSize).toBe(20);
+    });
+
+    it('should reject unknown statuses and oversized pages', () => {
+      expect(taskQuerySchema.safeParse({ status: 'done' }).success).toBe(false);
+      expect(taskQuerySchema.safeParse({ pageSize: '500' }).success).toBe(false);
+    });
+  });
+
+  describe('createTaskSchema', () => {
+    it('should default assignee, status, priority and category', () => {
+      expect(createTaskSchema.parse({ title: 'Send the contract' })).toEqual({
+        title: 'Send the contract',
+        assignee: 'Unassigned',
+        status: 'pending',
+        priority: 'medium',
+        category: 'general'
+      });
+    });
+  });
+
+  describe('updateTaskSchema', () => {
+    it('should allow clearing optional fields', () => {
+      expect(updateTaskSchema.parse({ deadline: null, estimatedHours: null })).toEqual({
+        deadline: null,
+        estimatedHours: null
+      });
+    });
+
+    it('should reject empty updates', () => {
+      expect(updateTaskSchema.safeParse({}).success).toBe(false);
+    });
+  });
+});
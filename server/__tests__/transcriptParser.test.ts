@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectTranscriptFormat,
+  parseTranscript,
+  parseTimestamp,
+  mapSpeakersToAttendees,
+  formatTranscriptTurns
+} from '../transcriptParser';
+import { transcriptUploadSchema } from '../../shared/schema';
+
+const vtt = `WEBVTT
+
+NOTE exported from Zoom
+
+1
+00:00:01.000 --> 00:00:04.500
+<v Alice Smith>Morning everyone, let's start.</v>
+
+2
+00:00:05.000 --> 00:00:07.250
+<v Alice Smith>First item is the launch date.</v>
+
+3
+00:00:08.000 --> 00:00:12.000
+Bob: I can have the release notes ready by Friday.
+`;
+
+const srt = `1
+00:00:01,000 --> 00:00:03,000
+Priya: Budget is approved.
+
+2
+00:01:10,500 --> 00:01:15,000
+Sam: Great, I'll update the forecast.
+`;
+
+const meetExport = `Weekly Sync - Transcript
+
+00:00:00
+Alice Smith: Thanks for joining.
+Bob Jones: Happy to be here.
+
+00:05:00
+Alice Smith: Let's review the roadmap.
+`;
+
+const plainText = `Alice (PM): We need to decide on the vendor.
+I think the second proposal is cheaper.
+[10:32] Bob: Agreed. I will send the contract.`;
+
+describe('TranscriptParser', () => {
+  describe('detectTranscriptFormat', () => {
+    it('should detect formats from content and file name', () => {
+      expect(detectTranscriptFormat(vtt)).toBe('vtt');
+      expect(detectTranscriptFormat(srt)).toBe('srt');
+      expect(detectTranscriptFormat(meetExport)).toBe('meet');
+      expect(detectTranscriptFormat(plainText)).toBe('text');
+      expect(detectTranscriptFormat(plainText, 'captions.srt')).toBe('srt');
+    });
+  });
+
+  describe('parseTimestamp', () => {
+    it('should parse caption and clock timestamps', () => {
+      expect(parseTimestamp('00:01:10,500')).toBe(70.5);
+      expect(parseTimestamp('01:02.25')).toBe(62.25);
+      expect(parseTimestamp('1:00:00')).toBe(3600);
+    });
+  });
+
+  describe('parseTranscript', () => {
+    it('should parse WebVTT voice tags and merge consecutive cues', () => {
+      const { format, turns } = parseTranscript(vtt);
+
+      expect(format).toBe('vtt');
+      expect(turns).toEqual([
+        {
+          speaker: 'Alice Smith',
+          startSeconds: 1,
+          endSeconds: 7.25,
+          text: "Morning everyone, let's start. First item is the launch date."
+        },
+        { speaker: 'Bob', startSeconds: 8, endSeconds: 12, text: 'I can have the release notes ready by Friday.' }
+      ]);
+    });
+
+    it('should parse SRT cues with speaker prefixes', () => {
+      const { turns } = parseTranscript(srt);
+
+      expect(turns.map(turn => [turn.speaker, turn.startSeconds])).toEqual([['Priya', 1], ['Sam', 70.5]]);
+    });
+
+    it('should apply Google Meet timestamps to the following speaker lines', () => {
+      const { turns } = parseTranscript(meetExport);
+
+      expect(turns).toEqual([
+        { speaker: 'Alice Smith', startSeconds: 0, text: 'Thanks for joining.' },
+        { speaker: 'Bob Jones', startSeconds: 0, text: 'Happy to be here.' },
+        { speaker: 'Alice Smith', startSeconds: 300, text: "Let's review the roadmap." }
+      ]);
+    });
+
+    it('should parse speaker-labelled text with roles and continuation lines', () => {
+      const { turns } = parseTranscript(plainText);
+
+      expect(turns).toEqual([
+        {
+          speaker: 'Alice',
+          startSeconds: undefined,
+          text: 'We need to decide on the vendor. I think the second proposal is cheaper.'
+        },
+        { speaker: 'Bob', startSeconds: 632, text: 'Agreed. I will send the contract.' }
+      ]);
+    });
+
+    it('should return no turns when there are no speakers', () => {
+      expect(parseTranscript('Just some notes without speakers.').turns).toEqual([]);
+    });
+  });
+
+  describe('mapSpeakersToAttendees', () => {
+    it('should match names, email local parts and unique first names', () => {
+      const mapping = mapSpeakersToAttendees(
+        ['Alice Smith', 'Bob', 'Priya', 'Guest'],
+        [
+          { email: 'alice.smith@acme.com' },
+          { email: 'bjones@acme.com', name: 'Bob Jones' },
+          { email: 'priya@acme.com' }
+        ]
+      );
+
+      expect(Object.fromEntries(mapping)).toEqual({
+        'Alice Smith': 'alice.smith@acme.com',
+        'Bob': 'bjones@acme.com',
+        'Priya': 'priya@acme.com'
+      });
+    });
+
+    it('should not guess when a first name is shared', () => {
+      const mapping = mapSpeakersToAttendees(
+        ['Sam'],
+        [{ email: 'sam.lee@acme.com' }, { email: 'sam.patel@acme.com' }]
+      );
+
+      expect(mapping.size).toBe(0);
+    });
+  });
+
+  describe('formatTranscriptTurns', () => {
+    it('should render timestamps and speaker emails', () => {
+      expect(formatTranscriptTurns([
+        { speaker: 'Bob', speakerEmail: 'bob@acme.com', startSeconds: 632, text: 'Agreed.' },
+        { speaker: 'Guest', text: 'Thanks.' }
+      ])).toBe('[00:10:32] Bob <bob@acme.com>: Agreed.\n\nGuest: Thanks.');
+    });
+  });
+
+  describe('transcriptUploadSchema', () => {
+    it('should only accept meeting IDs that are safe in file names', () => {
+      const upload = (meetingId: string) => transcriptUploadSchema.safeParse({ meetingId, content: 'Alice: Hi' }).success;
+
+      expect(upload('abc123def_20260302T150000Z')).toBe(true);
+      expect(upload('6f1c2a7e-91b4-4a53-8d6e-2f0e9c1b7a44')).toBe(true);
+      expect(upload('../../server/index')).toBe(false);
+      expect(upload('evt/1')).toBe(false);
+    });
+  });
+});
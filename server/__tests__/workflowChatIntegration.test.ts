@@ -42,6 +42,7 @@ vi.mock('../meetingWorkflowOrchestrator.js', () => ({
             nextAction: 'Waiting for meeting intent'
         }),
         resetWorkflow: vi.fn(),
+        handleMeetingEditRequest: vi.fn().mockResolvedValue(null),
         advanceToStep: vi.fn().mockResolvedValue({
             message: 'Advanced to meeting_type_selection',
             nextStep: 'meeting_type_selection',
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getZonedTimeParts,
+  zonedTimeToDate,
+  getWorkingDayBounds,
+  isWithinWorkingHours,
+  describeWorkingHours,
+  formatZonedTime,
+  isValidTimeZone,
+  type WorkingHoursProfile
+} from '../utils/workingHours';
+
+const berlinProfile: WorkingHoursProfile = {
+  timezone: 'Europe/Berlin',
+  workingDays: [1, 2, 3, 4, 5],
+  workingHoursStart: 9,
+  workingHoursEnd: 17,
+  preferredMeetingLengths: [30, 60]
+};
+
+describe('workingHours utils', () => {
+  describe('getZonedTimeParts', () => {
+    it('should return wall-clock time in the given timezone', () => {
+      // Monday, January 7, 2030 at 08:00 UTC is 09:00 in Berlin and 03:00 in New York
+      const instant = new Date('2030-01-07T08:00:00Z');
+
+      expect(getZonedTimeParts(instant, 'Europe/Berlin')).toMatchObject({ day: 7, hour: 9, dayOfWeek: 1 });
+      expect(getZonedTimeParts(instant, 'America/New_York')).toMatchObject({ day: 7, hour: 3, dayOfWeek: 1 });
+    });
+  });
+
+  describe('zonedTimeToDate', () => {
+    it('should convert wall-clock time to an instant in winter and summer', () => {
+      expect(zonedTimeToDate(2030, 1, 7, 9, 0, 'Europe/Berlin').toISOString()).toBe('2030-01-07T08:00:00.000Z');
+      expect(zonedTimeToDate(2030, 7, 8, 9, 0, 'Europe/Berlin').toISOString()).toBe('2030-07-08T07:00:00.000Z');
+    });
+  });
+
+  describe('getWorkingDayBounds', () => {
+    it('should compute working hours on the local calendar day', () => {
+      const bounds = getWorkingDayBounds(new Date('2030-01-07T12:00:00Z'), berlinProfile);
+
+      expect(bounds.start.toISOString()).toBe('2030-01-07T08:00:00.000Z');
+      expect(bounds.end.toISOString()).toBe('2030-01-07T16:00:00.000Z');
+      expect(bounds.isWorkingDay).toBe(true);
+    });
+
+    it('should flag non-working days in the profile timezone', () => {
+      // Friday 23:30 UTC is already Saturday in Berlin
+      expect(getWorkingDayBounds(new Date('2030-01-11T23:30:00Z'), berlinProfile).isWorkingDay).toBe(false);
+    });
+  });
+
+  describe('isWithinWorkingHours', () => {
+    it('should accept meetings inside working hours', () => {
+      expect(isWithinWorkingHours(
+        new Date('2030-01-07T08:00:00Z'),
+        new Date('2030-01-07T09:00:00Z'),
+        berlinProfile
+      )).toBe(true);
+    });
+
+    it('should reject meetings that run past the end of the working day', () => {
+      expect(isWithinWorkingHours(
+        new Date('2030-01-07T15:30:00Z'),
+        new Date('2030-01-07T16:30:00Z'),
+        berlinProfile
+      )).toBe(false);
+    });
+  });
+
+  describe('formatting', () => {
+    it('should describe working hours with a day range', () => {
+      expect(describeWorkingHours(berlinProfile)).toBe('09:00-17:00 Mon-Fri (Europe/Berlin)');
+      expect(describeWorkingHours({ ...berlinProfile, workingDays: [1, 3, 5] })).toBe('09:00-17:00 Mon, Wed, Fri (Europe/Berlin)');
+    });
+
+    it('should format an instant in the given timezone', () => {
+      expect(formatZonedTime(new Date('2030-01-07T22:00:00Z'), 'Europe/Berlin')).toBe('Mon 23:00');
+    });
+  });
+
+  describe('isValidTimeZone', () => {
+    it('should validate IANA timezones', () => {
+      expect(isValidTimeZone('Asia/Tokyo')).toBe(true);
+      expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false);
+    });
+  });
+});
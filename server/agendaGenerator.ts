@@ -1,5 +1,8 @@
 import { MeetingData, ConversationMessage } from '../shared/schema.js';
-import { getGeminiResponse, MistralMessage } from './aiInterface.js';
+import type { MistralMessage } from './aiInterface.js';
+import { renderAgendaMarkdown, toAgendaDocument } from '../shared/agendaDocument.js';
+import type { AgendaLink } from '../shared/schema.js';
+import { promptRegistry, renderPromptForCall } from './promptRegistry.js';
 
 export interface AgendaContent {
   title: string;
@@ -10,13 +13,16 @@ export interface AgendaContent {
 }
 
 export interface AgendaTopic {
+  id?: string;
   title: string;
   duration: number;
   description?: string;
   presenter?: string;
+  links?: AgendaLink[];
 }
 
 export interface ActionItem {
+  id?: string;
   task: string;
   assignee?: string;
   deadline?: string;
@@ -114,6 +120,7 @@ export class AgendaGenerator {
       }
     ];
 
+    const { getGeminiResponse } = await import('./aiInterface.js');
     return await getGeminiResponse(messages);
   }
 
@@ -127,26 +134,18 @@ export class AgendaGenerator {
     attendees: string[],
     context: string
   ): Promise<string> {
-    const prompt = `Generate a professional meeting agenda for "${title}".
-
-Meeting Details:
-- Type: ${meetingType}
-- Duration: ${duration} minutes
-- Attendees: ${attendees.length} people
-- Context: ${context}
-
-Create a structured agenda with:
-1. Welcome/introductions (if needed)
-2. Main topics with time allocations
-3. Action items discussion
-4. Next steps/wrap-up
-
-Format as numbered list with time allocations. Keep it concise and actionable.`;
+    const prompt = renderPromptForCall('agenda_text_generation', {
+      title,
+      meetingType,
+      duration,
+      attendeeCount: attendees.length,
+      context
+    }, 'gemini');
 
     const messages: MistralMessage[] = [
       {
         role: 'system',
-        content: 'You are a professional meeting agenda generator. Create clear, time-efficient agendas that maximize productivity.'
+        content: renderPromptForCall('agenda_text_generation.system', {}, 'gemini')
       },
       {
         role: 'user',
@@ -154,6 +153,7 @@ Format as numbered list with time allocations. Keep it concise and actionable.`;
       }
     ];
 
+    const { getGeminiResponse } = await import('./aiInterface.js');
     return await getGeminiResponse(messages);
   }
 
@@ -434,41 +434,10 @@ Format as numbered list with time allocations. Keep it concise and actionable.`;
   }
 
   /**
-   * Format agenda content as text
+   * Format agenda content as markdown via the shared agenda document renderer
    */
   formatAgenda(content: AgendaContent): string {
-    let formatted = `# ${content.title}\n\n`;
-    formatted += `**Duration:** ${content.duration} minutes\n\n`;
-    
-    if (content.topics.length > 0) {
-      formatted += `## Agenda Items\n\n`;
-      content.topics.forEach((topic, index) => {
-        formatted += `${index + 1}. **${topic.title}** (${topic.duration} min)\n`;
-        if (topic.description) {
-          formatted += `   ${topic.description}\n`;
-        }
-        if (topic.presenter) {
-          formatted += `   *Presenter: ${topic.presenter}*\n`;
-        }
-        formatted += '\n';
-      });
-    }
-    
-    if (content.actionItems.length > 0) {
-      formatted += `## Action Items\n\n`;
-      content.actionItems.forEach((item, index) => {
-        formatted += `${index + 1}. ${item.task}`;
-        if (item.assignee) {
-          formatted += ` (*${item.assignee}*)`;
-        }
-        if (item.deadline) {
-          formatted += ` - Due: ${item.deadline}`;
-        }
-        formatted += ` [${item.priority.toUpperCase()}]\n`;
-      });
-    }
-    
-    return formatted;
+    return renderAgendaMarkdown(toAgendaDocument(content));
   }
 
   /**
@@ -523,59 +492,34 @@ Format as numbered list with time allocations. Keep it concise and actionable.`;
     const urgencyText = contextAnalysis.urgency === 'high' ? 'URGENT - ' : 
                        contextAnalysis.urgency === 'medium' ? 'Important - ' : '';
     
-    let prompt = `Generate a professional meeting agenda for "${urgencyText}${title}".
-
-Meeting Details:
-- Type: ${meetingType} (${contextAnalysis.meetingType} format)
-- Duration: ${duration} minutes
-- Attendees: ${attendees.length} people
-- Urgency: ${contextAnalysis.urgency}
-
-Meeting Purpose: ${contextAnalysis.purpose}
-
-Key Topics to Cover:
-${contextAnalysis.topics.map((topic, i) => `${i + 1}. ${topic}`).join('\n')}
-
-Relevant Keywords: ${contextAnalysis.keywords.join(', ')}`;
-
-    if (contextAnalysis.actionItems.length > 0) {
-      prompt += `\n\nPotential Action Items from Discussion:
-${contextAnalysis.actionItems.map((item, i) => `- ${item}`).join('\n')}`;
-    }
-
-    if (contextAnalysis.participants.length > 0) {
-      prompt += `\n\nKey Participants: ${contextAnalysis.participants.join(', ')}`;
-    }
-
-    prompt += `\n\nCreate a structured agenda with:
-1. Brief welcome/context setting (2-5 min)
-2. Main discussion topics with realistic time allocations
-3. Action items and decision points
-4. Next steps and wrap-up (5-10 min)
-
-Requirements:
-- Format as numbered list with time allocations in minutes
-- Ensure total time does not exceed ${duration} minutes
-- Include specific discussion points based on the topics mentioned
-- Be concise but comprehensive
-- Focus on actionable outcomes`;
-
-    return prompt;
+    const actionItemsSection = contextAnalysis.actionItems.length > 0
+      ? `\n\nPotential Action Items from Discussion:\n${contextAnalysis.actionItems.map(item => `- ${item}`).join('\n')}`
+      : '';
+    const participantsSection = contextAnalysis.participants.length > 0
+      ? `\n\nKey Participants: ${contextAnalysis.participants.join(', ')}`
+      : '';
+
+    return renderPromptForCall('agenda_context_generation', {
+      title: `${urgencyText}${title}`,
+      meetingType,
+      agendaFormat: contextAnalysis.meetingType,
+      duration,
+      attendeeCount: attendees.length,
+      urgency: contextAnalysis.urgency,
+      purpose: contextAnalysis.purpose,
+      topics: contextAnalysis.topics.map((topic, i) => `${i + 1}. ${topic}`).join('\n'),
+      keywords: contextAnalysis.keywords.join(', '),
+      actionItemsSection,
+      participantsSection
+    }, 'gemini');
   }
 
   /**
    * Get system prompt based on meeting type
    */
   private getSystemPromptForMeetingType(meetingType: MeetingType): string {
-    const prompts = {
-      standup: 'You are a professional standup meeting facilitator. Create efficient, focused agendas that keep teams aligned and identify blockers quickly.',
-      planning: 'You are a strategic planning facilitator. Create comprehensive agendas that guide teams through goal-setting, timeline planning, and resource allocation.',
-      review: 'You are a project review specialist. Create structured agendas that facilitate thorough progress assessment, lessons learned, and improvement planning.',
-      brainstorm: 'You are a creative facilitation expert. Create dynamic agendas that encourage idea generation, creative thinking, and collaborative problem-solving.',
-      general: 'You are a professional meeting agenda generator. Create clear, time-efficient agendas that maximize productivity and ensure all participants contribute meaningfully.'
-    };
-    
-    return prompts[meetingType] || prompts.general;
+    const id = promptRegistry.has(`agenda_system.${meetingType}`) ? `agenda_system.${meetingType}` : 'agenda_system.general';
+    return renderPromptForCall(id, {}, 'gemini');
   }
 
   /**
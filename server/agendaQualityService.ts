@@ -1,3 +1,6 @@
+import type { AgendaDocument } from '../shared/schema.js';
+import { createAgendaId, getAgendaTimeboxTotal } from '../shared/agendaDocument.js';
+
 export interface QualityCheck {
   id: string;
   name: string;
@@ -392,6 +395,42 @@ export class AgendaQualityService {
     return enhanced;
   }
 
+  /**
+   * Enhance a structured agenda: fill missing timeboxes, add a follow-up action item and the purpose
+   */
+  enhanceAgendaDocument(document: AgendaDocument, context?: any): AgendaDocument {
+    const enhanced: AgendaDocument = {
+      ...document,
+      topics: document.topics.map(topic => ({ ...topic })),
+      actionItems: [...document.actionItems]
+    };
+
+    // Share the unallocated meeting time between topics without a timebox
+    const untimed = enhanced.topics.filter(topic => topic.duration === 0);
+    if (untimed.length > 0) {
+      const totalMinutes = enhanced.duration || context?.duration || 60;
+      const remaining = Math.max(0, totalMinutes - getAgendaTimeboxTotal(enhanced));
+      const perTopic = Math.max(5, Math.floor(remaining / untimed.length));
+      untimed.forEach(topic => {
+        topic.duration = perTopic;
+      });
+    }
+
+    if (enhanced.actionItems.length === 0) {
+      enhanced.actionItems.push({
+        id: createAgendaId('action', enhanced.actionItems),
+        task: 'Document decisions and assign owners and deadlines for follow-ups',
+        priority: 'medium'
+      });
+    }
+
+    if (!enhanced.purpose && context?.enhancedPurpose) {
+      enhanced.purpose = context.enhancedPurpose;
+    }
+
+    return enhanced;
+  }
+
   private addTimeAllocations(content: string, totalMinutes: number): string {
     // Simple heuristic: distribute time across sections
     const sections = content.match(/<h[2-3][^>]*>.*?<\/h[2-3][^>]*>/gs) || [];
@@ -1,140 +1,260 @@
-export interface AgendaVersion {
-  id: string;
-  agendaId: string;
-  version: number;
-  content: string;
-  title: string;
-  createdAt: Date;
-  createdBy: string;
-  changeType: 'created' | 'edited' | 'auto_saved' | 'enhanced';
-  changeDescription?: string;
-  metadata: {
-    wordCount: number;
-    qualityScore?: number;
-    templateUsed?: string;
-    generationMethod: 'ai' | 'template' | 'manual' | 'enhanced';
-  };
-}
+import { and, asc, count, desc, eq, lt, max } from 'drizzle-orm';
+import { db } from './storage.js';
+import { agendaVersions } from '../shared/schema.js';
+import type { AgendaVersionChangeType, AgendaVersionMetadata, AgendaVersionRecord } from '../shared/schema.js';
+import { diffAgendas, type AgendaDiffLine, type AgendaSectionDiff } from '../shared/agendaDiff.js';
+
+export type AgendaVersion = AgendaVersionRecord;
 
 export interface VersionComparison {
   fromVersion: AgendaVersion;
   toVersion: AgendaVersion;
+  // Flat list of changed lines, kept for existing callers; `lines` has the full side-by-side diff
   changes: {
     type: 'added' | 'removed' | 'modified';
     content: string;
     lineNumber?: number;
   }[];
+  lines: AgendaDiffLine[];
+  sections: AgendaSectionDiff[];
   summary: {
     additions: number;
     deletions: number;
     modifications: number;
+    sectionsAdded: number;
+    sectionsRemoved: number;
+    sectionsModified: number;
     overallChange: 'major' | 'minor' | 'patch';
   };
 }
 
+export interface CreateVersionOptions {
+  authorName?: string;
+  changeDescription?: string;
+  metadata?: Partial<AgendaVersionMetadata>;
+  restoredFromVersion?: number;
+}
+
+type NewAgendaVersion = typeof agendaVersions.$inferInsert;
+
+/**
+ * Persistence used by the agenda version service. Tests pass an in-memory implementation.
+ */
+export interface AgendaVersionStore {
+  // Saves the version under the next number for its agenda; fails if another save took that number first
+  insertVersion(version: Omit<NewAgendaVersion, 'version'>): Promise<AgendaVersionRecord>;
+  // Oldest first unless `newestFirst` is set
+  listVersions(agendaId: string, options?: { limit?: number; offset?: number; newestFirst?: boolean }): Promise<AgendaVersionRecord[]>;
+  countVersions(agendaId: string): Promise<number>;
+  getVersion(agendaId: string, version: number): Promise<AgendaVersionRecord | undefined>;
+  getLatestVersion(agendaId: string): Promise<AgendaVersionRecord | undefined>;
+  deleteVersions(agendaId: string, beforeVersion?: number): Promise<number>;
+}
+
+export const databaseAgendaVersionStore: AgendaVersionStore = {
+  async insertVersion(version) {
+    return db.transaction(async (tx) => {
+      const [{ latest }] = await tx
+        .select({ latest: max(agendaVersions.version) })
+        .from(agendaVersions)
+        .where(eq(agendaVersions.agendaId, version.agendaId));
+      const [created] = await tx
+        .insert(agendaVersions)
+        .values({ ...version, version: (latest ?? 0) + 1 })
+        .returning();
+      return created;
+    });
+  },
+
+  async listVersions(agendaId, { limit, offset = 0, newestFirst = false } = {}) {
+    const query = db
+      .select()
+      .from(agendaVersions)
+      .where(eq(agendaVersions.agendaId, agendaId))
+      .orderBy(newestFirst ? desc(agendaVersions.version) : asc(agendaVersions.version))
+      .offset(offset);
+    return limit === undefined ? query : query.limit(limit);
+  },
+
+  async countVersions(agendaId) {
+    const [{ total }] = await db.select({ total: count() }).from(agendaVersions).where(eq(agendaVersions.agendaId, agendaId));
+    return total;
+  },
+
+  async getVersion(agendaId, version) {
+    const [found] = await db
+      .select()
+      .from(agendaVersions)
+      .where(and(eq(agendaVersions.agendaId, agendaId), eq(agendaVersions.version, version)))
+      .limit(1);
+    return found;
+  },
+
+  async getLatestVersion(agendaId) {
+    const [latest] = await db
+      .select()
+      .from(agendaVersions)
+      .where(eq(agendaVersions.agendaId, agendaId))
+      .orderBy(desc(agendaVersions.version))
+      .limit(1);
+    return latest;
+  },
+
+  async deleteVersions(agendaId, beforeVersion) {
+    const deleted = await db
+      .delete(agendaVersions)
+      .where(beforeVersion === undefined
+        ? eq(agendaVersions.agendaId, agendaId)
+        : and(eq(agendaVersions.agendaId, agendaId), lt(agendaVersions.version, beforeVersion)))
+      .returning({ id: agendaVersions.id });
+    return deleted.length;
+  }
+};
+
+// Saving the same agenda twice at once can race for a version number
+const MAX_SAVE_ATTEMPTS = 3;
+
+const isUniqueViolation = (error: any) => error?.code === '23505';
+
+const countWords = (content: string) => content.replace(/<[^>]+>/g, ' ').split(/\s+/).filter(Boolean).length;
+
 export class AgendaVersionService {
-  private versions = new Map<string, AgendaVersion[]>();
-  private readonly maxVersionsPerAgenda = 50;
+  constructor(private store: AgendaVersionStore = databaseAgendaVersionStore) {}
 
   /**
    * Create a new version of an agenda
    */
-  createVersion(
+  async createVersion(
     agendaId: string,
     content: string,
     title: string,
     userId: string,
-    changeType: AgendaVersion['changeType'],
-    changeDescription?: string,
-    metadata?: Partial<AgendaVersion['metadata']>
-  ): AgendaVersion {
-    const existingVersions = this.versions.get(agendaId) || [];
-
-    const newVersion: AgendaVersion = {
-      id: `version_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    changeType: AgendaVersionChangeType,
+    options: CreateVersionOptions = {}
+  ): Promise<AgendaVersion> {
+    const version: Omit<NewAgendaVersion, 'version'> = {
       agendaId,
-      version: existingVersions.length + 1,
       content,
       title,
-      createdAt: new Date(),
       createdBy: userId,
+      authorName: options.authorName || 'Unknown',
       changeType,
-      changeDescription,
+      changeDescription: options.changeDescription,
+      restoredFromVersion: options.restoredFromVersion,
       metadata: {
-        wordCount: content.split(/\s+/).length,
-        generationMethod: metadata?.generationMethod || 'manual',
-        ...metadata
+        generationMethod: 'manual',
+        ...options.metadata,
+        wordCount: countWords(content)
       }
     };
 
-    // Add to versions array
-    existingVersions.push(newVersion);
-
-    // Keep only the latest versions if we exceed the limit
-    if (existingVersions.length > this.maxVersionsPerAgenda) {
-      existingVersions.splice(0, existingVersions.length - this.maxVersionsPerAgenda);
-      // Update version numbers after cleanup
-      existingVersions.forEach((version, index) => {
-        version.version = index + 1;
-      });
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const created = await this.store.insertVersion(version);
+        console.log(`Created version ${created.version} for agenda ${agendaId}, type: ${changeType}`);
+        return created;
+      } catch (error) {
+        if (!isUniqueViolation(error) || attempt >= MAX_SAVE_ATTEMPTS) {
+          throw error;
+        }
+      }
     }
-
-    this.versions.set(agendaId, existingVersions);
-
-    console.log(`Created version ${newVersion.version} for agenda ${agendaId}, type: ${changeType}`);
-    return newVersion;
   }
 
   /**
-   * Get all versions for an agenda
+   * Get versions for an agenda, oldest first unless `newestFirst` is set
    */
-  getVersions(agendaId: string): AgendaVersion[] {
-    return this.versions.get(agendaId) || [];
+  async getVersions(agendaId: string, options?: { limit?: number; offset?: number; newestFirst?: boolean }): Promise<AgendaVersion[]> {
+    return this.store.listVersions(agendaId, options);
+  }
+
+  async countVersions(agendaId: string): Promise<number> {
+    return this.store.countVersions(agendaId);
   }
 
   /**
    * Get a specific version
    */
-  getVersion(agendaId: string, versionNumber: number): AgendaVersion | undefined {
-    const versions = this.getVersions(agendaId);
-    return versions.find(v => v.version === versionNumber);
+  async getVersion(agendaId: string, versionNumber: number): Promise<AgendaVersion | undefined> {
+    return this.store.getVersion(agendaId, versionNumber);
   }
 
   /**
    * Get the latest version
    */
-  getLatestVersion(agendaId: string): AgendaVersion | undefined {
-    const versions = this.getVersions(agendaId);
-    return versions[versions.length - 1];
+  async getLatestVersion(agendaId: string): Promise<AgendaVersion | undefined> {
+    return this.store.getLatestVersion(agendaId);
   }
 
   /**
-   * Compare two versions
+   * Bring back an earlier version by saving its content as a new version.
+   * History is never rewritten, so the restore itself can be undone the same way.
    */
-  compareVersions(agendaId: string, fromVersion: number, toVersion: number): VersionComparison | null {
-    const versions = this.getVersions(agendaId);
+  async restoreVersion(
+    agendaId: string,
+    versionNumber: number,
+    userId: string,
+    authorName: string,
+    changeDescription?: string
+  ): Promise<AgendaVersion | undefined> {
+    const source = await this.store.getVersion(agendaId, versionNumber);
+    if (!source) {
+      return undefined;
+    }
 
-    const fromVer = versions.find(v => v.version === fromVersion);
-    const toVer = versions.find(v => v.version === toVersion);
+    return this.createVersion(agendaId, source.content, source.title, userId, 'restored', {
+      authorName,
+      changeDescription: changeDescription || `Restored version ${versionNumber}`,
+      restoredFromVersion: versionNumber,
+      metadata: {
+        generationMethod: source.metadata.generationMethod,
+        qualityScore: source.metadata.qualityScore,
+        templateUsed: source.metadata.templateUsed
+      }
+    });
+  }
+
+  /**
+   * Compare two versions
+   */
+  async compareVersions(agendaId: string, fromVersion: number, toVersion: number): Promise<VersionComparison | null> {
+    const [fromVer, toVer] = await Promise.all([
+      this.store.getVersion(agendaId, fromVersion),
+      this.store.getVersion(agendaId, toVersion)
+    ]);
 
     if (!fromVer || !toVer) {
       return null;
     }
 
-    // Simple text comparison (could be enhanced with diff algorithms)
-    const changes = this.calculateChanges(fromVer.content, toVer.content);
+    const diff = diffAgendas(fromVer.content, toVer.content);
+
+    const changes = diff.lines.flatMap((line): VersionComparison['changes'] => {
+      if (line.type === 'added' || line.type === 'modified') {
+        return [{ type: line.type, content: line.newContent!, lineNumber: line.newLineNumber }];
+      }
+      if (line.type === 'removed') {
+        return [{ type: line.type, content: line.oldContent!, lineNumber: line.oldLineNumber }];
+      }
+      return [];
+    });
 
     const summary = {
-      additions: changes.filter(c => c.type === 'added').length,
-      deletions: changes.filter(c => c.type === 'removed').length,
-      modifications: changes.filter(c => c.type === 'modified').length,
-      overallChange: this.determineChangeLevel(changes)
+      additions: diff.stats.additions,
+      deletions: diff.stats.deletions,
+      modifications: diff.stats.modifications,
+      sectionsAdded: diff.sections.filter(s => s.status === 'added').length,
+      sectionsRemoved: diff.sections.filter(s => s.status === 'removed').length,
+      sectionsModified: diff.sections.filter(s => s.status === 'modified').length,
+      overallChange: this.determineChangeLevel(diff.lines, diff.sections)
     };
 
     return {
       fromVersion: fromVer,
       toVersion: toVer,
       changes,
+      lines: diff.lines,
+      sections: diff.sections,
       summary
     };
   }
@@ -142,24 +262,24 @@ export class AgendaVersionService {
   /**
    * Delete all versions for an agenda
    */
-  deleteVersions(agendaId: string): boolean {
-    const deleted = this.versions.delete(agendaId);
-    if (deleted) {
+  async deleteVersions(agendaId: string): Promise<boolean> {
+    const deleted = await this.store.deleteVersions(agendaId);
+    if (deleted > 0) {
       console.log(`Deleted all versions for agenda ${agendaId}`);
     }
-    return deleted;
+    return deleted > 0;
   }
 
   /**
    * Get version statistics
    */
-  getVersionStats(agendaId: string): {
+  async getVersionStats(agendaId: string): Promise<{
     totalVersions: number;
     latestVersion?: number;
-    creationTimeline: { date: Date; version: number; changeType: string }[];
+    creationTimeline: { date: Date | null; version: number; changeType: string }[];
     changeTypeDistribution: Record<string, number>;
-  } {
-    const versions = this.getVersions(agendaId);
+  }> {
+    const versions = await this.store.listVersions(agendaId);
 
     const changeTypeDistribution = versions.reduce((acc, version) => {
       acc[version.changeType] = (acc[version.changeType] || 0) + 1;
@@ -179,81 +299,41 @@ export class AgendaVersionService {
   }
 
   /**
-   * Clean up old versions (keep only recent ones)
+   * Clean up old versions (keep only recent ones). Remaining versions keep their numbers,
+   * so links to them and `restoredFromVersion` references stay valid.
    */
-  cleanupOldVersions(agendaId: string, keepVersions: number = 20): number {
-    const versions = this.getVersions(agendaId);
-    if (versions.length <= keepVersions) {
+  async cleanupOldVersions(agendaId: string, keepVersions: number = 20): Promise<number> {
+    const latest = await this.store.getLatestVersion(agendaId);
+    if (!latest || latest.version <= keepVersions) {
       return 0;
     }
 
-    const cleanedVersions = versions.slice(-keepVersions);
-    cleanedVersions.forEach((version, index) => {
-      version.version = index + 1;
-    });
-
-    this.versions.set(agendaId, cleanedVersions);
-
-    const cleanedCount = versions.length - cleanedVersions.length;
-    console.log(`Cleaned up ${cleanedCount} old versions for agenda ${agendaId}`);
-
-    return cleanedCount;
-  }
-
-  private calculateChanges(oldContent: string, newContent: string) {
-    const changes: VersionComparison['changes'] = [];
-
-    // Simple line-by-line comparison
-    const oldLines = oldContent.split('\n');
-    const newLines = newContent.split('\n');
-
-    const maxLines = Math.max(oldLines.length, newLines.length);
-
-    for (let i = 0; i < maxLines; i++) {
-      const oldLine = oldLines[i] || '';
-      const newLine = newLines[i] || '';
-
-      if (!oldLine && newLine) {
-        changes.push({
-          type: 'added',
-          content: newLine,
-          lineNumber: i + 1
-        });
-      } else if (oldLine && !newLine) {
-        changes.push({
-          type: 'removed',
-          content: oldLine,
-          lineNumber: i + 1
-        });
-      } else if (oldLine !== newLine) {
-        changes.push({
-          type: 'modified',
-          content: newLine,
-          lineNumber: i + 1
-        });
-      }
+    const cleanedCount = await this.store.deleteVersions(agendaId, latest.version - keepVersions + 1);
+    if (cleanedCount > 0) {
+      console.log(`Cleaned up ${cleanedCount} old versions for agenda ${agendaId}`);
     }
 
-    return changes;
+    return cleanedCount;
   }
 
-  private determineChangeLevel(changes: VersionComparison['changes']): 'major' | 'minor' | 'patch' {
-    const totalChanges = changes.length;
+  private determineChangeLevel(lines: AgendaDiffLine[], sections: AgendaSectionDiff[]): 'major' | 'minor' | 'patch' {
+    const changed = lines.filter(line => line.type !== 'unchanged').length;
 
-    if (totalChanges === 0) return 'patch';
+    if (changed === 0) return 'patch';
 
-    // Calculate change percentage
-    const addedLines = changes.filter(c => c.type === 'added').length;
-    const removedLines = changes.filter(c => c.type === 'removed').length;
-    const totalLineChanges = addedLines + removedLines;
+    // Share of the longer version's lines that changed
+    const oldLineCount = lines.filter(line => line.oldLineNumber !== undefined).length;
+    const newLineCount = lines.filter(line => line.newLineNumber !== undefined).length;
+    const changeRatio = changed / Math.max(oldLineCount, newLineCount, 1);
+    const restructured = sections.filter(s => s.status === 'added' || s.status === 'removed').length;
 
-    // If more than 30% of content changed, it's a major change
-    if (totalLineChanges > 10) {
+    // If more than 30% of content changed, or sections were reshuffled, it's a major change
+    if (changeRatio > 0.3 || restructured > 1) {
       return 'major';
     }
 
-    // If significant content was added or removed, it's minor
-    if (addedLines > 5 || removedLines > 5) {
+    // Adding or dropping a section, or a noticeable share of edits, is minor
+    if (changeRatio > 0.1 || restructured === 1) {
       return 'minor';
     }
 
@@ -263,14 +343,16 @@ export class AgendaVersionService {
   /**
    * Export version history for backup
    */
-  exportVersions(agendaId: string): {
+  async exportVersions(agendaId: string): Promise<{
     agendaId: string;
     exportedAt: Date;
     versions: AgendaVersion[];
-    stats: ReturnType<AgendaVersionService['getVersionStats']>;
-  } {
-    const versions = this.getVersions(agendaId);
-    const stats = this.getVersionStats(agendaId);
+    stats: Awaited<ReturnType<AgendaVersionService['getVersionStats']>>;
+  }> {
+    const [versions, stats] = await Promise.all([
+      this.store.listVersions(agendaId),
+      this.getVersionStats(agendaId)
+    ]);
 
     return {
       agendaId,
@@ -279,25 +361,7 @@ export class AgendaVersionService {
       stats
     };
   }
-
-  /**
-   * Import version history from backup
-   */
-  importVersions(agendaId: string, exportedData: ReturnType<AgendaVersionService['exportVersions']>): boolean {
-    try {
-      if (exportedData.agendaId !== agendaId) {
-        throw new Error('Agenda ID mismatch in import data');
-      }
-
-      this.versions.set(agendaId, exportedData.versions);
-      console.log(`Imported ${exportedData.versions.length} versions for agenda ${agendaId}`);
-      return true;
-    } catch (error) {
-      console.error('Failed to import versions:', error);
-      return false;
-    }
-  }
 }
 
 // Export singleton instance
-export const agendaVersionService = new AgendaVersionService();
\ No newline at end of file
+export const agendaVersionService = new AgendaVersionService();
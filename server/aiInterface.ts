@@ -1,41 +1,31 @@
 /**
  * Unified AI Interface Wrapper
- * 
- * FAST PATH ENABLED: Bypasses AI router for zero-latency direct Gemini calls
- * No circuit breakers, no retries, no fallbacks - just raw speed
+ *
+ * Every call goes through the AI router, which applies routing rules,
+ * fallbacks, output schemas and the per-user and per-team AI quotas.
  */
 
-import {
-    extractMeetingIntent as extractMeetingIntentDirect,
-    generateMeetingAgenda as generateMeetingAgendaDirect,
-    generateActionItems as generateActionItemsDirect,
-    getGeminiResponse as getGeminiResponseDirect,
-    verifyAttendees as verifyAttendeesDirect
-} from './gemini.js';
+import { generateMeetingAgenda as generateMeetingAgendaDirect } from './gemini.js';
 import {
     generateMeetingTitles as generateMeetingTitlesMistral,
     enhancePurposeWording as enhancePurposeWordingMistral
 } from './mistralService.js';
 import { aiRouter } from './aiRouterService.js';
+import { AIQuotaExceededError } from './aiQuotaService.js';
 import { MeetingExtraction, TitleSuggestion, ConversationMessage, MeetingData } from '../shared/schema.js';
 
 // Re-export types for convenience
 export type { MistralMessage, GeminiMessage } from './gemini.js';
 
 /**
- * Extract meeting intent - FAST PATH (direct Gemini call, no routing overhead)
+ * Extract meeting intent - Using AI router, so the extraction is validated (and repaired) against its schema
  */
 export async function extractMeetingIntent(
     userMessageOrMessages: string | ConversationMessage[],
     conversationContextOrEngine?: ConversationMessage[] | any,
     currentMeetingData?: MeetingData
 ): Promise<MeetingExtraction & { contextualConfidence: number; extractedFields?: any; missingFields?: string[] }> {
-    // Direct call to Gemini - bypasses all router overhead
-    return extractMeetingIntentDirect(
-        userMessageOrMessages,
-        conversationContextOrEngine,
-        currentMeetingData
-    );
+    return aiRouter.routeRequest('extractMeetingIntent', [userMessageOrMessages, conversationContextOrEngine, currentMeetingData]);
 }
 
 /**
@@ -50,6 +40,8 @@ export async function generateMeetingTitles(
         // Try AI router first
         return await aiRouter.routeRequest<TitleSuggestion>('generateMeetingTitles', [purpose, participants, context]);
     } catch (error) {
+        // Over quota, calling a provider directly would spend the allowance anyway
+        if (error instanceof AIQuotaExceededError) throw error;
         console.error('AI router failed for generateMeetingTitles, falling back to direct Mistral call:', error);
         try {
             // Try direct Mistral call
@@ -89,6 +81,7 @@ export async function enhancePurposeWording(
         // Try AI router first
         return await aiRouter.routeRequest<{ enhancedPurpose: string; keyPoints: string[] }>('enhancePurposeWording', [purpose, title, participants, context]);
     } catch (error) {
+        if (error instanceof AIQuotaExceededError) throw error;
         console.error('AI router failed for enhancePurposeWording, falling back to direct Mistral call:', error);
         try {
             // Try direct Mistral call
@@ -129,7 +122,7 @@ function generateBasicKeyPoints(purpose: string): string[] {
 }
 
 /**
- * Generate meeting agenda - FAST PATH (direct Gemini call)
+ * Generate meeting agenda - Using AI router, so AI quotas can answer with a template agenda
  */
 export async function generateMeetingAgenda(
     title: string,
@@ -138,11 +131,17 @@ export async function generateMeetingAgenda(
     duration: number,
     context: string = ''
 ): Promise<string> {
-    return generateMeetingAgendaDirect(title, purpose, participants, duration, context);
+    try {
+        return await aiRouter.routeRequest<string>('generateMeetingAgenda', [title, purpose, participants, duration, context]);
+    } catch (error) {
+        if (error instanceof AIQuotaExceededError) throw error;
+        console.error('AI router failed for generateMeetingAgenda, falling back to direct Gemini call:', error);
+        return generateMeetingAgendaDirect(title, purpose, participants, duration, context);
+    }
 }
 
 /**
- * Generate action items - FAST PATH (direct Gemini call)
+ * Generate action items - Using AI router, so the items are validated (and repaired) against their schema
  */
 export async function generateActionItems(
     title: string,
@@ -151,25 +150,25 @@ export async function generateActionItems(
     topics: string[],
     context: string = ''
 ): Promise<any[]> {
-    return generateActionItemsDirect(title, purpose, participants, topics, context);
+    return aiRouter.routeRequest<any[]>('generateActionItems', [title, purpose, participants, topics, context]);
 }
 
 /**
- * Get AI response - FAST PATH (direct Gemini call)
+ * Get AI response - Using AI router (Mistral primary, Gemini fallback)
  */
 export async function getGeminiResponse(messages: any[]): Promise<string> {
-    return getGeminiResponseDirect(messages);
+    return aiRouter.routeRequest<string>('getGeminiResponse', [messages]);
 }
 
 /**
- * Verify attendees - FAST PATH (direct Gemini call)
+ * Verify attendees - Using AI router (Mistral primary, Gemini fallback)
  */
 export async function verifyAttendees(emails: string[]): Promise<Array<{ email: string, valid: boolean, trusted: boolean }>> {
-    return verifyAttendeesDirect(emails);
+    return aiRouter.routeRequest<Array<{ email: string, valid: boolean, trusted: boolean }>>('verifyAttendees', [emails]);
 }
 
 /**
- * Backward compatible generateResponse function - FAST PATH
+ * Backward compatible generateResponse function - Using AI router
  */
 export async function generateResponse(
     messagesOrString: ConversationMessage[] | any[] | string,
@@ -178,7 +177,7 @@ export async function generateResponse(
     // Handle different function signatures for backward compatibility
     if (typeof messagesOrString === 'string') {
         // Simple string message - convert to message format
-        return getGeminiResponseDirect([{ role: 'user', content: messagesOrString }]);
+        return getGeminiResponse([{ role: 'user', content: messagesOrString }]);
     } else if (Array.isArray(messagesOrString)) {
         // Check if it's ConversationMessage[] or other message format
         const firstMessage = messagesOrString[0];
@@ -188,19 +187,19 @@ export async function generateResponse(
                 role: msg.role,
                 content: msg.content
             }));
-            return getGeminiResponseDirect(simpleMessages);
+            return getGeminiResponse(simpleMessages);
         } else {
             // Already in simple message format
-            return getGeminiResponseDirect(messagesOrString);
+            return getGeminiResponse(messagesOrString);
         }
     }
 
     // Fallback to empty message array
-    return getGeminiResponseDirect([]);
+    return getGeminiResponse([]);
 }
 
 /**
- * Get contextual response with conversation history - FAST PATH
+ * Get contextual response with conversation history - Using AI router
  */
 export async function getContextualResponse(conversationHistory: any[], userInput: string): Promise<string> {
     const messages = [
@@ -208,7 +207,7 @@ export async function getContextualResponse(conversationHistory: any[], userInpu
         { role: 'user' as const, content: userInput }
     ];
 
-    return getGeminiResponseDirect(messages);
+    return getGeminiResponse(messages);
 }
 
 // Additional utility functions that may be used by other parts of the system
@@ -217,12 +216,7 @@ export async function getContextualResponse(conversationHistory: any[], userInpu
  * Summarize conversation using AI router
  */
 export async function summarizeConversation(messages: ConversationMessage[]): Promise<string> {
-    // Import the original function and route it through the router
-    const { summarizeConversation: originalSummarize } = await import('./gemini.js');
-    
-    // For now, call the original function directly since it's not in the routing rules
-    // This can be added to routing rules later if needed
-    return originalSummarize(messages);
+    return aiRouter.routeRequest<string>('summarizeConversation', [messages]);
 }
 
 /**
@@ -232,12 +226,7 @@ export async function compressContext(
     fullContext: string,
     meetingData?: MeetingData
 ): Promise<string> {
-    // Import the original function and route it through the router
-    const { compressContext: originalCompress } = await import('./gemini.js');
-    
-    // For now, call the original function directly since it's not in the routing rules
-    // This can be added to routing rules later if needed
-    return originalCompress(fullContext, meetingData);
+    return aiRouter.routeRequest<string>('compressContext', [fullContext, meetingData]);
 }
 
 /**
@@ -252,12 +241,7 @@ export async function analyzeMultiTurnIntent(
     confidence: number;
     contextSupport: number;
 }> {
-    // Import the original function and route it through the router
-    const { analyzeMultiTurnIntent: originalAnalyze } = await import('./gemini.js');
-    
-    // For now, call the original function directly since it's not in the routing rules
-    // This can be added to routing rules later if needed
-    return originalAnalyze(conversation, currentMessage);
+    return aiRouter.routeRequest('analyzeMultiTurnIntent', [conversation, currentMessage]);
 }
 
 // Export the router instance for direct access if needed
@@ -0,0 +1,117 @@
+/**
+ * Output schemas for the functions the AI router serves.
+ *
+ * The router checks every provider response against the schema declared here.
+ * A response that does not match is sent back to the same provider with the
+ * validation errors, so the model can correct its own JSON, before the router
+ * gives up on that provider and moves down the fallback chain.
+ */
+
+import { z } from 'zod';
+import {
+    agendaActionItemSchema,
+    attendeeVerificationSchema,
+    meetingExtractionSchema,
+    titleSuggestionSchema
+} from '../shared/schema.js';
+
+// Attendee verification reports on addresses that are not valid too
+const verifiedAttendeeSchema = attendeeVerificationSchema.extend({ email: z.string() });
+
+export const extractedTimeSchema = z.object({
+    startTime: z.string().min(1),
+    endTime: z.string().nullish(),
+    confidence: z.number().min(0).max(1),
+    reasoning: z.string()
+});
+
+export const AI_OUTPUT_SCHEMAS: Record<string, z.ZodTypeAny> = {
+    // Gemini adds contextual confidence on top of the extraction
+    extractMeetingIntent: meetingExtractionSchema.passthrough(),
+    generateMeetingTitles: titleSuggestionSchema,
+    enhancePurposeWording: z.object({
+        enhancedPurpose: z.string().min(1),
+        keyPoints: z.array(z.string())
+    }),
+    generateMeetingAgenda: z.string(),
+    generateActionItems: z.array(agendaActionItemSchema.omit({ id: true })),
+    getGeminiResponse: z.string(),
+    generateBasicResponse: z.string(),
+    verifyAttendees: z.array(verifiedAttendeeSchema),
+    // No time found in the message
+    extractTimeFromNaturalLanguage: extractedTimeSchema.nullable(),
+    summarizeConversation: z.string(),
+    compressContext: z.string(),
+    analyzeMultiTurnIntent: z.object({
+        overallIntent: z.string(),
+        turnIntent: z.string(),
+        confidence: z.number(),
+        contextSupport: z.number()
+    })
+};
+
+export function getOutputSchema(functionName: string): z.ZodTypeAny | undefined {
+    return AI_OUTPUT_SCHEMAS[functionName];
+}
+
+/**
+ * Thrown by the router when a provider's output still fails its schema after repair
+ */
+export class AIOutputValidationError extends Error {
+    constructor(
+        public readonly functionName: string,
+        public readonly provider: string,
+        public readonly issues: string[]
+    ) {
+        super(`${provider} returned invalid output for ${functionName}: ${issues.join('; ')}`);
+        this.name = 'AIOutputValidationError';
+    }
+}
+
+/**
+ * Validation errors as short "path: message" lines the model can act on
+ */
+export function formatSchemaIssues(error: z.ZodError): string[] {
+    return error.issues.map(issue => `${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`);
+}
+
+/**
+ * Chat messages asking a model to correct output that failed validation
+ */
+export function buildRepairMessages(
+    functionName: string,
+    output: unknown,
+    issues: string[]
+): Array<{ role: 'system' | 'user'; content: string }> {
+    return [
+        {
+            role: 'system',
+            content: 'You correct JSON produced for a calendar assistant. Reply with the corrected JSON only, without markdown or explanations.'
+        },
+        {
+            role: 'user',
+            content: [
+                `This output of ${functionName} failed validation:`,
+                typeof output === 'string' ? output : JSON.stringify(output, null, 2),
+                '',
+                'Errors:',
+                ...issues.map(issue => `- ${issue}`),
+                '',
+                'Return the output again with these errors fixed, keeping every correct value unchanged.'
+            ].join('\n')
+        }
+    ];
+}
+
+/**
+ * Reads a repair reply: plain text for text schemas, otherwise the JSON in it
+ */
+export function parseRepairedOutput(reply: string, schema: z.ZodTypeAny): unknown {
+    if (schema instanceof z.ZodString) {
+        return reply.trim();
+    }
+
+    const cleaned = reply.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
+    const json = cleaned.match(/\{[\s\S]*\}|\[[\s\S]*\]/);
+    return JSON.parse(json ? json[0] : cleaned);
+}
@@ -0,0 +1,416 @@
+/**
+ * AI providers the router can send requests to.
+ *
+ * Gemini and Mistral wrap the existing service modules. An OpenAI-compatible
+ * endpoint and a local Ollama or llama.cpp server are registered when their base
+ * URL is configured, and the offline provider is always available: it answers
+ * every function with fixed output, for development without API keys.
+ */
+
+export type TextChunkHandler = (chunk: string) => void;
+
+export interface AIProviderCapabilities {
+    functions: string[];     // Router functions the provider can serve
+    streaming: string[];     // Functions whose text output can be streamed
+    local: boolean;          // Requests never leave this machine or network
+    deterministic: boolean;  // Same input, same output (no model behind it)
+}
+
+export interface AIProvider {
+    name: string;
+    model: string;
+    capabilities: AIProviderCapabilities;
+    call(functionName: string, args: any[]): Promise<any>;
+    // Streams the text of a function listed in capabilities.streaming, resolving with the full text
+    stream?(functionName: string, args: any[], onChunk: TextChunkHandler): Promise<string>;
+    checkHealth?(): Promise<boolean>;
+}
+
+interface ChatMessage {
+    role: 'user' | 'assistant' | 'system';
+    content: string;
+}
+
+const GEMINI_FUNCTIONS = [
+    'extractMeetingIntent',
+    'generateMeetingTitles',
+    'enhancePurposeWording',
+    'generateMeetingAgenda',
+    'generateActionItems',
+    'getGeminiResponse',
+    'verifyAttendees',
+    'extractTimeFromNaturalLanguage',
+    'summarizeConversation',
+    'compressContext',
+    'analyzeMultiTurnIntent'
+];
+
+const MISTRAL_FUNCTIONS = [
+    'getGeminiResponse',
+    'verifyAttendees',
+    'generateBasicResponse',
+    'generateMeetingTitles',
+    'enhancePurposeWording',
+    'extractTimeFromNaturalLanguage'
+];
+
+// Chat completion endpoints only get free-form conversation; the structured
+// functions rely on prompts tuned for Gemini and Mistral
+const CHAT_FUNCTIONS = ['getGeminiResponse', 'generateBasicResponse'];
+
+function toChatMessages(functionName: string, args: any[], providerName: string): ChatMessage[] {
+    switch (functionName) {
+        case 'getGeminiResponse':
+            return args[0] || [];
+        case 'generateBasicResponse':
+            return [{ role: 'user', content: String(args[0] ?? '') }];
+        default:
+            throw new Error(`Function ${functionName} not supported by ${providerName}`);
+    }
+}
+
+export const OFFLINE_RESPONSE = 'The AI assistant is offline right now. You can still schedule meetings using the forms.';
+
+export const geminiProvider: AIProvider = {
+    name: 'gemini',
+    model: 'gemini-pro',
+    capabilities: { functions: GEMINI_FUNCTIONS, streaming: ['getGeminiResponse'], local: false, deterministic: false },
+
+    async call(functionName, args) {
+        // Imported on use to avoid circular dependencies
+        const geminiService: any = await import('./gemini.js');
+        switch (functionName) {
+            case 'extractMeetingIntent':
+                return geminiService.extractMeetingIntent(...args);
+            case 'generateMeetingTitles':
+                return geminiService.generateMeetingTitles(...args);
+            case 'enhancePurposeWording':
+                return geminiService.enhancePurposeWording(...args);
+            case 'generateMeetingAgenda':
+                return geminiService.generateMeetingAgenda(...args);
+            case 'generateActionItems':
+                return geminiService.generateActionItems(...args);
+            case 'getGeminiResponse':
+                return geminiService.getGeminiResponse(...args);
+            case 'verifyAttendees':
+                return geminiService.verifyAttendees(...args);
+            case 'extractTimeFromNaturalLanguage': {
+                const { extractTimeFromNaturalLanguage } = await import('./geminiTimeExtractor.js');
+                return extractTimeFromNaturalLanguage(args[0], args[1]);
+            }
+            case 'summarizeConversation':
+                return geminiService.summarizeConversation(...args);
+            case 'compressContext':
+                return geminiService.compressContext(...args);
+            case 'analyzeMultiTurnIntent':
+                return geminiService.analyzeMultiTurnIntent(...args);
+            default:
+                throw new Error(`Unknown function: ${functionName}`);
+        }
+    },
+
+    async stream(functionName, args, onChunk) {
+        if (functionName !== 'getGeminiResponse') {
+            throw new Error(`Function ${functionName} cannot be streamed by gemini`);
+        }
+        const { streamGeminiResponse } = await import('./gemini.js');
+        return streamGeminiResponse(args[0] || [], onChunk);
+    },
+
+    async checkHealth() {
+        const geminiService: any = await import('./gemini.js');
+        // A lightweight call verifies Gemini is responsive
+        if (typeof geminiService.getGeminiResponse === 'function') {
+            await geminiService.getGeminiResponse('ping', 'health-check');
+        }
+        return true;
+    }
+};
+
+export const mistralProvider: AIProvider = {
+    name: 'mistral',
+    model: 'mistral-small-latest',
+    capabilities: { functions: MISTRAL_FUNCTIONS, streaming: CHAT_FUNCTIONS, local: false, deterministic: false },
+
+    async call(functionName, args) {
+        const mistralService: any = await import('./mistralService.js');
+        switch (functionName) {
+            case 'getGeminiResponse':
+                return mistralService.getGeminiResponse(...args);
+            case 'verifyAttendees':
+                return mistralService.verifyAttendees(...args);
+            case 'generateBasicResponse':
+                return mistralService.generateBasicResponse(...args);
+            case 'generateMeetingTitles':
+                return mistralService.generateMeetingTitles(...args);
+            case 'enhancePurposeWording':
+                return mistralService.enhancePurposeWording(...args);
+            case 'extractTimeFromNaturalLanguage': {
+                const { extractTimeFromNaturalLanguage } = await import('./mistralTimeExtractor.js');
+                return extractTimeFromNaturalLanguage(args[0], args[1]);
+            }
+            default:
+                throw new Error(`Function ${functionName} not supported by mistral`);
+        }
+    },
+
+    async stream(functionName, args, onChunk) {
+        const { streamResponse } = await import('./mistralService.js');
+        return streamResponse(toChatMessages(functionName, args, 'mistral'), onChunk);
+    },
+
+    async checkHealth() {
+        const mistralService: any = await import('./mistralService.js');
+        if (typeof mistralService.getServiceHealth === 'function') {
+            return (await mistralService.getServiceHealth()).available;
+        }
+        return true;
+    }
+};
+
+export interface OpenAICompatibleProviderOptions {
+    name: string;
+    baseUrl: string;        // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+    model: string;
+    apiKey?: string;
+    local?: boolean;
+    fetch?: typeof fetch;
+}
+
+/**
+ * A provider for any server speaking the OpenAI chat completions API. Ollama
+ * and llama.cpp serve the same API under /v1, so local models use it too.
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleProviderOptions): AIProvider {
+    const baseUrl = options.baseUrl.replace(/\/+$/, '');
+    const fetchImpl = options.fetch ?? fetch;
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (options.apiKey) {
+        headers.Authorization = `Bearer ${options.apiKey}`;
+    }
+
+    const post = async (messages: ChatMessage[], stream: boolean): Promise<Response> => {
+        const response = await fetchImpl(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(stream ? { model: options.model, messages, stream } : { model: options.model, messages })
+        });
+
+        if (!response.ok) {
+            // The status lets the error handler classify rate limits and outages
+            const error = new Error(`${options.name} request failed with status ${response.status}`);
+            (error as any).status = response.status;
+            throw error;
+        }
+        return response;
+    };
+
+    const complete = async (messages: ChatMessage[]): Promise<string> => {
+        const response = await post(messages, false);
+        const data = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+        const content = data.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new Error(`${options.name} returned no message content`);
+        }
+        return content.trim();
+    };
+
+    // Server-sent events: "data: {json}" lines carrying content deltas, ending with "data: [DONE]"
+    const completeStreaming = async (messages: ChatMessage[], onChunk: TextChunkHandler): Promise<string> => {
+        const response = await post(messages, true);
+        if (!response.body) {
+            throw new Error(`${options.name} returned no response body`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffered = '';
+        let content = '';
+
+        for (;;) {
+            const { done, value } = await reader.read();
+            buffered += decoder.decode(value, { stream: !done });
+
+            const lines = buffered.split('\n');
+            buffered = done ? '' : lines.pop() || '';
+
+            for (const line of lines.map(line => line.trim())) {
+                if (!line.startsWith('data:')) continue;
+                const data = line.slice('data:'.length).trim();
+                if (data === '[DONE]') continue;
+
+                const delta = (JSON.parse(data) as { choices?: Array<{ delta?: { content?: string } }> }).choices?.[0]?.delta?.content;
+                if (delta) {
+                    content += delta;
+                    onChunk(delta);
+                }
+            }
+
+            if (done) break;
+        }
+
+        return content.trim();
+    };
+
+    return {
+        name: options.name,
+        model: options.model,
+        capabilities: { functions: CHAT_FUNCTIONS, streaming: CHAT_FUNCTIONS, local: !!options.local, deterministic: false },
+
+        async call(functionName, args) {
+            return complete(toChatMessages(functionName, args, options.name));
+        },
+
+        async stream(functionName, args, onChunk) {
+            return completeStreaming(toChatMessages(functionName, args, options.name), onChunk);
+        },
+
+        async checkHealth() {
+            const response = await fetchImpl(`${baseUrl}/models`, { headers });
+            return response.ok;
+        }
+    };
+}
+
+/**
+ * Fixed answers for every router function: no intent is detected, titles and
+ * agendas are built from the input and attendees are checked by format only.
+ */
+export function createOfflineProvider(name: string = 'offline'): AIProvider {
+    return {
+        name,
+        model: 'offline',
+        capabilities: { functions: [...GEMINI_FUNCTIONS, 'generateBasicResponse'], streaming: [], local: true, deterministic: true },
+
+        async call(functionName, args) {
+            switch (functionName) {
+                case 'extractMeetingIntent':
+                    return {
+                        intent: 'other',
+                        confidence: 0,
+                        fields: { participants: [] },
+                        missing: [],
+                        contextualConfidence: 0
+                    };
+                case 'generateMeetingTitles': {
+                    const purpose = String(args[0] ?? '').trim();
+                    const fromPurpose = purpose ? purpose.charAt(0).toUpperCase() + purpose.slice(1, 60) : 'Team Meeting';
+                    return {
+                        suggestions: [fromPurpose, 'Discussion Session', 'Project Sync'],
+                        context: 'Offline suggestions'
+                    };
+                }
+                case 'enhancePurposeWording':
+                    return { enhancedPurpose: String(args[0] ?? ''), keyPoints: [] };
+                case 'generateMeetingAgenda': {
+                    const [title, purpose, , duration] = args;
+                    return [
+                        `# ${title || 'Meeting'}`,
+                        '',
+                        purpose ? `Purpose: ${purpose}` : undefined,
+                        duration ? `Duration: ${duration} minutes` : undefined,
+                        '',
+                        '1. Introductions',
+                        '2. Discussion',
+                        '3. Next steps'
+                    ].filter(line => line !== undefined).join('\n');
+                }
+                case 'generateActionItems':
+                    return [];
+                case 'getGeminiResponse':
+                case 'generateBasicResponse':
+                    return OFFLINE_RESPONSE;
+                case 'verifyAttendees':
+                    return (args[0] as string[] || []).map(email => ({
+                        email,
+                        valid: /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email),
+                        trusted: false
+                    }));
+                case 'extractTimeFromNaturalLanguage':
+                    return null;
+                case 'summarizeConversation':
+                    return (args[0] as Array<{ role: string; content: string }> || [])
+                        .slice(-10)
+                        .map(message => `${message.role}: ${message.content}`)
+                        .join('\n');
+                case 'compressContext':
+                    return String(args[0] ?? '');
+                case 'analyzeMultiTurnIntent':
+                    return { overallIntent: 'other', turnIntent: 'new_topic', confidence: 0, contextSupport: 0 };
+                default:
+                    throw new Error(`Unknown function: ${functionName}`);
+            }
+        }
+    };
+}
+
+/**
+ * Providers by name. Routing rules refer to providers by these names.
+ */
+export class AIProviderRegistry {
+    private providers = new Map<string, AIProvider>();
+
+    constructor(providers: AIProvider[] = []) {
+        providers.forEach(provider => this.register(provider));
+    }
+
+    /**
+     * Add a provider; registering a name again replaces the earlier provider
+     */
+    register(provider: AIProvider): void {
+        this.providers.set(provider.name, provider);
+    }
+
+    unregister(name: string): boolean {
+        return this.providers.delete(name);
+    }
+
+    get(name: string): AIProvider | undefined {
+        return this.providers.get(name);
+    }
+
+    has(name: string): boolean {
+        return this.providers.has(name);
+    }
+
+    names(): string[] {
+        return Array.from(this.providers.keys());
+    }
+
+    list(): AIProvider[] {
+        return Array.from(this.providers.values());
+    }
+
+    supports(name: string, functionName: string): boolean {
+        return this.providers.get(name)?.capabilities.functions.includes(functionName) ?? false;
+    }
+}
+
+/**
+ * The built-in providers, plus the HTTP ones whose base URL is set
+ */
+export function createDefaultProviderRegistry(env: NodeJS.ProcessEnv = process.env): AIProviderRegistry {
+    const registry = new AIProviderRegistry([geminiProvider, mistralProvider, createOfflineProvider()]);
+
+    if (env.OPENAI_COMPATIBLE_BASE_URL) {
+        registry.register(createOpenAICompatibleProvider({
+            name: 'openai',
+            baseUrl: env.OPENAI_COMPATIBLE_BASE_URL,
+            model: env.OPENAI_COMPATIBLE_MODEL || 'gpt-4o-mini',
+            apiKey: env.OPENAI_COMPATIBLE_API_KEY
+        }));
+    }
+
+    if (env.LOCAL_AI_BASE_URL) {
+        registry.register(createOpenAICompatibleProvider({
+            name: 'local',
+            baseUrl: env.LOCAL_AI_BASE_URL,
+            model: env.LOCAL_AI_MODEL || 'llama3.1',
+            local: true
+        }));
+    }
+
+    return registry;
+}
+
+export const aiProviderRegistry = createDefaultProviderRegistry();
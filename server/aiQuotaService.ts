@@ -0,0 +1,415 @@
+/**
+ * Per-user and per-team AI quotas.
+ *
+ * Every routed AI call made while handling a signed-in user's request is
+ * charged to that user and to their team, the domain of their email address
+ * (users of public email providers have no team), in tokens and in estimated cost. Limits apply over a rolling window. Close
+ * to a limit the router switches to the cheapest provider it may use; past it
+ * the router answers from templates or with a quota message instead of
+ * calling a model. Usage is stored in the ai_usage table, so limits hold
+ * across restarts and server instances.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { and, eq, gte, lt, sql } from 'drizzle-orm';
+import { db } from './storage.js';
+import { aiUsage } from '../shared/schema.js';
+import { agendaTemplateService } from './agendaTemplates.js';
+import { performanceMonitor } from './performanceMonitor.js';
+import { usageAnalytics } from './usageAnalyticsService.js';
+
+export interface AIQuotaSubject {
+    userId: string;
+    email?: string;
+    team?: string;
+}
+
+// Unset limits are not enforced
+export interface AIQuotaLimits {
+    tokens?: number;
+    cost?: number;  // Estimated USD
+}
+
+export interface AIQuotaSettings {
+    windowHours: number;
+    degradeAt: number;  // Share of a limit from which cheaper models are used
+    user: AIQuotaLimits;
+    team: AIQuotaLimits;
+    adminEmails: string[];
+}
+
+export type AIQuotaStatus = 'ok' | 'degraded' | 'exceeded';
+
+export interface AIQuotaCheck {
+    status: AIQuotaStatus;
+    scope?: 'user' | 'team';
+    metric?: 'tokens' | 'cost';
+    used?: number;
+    limit?: number;
+    message?: string;
+}
+
+export interface AIUsageSummary {
+    id: string;  // User id, or team domain
+    email?: string;
+    team?: string;
+    requests: number;
+    tokens: number;
+    cost: number;
+    status: AIQuotaStatus;
+}
+
+export interface AIUsageReport {
+    windowHours: number;
+    limits: { user: AIQuotaLimits; team: AIQuotaLimits };
+    users: AIUsageSummary[];
+    teams: AIUsageSummary[];
+}
+
+export interface AIUsageEntry {
+    userId: string;
+    email?: string;
+    team?: string;
+    functionName: string;
+    provider: string;
+    tokens: number;
+    cost: number;
+    createdAt: Date;
+}
+
+export interface AIUsageTotals {
+    requests: number;
+    tokens: number;
+    cost: number;
+}
+
+export interface AIUserUsageTotals extends AIUsageTotals {
+    userId: string;
+    email?: string;
+    team?: string;
+}
+
+/**
+ * Storage for charged usage, so limits hold across restarts and instances. Tests pass an in-memory implementation.
+ */
+export interface AIUsageStore {
+    insertUsage(entry: AIUsageEntry): Promise<void>;
+    // Usage since `since` of one user or one team
+    sumUsage(since: Date, owner: { userId: string } | { team: string }): Promise<AIUsageTotals>;
+    // Usage since `since` per user
+    listUserTotals(since: Date): Promise<AIUserUsageTotals[]>;
+    deleteUsageBefore(cutoff: Date): Promise<void>;
+}
+
+const totalColumns = {
+    requests: sql<number>`count(*)`.mapWith(Number),
+    tokens: sql<number>`coalesce(sum(${aiUsage.tokens}), 0)`.mapWith(Number),
+    cost: sql<number>`coalesce(sum(${aiUsage.cost}), 0)`.mapWith(Number)
+};
+
+export const databaseAIUsageStore: AIUsageStore = {
+    async insertUsage(entry) {
+        await db.insert(aiUsage).values(entry);
+    },
+
+    async sumUsage(since, owner) {
+        const ownerFilter = 'userId' in owner ? eq(aiUsage.userId, owner.userId) : eq(aiUsage.team, owner.team);
+        const [totals] = await db.select(totalColumns)
+            .from(aiUsage)
+            .where(and(ownerFilter, gte(aiUsage.createdAt, since)));
+        return totals ?? { requests: 0, tokens: 0, cost: 0 };
+    },
+
+    async listUserTotals(since) {
+        const rows = await db.select({
+            userId: aiUsage.userId,
+            email: sql<string | null>`max(${aiUsage.email})`,
+            team: sql<string | null>`max(${aiUsage.team})`,
+            ...totalColumns
+        })
+            .from(aiUsage)
+            .where(gte(aiUsage.createdAt, since))
+            .groupBy(aiUsage.userId);
+        return rows.map(row => ({ ...row, email: row.email ?? undefined, team: row.team ?? undefined }));
+    },
+
+    async deleteUsageBefore(cutoff) {
+        await db.delete(aiUsage).where(lt(aiUsage.createdAt, cutoff));
+    }
+};
+
+interface LimitShare {
+    share: number;
+    metric?: 'tokens' | 'cost';
+    used?: number;
+    limit?: number;
+}
+
+// Usage is kept at least this long for the admin report
+const USAGE_RETENTION_HOURS = 24 * 7;
+const USAGE_PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Thrown by the router for a request over quota that has no template answer
+ */
+export class AIQuotaExceededError extends Error {
+    constructor(public readonly check: AIQuotaCheck) {
+        super(check.message || 'AI quota exceeded');
+        this.name = 'AIQuotaExceededError';
+    }
+}
+
+function readLimit(value: string | undefined): number | undefined {
+    const limit = Number(value);
+    return value && Number.isFinite(limit) && limit > 0 ? limit : undefined;
+}
+
+/**
+ * Reads the AI_QUOTA_* variables and ADMIN_EMAILS
+ */
+export function loadQuotaSettings(env: Record<string, string | undefined>): AIQuotaSettings {
+    const degradeAt = Number(env.AI_QUOTA_DEGRADE_AT);
+    return {
+        windowHours: readLimit(env.AI_QUOTA_WINDOW_HOURS) ?? 24,
+        degradeAt: degradeAt > 0 && degradeAt <= 1 ? degradeAt : 0.8,
+        user: { tokens: readLimit(env.AI_QUOTA_USER_TOKENS), cost: readLimit(env.AI_QUOTA_USER_COST) },
+        team: { tokens: readLimit(env.AI_QUOTA_TEAM_TOKENS), cost: readLimit(env.AI_QUOTA_TEAM_COST) },
+        adminEmails: (env.ADMIN_EMAILS || '').split(',').map(email => email.trim().toLowerCase()).filter(Boolean)
+    };
+}
+
+// Domains shared by unrelated people, which therefore do not identify a team
+const PUBLIC_EMAIL_DOMAINS = new Set([
+    'gmail.com', 'googlemail.com', 'outlook.com', 'hotmail.com', 'live.com', 'msn.com',
+    'yahoo.com', 'ymail.com', 'icloud.com', 'me.com', 'mac.com', 'aol.com',
+    'proton.me', 'protonmail.com', 'gmx.com', 'gmx.de', 'web.de', 'mail.com', 'zoho.com', 'yandex.com'
+]);
+
+/**
+ * The user's team: the domain of their email address, or none for public email providers
+ */
+export function teamForEmail(email: string | undefined): string | undefined {
+    const domain = email?.split('@')[1]?.toLowerCase();
+    return domain && !PUBLIC_EMAIL_DOMAINS.has(domain) ? domain : undefined;
+}
+
+function formatAmount(metric: 'tokens' | 'cost', value: number): string {
+    return metric === 'cost' ? `$${value.toFixed(2)}` : `${Math.round(value).toLocaleString('en-US')} tokens`;
+}
+
+// What an over-quota request gets instead of a model answer; undefined when there is none
+const QUOTA_FALLBACKS: Record<string, (args: any[], check: AIQuotaCheck) => unknown> = {
+    generateMeetingAgenda: ([title, purpose, _participants, duration]) => {
+        const [template] = agendaTemplateService.suggestTemplates(purpose || title || '', duration);
+        return template
+            ? agendaTemplateService.generateAgendaFromTemplate(template.id, { title, duration, enhancedPurpose: purpose })
+            : undefined;
+    },
+    getGeminiResponse: (_args, check) => check.message,
+    generateBasicResponse: (_args, check) => check.message,
+    verifyAttendees: ([emails]) => (emails as string[] || []).map(email => ({
+        email,
+        valid: /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email),
+        trusted: false
+    })),
+    // Context upkeep carries on without the model
+    summarizeConversation: ([messages]) => (messages as Array<{ role: string; content: string }> || [])
+        .slice(-10)
+        .map(message => `${message.role}: ${message.content}`)
+        .join('\n'),
+    compressContext: ([fullContext]) => fullContext,
+    analyzeMultiTurnIntent: () => ({ overallIntent: 'other', turnIntent: 'new_topic', confidence: 0, contextSupport: 0 })
+};
+
+export class AIQuotaService {
+    private subjects = new AsyncLocalStorage<AIQuotaSubject>();
+    private lastPrunedAt = 0;
+
+    constructor(
+        private settings: AIQuotaSettings = loadQuotaSettings(process.env),
+        private store: AIUsageStore = databaseAIUsageStore,
+        private now: () => number = Date.now
+    ) {}
+
+    /**
+     * Runs `fn` with AI calls made inside it charged to `subject`
+     */
+    runAs<T>(subject: AIQuotaSubject, fn: () => T): T {
+        return this.subjects.run({ ...subject, team: subject.team ?? teamForEmail(subject.email) }, fn);
+    }
+
+    currentSubject(): AIQuotaSubject | undefined {
+        return this.subjects.getStore();
+    }
+
+    getSettings(): AIQuotaSettings {
+        return this.settings;
+    }
+
+    isAdmin(email: string | undefined): boolean {
+        return !!email && this.settings.adminEmails.includes(email.toLowerCase());
+    }
+
+    /**
+     * Charges a call's tokens to the current subject. Providers without pricing cost nothing.
+     * Failing to store usage is logged rather than failing the call it was for.
+     */
+    async recordUsage(functionName: string, provider: string, tokens: { input: number; output: number }): Promise<void> {
+        const subject = this.currentSubject();
+        if (!subject) return;
+
+        const now = this.now();
+        try {
+            await this.store.insertUsage({
+                userId: subject.userId,
+                email: subject.email,
+                team: subject.team,
+                functionName,
+                provider,
+                tokens: tokens.input + tokens.output,
+                cost: usageAnalytics.estimateCost(provider, tokens) ?? 0,
+                createdAt: new Date(now)
+            });
+
+            if (now - this.lastPrunedAt >= USAGE_PRUNE_INTERVAL_MS) {
+                this.lastPrunedAt = now;
+                const retentionHours = Math.max(this.settings.windowHours, USAGE_RETENTION_HOURS);
+                await this.store.deleteUsageBefore(new Date(now - retentionHours * 60 * 60 * 1000));
+            }
+        } catch (error) {
+            console.error(`Failed to record AI usage for ${functionName}:`, error);
+        }
+    }
+
+    /**
+     * Runs an AI call the router does not make under the current subject's quota: over quota it
+     * throws AIQuotaExceededError without calling, otherwise the call's estimated tokens are charged.
+     */
+    async meter<T>(functionName: string, provider: string, input: string, call: () => Promise<T>): Promise<T> {
+        const quota = await this.check();
+        if (quota.status === 'exceeded') {
+            throw new AIQuotaExceededError(quota);
+        }
+
+        const result = await call();
+        const output = typeof result === 'string' ? result : JSON.stringify(result) ?? '';
+        await this.recordUsage(functionName, provider, {
+            input: performanceMonitor.estimateTokenCount(input),
+            output: performanceMonitor.estimateTokenCount(output)
+        });
+        return result;
+    }
+
+    /**
+     * How close the subject is to their own and their team's limits
+     */
+    async check(subject: AIQuotaSubject | undefined = this.currentSubject()): Promise<AIQuotaCheck> {
+        // Without limits there is nothing to look up
+        const limited = [this.settings.user, this.settings.team].some(limits => limits.tokens !== undefined || limits.cost !== undefined);
+        if (!subject || !limited) {
+            return { status: 'ok' };
+        }
+
+        const team = subject.team ?? teamForEmail(subject.email);
+        const windowStart = this.windowStart(this.settings.windowHours);
+        const usage: Array<LimitShare & { scope: 'user' | 'team' }> = [];
+        try {
+            usage.push({ scope: 'user', ...this.limitShare(await this.store.sumUsage(windowStart, { userId: subject.userId }), this.settings.user) });
+            if (team) {
+                usage.push({ scope: 'team', ...this.limitShare(await this.store.sumUsage(windowStart, { team }), this.settings.team) });
+            }
+        } catch (error) {
+            // Unreadable usage does not take AI features down with it
+            console.error('Failed to read AI usage, not applying quotas:', error);
+            return { status: 'ok' };
+        }
+
+        const worst = usage.reduce((a, b) => (b.share > a.share ? b : a));
+        if (worst.share === 0) {
+            return { status: 'ok' };
+        }
+
+        const { share, ...limit } = worst;
+        const check: AIQuotaCheck = { status: this.statusFor(share), ...limit };
+        if (check.status === 'exceeded') {
+            check.message = this.exceededMessage(check, subject);
+        }
+        return check;
+    }
+
+    /**
+     * The answer an over-quota request gets in place of a model call, if it has one
+     */
+    fallbackFor(functionName: string, args: any[], check: AIQuotaCheck): { value: unknown } | undefined {
+        const value = QUOTA_FALLBACKS[functionName]?.(args, check);
+        return value !== undefined ? { value } : undefined;
+    }
+
+    /**
+     * Consumption per user and per team over the last `timeRangeHours`, heaviest first
+     */
+    async getUsageReport(timeRangeHours: number = this.settings.windowHours): Promise<AIUsageReport> {
+        const users: AIUsageSummary[] = [];
+        const teams = new Map<string, AIUsageSummary>();
+
+        for (const totals of await this.store.listUserTotals(this.windowStart(timeRangeHours))) {
+            // Status always reflects the quota window, whatever range is reported
+            const status = (await this.check({ userId: totals.userId, team: totals.team })).status;
+            users.push({ id: totals.userId, email: totals.email, team: totals.team, requests: totals.requests, tokens: totals.tokens, cost: totals.cost, status });
+
+            if (totals.team) {
+                const team = teams.get(totals.team) || { id: totals.team, requests: 0, tokens: 0, cost: 0, status: 'ok' };
+                team.requests += totals.requests;
+                team.tokens += totals.tokens;
+                team.cost += totals.cost;
+                teams.set(totals.team, team);
+            }
+        }
+
+        const windowStart = this.windowStart(this.settings.windowHours);
+        for (const team of teams.values()) {
+            team.status = this.statusFor(this.limitShare(await this.store.sumUsage(windowStart, { team: team.id }), this.settings.team).share);
+        }
+
+        const byTokens = (a: AIUsageSummary, b: AIUsageSummary) => b.tokens - a.tokens;
+        return {
+            windowHours: this.settings.windowHours,
+            limits: { user: this.settings.user, team: this.settings.team },
+            users: users.sort(byTokens),
+            teams: Array.from(teams.values()).sort(byTokens)
+        };
+    }
+
+    private windowStart(hours: number): Date {
+        return new Date(this.now() - hours * 60 * 60 * 1000);
+    }
+
+    // The limit the usage has taken the largest share of
+    private limitShare(totals: AIUsageTotals, limits: AIQuotaLimits): LimitShare {
+        let result: LimitShare = { share: 0 };
+        for (const metric of ['tokens', 'cost'] as const) {
+            const limit = limits[metric];
+            if (limit === undefined) continue;
+
+            const used = totals[metric];
+            if (used / limit > result.share) {
+                result = { share: used / limit, metric, used, limit };
+            }
+        }
+        return result;
+    }
+
+    private statusFor(share: number): AIQuotaStatus {
+        if (share >= 1) return 'exceeded';
+        return share >= this.settings.degradeAt ? 'degraded' : 'ok';
+    }
+
+    private exceededMessage(check: AIQuotaCheck, subject: AIQuotaSubject): string {
+        const who = check.scope === 'team' ? `Your team (${subject.team ?? teamForEmail(subject.email)}) has used its` : 'You have used your';
+        const amount = `${formatAmount(check.metric!, check.used!)} of ${formatAmount(check.metric!, check.limit!)}`;
+        return `${who} AI allowance for the last ${this.settings.windowHours} hours (${amount}). ` +
+            'It frees up as older usage ages out of that window.';
+    }
+}
+
+export const aiQuota = new AIQuotaService();
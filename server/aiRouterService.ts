@@ -1,13 +1,28 @@
 
-import { aiServiceErrorHandler } from './errorHandlers/aiServiceErrorHandler.js';
-import { aiRoutingConfigManager, AIRoutingConfiguration } from './config/aiRoutingConfig.js';
+import { aiServiceErrorHandler, AIErrorType } from './errorHandlers/aiServiceErrorHandler.js';
+import {
+    aiRoutingConfigManager,
+    AIRoutingConfiguration,
+    CircuitBreakerSettings,
+    DEFAULT_CIRCUIT_BREAKER_SETTINGS,
+    getFallbackChain
+} from './config/aiRoutingConfig.js';
+import { aiProviderRegistry, AIProvider, AIProviderRegistry, TextChunkHandler } from './aiProviderRegistry.js';
+import {
+    AIOutputValidationError,
+    buildRepairMessages,
+    formatSchemaIssues,
+    getOutputSchema,
+    parseRepairedOutput
+} from './aiOutputSchemas.js';
 import { usageAnalytics } from './usageAnalyticsService.js';
 import { performanceMonitor } from './performanceMonitor.js';
 import { aiRoutingLogger } from './aiRoutingLogger.js';
+import { aiQuota, AIQuotaCheck, AIQuotaExceededError, AIQuotaService } from './aiQuotaService.js';
 
 // Core interfaces for the AI router service
 export interface RoutingOptions {
-    forceModel?: 'gemini' | 'mistral';
+    forceModel?: string;
     enableFallback?: boolean;
     timeout?: number;
 }
@@ -32,9 +47,11 @@ export interface ErrorResponse {
     fallbackResponse?: any;
 }
 
+// Models are provider names from the AI provider registry
 export interface RoutingRule {
-    primaryModel: 'gemini' | 'mistral';
-    fallbackModel?: 'gemini' | 'mistral';
+    primaryModel: string;
+    fallbackModel?: string;
+    fallbackModels?: string[]; // Tried in order when the primary model fails
     enableFallback: boolean;
     timeout: number;
 }
@@ -43,37 +60,26 @@ export interface RoutingRules {
     [functionName: string]: RoutingRule;
 }
 
-export interface ServiceHealthStatus {
-    gemini: {
-        available: boolean;
-        lastCheck: Date;
-        responseTime?: number;
-        circuitBreaker: CircuitBreakerState;
-    };
-    mistral: {
-        available: boolean;
-        lastCheck: Date;
-        responseTime?: number;
-        circuitBreaker: CircuitBreakerState;
-    };
+export interface ProviderHealth {
+    available: boolean;
+    lastCheck: Date;
+    responseTime?: number;
+    circuitBreaker: CircuitBreakerState;
+}
+
+export type ServiceHealthStatus = Record<string, ProviderHealth>;
+
+export interface ProviderUsageStats {
+    totalRequests: number;
+    totalTokens: number;
+    averageResponseTime: number;
+    successRate: number;
+    costEstimate?: number;
+    functionBreakdown: Record<string, FunctionStats>;
 }
 
 export interface UsageStatistics {
-    gemini: {
-        totalRequests: number;
-        totalTokens: number;
-        averageResponseTime: number;
-        successRate: number;
-        costEstimate: number;
-        functionBreakdown: Record<string, FunctionStats>;
-    };
-    mistral: {
-        totalRequests: number;
-        totalTokens: number;
-        averageResponseTime: number;
-        successRate: number;
-        functionBreakdown: Record<string, FunctionStats>;
-    };
+    providers: Record<string, ProviderUsageStats>;
     routing: {
         totalRoutingDecisions: number;
         fallbacksTriggered: number;
@@ -95,10 +101,18 @@ export class AIRouterService {
     private usageStats: UsageStatistics;
     private serviceHealth: ServiceHealthStatus;
     private config: AIRoutingConfiguration;
-
-    constructor(config?: AIRoutingConfiguration) {
+    private providers: AIProviderRegistry;
+    private quotas: AIQuotaService;
+
+    constructor(
+        config?: AIRoutingConfiguration,
+        providers: AIProviderRegistry = aiProviderRegistry,
+        quotas: AIQuotaService = aiQuota
+    ) {
         this.config = config || aiRoutingConfigManager.getConfiguration();
         this.routingRules = this.config.rules;
+        this.providers = providers;
+        this.quotas = quotas;
         this.usageStats = this.initializeUsageStats();
         this.serviceHealth = this.initializeServiceHealth();
     }
@@ -111,6 +125,15 @@ export class AIRouterService {
         args: any[],
         options?: RoutingOptions
     ): Promise<T> {
+        // Over quota, answer without a model; close to it, use the cheapest provider allowed
+        const quota = await this.quotas.check();
+        if (quota.status === 'exceeded') {
+            return this.answerOverQuota<T>(functionName, args, quota);
+        }
+        if (quota.status === 'degraded' && !options?.forceModel) {
+            options = this.withCheapestProvider(functionName, options);
+        }
+
         const startTime = Date.now();
         const routingStartTime = Date.now();
 
@@ -212,7 +235,121 @@ export class AIRouterService {
     }
 
     /**
-     * Try fallback model when primary fails
+     * Streams a function's text output to onChunk as the primary model generates it.
+     * When the model cannot stream the function, or fails before sending anything,
+     * the request is routed as usual and its answer arrives as a single chunk.
+     */
+    async streamRequest(
+        functionName: string,
+        args: any[],
+        onChunk: TextChunkHandler,
+        options?: RoutingOptions
+    ): Promise<string> {
+        const rule = this.getRoutingRule(functionName);
+        const targetModel = options?.forceModel || rule.primaryModel;
+        const provider = this.providers.get(targetModel);
+
+        // Requests under quota pressure are routed as usual, which applies the quota
+        if (
+            provider?.stream &&
+            provider.capabilities.streaming.includes(functionName) &&
+            !this.isCircuitBreakerOpen(targetModel) &&
+            (await this.quotas.check()).status === 'ok'
+        ) {
+            const startTime = Date.now();
+            let streaming = true;
+            let streamed = false;
+
+            try {
+                this.logRoutingDecision(functionName, targetModel, 'primary');
+
+                const { executeWithTimeout } = await import('./utils/timeoutUtils.js');
+                const result = await executeWithTimeout(
+                    provider.stream(functionName, args, chunk => {
+                        // Chunks arriving after a timeout are dropped
+                        if (!streaming) return;
+                        streamed = true;
+                        onChunk(chunk);
+                    }),
+                    options?.timeout || rule.timeout
+                );
+
+                const responseTime = Date.now() - startTime;
+                this.resetCircuitBreaker(targetModel);
+                this.updateUsageStats(functionName, targetModel, responseTime, true);
+                this.recordPerformanceMetrics(functionName, args, result, targetModel, responseTime, true);
+
+                return result;
+            } catch (error: any) {
+                streaming = false;
+                const responseTime = Date.now() - startTime;
+                this.recordFailure(targetModel, aiServiceErrorHandler.classifyError(error));
+                this.updateUsageStats(functionName, targetModel, responseTime, false);
+                this.recordPerformanceMetrics(functionName, args, null, targetModel, responseTime, false, error);
+
+                // Text already sent cannot be taken back, so only a stream that never started is retried
+                if (streamed) {
+                    throw error;
+                }
+                console.warn(`[AI Router] Streaming ${functionName} on ${targetModel} failed, answering without streaming: ${error.message}`);
+            }
+        }
+
+        const result = await this.routeRequest<string>(functionName, args, options);
+        onChunk(result);
+        return result;
+    }
+
+    /**
+     * Answers a request over quota from its template, or fails with the quota message
+     */
+    private answerOverQuota<T>(functionName: string, args: any[], quota: AIQuotaCheck): T {
+        const rule = this.getRoutingRule(functionName);
+        const fallback = this.quotas.fallbackFor(functionName, args, quota);
+
+        aiRoutingLogger.logRoutingDecision(
+            functionName,
+            rule.primaryModel,
+            'none',
+            false,
+            0,
+            !!fallback,
+            quota.message,
+            undefined,
+            { routingReason: fallback ? 'quota_exceeded_template' : 'quota_exceeded' }
+        );
+
+        if (!fallback) {
+            throw new AIQuotaExceededError(quota);
+        }
+        return fallback.value as T;
+    }
+
+    /**
+     * Forces the cheapest priced provider in the rule's chain when it costs less than the primary
+     */
+    private withCheapestProvider(functionName: string, options?: RoutingOptions): RoutingOptions | undefined {
+        const rule = this.getRoutingRule(functionName);
+        const price = (model: string) => usageAnalytics.estimateCost(model, { input: 1, output: 1 });
+        const primaryPrice = price(rule.primaryModel);
+        if (primaryPrice === undefined) {
+            return options;
+        }
+
+        const cheapest = getFallbackChain(rule)
+            .filter(model => this.providers.supports(model, functionName) && !this.isCircuitBreakerOpen(model))
+            .filter(model => price(model) !== undefined && price(model)! < primaryPrice)
+            .sort((a, b) => price(a)! - price(b)!)[0];
+        if (!cheapest) {
+            return options;
+        }
+
+        console.log(`[AI Router] ${functionName} is close to the AI quota, using ${cheapest} instead of ${rule.primaryModel}`);
+        return { ...options, forceModel: cheapest };
+    }
+
+    /**
+     * Try the rule's fallback models in order when the primary fails
      */
     private async tryFallback<T>(
         functionName: string,
@@ -222,96 +359,103 @@ export class AIRouterService {
         _originalResponseTime: number
     ): Promise<T> {
         const rule = this.getRoutingRule(functionName);
+        // Providers that cannot serve this function are left out of the chain
+        const fallbackChain = getFallbackChain(rule).filter(model =>
+            model !== rule.primaryModel && this.providers.supports(model, functionName)
+        );
 
-        if (!rule.fallbackModel) {
+        if (fallbackChain.length === 0) {
             throw originalError;
         }
 
-        const fallbackStartTime = Date.now();
-
-        try {
-            // Log fallback attempt
-            this.logRoutingDecision(functionName, rule.fallbackModel, 'fallback');
-            this.usageStats.routing.fallbacksTriggered++;
-
-            // Execute with fallback model using retry logic
-            const result = await this.executeRequestWithRetry<T>(
-                functionName,
-                args,
-                rule.fallbackModel,
-                options?.timeout || rule.timeout,
-                options
-            );
-
-            const fallbackResponseTime = Date.now() - fallbackStartTime;
+        this.usageStats.routing.fallbacksTriggered++;
 
-            // Update usage statistics for successful fallback
-            this.updateUsageStats(functionName, rule.fallbackModel, fallbackResponseTime, true);
+        for (const fallbackModel of fallbackChain) {
+            const fallbackStartTime = Date.now();
 
-            // Record successful fallback routing decision
-            usageAnalytics.recordRoutingDecision(
-                functionName,
-                rule.primaryModel,
-                rule.fallbackModel,
-                true, // Fallback was used
-                fallbackResponseTime,
-                true
-            );
+            try {
+                // Log fallback attempt
+                this.logRoutingDecision(functionName, fallbackModel, 'fallback');
+
+                // Execute with fallback model using retry logic
+                const result = await this.executeRequestWithRetry<T>(
+                    functionName,
+                    args,
+                    fallbackModel,
+                    options?.timeout || rule.timeout,
+                    options
+                );
 
-            // Record performance metrics for successful fallback
-            this.recordPerformanceMetrics(functionName, args, result, rule.fallbackModel, fallbackResponseTime, true);
+                const fallbackResponseTime = Date.now() - fallbackStartTime;
 
-            // Log successful fallback routing decision
-            aiRoutingLogger.logRoutingDecision(
-                functionName,
-                rule.primaryModel,
-                rule.fallbackModel,
-                true,
-                fallbackResponseTime,
-                true,
-                undefined,
-                this.extractTokenUsage(args, result),
-                { routingReason: 'fallback_success' }
-            );
+                // Update usage statistics for successful fallback
+                this.updateUsageStats(functionName, fallbackModel, fallbackResponseTime, true);
 
-            return result;
+                // Record successful fallback routing decision
+                usageAnalytics.recordRoutingDecision(
+                    functionName,
+                    rule.primaryModel,
+                    fallbackModel,
+                    true, // Fallback was used
+                    fallbackResponseTime,
+                    true
+                );
 
-        } catch (fallbackError: any) {
-            const fallbackResponseTime = Date.now() - fallbackStartTime;
+                // Record performance metrics for successful fallback
+                this.recordPerformanceMetrics(functionName, args, result, fallbackModel, fallbackResponseTime, true);
+
+                // Log successful fallback routing decision
+                aiRoutingLogger.logRoutingDecision(
+                    functionName,
+                    rule.primaryModel,
+                    fallbackModel,
+                    true,
+                    fallbackResponseTime,
+                    true,
+                    undefined,
+                    this.extractTokenUsage(args, result),
+                    { routingReason: 'fallback_success' }
+                );
 
-            // Update failure statistics for fallback
-            this.updateUsageStats(functionName, rule.fallbackModel, fallbackResponseTime, false);
-            this.usageStats.routing.routingFailures++;
+                return result;
 
-            // Record failed fallback routing decision
-            usageAnalytics.recordRoutingDecision(
-                functionName,
-                rule.primaryModel,
-                rule.fallbackModel,
-                true, // Fallback was attempted
-                fallbackResponseTime,
-                false
-            );
+            } catch (fallbackError: any) {
+                const fallbackResponseTime = Date.now() - fallbackStartTime;
 
-            // Record performance metrics for failed fallback
-            this.recordPerformanceMetrics(functionName, args, null, rule.fallbackModel, fallbackResponseTime, false, fallbackError);
+                // Update failure statistics for fallback
+                this.updateUsageStats(functionName, fallbackModel, fallbackResponseTime, false);
 
-            // Log failed fallback routing decision
-            aiRoutingLogger.logRoutingDecision(
-                functionName,
-                rule.primaryModel,
-                rule.fallbackModel,
-                true,
-                fallbackResponseTime,
-                false,
-                fallbackError.message,
-                this.extractTokenUsage(args, null),
-                { routingReason: 'fallback_failed' }
-            );
+                // Record failed fallback routing decision
+                usageAnalytics.recordRoutingDecision(
+                    functionName,
+                    rule.primaryModel,
+                    fallbackModel,
+                    true, // Fallback was attempted
+                    fallbackResponseTime,
+                    false
+                );
 
-            // Throw the original error if fallback also fails
-            throw originalError;
+                // Record performance metrics for failed fallback
+                this.recordPerformanceMetrics(functionName, args, null, fallbackModel, fallbackResponseTime, false, fallbackError);
+
+                // Log failed fallback routing decision
+                aiRoutingLogger.logRoutingDecision(
+                    functionName,
+                    rule.primaryModel,
+                    fallbackModel,
+                    true,
+                    fallbackResponseTime,
+                    false,
+                    fallbackError.message,
+                    this.extractTokenUsage(args, null),
+                    { routingReason: 'fallback_failed' }
+                );
+            }
         }
+
+        // Throw the original error if every fallback also fails
+        this.usageStats.routing.routingFailures++;
+        throw originalError;
     }
 
     /**
@@ -320,14 +464,14 @@ export class AIRouterService {
     private async executeRequestWithRetry<T>(
         functionName: string,
         args: any[],
-        model: 'gemini' | 'mistral',
+        model: string,
         timeout: number,
         options?: RoutingOptions,
         maxRetries?: number
     ): Promise<T> {
         // Use configured maxRetries if not provided
         if (maxRetries === undefined) {
-            maxRetries = this.getCircuitBreakerConfig()[model].maxRetries;
+            maxRetries = this.getCircuitBreakerConfig(model).maxRetries;
         }
         // Check circuit breaker before attempting request
         if (this.isCircuitBreakerOpen(model)) {
@@ -347,6 +491,12 @@ export class AIRouterService {
                 return result;
             } catch (error: any) {
                 lastError = error;
+
+                // Output failing its schema was already repaired as far as allowed; the provider itself is up
+                if (error instanceof AIOutputValidationError) {
+                    break;
+                }
+
                 const errorClassification = aiServiceErrorHandler.classifyError(error);
 
                 // Update circuit breaker on failure
@@ -377,86 +527,89 @@ export class AIRouterService {
     }
 
     /**
-     * Execute request with specific AI service
+     * Execute request with the named provider
      */
     private async executeRequest<T>(
         functionName: string,
         args: any[],
-        model: 'gemini' | 'mistral',
+        model: string,
         timeout: number
     ): Promise<T> {
+        const provider = this.providers.get(model);
+        if (!provider) {
+            throw new Error(`Unknown AI provider: ${model}`);
+        }
+
         // Import services dynamically to avoid circular dependencies
         const { executeWithTimeout } = await import('./utils/timeoutUtils.js');
 
-        if (model === 'gemini') {
-            const geminiService = await import('./gemini.js');
-            return executeWithTimeout(
-                this.callGeminiFunction(geminiService, functionName, args),
-                timeout
-            );
-        } else {
-            const mistralService = await import('./mistralService.js');
-            return executeWithTimeout(
-                this.callMistralFunction(mistralService, functionName, args),
-                timeout
-            );
-        }
+        const output = await executeWithTimeout(provider.call(functionName, args), timeout);
+        return this.validateOutput<T>(functionName, provider, output, timeout);
     }
 
     /**
-     * Call appropriate Gemini function
+     * Checks a provider's output against the function's output schema. Output that
+     * does not match goes back to the same provider with the validation errors, up to
+     * fallback.maxSchemaRepairs times, before AIOutputValidationError is thrown.
      */
-    private async callGeminiFunction(geminiService: any, functionName: string, args: any[]): Promise<any> {
-        switch (functionName) {
-            case 'extractMeetingIntent':
-                return geminiService.extractMeetingIntent(...args);
-            case 'generateMeetingTitles':
-                return geminiService.generateMeetingTitles(...args);
-            case 'enhancePurposeWording':
-                return geminiService.enhancePurposeWording(...args);
-            case 'generateMeetingAgenda':
-                return geminiService.generateMeetingAgenda(...args);
-            case 'generateActionItems':
-                return geminiService.generateActionItems(...args);
-            case 'getGeminiResponse':
-                return geminiService.getGeminiResponse(...args);
-            case 'verifyAttendees':
-                return geminiService.verifyAttendees(...args);
-            case 'extractTimeFromNaturalLanguage':
-                const { extractTimeFromNaturalLanguage: geminiTimeExtractor } = await import('./geminiTimeExtractor.js');
-                return geminiTimeExtractor(args[0], args[1]);
-            default:
-                throw new Error(`Unknown function: ${functionName}`);
+    private async validateOutput<T>(
+        functionName: string,
+        provider: AIProvider,
+        output: unknown,
+        timeout: number
+    ): Promise<T> {
+        const schema = getOutputSchema(functionName);
+        if (!schema) {
+            return output as T;
         }
-    }
 
-    /**
-     * Call appropriate Mistral function
-     */
-    private async callMistralFunction(mistralService: any, functionName: string, args: any[]): Promise<any> {
-        switch (functionName) {
-            case 'getGeminiResponse':
-                return mistralService.getGeminiResponse(...args);
-            case 'verifyAttendees':
-                return mistralService.verifyAttendees(...args);
-            case 'generateBasicResponse':
-                return mistralService.generateBasicResponse(...args);
-            case 'generateMeetingTitles':
-                return mistralService.generateMeetingTitles(...args);
-            case 'enhancePurposeWording':
-                return mistralService.enhancePurposeWording(...args);
-            case 'extractTimeFromNaturalLanguage':
-                const { extractTimeFromNaturalLanguage: mistralTimeExtractor } = await import('./mistralTimeExtractor.js');
-                return mistralTimeExtractor(args[0], args[1]);
-            // For complex functions, fallback to basic response generation
-            case 'extractMeetingIntent':
-            case 'generateMeetingAgenda':
-            case 'generateActionItems':
-                // These will be handled by fallback logic or throw appropriate errors
-                throw new Error(`Function ${functionName} not optimized for Mistral`);
-            default:
-                throw new Error(`Unknown function: ${functionName}`);
+        // Callers get the parsed data, with the schema's defaults and coercions applied
+        let candidate = output;
+        let validation = schema.safeParse(candidate);
+        if (validation.success) {
+            usageAnalytics.recordSchemaValidation(functionName, provider.name, 'valid');
+            return validation.data as T;
         }
+
+        // Repairs go through the provider's chat function; fixed output would come back unchanged
+        const repairFunction = ['getGeminiResponse', 'generateBasicResponse'].find(name => provider.capabilities.functions.includes(name));
+        const maxRepairs = repairFunction && !provider.capabilities.deterministic
+            ? this.config.fallback.maxSchemaRepairs ?? 1
+            : 0;
+        const { executeWithTimeout } = await import('./utils/timeoutUtils.js');
+
+        for (let attempt = 1; !validation.success && attempt <= maxRepairs; attempt++) {
+            const issues = formatSchemaIssues(validation.error);
+            console.warn(`[AI Router] ${provider.name} output for ${functionName} failed its schema, repair ${attempt}/${maxRepairs}: ${issues.join('; ')}`);
+
+            const messages = buildRepairMessages(functionName, candidate, issues);
+            const repairArgs = repairFunction === 'getGeminiResponse'
+                ? [messages]
+                : [messages.map(message => message.content).join('\n\n')];
+
+            try {
+                const reply = await executeWithTimeout(provider.call(repairFunction!, repairArgs), timeout);
+                try {
+                    candidate = parseRepairedOutput(String(reply), schema);
+                } catch {
+                    // Still not JSON; the next repair sees the reply as it is
+                    candidate = reply;
+                }
+            } catch (error: any) {
+                console.warn(`[AI Router] Repair of ${functionName} output on ${provider.name} failed: ${error.message}`);
+                break;
+            }
+
+            validation = schema.safeParse(candidate);
+        }
+
+        if (validation.success) {
+            usageAnalytics.recordSchemaValidation(functionName, provider.name, 'repaired');
+            return validation.data as T;
+        }
+
+        usageAnalytics.recordSchemaValidation(functionName, provider.name, 'failed');
+        throw new AIOutputValidationError(functionName, provider.name, formatSchemaIssues(validation.error));
     }
 
     /**
@@ -503,8 +656,8 @@ export class AIRouterService {
     /**
      * Circuit breaker methods for service health management
      */
-    private isCircuitBreakerOpen(model: 'gemini' | 'mistral'): boolean {
-        const circuitBreaker = this.serviceHealth[model].circuitBreaker;
+    private isCircuitBreakerOpen(model: string): boolean {
+        const circuitBreaker = this.getProviderHealth(model).circuitBreaker;
         
         if (!circuitBreaker.isOpen) {
             return false;
@@ -520,9 +673,9 @@ export class AIRouterService {
         return true;
     }
 
-    private recordFailure(model: 'gemini' | 'mistral', errorClassification: any): void {
-        const circuitBreaker = this.serviceHealth[model].circuitBreaker;
-        const config = this.getCircuitBreakerConfig()[model];
+    private recordFailure(model: string, errorClassification: any): void {
+        const circuitBreaker = this.getProviderHealth(model).circuitBreaker;
+        const config = this.getCircuitBreakerConfig(model);
         const now = new Date();
         
         circuitBreaker.failureCount++;
@@ -537,12 +690,12 @@ export class AIRouterService {
         }
     }
 
-    private getCircuitBreakerConfig() {
-        return this.config.circuitBreaker;
+    private getCircuitBreakerConfig(model: string): CircuitBreakerSettings {
+        return this.config.circuitBreaker[model] || DEFAULT_CIRCUIT_BREAKER_SETTINGS;
     }
 
-    private resetCircuitBreaker(model: 'gemini' | 'mistral'): void {
-        const circuitBreaker = this.serviceHealth[model].circuitBreaker;
+    private resetCircuitBreaker(model: string): void {
+        const circuitBreaker = this.getProviderHealth(model).circuitBreaker;
         
         if (circuitBreaker.failureCount > 0 || circuitBreaker.isOpen) {
             console.log(`[AI Router] Circuit breaker reset for ${model}`);
@@ -554,8 +707,8 @@ export class AIRouterService {
         circuitBreaker.nextRetryTime = undefined;
     }
 
-    private createCircuitBreakerError(model: 'gemini' | 'mistral'): Error {
-        const circuitBreaker = this.serviceHealth[model].circuitBreaker;
+    private createCircuitBreakerError(model: string): Error {
+        const circuitBreaker = this.getProviderHealth(model).circuitBreaker;
         const nextRetry = circuitBreaker.nextRetryTime ? 
             ` Retry available at ${circuitBreaker.nextRetryTime.toISOString()}` : '';
         
@@ -614,28 +767,29 @@ export class AIRouterService {
         recommendations: string[];
     }> {
         await this.checkServiceHealth();
-        
-        const geminiHealthy = this.serviceHealth.gemini.available && !this.serviceHealth.gemini.circuitBreaker.isOpen;
-        const mistralHealthy = this.serviceHealth.mistral.available && !this.serviceHealth.mistral.circuitBreaker.isOpen;
-        
+
+        // The offline provider answers without a model, so it does not count as a healthy AI service
+        const providers = this.providers.list().filter(provider => !provider.capabilities.deterministic);
+        const unhealthy = providers.filter(provider => {
+            const health = this.getProviderHealth(provider.name);
+            return !health.available || health.circuitBreaker.isOpen;
+        });
+
         let overall: 'healthy' | 'degraded' | 'unhealthy';
         const recommendations: string[] = [];
-        
-        if (geminiHealthy && mistralHealthy) {
+
+        if (unhealthy.length === 0) {
             overall = 'healthy';
-        } else if (geminiHealthy || mistralHealthy) {
+        } else if (unhealthy.length < providers.length) {
             overall = 'degraded';
-            if (!geminiHealthy) {
-                recommendations.push('Gemini service is unavailable - using Mistral fallback');
-            }
-            if (!mistralHealthy) {
-                recommendations.push('Mistral service is unavailable - using Gemini fallback');
+            for (const provider of unhealthy) {
+                recommendations.push(`${this.displayName(provider.name)} service is unavailable - using fallback providers`);
             }
         } else {
             overall = 'unhealthy';
-            recommendations.push('Both AI services are unavailable - check network connectivity and API keys');
+            recommendations.push('All AI services are unavailable - check network connectivity and API keys');
         }
-        
+
         return {
             overall,
             services: { ...this.serviceHealth },
@@ -660,7 +814,7 @@ export class AIRouterService {
         }
 
         // Don't fallback if no fallback model configured
-        if (!rule.fallbackModel) {
+        if (getFallbackChain(rule).length === 0) {
             return false;
         }
 
@@ -669,9 +823,14 @@ export class AIRouterService {
             return false;
         }
 
+        // Another provider may produce output that matches the schema
+        if (error instanceof AIOutputValidationError) {
+            return true;
+        }
+
         // Fallback on rate limits, timeouts, or service unavailable errors
         const errorClassification = aiServiceErrorHandler.classifyError(error);
-        return ['API_RATE_LIMIT', 'TIMEOUT', 'SERVICE_UNAVAILABLE'].includes(errorClassification.type);
+        return [AIErrorType.API_RATE_LIMIT, AIErrorType.TIMEOUT, AIErrorType.SERVICE_UNAVAILABLE].includes(errorClassification.type);
     }
 
     /**
@@ -700,11 +859,11 @@ export class AIRouterService {
      */
     private updateUsageStats(
         functionName: string,
-        model: 'gemini' | 'mistral',
+        model: string,
         responseTime: number,
         success: boolean
     ): void {
-        const modelStats = this.usageStats[model];
+        const modelStats = this.getProviderUsage(model);
 
         // Update overall model stats
         modelStats.totalRequests++;
@@ -752,7 +911,7 @@ export class AIRouterService {
         functionName: string,
         args: any[],
         result: any,
-        model: 'gemini' | 'mistral',
+        model: string,
         responseTime: number,
         success: boolean,
         error?: any
@@ -776,14 +935,18 @@ export class AIRouterService {
             responseTime,
             success,
             error: error?.message,
-            model: model === 'gemini' ? 'gemini-pro' : 'mistral-small-latest' // Default model names
+            model: this.providers.get(model)?.model
         });
 
+        // Stored in the background; recordUsage logs its own failures
+        void this.quotas.recordUsage(functionName, model, { input: inputTokens, output: outputTokens });
+
         // Update token usage in our stats
-        if (this.usageStats[model].functionBreakdown[functionName]) {
-            this.usageStats[model].functionBreakdown[functionName].tokenUsage += inputTokens + outputTokens;
+        const modelStats = this.getProviderUsage(model);
+        if (modelStats.functionBreakdown[functionName]) {
+            modelStats.functionBreakdown[functionName].tokenUsage += inputTokens + outputTokens;
         }
-        this.usageStats[model].totalTokens += inputTokens + outputTokens;
+        modelStats.totalTokens += inputTokens + outputTokens;
     }
 
     /**
@@ -981,177 +1144,125 @@ export class AIRouterService {
     }
 
     /**
-     * Check health of both AI services with comprehensive testing
+     * Check health of every registered AI provider
      */
     private async checkServiceHealth(): Promise<void> {
         const now = new Date();
 
-        // Check Gemini health with actual API call
-        await this.checkGeminiHealth(now);
-        
-        // Check Mistral health with actual API call
-        await this.checkMistralHealth(now);
-    }
-
-    /**
-     * Check Gemini service health with timeout and error handling
-     */
-    private async checkGeminiHealth(timestamp: Date): Promise<void> {
-        try {
-            const geminiService = await import('./gemini.js');
-            const startTime = Date.now();
-            
-            // Perform a lightweight health check with timeout
-            const { executeWithTimeout } = await import('./utils/timeoutUtils.js');
-            
-            await executeWithTimeout(
-                this.performGeminiHealthCheck(geminiService),
-                5000 // 5 second timeout for health check
-            );
-
-            this.serviceHealth.gemini = {
-                available: true,
-                lastCheck: timestamp,
-                responseTime: Date.now() - startTime,
-                circuitBreaker: this.serviceHealth.gemini.circuitBreaker
-            };
-
-            console.log(`[AI Router] Gemini health check passed (${Date.now() - startTime}ms)`);
-
-            // Log healthy status
-            aiRoutingLogger.logServiceHealth(
-                'gemini',
-                'healthy',
-                Date.now() - startTime,
-                undefined,
-                this.serviceHealth.gemini.circuitBreaker.isOpen,
-                this.serviceHealth.gemini.circuitBreaker.failureCount
-            );
-
-        } catch (error: any) {
-            this.serviceHealth.gemini = {
-                available: false,
-                lastCheck: timestamp,
-                circuitBreaker: this.serviceHealth.gemini.circuitBreaker
-            };
-
-            const errorClassification = aiServiceErrorHandler.classifyError(error);
-            console.error(`[AI Router] Gemini health check failed: ${errorClassification.type} - ${errorClassification.message}`);
-
-            // Log unhealthy status
-            aiRoutingLogger.logServiceHealth(
-                'gemini',
-                'unhealthy',
-                undefined,
-                errorClassification.message,
-                this.serviceHealth.gemini.circuitBreaker.isOpen,
-                this.serviceHealth.gemini.circuitBreaker.failureCount
-            );
+        for (const provider of this.providers.list()) {
+            await this.checkProviderHealth(provider.name, now);
         }
     }
 
     /**
-     * Check Mistral service health with timeout and error handling
+     * Check one provider's health with timeout and error handling
      */
-    private async checkMistralHealth(timestamp: Date): Promise<void> {
+    private async checkProviderHealth(model: string, timestamp: Date): Promise<void> {
+        const provider = this.providers.get(model);
+        const circuitBreaker = this.getProviderHealth(model).circuitBreaker;
+
         try {
-            const mistralService = await import('./mistralService.js');
             const startTime = Date.now();
-            
-            // Use Mistral's built-in health check if available
-            if (typeof mistralService.getServiceHealth === 'function') {
+            let available = true;
+
+            // Providers without a health check are available whenever registered
+            if (provider?.checkHealth) {
                 const { executeWithTimeout } = await import('./utils/timeoutUtils.js');
-                
-                const health = await executeWithTimeout(
-                    mistralService.getServiceHealth(),
+
+                available = await executeWithTimeout(
+                    provider.checkHealth(),
                     5000 // 5 second timeout for health check
                 );
-
-                this.serviceHealth.mistral = {
-                    available: health.available,
-                    lastCheck: timestamp,
-                    responseTime: Date.now() - startTime,
-                    circuitBreaker: this.serviceHealth.mistral.circuitBreaker
-                };
-            } else {
-                // Fallback to basic availability check
-                this.serviceHealth.mistral = {
-                    available: true,
-                    lastCheck: timestamp,
-                    responseTime: Date.now() - startTime,
-                    circuitBreaker: this.serviceHealth.mistral.circuitBreaker
-                };
             }
 
-            console.log(`[AI Router] Mistral health check passed (${Date.now() - startTime}ms)`);
+            const responseTime = Date.now() - startTime;
+            this.serviceHealth[model] = {
+                available,
+                lastCheck: timestamp,
+                responseTime,
+                circuitBreaker
+            };
+
+            console.log(`[AI Router] ${this.displayName(model)} health check ${available ? 'passed' : 'failed'} (${responseTime}ms)`);
 
-            // Log healthy status
             aiRoutingLogger.logServiceHealth(
-                'mistral',
-                'healthy',
-                Date.now() - startTime,
+                model,
+                available ? 'healthy' : 'unhealthy',
+                responseTime,
                 undefined,
-                this.serviceHealth.mistral.circuitBreaker.isOpen,
-                this.serviceHealth.mistral.circuitBreaker.failureCount
+                circuitBreaker.isOpen,
+                circuitBreaker.failureCount
             );
 
         } catch (error: any) {
-            this.serviceHealth.mistral = {
+            this.serviceHealth[model] = {
                 available: false,
                 lastCheck: timestamp,
-                circuitBreaker: this.serviceHealth.mistral.circuitBreaker
+                circuitBreaker
             };
 
             const errorClassification = aiServiceErrorHandler.classifyError(error);
-            console.error(`[AI Router] Mistral health check failed: ${errorClassification.type} - ${errorClassification.message}`);
+            console.error(`[AI Router] ${this.displayName(model)} health check failed: ${errorClassification.type} - ${errorClassification.message}`);
 
             // Log unhealthy status
             aiRoutingLogger.logServiceHealth(
-                'mistral',
+                model,
                 'unhealthy',
                 undefined,
                 errorClassification.message,
-                this.serviceHealth.mistral.circuitBreaker.isOpen,
-                this.serviceHealth.mistral.circuitBreaker.failureCount
+                circuitBreaker.isOpen,
+                circuitBreaker.failureCount
             );
         }
     }
 
+    private displayName(model: string): string {
+        return model.charAt(0).toUpperCase() + model.slice(1);
+    }
+
     /**
-     * Perform a lightweight Gemini health check
+     * Health and usage entries for a provider, created on first use for providers registered after startup
      */
-    private async performGeminiHealthCheck(geminiService: any): Promise<void> {
-        // Try a simple API call to verify Gemini is responsive
-        if (typeof geminiService.getGeminiResponse === 'function') {
-            await geminiService.getGeminiResponse('ping', 'health-check');
-        } else {
-            // Just verify the service can be imported
-            return Promise.resolve();
-        }
+    private getProviderHealth(model: string): ProviderHealth {
+        return this.serviceHealth[model] ??= this.createProviderHealth();
     }
 
+    private getProviderUsage(model: string): ProviderUsageStats {
+        return this.usageStats.providers[model] ??= this.createProviderUsage();
+    }
 
+    private createProviderHealth(): ProviderHealth {
+        return {
+            available: false,
+            lastCheck: new Date(),
+            circuitBreaker: {
+                isOpen: false,
+                failureCount: 0
+            }
+        };
+    }
+
+    private createProviderUsage(): ProviderUsageStats {
+        return {
+            totalRequests: 0,
+            totalTokens: 0,
+            averageResponseTime: 0,
+            successRate: 1,
+            functionBreakdown: {}
+        };
+    }
 
     /**
      * Initialize usage statistics
      */
     private initializeUsageStats(): UsageStatistics {
+        const providers: Record<string, ProviderUsageStats> = {};
+        for (const model of this.providers.names()) {
+            providers[model] = this.createProviderUsage();
+        }
+
         return {
-            gemini: {
-                totalRequests: 0,
-                totalTokens: 0,
-                averageResponseTime: 0,
-                successRate: 1,
-                costEstimate: 0,
-                functionBreakdown: {}
-            },
-            mistral: {
-                totalRequests: 0,
-                totalTokens: 0,
-                averageResponseTime: 0,
-                successRate: 1,
-                functionBreakdown: {}
-            },
+            providers,
             routing: {
                 totalRoutingDecisions: 0,
                 fallbacksTriggered: 0,
@@ -1164,25 +1275,11 @@ export class AIRouterService {
      * Initialize service health status
      */
     private initializeServiceHealth(): ServiceHealthStatus {
-        const now = new Date();
-        return {
-            gemini: {
-                available: false,
-                lastCheck: now,
-                circuitBreaker: {
-                    isOpen: false,
-                    failureCount: 0
-                }
-            },
-            mistral: {
-                available: false,
-                lastCheck: now,
-                circuitBreaker: {
-                    isOpen: false,
-                    failureCount: 0
-                }
-            }
-        };
+        const health: ServiceHealthStatus = {};
+        for (const model of this.providers.names()) {
+            health[model] = this.createProviderHealth();
+        }
+        return health;
     }
 }
 
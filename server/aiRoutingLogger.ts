@@ -27,7 +27,7 @@ export interface RoutingLogEntry {
 
 export interface ServiceHealthLog {
     timestamp: Date;
-    service: 'gemini' | 'mistral';
+    service: string;
     status: 'healthy' | 'degraded' | 'unhealthy';
     responseTime?: number;
     error?: string;
@@ -35,6 +35,13 @@ export interface ServiceHealthLog {
     consecutiveFailures: number;
 }
 
+export interface PromptUsageLogEntry {
+    timestamp: Date;
+    promptId: string;
+    promptVersion: number;
+    service: string;
+}
+
 export interface AlertConfig {
     enabled: boolean;
     thresholds: {
@@ -68,6 +75,7 @@ export interface Alert {
 export class AIRoutingLogger {
     private routingLogs: RoutingLogEntry[] = [];
     private healthLogs: ServiceHealthLog[] = [];
+    private promptLogs: PromptUsageLogEntry[] = [];
     private alerts: Alert[] = [];
     private maxLogEntries = 10000;
     private alertConfig: AlertConfig;
@@ -134,7 +142,7 @@ export class AIRoutingLogger {
      * Log service health status
      */
     logServiceHealth(
-        service: 'gemini' | 'mistral',
+        service: string,
         status: 'healthy' | 'degraded' | 'unhealthy',
         responseTime?: number,
         error?: string,
@@ -178,6 +186,36 @@ export class AIRoutingLogger {
         }
     }
 
+    /**
+     * Log the prompt version an AI call was made with
+     */
+    logPromptUsage(prompt: { id: string; version: number }, service: string): void {
+        this.promptLogs.push({
+            timestamp: new Date(),
+            promptId: prompt.id,
+            promptVersion: prompt.version,
+            service
+        });
+
+        if (this.promptLogs.length > this.maxLogEntries) {
+            this.promptLogs = this.promptLogs.slice(-Math.floor(this.maxLogEntries * 0.8));
+        }
+    }
+
+    /**
+     * Calls per prompt version, keyed "id@version"
+     */
+    getPromptUsage(timeRangeHours: number = 24): Record<string, number> {
+        const cutoffTime = new Date(Date.now() - timeRangeHours * 60 * 60 * 1000);
+        const usage: Record<string, number> = {};
+        for (const log of this.promptLogs) {
+            if (log.timestamp < cutoffTime) continue;
+            const key = `${log.promptId}@${log.promptVersion}`;
+            usage[key] = (usage[key] || 0) + 1;
+        }
+        return usage;
+    }
+
     /**
      * Get routing logs for a specific time period
      */
@@ -320,6 +358,7 @@ export class AIRoutingLogger {
     exportLogs(timeRangeHours: number = 24): {
         routingLogs: RoutingLogEntry[];
         healthLogs: ServiceHealthLog[];
+        promptUsage: Record<string, number>;
         statistics: any; // Use any for now to avoid the this context issue
         alerts: Alert[];
         exportTime: Date;
@@ -327,6 +366,7 @@ export class AIRoutingLogger {
         return {
             routingLogs: this.getRoutingLogs(timeRangeHours),
             healthLogs: this.getHealthLogs(timeRangeHours),
+            promptUsage: this.getPromptUsage(timeRangeHours),
             statistics: this.getRoutingStatistics(timeRangeHours),
             alerts: this.getAlerts(true),
             exportTime: new Date()
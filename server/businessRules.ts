@@ -1,4 +1,11 @@
-import { MeetingData, AttendeeData } from '../shared/schema.js';
+import { MeetingData, AttendeeData, MeetingRoom } from '../shared/schema.js';
+import {
+  describeWorkingHours,
+  formatZonedTime,
+  getWorkingDayBounds,
+  isWithinWorkingHours,
+  type WorkingHoursProfile
+} from './utils/workingHours.js';
 
 // Validation result interface
 export interface ValidationResult {
@@ -12,6 +19,7 @@ export const VALIDATION_RULES = {
   // Meeting type rules
   ONLINE_MEETING_REQUIRES_ATTENDEES: true,
   PHYSICAL_MEETING_REQUIRES_LOCATION: true,
+  ROOM_MUST_FIT_ATTENDEES: true,
   
   // Email validation patterns
   EMAIL_REGEX: /^[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}$/,
@@ -36,6 +44,7 @@ export const VALIDATION_RULES = {
 export const ERROR_MESSAGES = {
   ONLINE_MEETING_NO_ATTENDEES: 'Online meetings must have at least one attendee',
   PHYSICAL_MEETING_NO_LOCATION: 'Physical meetings must have a location specified',
+  ROOM_OVER_CAPACITY: 'The meeting room is too small for everyone attending',
   INVALID_EMAIL_FORMAT: 'Invalid email format',
   INVALID_GMAIL_FORMAT: 'Email must be a valid Gmail address',
   MEETING_TOO_SHORT: `Meeting duration must be at least ${VALIDATION_RULES.MIN_MEETING_DURATION_MINUTES} minutes`,
@@ -54,13 +63,36 @@ export const WARNING_MESSAGES = {
   WEEKEND_MEETING: 'Meeting is scheduled on a weekend',
   LONG_MEETING: 'Meeting duration is longer than 2 hours',
   MANY_ATTENDEES: 'Meeting has a large number of attendees (10+)',
+  OUTSIDE_WORKING_HOURS: 'Meeting is scheduled outside your working hours',
+  NON_WORKING_DAY: 'Meeting is scheduled on one of your non-working days',
 } as const;
 
+/**
+ * Number of people a room has to seat: the attendees plus the organizer
+ */
+export function getMeetingHeadcount(meetingData: Pick<Partial<MeetingData>, 'attendees'>): number {
+  return (meetingData.attendees?.length || 0) + 1;
+}
+
 /**
  * Business Rules Engine with hardcoded validation logic
  * Enforces consistent business rules without AI involvement
  */
 export class BusinessRulesEngine {
+  private workingHours?: WorkingHoursProfile;
+
+  constructor(workingHours?: WorkingHoursProfile) {
+    this.workingHours = workingHours;
+  }
+
+  /**
+   * Sets the organizer's working hours profile used for time warnings
+   * Without a profile the generic business hours rules apply
+   */
+  setWorkingHours(workingHours?: WorkingHoursProfile): void {
+    this.workingHours = workingHours;
+  }
+
   /**
    * Validates meeting type and associated requirements
    */
@@ -83,6 +115,33 @@ export class BusinessRulesEngine {
         result.isValid = false;
         result.errors.push(ERROR_MESSAGES.PHYSICAL_MEETING_NO_LOCATION);
       }
+
+      if (data.room) {
+        const capacityValidation = this.validateRoomCapacity(data.room, getMeetingHeadcount(data));
+        result.errors.push(...capacityValidation.errors);
+        if (!capacityValidation.isValid) {
+          result.isValid = false;
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks that a room seats everyone attending, the organizer included
+   * Rooms without a known capacity are not checked
+   */
+  validateRoomCapacity(room: Pick<MeetingRoom, 'name' | 'capacity'>, headcount: number): ValidationResult {
+    const result: ValidationResult = {
+      isValid: true,
+      errors: [],
+      warnings: [],
+    };
+
+    if (VALIDATION_RULES.ROOM_MUST_FIT_ATTENDEES && room.capacity !== undefined && headcount > room.capacity) {
+      result.isValid = false;
+      result.errors.push(`${ERROR_MESSAGES.ROOM_OVER_CAPACITY}: ${room.name} seats ${room.capacity}, the meeting has ${headcount} people`);
     }
 
     return result;
@@ -144,18 +203,27 @@ export class BusinessRulesEngine {
       result.errors.push(ERROR_MESSAGES.BOOKING_TOO_SOON);
     }
 
-    // Business hours warning
-    const startHour = startTime.getHours();
-    const endHour = endTime.getHours();
-    if (startHour < VALIDATION_RULES.BUSINESS_HOURS_START || 
-        endHour > VALIDATION_RULES.BUSINESS_HOURS_END) {
-      result.warnings.push(WARNING_MESSAGES.OUTSIDE_BUSINESS_HOURS);
-    }
+    if (this.workingHours) {
+      // Working hours warnings from the organizer's profile, evaluated in their timezone
+      if (!getWorkingDayBounds(startTime, this.workingHours).isWorkingDay) {
+        result.warnings.push(WARNING_MESSAGES.NON_WORKING_DAY);
+      } else if (!isWithinWorkingHours(startTime, endTime, this.workingHours)) {
+        result.warnings.push(`${WARNING_MESSAGES.OUTSIDE_WORKING_HOURS} (${describeWorkingHours(this.workingHours)})`);
+      }
+    } else {
+      // Business hours warning
+      const startHour = startTime.getHours();
+      const endHour = endTime.getHours();
+      if (startHour < VALIDATION_RULES.BUSINESS_HOURS_START || 
+          endHour > VALIDATION_RULES.BUSINESS_HOURS_END) {
+        result.warnings.push(WARNING_MESSAGES.OUTSIDE_BUSINESS_HOURS);
+      }
 
-    // Weekend warning
-    const dayOfWeek = startTime.getDay();
-    if (dayOfWeek === 0 || dayOfWeek === 6) {
-      result.warnings.push(WARNING_MESSAGES.WEEKEND_MEETING);
+      // Weekend warning
+      const dayOfWeek = startTime.getDay();
+      if (dayOfWeek === 0 || dayOfWeek === 6) {
+        result.warnings.push(WARNING_MESSAGES.WEEKEND_MEETING);
+      }
     }
 
     // Long meeting warning
@@ -166,6 +234,32 @@ export class BusinessRulesEngine {
     return result;
   }
 
+  /**
+   * Warns when a meeting falls outside the working hours of attendees in other timezones
+   * Only attendees with a known profile can be checked
+   */
+  validateAttendeeWorkingHours(
+    startTime: Date,
+    endTime: Date,
+    attendeeWorkingHours: Map<string, WorkingHoursProfile>
+  ): ValidationResult {
+    const result: ValidationResult = {
+      isValid: true,
+      errors: [],
+      warnings: [],
+    };
+
+    attendeeWorkingHours.forEach((profile, email) => {
+      if (!isWithinWorkingHours(startTime, endTime, profile)) {
+        result.warnings.push(
+          `${email}: meeting starts ${formatZonedTime(startTime, profile.timezone)} their time, outside their working hours (${describeWorkingHours(profile)})`
+        );
+      }
+    });
+
+    return result;
+  }
+
   /**
    * Validates email format using hardcoded regex patterns
    */
@@ -1,34 +1,39 @@
 import { google } from 'googleapis';
-import { User } from '../shared/schema';
-
-export interface AgendaUpdate {
-  id: string;
-  agendaId: string;
-  calendarEventId: string;
-  userId: string;
-  timestamp: Date;
-  updateType: 'created' | 'updated' | 'deleted';
-  changes: {
-    field: string;
-    oldValue?: string;
-    newValue?: string;
-  }[];
-  syncedAt?: Date;
-  syncStatus: 'pending' | 'success' | 'failed' | 'skipped';
-  errorMessage?: string;
-}
-
-export interface CalendarSyncSettings {
-  userId: string;
-  autoSync: boolean;
-  syncOnAgendaUpdate: boolean;
-  syncOnVersionChange: boolean;
-  includeAgendaInDescription: boolean;
-  updateEventTitle: boolean;
-  notifyOnSync: boolean;
-  lastSyncAt?: Date;
-  syncErrors: number;
-}
+import { and, asc, count, desc, eq, getTableColumns, inArray, isNotNull, isNull, lt, or } from 'drizzle-orm';
+import { db } from './storage.js';
+import {
+  calendarSyncConflicts,
+  calendarSyncSettings,
+  calendarSyncStates,
+  calendarSyncUpdates,
+  events,
+  users
+} from '../shared/schema.js';
+import type {
+  AgendaDocument,
+  CalendarConflictResolution,
+  CalendarEventData,
+  CalendarEventSnapshot,
+  CalendarFieldValue,
+  CalendarRetryEvent,
+  CalendarSyncChange,
+  CalendarSyncConflict,
+  CalendarSyncField,
+  CalendarSyncSettingsRecord,
+  CalendarSyncState,
+  CalendarSyncUpdate,
+  Event,
+  User
+} from '../shared/schema.js';
+import { renderAgendaPlainText } from '../shared/agendaDocument.js';
+import { toComparableLines } from '../shared/agendaDiff.js';
+import { agendaVersionService, type AgendaVersionService } from './agendaVersionService.js';
+import { emailNotificationService, type EmailNotificationService } from './emailNotificationService.js';
+import { userProfileService, type UserProfileService } from './userProfileService.js';
+import { authenticationErrorHandler, type AuthenticationErrorHandler } from './errorHandlers/authenticationErrorHandler.js';
+
+export type AgendaUpdate = CalendarSyncUpdate;
+export type CalendarSyncSettings = CalendarSyncSettingsRecord;
 
 export interface SyncResult {
   success: boolean;
@@ -39,12 +44,470 @@ export interface SyncResult {
   nextSyncAt?: Date;
 }
 
+export type { CalendarEventData };
+
+export interface CalendarEventPatch {
+  title?: string;
+  description?: string;
+  startTime?: string;
+  endTime?: string;
+  timeZone?: string; // The organizer's profile timezone, which Google shows the new time in
+  attendees?: string[];
+}
+
+export interface CalendarChanges {
+  events: CalendarEventData[];
+  nextSyncToken: string;
+}
+
+/**
+ * Google rejects a sync token that is too old (HTTP 410); the calendar must be listed again in full
+ */
+export class SyncTokenExpiredError extends Error {
+  constructor() {
+    super('Calendar sync token expired');
+    this.name = 'SyncTokenExpiredError';
+  }
+}
+
+/**
+ * The subset of the Google Calendar API used for syncing.
+ * Tests pass an in-memory implementation instead of the googleapis client.
+ */
+export interface CalendarEventsClient {
+  // Events changed since the sync token, or every event when there is none
+  listChanges(calendarId: string, syncToken?: string): Promise<CalendarChanges>;
+  patchEvent(calendarId: string, eventId: string, patch: CalendarEventPatch, notifyAttendees: boolean): Promise<CalendarEventData>;
+}
+
+export type CalendarEventsClientFactory = (accessToken: string) => CalendarEventsClient;
+
+/**
+ * A user whose calendar is pulled in the background
+ */
+export interface CalendarSyncUser {
+  id: string;
+  googleId: string;
+  accessToken: string | null;
+  refreshToken: string | null; // Renews the access token, which expires about an hour after sign-in
+}
+
+// A conflict with the title of the meeting it belongs to
+export type CalendarSyncConflictSummary = CalendarSyncConflict & { meetingTitle: string };
+
+export interface CalendarPullResult {
+  checked: number;
+  updated: number;
+  conflicts: number;
+  fullSync: boolean;
+}
+
+type NewCalendarSyncSettings = typeof calendarSyncSettings.$inferInsert;
+type NewCalendarSyncUpdate = typeof calendarSyncUpdates.$inferInsert;
+type NewCalendarSyncConflict = typeof calendarSyncConflicts.$inferInsert;
+type NewEvent = typeof events.$inferInsert;
+type SyncStateChanges = Partial<Pick<CalendarSyncState, 'syncToken' | 'retryEvents' | 'lastSyncedAt' | 'lastFullSyncAt'>>;
+
+/**
+ * Persistence used by the calendar sync, so the merge logic can be tested without a database
+ */
+export interface CalendarSyncStore {
+  getSettings(userId: string): Promise<CalendarSyncSettings | undefined>;
+  // Creates the row with defaults when the user has none
+  saveSettings(userId: string, changes: Partial<NewCalendarSyncSettings>): Promise<CalendarSyncSettings>;
+  getSyncUsers(): Promise<CalendarSyncUser[]>;
+  // Calendars holding the user's synced meetings
+  getSyncCalendarIds(userId: string): Promise<string[]>;
+  getSyncState(userId: string, calendarId: string): Promise<CalendarSyncState | undefined>;
+  saveSyncState(userId: string, calendarId: string, changes: SyncStateChanges): Promise<void>;
+  getEvent(eventId: string): Promise<Event | undefined>;
+  getEventsByGoogleIds(userId: string, googleEventIds: string[]): Promise<Event[]>;
+  updateEvent(eventId: string, changes: Partial<NewEvent>): Promise<void>;
+  insertUpdate(update: NewCalendarSyncUpdate): Promise<CalendarSyncUpdate>;
+  updateUpdate(updateId: string, changes: Partial<NewCalendarSyncUpdate>): Promise<void>;
+  // Oldest first unless `newestFirst` is set
+  listUpdates(userId: string, options?: { status?: CalendarSyncUpdate['syncStatus']; limit?: number; newestFirst?: boolean }): Promise<CalendarSyncUpdate[]>;
+  countUpdates(userId: string, status?: CalendarSyncUpdate['syncStatus']): Promise<number>;
+  skipUpdates(userId: string, updateIds: string[]): Promise<number>;
+  deleteUpdatesBefore(userId: string, cutoff: Date): Promise<number>;
+  // Newest first
+  listConflicts(userId: string, status?: CalendarSyncConflict['status']): Promise<CalendarSyncConflictSummary[]>;
+  getConflict(userId: string, conflictId: string): Promise<CalendarSyncConflict | undefined>;
+  getOpenConflicts(eventId: string): Promise<CalendarSyncConflict[]>;
+  insertConflict(conflict: NewCalendarSyncConflict): Promise<CalendarSyncConflict>;
+  updateConflict(conflictId: string, changes: Partial<NewCalendarSyncConflict>): Promise<void>;
+}
+
+/**
+ * Store backed by the calendar_sync_* and events tables
+ */
+export const databaseCalendarSyncStore: CalendarSyncStore = {
+  async getSettings(userId) {
+    const [settings] = await db.select().from(calendarSyncSettings).where(eq(calendarSyncSettings.userId, userId)).limit(1);
+    return settings;
+  },
+
+  async saveSettings(userId, changes) {
+    const [settings] = await db
+      .insert(calendarSyncSettings)
+      .values({ ...changes, userId })
+      .onConflictDoUpdate({ target: calendarSyncSettings.userId, set: { ...changes, updatedAt: new Date() } })
+      .returning();
+    return settings;
+  },
+
+  async getSyncUsers() {
+    return db
+      .selectDistinct({ id: users.id, googleId: users.googleId, accessToken: users.accessToken, refreshToken: users.refreshToken })
+      .from(users)
+      .innerJoin(events, and(eq(events.userId, users.id), isNotNull(events.googleEventId)))
+      .leftJoin(calendarSyncSettings, eq(calendarSyncSettings.userId, users.id))
+      .where(and(
+        isNotNull(users.accessToken),
+        or(isNull(calendarSyncSettings.id), eq(calendarSyncSettings.autoSync, true))
+      ));
+  },
+
+  async getSyncCalendarIds(userId) {
+    const rows = await db
+      .selectDistinct({ calendarId: events.calendarId })
+      .from(events)
+      .where(and(eq(events.userId, userId), isNotNull(events.googleEventId)));
+    return rows.map(row => row.calendarId);
+  },
+
+  async getSyncState(userId, calendarId) {
+    const [state] = await db
+      .select()
+      .from(calendarSyncStates)
+      .where(and(eq(calendarSyncStates.userId, userId), eq(calendarSyncStates.calendarId, calendarId)))
+      .limit(1);
+    return state;
+  },
+
+  async saveSyncState(userId, calendarId, changes) {
+    await db
+      .insert(calendarSyncStates)
+      .values({ ...changes, userId, calendarId })
+      .onConflictDoUpdate({ target: [calendarSyncStates.userId, calendarSyncStates.calendarId], set: changes });
+  },
+
+  async getEvent(eventId) {
+    const [event] = await db.select().from(events).where(eq(events.id, eventId)).limit(1);
+    return event;
+  },
+
+  async getEventsByGoogleIds(userId, googleEventIds) {
+    if (googleEventIds.length === 0) {
+      return [];
+    }
+    return db.select().from(events).where(and(eq(events.userId, userId), inArray(events.googleEventId, googleEventIds)));
+  },
+
+  async updateEvent(eventId, changes) {
+    await db.update(events).set(changes).where(eq(events.id, eventId));
+  },
+
+  async insertUpdate(update) {
+    const [created] = await db.insert(calendarSyncUpdates).values(update).returning();
+    return created;
+  },
+
+  async updateUpdate(updateId, changes) {
+    await db.update(calendarSyncUpdates).set(changes).where(eq(calendarSyncUpdates.id, updateId));
+  },
+
+  async listUpdates(userId, { status, limit, newestFirst = false } = {}) {
+    const query = db
+      .select()
+      .from(calendarSyncUpdates)
+      .where(status
+        ? and(eq(calendarSyncUpdates.userId, userId), eq(calendarSyncUpdates.syncStatus, status))
+        : eq(calendarSyncUpdates.userId, userId))
+      .orderBy(newestFirst ? desc(calendarSyncUpdates.createdAt) : asc(calendarSyncUpdates.createdAt));
+    return limit === undefined ? query : query.limit(limit);
+  },
+
+  async countUpdates(userId, status) {
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(calendarSyncUpdates)
+      .where(status
+        ? and(eq(calendarSyncUpdates.userId, userId), eq(calendarSyncUpdates.syncStatus, status))
+        : eq(calendarSyncUpdates.userId, userId));
+    return total;
+  },
+
+  async skipUpdates(userId, updateIds) {
+    if (updateIds.length === 0) {
+      return 0;
+    }
+    const skipped = await db
+      .update(calendarSyncUpdates)
+      .set({ syncStatus: 'skipped' })
+      .where(and(eq(calendarSyncUpdates.userId, userId), inArray(calendarSyncUpdates.id, updateIds)))
+      .returning({ id: calendarSyncUpdates.id });
+    return skipped.length;
+  },
+
+  async deleteUpdatesBefore(userId, cutoff) {
+    const deleted = await db
+      .delete(calendarSyncUpdates)
+      .where(and(eq(calendarSyncUpdates.userId, userId), lt(calendarSyncUpdates.createdAt, cutoff)))
+      .returning({ id: calendarSyncUpdates.id });
+    return deleted.length;
+  },
+
+  async listConflicts(userId, status) {
+    return db
+      .select({ ...getTableColumns(calendarSyncConflicts), meetingTitle: events.title })
+      .from(calendarSyncConflicts)
+      .innerJoin(events, eq(events.id, calendarSyncConflicts.eventId))
+      .where(status
+        ? and(eq(calendarSyncConflicts.userId, userId), eq(calendarSyncConflicts.status, status))
+        : eq(calendarSyncConflicts.userId, userId))
+      .orderBy(desc(calendarSyncConflicts.detectedAt));
+  },
+
+  async getConflict(userId, conflictId) {
+    const [conflict] = await db
+      .select()
+      .from(calendarSyncConflicts)
+      .where(and(eq(calendarSyncConflicts.id, conflictId), eq(calendarSyncConflicts.userId, userId)))
+      .limit(1);
+    return conflict;
+  },
+
+  async getOpenConflicts(eventId) {
+    return db
+      .select()
+      .from(calendarSyncConflicts)
+      .where(and(eq(calendarSyncConflicts.eventId, eventId), eq(calendarSyncConflicts.status, 'open')));
+  },
+
+  async insertConflict(conflict) {
+    const [created] = await db.insert(calendarSyncConflicts).values(conflict).returning();
+    return created;
+  },
+
+  async updateConflict(conflictId, changes) {
+    await db.update(calendarSyncConflicts).set(changes).where(eq(calendarSyncConflicts.id, conflictId));
+  }
+};
+
+export const DEFAULT_CALENDAR_ID = 'primary';
+
+const SYNC_FIELDS: CalendarSyncField[] = ['title', 'description', 'time', 'attendees'];
+
+// How far back the first full listing of a calendar reaches
+const FULL_SYNC_LOOKBACK_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Pulls that try a pulled change before it is dropped
+const MAX_RECONCILE_ATTEMPTS = 3;
+
+const AGENDA_HEADER = '📋 Meeting Agenda';
+const JOIN_LINK_PREFIX = '🔗 Join Meeting:';
+
+/**
+ * Creates a Google Calendar client backed by googleapis
+ */
+export function createCalendarEventsClient(accessToken: string): CalendarEventsClient {
+  const oauth2Client = new google.auth.OAuth2();
+  oauth2Client.setCredentials({ access_token: accessToken });
+  const api = google.calendar({ version: 'v3', auth: oauth2Client });
+
+  const toEventData = (item: any): CalendarEventData => ({
+    id: item.id || '',
+    status: item.status === 'cancelled' || item.status === 'tentative' ? item.status : 'confirmed',
+    title: item.summary || '',
+    description: item.description || '',
+    startTime: item.start?.dateTime || item.start?.date || '',
+    endTime: item.end?.dateTime || item.end?.date || '',
+    // The organizer and booked rooms are not meeting attendees here
+    attendees: (item.attendees || [])
+      .filter((attendee: any) => attendee.email && !attendee.organizer && !attendee.resource)
+      .map((attendee: any) => attendee.email),
+    updated: item.updated || undefined
+  });
+
+  return {
+    async listChanges(calendarId, syncToken) {
+      const items: CalendarEventData[] = [];
+      let pageToken: string | undefined;
+      let nextSyncToken: string | undefined;
+      try {
+        do {
+          const res = await api.events.list({
+            calendarId,
+            maxResults: 250,
+            showDeleted: true,
+            pageToken,
+            ...(syncToken
+              ? { syncToken }
+              : { timeMin: new Date(Date.now() - FULL_SYNC_LOOKBACK_MS).toISOString() })
+          });
+          items.push(...(res.data.items || []).map(toEventData));
+          pageToken = res.data.nextPageToken || undefined;
+          nextSyncToken = res.data.nextSyncToken || undefined;
+        } while (pageToken);
+      } catch (error: any) {
+        if (error?.code === 410 || error?.response?.status === 410) {
+          throw new SyncTokenExpiredError();
+        }
+        throw error;
+      }
+      return { events: items, nextSyncToken: nextSyncToken || '' };
+    },
+
+    async patchEvent(calendarId, eventId, patch, notifyAttendees) {
+      const { timeZone } = patch;
+      const requestBody: any = {};
+      if (patch.title !== undefined) requestBody.summary = patch.title;
+      if (patch.description !== undefined) requestBody.description = patch.description;
+      if (patch.startTime) requestBody.start = { dateTime: patch.startTime, ...(timeZone && { timeZone }) };
+      if (patch.endTime) requestBody.end = { dateTime: patch.endTime, ...(timeZone && { timeZone }) };
+      if (patch.attendees) requestBody.attendees = patch.attendees.map(email => ({ email }));
+
+      const res = await api.events.patch({
+        calendarId,
+        eventId,
+        requestBody,
+        sendUpdates: notifyAttendees ? 'all' : 'none'
+      });
+      return toEventData(res.data);
+    }
+  };
+}
+
+const normalizeAttendees = (attendees: string[] | null | undefined) =>
+  Array.from(new Set((attendees || []).map(email => email.trim().toLowerCase()).filter(Boolean))).sort();
+
+const toIsoTime = (time: string | Date) => new Date(time).toISOString();
+
+/**
+ * The synced fields of a stored meeting
+ */
+export function snapshotFromEvent(event: Pick<Event, 'title' | 'description' | 'startTime' | 'endTime' | 'attendees'>): CalendarEventSnapshot {
+  return {
+    title: event.title,
+    description: event.description || '',
+    time: { startTime: toIsoTime(event.startTime), endTime: toIsoTime(event.endTime) },
+    attendees: normalizeAttendees(event.attendees)
+  };
+}
+
+/**
+ * The synced fields of an event in Google Calendar
+ */
+export function snapshotFromRemote(event: CalendarEventData): CalendarEventSnapshot {
+  return {
+    title: event.title,
+    description: event.description,
+    time: { startTime: toIsoTime(event.startTime), endTime: toIsoTime(event.endTime) },
+    attendees: normalizeAttendees(event.attendees)
+  };
+}
+
+// Google Calendar turns descriptions edited in its UI into HTML, so they are compared as visible text
+const comparableDescription = (description: string) =>
+  toComparableLines(description).map(line => line.trim()).filter(Boolean).join('\n');
+
+/**
+ * Whether two values of a synced field mean the same thing
+ */
+export function fieldValuesEqual(field: CalendarSyncField, a: CalendarFieldValue | null | undefined, b: CalendarFieldValue | null | undefined): boolean {
+  if (a == null || b == null) {
+    return a == b;
+  }
+  switch (field) {
+    case 'description':
+      return comparableDescription(a as string) === comparableDescription(b as string);
+    case 'time': {
+      const [x, y] = [a as CalendarEventSnapshot['time'], b as CalendarEventSnapshot['time']];
+      return Date.parse(x.startTime) === Date.parse(y.startTime) && Date.parse(x.endTime) === Date.parse(y.endTime);
+    }
+    case 'attendees':
+      return normalizeAttendees(a as string[]).join(',') === normalizeAttendees(b as string[]).join(',');
+    default:
+      return a === b;
+  }
+}
+
+export type FieldMergeOutcome = 'unchanged' | 'local_only' | 'remote_only' | 'converged' | 'conflict';
+
+export interface FieldMerge {
+  field: CalendarSyncField;
+  outcome: FieldMergeOutcome;
+  base: CalendarFieldValue;
+  local: CalendarFieldValue;
+  remote: CalendarFieldValue;
+}
+
+/**
+ * Three-way merge of each synced field against what both sides agreed on at the last sync.
+ * A field changed on one side takes that side's value; a field changed differently on both is a conflict.
+ */
+export function mergeEventFields(base: CalendarEventSnapshot, local: CalendarEventSnapshot, remote: CalendarEventSnapshot): FieldMerge[] {
+  return SYNC_FIELDS.map(field => {
+    const localChanged = !fieldValuesEqual(field, base[field], local[field]);
+    const remoteChanged = !fieldValuesEqual(field, base[field], remote[field]);
+
+    let outcome: FieldMergeOutcome;
+    if (!remoteChanged) {
+      outcome = localChanged ? 'local_only' : 'unchanged';
+    } else if (!localChanged) {
+      outcome = 'remote_only';
+    } else {
+      outcome = fieldValuesEqual(field, local[field], remote[field]) ? 'converged' : 'conflict';
+    }
+
+    return { field, outcome, base: base[field], local: local[field], remote: remote[field] };
+  });
+}
+
+/**
+ * The agenda text inside a calendar description written by formatAgendaForCalendar,
+ * without the header, meeting details and join link
+ */
+export function extractAgendaFromDescription(description: string): string {
+  const lines = toComparableLines(description);
+
+  let start = 0;
+  if (lines[start]?.trim() === AGENDA_HEADER) {
+    start++;
+    while (start < lines.length && (!lines[start].trim() || /^(Title|Purpose):/.test(lines[start].trim()))) {
+      start++;
+    }
+  }
+
+  let end = lines.length;
+  while (end > start && (!lines[end - 1].trim() || lines[end - 1].trim().startsWith(JOIN_LINK_PREFIX))) {
+    end--;
+  }
+
+  return lines.slice(start, end).join('\n').trim();
+}
+
+const describeValue = (value: CalendarFieldValue | null | undefined): string | undefined => {
+  if (value == null) return undefined;
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.join(', ');
+  return `${value.startTime} – ${value.endTime}`;
+};
+
 export class CalendarAgendaSyncService {
-  private updates = new Map<string, AgendaUpdate[]>();
-  private settings = new Map<string, CalendarSyncSettings>();
-  private readonly MAX_PENDING_UPDATES = 100;
+  private pollInterval?: NodeJS.Timeout;
   private readonly SYNC_COOLDOWN = 5 * 60 * 1000; // 5 minutes between syncs
 
+  constructor(
+    private readonly clientFactory: CalendarEventsClientFactory = createCalendarEventsClient,
+    private readonly store: CalendarSyncStore = databaseCalendarSyncStore,
+    private readonly agendaVersions: Pick<AgendaVersionService, 'createVersion'> = agendaVersionService,
+    private readonly notifier: Pick<EmailNotificationService, 'notifyCalendarSyncConflict'> = emailNotificationService,
+    private readonly profiles: Pick<UserProfileService, 'getWorkingHours' | 'getCalendarPreferences'> = userProfileService,
+    private readonly auth: Pick<AuthenticationErrorHandler, 'executeWithAuthRecovery'> = authenticationErrorHandler
+  ) {}
+
   /**
    * Get Google Calendar client for a user
    */
@@ -57,42 +520,24 @@ export class CalendarAgendaSyncService {
   /**
    * Create a sync settings entry for a user
    */
-  createSyncSettings(userId: string, settings: Partial<CalendarSyncSettings>): CalendarSyncSettings {
-    const defaultSettings: CalendarSyncSettings = {
-      userId,
-      autoSync: true,
-      syncOnAgendaUpdate: true,
-      syncOnVersionChange: false,
-      includeAgendaInDescription: true,
-      updateEventTitle: false,
-      notifyOnSync: false,
-      syncErrors: 0
-    };
-
-    const finalSettings = { ...defaultSettings, ...settings };
-    this.settings.set(userId, finalSettings);
-
+  async createSyncSettings(userId: string, settings: Partial<NewCalendarSyncSettings>): Promise<CalendarSyncSettings> {
+    const created = await this.store.saveSettings(userId, settings);
     console.log(`Created sync settings for user ${userId}`);
-    return finalSettings;
+    return created;
   }
 
   /**
-   * Get sync settings for a user
+   * Get sync settings for a user, creating the defaults on first use
    */
-  getSyncSettings(userId: string): CalendarSyncSettings | null {
-    return this.settings.get(userId) || null;
+  async getSyncSettings(userId: string): Promise<CalendarSyncSettings> {
+    return (await this.store.getSettings(userId)) || this.createSyncSettings(userId, {});
   }
 
   /**
    * Update sync settings for a user
    */
-  updateSyncSettings(userId: string, updates: Partial<CalendarSyncSettings>): CalendarSyncSettings | null {
-    const currentSettings = this.settings.get(userId);
-    if (!currentSettings) return null;
-
-    const updatedSettings = { ...currentSettings, ...updates };
-    this.settings.set(userId, updatedSettings);
-
+  async updateSyncSettings(userId: string, updates: Partial<NewCalendarSyncSettings>): Promise<CalendarSyncSettings> {
+    const updatedSettings = await this.store.saveSettings(userId, updates);
     console.log(`Updated sync settings for user ${userId}`);
     return updatedSettings;
   }
@@ -100,46 +545,32 @@ export class CalendarAgendaSyncService {
   /**
    * Queue an agenda update for calendar sync
    */
-  queueAgendaUpdate(
+  async queueAgendaUpdate(
     agendaId: string,
     calendarEventId: string,
     userId: string,
     updateType: AgendaUpdate['updateType'],
-    changes: AgendaUpdate['changes']
-  ): AgendaUpdate {
-    const update: AgendaUpdate = {
-      id: `sync_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    changes: CalendarSyncChange[]
+  ): Promise<AgendaUpdate> {
+    const update = await this.store.insertUpdate({
       agendaId,
       calendarEventId,
       userId,
-      timestamp: new Date(),
+      direction: 'push',
       updateType,
       changes,
       syncStatus: 'pending'
-    };
-
-    // Add to user's update queue
-    if (!this.updates.has(userId)) {
-      this.updates.set(userId, []);
-    }
-
-    const userUpdates = this.updates.get(userId)!;
-    userUpdates.push(update);
-
-    // Keep only recent updates
-    if (userUpdates.length > this.MAX_PENDING_UPDATES) {
-      userUpdates.splice(0, userUpdates.length - this.MAX_PENDING_UPDATES);
-    }
+    });
 
     console.log(`Queued agenda update for calendar sync: ${updateType} on agenda ${agendaId}`);
     return update;
   }
 
   /**
-   * Sync agenda updates to calendar
+   * Sync agenda updates to calendar. Changes made in Google Calendar are pulled first,
+   * so a field that now conflicts is left for the organizer instead of being overwritten.
    */
-  async syncToCalendar(user: User, agendaContent: string, meetingData: any): Promise<SyncResult> {
-    const startTime = Date.now();
+  async syncToCalendar(user: User, agendaContent: string | AgendaDocument, meetingData: any): Promise<SyncResult> {
     const result: SyncResult = {
       success: false,
       updatesProcessed: 0,
@@ -149,8 +580,8 @@ export class CalendarAgendaSyncService {
     };
 
     try {
-      const settings = this.getSyncSettings(user.id);
-      if (!settings?.autoSync) {
+      const settings = await this.getSyncSettings(user.id);
+      if (!settings.autoSync) {
         console.log(`Auto-sync disabled for user ${user.id}`);
         return { ...result, success: true };
       }
@@ -159,39 +590,41 @@ export class CalendarAgendaSyncService {
         throw new Error('User access token is missing');
       }
 
-      const calendar = this.getCalendarClient(user.accessToken);
-      const pendingUpdates = this.getPendingUpdates(user.id);
+      const pendingUpdates = await this.getPendingUpdates(user.id);
 
       if (pendingUpdates.length === 0) {
         console.log(`No pending updates for user ${user.id}`);
         return { ...result, success: true, updatesProcessed: 0 };
       }
 
+      try {
+        await this.pullUserCalendars(user);
+      } catch (error: any) {
+        console.error(`Failed to pull calendar changes before syncing for user ${user.id}:`, error);
+      }
+
+      const client = this.clientFactory(user.accessToken);
       result.updatesProcessed = pendingUpdates.length;
+      let syncErrors = settings.syncErrors;
 
       for (const update of pendingUpdates) {
         try {
-          await this.syncSingleUpdate(calendar, update, agendaContent, meetingData, settings);
-          update.syncStatus = 'success';
-          update.syncedAt = new Date();
-          result.updatesSynced++;
+          const synced = await this.syncSingleUpdate(client, user.id, update, agendaContent, meetingData, settings);
+          if (synced) {
+            await this.store.updateUpdate(update.id, { syncStatus: 'success', syncedAt: new Date() });
+            result.updatesSynced++;
+          } else {
+            await this.store.updateUpdate(update.id, { syncStatus: 'skipped', errorMessage: 'Waiting for a calendar conflict to be resolved' });
+          }
         } catch (error: any) {
-          update.syncStatus = 'failed';
-          update.errorMessage = error.message;
+          await this.store.updateUpdate(update.id, { syncStatus: 'failed', errorMessage: error.message });
           result.updatesFailed++;
           result.errors.push(`Failed to sync update ${update.id}: ${error.message}`);
-
-          // Increment error count in settings
-          if (settings) {
-            settings.syncErrors++;
-          }
+          syncErrors++;
         }
       }
 
-      // Update last sync time
-      if (settings) {
-        settings.lastSyncAt = new Date();
-      }
+      await this.store.saveSettings(user.id, { lastSyncAt: new Date(), syncErrors });
 
       result.success = result.updatesFailed === 0;
       result.nextSyncAt = new Date(Date.now() + this.SYNC_COOLDOWN);
@@ -207,16 +640,17 @@ export class CalendarAgendaSyncService {
   }
 
   /**
-   * Sync a single agenda update to calendar
+   * Sync a single agenda update to calendar. Returns false when every change was held back by an open conflict.
    */
   private async syncSingleUpdate(
-    calendar: any,
+    client: CalendarEventsClient,
+    userId: string,
     update: AgendaUpdate,
-    agendaContent: string,
+    agendaContent: string | AgendaDocument,
     meetingData: any,
     settings: CalendarSyncSettings
-  ): Promise<void> {
-    const eventPatch: any = {};
+  ): Promise<boolean> {
+    const eventPatch: CalendarEventPatch = {};
 
     // Update event description with agenda content if enabled
     if (settings.includeAgendaInDescription && agendaContent) {
@@ -226,44 +660,70 @@ export class CalendarAgendaSyncService {
     // Update event title if enabled and title has changed
     const titleChange = update.changes.find(c => c.field === 'title');
     if (settings.updateEventTitle && titleChange && titleChange.newValue) {
-      eventPatch.summary = titleChange.newValue;
+      eventPatch.title = titleChange.newValue;
     }
 
     // Update event timing if changed
     const timeChange = update.changes.find(c => c.field === 'startTime' || c.field === 'endTime');
     if (timeChange && meetingData.startTime && meetingData.endTime) {
-      eventPatch.start = {
-        dateTime: meetingData.startTime,
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-      };
-      eventPatch.end = {
-        dateTime: meetingData.endTime,
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
-      };
+      eventPatch.startTime = meetingData.startTime;
+      eventPatch.endTime = meetingData.endTime;
     }
 
     // Only update if there are actual changes
     if (Object.keys(eventPatch).length === 0) {
       console.log(`No calendar changes needed for update ${update.id}`);
-      return;
+      return true;
     }
 
-    // Update the calendar event
-    await calendar.events.patch({
-      calendarId: 'primary',
-      eventId: update.calendarEventId,
-      resource: eventPatch,
-      sendUpdates: 'none' // Don't send notifications for agenda updates
-    });
+    // Fields the organizer still has to decide on are not overwritten
+    const [event] = await this.store.getEventsByGoogleIds(userId, [update.calendarEventId]);
+    if (event) {
+      for (const conflict of await this.store.getOpenConflicts(event.id)) {
+        if (conflict.field === 'time') {
+          delete eventPatch.startTime;
+          delete eventPatch.endTime;
+        } else if (conflict.field === 'title' || conflict.field === 'description') {
+          delete eventPatch[conflict.field];
+        }
+      }
+      if (Object.keys(eventPatch).length === 0) {
+        return false;
+      }
+    }
+
+    // Don't send notifications for agenda updates
+    const patched = await client.patchEvent(event?.calendarId || DEFAULT_CALENDAR_ID, update.calendarEventId, eventPatch, false);
+
+    // Record what Google now has, so the next pull does not see this push as an outside edit
+    if (event) {
+      const remote = snapshotFromRemote(patched);
+      await this.store.updateEvent(event.id, {
+        ...(eventPatch.title !== undefined && { title: remote.title }),
+        ...(eventPatch.description !== undefined && { description: remote.description }),
+        ...(eventPatch.startTime !== undefined && { startTime: new Date(remote.time.startTime), endTime: new Date(remote.time.endTime) }),
+        syncedSnapshot: remote,
+        lastSyncedAt: new Date()
+      });
+    }
 
     console.log(`Successfully synced update ${update.id} to calendar event ${update.calendarEventId}`);
+    return true;
   }
 
   /**
    * Format agenda content for calendar description
    */
-  private formatAgendaForCalendar(agendaContent: string, meetingData: any): string {
-    // Strip HTML tags and format for calendar
+  private formatAgendaForCalendar(agendaContent: string | AgendaDocument, meetingData: any): string {
+    // Structured agendas render directly; legacy HTML/markdown strings are stripped of tags
+    if (typeof agendaContent !== 'string') {
+      let description = `${AGENDA_HEADER}\n\n${renderAgendaPlainText(agendaContent)}`;
+      if (meetingData.meetingLink) {
+        description += `\n\n${JOIN_LINK_PREFIX} ${meetingData.meetingLink}`;
+      }
+      return description;
+    }
+
     const textContent = agendaContent
       .replace(/<[^>]*>/g, '') // Remove HTML tags
       .replace(/&nbsp;/g, ' ') // Replace non-breaking spaces
@@ -273,7 +733,7 @@ export class CalendarAgendaSyncService {
       .trim();
 
     // Create a nicely formatted calendar description
-    let description = `📋 Meeting Agenda\n\n`;
+    let description = `${AGENDA_HEADER}\n\n`;
 
     if (meetingData.title) {
       description += `Title: ${meetingData.title}\n`;
@@ -288,57 +748,356 @@ export class CalendarAgendaSyncService {
 
     // Add meeting link if available
     if (meetingData.meetingLink) {
-      description += `\n\n🔗 Join Meeting: ${meetingData.meetingLink}`;
+      description += `\n\n${JOIN_LINK_PREFIX} ${meetingData.meetingLink}`;
     }
 
     return description;
   }
 
+  /**
+   * Pulls changes made in one user's Google Calendar since the last sync into their stored meetings
+   */
+  async pullUser(syncUser: CalendarSyncUser, calendarId: string = DEFAULT_CALENDAR_ID): Promise<CalendarPullResult> {
+    const result: CalendarPullResult = { checked: 0, updated: 0, conflicts: 0, fullSync: false };
+    if (!syncUser.accessToken) {
+      return result;
+    }
+
+    const state = await this.store.getSyncState(syncUser.id, calendarId);
+
+    // Pulls run in the background, long after the access token from sign-in expired;
+    // a rejected token is refreshed (and saved) through the auth error handler
+    const changes = await this.auth.executeWithAuthRecovery(async user => {
+      syncUser.accessToken = user.accessToken;
+      const client = this.clientFactory(user.accessToken!);
+      try {
+        const listed = await client.listChanges(calendarId, state?.syncToken || undefined);
+        result.fullSync = !state?.syncToken;
+        return listed;
+      } catch (error) {
+        if (!(error instanceof SyncTokenExpiredError)) {
+          throw error;
+        }
+        console.log(`Calendar sync token expired for user ${syncUser.id}, running a full sync`);
+        result.fullSync = true;
+        return client.listChanges(calendarId);
+      }
+    }, syncUser, 'pulling calendar changes');
+
+    // Changes that failed to reconcile on earlier pulls are tried again, unless the
+    // event was changed since and is listed with its newer data
+    const listedIds = new Set(changes.events.map(event => event.id));
+    const pending: CalendarRetryEvent[] = [
+      ...(state?.retryEvents || []).filter(retry => !listedIds.has(retry.event.id)),
+      ...changes.events.map(event => ({ event, attempts: 0 }))
+    ];
+
+    const localEvents = await this.store.getEventsByGoogleIds(syncUser.id, pending.map(retry => retry.event.id));
+    const localByGoogleId = new Map(localEvents.map(event => [event.googleEventId!, event]));
+    const retryEvents: CalendarRetryEvent[] = [];
+
+    for (const { event: remote, attempts } of pending) {
+      const local = localByGoogleId.get(remote.id);
+      if (!local) {
+        continue;
+      }
+
+      result.checked++;
+      try {
+        const outcome = await this.reconcileEvent(syncUser.id, local, remote);
+        if (outcome.updated) result.updated++;
+        result.conflicts += outcome.conflicts;
+      } catch (error) {
+        if (attempts + 1 < MAX_RECONCILE_ATTEMPTS) {
+          console.error(`Failed to reconcile calendar event ${remote.id}, retrying on the next pull:`, error);
+          retryEvents.push({ event: remote, attempts: attempts + 1 });
+        } else {
+          console.error(`Giving up on calendar event ${remote.id} after ${MAX_RECONCILE_ATTEMPTS} attempts:`, error);
+        }
+      }
+    }
+
+    // The token always moves forward; failed changes are kept with the sync state instead
+    const syncedAt = new Date();
+    await this.store.saveSyncState(syncUser.id, calendarId, {
+      syncToken: changes.nextSyncToken || null,
+      retryEvents,
+      lastSyncedAt: syncedAt,
+      ...(result.fullSync && { lastFullSyncAt: syncedAt })
+    });
+    await this.store.saveSettings(syncUser.id, { lastSyncAt: syncedAt });
+
+    if (result.updated > 0 || result.conflicts > 0) {
+      console.log(`📅 Pulled calendar changes for user ${syncUser.id}: ${result.updated} updated, ${result.conflicts} conflicts`);
+    }
+    return result;
+  }
+
+  /**
+   * Pulls changes from every calendar the user's meetings were created in.
+   * Each calendar keeps its own sync token; one failing does not stop the others.
+   */
+  async pullUserCalendars(syncUser: CalendarSyncUser): Promise<CalendarPullResult> {
+    const totals: CalendarPullResult = { checked: 0, updated: 0, conflicts: 0, fullSync: false };
+    const storedCalendarIds = await this.store.getSyncCalendarIds(syncUser.id);
+    const calendarIds = storedCalendarIds.length > 0 ? storedCalendarIds : [DEFAULT_CALENDAR_ID];
+    const errors: unknown[] = [];
+
+    for (const calendarId of calendarIds) {
+      try {
+        const result = await this.pullUser(syncUser, calendarId);
+        totals.checked += result.checked;
+        totals.updated += result.updated;
+        totals.conflicts += result.conflicts;
+        totals.fullSync = totals.fullSync || result.fullSync;
+      } catch (error) {
+        console.error(`Failed to pull calendar ${calendarId} for user ${syncUser.id}:`, error);
+        errors.push(error);
+      }
+    }
+
+    // Nothing could be pulled at all
+    if (errors.length === calendarIds.length) {
+      throw errors[0];
+    }
+    return totals;
+  }
+
+  /**
+   * Pulls calendar changes for every user with synced meetings
+   */
+  async pullAll(): Promise<CalendarPullResult> {
+    const totals: CalendarPullResult = { checked: 0, updated: 0, conflicts: 0, fullSync: false };
+
+    for (const syncUser of await this.store.getSyncUsers()) {
+      try {
+        const result = await this.pullUserCalendars(syncUser);
+        totals.checked += result.checked;
+        totals.updated += result.updated;
+        totals.conflicts += result.conflicts;
+      } catch (error) {
+        console.error(`Failed to pull calendar changes for user ${syncUser.id}:`, error);
+      }
+    }
+
+    return totals;
+  }
+
+  /**
+   * Merges one changed Google event into its stored meeting
+   */
+  private async reconcileEvent(userId: string, local: Event, remote: CalendarEventData): Promise<{ updated: boolean; conflicts: number }> {
+    if (remote.status === 'cancelled') {
+      // Cancelling is left to the organizer; the meeting is only flagged
+      await this.store.insertUpdate({
+        userId,
+        agendaId: remote.id,
+        calendarEventId: remote.id,
+        direction: 'pull',
+        updateType: 'deleted',
+        changes: [],
+        syncStatus: 'skipped',
+        errorMessage: 'Event was cancelled in Google Calendar',
+        syncedAt: new Date()
+      });
+      return { updated: false, conflicts: 0 };
+    }
+
+    const localSnapshot = snapshotFromEvent(local);
+    const remoteSnapshot = snapshotFromRemote(remote);
+    // Meetings synced before snapshots were kept treat the stored values as the common base
+    const base = local.syncedSnapshot || localSnapshot;
+    const merges = mergeEventFields(base, localSnapshot, remoteSnapshot);
+
+    const eventChanges: Partial<NewEvent> = {};
+    const changeLog: CalendarSyncChange[] = [];
+    const nextSnapshot: CalendarEventSnapshot = { ...remoteSnapshot };
+    const openConflicts = await this.store.getOpenConflicts(local.id);
+    const newConflicts: CalendarSyncConflict[] = [];
+
+    for (const merge of merges) {
+      const openConflict = openConflicts.find(conflict => conflict.field === merge.field);
+
+      if (merge.outcome === 'conflict') {
+        // Keep the old base until the organizer decides, so the conflict stays visible
+        (nextSnapshot as any)[merge.field] = merge.base;
+        if (openConflict) {
+          await this.store.updateConflict(openConflict.id, { localValue: merge.local, remoteValue: merge.remote });
+        } else {
+          newConflicts.push(await this.store.insertConflict({
+            userId,
+            eventId: local.id,
+            googleEventId: remote.id,
+            field: merge.field,
+            baseValue: merge.base,
+            localValue: merge.local,
+            remoteValue: merge.remote
+          }));
+        }
+        continue;
+      }
+
+      if (merge.outcome === 'local_only') {
+        // Not pushed yet; the base stays so the next push or pull still sees the local change
+        (nextSnapshot as any)[merge.field] = merge.base;
+      }
+
+      if (openConflict && (merge.outcome === 'converged' || merge.outcome === 'unchanged')) {
+        await this.store.updateConflict(openConflict.id, { status: 'resolved', resolvedAt: new Date() });
+      }
+
+      if (merge.outcome === 'remote_only') {
+        Object.assign(eventChanges, await this.applyRemoteValue(userId, local, merge.field, merge.remote));
+        changeLog.push({ field: merge.field, oldValue: describeValue(merge.local), newValue: describeValue(merge.remote) });
+      }
+    }
+
+    await this.store.updateEvent(local.id, { ...eventChanges, syncedSnapshot: nextSnapshot, lastSyncedAt: new Date() });
+
+    if (changeLog.length > 0 || newConflicts.length > 0) {
+      await this.store.insertUpdate({
+        userId,
+        agendaId: remote.id,
+        calendarEventId: remote.id,
+        direction: 'pull',
+        updateType: 'updated',
+        changes: changeLog,
+        syncStatus: changeLog.length > 0 ? 'success' : 'skipped',
+        errorMessage: newConflicts.length > 0 ? `Conflicting changes to ${newConflicts.map(c => c.field).join(', ')}` : null,
+        syncedAt: new Date()
+      });
+    }
+
+    if (newConflicts.length > 0) {
+      this.notifier.notifyCalendarSyncConflict(
+        userId,
+        newConflicts[0].id,
+        local.title,
+        newConflicts.map(conflict => conflict.field),
+        { eventId: local.id, googleEventId: remote.id, conflictIds: newConflicts.map(conflict => conflict.id) }
+      );
+    }
+
+    return { updated: changeLog.length > 0, conflicts: newConflicts.length };
+  }
+
+  /**
+   * Local column changes for a value taken from Google. An edited description also
+   * updates the meeting's agenda and records it in the agenda's version history.
+   */
+  private async applyRemoteValue(userId: string, local: Event, field: CalendarSyncField, value: CalendarFieldValue): Promise<Partial<NewEvent>> {
+    switch (field) {
+      case 'title':
+        return { title: value as string };
+      case 'time': {
+        const time = value as CalendarEventSnapshot['time'];
+        return { startTime: new Date(time.startTime), endTime: new Date(time.endTime) };
+      }
+      case 'attendees':
+        return { attendees: value as string[] };
+      case 'description': {
+        const description = value as string;
+        const agenda = extractAgendaFromDescription(description);
+        if (!local.googleEventId || (!local.agenda && !description.includes(AGENDA_HEADER)) ||
+          comparableDescription(agenda) === comparableDescription(local.agenda || '')) {
+          return { description };
+        }
+
+        await this.agendaVersions.createVersion(local.googleEventId, agenda, local.title, userId, 'edited', {
+          authorName: 'Google Calendar',
+          changeDescription: 'Edited in Google Calendar',
+          metadata: { generationMethod: 'manual' }
+        });
+        return { description, agenda };
+      }
+    }
+  }
+
+  /**
+   * Conflicts waiting for the organizer, newest first
+   */
+  async getConflicts(userId: string, status: CalendarSyncConflict['status'] = 'open'): Promise<CalendarSyncConflictSummary[]> {
+    return this.store.listConflicts(userId, status);
+  }
+
+  /**
+   * Settles a conflict by keeping the local value (sent to Google) or taking Google's.
+   * Returns undefined when the conflict does not exist or was already resolved.
+   */
+  async resolveConflict(
+    user: Pick<User, 'id' | 'accessToken'>,
+    conflictId: string,
+    resolution: CalendarConflictResolution
+  ): Promise<CalendarSyncConflict | undefined> {
+    const conflict = await this.store.getConflict(user.id, conflictId);
+    if (!conflict || conflict.status !== 'open') {
+      return undefined;
+    }
+
+    const event = await this.store.getEvent(conflict.eventId);
+    if (!event) {
+      return undefined;
+    }
+
+    const field = conflict.field;
+    const snapshot: CalendarEventSnapshot = { ...(event.syncedSnapshot || snapshotFromEvent(event)) };
+    let eventChanges: Partial<NewEvent> = {};
+
+    if (resolution === 'keep_local') {
+      if (!user.accessToken) {
+        throw new Error('User access token is missing');
+      }
+      const local = snapshotFromEvent(event)[field];
+      const patch: CalendarEventPatch = field === 'time'
+        ? { ...(local as CalendarEventSnapshot['time']), timeZone: (await this.profiles.getWorkingHours(user.id)).timezone }
+        : { [field]: local };
+      // Attendees hear about new times and guest lists, not wording changes
+      const notifyAttendees = field === 'time' || field === 'attendees';
+      const patched = await this.clientFactory(user.accessToken)
+        .patchEvent(event.calendarId || DEFAULT_CALENDAR_ID, conflict.googleEventId, patch, notifyAttendees);
+      (snapshot as any)[field] = snapshotFromRemote(patched)[field];
+    } else {
+      const remote = conflict.remoteValue as CalendarFieldValue;
+      eventChanges = await this.applyRemoteValue(user.id, event, field, remote);
+      (snapshot as any)[field] = remote;
+    }
+
+    await this.store.updateEvent(event.id, { ...eventChanges, syncedSnapshot: snapshot, lastSyncedAt: new Date() });
+
+    const resolved = { status: 'resolved' as const, resolution, resolvedAt: new Date() };
+    await this.store.updateConflict(conflict.id, resolved);
+    console.log(`Resolved calendar conflict ${conflict.id} on ${field} (${resolution})`);
+    return { ...conflict, ...resolved };
+  }
+
   /**
    * Get pending updates for a user
    */
-  getPendingUpdates(userId: string): AgendaUpdate[] {
-    const userUpdates = this.updates.get(userId) || [];
-    return userUpdates.filter(update => update.syncStatus === 'pending');
+  async getPendingUpdates(userId: string): Promise<AgendaUpdate[]> {
+    return this.store.listUpdates(userId, { status: 'pending' });
   }
 
   /**
    * Get all updates for a user
    */
-  getAllUpdates(userId: string): AgendaUpdate[] {
-    return this.updates.get(userId) || [];
+  async getAllUpdates(userId: string): Promise<AgendaUpdate[]> {
+    return this.store.listUpdates(userId);
   }
 
   /**
    * Mark updates as processed
    */
-  markUpdatesProcessed(userId: string, updateIds: string[]): number {
-    const userUpdates = this.updates.get(userId) || [];
-    let markedCount = 0;
-
-    userUpdates.forEach(update => {
-      if (updateIds.includes(update.id)) {
-        update.syncStatus = 'skipped';
-        markedCount++;
-      }
-    });
-
-    return markedCount;
+  async markUpdatesProcessed(userId: string, updateIds: string[]): Promise<number> {
+    return this.store.skipUpdates(userId, updateIds);
   }
 
   /**
    * Clean up old updates
    */
-  cleanupOldUpdates(userId: string, olderThanDays: number = 30): number {
-    const userUpdates = this.updates.get(userId) || [];
+  async cleanupOldUpdates(userId: string, olderThanDays: number = 30): Promise<number> {
     const cutoffDate = new Date(Date.now() - olderThanDays * 24 * 60 * 60 * 1000);
+    const removedCount = await this.store.deleteUpdatesBefore(userId, cutoffDate);
 
-    const initialCount = userUpdates.length;
-    const filteredUpdates = userUpdates.filter(update => update.timestamp > cutoffDate);
-
-    this.updates.set(userId, filteredUpdates);
-
-    const removedCount = initialCount - filteredUpdates.length;
     if (removedCount > 0) {
       console.log(`Cleaned up ${removedCount} old updates for user ${userId}`);
     }
@@ -349,43 +1108,55 @@ export class CalendarAgendaSyncService {
   /**
    * Get sync statistics for a user
    */
-  getSyncStats(userId: string): {
-    settings: CalendarSyncSettings | null;
+  async getSyncStats(userId: string): Promise<{
+    settings: CalendarSyncSettings;
     pendingUpdates: number;
     totalUpdates: number;
+    openConflicts: number;
     lastSyncAt?: Date;
     syncErrors: number;
     recentUpdates: AgendaUpdate[];
-  } {
-    const settings = this.getSyncSettings(userId);
-    const allUpdates = this.getAllUpdates(userId);
-    const pendingUpdates = this.getPendingUpdates(userId);
+  }> {
+    const [settings, pendingUpdates, totalUpdates, conflicts, recentUpdates] = await Promise.all([
+      this.getSyncSettings(userId),
+      this.store.countUpdates(userId, 'pending'),
+      this.store.countUpdates(userId),
+      this.store.listConflicts(userId, 'open'),
+      this.store.listUpdates(userId, { limit: 10, newestFirst: true })
+    ]);
 
     return {
       settings,
-      pendingUpdates: pendingUpdates.length,
-      totalUpdates: allUpdates.length,
-      lastSyncAt: settings?.lastSyncAt,
-      syncErrors: settings?.syncErrors || 0,
-      recentUpdates: allUpdates.slice(-10) // Last 10 updates
+      pendingUpdates,
+      totalUpdates,
+      openConflicts: conflicts.length,
+      lastSyncAt: settings.lastSyncAt || undefined,
+      syncErrors: settings.syncErrors,
+      recentUpdates
     };
   }
 
   /**
    * Force sync all pending updates for a user
    */
-  async forceSync(user: User, agendaContent: string, meetingData: any): Promise<SyncResult> {
+  async forceSync(user: User, agendaContent: string | AgendaDocument, meetingData: any): Promise<SyncResult> {
     console.log(`Force syncing all pending updates for user ${user.id}`);
 
     // Reset error count
-    const settings = this.getSyncSettings(user.id);
-    if (settings) {
-      settings.syncErrors = 0;
-    }
+    await this.store.saveSettings(user.id, { syncErrors: 0 });
 
     return this.syncToCalendar(user, agendaContent, meetingData);
   }
 
+  /**
+   * Calendars the user selected in their profile: those counted as busy time and those
+   * their meetings are created in
+   */
+  private async getSelectedCalendarIds(userId: string): Promise<string[]> {
+    const { busyCalendarIds, meetingTypeCalendars } = await this.profiles.getCalendarPreferences(userId);
+    return Array.from(new Set([...busyCalendarIds, ...Object.values(meetingTypeCalendars).filter((id): id is string => Boolean(id))]));
+  }
+
   /**
    * Test calendar connection
    */
@@ -397,14 +1168,20 @@ export class CalendarAgendaSyncService {
 
       const calendar = this.getCalendarClient(user.accessToken);
 
-      // Try to list calendar events
-      await calendar.events.list({
-        calendarId: 'primary',
-        maxResults: 1,
-        orderBy: 'startTime',
-        singleEvents: true,
-        timeMin: new Date().toISOString()
-      });
+      // Try to list events from every selected calendar
+      for (const calendarId of await this.getSelectedCalendarIds(user.id)) {
+        try {
+          await calendar.events.list({
+            calendarId,
+            maxResults: 1,
+            orderBy: 'startTime',
+            singleEvents: true,
+            timeMin: new Date().toISOString()
+          });
+        } catch (error: any) {
+          return { success: false, error: `Calendar ${calendarId}: ${error.message}` };
+        }
+      }
 
       return { success: true };
     } catch (error: any) {
@@ -428,16 +1205,28 @@ export class CalendarAgendaSyncService {
       const timeMin = new Date();
       const timeMax = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000);
 
-      const response = await calendar.events.list({
-        calendarId: 'primary',
-        timeMin: timeMin.toISOString(),
-        timeMax: timeMax.toISOString(),
-        maxResults: 50,
-        singleEvents: true,
-        orderBy: 'startTime'
-      });
+      const results = await Promise.all((await this.getSelectedCalendarIds(user.id)).map(async calendarId => {
+        try {
+          const response = await calendar.events.list({
+            calendarId,
+            timeMin: timeMin.toISOString(),
+            timeMax: timeMax.toISOString(),
+            maxResults: 50,
+            singleEvents: true,
+            orderBy: 'startTime'
+          });
+          return (response.data.items || []).map(event => ({ ...event, calendarId }));
+        } catch (error: any) {
+          if (calendarId === DEFAULT_CALENDAR_ID) {
+            throw error;
+          }
+          console.warn(`Skipping calendar ${calendarId} that could not be read:`, error.message);
+          return [];
+        }
+      }));
 
-      const events = response.data.items || [];
+      const events = results.flat().sort((a, b) =>
+        new Date(a.start?.dateTime || a.start?.date || 0).getTime() - new Date(b.start?.dateTime || b.start?.date || 0).getTime());
 
       // Filter events that might be related to agendas
       return events.filter(event => {
@@ -458,7 +1247,32 @@ export class CalendarAgendaSyncService {
       return [];
     }
   }
+
+  /**
+   * Start pulling Google Calendar changes in the background
+   */
+  startPolling(intervalMs: number = 5 * 60 * 1000): void {
+    this.stopPolling();
+
+    this.pollInterval = setInterval(() => {
+      this.pullAll().catch(error => {
+        console.error('Error pulling Google Calendar changes:', error);
+      });
+    }, intervalMs);
+
+    console.log('Google Calendar sync polling started');
+  }
+
+  /**
+   * Stop background polling
+   */
+  stopPolling(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
 }
 
 // Export singleton instance
-export const calendarAgendaSyncService = new CalendarAgendaSyncService();
\ No newline at end of file
+export const calendarAgendaSyncService = new CalendarAgendaSyncService();
@@ -1,6 +1,15 @@
 import { google } from 'googleapis';
 import { User } from '../shared/schema';
 import { withCalendarErrorHandling } from './errorHandlers/calendarErrorHandler.js';
+import { parseRRule, expandOccurrences, DEFAULT_OCCURRENCE_CHECK_LIMIT } from './recurrenceService.js';
+import { calendarFeedService } from './calendarFeedService.js';
+import { userProfileService } from './userProfileService.js';
+import {
+  DEFAULT_WORKING_HOURS_PROFILE,
+  getWorkingDayBounds,
+  isWithinWorkingHours,
+  type WorkingHoursProfile
+} from './utils/workingHours.js';
 
 // Types for calendar availability checking
 export interface CalendarEvent {
@@ -12,6 +21,7 @@ export interface CalendarEvent {
   transparency?: string;
   attendees?: string[];
   location?: string;
+  source?: string; // name of the external calendar feed the event came from
 }
 
 export interface TimeSlot {
@@ -33,14 +43,43 @@ export interface ConflictDetails {
   totalConflicts: number;
 }
 
-/**
- * Business hours configuration
- */
-const BUSINESS_HOURS = {
-  start: 9, // 9 AM
-  end: 17,  // 5 PM
-  days: [1, 2, 3, 4, 5] // Monday to Friday (0 = Sunday, 6 = Saturday)
-};
+export interface OccurrenceAvailability {
+  startTime: Date;
+  endTime: Date;
+  conflicts: CalendarEvent[];
+}
+
+export interface RecurringAvailabilityResult {
+  isAvailable: boolean;
+  occurrencesChecked: number;
+  occurrences: OccurrenceAvailability[];
+  conflictingOccurrences: OccurrenceAvailability[];
+}
+
+export interface SlotAttendee {
+  email: string;
+  isRequired: boolean;
+  workingHours?: WorkingHoursProfile; // known for attendees who have a profile
+}
+
+export interface BusyInterval {
+  startTime: Date;
+  endTime: Date;
+}
+
+export interface RankedTimeSlot extends TimeSlot {
+  requiredConflicts: string[]; // emails of required attendees who are busy
+  optionalConflicts: string[]; // emails of optional attendees who are busy
+  distanceMinutes: number; // distance from the requested start time
+  outsideWorkingHours: string[]; // emails of attendees for whom the slot is outside their working hours
+}
+
+export interface MultiAttendeeSlotResult {
+  requestedSlot: RankedTimeSlot; // the originally requested time, scored the same way
+  slots: RankedTimeSlot[];
+  attendeesChecked: string[];
+  unavailableCalendars: string[]; // calendars whose free/busy could not be read
+}
 
 /**
  * Get Google Calendar API client
@@ -87,6 +126,70 @@ function isConflictingEvent(event: CalendarEvent): boolean {
   return true;
 }
 
+/**
+ * Busy events from the user's external calendar feeds. Feeds only add busy time,
+ * so one that cannot be read never fails the availability check.
+ */
+async function getFeedEvents(user: User, startTime: Date, endTime: Date): Promise<CalendarEvent[]> {
+  try {
+    return await calendarFeedService.getBusyEvents(user.id, startTime, endTime);
+  } catch (error) {
+    console.error('Error reading calendar feeds:', error);
+    return [];
+  }
+}
+
+/**
+ * Google calendars the user counts as busy time (their primary calendar unless they chose others)
+ */
+async function getBusyCalendarIds(user: User): Promise<string[]> {
+  return (await userProfileService.getCalendarPreferences(user.id)).busyCalendarIds;
+}
+
+/**
+ * Busy events across the user's busy calendars. The primary calendar has to load; another
+ * calendar that cannot be read (e.g. a share that was removed) is skipped.
+ * Events that are on more than one of the calendars are counted once.
+ */
+async function listBusyCalendarEvents(
+  user: User,
+  calendar: ReturnType<typeof getCalendarClient>,
+  timeMin: Date,
+  timeMax: Date,
+  maxResults?: number
+): Promise<CalendarEvent[]> {
+  const calendarIds = await getBusyCalendarIds(user);
+
+  const results = await Promise.all(calendarIds.map(async calendarId => {
+    try {
+      const response = await calendar.events.list({
+        calendarId,
+        timeMin: timeMin.toISOString(),
+        timeMax: timeMax.toISOString(),
+        singleEvents: true,
+        orderBy: 'startTime',
+        maxResults
+      });
+      return response.data.items || [];
+    } catch (error) {
+      if (calendarId === 'primary') {
+        throw error;
+      }
+      console.warn(`Skipping calendar ${calendarId} in availability check:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }));
+
+  const seen = new Set<string>();
+  return results.flat().map(transformGoogleEvent).filter(event => {
+    if (!isConflictingEvent(event) || (event.id && seen.has(event.id))) {
+      return false;
+    }
+    seen.add(event.id);
+    return true;
+  });
+}
+
 /**
  * Check for calendar conflicts in a specific time range
  * Requirements: 4.1, 4.2
@@ -104,22 +207,11 @@ export async function checkCalendarConflicts(
 
       const calendar = getCalendarClient(user.accessToken);
       
-      // Query for events in the proposed time range
-      const response = await calendar.events.list({
-        calendarId: 'primary',
-        timeMin: startTime.toISOString(),
-        timeMax: endTime.toISOString(),
-        singleEvents: true,
-        orderBy: 'startTime',
-        maxResults: 50 // Reasonable limit for conflict checking
-      });
-
-      const events = response.data.items || [];
-      
-      // Transform and filter events
-      const calendarEvents = events
-        .map(transformGoogleEvent)
-        .filter(isConflictingEvent);
+      // Query for events in the proposed time range (50 per calendar is plenty for a conflict check)
+      const calendarEvents = [
+        ...await listBusyCalendarEvents(user, calendar, startTime, endTime, 50),
+        ...await getFeedEvents(user, startTime, endTime)
+      ];
       
       // Find actual conflicts (events that overlap with proposed time)
       const conflictingEvents = calendarEvents.filter(event => {
@@ -176,20 +268,58 @@ export async function checkCalendarAvailability(
 }
 
 /**
- * Check if a time slot falls within business hours
+ * Check conflicts across the first N occurrences of a recurring meeting
+ * Fetches the whole series window in one request and matches events to each occurrence
  */
-function isWithinBusinessHours(startTime: Date, endTime: Date): boolean {
-  const startHour = startTime.getHours();
-  const endHour = endTime.getHours();
-  const dayOfWeek = startTime.getDay();
-  
-  // Check if it's a business day
-  if (!BUSINESS_HOURS.days.includes(dayOfWeek)) {
-    return false;
-  }
-  
-  // Check if it's within business hours
-  return startHour >= BUSINESS_HOURS.start && endHour <= BUSINESS_HOURS.end;
+export async function checkRecurringAvailability(
+  user: User,
+  startTime: Date,
+  endTime: Date,
+  rrule: string,
+  maxOccurrences: number = DEFAULT_OCCURRENCE_CHECK_LIMIT
+): Promise<RecurringAvailabilityResult> {
+  return withCalendarErrorHandling(
+    async () => {
+      if (!user.accessToken) {
+        throw new Error('User access token is missing');
+      }
+
+      // Weekdays and wall-clock times follow the organizer's timezone, not the server's
+      const { timezone } = await userProfileService.getWorkingHours(user.id);
+      const occurrences = expandOccurrences(parseRRule(rrule), startTime, endTime, maxOccurrences, timezone);
+      if (occurrences.length === 0) {
+        return { isAvailable: true, occurrencesChecked: 0, occurrences: [], conflictingOccurrences: [] };
+      }
+
+      const calendar = getCalendarClient(user.accessToken);
+
+      const existingEvents = [
+        // Series windows can span several months
+        ...await listBusyCalendarEvents(user, calendar, occurrences[0].startTime, occurrences[occurrences.length - 1].endTime, 250),
+        ...await getFeedEvents(user, occurrences[0].startTime, occurrences[occurrences.length - 1].endTime)
+      ];
+
+      const checkedOccurrences: OccurrenceAvailability[] = occurrences.map(occurrence => ({
+        startTime: occurrence.startTime,
+        endTime: occurrence.endTime,
+        conflicts: existingEvents.filter(event =>
+          event.startTime < occurrence.endTime && event.endTime > occurrence.startTime
+        )
+      }));
+
+      const conflictingOccurrences = checkedOccurrences.filter(occurrence => occurrence.conflicts.length > 0);
+
+      return {
+        isAvailable: conflictingOccurrences.length === 0,
+        occurrencesChecked: checkedOccurrences.length,
+        occurrences: checkedOccurrences,
+        conflictingOccurrences
+      };
+    },
+    'checkRecurringAvailability',
+    user,
+    false // Callers degrade gracefully; the generic fallback lacks occurrence data
+  );
 }
 
 /**
@@ -198,6 +328,7 @@ function isWithinBusinessHours(startTime: Date, endTime: Date): boolean {
 function generatePotentialTimeSlots(
   preferredStartTime: Date,
   durationMinutes: number,
+  workingHours: WorkingHoursProfile,
   searchRangeHours: number = 4
 ): TimeSlot[] {
   const slots: TimeSlot[] = [];
@@ -209,8 +340,8 @@ function generatePotentialTimeSlots(
     const slotStart = new Date(preferredStartTime.getTime() + offset);
     const slotEnd = new Date(slotStart.getTime() + durationMs);
     
-    // Skip if not within business hours
-    if (!isWithinBusinessHours(slotStart, slotEnd)) {
+    // Skip if not within the user's working hours
+    if (!isWithinWorkingHours(slotStart, slotEnd, workingHours)) {
       continue;
     }
     
@@ -255,7 +386,8 @@ export async function suggestAlternativeTimeSlots(
   user: User,
   preferredStartTime: Date,
   durationMinutes: number,
-  maxSuggestions: number = 3
+  maxSuggestions: number = 3,
+  workingHours: WorkingHoursProfile = DEFAULT_WORKING_HOURS_PROFILE
 ): Promise<TimeSlot[]> {
   try {
     if (!user.accessToken) {
@@ -263,7 +395,7 @@ export async function suggestAlternativeTimeSlots(
     }
 
     // Generate potential time slots around the preferred time
-    const potentialSlots = generatePotentialTimeSlots(preferredStartTime, durationMinutes);
+    const potentialSlots = generatePotentialTimeSlots(preferredStartTime, durationMinutes, workingHours);
     
     // Get existing events for a broader time range to check conflicts
     const searchStart = new Date(preferredStartTime.getTime() - 4 * 60 * 60 * 1000); // 4 hours before
@@ -271,19 +403,10 @@ export async function suggestAlternativeTimeSlots(
     
     const calendar = getCalendarClient(user.accessToken);
     
-    const response = await calendar.events.list({
-      calendarId: 'primary',
-      timeMin: searchStart.toISOString(),
-      timeMax: searchEnd.toISOString(),
-      singleEvents: true,
-      orderBy: 'startTime',
-      maxResults: 100 // Broader search for alternatives
-    });
-
-    const events = response.data.items || [];
-    const existingEvents = events
-      .map(transformGoogleEvent)
-      .filter(isConflictingEvent);
+    const existingEvents = [
+      ...await listBusyCalendarEvents(user, calendar, searchStart, searchEnd, 100), // Broader search for alternatives
+      ...await getFeedEvents(user, searchStart, searchEnd)
+    ];
     
     // Filter out slots that conflict with existing events
     const availableSlots = potentialSlots.filter(slot => 
@@ -305,6 +428,207 @@ export async function suggestAlternativeTimeSlots(
   }
 }
 
+/**
+ * Generate candidate slots inside working hours for the requested day and the following days
+ */
+function generateWorkingHourCandidates(
+  preferredStartTime: Date,
+  durationMinutes: number,
+  searchDays: number,
+  workingHours: WorkingHoursProfile
+): TimeSlot[] {
+  const candidates: TimeSlot[] = [];
+  const durationMs = durationMinutes * 60 * 1000;
+  const now = new Date();
+
+  for (let dayOffset = 0; dayOffset < searchDays; dayOffset++) {
+    const day = new Date(preferredStartTime.getTime() + dayOffset * 24 * 60 * 60 * 1000);
+    const bounds = getWorkingDayBounds(day, workingHours);
+
+    if (!bounds.isWorkingDay) {
+      continue;
+    }
+
+    for (let slotStart = bounds.start.getTime(); slotStart + durationMs <= bounds.end.getTime(); slotStart += 30 * 60 * 1000) {
+      if (slotStart < now.getTime()) {
+        continue;
+      }
+
+      candidates.push({
+        startTime: new Date(slotStart),
+        endTime: new Date(slotStart + durationMs),
+        duration: durationMinutes,
+        isAvailable: true
+      });
+    }
+  }
+
+  return candidates;
+}
+
+/**
+ * Rank candidate slots by fewest required-attendee conflicts, then fewest attendees outside
+ * their working hours, then by closeness to the requested time
+ */
+export function rankCandidateSlots(
+  candidates: TimeSlot[],
+  busyByAttendee: Map<string, BusyInterval[]>,
+  attendees: SlotAttendee[],
+  preferredStartTime: Date
+): RankedTimeSlot[] {
+  const ranked = candidates.map(slot => {
+    const busyAttendees = attendees.filter(attendee =>
+      (busyByAttendee.get(attendee.email) || []).some(interval =>
+        interval.startTime < slot.endTime && interval.endTime > slot.startTime
+      )
+    );
+
+    const requiredConflicts = busyAttendees.filter(a => a.isRequired).map(a => a.email);
+    const optionalConflicts = busyAttendees.filter(a => !a.isRequired).map(a => a.email);
+    const outsideWorkingHours = attendees
+      .filter(a => a.workingHours && !isWithinWorkingHours(slot.startTime, slot.endTime, a.workingHours))
+      .map(a => a.email);
+
+    return {
+      ...slot,
+      isAvailable: busyAttendees.length === 0,
+      requiredConflicts,
+      optionalConflicts,
+      outsideWorkingHours,
+      distanceMinutes: Math.round(Math.abs(slot.startTime.getTime() - preferredStartTime.getTime()) / (1000 * 60))
+    };
+  });
+
+  return ranked.sort((a, b) =>
+    a.requiredConflicts.length - b.requiredConflicts.length ||
+    a.outsideWorkingHours.length - b.outsideWorkingHours.length ||
+    a.distanceMinutes - b.distanceMinutes ||
+    a.optionalConflicts.length - b.optionalConflicts.length
+  );
+}
+
+/**
+ * Remove an interval from a list of busy intervals, splitting intervals that contain it
+ */
+export function subtractBusyInterval(busy: BusyInterval[], excluded: BusyInterval): BusyInterval[] {
+  return busy.flatMap(interval => {
+    if (interval.endTime <= excluded.startTime || interval.startTime >= excluded.endTime) {
+      return [interval];
+    }
+
+    const remaining: BusyInterval[] = [];
+    if (interval.startTime < excluded.startTime) {
+      remaining.push({ startTime: interval.startTime, endTime: excluded.startTime });
+    }
+    if (interval.endTime > excluded.endTime) {
+      remaining.push({ startTime: excluded.endTime, endTime: interval.endTime });
+    }
+    return remaining;
+  });
+}
+
+/**
+ * Find meeting slots that work for the organizer and every attendee
+ * Queries free/busy for all attendees and intersects it with working hours
+ * When rescheduling, excludeInterval is the meeting's current time so it does not conflict with itself
+ */
+export async function findMultiAttendeeSlots(
+  user: User,
+  attendees: SlotAttendee[],
+  preferredStartTime: Date,
+  durationMinutes: number,
+  maxSuggestions: number = 5,
+  searchDays: number = 5,
+  workingHours: WorkingHoursProfile = DEFAULT_WORKING_HOURS_PROFILE,
+  excludeInterval?: BusyInterval
+): Promise<MultiAttendeeSlotResult> {
+  return withCalendarErrorHandling(
+    async () => {
+      if (!user.accessToken) {
+        throw new Error('User access token is missing');
+      }
+
+      // The organizer is always a required participant; every calendar they count as busy is queried
+      const participants: SlotAttendee[] = [
+        { email: user.email, isRequired: true, workingHours },
+        ...attendees.filter(a => a.email && a.email.toLowerCase() !== user.email.toLowerCase())
+      ];
+
+      const requested: TimeSlot = {
+        startTime: preferredStartTime,
+        endTime: new Date(preferredStartTime.getTime() + durationMinutes * 60 * 1000),
+        duration: durationMinutes,
+        isAvailable: true
+      };
+      const candidates = generateWorkingHourCandidates(preferredStartTime, durationMinutes, searchDays, workingHours);
+      const windowSlots = [requested, ...candidates];
+
+      const calendar = getCalendarClient(user.accessToken);
+      const windowStart = new Date(Math.min(...windowSlots.map(slot => slot.startTime.getTime())));
+      const windowEnd = new Date(Math.max(...windowSlots.map(slot => slot.endTime.getTime())));
+
+      const organizerCalendarIds = await getBusyCalendarIds(user);
+
+      const response = await calendar.freebusy.query({
+        requestBody: {
+          timeMin: windowStart.toISOString(),
+          timeMax: windowEnd.toISOString(),
+          items: [
+            ...organizerCalendarIds.map(id => ({ id })),
+            ...participants.slice(1).map(participant => ({ id: participant.email }))
+          ]
+        }
+      });
+
+      const calendars = response.data.calendars || {};
+      const busyByAttendee = new Map<string, BusyInterval[]>();
+      const unavailableCalendars: string[] = [];
+      // Only the organizer's own feeds are known here; attendees' external calendars are not
+      const organizerFeedBusy: BusyInterval[] = (await getFeedEvents(user, windowStart, windowEnd))
+        .map(event => ({ startTime: event.startTime, endTime: event.endTime }));
+
+      participants.forEach((participant, index) => {
+        const entries = (index === 0 ? organizerCalendarIds : [participant.email])
+          .map(calendarId => calendars[calendarId])
+          .filter(entry => entry && !(entry.errors && entry.errors.length > 0));
+
+        // Free/busy is not shared for this calendar, so it cannot count against any slot
+        if (entries.length === 0) {
+          unavailableCalendars.push(participant.email);
+          return;
+        }
+
+        const busy = [
+          ...entries.flatMap(entry => (entry.busy || []).map(interval => ({
+            startTime: new Date(interval.start || ''),
+            endTime: new Date(interval.end || '')
+          }))),
+          ...(index === 0 ? organizerFeedBusy : [])
+        ];
+        busyByAttendee.set(participant.email, excludeInterval ? subtractBusyInterval(busy, excludeInterval) : busy);
+      });
+
+      const [requestedSlot] = rankCandidateSlots([requested], busyByAttendee, participants, preferredStartTime);
+      const slots = rankCandidateSlots(
+        candidates.filter(slot => slot.startTime.getTime() !== preferredStartTime.getTime()),
+        busyByAttendee,
+        participants,
+        preferredStartTime
+      );
+
+      return {
+        requestedSlot,
+        slots: slots.slice(0, maxSuggestions),
+        attendeesChecked: participants.map(p => p.email),
+        unavailableCalendars
+      };
+    },
+    'findMultiAttendeeSlots',
+    user,
+    false // Callers fall back to organizer-only suggestions
+  );
+}
+
 /**
  * Get available time slots for a specific day
  * Useful for finding longer available periods
@@ -312,35 +636,24 @@ export async function suggestAlternativeTimeSlots(
 export async function getAvailableTimeSlotsForDay(
   user: User,
   targetDate: Date,
-  durationMinutes: number
+  durationMinutes: number,
+  workingHours: WorkingHoursProfile = DEFAULT_WORKING_HOURS_PROFILE
 ): Promise<TimeSlot[]> {
   try {
     if (!user.accessToken) {
       throw new Error('User access token is missing');
     }
 
-    // Set up day boundaries
-    const dayStart = new Date(targetDate);
-    dayStart.setHours(BUSINESS_HOURS.start, 0, 0, 0);
-    
-    const dayEnd = new Date(targetDate);
-    dayEnd.setHours(BUSINESS_HOURS.end, 0, 0, 0);
+    // Set up day boundaries in the user's timezone
+    const { start: dayStart, end: dayEnd } = getWorkingDayBounds(targetDate, workingHours);
     
     // Get all events for the day
     const calendar = getCalendarClient(user.accessToken);
     
-    const response = await calendar.events.list({
-      calendarId: 'primary',
-      timeMin: dayStart.toISOString(),
-      timeMax: dayEnd.toISOString(),
-      singleEvents: true,
-      orderBy: 'startTime'
-    });
-
-    const events = response.data.items || [];
-    const dayEvents = events
-      .map(transformGoogleEvent)
-      .filter(isConflictingEvent)
+    const dayEvents = [
+      ...await listBusyCalendarEvents(user, calendar, dayStart, dayEnd),
+      ...await getFeedEvents(user, dayStart, dayEnd)
+    ]
       .sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
     
     const availableSlots: TimeSlot[] = [];
@@ -393,20 +706,20 @@ export async function findNextAvailableSlot(
   user: User,
   afterTime: Date,
   durationMinutes: number,
-  searchDays: number = 7
+  searchDays: number = 7,
+  workingHours: WorkingHoursProfile = DEFAULT_WORKING_HOURS_PROFILE
 ): Promise<TimeSlot | null> {
   try {
     // Search through the next few days
     for (let dayOffset = 0; dayOffset < searchDays; dayOffset++) {
-      const searchDate = new Date(afterTime);
-      searchDate.setDate(searchDate.getDate() + dayOffset);
+      const searchDate = new Date(afterTime.getTime() + dayOffset * 24 * 60 * 60 * 1000);
       
-      // Skip weekends if it's not a business day
-      if (!BUSINESS_HOURS.days.includes(searchDate.getDay())) {
+      // Skip days the user does not work
+      if (!getWorkingDayBounds(searchDate, workingHours).isWorkingDay) {
         continue;
       }
       
-      const availableSlots = await getAvailableTimeSlotsForDay(user, searchDate, durationMinutes);
+      const availableSlots = await getAvailableTimeSlotsForDay(user, searchDate, durationMinutes, workingHours);
       
       // For the first day, filter out slots before the afterTime
       if (dayOffset === 0) {
@@ -488,7 +801,11 @@ export function formatConflictInfo(conflicts: CalendarEvent[]): string {
 export const CalendarAvailabilityService = {
   checkCalendarConflicts,
   checkCalendarAvailability,
+  checkRecurringAvailability,
   suggestAlternativeTimeSlots,
+  findMultiAttendeeSlots,
+  rankCandidateSlots,
+  subtractBusyInterval,
   getAvailableTimeSlotsForDay,
   findNextAvailableSlot,
   formatTimeSlot,
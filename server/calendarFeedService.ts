@@ -0,0 +1,439 @@
+/**
+ * External calendars counted as busy time.
+ *
+ * Users subscribe to ICS feeds (personal or client calendars published as
+ * iCalendar) or upload .ics files. Feeds are refreshed on their own schedule
+ * and their events, with recurring events expanded, are added to the Google
+ * Calendar events availability checks see.
+ */
+
+import * as dns from 'dns';
+import * as http from 'http';
+import * as https from 'https';
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { and, asc, eq, isNotNull, lte, or, isNull } from 'drizzle-orm';
+import { db } from './storage.js';
+import { calendarFeeds } from '../shared/schema.js';
+import type { CalendarFeed, CreateCalendarFeedInput, UpdateCalendarFeedInput } from '../shared/schema.js';
+import type { CalendarEvent } from './calendarAvailabilityService.js';
+import { parseIcsCalendar, expandIcsEvents, type IcsEvent } from './icsParser.js';
+
+/**
+ * A feed could not be read or did not contain iCalendar data
+ */
+export class CalendarFeedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalendarFeedError';
+  }
+}
+
+export type CalendarFeedFetchResult =
+  | { notModified: true }
+  | { notModified: false; content: string; etag?: string };
+
+/**
+ * Downloads a feed; the ETag from the last fetch lets unchanged feeds answer 304
+ */
+export type CalendarFeedFetcher = (url: string, etag?: string) => Promise<CalendarFeedFetchResult>;
+
+type CalendarFeedChanges = Partial<Omit<CalendarFeed, 'id' | 'userId' | 'createdAt'>>;
+
+/**
+ * Storage used by the feed service. Tests pass an in-memory implementation.
+ */
+export interface CalendarFeedStore {
+  listFeeds(userId: string): Promise<CalendarFeed[]>;
+  getFeed(userId: string, feedId: string): Promise<CalendarFeed | undefined>;
+  insertFeed(feed: Pick<CalendarFeed, 'userId' | 'name'> & CalendarFeedChanges): Promise<CalendarFeed>;
+  updateFeed(feedId: string, changes: CalendarFeedChanges): Promise<CalendarFeed | undefined>;
+  deleteFeed(userId: string, feedId: string): Promise<boolean>;
+  // Enabled URL feeds whose next refresh is due
+  listDueFeeds(now: Date, limit: number): Promise<CalendarFeed[]>;
+}
+
+const FETCH_TIMEOUT_MS = 15 * 1000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+const MAX_FEED_REDIRECTS = 5;
+const DUE_FEEDS_PER_RUN = 20;
+
+export const databaseCalendarFeedStore: CalendarFeedStore = {
+  async listFeeds(userId) {
+    return db.select().from(calendarFeeds).where(eq(calendarFeeds.userId, userId)).orderBy(asc(calendarFeeds.createdAt));
+  },
+
+  async getFeed(userId, feedId) {
+    const [feed] = await db.select()
+      .from(calendarFeeds)
+      .where(and(eq(calendarFeeds.id, feedId), eq(calendarFeeds.userId, userId)))
+      .limit(1);
+    return feed;
+  },
+
+  async insertFeed(feed) {
+    const [created] = await db.insert(calendarFeeds).values(feed).returning();
+    return created;
+  },
+
+  async updateFeed(feedId, changes) {
+    const [updated] = await db.update(calendarFeeds)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(calendarFeeds.id, feedId))
+      .returning();
+    return updated;
+  },
+
+  async deleteFeed(userId, feedId) {
+    const deleted = await db.delete(calendarFeeds)
+      .where(and(eq(calendarFeeds.id, feedId), eq(calendarFeeds.userId, userId)))
+      .returning({ id: calendarFeeds.id });
+    return deleted.length > 0;
+  },
+
+  async listDueFeeds(now, limit) {
+    return db.select()
+      .from(calendarFeeds)
+      .where(and(
+        eq(calendarFeeds.enabled, true),
+        isNotNull(calendarFeeds.url),
+        or(isNull(calendarFeeds.nextRefreshAt), lte(calendarFeeds.nextRefreshAt, now))
+      ))
+      .orderBy(asc(calendarFeeds.nextRefreshAt))
+      .limit(limit);
+  }
+};
+
+// Loopback, private, link-local (cloud metadata), carrier-grade NAT, multicast and reserved ranges.
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are checked against the IPv4 ranges.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is on the public internet. Feeds may only be fetched from
+ * those, so a feed URL cannot reach the server itself or the network it runs in.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  return family !== 0 && !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+const BLOCKED_ADDRESS_ERROR = 'Feed URL must point to a public address';
+
+// Resolves host names like the default lookup, but refuses non-public addresses, so the
+// address that was checked is the one connected to
+const publicAddressLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: any[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error);
+    }
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(new CalendarFeedError(BLOCKED_ADDRESS_ERROR));
+    }
+    return options.all ? callback(null, addresses) : callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as unknown as LookupFunction;
+
+interface FeedResponse {
+  status: number;
+  location?: string;
+  etag?: string;
+  content: string;
+}
+
+function requestFeed(url: URL, etag: string | undefined, signal: AbortSignal): Promise<FeedResponse> {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return Promise.reject(new CalendarFeedError('Feed URL must use http or https'));
+  }
+  // IP literals are connected to without a lookup
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(host) && !isPublicAddress(host)) {
+    return Promise.reject(new CalendarFeedError(BLOCKED_ADDRESS_ERROR));
+  }
+
+  return new Promise((resolve, reject) => {
+    const fail = (error: Error) => {
+      if (error instanceof CalendarFeedError) {
+        return reject(error);
+      }
+      // Network details (refused ports, resolver errors) are not passed on to the user
+      console.error(`Calendar feed request to ${url.host} failed:`, error.message);
+      reject(new CalendarFeedError(signal.aborted ? 'Feed did not respond in time' : 'Could not reach the feed'));
+    };
+
+    const request = (url.protocol === 'https:' ? https : http).get(url, {
+      headers: { Accept: 'text/calendar', ...(etag ? { 'If-None-Match': etag } : {}) },
+      lookup: publicAddressLookup,
+      signal
+    }, response => {
+      const status = response.statusCode || 0;
+      const header = (name: string) => {
+        const value = response.headers[name];
+        return Array.isArray(value) ? value[0] : value;
+      };
+
+      if (status >= 300) {
+        response.resume();
+        return resolve({ status, location: header('location'), content: '' });
+      }
+      if (Number(header('content-length') || 0) > MAX_FEED_BYTES) {
+        response.destroy();
+        return reject(new CalendarFeedError('Feed is larger than 5 MB'));
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > MAX_FEED_BYTES) {
+          response.destroy();
+          reject(new CalendarFeedError('Feed is larger than 5 MB'));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      response.on('end', () => resolve({ status, etag: header('etag'), content: Buffer.concat(chunks).toString('utf8') }));
+      response.on('error', fail);
+    });
+
+    request.on('error', fail);
+  });
+}
+
+/**
+ * Fetches a feed over HTTP with a timeout and a size limit. Only public addresses are
+ * contacted, redirects included.
+ */
+export const httpCalendarFeedFetcher: CalendarFeedFetcher = async (url, etag) => {
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+  let target = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    const response = await requestFeed(target, etag, signal);
+
+    if (response.status === 304) {
+      return { notModified: true };
+    }
+    if (response.status >= 300 && response.status < 400 && response.location) {
+      if (redirects >= MAX_FEED_REDIRECTS) {
+        throw new CalendarFeedError('Feed redirected too many times');
+      }
+      target = new URL(response.location, target);
+      continue;
+    }
+    if (response.status < 200 || response.status >= 300) {
+      throw new CalendarFeedError(`Feed request failed with HTTP ${response.status}`);
+    }
+
+    return { notModified: false, content: response.content, etag: response.etag };
+  }
+};
+
+/**
+ * Parses feed content, rejecting anything that is not an iCalendar document
+ */
+export function parseFeedContent(content: string): IcsEvent[] {
+  if (!/BEGIN:VCALENDAR/i.test(content)) {
+    throw new CalendarFeedError('Not an iCalendar file (missing BEGIN:VCALENDAR)');
+  }
+  return parseIcsCalendar(content);
+}
+
+/**
+ * Feed as returned to the client, without the stored calendar data
+ */
+export function toCalendarFeedSummary(feed: CalendarFeed) {
+  const { content, etag, ...summary } = feed;
+  return { ...summary, source: feed.url ? 'url' as const : 'upload' as const };
+}
+
+/**
+ * Manages a user's external calendars and turns them into busy time
+ */
+export class CalendarFeedService {
+  private pollInterval?: NodeJS.Timeout;
+  // Parsed events per feed, reused until the feed changes
+  private parsedFeeds = new Map<string, { version: number; events: IcsEvent[] }>();
+
+  constructor(
+    private readonly store: CalendarFeedStore = databaseCalendarFeedStore,
+    private readonly fetcher: CalendarFeedFetcher = httpCalendarFeedFetcher
+  ) {}
+
+  listFeeds(userId: string): Promise<CalendarFeed[]> {
+    return this.store.listFeeds(userId);
+  }
+
+  /**
+   * Subscribe to a feed URL or store an uploaded file. Feeds are fetched right away so
+   * a bad URL is reported to the user instead of failing silently in the background.
+   */
+  async addFeed(userId: string, input: CreateCalendarFeedInput, now: Date = new Date()): Promise<CalendarFeed> {
+    if (input.content) {
+      const events = parseFeedContent(input.content);
+      return this.store.insertFeed({
+        userId,
+        name: input.name,
+        content: input.content,
+        eventCount: events.length,
+        lastFetchedAt: now
+      });
+    }
+
+    const result = await this.fetcher(input.url!);
+    if (result.notModified) {
+      throw new CalendarFeedError('Feed returned no content');
+    }
+    const events = parseFeedContent(result.content);
+    const refreshIntervalMinutes = input.refreshIntervalMinutes ?? 60;
+
+    return this.store.insertFeed({
+      userId,
+      name: input.name,
+      url: input.url,
+      refreshIntervalMinutes,
+      content: result.content,
+      etag: result.etag ?? null,
+      eventCount: events.length,
+      lastFetchedAt: now,
+      nextRefreshAt: new Date(now.getTime() + refreshIntervalMinutes * 60 * 1000)
+    });
+  }
+
+  /**
+   * Rename a feed, change its refresh interval or turn it on and off
+   */
+  async updateFeed(userId: string, feedId: string, changes: UpdateCalendarFeedInput): Promise<CalendarFeed | undefined> {
+    const feed = await this.store.getFeed(userId, feedId);
+    if (!feed) {
+      return undefined;
+    }
+
+    const updates: CalendarFeedChanges = { ...changes };
+    // A feed turned back on, or put on a shorter schedule, refreshes on the next run
+    if (feed.url && (changes.enabled === true || changes.refreshIntervalMinutes !== undefined)) {
+      updates.nextRefreshAt = null;
+    }
+
+    return this.store.updateFeed(feed.id, updates);
+  }
+
+  async removeFeed(userId: string, feedId: string): Promise<boolean> {
+    this.parsedFeeds.delete(feedId);
+    return this.store.deleteFeed(userId, feedId);
+  }
+
+  /**
+   * Fetch a URL feed again. Failures are recorded on the feed and the last good
+   * content stays in use, so a flaky feed does not make the user look free.
+   */
+  async refreshFeed(feed: CalendarFeed, now: Date = new Date()): Promise<CalendarFeed | undefined> {
+    if (!feed.url) {
+      return feed;
+    }
+
+    const nextRefreshAt = new Date(now.getTime() + feed.refreshIntervalMinutes * 60 * 1000);
+
+    try {
+      const result = await this.fetcher(feed.url, feed.etag || undefined);
+      if (result.notModified) {
+        return this.store.updateFeed(feed.id, { lastFetchedAt: now, nextRefreshAt, lastError: null });
+      }
+
+      const events = parseFeedContent(result.content);
+      return this.store.updateFeed(feed.id, {
+        content: result.content,
+        etag: result.etag ?? null,
+        eventCount: events.length,
+        lastFetchedAt: now,
+        nextRefreshAt,
+        lastError: null
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Error refreshing calendar feed ${feed.id}:`, message);
+      return this.store.updateFeed(feed.id, {
+        nextRefreshAt,
+        lastError: error instanceof CalendarFeedError ? message : 'Could not refresh the feed'
+      });
+    }
+  }
+
+  async refreshUserFeed(userId: string, feedId: string): Promise<CalendarFeed | undefined> {
+    const feed = await this.store.getFeed(userId, feedId);
+    return feed && this.refreshFeed(feed);
+  }
+
+  /**
+   * Refresh every feed whose interval has elapsed
+   */
+  async refreshDueFeeds(now: Date = new Date()): Promise<number> {
+    const feeds = await this.store.listDueFeeds(now, DUE_FEEDS_PER_RUN);
+    for (const feed of feeds) {
+      await this.refreshFeed(feed, now);
+    }
+    return feeds.length;
+  }
+
+  /**
+   * Events from the user's enabled feeds that overlap the window, with recurring
+   * events expanded. Cancelled and free (transparent) events are left out.
+   */
+  async getBusyEvents(userId: string, startTime: Date, endTime: Date): Promise<CalendarEvent[]> {
+    const feeds = (await this.store.listFeeds(userId)).filter(feed => feed.enabled && feed.content);
+
+    return feeds.flatMap(feed =>
+      expandIcsEvents(this.getParsedEvents(feed), startTime, endTime)
+        .filter(event => event.status !== 'cancelled' && event.transparency !== 'transparent')
+        .map(event => ({ ...event, id: `${feed.id}:${event.id}`, source: feed.name }))
+    );
+  }
+
+  private getParsedEvents(feed: CalendarFeed): IcsEvent[] {
+    const version = feed.updatedAt?.getTime() ?? 0;
+    const cached = this.parsedFeeds.get(feed.id);
+    if (cached && cached.version === version) {
+      return cached.events;
+    }
+
+    const events = parseIcsCalendar(feed.content || '');
+    this.parsedFeeds.set(feed.id, { version, events });
+    return events;
+  }
+
+  /**
+   * Start refreshing feeds in the background
+   */
+  startPolling(intervalMs: number = 5 * 60 * 1000): void {
+    this.stopPolling();
+
+    this.pollInterval = setInterval(() => {
+      this.refreshDueFeeds().catch(error => {
+        console.error('Error refreshing calendar feeds:', error);
+      });
+    }, intervalMs);
+
+    console.log('Calendar feed refresh started');
+  }
+
+  /**
+   * Stop background refreshing
+   */
+  stopPolling(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+}
+
+export const calendarFeedService = new CalendarFeedService();
@@ -0,0 +1,257 @@
+/**
+ * iCalendar (RFC 5545) invites for meetings.
+ *
+ * Builds VCALENDAR documents so attendees outside Google Workspace get a real
+ * calendar entry: REQUEST invites ride along with agenda emails, CANCEL invites
+ * go out when a meeting is deleted, and PUBLISH documents back the .ics download.
+ */
+
+import type { AttendeeData, Event, User } from '../shared/schema.js';
+import { escapeIcsText, foldIcsLine } from '../shared/agendaDocument.js';
+import { toComparableLines } from '../shared/agendaDiff.js';
+import type { EmailAttachment } from './emailTransport.js';
+import { getZonedTimeParts, type ZonedTimeParts } from './utils/workingHours.js';
+
+export type CalendarInviteMethod = 'REQUEST' | 'CANCEL' | 'PUBLISH';
+
+export type CalendarInviteRole = 'CHAIR' | 'REQ-PARTICIPANT' | 'OPT-PARTICIPANT';
+
+export interface CalendarInviteAttendee {
+  email: string;
+  name?: string;
+  role?: CalendarInviteRole; // REQ-PARTICIPANT when omitted
+}
+
+/**
+ * What an invite describes. Times may be ISO strings because invites are
+ * stored inside email job data.
+ */
+export interface CalendarInvite {
+  uid: string;
+  sequence: number;
+  title: string;
+  description?: string;
+  startTime: Date | string;
+  endTime: Date | string;
+  location?: string;
+  meetingLink?: string;
+  recurrenceRule?: string; // "RRULE:..." line as stored on the event
+  timeZone?: string; // organizer's timezone; recurring meetings repeat at its wall-clock time
+  organizer: { email: string; name?: string };
+  attendees: CalendarInviteAttendee[];
+}
+
+const PRODUCT_ID = '-//AI Calendar Assistant//Meetings//EN';
+
+function formatIcsDate(date: Date | string): string {
+  return new Date(date).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+
+function formatLocalIcsDate(parts: Pick<ZonedTimeParts, 'year' | 'month' | 'day' | 'hour' | 'minute'>): string {
+  return `${pad(parts.year, 4)}${pad(parts.month)}${pad(parts.day)}T${pad(parts.hour)}${pad(parts.minute)}00`;
+}
+
+// UTC offset in minutes of a timezone at an instant
+function getUtcOffset(timeZone: string, instant: number): number {
+  const parts = getZonedTimeParts(new Date(instant), timeZone);
+  return Math.round((Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - instant) / 60000);
+}
+
+function formatUtcOffset(minutes: number): string {
+  return `${minutes < 0 ? '-' : '+'}${pad(Math.floor(Math.abs(minutes) / 60))}${pad(Math.abs(minutes) % 60)}`;
+}
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * VTIMEZONE for a timezone, with yearly rules for the DST changes found in the given
+ * year (nth or last weekday of a month, as in the tz database for most zones)
+ */
+export function buildVTimezone(timeZone: string, year: number): string[] {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const transitions: Array<{ at: number; from: number; to: number }> = [];
+
+  let previous = Date.UTC(year, 0, 1);
+  let previousOffset = getUtcOffset(timeZone, previous);
+  for (let day = 1; day <= 366; day++) {
+    const next = Date.UTC(year, 0, 1) + day * dayMs;
+    const nextOffset = getUtcOffset(timeZone, next);
+    if (nextOffset !== previousOffset) {
+      // Narrow the change down to the minute
+      let [low, high] = [previous, next];
+      while (high - low > 60 * 1000) {
+        const middle = low + Math.floor((high - low) / 120000) * 60000;
+        if (getUtcOffset(timeZone, middle) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push({ at: high, from: previousOffset, to: nextOffset });
+    }
+    previous = next;
+    previousOffset = nextOffset;
+  }
+
+  if (transitions.length === 0) {
+    const offset = formatUtcOffset(getUtcOffset(timeZone, Date.UTC(year, 0, 1)));
+    return [
+      'BEGIN:VTIMEZONE', `TZID:${timeZone}`,
+      'BEGIN:STANDARD', 'DTSTART:19700101T000000', `TZOFFSETFROM:${offset}`, `TZOFFSETTO:${offset}`, 'END:STANDARD',
+      'END:VTIMEZONE'
+    ];
+  }
+
+  return [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...transitions.flatMap(({ at, from, to }) => {
+      // Onsets are written in the wall-clock time that was in effect before the change
+      const local = new Date(at + from * 60 * 1000);
+      const daysInMonth = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+      const nth = local.getUTCDate() + 7 > daysInMonth ? -1 : Math.ceil(local.getUTCDate() / 7);
+      const kind = to > from ? 'DAYLIGHT' : 'STANDARD';
+      return [
+        `BEGIN:${kind}`,
+        `DTSTART:${formatLocalIcsDate({
+          year: local.getUTCFullYear(),
+          month: local.getUTCMonth() + 1,
+          day: local.getUTCDate(),
+          hour: local.getUTCHours(),
+          minute: local.getUTCMinutes()
+        })}`,
+        `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${nth}${WEEKDAY_CODES[local.getUTCDay()]}`,
+        `TZOFFSETFROM:${formatUtcOffset(from)}`,
+        `TZOFFSETTO:${formatUtcOffset(to)}`,
+        `END:${kind}`
+      ];
+    }),
+    'END:VTIMEZONE'
+  ];
+}
+
+// Parameter values containing :;, must be quoted, and may not contain quotes themselves
+function formatParam(value: string): string {
+  return `"${value.replace(/"/g, "'")}"`;
+}
+
+/**
+ * UID of a meeting's invites. Meetings created through Google Calendar use Google's
+ * own iCalUID, so clients that also got Google's invite treat both as the same event.
+ */
+export function getInviteUid(event: Pick<Event, 'id' | 'googleEventId'>): string {
+  return event.googleEventId ? `${event.googleEventId}@google.com` : `${event.id}@ai-calendar-assistant`;
+}
+
+/**
+ * Builds a VCALENDAR document with a single VEVENT
+ */
+export function buildCalendarInvite(invite: CalendarInvite, method: CalendarInviteMethod, now: Date = new Date()): string {
+  const description = [
+    invite.description?.trim(),
+    invite.meetingLink && `Join: ${invite.meetingLink}`
+  ].filter(Boolean).join('\n\n');
+
+  const organizerEmail = invite.organizer.email.toLowerCase();
+  const attendees = invite.attendees.filter(attendee => attendee.email.toLowerCase() !== organizerEmail);
+
+  // Recurring meetings are written in the organizer's timezone; in UTC the series would
+  // drift by an hour across DST changes and evening meetings could land on the wrong day
+  const timeZone = invite.recurrenceRule && invite.timeZone;
+  const formatTime = (property: string, date: Date | string) => timeZone ?
+    `${property};TZID=${timeZone}:${formatLocalIcsDate(getZonedTimeParts(new Date(date), timeZone))}` :
+    `${property}:${formatIcsDate(date)}`;
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    `PRODID:${PRODUCT_ID}`,
+    'VERSION:2.0',
+    'CALSCALE:GREGORIAN',
+    `METHOD:${method}`,
+    ...(timeZone ? buildVTimezone(timeZone, new Date(invite.startTime).getUTCFullYear() - 1) : []),
+    'BEGIN:VEVENT',
+    `UID:${invite.uid}`,
+    `SEQUENCE:${invite.sequence}`,
+    `DTSTAMP:${formatIcsDate(now)}`,
+    formatTime('DTSTART', invite.startTime),
+    formatTime('DTEND', invite.endTime),
+    ...(invite.recurrenceRule ? [invite.recurrenceRule.startsWith('RRULE:') ? invite.recurrenceRule : `RRULE:${invite.recurrenceRule}`] : []),
+    `SUMMARY:${escapeIcsText(invite.title)}`,
+    ...(description ? [`DESCRIPTION:${escapeIcsText(description)}`] : []),
+    ...(invite.location || invite.meetingLink ? [`LOCATION:${escapeIcsText(invite.location || invite.meetingLink!)}`] : []),
+    ...(invite.meetingLink ? [`URL:${invite.meetingLink}`] : []),
+    `STATUS:${method === 'CANCEL' ? 'CANCELLED' : 'CONFIRMED'}`,
+    `ORGANIZER${invite.organizer.name ? `;CN=${formatParam(invite.organizer.name)}` : ''}:mailto:${invite.organizer.email}`,
+    `ATTENDEE;CUTYPE=INDIVIDUAL;ROLE=CHAIR;PARTSTAT=ACCEPTED${invite.organizer.name ? `;CN=${formatParam(invite.organizer.name)}` : ''}:mailto:${invite.organizer.email}`,
+    ...attendees.map(attendee => [
+      'ATTENDEE;CUTYPE=INDIVIDUAL',
+      `ROLE=${attendee.role || 'REQ-PARTICIPANT'}`,
+      'PARTSTAT=NEEDS-ACTION',
+      ...(method === 'CANCEL' ? [] : ['RSVP=TRUE']),
+      ...(attendee.name ? [`CN=${formatParam(attendee.name)}`] : [])
+    ].join(';') + `:mailto:${attendee.email}`),
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * The invite as an email attachment that mail clients show as an event
+ */
+export function toCalendarInviteAttachment(invite: CalendarInvite, method: CalendarInviteMethod): EmailAttachment {
+  return {
+    filename: method === 'CANCEL' ? 'cancel.ics' : 'invite.ics',
+    content: buildCalendarInvite(invite, method),
+    contentType: `text/calendar; charset=utf-8; method=${method}`
+  };
+}
+
+/**
+ * Describes a stored meeting as an invite. The agenda, when there is one, becomes the description.
+ */
+export function calendarInviteFromEvent(
+  event: Event,
+  organizer: Pick<User, 'email' | 'name'>,
+  attendees: CalendarInviteAttendee[] = (event.attendees || []).map(email => ({ email })),
+  timeZone?: string
+): CalendarInvite {
+  return {
+    uid: getInviteUid(event),
+    sequence: event.icsSequence,
+    title: event.title,
+    description: event.agenda ? toComparableLines(event.agenda).join('\n') : event.description || undefined,
+    startTime: event.startTime,
+    endTime: event.endTime,
+    location: event.location || undefined,
+    meetingLink: event.meetingLink || undefined,
+    recurrenceRule: event.recurrenceRule || undefined,
+    timeZone,
+    organizer: { email: organizer.email, name: organizer.name || undefined },
+    attendees
+  };
+}
+
+/**
+ * Invite attendees from workflow attendee data; attendees marked not required become optional
+ */
+export function toInviteAttendees(
+  attendees: Array<Pick<AttendeeData, 'email'> & Partial<Pick<AttendeeData, 'firstName' | 'lastName' | 'isRequired'>>>
+): CalendarInviteAttendee[] {
+  return attendees.map(attendee => ({
+    email: attendee.email,
+    name: [attendee.firstName, attendee.lastName].filter(Boolean).join(' ') || undefined,
+    role: attendee.isRequired === false ? 'OPT-PARTICIPANT' : 'REQ-PARTICIPANT'
+  }));
+}
+
+/**
+ * File name for a meeting's .ics download
+ */
+export function getInviteFilename(title: string): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || 'meeting'}.ics`;
+}
@@ -0,0 +1,142 @@
+/**
+ * Calendar invites for stored meetings.
+ *
+ * Every update bumps the meeting's SEQUENCE so calendar clients replace the
+ * entry they already have instead of adding a second one.
+ */
+
+import { and, eq, inArray, isNotNull, or, sql } from 'drizzle-orm';
+import { db } from './storage.js';
+import { emailDeliveries, emailJobs, events } from '../shared/schema.js';
+import type { Event, User } from '../shared/schema.js';
+import { gmailService, type GmailService, type EmailSendResult } from './gmailService.js';
+import { userProfileService, type UserProfileService } from './userProfileService.js';
+import {
+  buildCalendarInvite,
+  calendarInviteFromEvent,
+  getInviteFilename,
+  type CalendarInvite,
+  type CalendarInviteAttendee
+} from './calendarInvite.js';
+
+/**
+ * Storage used by the invite service. Tests pass an in-memory implementation.
+ */
+export interface CalendarInviteStore {
+  // Finds one of the user's meetings by its local ID or Google event ID
+  findEvent(userId: string, meetingId: string): Promise<Event | undefined>;
+  // Increments the event's SEQUENCE and returns the updated event
+  incrementSequence(eventId: string): Promise<Event | undefined>;
+  // Addresses an email with the meeting's iCalendar invite was sent to
+  listInviteRecipients(userId: string, event: Event): Promise<string[]>;
+}
+
+export const databaseCalendarInviteStore: CalendarInviteStore = {
+  async findEvent(userId, meetingId) {
+    const [event] = await db.select()
+      .from(events)
+      .where(and(eq(events.userId, userId), or(eq(events.id, meetingId), eq(events.googleEventId, meetingId))))
+      .limit(1);
+    return event;
+  },
+
+  async incrementSequence(eventId) {
+    const [event] = await db.update(events)
+      .set({ icsSequence: sql`${events.icsSequence} + 1` })
+      .where(eq(events.id, eventId))
+      .returning();
+    return event;
+  },
+
+  async listInviteRecipients(userId, event) {
+    const meetingIds = [event.id, ...(event.googleEventId ? [event.googleEventId] : [])];
+    const rows = await db.selectDistinct({ email: emailDeliveries.recipientEmail })
+      .from(emailDeliveries)
+      .innerJoin(emailJobs, eq(emailDeliveries.jobId, emailJobs.id))
+      .where(and(
+        eq(emailJobs.userId, userId),
+        inArray(emailJobs.meetingId, meetingIds),
+        eq(emailDeliveries.status, 'sent'),
+        isNotNull(sql`${emailJobs.meetingData}->'calendarInvite'`)
+      ));
+    return rows.map(row => row.email);
+  }
+};
+
+/**
+ * Produces and sends calendar invites for stored meetings
+ */
+export class CalendarInviteService {
+  constructor(
+    private readonly store: CalendarInviteStore = databaseCalendarInviteStore,
+    private readonly sender: Pick<GmailService, 'sendMeetingCancellationEmail'> = gmailService,
+    private readonly profiles: Pick<UserProfileService, 'getWorkingHours'> = userProfileService
+  ) {}
+
+  // Recurring meetings repeat in the organizer's timezone
+  private async toInvite(event: Event, user: User, attendees?: CalendarInviteAttendee[]): Promise<CalendarInvite> {
+    const timeZone = event.recurrenceRule ? (await this.profiles.getWorkingHours(user.id)).timezone : undefined;
+    return calendarInviteFromEvent(event, user, attendees, timeZone);
+  }
+
+  /**
+   * The meeting as a standalone .ics file, or undefined when it is not one of the user's meetings
+   */
+  async exportMeeting(user: User, meetingId: string): Promise<{ filename: string; content: string } | undefined> {
+    const event = await this.store.findEvent(user.id, meetingId);
+    if (!event) {
+      return undefined;
+    }
+
+    return {
+      filename: getInviteFilename(event.title),
+      content: buildCalendarInvite(await this.toInvite(event, user), 'PUBLISH')
+    };
+  }
+
+  /**
+   * Invite to attach to a meeting's agenda email, at the meeting's current SEQUENCE
+   */
+  async getInvite(user: User, meetingId: string, attendees?: CalendarInviteAttendee[]): Promise<CalendarInvite | undefined> {
+    const event = await this.store.findEvent(user.id, meetingId);
+    return event ? this.toInvite(event, user, attendees) : undefined;
+  }
+
+  /**
+   * Invite for a meeting whose time or details changed. The SEQUENCE is bumped so
+   * attendees' calendars replace the entry from the earlier invite.
+   */
+  async getUpdatedInvite(user: User, meetingId: string): Promise<CalendarInvite | undefined> {
+    const event = await this.store.findEvent(user.id, meetingId);
+    const updated = event && await this.store.incrementSequence(event.id);
+    return updated ? this.toInvite(updated, user) : undefined;
+  }
+
+  /**
+   * Send a CANCEL to the attendees who were emailed the meeting's iCalendar invite; Google
+   * notifies the attendees it invited itself. Returns the send results, or undefined when
+   * the meeting is not stored here (no invite was ever sent).
+   */
+  async cancelMeeting(user: User, meetingId: string): Promise<EmailSendResult[] | undefined> {
+    const event = await this.store.findEvent(user.id, meetingId);
+    const cancelled = event && await this.store.incrementSequence(event.id);
+    if (!cancelled) {
+      return undefined;
+    }
+
+    const invite = await this.toInvite(cancelled, user);
+    const invited = new Set((await this.store.listInviteRecipients(user.id, cancelled)).map(email => email.toLowerCase()));
+    const results: EmailSendResult[] = [];
+    for (const attendee of invite.attendees) {
+      const email = attendee.email.toLowerCase();
+      if (email === user.email.toLowerCase() || !invited.has(email)) {
+        continue;
+      }
+      results.push(await this.sender.sendMeetingCancellationEmail(user, attendee.email, invite));
+    }
+
+    return results;
+  }
+}
+
+export const calendarInviteService = new CalendarInviteService();
@@ -1,17 +1,27 @@
 import { EventEmitter } from 'events';
+import { and, asc, count, desc, eq, gt, or } from 'drizzle-orm';
+import { db } from './storage.js';
+import { agendaChanges, collaborativeSessions, events } from '../shared/schema.js';
+import type {
+  AgendaChangeMetadata,
+  AgendaChangeRecord,
+  AgendaTextOperation,
+  CollaborativeParticipant,
+  CollaborativeSessionRecord,
+  CollaborativeSessionSettings
+} from '../shared/schema.js';
+import { applyOperation, offsetToPosition, transformOperations } from '../shared/agendaOperations.js';
 
 export interface CollaborativeSession {
   id: string;
   agendaId: string;
+  content: string;
+  revision: number;
   participants: Collaborator[];
   createdAt: Date;
   lastActivity: Date;
   isActive: boolean;
-  settings: {
-    allowRealTimeEditing: boolean;
-    requireApprovalForMajorChanges: boolean;
-    notifyOnChanges: boolean;
-  };
+  settings: CollaborativeSessionSettings;
 }
 
 export interface Collaborator {
@@ -43,6 +53,8 @@ export interface AgendaChange {
   userId: string;
   userName: string;
   timestamp: Date;
+  revision: number;
+  operations: AgendaTextOperation[];
   changeType: 'insert' | 'delete' | 'replace' | 'format';
   position: {
     line: number;
@@ -51,11 +63,8 @@ export interface AgendaChange {
   content?: string;
   length?: number;
   previousContent?: string;
-  metadata?: {
-    source: 'user' | 'ai' | 'template' | 'system';
-    changeSize: 'small' | 'medium' | 'large';
-    requiresApproval?: boolean;
-  };
+  clientId?: string;
+  metadata?: AgendaChangeMetadata;
 }
 
 export interface AgendaLock {
@@ -69,78 +78,276 @@ export interface AgendaLock {
   isActive: boolean;
 }
 
+type NewCollaborativeSession = typeof collaborativeSessions.$inferInsert;
+type NewAgendaChange = typeof agendaChanges.$inferInsert;
+
+// Who may edit a meeting's agenda: its organizer and the attendees it was sent to
+export interface AgendaMeeting {
+  userId: string;
+  attendees: string[];
+}
+
+export interface SubmitOperationsRequest {
+  sessionId: string;
+  userId: string;
+  userName: string;
+  baseRevision: number;
+  operations: AgendaTextOperation[];
+  clientId?: string;
+  metadata?: AgendaChangeMetadata;
+}
+
+/**
+ * Persistence used by the collaborative agenda service. Tests pass an in-memory implementation.
+ */
+export interface CollaborativeSessionStore {
+  createSession(session: NewCollaborativeSession): Promise<CollaborativeSessionRecord>;
+  getSession(sessionId: string): Promise<CollaborativeSessionRecord | undefined>;
+  findActiveSession(agendaId: string): Promise<CollaborativeSessionRecord | undefined>;
+  listActiveSessions(): Promise<CollaborativeSessionRecord[]>;
+  updateSession(sessionId: string, changes: Partial<NewCollaborativeSession>): Promise<void>;
+  // Stores the change and moves the session to its revision in one step
+  appendChange(change: NewAgendaChange, content: string): Promise<AgendaChangeRecord>;
+  listChangesAfter(sessionId: string, revision: number): Promise<AgendaChangeRecord[]>;
+  listAgendaChanges(agendaId: string, options: { limit?: number; since?: Date }): Promise<AgendaChangeRecord[]>;
+  countAgendaChanges(agendaId: string, since?: Date): Promise<number>;
+  // Owner of the first session opened on an agenda, active or not
+  findAgendaCreator(agendaId: string): Promise<string | undefined>;
+  // The meeting an agenda belongs to, by local or Google event id
+  findMeeting(agendaId: string): Promise<AgendaMeeting | undefined>;
+}
+
+export const databaseCollaborativeSessionStore: CollaborativeSessionStore = {
+  async createSession(session) {
+    const [created] = await db.insert(collaborativeSessions).values(session).returning();
+    return created;
+  },
+
+  async getSession(sessionId) {
+    const [session] = await db.select().from(collaborativeSessions).where(eq(collaborativeSessions.id, sessionId)).limit(1);
+    return session;
+  },
+
+  async findActiveSession(agendaId) {
+    const [session] = await db
+      .select()
+      .from(collaborativeSessions)
+      .where(and(eq(collaborativeSessions.agendaId, agendaId), eq(collaborativeSessions.isActive, true)))
+      .orderBy(desc(collaborativeSessions.lastActivity))
+      .limit(1);
+    return session;
+  },
+
+  async listActiveSessions() {
+    return db.select().from(collaborativeSessions).where(eq(collaborativeSessions.isActive, true));
+  },
+
+  async updateSession(sessionId, changes) {
+    await db.update(collaborativeSessions).set(changes).where(eq(collaborativeSessions.id, sessionId));
+  },
+
+  async appendChange(change, content) {
+    return db.transaction(async (tx) => {
+      // The unique (session_id, revision) constraint rejects a second writer for the same revision
+      const [created] = await tx.insert(agendaChanges).values(change).returning();
+      await tx.update(collaborativeSessions)
+        .set({ content, revision: change.revision, lastActivity: created.createdAt ?? new Date() })
+        .where(eq(collaborativeSessions.id, change.sessionId));
+      return created;
+    });
+  },
+
+  async listChangesAfter(sessionId, revision) {
+    return db
+      .select()
+      .from(agendaChanges)
+      .where(and(eq(agendaChanges.sessionId, sessionId), gt(agendaChanges.revision, revision)))
+      .orderBy(asc(agendaChanges.revision));
+  },
+
+  async listAgendaChanges(agendaId, { limit = 50, since }) {
+    const conditions = [eq(agendaChanges.agendaId, agendaId)];
+    if (since) {
+      conditions.push(gt(agendaChanges.createdAt, since));
+    }
+
+    const changes = await db
+      .select()
+      .from(agendaChanges)
+      .where(and(...conditions))
+      .orderBy(desc(agendaChanges.createdAt))
+      .limit(limit);
+    return changes.reverse();
+  },
+
+  async countAgendaChanges(agendaId, since) {
+    const conditions = [eq(agendaChanges.agendaId, agendaId)];
+    if (since) {
+      conditions.push(gt(agendaChanges.createdAt, since));
+    }
+
+    const [result] = await db.select({ total: count() }).from(agendaChanges).where(and(...conditions));
+    return Number(result?.total ?? 0);
+  },
+
+  async findAgendaCreator(agendaId) {
+    const [session] = await db
+      .select({ ownerId: collaborativeSessions.ownerId })
+      .from(collaborativeSessions)
+      .where(eq(collaborativeSessions.agendaId, agendaId))
+      .orderBy(asc(collaborativeSessions.createdAt))
+      .limit(1);
+    return session?.ownerId;
+  },
+
+  async findMeeting(agendaId) {
+    const [meeting] = await db
+      .select({ userId: events.userId, attendees: events.attendees })
+      .from(events)
+      .where(or(eq(events.id, agendaId), eq(events.googleEventId, agendaId)))
+      .limit(1);
+    return meeting && { userId: meeting.userId, attendees: meeting.attendees ?? [] };
+  }
+};
+
+const DEFAULT_SETTINGS: CollaborativeSessionSettings = {
+  allowRealTimeEditing: true,
+  requireApprovalForMajorChanges: false,
+  notifyOnChanges: true
+};
+
+function isInvited(meeting: AgendaMeeting, userId: string, email: string): boolean {
+  return meeting.userId === userId || meeting.attendees.some(attendee => attendee.toLowerCase() === email.toLowerCase());
+}
+
+/**
+ * CollaborativeAgendaService lets several people edit one agenda at once. Sessions and
+ * their change history are persisted; concurrent edits are merged with operational
+ * transformation, so nobody has to lock a section before typing. Presence (who is
+ * online, cursors, selections) and advisory section locks are kept in memory.
+ */
 export class CollaborativeAgendaService extends EventEmitter {
+  // Sessions loaded from the store, carrying live presence
   private sessions = new Map<string, CollaborativeSession>();
-  private collaborators = new Map<string, Map<string, Collaborator>>();
-  private changes = new Map<string, AgendaChange[]>();
   private locks = new Map<string, AgendaLock[]>();
-  private changeBuffer = new Map<string, AgendaChange[]>();
+  // Submissions are applied one at a time per session so revisions stay gapless
+  private submissionQueues = new Map<string, Promise<unknown>>();
   private readonly LOCK_TIMEOUT = 5 * 60 * 1000; // 5 minutes
   private readonly SESSION_TIMEOUT = 30 * 60 * 1000; // 30 minutes
-  private readonly MAX_CHANGES_BUFFERED = 100;
+
+  constructor(private readonly store: CollaborativeSessionStore = databaseCollaborativeSessionStore) {
+    super();
+  }
 
   /**
-   * Create a new collaborative session
+   * Whether the user may see and edit an agenda: the meeting's organizer and its attendees may.
+   * Agendas of meetings that are not saved yet have no one to share them with, so they belong
+   * to whoever opened the first session on them.
    */
-  createSession(agendaId: string, ownerId: string, ownerEmail: string, ownerName: string): CollaborativeSession {
-    const sessionId = `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  async canAccessAgenda(agendaId: string, userId: string, email: string): Promise<boolean> {
+    const meeting = await this.store.findMeeting(agendaId);
+    if (!meeting) {
+      const creatorId = await this.store.findAgendaCreator(agendaId);
+      return !creatorId || creatorId === userId;
+    }
 
-    const session: CollaborativeSession = {
-      id: sessionId,
-      agendaId,
-      participants: [{
-        id: `collab_${ownerId}`,
-        userId: ownerId,
-        email: ownerEmail,
-        name: ownerName,
-        role: 'owner',
-        joinedAt: new Date(),
-        lastSeen: new Date(),
-        isOnline: true,
-        cursor: { line: 0, column: 0, color: '#3B82F6' }
-      }],
-      createdAt: new Date(),
-      lastActivity: new Date(),
-      isActive: true,
-      settings: {
-        allowRealTimeEditing: true,
-        requireApprovalForMajorChanges: false,
-        notifyOnChanges: true
-      }
+    return isInvited(meeting, userId, email);
+  }
+
+  /**
+   * Whether the user may join the session: its owner, or someone invited to the meeting
+   */
+  async canJoinSession(sessionId: string, userId: string, email: string): Promise<boolean> {
+    const session = await this.getSession(sessionId);
+    if (!session?.isActive) {
+      return false;
+    }
+
+    if (session.participants.some(p => p.userId === userId && p.role === 'owner')) {
+      return true;
+    }
+    const meeting = await this.store.findMeeting(session.agendaId);
+    return !!meeting && isInvited(meeting, userId, email);
+  }
+
+  /**
+   * Create a new collaborative session, seeded with the agenda's current text.
+   * Returns null when the user is not invited to the agenda's meeting.
+   */
+  async createSession(agendaId: string, ownerId: string, ownerEmail: string, ownerName: string, content: string = ''): Promise<CollaborativeSession | null> {
+    if (!(await this.canAccessAgenda(agendaId, ownerId, ownerEmail))) {
+      return null;
+    }
+
+    const owner: CollaborativeParticipant = {
+      userId: ownerId,
+      email: ownerEmail,
+      name: ownerName,
+      role: 'owner',
+      color: '#3B82F6',
+      joinedAt: new Date().toISOString()
     };
 
-    this.sessions.set(sessionId, session);
-    this.collaborators.set(sessionId, new Map([[ownerId, session.participants[0]]]));
-    this.changes.set(agendaId, []);
-    this.locks.set(agendaId, []);
+    const record = await this.store.createSession({
+      agendaId,
+      ownerId,
+      content,
+      participants: [owner],
+      settings: DEFAULT_SETTINGS
+    });
 
-    console.log(`Created collaborative session ${sessionId} for agenda ${agendaId}`);
+    const session = this.toSession(record);
+    session.participants[0].isOnline = true;
+    this.sessions.set(session.id, session);
+
+    console.log(`Created collaborative session ${session.id} for agenda ${agendaId}`);
     this.emit('sessionCreated', { session, agendaId });
 
     return session;
   }
 
   /**
-   * Join an existing collaborative session
+   * Get a session, loading it from the store after a restart
+   */
+  async getSession(sessionId: string): Promise<CollaborativeSession | null> {
+    const cached = this.sessions.get(sessionId);
+    if (cached) {
+      return cached;
+    }
+
+    const record = await this.store.getSession(sessionId);
+    if (!record) {
+      return null;
+    }
+
+    // Another request may have loaded it while we were waiting
+    const session = this.sessions.get(sessionId) ?? this.toSession(record);
+    this.sessions.set(sessionId, session);
+    return session;
+  }
+
+  /**
+   * Join an existing collaborative session. Returns null when the session is closed or the
+   * user is not invited to its meeting.
    */
-  joinSession(sessionId: string, userId: string, email: string, name: string): Collaborator | null {
-    const session = this.sessions.get(sessionId);
-    if (!session || !session.isActive) {
+  async joinSession(sessionId: string, userId: string, email: string, name: string): Promise<Collaborator | null> {
+    const session = await this.getSession(sessionId);
+    if (!session || !(await this.canJoinSession(sessionId, userId, email))) {
       return null;
     }
 
     // Check if user is already in session
-    const existingCollaborators = this.collaborators.get(sessionId);
-    if (existingCollaborators?.has(userId)) {
-      const collaborator = existingCollaborators.get(userId)!;
-      collaborator.lastSeen = new Date();
-      collaborator.isOnline = true;
-      return collaborator;
+    const existing = session.participants.find(p => p.userId === userId);
+    if (existing) {
+      existing.lastSeen = new Date();
+      existing.isOnline = true;
+      this.emit('userJoined', { sessionId, collaborator: existing });
+      return existing;
     }
 
     // Add new collaborator
     const newCollaborator: Collaborator = {
-      id: `collab_${userId}_${Date.now()}`,
+      id: `collab_${userId}`,
       userId,
       email,
       name,
@@ -148,12 +355,15 @@ export class CollaborativeAgendaService extends EventEmitter {
       joinedAt: new Date(),
       lastSeen: new Date(),
       isOnline: true,
-      cursor: { line: 0, column: 0, color: this.generateRandomColor() }
+      cursor: { line: 0, column: 0, color: this.pickColor(session) }
     };
 
     session.participants.push(newCollaborator);
-    existingCollaborators?.set(userId, newCollaborator);
     session.lastActivity = new Date();
+    await this.store.updateSession(sessionId, {
+      participants: session.participants.map(p => this.toParticipant(p)),
+      lastActivity: session.lastActivity
+    });
 
     console.log(`User ${name} joined session ${sessionId}`);
     this.emit('userJoined', { sessionId, collaborator: newCollaborator });
@@ -162,100 +372,143 @@ export class CollaborativeAgendaService extends EventEmitter {
   }
 
   /**
-   * Leave a collaborative session
+   * Leave a collaborative session. The session stays open so others can keep editing.
    */
-  leaveSession(sessionId: string, userId: string): boolean {
-    const session = this.sessions.get(sessionId);
-    if (!session) return false;
+  async leaveSession(sessionId: string, userId: string): Promise<boolean> {
+    const session = await this.getSession(sessionId);
+    const collaborator = session?.participants.find(p => p.userId === userId);
 
-    const collaborators = this.collaborators.get(sessionId);
-    const collaborator = collaborators?.get(userId);
-
-    if (collaborator) {
-      collaborator.isOnline = false;
-      collaborator.lastSeen = new Date();
+    if (!session || !collaborator) {
+      return false;
+    }
 
-      // Remove any locks held by this user
-      this.releaseUserLocks(sessionId, userId);
+    collaborator.isOnline = false;
+    collaborator.lastSeen = new Date();
 
-      console.log(`User ${collaborator.name} left session ${sessionId}`);
-      this.emit('userLeft', { sessionId, collaborator });
+    // Remove any locks held by this user
+    this.releaseUserLocks(session.agendaId, userId);
 
-      // If no active users remain, mark session as inactive
-      const activeUsers = session.participants.filter(p => p.isOnline);
-      if (activeUsers.length === 0) {
-        session.isActive = false;
-        console.log(`Session ${sessionId} marked as inactive`);
-      }
+    console.log(`User ${collaborator.name} left session ${sessionId}`);
+    this.emit('userLeft', { sessionId, collaborator });
 
-      return true;
-    }
-
-    return false;
+    return true;
   }
 
   /**
-   * Record an agenda change
+   * Apply edits made on top of `baseRevision`. Edits other people made since then are
+   * transformed in first, so concurrent typing merges instead of conflicting.
+   * Returns null when the session is closed or the user may not edit it.
    */
-  recordChange(change: Omit<AgendaChange, 'id' | 'timestamp'>): AgendaChange {
-    const fullChange: AgendaChange = {
-      ...change,
-      id: `change_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: new Date()
-    };
+  async submitOperations(request: SubmitOperationsRequest): Promise<AgendaChange | null> {
+    const previous = this.submissionQueues.get(request.sessionId) ?? Promise.resolve();
+    const next = previous.catch(() => undefined).then(() => this.applySubmission(request));
+    this.submissionQueues.set(request.sessionId, next);
+
+    try {
+      return await next;
+    } finally {
+      if (this.submissionQueues.get(request.sessionId) === next) {
+        this.submissionQueues.delete(request.sessionId);
+      }
+    }
+  }
 
-    // Add to agenda's change history
-    const agendaChanges = this.changes.get(change.agendaId) || [];
-    agendaChanges.push(fullChange);
+  private async applySubmission(request: SubmitOperationsRequest): Promise<AgendaChange | null> {
+    const session = await this.getSession(request.sessionId);
+    const collaborator = session?.participants.find(p => p.userId === request.userId);
+    if (!session?.isActive || !collaborator || collaborator.role === 'viewer') {
+      return null;
+    }
 
-    // Keep only recent changes (last 1000)
-    if (agendaChanges.length > 1000) {
-      agendaChanges.splice(0, agendaChanges.length - 1000);
+    if (request.baseRevision > session.revision) {
+      throw new Error(`Revision ${request.baseRevision} is ahead of the session (${session.revision})`);
     }
-    this.changes.set(change.agendaId, agendaChanges);
 
-    // Buffer changes for real-time broadcasting
-    this.bufferChange(fullChange);
+    // Earlier submissions win ties, so they keep their place on equal offsets
+    let operations = request.operations;
+    if (request.baseRevision < session.revision) {
+      const concurrent = await this.store.listChangesAfter(session.id, request.baseRevision);
+      for (const change of concurrent) {
+        [operations] = transformOperations(operations, change.operations, 'right');
+      }
+    }
 
-    // Update session activity
-    const session = this.sessions.get(change.sessionId);
-    if (session) {
-      session.lastActivity = new Date();
+    // Apply step by step to keep the removed text for the change history
+    let content = session.content;
+    let removed = '';
+    for (const operation of operations) {
+      if (operation.type === 'delete') {
+        removed += content.slice(operation.index, operation.index + operation.length);
+      }
+      content = applyOperation(content, operation);
     }
+    const inserted = operations.flatMap(op => (op.type === 'insert' ? [op.text] : [])).join('');
+
+    const record = await this.store.appendChange({
+      sessionId: session.id,
+      agendaId: session.agendaId,
+      userId: request.userId,
+      userName: request.userName,
+      revision: session.revision + 1,
+      changeType: !removed ? 'insert' : !inserted ? 'delete' : 'replace',
+      operations,
+      position: offsetToPosition(session.content, operations[0]?.index ?? 0),
+      content: inserted || undefined,
+      length: removed.length || undefined,
+      previousContent: removed || undefined,
+      clientId: request.clientId,
+      metadata: request.metadata
+    }, content);
+
+    session.content = content;
+    session.revision = record.revision;
+    session.lastActivity = new Date();
+    collaborator.lastSeen = session.lastActivity;
 
-    console.log(`Recorded change in session ${change.sessionId}: ${change.changeType}`);
-    this.emit('changeRecorded', { change: fullChange, sessionId: change.sessionId });
+    const change = this.toChange(record);
+    console.log(`Recorded change in session ${session.id}: ${change.changeType} (revision ${change.revision})`);
+    this.emit('changeRecorded', { change, sessionId: session.id });
 
-    return fullChange;
+    return change;
+  }
+
+  /**
+   * Changes a reconnecting editor missed, in revision order
+   */
+  async getChangesAfterRevision(sessionId: string, revision: number): Promise<AgendaChange[]> {
+    const changes = await this.store.listChangesAfter(sessionId, revision);
+    return changes.map(change => this.toChange(change));
   }
 
   /**
    * Get recent changes for an agenda
    */
-  getRecentChanges(agendaId: string, limit: number = 50): AgendaChange[] {
-    const changes = this.changes.get(agendaId) || [];
-    return changes.slice(-limit);
+  async getRecentChanges(agendaId: string, limit: number = 50): Promise<AgendaChange[]> {
+    const changes = await this.store.listAgendaChanges(agendaId, { limit });
+    return changes.map(change => this.toChange(change));
   }
 
   /**
    * Get changes since a specific timestamp
    */
-  getChangesSince(agendaId: string, since: Date): AgendaChange[] {
-    const changes = this.changes.get(agendaId) || [];
-    return changes.filter(change => change.timestamp > since);
+  async getChangesSince(agendaId: string, since: Date): Promise<AgendaChange[]> {
+    const changes = await this.store.listAgendaChanges(agendaId, { since, limit: 1000 });
+    return changes.map(change => this.toChange(change));
   }
 
   /**
-   * Acquire a lock on a section of the agenda
+   * Acquire an advisory lock on a section of the session's agenda, e.g. while it is rewritten by AI.
+   * Edits are merged regardless; locks only tell others to hold off.
    */
-  acquireLock(sessionId: string, agendaId: string, section: string, userId: string): AgendaLock | null {
-    const session = this.sessions.get(sessionId);
+  async acquireLock(sessionId: string, section: string, userId: string): Promise<AgendaLock | null> {
+    const session = await this.getSession(sessionId);
     if (!session?.isActive) return null;
 
-    const collaborators = this.collaborators.get(sessionId);
-    const collaborator = collaborators?.get(userId);
+    const collaborator = session.participants.find(p => p.userId === userId);
     if (!collaborator || collaborator.role === 'viewer') return null;
 
+    const { agendaId } = session;
+
     // Check if section is already locked
     const agendaLocks = this.locks.get(agendaId) || [];
     const existingLock = agendaLocks.find(lock =>
@@ -298,11 +551,11 @@ export class CollaborativeAgendaService extends EventEmitter {
    */
   releaseLock(lockId: string): boolean {
     for (const [agendaId, locks] of this.locks.entries()) {
-      const lockIndex = locks.findIndex(lock => lock.id === lockId);
-      if (lockIndex !== -1) {
-        locks[lockIndex].isActive = false;
+      const lock = locks.find(lock => lock.id === lockId && lock.isActive);
+      if (lock) {
+        lock.isActive = false;
         console.log(`Lock ${lockId} released`);
-        this.emit('lockReleased', { lockId, agendaId });
+        this.emit('lockReleased', { lockId, agendaId, sessionId: lock.sessionId });
         return true;
       }
     }
@@ -310,27 +563,31 @@ export class CollaborativeAgendaService extends EventEmitter {
   }
 
   /**
-   * Release all locks held by a user
+   * Active, unexpired locks on an agenda
    */
-  private releaseUserLocks(sessionId: string, userId: string): void {
-    const session = this.sessions.get(sessionId);
-    if (!session) return;
+  getLocks(agendaId: string): AgendaLock[] {
+    const now = new Date();
+    return (this.locks.get(agendaId) || []).filter(lock => lock.isActive && lock.expiresAt > now);
+  }
 
-    for (const [agendaId, locks] of this.locks.entries()) {
-      const userLocks = locks.filter(lock => lock.lockedBy === userId && lock.isActive);
-      userLocks.forEach(lock => {
+  /**
+   * Release all locks held by a user
+   */
+  private releaseUserLocks(agendaId: string, userId: string): void {
+    const locks = this.locks.get(agendaId) || [];
+    locks
+      .filter(lock => lock.lockedBy === userId && lock.isActive)
+      .forEach(lock => {
         lock.isActive = false;
-        this.emit('lockReleased', { lockId: lock.id, agendaId });
+        this.emit('lockReleased', { lockId: lock.id, agendaId, sessionId: lock.sessionId });
       });
-    }
   }
 
   /**
    * Update user cursor position
    */
   updateCursor(sessionId: string, userId: string, line: number, column: number): boolean {
-    const collaborators = this.collaborators.get(sessionId);
-    const collaborator = collaborators?.get(userId);
+    const collaborator = this.sessions.get(sessionId)?.participants.find(p => p.userId === userId);
 
     if (collaborator) {
       collaborator.cursor = { line, column, color: collaborator.cursor?.color || '#3B82F6' };
@@ -347,8 +604,7 @@ export class CollaborativeAgendaService extends EventEmitter {
    * Update user text selection
    */
   updateSelection(sessionId: string, userId: string, startLine: number, startColumn: number, endLine: number, endColumn: number): boolean {
-    const collaborators = this.collaborators.get(sessionId);
-    const collaborator = collaborators?.get(userId);
+    const collaborator = this.sessions.get(sessionId)?.participants.find(p => p.userId === userId);
 
     if (collaborator) {
       collaborator.selection = { startLine, startColumn, endLine, endColumn };
@@ -364,27 +620,24 @@ export class CollaborativeAgendaService extends EventEmitter {
   /**
    * Get active session for an agenda
    */
-  getActiveSession(agendaId: string): CollaborativeSession | null {
-    for (const session of this.sessions.values()) {
-      if (session.agendaId === agendaId && session.isActive) {
-        return session;
-      }
-    }
-    return null;
+  async getActiveSession(agendaId: string): Promise<CollaborativeSession | null> {
+    const record = await this.store.findActiveSession(agendaId);
+    return record ? this.getSession(record.id) : null;
   }
 
   /**
    * Get all active sessions
    */
-  getActiveSessions(): CollaborativeSession[] {
-    return Array.from(this.sessions.values()).filter(session => session.isActive);
+  async getActiveSessions(): Promise<CollaborativeSession[]> {
+    const records = await this.store.listActiveSessions();
+    return records.map(record => this.sessions.get(record.id) ?? this.toSession(record));
   }
 
   /**
    * End a collaborative session
    */
-  endSession(sessionId: string): boolean {
-    const session = this.sessions.get(sessionId);
+  async endSession(sessionId: string): Promise<boolean> {
+    const session = await this.getSession(sessionId);
     if (!session) return false;
 
     session.isActive = false;
@@ -393,6 +646,9 @@ export class CollaborativeAgendaService extends EventEmitter {
     session.participants.forEach(participant => {
       participant.isOnline = false;
     });
+    this.releaseAgendaLocks(session.agendaId);
+
+    await this.store.updateSession(sessionId, { isActive: false, endedAt: new Date() });
 
     console.log(`Session ${sessionId} ended`);
     this.emit('sessionEnded', { sessionId, agendaId: session.agendaId });
@@ -401,18 +657,17 @@ export class CollaborativeAgendaService extends EventEmitter {
   }
 
   /**
-   * Clean up inactive sessions and expired locks
+   * Drop idle sessions from memory (they reload from the store on demand) and expired locks
    */
   cleanup(): { sessionsRemoved: number; locksRemoved: number } {
     const now = Date.now();
     let sessionsRemoved = 0;
     let locksRemoved = 0;
 
-    // Clean up inactive sessions
     for (const [sessionId, session] of this.sessions.entries()) {
-      if (now - session.lastActivity.getTime() > this.SESSION_TIMEOUT) {
+      const idle = now - session.lastActivity.getTime() > this.SESSION_TIMEOUT;
+      if (idle && !session.participants.some(p => p.isOnline)) {
         this.sessions.delete(sessionId);
-        this.collaborators.delete(sessionId);
         sessionsRemoved++;
       }
     }
@@ -437,85 +692,107 @@ export class CollaborativeAgendaService extends EventEmitter {
   }
 
   /**
-   * Buffer changes for real-time broadcasting
-   */
-  private bufferChange(change: AgendaChange): void {
-    if (!this.changeBuffer.has(change.sessionId)) {
-      this.changeBuffer.set(change.sessionId, []);
-    }
-
-    const buffer = this.changeBuffer.get(change.sessionId)!;
-    buffer.push(change);
-
-    // Auto-flush buffer when it gets too large
-    if (buffer.length >= this.MAX_CHANGES_BUFFERED) {
-      this.flushChangeBuffer(change.sessionId);
-    }
-  }
-
-  /**
-   * Flush buffered changes for a session
+   * Get session statistics
    */
-  flushChangeBuffer(sessionId: string): AgendaChange[] {
-    const buffer = this.changeBuffer.get(sessionId);
-    if (!buffer || buffer.length === 0) return [];
-
-    this.changeBuffer.set(sessionId, []);
+  async getSessionStats(sessionId: string): Promise<{
+    session?: CollaborativeSession;
+    collaboratorCount: number;
+    activeCollaborators: number;
+    totalChanges: number;
+    recentChanges: number;
+    activeLocks: number;
+  } | null> {
+    const session = await this.getSession(sessionId);
+    if (!session) return null;
 
-    console.log(`Flushed ${buffer.length} buffered changes for session ${sessionId}`);
-    this.emit('changesFlushed', { sessionId, changes: buffer });
+    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
 
-    return buffer;
+    return {
+      session,
+      collaboratorCount: session.participants.length,
+      activeCollaborators: session.participants.filter(p => p.isOnline).length,
+      totalChanges: await this.store.countAgendaChanges(session.agendaId),
+      recentChanges: await this.store.countAgendaChanges(session.agendaId, fiveMinutesAgo),
+      activeLocks: this.getLocks(session.agendaId).length
+    };
   }
 
-  /**
-   * Get buffered changes for a session
-   */
-  getBufferedChanges(sessionId: string): AgendaChange[] {
-    return this.changeBuffer.get(sessionId) || [];
+  private releaseAgendaLocks(agendaId: string): void {
+    for (const lock of this.getLocks(agendaId)) {
+      this.releaseLock(lock.id);
+    }
   }
 
   /**
-   * Generate a random color for user cursor
+   * Pick a cursor color, preferring one nobody in the session uses yet
    */
-  private generateRandomColor(): string {
+  private pickColor(session: CollaborativeSession): string {
     const colors = [
       '#3B82F6', '#EF4444', '#10B981', '#F59E0B',
       '#8B5CF6', '#EC4899', '#06B6D4', '#84CC16'
     ];
-    return colors[Math.floor(Math.random() * colors.length)];
+    const used = new Set(session.participants.map(p => p.cursor?.color));
+    const free = colors.filter(color => !used.has(color));
+    const choices = free.length > 0 ? free : colors;
+    return choices[Math.floor(Math.random() * choices.length)];
   }
 
-  /**
-   * Get session statistics
-   */
-  getSessionStats(sessionId: string): {
-    session?: CollaborativeSession;
-    collaboratorCount: number;
-    activeCollaborators: number;
-    totalChanges: number;
-    recentChanges: number;
-    activeLocks: number;
-  } | null {
-    const session = this.sessions.get(sessionId);
-    if (!session) return null;
-
-    const collaborators = this.collaborators.get(sessionId);
-    const agendaChanges = this.changes.get(session.agendaId) || [];
-    const agendaLocks = this.locks.get(session.agendaId) || [];
+  private toSession(record: CollaborativeSessionRecord): CollaborativeSession {
+    const lastActivity = record.lastActivity ?? new Date();
+    return {
+      id: record.id,
+      agendaId: record.agendaId,
+      content: record.content,
+      revision: record.revision,
+      participants: record.participants.map(participant => ({
+        id: `collab_${participant.userId}`,
+        userId: participant.userId,
+        email: participant.email,
+        name: participant.name,
+        role: participant.role,
+        joinedAt: new Date(participant.joinedAt),
+        lastSeen: lastActivity,
+        isOnline: false, // presence is rebuilt as editors reconnect
+        cursor: { line: 0, column: 0, color: participant.color }
+      })),
+      createdAt: record.createdAt ?? new Date(),
+      lastActivity,
+      isActive: record.isActive,
+      settings: record.settings
+    };
+  }
 
-    const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
+  private toParticipant(collaborator: Collaborator): CollaborativeParticipant {
+    return {
+      userId: collaborator.userId,
+      email: collaborator.email,
+      name: collaborator.name,
+      role: collaborator.role,
+      color: collaborator.cursor?.color || '#3B82F6',
+      joinedAt: collaborator.joinedAt.toISOString()
+    };
+  }
 
+  private toChange(record: AgendaChangeRecord): AgendaChange {
     return {
-      session,
-      collaboratorCount: collaborators?.size || 0,
-      activeCollaborators: session.participants.filter(p => p.isOnline).length,
-      totalChanges: agendaChanges.length,
-      recentChanges: agendaChanges.filter(c => c.timestamp > fiveMinutesAgo).length,
-      activeLocks: agendaLocks.filter(l => l.isActive && l.expiresAt > new Date()).length
+      id: record.id,
+      sessionId: record.sessionId,
+      agendaId: record.agendaId,
+      userId: record.userId,
+      userName: record.userName,
+      timestamp: record.createdAt ?? new Date(),
+      revision: record.revision,
+      operations: record.operations,
+      changeType: record.changeType as AgendaChange['changeType'],
+      position: record.position,
+      content: record.content ?? undefined,
+      length: record.length ?? undefined,
+      previousContent: record.previousContent ?? undefined,
+      clientId: record.clientId ?? undefined,
+      metadata: record.metadata ?? undefined
     };
   }
 }
 
 // Export singleton instance
-export const collaborativeAgendaService = new CollaborativeAgendaService();
\ No newline at end of file
+export const collaborativeAgendaService = new CollaborativeAgendaService();
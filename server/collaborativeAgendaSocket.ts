@@ -0,0 +1,246 @@
+import type { IncomingMessage, Server } from 'http';
+import type { Duplex } from 'stream';
+import type { RequestHandler } from 'express';
+import passport from 'passport';
+import { WebSocketServer, WebSocket, type RawData } from 'ws';
+import { collaborativeClientMessageSchema, type CollaborativeClientMessage } from '../shared/schema.js';
+import { collaborativeAgendaService, type CollaborativeAgendaService } from './collaborativeAgendaService.js';
+
+export const COLLABORATIVE_SOCKET_PATH = '/ws/collaborative';
+
+const HEARTBEAT_INTERVAL = 30 * 1000;
+const CLEANUP_INTERVAL = 5 * 60 * 1000;
+
+interface SocketUser {
+  id: string;
+  email: string;
+  name?: string | null;
+}
+
+interface Connection {
+  socket: WebSocket;
+  user: SocketUser;
+  sessionIds: Set<string>;
+  isAlive: boolean;
+}
+
+/**
+ * Runs the express session and passport middleware against the upgrade request,
+ * so sockets are authenticated with the same cookie as the REST API
+ */
+function authenticateUpgrade(req: IncomingMessage, sessionMiddleware: RequestHandler): Promise<SocketUser | undefined> {
+  const request = req as any;
+  const response = {} as any;
+
+  return new Promise(resolve => {
+    sessionMiddleware(request, response, () => {
+      passport.initialize()(request, response, () => {
+        passport.session()(request, response, () => resolve(request.user));
+      });
+    });
+  });
+}
+
+function send(socket: WebSocket, message: Record<string, any>): void {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+/**
+ * Attaches the collaborative agenda WebSocket to the HTTP server. Editors join sessions
+ * over the socket, submit text operations, and receive every change, cursor, presence
+ * and lock event for the sessions they joined as it happens.
+ */
+export function attachCollaborativeAgendaSocket(
+  server: Server,
+  sessionMiddleware: RequestHandler,
+  service: CollaborativeAgendaService = collaborativeAgendaService
+): WebSocketServer {
+  const wss = new WebSocketServer({ noServer: true });
+  const connections = new Map<WebSocket, Connection>();
+  const rooms = new Map<string, Set<Connection>>();
+
+  const broadcast = (sessionId: string, message: Record<string, any>) => {
+    rooms.get(sessionId)?.forEach(connection => send(connection.socket, message));
+  };
+
+  service.on('changeRecorded', ({ change, sessionId }) => broadcast(sessionId, { type: 'change', change }));
+  service.on('cursorUpdated', ({ sessionId, userId, cursor }) => broadcast(sessionId, { type: 'cursor', sessionId, userId, cursor }));
+  service.on('selectionUpdated', ({ sessionId, userId, selection }) => broadcast(sessionId, { type: 'selection', sessionId, userId, selection }));
+  service.on('userJoined', ({ sessionId, collaborator }) => broadcast(sessionId, { type: 'presence', sessionId, collaborator }));
+  service.on('userLeft', ({ sessionId, collaborator }) => broadcast(sessionId, { type: 'presence', sessionId, collaborator }));
+  service.on('lockAcquired', ({ lock, sessionId }) => broadcast(sessionId, { type: 'lockAcquired', sessionId, lock }));
+  service.on('lockReleased', ({ lockId, sessionId }) => broadcast(sessionId, { type: 'lockReleased', sessionId, lockId }));
+  service.on('sessionEnded', ({ sessionId }) => {
+    broadcast(sessionId, { type: 'sessionEnded', sessionId });
+    rooms.delete(sessionId);
+  });
+
+  const leave = async (connection: Connection, sessionId: string) => {
+    connection.sessionIds.delete(sessionId);
+    const room = rooms.get(sessionId);
+    room?.delete(connection);
+    if (room?.size === 0) {
+      rooms.delete(sessionId);
+    }
+
+    // The user may still have the agenda open in another tab
+    const stillConnected = Array.from(room ?? []).some(other => other.user.id === connection.user.id);
+    if (!stillConnected) {
+      await service.leaveSession(sessionId, connection.user.id);
+    }
+  };
+
+  const handleMessage = async (connection: Connection, message: CollaborativeClientMessage) => {
+    const { user, socket } = connection;
+
+    if (message.type === 'join') {
+      const collaborator = await service.joinSession(message.sessionId, user.id, user.email, user.name || user.email);
+      const session = collaborator ? await service.getSession(message.sessionId) : null;
+      if (!session) {
+        return send(socket, { type: 'error', sessionId: message.sessionId, error: 'Session not found or inactive' });
+      }
+
+      connection.sessionIds.add(session.id);
+      if (!rooms.has(session.id)) {
+        rooms.set(session.id, new Set());
+      }
+      rooms.get(session.id)!.add(connection);
+
+      // Reconnecting editors catch up from their last revision instead of reloading the text
+      const missedChanges = message.sinceRevision !== undefined && message.sinceRevision <= session.revision
+        ? await service.getChangesAfterRevision(session.id, message.sinceRevision)
+        : undefined;
+
+      return send(socket, {
+        type: 'joined',
+        session,
+        collaboratorId: collaborator!.id,
+        locks: service.getLocks(session.agendaId),
+        missedChanges
+      });
+    }
+
+    if (!connection.sessionIds.has(message.sessionId)) {
+      return send(socket, { type: 'error', sessionId: message.sessionId, error: 'Join the session first' });
+    }
+
+    switch (message.type) {
+      case 'leave':
+        await leave(connection, message.sessionId);
+        break;
+
+      case 'operations': {
+        try {
+          const change = await service.submitOperations({
+            sessionId: message.sessionId,
+            userId: user.id,
+            userName: user.name || user.email,
+            baseRevision: message.baseRevision,
+            operations: message.operations,
+            clientId: message.clientId,
+            metadata: message.metadata
+          });
+          if (!change) {
+            send(socket, { type: 'error', sessionId: message.sessionId, error: 'You cannot edit this session' });
+          }
+        } catch (error: any) {
+          // The edit could not be merged; hand the editor the current text to start over from
+          console.error('Error applying collaborative agenda operations:', error);
+          send(socket, { type: 'resync', session: await service.getSession(message.sessionId), error: error.message });
+        }
+        break;
+      }
+
+      case 'cursor':
+        service.updateCursor(message.sessionId, user.id, message.line, message.column);
+        break;
+
+      case 'selection':
+        service.updateSelection(message.sessionId, user.id, message.startLine, message.startColumn, message.endLine, message.endColumn);
+        break;
+    }
+  };
+
+  wss.on('connection', (socket: WebSocket, user: SocketUser) => {
+    const connection: Connection = { socket, user, sessionIds: new Set(), isAlive: true };
+    connections.set(socket, connection);
+
+    socket.on('pong', () => {
+      connection.isAlive = true;
+    });
+
+    socket.on('message', async (data: RawData) => {
+      let parsed;
+      try {
+        parsed = collaborativeClientMessageSchema.safeParse(JSON.parse(data.toString()));
+      } catch {
+        return send(socket, { type: 'error', error: 'Messages must be JSON' });
+      }
+      if (!parsed.success) {
+        return send(socket, { type: 'error', error: 'Invalid message', details: parsed.error.errors });
+      }
+
+      try {
+        await handleMessage(connection, parsed.data);
+      } catch (error: any) {
+        console.error('Error handling collaborative agenda message:', error);
+        send(socket, { type: 'error', error: error.message || 'Failed to handle message' });
+      }
+    });
+
+    socket.on('close', () => {
+      connections.delete(socket);
+      Array.from(connection.sessionIds).forEach(sessionId => {
+        leave(connection, sessionId).catch(error => console.error('Error leaving collaborative session:', error));
+      });
+    });
+  });
+
+  server.on('upgrade', async (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+    if (pathname !== COLLABORATIVE_SOCKET_PATH) {
+      return; // Other upgrade handlers (e.g. the Vite HMR socket) own the rest
+    }
+
+    const user = await authenticateUpgrade(req, sessionMiddleware);
+    if (!user) {
+      socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    // Sockets are opened for one session; only people invited to its meeting get one
+    const sessionId = searchParams.get('sessionId');
+    if (!sessionId || !(await service.canJoinSession(sessionId, user.id, user.email))) {
+      socket.write('HTTP/1.1 403 Forbidden\r\n\r\n');
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => wss.emit('connection', ws, user));
+  });
+
+  // Drop sockets that stopped answering pings, e.g. after a laptop went to sleep
+  const heartbeat = setInterval(() => {
+    connections.forEach(connection => {
+      if (!connection.isAlive) {
+        connection.socket.terminate();
+        return;
+      }
+      connection.isAlive = false;
+      connection.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL);
+
+  const cleanup = setInterval(() => service.cleanup(), CLEANUP_INTERVAL);
+
+  wss.on('close', () => {
+    clearInterval(heartbeat);
+    clearInterval(cleanup);
+  });
+
+  console.log(`🔌 Collaborative agenda socket listening on ${COLLABORATIVE_SOCKET_PATH}`);
+  return wss;
+}
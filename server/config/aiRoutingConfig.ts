@@ -1,4 +1,11 @@
 import { RoutingRules, RoutingRule } from '../aiRouterService.js';
+import { aiProviderRegistry } from '../aiProviderRegistry.js';
+
+export interface CircuitBreakerSettings {
+    failureThreshold: number;
+    resetTimeout: number;
+    maxRetries: number;
+}
 
 /**
  * Configuration interface for AI routing system
@@ -15,6 +22,7 @@ export interface AIRoutingConfiguration {
         enableGlobalFallback: boolean;
         maxRetries: number;
         retryDelay: number;
+        maxSchemaRepairs?: number; // Repair round-trips for output failing its schema
     };
     performance: {
         defaultTimeout: number;
@@ -22,18 +30,25 @@ export interface AIRoutingConfiguration {
         cacheEnabled: boolean;
         cacheTTL: number;
     };
-    circuitBreaker: {
-        gemini: {
-            failureThreshold: number;
-            resetTimeout: number;
-            maxRetries: number;
-        };
-        mistral: {
-            failureThreshold: number;
-            resetTimeout: number;
-            maxRetries: number;
-        };
-    };
+    // Keyed by provider name; providers without an entry use DEFAULT_CIRCUIT_BREAKER_SETTINGS
+    circuitBreaker: Record<string, CircuitBreakerSettings>;
+}
+
+export const DEFAULT_CIRCUIT_BREAKER_SETTINGS: CircuitBreakerSettings = {
+    failureThreshold: 3,
+    resetTimeout: 60000, // 1 minute
+    maxRetries: 2
+};
+
+/**
+ * Providers to try, in order, after the primary model fails. Rules written
+ * before fallback chains name a single fallbackModel.
+ */
+export function getFallbackChain(rule: RoutingRule): string[] {
+    if (rule.fallbackModels) {
+        return rule.fallbackModels;
+    }
+    return rule.fallbackModel ? [rule.fallbackModel] : [];
 }
 
 /**
@@ -44,51 +59,70 @@ export const DEFAULT_ROUTING_CONFIG: AIRoutingConfiguration = {
         // Complex tasks -> Gemini primary, Mistral fallback
         extractMeetingIntent: {
             primaryModel: 'gemini',
-            fallbackModel: 'mistral',
+            fallbackModels: ['mistral'],
             enableFallback: true,
             timeout: 30000
         },
         generateMeetingTitles: {
             primaryModel: 'gemini',
-            fallbackModel: 'mistral',
+            fallbackModels: ['mistral'],
             enableFallback: true,
             timeout: 20000
         },
         generateMeetingAgenda: {
             primaryModel: 'gemini',
-            fallbackModel: 'mistral',
+            fallbackModels: ['mistral'],
             enableFallback: true,
             timeout: 45000
         },
         generateActionItems: {
             primaryModel: 'gemini',
-            fallbackModel: 'mistral',
+            fallbackModels: ['mistral'],
             enableFallback: true,
             timeout: 30000
         },
         enhancePurposeWording: {
             primaryModel: 'gemini',
-            fallbackModel: 'mistral',
+            fallbackModels: ['mistral'],
             enableFallback: true,
             timeout: 25000
         },
         // Simple tasks -> Mistral primary, Gemini fallback
         getGeminiResponse: {
             primaryModel: 'mistral',
-            fallbackModel: 'gemini',
+            fallbackModels: ['gemini'],
             enableFallback: true,
             timeout: 15000
         },
         verifyAttendees: {
             primaryModel: 'mistral',
-            fallbackModel: 'gemini',
+            fallbackModels: ['gemini'],
             enableFallback: true,
             timeout: 10000
         },
         // Time parsing -> Mistral for natural language processing
         extractTimeFromNaturalLanguage: {
             primaryModel: 'mistral',
-            fallbackModel: 'gemini',
+            fallbackModels: ['gemini'],
+            enableFallback: true,
+            timeout: 15000
+        },
+        // Conversation context upkeep -> Gemini primary, Mistral fallback
+        summarizeConversation: {
+            primaryModel: 'gemini',
+            fallbackModels: ['mistral'],
+            enableFallback: true,
+            timeout: 20000
+        },
+        compressContext: {
+            primaryModel: 'gemini',
+            fallbackModels: ['mistral'],
+            enableFallback: true,
+            timeout: 20000
+        },
+        analyzeMultiTurnIntent: {
+            primaryModel: 'gemini',
+            fallbackModels: ['mistral'],
             enableFallback: true,
             timeout: 15000
         },
@@ -102,7 +136,8 @@ export const DEFAULT_ROUTING_CONFIG: AIRoutingConfiguration = {
     fallback: {
         enableGlobalFallback: true,
         maxRetries: 2,
-        retryDelay: 1000 // 1 second
+        retryDelay: 1000, // 1 second
+        maxSchemaRepairs: 1
     },
     performance: {
         defaultTimeout: 30000, // 30 seconds
@@ -154,6 +189,14 @@ export function getEnvironmentConfig(): Partial<AIRoutingConfiguration> {
         };
     }
 
+    if (process.env.AI_ROUTER_MAX_SCHEMA_REPAIRS !== undefined) {
+        config.fallback = {
+            ...DEFAULT_ROUTING_CONFIG.fallback,
+            ...config.fallback,
+            maxSchemaRepairs: parseInt(process.env.AI_ROUTER_MAX_SCHEMA_REPAIRS)
+        };
+    }
+
     return config;
 }
 
@@ -164,7 +207,10 @@ export class ConfigurationValidator {
     /**
      * Validate routing rules configuration
      */
-    static validateRoutingRules(rules: RoutingRules): { valid: boolean; errors: string[] } {
+    static validateRoutingRules(
+        rules: RoutingRules,
+        providers: string[] = aiProviderRegistry.names()
+    ): { valid: boolean; errors: string[] } {
         const errors: string[] = [];
 
         for (const [functionName, rule] of Object.entries(rules)) {
@@ -175,7 +221,7 @@ export class ConfigurationValidator {
             }
 
             // Validate rule structure
-            const ruleErrors = this.validateRoutingRule(functionName, rule);
+            const ruleErrors = this.validateRoutingRule(functionName, rule, providers);
             errors.push(...ruleErrors);
         }
 
@@ -188,23 +234,38 @@ export class ConfigurationValidator {
     /**
      * Validate individual routing rule
      */
-    static validateRoutingRule(functionName: string, rule: RoutingRule): string[] {
+    static validateRoutingRule(
+        functionName: string,
+        rule: RoutingRule,
+        providers: string[] = aiProviderRegistry.names()
+    ): string[] {
         const errors: string[] = [];
+        const registered = `Must be a registered provider (${providers.join(', ')})`;
 
         // Validate primary model
-        if (!rule.primaryModel || !['gemini', 'mistral'].includes(rule.primaryModel)) {
-            errors.push(`${functionName}: Invalid primary model '${rule.primaryModel}'. Must be 'gemini' or 'mistral'`);
+        if (!rule.primaryModel || !providers.includes(rule.primaryModel)) {
+            errors.push(`${functionName}: Invalid primary model '${rule.primaryModel}'. ${registered}`);
         }
 
-        // Validate fallback model if specified
-        if (rule.fallbackModel && !['gemini', 'mistral'].includes(rule.fallbackModel)) {
-            errors.push(`${functionName}: Invalid fallback model '${rule.fallbackModel}'. Must be 'gemini' or 'mistral'`);
+        if (rule.fallbackModel && rule.fallbackModels) {
+            errors.push(`${functionName}: Specify either fallbackModel or fallbackModels, not both`);
         }
 
-        // Validate that primary and fallback are different
-        if (rule.fallbackModel && rule.primaryModel === rule.fallbackModel) {
+        // Validate fallback chain if specified
+        const fallbackChain = getFallbackChain(rule);
+        for (const fallbackModel of fallbackChain) {
+            if (!providers.includes(fallbackModel)) {
+                errors.push(`${functionName}: Invalid fallback model '${fallbackModel}'. ${registered}`);
+            }
+        }
+
+        // Validate that primary and fallbacks are all different
+        if (fallbackChain.includes(rule.primaryModel)) {
             errors.push(`${functionName}: Primary and fallback models cannot be the same`);
         }
+        if (new Set(fallbackChain).size !== fallbackChain.length) {
+            errors.push(`${functionName}: Fallback models cannot repeat`);
+        }
 
         // Validate timeout
         if (typeof rule.timeout !== 'number' || rule.timeout <= 0) {
@@ -222,7 +283,7 @@ export class ConfigurationValidator {
         }
 
         // Validate fallback consistency
-        if (rule.enableFallback && !rule.fallbackModel) {
+        if (rule.enableFallback && fallbackChain.length === 0) {
             errors.push(`${functionName}: Fallback is enabled but no fallback model specified`);
         }
 
@@ -269,6 +330,11 @@ export class ConfigurationValidator {
             errors.push('fallback.retryDelay must be a non-negative number');
         }
 
+        const { maxSchemaRepairs } = config.fallback;
+        if (maxSchemaRepairs !== undefined && (!Number.isInteger(maxSchemaRepairs) || maxSchemaRepairs < 0)) {
+            errors.push('fallback.maxSchemaRepairs must be a non-negative integer');
+        }
+
         // Validate performance configuration
         if (typeof config.performance.defaultTimeout !== 'number' || config.performance.defaultTimeout <= 0) {
             errors.push('performance.defaultTimeout must be a positive number');
@@ -290,33 +356,19 @@ export class ConfigurationValidator {
         if (!config.circuitBreaker || typeof config.circuitBreaker !== 'object') {
             errors.push('circuitBreaker must be an object');
         } else {
-            // Validate Gemini circuit breaker
-            if (!config.circuitBreaker.gemini || typeof config.circuitBreaker.gemini !== 'object') {
-                errors.push('circuitBreaker.gemini must be an object');
-            } else {
-                if (typeof config.circuitBreaker.gemini.failureThreshold !== 'number' || config.circuitBreaker.gemini.failureThreshold <= 0) {
-                    errors.push('circuitBreaker.gemini.failureThreshold must be a positive number');
-                }
-                if (typeof config.circuitBreaker.gemini.resetTimeout !== 'number' || config.circuitBreaker.gemini.resetTimeout <= 0) {
-                    errors.push('circuitBreaker.gemini.resetTimeout must be a positive number');
-                }
-                if (typeof config.circuitBreaker.gemini.maxRetries !== 'number' || config.circuitBreaker.gemini.maxRetries < 0) {
-                    errors.push('circuitBreaker.gemini.maxRetries must be a non-negative number');
+            for (const [provider, settings] of Object.entries(config.circuitBreaker)) {
+                if (!settings || typeof settings !== 'object') {
+                    errors.push(`circuitBreaker.${provider} must be an object`);
+                    continue;
                 }
-            }
-
-            // Validate Mistral circuit breaker
-            if (!config.circuitBreaker.mistral || typeof config.circuitBreaker.mistral !== 'object') {
-                errors.push('circuitBreaker.mistral must be an object');
-            } else {
-                if (typeof config.circuitBreaker.mistral.failureThreshold !== 'number' || config.circuitBreaker.mistral.failureThreshold <= 0) {
-                    errors.push('circuitBreaker.mistral.failureThreshold must be a positive number');
+                if (typeof settings.failureThreshold !== 'number' || settings.failureThreshold <= 0) {
+                    errors.push(`circuitBreaker.${provider}.failureThreshold must be a positive number`);
                 }
-                if (typeof config.circuitBreaker.mistral.resetTimeout !== 'number' || config.circuitBreaker.mistral.resetTimeout <= 0) {
-                    errors.push('circuitBreaker.mistral.resetTimeout must be a positive number');
+                if (typeof settings.resetTimeout !== 'number' || settings.resetTimeout <= 0) {
+                    errors.push(`circuitBreaker.${provider}.resetTimeout must be a positive number`);
                 }
-                if (typeof config.circuitBreaker.mistral.maxRetries !== 'number' || config.circuitBreaker.mistral.maxRetries < 0) {
-                    errors.push('circuitBreaker.mistral.maxRetries must be a non-negative number');
+                if (typeof settings.maxRetries !== 'number' || settings.maxRetries < 0) {
+                    errors.push(`circuitBreaker.${provider}.maxRetries must be a non-negative number`);
                 }
             }
         }
@@ -46,6 +46,33 @@ export interface AIServiceEnvironmentConfig {
         clientId: string;
         clientSecret: string;
     };
+
+    // Outgoing email
+    email: EmailEnvironmentConfig;
+}
+
+export type EmailTransportName = 'gmail' | 'sendgrid' | 'smtp' | 'outbox';
+
+export const EMAIL_TRANSPORT_NAMES: EmailTransportName[] = ['gmail', 'sendgrid', 'smtp', 'outbox'];
+
+/**
+ * Email delivery configuration. Transports are tried in order, each one
+ * taking over when the previous one fails to send a message.
+ */
+export interface EmailEnvironmentConfig {
+    transports: EmailTransportName[];
+    fromAddress: string; // sender for SendGrid and SMTP; Gmail sends from the user's own account
+    sendgrid: {
+        apiKey: string;
+    };
+    smtp: {
+        host: string;
+        port: number;
+        secure: boolean;
+        user?: string;
+        password?: string;
+    };
+    outboxDir: string;
 }
 
 /**
@@ -95,6 +122,11 @@ export class EnvironmentConfigValidator {
         errors.push(...oauthValidation.errors);
         warnings.push(...oauthValidation.warnings);
         
+        // Validate email configuration
+        const emailValidation = this.validateEmailConfig();
+        errors.push(...emailValidation.errors);
+        warnings.push(...emailValidation.warnings);
+        
         // Check for dual service availability
         const serviceAvailability = this.validateServiceAvailability();
         errors.push(...serviceAvailability.errors);
@@ -283,6 +315,47 @@ export class EnvironmentConfigValidator {
         return { errors, warnings };
     }
     
+    /**
+     * Validate email transport configuration
+     */
+    private static validateEmailConfig(): { errors: string[]; warnings: string[] } {
+        const errors: string[] = [];
+        const warnings: string[] = [];
+        
+        const transports = process.env.EMAIL_TRANSPORTS;
+        if (transports) {
+            const unknown = transports.split(',').map(name => name.trim()).filter(name => name && !EMAIL_TRANSPORT_NAMES.includes(name as EmailTransportName));
+            if (unknown.length > 0) {
+                errors.push(`EMAIL_TRANSPORTS contains unknown transports: ${unknown.join(', ')}. Use ${EMAIL_TRANSPORT_NAMES.join(', ')}`);
+            }
+        }
+        
+        const config = this.buildEmailConfig();
+        if (config.transports.includes('sendgrid') && !config.sendgrid.apiKey) {
+            errors.push('SENDGRID_API_KEY is required when the sendgrid email transport is enabled');
+        }
+        if (config.transports.includes('smtp') && !config.smtp.host) {
+            errors.push('SMTP_HOST is required when the smtp email transport is enabled');
+        }
+        if ((config.transports.includes('sendgrid') || config.transports.includes('smtp')) && !process.env.EMAIL_FROM) {
+            errors.push('EMAIL_FROM is required when sending through SendGrid or SMTP');
+        }
+        
+        const smtpPort = process.env.SMTP_PORT;
+        if (smtpPort) {
+            const portValue = parseInt(smtpPort);
+            if (isNaN(portValue) || portValue < 1 || portValue > 65535) {
+                errors.push('SMTP_PORT must be a valid port number between 1 and 65535');
+            }
+        }
+        
+        if (process.env.NODE_ENV === 'production' && config.transports.includes('outbox')) {
+            warnings.push('The outbox email transport writes emails to disk instead of sending them');
+        }
+        
+        return { errors, warnings };
+    }
+    
     /**
      * Validate that at least one AI service is available
      */
@@ -339,7 +412,47 @@ export class EnvironmentConfigValidator {
             oauth: {
                 clientId: process.env.GOOGLE_CLIENT_ID || '',
                 clientSecret: process.env.GOOGLE_CLIENT_SECRET || ''
-            }
+            },
+            email: this.buildEmailConfig()
+        };
+    }
+    
+    /**
+     * Build email configuration. EMAIL_TRANSPORTS (e.g. "sendgrid,smtp") picks the transports
+     * and their order; otherwise Gmail is used, followed by SendGrid and SMTP when they are
+     * configured, and in development the outbox catches anything the others could not send.
+     */
+    static buildEmailConfig(): EmailEnvironmentConfig {
+        const smtpPort = parseInt(process.env.SMTP_PORT || '587');
+        const configured = process.env.EMAIL_TRANSPORTS
+            ?.split(',')
+            .map(name => name.trim())
+            .filter((name): name is EmailTransportName => EMAIL_TRANSPORT_NAMES.includes(name as EmailTransportName));
+        
+        let transports: EmailTransportName[];
+        if (configured && configured.length > 0) {
+            transports = configured;
+        } else {
+            transports = ['gmail'];
+            if (process.env.SENDGRID_API_KEY) transports.push('sendgrid');
+            if (process.env.SMTP_HOST) transports.push('smtp');
+            if (process.env.NODE_ENV === 'development') transports.push('outbox');
+        }
+        
+        return {
+            transports,
+            fromAddress: process.env.EMAIL_FROM || '',
+            sendgrid: {
+                apiKey: process.env.SENDGRID_API_KEY || ''
+            },
+            smtp: {
+                host: process.env.SMTP_HOST || '',
+                port: smtpPort,
+                secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE.toLowerCase() === 'true' : smtpPort === 465,
+                user: process.env.SMTP_USER,
+                password: process.env.SMTP_PASSWORD
+            },
+            outboxDir: process.env.EMAIL_OUTBOX_DIR || 'outbox'
         };
     }
     
@@ -433,6 +546,7 @@ export class EnvironmentConfigValidator {
             `Port: ${config.general.port}`,
             `Database: ${config.general.databaseUrl ? 'Configured' : 'Not configured'}`,
             `OAuth: ${config.oauth.clientId ? 'Configured' : 'Not configured'}`,
+            `Email: ${config.email.transports.join(' -> ')}`,
             ''
         ];
         
@@ -495,4 +609,11 @@ export function isServiceAvailable(service: 'gemini' | 'mistral'): boolean {
 export function getServiceConfig(service: 'gemini' | 'mistral') {
     const config = ensureEnvironmentConfigured();
     return service === 'gemini' ? config.gemini : config.mistral;
+}
+
+/**
+ * Email configuration, available even when AI services are not configured
+ */
+export function getEmailConfig(): EmailEnvironmentConfig {
+    return validatedConfig?.email ?? EnvironmentConfigValidator.buildEmailConfig();
 }
\ No newline at end of file
@@ -616,6 +616,7 @@ export class ConversationStorage {
         location: meetingData.location,
         attendees: meetingData.attendees ? JSON.stringify(meetingData.attendees) : null,
         agenda: meetingData.agenda,
+        agendaDocument: meetingData.agendaDocument,
         status: 'draft'
       })
       .returning();
@@ -0,0 +1,105 @@
+import type { Request, Response } from 'express';
+import type { ChatWorkflowResponse } from './workflowChatIntegration.js';
+import type { TextChunkHandler } from './aiProviderRegistry.js';
+
+export interface ConversationalStreamDependencies {
+    processMessage: (
+        userId: string,
+        message: string,
+        conversationId: string | undefined,
+        user: any,
+        onToken: TextChunkHandler
+    ) => Promise<ChatWorkflowResponse>;
+    buildResponse: (user: any, conversationId: string | undefined, response: ChatWorkflowResponse) => Promise<{ message?: string }>;
+}
+
+/**
+ * Splits text into word-sized chunks, keeping the whitespace that follows each word
+ */
+export function toTextChunks(text: string): string[] {
+    return text.match(/\s*\S+\s*/g) ?? (text ? [text] : []);
+}
+
+/**
+ * Writes one Server-Sent Event
+ */
+export function writeSSEEvent(res: Response, event: string, data: unknown): void {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Handler for POST /api/chat/conversational/stream.
+ * "token" events carry assistant text as it is generated; the terminal "done" event
+ * carries the same response as /api/chat/conversational, whose message is authoritative.
+ * Workflow steps whose text is not generated by the AI are streamed word by word, so
+ * every reply reaches the client through token events. Once the client disconnects,
+ * nothing more is written.
+ */
+export function createConversationalStreamHandler(dependencies: ConversationalStreamDependencies) {
+    return async (req: Request, res: Response) => {
+        if (!req.isAuthenticated()) {
+            return res.status(401).json({ error: 'Not authenticated' });
+        }
+
+        const { message, conversationId } = req.body;
+        const user = req.user as any;
+
+        if (!message || typeof message !== 'string') {
+            return res.status(400).json({ error: 'Message is required' });
+        }
+
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+        });
+        res.flushHeaders();
+
+        let disconnected = false;
+        res.on('close', () => {
+            if (!res.writableFinished) {
+                disconnected = true;
+            }
+        });
+
+        const sendEvent = (event: string, data: unknown) => {
+            if (!disconnected) {
+                writeSSEEvent(res, event, data);
+            }
+        };
+
+        let streamed = false;
+        try {
+            const response = await dependencies.processMessage(
+                user.id,
+                message,
+                conversationId,
+                user,
+                (text) => {
+                    streamed = true;
+                    sendEvent('token', { text });
+                }
+            );
+
+            const enhancedResponse = await dependencies.buildResponse(user, conversationId, response);
+
+            if (!streamed && enhancedResponse.message) {
+                for (const text of toTextChunks(enhancedResponse.message)) {
+                    sendEvent('token', { text });
+                }
+            }
+            sendEvent('done', enhancedResponse);
+        } catch (error: any) {
+            console.error('Error streaming conversational chat:', error);
+            sendEvent('error', {
+                error: error.message || 'Failed to process conversational chat',
+                conversationId: conversationId || null,
+                fallbackMessage: 'I encountered an error processing your message. Please try again or start a new conversation.'
+            });
+        }
+
+        if (!disconnected) {
+            res.end();
+        }
+    };
+}
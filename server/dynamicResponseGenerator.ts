@@ -1,5 +1,6 @@
-import { generateResponse, MistralMessage } from './mistralService.js';
+import type { MistralMessage } from './mistralService.js';
 import { ConversationContextEngine } from './conversationContext.js';
+import type { TextChunkHandler } from './aiProviderRegistry.js';
 
 export interface ResponseContext {
     currentStep: string;
@@ -42,9 +43,13 @@ Existing attendees: {attendeeCount}
 Be specific about requirements for {meetingType} meetings.`
 };
 
+/**
+ * With onToken, the response is streamed through the AI router as it is generated
+ */
 export async function generateDynamicResponse(
     responseType: keyof typeof RESPONSE_PROMPTS,
-    context: ResponseContext
+    context: ResponseContext,
+    onToken?: TextChunkHandler
 ): Promise<string> {
     try {
         const prompt = RESPONSE_PROMPTS[responseType];
@@ -94,8 +99,12 @@ export async function generateDynamicResponse(
             }
         ];
 
-        const response = await generateResponse(messages);
-        return response;
+        const { aiRouter } = await import('./aiRouterService.js');
+        if (onToken) {
+            return await aiRouter.streamRequest('getGeminiResponse', [messages], onToken);
+        }
+
+        return await aiRouter.routeRequest<string>('getGeminiResponse', [messages]);
     } catch (error) {
         console.error('Error generating dynamic response:', error);
 
@@ -1,4 +1,4 @@
-import { EmailSendingStatus } from './emailWorkflowOrchestrator.js';
+import { EmailSendingStatus, EmailJobType } from './emailWorkflowOrchestrator.js';
 import { emailTemplateService } from './emailTemplateService.js';
 import { MeetingData } from '../shared/schema.js';
 
@@ -9,7 +9,7 @@ export interface EmailNotification {
   id: string;
   userId: string;
   jobId: string;
-  type: 'started' | 'progress' | 'completed' | 'failed' | 'partially_failed';
+  type: 'started' | 'progress' | 'completed' | 'failed' | 'partially_failed' | 'reminder' | 'sync_conflict';
   title: string;
   message: string;
   timestamp: Date;
@@ -50,6 +50,47 @@ export class EmailNotificationService {
       }
     };
 
+    return this.addNotification(userId, notification);
+  }
+
+  /**
+   * Create notification for a delivered scheduled job (reminder, digest or nudge)
+   */
+  notifyScheduledJob(userId: string, jobId: string, title: string, message: string, data?: any): EmailNotification {
+    return this.addNotification(userId, {
+      id: `notification_${++this.notificationId}`,
+      userId,
+      jobId,
+      type: 'reminder',
+      title,
+      message,
+      timestamp: new Date(),
+      read: false,
+      data
+    });
+  }
+
+  /**
+   * Tell an organizer that a meeting was changed both here and in Google Calendar
+   */
+  notifyCalendarSyncConflict(userId: string, conflictId: string, meetingTitle: string, fields: string[], data?: any): EmailNotification {
+    return this.addNotification(userId, {
+      id: `notification_${++this.notificationId}`,
+      userId,
+      jobId: conflictId,
+      type: 'sync_conflict',
+      title: 'Calendar changes need review',
+      message: `"${meetingTitle}" was changed in Google Calendar and here (${fields.join(', ')}). Choose which version to keep.`,
+      timestamp: new Date(),
+      read: false,
+      data
+    });
+  }
+
+  /**
+   * Store a notification at the top of the user's list
+   */
+  private addNotification(userId: string, notification: EmailNotification): EmailNotification {
     // Add to user's notifications
     const userNotifications = this.notifications.get(userId) || [];
     userNotifications.unshift(notification); // Add to beginning
@@ -141,19 +182,21 @@ export class EmailNotificationService {
    * Get notification title based on type and status
    */
   private getNotificationTitle(type: EmailNotification['type'], status: EmailSendingStatus): string {
+    const label = status.emailType === 'minutes' ? 'Meeting Minutes' : 'Agenda';
+
     switch (type) {
       case 'started':
-        return 'Agenda Email Sending Started';
+        return `${label} Email Sending Started`;
       case 'progress':
-        return 'Agenda Email Sending in Progress';
+        return `${label} Email Sending in Progress`;
       case 'completed':
-        return 'Agenda Emails Sent Successfully';
+        return `${label} Emails Sent Successfully`;
       case 'failed':
-        return 'Agenda Email Sending Failed';
+        return `${label} Email Sending Failed`;
       case 'partially_failed':
-        return 'Agenda Emails Partially Sent';
+        return `${label} Emails Partially Sent`;
       default:
-        return 'Agenda Email Update';
+        return `${label} Email Update`;
     }
   }
 
@@ -162,34 +205,41 @@ export class EmailNotificationService {
    */
   private getNotificationMessage(type: EmailNotification['type'], status: EmailSendingStatus): string {
     const { totalAttendees, emailsSent, emailsFailed, progress } = status;
+    const label = status.emailType === 'minutes' ? 'minutes' : 'agenda';
     
     switch (type) {
       case 'started':
-        return `Started sending agenda emails to ${totalAttendees} attendee${totalAttendees !== 1 ? 's' : ''}`;
+        return `Started sending ${label} emails to ${totalAttendees} attendee${totalAttendees !== 1 ? 's' : ''}`;
       
       case 'progress':
-        return `Sending agenda emails... ${progress}% complete (${emailsSent}/${totalAttendees} sent)`;
+        return `Sending ${label} emails... ${progress}% complete (${emailsSent}/${totalAttendees} sent)`;
       
       case 'completed':
-        return `Successfully sent agenda emails to all ${totalAttendees} attendee${totalAttendees !== 1 ? 's' : ''}`;
+        return `Successfully sent ${label} emails to all ${totalAttendees} attendee${totalAttendees !== 1 ? 's' : ''}`;
       
       case 'failed':
-        return `Failed to send agenda emails. ${emailsFailed} of ${totalAttendees} emails failed to send`;
+        return `Failed to send ${label} emails. ${emailsFailed} of ${totalAttendees} emails failed to send`;
       
       case 'partially_failed':
-        return `Sent ${emailsSent} of ${totalAttendees} agenda emails successfully. ${emailsFailed} failed to send`;
+        return `Sent ${emailsSent} of ${totalAttendees} ${label} emails successfully. ${emailsFailed} failed to send`;
       
       default:
-        return 'Agenda email status updated';
+        return `${label.charAt(0).toUpperCase()}${label.slice(1)} email status updated`;
     }
   }
 
   /**
    * Create notification for specific email events
    */
-  notifyEmailJobStarted(userId: string, jobId: string, totalAttendees: number): EmailNotification {
+  notifyEmailJobStarted(
+    userId: string,
+    jobId: string,
+    totalAttendees: number,
+    emailType: EmailJobType = 'agenda'
+  ): EmailNotification {
     const status: EmailSendingStatus = {
       jobId,
+      emailType,
       status: 'in_progress',
       totalAttendees,
       emailsSent: 0,
@@ -1,4 +1,4 @@
-import { MeetingData } from '../shared/schema.js';
+import { MeetingData, MeetingMinutes, MinutesActionItem } from '../shared/schema.js';
 
 export interface EmailTemplateConfig {
   brandColor?: string;
@@ -6,6 +6,45 @@ export interface EmailTemplateConfig {
   supportEmail?: string;
 }
 
+/**
+ * Person receiving a minutes email
+ */
+export interface MinutesRecipient {
+  email: string;
+  name?: string;
+}
+
+/**
+ * Task shown in digest and reminder emails
+ */
+export interface ReminderTask {
+  title: string;
+  deadline: Date | null;
+  priority: string;
+  status: string;
+  eventTitle: string | null;
+}
+
+/**
+ * Checks whether an action item belongs to the recipient, by email first and then by name
+ */
+export function isActionItemAssignedTo(item: MinutesActionItem, recipient: MinutesRecipient): boolean {
+  if (item.assigneeEmail) {
+    return item.assigneeEmail.toLowerCase() === recipient.email.toLowerCase();
+  }
+  if (!item.assignee) {
+    return false;
+  }
+
+  const assignee = item.assignee.trim().toLowerCase();
+  const candidates = [
+    recipient.name?.toLowerCase(),
+    recipient.name?.split(' ')[0].toLowerCase(),
+    recipient.email.split('@')[0].toLowerCase()
+  ];
+  return candidates.some(candidate => candidate && candidate === assignee);
+}
+
 export class EmailTemplateService {
   private config: EmailTemplateConfig;
 
@@ -306,6 +345,540 @@ export class EmailTemplateService {
     return text;
   }
 
+  /**
+   * Generate HTML email template for post-meeting minutes.
+   * Action items assigned to the recipient are listed first and highlighted.
+   */
+  generateMinutesEmailTemplate(
+    minutes: MeetingMinutes,
+    meetingData: Partial<MeetingData>,
+    recipient: MinutesRecipient
+  ): string {
+    const formattedDate = this.formatMeetingDate(meetingData);
+    const mine = minutes.actionItems.filter(item => isActionItemAssignedTo(item, recipient));
+    const others = minutes.actionItems.filter(item => !isActionItemAssignedTo(item, recipient));
+    const greetingName = recipient.name?.split(' ')[0] || 'there';
+
+    const listHtml = (items: string[]) => items.length > 0
+      ? `<ul>${items.map(item => `<li>${this.escapeHtml(item)}</li>`).join('')}</ul>`
+      : '<p class="empty">None recorded</p>';
+
+    const actionItemHtml = (item: MinutesActionItem, highlighted: boolean) => `
+              <li class="action-item${highlighted ? ' action-item-mine' : ''}">
+                <strong>${this.escapeHtml(item.title)}</strong>
+                ${item.description ? `<div>${this.escapeHtml(item.description)}</div>` : ''}
+                <div class="action-meta">
+                  ${item.assignee ? `Owner: ${this.escapeHtml(item.assignee)} · ` : ''}${item.dueDate ? `Due: ${this.formatShortDate(item.dueDate)} · ` : ''}Priority: ${item.priority}
+                </div>
+              </li>`;
+
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Meeting Minutes: ${this.escapeHtml(minutes.title)}</title>
+        <style>
+          body {
+            font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            background-color: #f9f9f9;
+            margin: 0;
+            padding: 0;
+          }
+          .container {
+            max-width: 600px;
+            margin: 0 auto;
+            background-color: #ffffff;
+            border-radius: 8px;
+            overflow: hidden;
+            box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+          }
+          .header {
+            background: linear-gradient(135deg, ${this.config.brandColor} 0%, ${this.adjustColor(this.config.brandColor!, 20)} 100%);
+            color: white;
+            padding: 30px 20px;
+            text-align: center;
+          }
+          .header h1 {
+            margin: 0;
+            font-size: 24px;
+            font-weight: 600;
+          }
+          .header p {
+            margin: 5px 0 0;
+            opacity: 0.9;
+            font-size: 14px;
+          }
+          .content {
+            padding: 30px;
+          }
+          .note {
+            background-color: #f5f7ff;
+            border-left: 4px solid ${this.config.brandColor};
+            border-radius: 6px;
+            padding: 15px;
+            margin-bottom: 20px;
+            white-space: pre-line;
+          }
+          .section {
+            margin-top: 20px;
+          }
+          .section h2 {
+            margin: 0 0 10px;
+            color: ${this.config.brandColor};
+            font-size: 18px;
+            border-bottom: 2px solid ${this.config.brandColor};
+            padding-bottom: 8px;
+          }
+          .action-items {
+            list-style: none;
+            padding-left: 0;
+          }
+          .action-item {
+            border: 1px solid #e5e7eb;
+            border-radius: 6px;
+            padding: 10px 12px;
+            margin-bottom: 8px;
+          }
+          .action-item-mine {
+            background-color: #fffbeb;
+            border: 2px solid #f59e0b;
+          }
+          .action-meta {
+            font-size: 12px;
+            color: #6b7280;
+            margin-top: 4px;
+          }
+          .empty {
+            color: #6b7280;
+            font-style: italic;
+          }
+          .footer {
+            background-color: #f9fafb;
+            padding: 20px;
+            text-align: center;
+            font-size: 12px;
+            color: #6b7280;
+            border-top: 1px solid #e5e7eb;
+          }
+          .footer a {
+            color: ${this.config.brandColor};
+            text-decoration: none;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${this.escapeHtml(minutes.title)}</h1>
+            <p>Meeting Minutes · ${formattedDate}</p>
+          </div>
+
+          <div class="content">
+            <p>Hello ${this.escapeHtml(greetingName)},</p>
+            ${minutes.organizerNote ? `<div class="note">${this.escapeHtml(minutes.organizerNote)}</div>` : ''}
+
+            <div class="section">
+              <h2>📝 Summary</h2>
+              <p>${this.escapeHtml(minutes.summary)}</p>
+            </div>
+
+            ${minutes.keyPoints.length > 0 ? `
+            <div class="section">
+              <h2>💡 Key Points</h2>
+              ${listHtml(minutes.keyPoints)}
+            </div>
+            ` : ''}
+
+            <div class="section">
+              <h2>✅ Decisions</h2>
+              ${listHtml(minutes.decisions)}
+            </div>
+
+            ${mine.length > 0 ? `
+            <div class="section">
+              <h2>📌 Your Action Items</h2>
+              <ul class="action-items">${mine.map(item => actionItemHtml(item, true)).join('')}
+              </ul>
+            </div>
+            ` : ''}
+
+            <div class="section">
+              <h2>📋 ${mine.length > 0 ? 'Other Action Items' : 'Action Items'}</h2>
+              ${others.length > 0
+                ? `<ul class="action-items">${others.map(item => actionItemHtml(item, false)).join('')}
+              </ul>`
+                : '<p class="empty">None recorded</p>'}
+            </div>
+          </div>
+
+          <div class="footer">
+            <p style="margin: 0 0 10px;">This email was sent by ${this.config.companyName}</p>
+            <p style="margin: 0;">For support, contact <a href="mailto:${this.config.supportEmail}">${this.config.supportEmail}</a></p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Generate plain text version of minutes email
+   */
+  generateMinutesEmailPlainText(
+    minutes: MeetingMinutes,
+    meetingData: Partial<MeetingData>,
+    recipient: MinutesRecipient
+  ): string {
+    const formattedDate = this.formatMeetingDate(meetingData);
+    const mine = minutes.actionItems.filter(item => isActionItemAssignedTo(item, recipient));
+    const others = minutes.actionItems.filter(item => !isActionItemAssignedTo(item, recipient));
+
+    const formatItem = (item: MinutesActionItem) => {
+      const details = [
+        item.assignee ? `Owner: ${item.assignee}` : null,
+        item.dueDate ? `Due: ${this.formatShortDate(item.dueDate)}` : null,
+        `Priority: ${item.priority}`
+      ].filter(Boolean).join(', ');
+      return `- ${item.title} (${details})`;
+    };
+    const section = (title: string, lines: string[]) =>
+      `\n${title}:\n${'-'.repeat(50)}\n${lines.length > 0 ? lines.join('\n') : 'None recorded'}\n`;
+
+    let text = `Meeting Minutes: ${minutes.title}\n`;
+    text += `${formattedDate}\n`;
+    text += `${'='.repeat(50)}\n`;
+
+    if (minutes.organizerNote) {
+      text += `\n${minutes.organizerNote}\n`;
+    }
+
+    text += section('Summary', [minutes.summary]);
+    if (minutes.keyPoints.length > 0) {
+      text += section('Key Points', minutes.keyPoints.map(point => `- ${point}`));
+    }
+    text += section('Decisions', minutes.decisions.map(decision => `- ${decision}`));
+    if (mine.length > 0) {
+      text += section('>> Your Action Items', mine.map(formatItem));
+    }
+    text += section(mine.length > 0 ? 'Other Action Items' : 'Action Items', others.map(formatItem));
+
+    text += `\n${'='.repeat(50)}\n`;
+    text += `Generated by ${this.config.companyName}`;
+
+    return text;
+  }
+
+  /**
+   * Generate HTML email for the daily digest of a user's open tasks, overdue ones first
+   */
+  generateTaskDigestTemplate(
+    recipientName: string,
+    overdue: ReminderTask[],
+    open: ReminderTask[],
+    boardUrl: string
+  ): string {
+    const taskRows = (items: ReminderTask[], isOverdue: boolean) => items.map(task => `
+              <li class="${isOverdue ? 'overdue' : ''}">
+                <strong>${this.escapeHtml(task.title)}</strong>
+                <div class="meta">
+                  ${task.deadline ? `${isOverdue ? 'Was due' : 'Due'} ${this.formatShortDate(task.deadline)} · ` : ''}${task.priority} priority${task.eventTitle ? ` · ${this.escapeHtml(task.eventTitle)}` : ''}
+                </div>
+              </li>`).join('');
+
+    return this.renderNotificationEmail(
+      'Your Daily Task Digest',
+      `${open.length + overdue.length} open task${open.length + overdue.length !== 1 ? 's' : ''}${overdue.length > 0 ? `, ${overdue.length} overdue` : ''}`,
+      `
+            <p>Good morning ${this.escapeHtml(recipientName.split(' ')[0])},</p>
+            ${overdue.length > 0 ? `
+            <h2>⚠️ Overdue</h2>
+            <ul class="tasks">${taskRows(overdue, true)}
+            </ul>
+            ` : ''}
+            ${open.length > 0 ? `
+            <h2>📋 Open Tasks</h2>
+            <ul class="tasks">${taskRows(open, false)}
+            </ul>
+            ` : ''}
+            <p style="text-align: center; margin-top: 25px;"><a class="button" href="${boardUrl}">Open Task Board</a></p>
+      `
+    );
+  }
+
+  /**
+   * Generate plain text version of the daily task digest
+   */
+  generateTaskDigestPlainText(overdue: ReminderTask[], open: ReminderTask[], boardUrl: string): string {
+    const formatTask = (task: ReminderTask) =>
+      `- ${task.title}${task.deadline ? ` (due ${this.formatShortDate(task.deadline)})` : ''}`;
+
+    let text = `Your Daily Task Digest\n${'='.repeat(50)}\n`;
+    if (overdue.length > 0) {
+      text += `\nOVERDUE:\n${overdue.map(formatTask).join('\n')}\n`;
+    }
+    if (open.length > 0) {
+      text += `\nOpen tasks:\n${open.map(formatTask).join('\n')}\n`;
+    }
+    text += `\nTask board: ${boardUrl}\n`;
+    text += `\nGenerated by ${this.config.companyName}`;
+
+    return text;
+  }
+
+  /**
+   * Generate HTML email nudging an assignee about a task whose due date has passed
+   */
+  generateOverdueTaskNudgeTemplate(task: ReminderTask, organizerName: string, taskUrl: string): string {
+    return this.renderNotificationEmail(
+      'Task Overdue',
+      this.escapeHtml(task.title),
+      `
+            <p>Hello,</p>
+            <p>The following task${task.eventTitle ? ` from <strong>${this.escapeHtml(task.eventTitle)}</strong>` : ''} was due on
+              <strong>${task.deadline ? this.formatShortDate(task.deadline) : 'an earlier date'}</strong> and is not marked complete yet:</p>
+            <ul class="tasks">
+              <li class="overdue"><strong>${this.escapeHtml(task.title)}</strong>
+                <div class="meta">${task.priority} priority · ${task.status.replace('_', ' ')}</div>
+              </li>
+            </ul>
+            <p>If it is already done, please mark it complete. Otherwise, let ${this.escapeHtml(organizerName)} know when to expect it.</p>
+            <p style="text-align: center; margin-top: 25px;"><a class="button" href="${taskUrl}">View Task</a></p>
+      `
+    );
+  }
+
+  /**
+   * Generate plain text version of the overdue task nudge
+   */
+  generateOverdueTaskNudgePlainText(task: ReminderTask, organizerName: string, taskUrl: string): string {
+    return [
+      `Task overdue: ${task.title}`,
+      '='.repeat(50),
+      '',
+      `This task${task.eventTitle ? ` from "${task.eventTitle}"` : ''} was due on ${task.deadline ? this.formatShortDate(task.deadline) : 'an earlier date'} and is not marked complete yet.`,
+      `If it is already done, please mark it complete. Otherwise, let ${organizerName} know when to expect it.`,
+      '',
+      `View task: ${taskUrl}`,
+      '',
+      `Generated by ${this.config.companyName}`
+    ].join('\n');
+  }
+
+  /**
+   * Generate HTML email giving an attendee the link to their tasks from a meeting
+   */
+  generateTaskLinkEmailTemplate(meetingTitle: string, recipientName: string, taskUrl: string): string {
+    return this.renderNotificationEmail(
+      'Your Meeting Tasks',
+      this.escapeHtml(meetingTitle),
+      `
+            <p>Hello ${this.escapeHtml(recipientName)},</p>
+            <p>Your meeting <strong>${this.escapeHtml(meetingTitle)}</strong> has concluded and tasks have been generated.</p>
+            <p>Use the link below to:</p>
+            <ul>
+              <li>View all tasks from the meeting</li>
+              <li>Mark your tasks as complete</li>
+              <li>See progress on team tasks</li>
+            </ul>
+            <p style="text-align: center; margin-top: 25px;"><a class="button" href="${taskUrl}">View Your Tasks</a></p>
+      `
+    );
+  }
+
+  /**
+   * Generate plain text version of the task link email
+   */
+  generateTaskLinkEmailPlainText(meetingTitle: string, recipientName: string, taskUrl: string): string {
+    return [
+      `Hello ${recipientName},`,
+      '',
+      `Your meeting "${meetingTitle}" has concluded and tasks have been generated.`,
+      '',
+      'Click the link below to view and complete your assigned tasks:',
+      taskUrl,
+      '',
+      'This link will allow you to:',
+      '• View all tasks from the meeting',
+      '• Mark your tasks as complete',
+      '• See progress on team tasks',
+      '',
+      `Generated by ${this.config.companyName}`
+    ].join('\n');
+  }
+
+  /**
+   * Generate HTML email telling an attendee a meeting was cancelled
+   */
+  generateMeetingCancellationTemplate(meetingTitle: string, when: string, organizerName: string): string {
+    return this.renderNotificationEmail(
+      'Meeting Cancelled',
+      this.escapeHtml(meetingTitle),
+      `
+            <p>Hello,</p>
+            <p><strong>${this.escapeHtml(meetingTitle)}</strong>, scheduled for ${this.escapeHtml(when)}, has been cancelled by ${this.escapeHtml(organizerName)}.</p>
+            <p>The attached cancellation removes it from your calendar.</p>
+      `
+    );
+  }
+
+  /**
+   * Generate plain text version of the meeting cancellation email
+   */
+  generateMeetingCancellationPlainText(meetingTitle: string, when: string, organizerName: string): string {
+    return [
+      `Meeting cancelled: ${meetingTitle}`,
+      '='.repeat(50),
+      '',
+      `"${meetingTitle}", scheduled for ${when}, has been cancelled by ${organizerName}.`,
+      'The attached cancellation removes it from your calendar.',
+      '',
+      `Generated by ${this.config.companyName}`
+    ].join('\n');
+  }
+
+  /**
+   * Shared layout for short notification emails (digests, nudges, task links, cancellations)
+   */
+  private renderNotificationEmail(heading: string, subheading: string, bodyHtml: string): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${heading}</title>
+        <style>
+          body {
+            font-family: 'Segoe UI', Tahoma, Geneva, Verdana, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            background-color: #f9f9f9;
+            margin: 0;
+            padding: 0;
+          }
+          .container {
+            max-width: 600px;
+            margin: 0 auto;
+            background-color: #ffffff;
+            border-radius: 8px;
+            overflow: hidden;
+            box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);
+          }
+          .header {
+            background: linear-gradient(135deg, ${this.config.brandColor} 0%, ${this.adjustColor(this.config.brandColor!, 20)} 100%);
+            color: white;
+            padding: 24px 20px;
+            text-align: center;
+          }
+          .header h1 {
+            margin: 0;
+            font-size: 22px;
+            font-weight: 600;
+          }
+          .header p {
+            margin: 5px 0 0;
+            opacity: 0.9;
+            font-size: 14px;
+          }
+          .content {
+            padding: 30px;
+          }
+          .content h2 {
+            color: ${this.config.brandColor};
+            font-size: 16px;
+            margin: 20px 0 10px;
+          }
+          .tasks {
+            list-style: none;
+            padding-left: 0;
+          }
+          .tasks li {
+            border: 1px solid #e5e7eb;
+            border-radius: 6px;
+            padding: 10px 12px;
+            margin-bottom: 8px;
+          }
+          .tasks li.overdue {
+            background-color: #fef2f2;
+            border-color: #fca5a5;
+          }
+          .meta {
+            font-size: 12px;
+            color: #6b7280;
+          }
+          .button {
+            display: inline-block;
+            background-color: ${this.config.brandColor};
+            color: white;
+            text-decoration: none;
+            padding: 12px 24px;
+            border-radius: 4px;
+            font-weight: 500;
+          }
+          .footer {
+            background-color: #f9fafb;
+            padding: 20px;
+            text-align: center;
+            font-size: 12px;
+            color: #6b7280;
+            border-top: 1px solid #e5e7eb;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <h1>${heading}</h1>
+            <p>${subheading}</p>
+          </div>
+          <div class="content">
+            ${bodyHtml}
+          </div>
+          <div class="footer">
+            <p style="margin: 0;">This email was sent by ${this.config.companyName}</p>
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  /**
+   * Format a meeting's date for display
+   */
+  private formatMeetingDate(meetingData: Partial<MeetingData>): string {
+    const startTime = meetingData.startTime ? new Date(meetingData.startTime) : new Date();
+
+    return startTime.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+  }
+
+  /**
+   * Format a due date as e.g. "Jan 10, 2030"
+   */
+  private formatShortDate(date: Date | string): string {
+    return new Date(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+  }
+
+  /**
+   * Escape organizer-editable text before placing it in HTML
+   */
+  private escapeHtml(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+
   /**
    * Format agenda markdown to HTML
    */
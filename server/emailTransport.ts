@@ -0,0 +1,291 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import { google } from 'googleapis';
+import sgMail from '@sendgrid/mail';
+import nodemailer from 'nodemailer';
+import type { User } from '../shared/schema.js';
+import { getEmailConfig, type EmailEnvironmentConfig, type EmailTransportName } from './config/environmentConfig.js';
+
+/**
+ * A fully rendered email, ready to hand to a transport
+ */
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text?: string; // derived from the HTML when omitted
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailAttachment {
+  filename: string;
+  content: string;
+  contentType: string; // e.g. 'text/calendar; charset=utf-8; method=REQUEST'
+}
+
+/**
+ * The account an email is sent on behalf of. Gmail sends from the user's own mailbox;
+ * other transports send from the configured address with the user as reply-to.
+ */
+export interface EmailSenderIdentity {
+  user: User;
+}
+
+export interface EmailTransportResult {
+  messageId?: string;
+  transport: EmailTransportName;
+}
+
+/**
+ * Delivers a single email. Implementations throw when the message was not accepted.
+ */
+export interface EmailTransport {
+  readonly name: EmailTransportName;
+  send(message: EmailMessage, sender: EmailSenderIdentity): Promise<EmailTransportResult>;
+}
+
+/**
+ * Strip HTML tags for the plain text part
+ */
+export function htmlToPlainText(html: string): string {
+  return html.replace(/<[^>]*>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n\s*\n/g, '\n\n'); // Remove extra blank lines
+}
+
+/**
+ * Build a MIME message with plain text and HTML alternatives, wrapped in
+ * multipart/mixed when it has attachments
+ */
+export function buildMimeMessage(from: string, message: EmailMessage, extraHeaders: string[] = []): string {
+  const boundary = `boundary_${Date.now().toString(16)}`;
+  const attachments = message.attachments ?? [];
+
+  const alternative = [
+    `Content-Type: multipart/alternative; boundary=${boundary}`,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text ?? htmlToPlainText(message.html),
+    '',
+    `--${boundary}`,
+    'Content-Type: text/html; charset=utf-8',
+    '',
+    message.html,
+    '',
+    `--${boundary}--`
+  ];
+
+  const headers = [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    ...extraHeaders,
+    'MIME-Version: 1.0'
+  ];
+
+  if (attachments.length === 0) {
+    return [...headers, ...alternative].join('\r\n');
+  }
+
+  const mixedBoundary = `mixed_${boundary}`;
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary=${mixedBoundary}`,
+    '',
+    `--${mixedBoundary}`,
+    ...alternative,
+    ...attachments.flatMap(attachment => [
+      '',
+      `--${mixedBoundary}`,
+      `Content-Type: ${attachment.contentType}; name="${attachment.filename}"`,
+      `Content-Disposition: attachment; filename="${attachment.filename}"`,
+      'Content-Transfer-Encoding: base64',
+      '',
+      ...(Buffer.from(attachment.content).toString('base64').match(/.{1,76}/g) ?? [])
+    ]),
+    '',
+    `--${mixedBoundary}--`
+  ].join('\r\n');
+}
+
+function formatAddress(email: string, name?: string | null): string {
+  return name ? `"${name.replace(/["\\]/g, '')}" <${email}>` : email;
+}
+
+/**
+ * Sends through the Gmail API from the user's own account, using their OAuth access token
+ */
+export function createGmailTransport(): EmailTransport {
+  return {
+    name: 'gmail',
+
+    async send(message, { user }) {
+      if (!user.accessToken) {
+        throw new Error('User access token is missing');
+      }
+
+      const oauth2Client = new google.auth.OAuth2();
+      oauth2Client.setCredentials({ access_token: user.accessToken });
+      const gmail = google.gmail({ version: 'v1', auth: oauth2Client });
+
+      const raw = Buffer.from(buildMimeMessage(user.email ?? '', message))
+        .toString('base64')
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=+$/, '');
+
+      const response = await gmail.users.messages.send({
+        userId: 'me',
+        requestBody: { raw }
+      });
+
+      return { messageId: response.data.id || undefined, transport: 'gmail' };
+    }
+  };
+}
+
+/**
+ * Sends through SendGrid from the configured address
+ */
+export function createSendGridTransport(apiKey: string, fromAddress: string): EmailTransport {
+  sgMail.setApiKey(apiKey);
+
+  return {
+    name: 'sendgrid',
+
+    async send(message, { user }) {
+      const [response] = await sgMail.send({
+        to: message.to,
+        from: { email: fromAddress, name: user.name || undefined },
+        replyTo: user.email || undefined,
+        subject: message.subject,
+        html: message.html,
+        text: message.text ?? htmlToPlainText(message.html),
+        attachments: message.attachments?.map(attachment => ({
+          filename: attachment.filename,
+          type: attachment.contentType,
+          content: Buffer.from(attachment.content).toString('base64'),
+          disposition: 'attachment'
+        }))
+      });
+
+      const messageId = response.headers['x-message-id'];
+      return { messageId: typeof messageId === 'string' ? messageId : undefined, transport: 'sendgrid' };
+    }
+  };
+}
+
+/**
+ * Sends through any SMTP relay from the configured address
+ */
+export function createSmtpTransport(config: EmailEnvironmentConfig['smtp'], fromAddress: string): EmailTransport {
+  const transporter = nodemailer.createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.secure,
+    auth: config.user ? { user: config.user, pass: config.password } : undefined
+  });
+
+  return {
+    name: 'smtp',
+
+    async send(message, { user }) {
+      const info = await transporter.sendMail({
+        to: message.to,
+        from: formatAddress(fromAddress, user.name),
+        replyTo: user.email || undefined,
+        subject: message.subject,
+        html: message.html,
+        text: message.text ?? htmlToPlainText(message.html),
+        attachments: message.attachments?.map(attachment => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          contentType: attachment.contentType
+        }))
+      });
+
+      return { messageId: info.messageId, transport: 'smtp' };
+    }
+  };
+}
+
+/**
+ * Writes each email to an .eml file instead of sending it, for development and tests.
+ * The files open in any mail client.
+ */
+export function createOutboxTransport(directory: string): EmailTransport {
+  return {
+    name: 'outbox',
+
+    async send(message, { user }) {
+      const messageId = `outbox-${randomUUID()}`;
+      await mkdir(directory, { recursive: true });
+      await writeFile(
+        path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId}.eml`),
+        buildMimeMessage(formatAddress(user.email ?? '', user.name), message, [`Message-ID: <${messageId}@outbox>`])
+      );
+
+      return { messageId, transport: 'outbox' };
+    }
+  };
+}
+
+/**
+ * Tries each transport in order until one accepts the message. A transport that
+ * errors after the provider accepted the email can cause a duplicate; providers
+ * report acceptance synchronously, so in practice that only happens on timeouts.
+ */
+export function createFallbackTransport(transports: EmailTransport[]): EmailTransport {
+  if (transports.length === 0) {
+    throw new Error('At least one email transport is required');
+  }
+  if (transports.length === 1) {
+    return transports[0];
+  }
+
+  return {
+    name: transports[0].name,
+
+    async send(message, sender) {
+      const errors: string[] = [];
+
+      for (const transport of transports) {
+        try {
+          return await transport.send(message, sender);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : 'Unknown error';
+          console.warn(`Email transport ${transport.name} failed for ${message.to}: ${reason}`);
+          errors.push(`${transport.name}: ${reason}`);
+        }
+      }
+
+      throw new Error(errors.join('; '));
+    }
+  };
+}
+
+/**
+ * Build the transport chain selected for this environment
+ */
+export function createEmailTransport(config: EmailEnvironmentConfig = getEmailConfig()): EmailTransport {
+  return createFallbackTransport(config.transports.map(name => {
+    switch (name) {
+      case 'gmail':
+        return createGmailTransport();
+      case 'sendgrid':
+        return createSendGridTransport(config.sendgrid.apiKey, config.fromAddress);
+      case 'smtp':
+        return createSmtpTransport(config.smtp, config.fromAddress);
+      case 'outbox':
+        return createOutboxTransport(config.outboxDir);
+    }
+  }));
+}
@@ -1,37 +1,40 @@
-import { User } from '../shared/schema.js';
+import { createHash, randomUUID } from 'crypto';
+import { hostname } from 'os';
+import { and, asc, desc, eq, inArray, isNotNull, isNull, lt, lte, notInArray, or, sql } from 'drizzle-orm';
+import { db } from './storage.js';
+import { emailDeliveries, emailJobs, users } from '../shared/schema.js';
+import type {
+  User,
+  MeetingMinutes,
+  AgendaDocument,
+  EmailDeliveryRecord,
+  EmailDeliveryStatus,
+  EmailJobRecord,
+  EmailJobRetryConfig
+} from '../shared/schema.js';
+import { toAgendaDocument } from '../shared/agendaDocument.js';
 import { AgendaContent } from './agendaGenerator.js';
 import { EmailValidationResult } from './attendeeValidator.js';
-import { gmailService, BatchEmailResult, EmailSendResult } from './gmailService.js';
+import { gmailService, type GmailService, BatchEmailResult, EmailSendResult } from './gmailService.js';
 import { emailNotificationService } from './emailNotificationService.js';
 
 /**
- * Interface for email sending job
+ * Kind of email a job sends: the pre-meeting agenda or the post-meeting minutes
  */
-export interface EmailSendingJob {
-  id: string;
-  userId: string;
-  meetingId: string;
-  attendees: EmailValidationResult[];
-  meetingData: any;
-  agendaContent: AgendaContent;
-  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'partially_failed';
-  createdAt: Date;
-  startedAt?: Date;
-  completedAt?: Date;
+export type EmailJobType = 'agenda' | 'minutes';
+
+/**
+ * Interface for email sending job, with per-recipient results read from its deliveries
+ */
+export interface EmailSendingJob extends EmailJobRecord {
   results?: BatchEmailResult;
-  retryCount: number;
-  maxRetries: number;
-  errors: string[];
 }
 
 /**
  * Interface for retry configuration
  */
-export interface RetryConfig {
+export interface RetryConfig extends EmailJobRetryConfig {
   maxRetries: number;
-  retryDelayMs: number;
-  exponentialBackoff: boolean;
-  retryableErrors: string[];
 }
 
 /**
@@ -39,6 +42,7 @@ export interface RetryConfig {
  */
 export interface EmailSendingStatus {
   jobId: string;
+  emailType?: EmailJobType;
   status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'partially_failed';
   totalAttendees: number;
   emailsSent: number;
@@ -47,15 +51,206 @@ export interface EmailSendingStatus {
   errors: string[];
   results?: EmailSendResult[];
   estimatedTimeRemaining?: number;
+  deadLettered?: boolean;
+}
+
+/**
+ * Sends one email per recipient; Gmail by default
+ */
+export type EmailSender = Pick<GmailService, 'sendAgendaEmail' | 'sendMinutesEmail'>;
+
+type NewEmailJob = typeof emailJobs.$inferInsert;
+type NewEmailDelivery = typeof emailDeliveries.$inferInsert;
+
+/**
+ * Persistence used by the orchestrator. Tests pass an in-memory implementation.
+ */
+export interface EmailJobStore {
+  getUser(userId: string): Promise<User | undefined>;
+  insertJob(job: NewEmailJob): Promise<EmailJobRecord>;
+  // With a userId, only that user's job is returned
+  getJob(jobId: string, userId?: string): Promise<EmailJobRecord | undefined>;
+  updateJob(jobId: string, changes: Partial<NewEmailJob>): Promise<void>;
+  // Leases jobs that are due, or whose previous worker's lease ran out, and counts the attempt
+  claimJobs(workerId: string, now: Date, leaseExpiresAt: Date, limit: number): Promise<EmailJobRecord[]>;
+  // False when the job was cancelled or another worker took it over
+  renewLease(jobId: string, workerId: string, leaseExpiresAt: Date): Promise<boolean>;
+  // Applies the changes and drops the lease, if the worker still holds it
+  releaseJob(jobId: string, workerId: string, changes: Partial<NewEmailJob>): Promise<boolean>;
+  // Newest first
+  listJobs(userId: string, options?: { deadLettered?: boolean; limit?: number }): Promise<EmailJobRecord[]>;
+  deleteFinishedJobsBefore(cutoff: Date): Promise<number>;
+  // Inserts deliveries whose idempotency key is new; existing ones are left as they are
+  ensureDeliveries(deliveries: NewEmailDelivery[]): Promise<void>;
+  getDeliveries(idempotencyKeys: string[]): Promise<EmailDeliveryRecord[]>;
+  // Marks a delivery as sending if it is in one of the given states; false when it is not
+  claimDelivery(idempotencyKey: string, from: EmailDeliveryStatus[]): Promise<boolean>;
+  updateDelivery(idempotencyKey: string, changes: Partial<NewEmailDelivery>): Promise<void>;
+  // Puts deliveries in the given states back to pending
+  resetDeliveries(idempotencyKeys: string[], from: EmailDeliveryStatus[]): Promise<number>;
 }
 
+export const databaseEmailJobStore: EmailJobStore = {
+  async getUser(userId) {
+    const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+    return user;
+  },
+
+  async insertJob(job) {
+    const [created] = await db.insert(emailJobs).values(job).returning();
+    return created;
+  },
+
+  async getJob(jobId, userId) {
+    const condition = userId ? and(eq(emailJobs.id, jobId), eq(emailJobs.userId, userId)) : eq(emailJobs.id, jobId);
+    const [job] = await db.select().from(emailJobs).where(condition).limit(1);
+    return job;
+  },
+
+  async updateJob(jobId, changes) {
+    await db.update(emailJobs).set({ ...changes, updatedAt: new Date() }).where(eq(emailJobs.id, jobId));
+  },
+
+  async claimJobs(workerId, now, leaseExpiresAt, limit) {
+    // SKIP LOCKED lets several server instances share the queue without sending a job twice
+    const claimable = db
+      .select({ id: emailJobs.id })
+      .from(emailJobs)
+      .where(or(
+        and(eq(emailJobs.status, 'pending'), lte(emailJobs.availableAt, now)),
+        and(eq(emailJobs.status, 'in_progress'), lt(emailJobs.leaseExpiresAt, now))
+      ))
+      .orderBy(asc(emailJobs.availableAt))
+      .limit(limit)
+      .for('update', { skipLocked: true });
+
+    return db.update(emailJobs)
+      .set({
+        status: 'in_progress',
+        leaseOwner: workerId,
+        leaseExpiresAt,
+        attempts: sql`${emailJobs.attempts} + 1`,
+        startedAt: sql`coalesce(${emailJobs.startedAt}, ${now})`,
+        updatedAt: now
+      })
+      .where(inArray(emailJobs.id, claimable))
+      .returning();
+  },
+
+  async renewLease(jobId, workerId, leaseExpiresAt) {
+    const renewed = await db.update(emailJobs)
+      .set({ leaseExpiresAt })
+      .where(and(eq(emailJobs.id, jobId), eq(emailJobs.leaseOwner, workerId), eq(emailJobs.status, 'in_progress')))
+      .returning({ id: emailJobs.id });
+    return renewed.length > 0;
+  },
+
+  async releaseJob(jobId, workerId, changes) {
+    const released = await db.update(emailJobs)
+      .set({ ...changes, leaseOwner: null, leaseExpiresAt: null, updatedAt: new Date() })
+      .where(and(eq(emailJobs.id, jobId), eq(emailJobs.leaseOwner, workerId)))
+      .returning({ id: emailJobs.id });
+    return released.length > 0;
+  },
+
+  async listJobs(userId, { deadLettered, limit = 50 } = {}) {
+    return db.select()
+      .from(emailJobs)
+      .where(deadLettered === undefined
+        ? eq(emailJobs.userId, userId)
+        : and(eq(emailJobs.userId, userId), deadLettered ? isNotNull(emailJobs.deadLetteredAt) : isNull(emailJobs.deadLetteredAt)))
+      .orderBy(desc(emailJobs.createdAt))
+      .limit(limit);
+  },
+
+  async deleteFinishedJobsBefore(cutoff) {
+    // Dead-lettered jobs stay until the organizer requeues them
+    const deleted = await db.delete(emailJobs)
+      .where(and(
+        inArray(emailJobs.status, ['completed', 'failed']),
+        isNull(emailJobs.deadLetteredAt),
+        lt(emailJobs.updatedAt, cutoff)
+      ))
+      .returning({ id: emailJobs.id });
+    return deleted.length;
+  },
+
+  async ensureDeliveries(deliveries) {
+    if (deliveries.length === 0) {
+      return;
+    }
+    await db.insert(emailDeliveries).values(deliveries).onConflictDoNothing({ target: emailDeliveries.idempotencyKey });
+  },
+
+  async getDeliveries(idempotencyKeys) {
+    if (idempotencyKeys.length === 0) {
+      return [];
+    }
+    return db.select().from(emailDeliveries).where(inArray(emailDeliveries.idempotencyKey, idempotencyKeys));
+  },
+
+  async claimDelivery(idempotencyKey, from) {
+    const claimed = await db.update(emailDeliveries)
+      .set({ status: 'sending', attempts: sql`${emailDeliveries.attempts} + 1`, updatedAt: new Date() })
+      .where(and(eq(emailDeliveries.idempotencyKey, idempotencyKey), inArray(emailDeliveries.status, from)))
+      .returning({ id: emailDeliveries.id });
+    return claimed.length > 0;
+  },
+
+  async updateDelivery(idempotencyKey, changes) {
+    await db.update(emailDeliveries)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(emailDeliveries.idempotencyKey, idempotencyKey));
+  },
+
+  async resetDeliveries(idempotencyKeys, from) {
+    if (idempotencyKeys.length === 0) {
+      return 0;
+    }
+    const reset = await db.update(emailDeliveries)
+      .set({ status: 'pending', error: null, updatedAt: new Date() })
+      .where(and(
+        inArray(emailDeliveries.idempotencyKey, idempotencyKeys),
+        inArray(emailDeliveries.status, from),
+        notInArray(emailDeliveries.status, ['sent'])
+      ))
+      .returning({ id: emailDeliveries.id });
+    return reset.length;
+  }
+};
+
+// A worker that stops renewing its lease for this long is presumed gone
+const LEASE_MS = 2 * 60 * 1000;
+
 /**
- * Email Workflow Orchestrator for managing agenda email distribution
+ * Identifies what recipients of a job receive. Any change to the meeting details or
+ * content produces a new version, so an updated agenda is sent again but an identical one is not.
+ */
+export function getTemplateVersion(type: EmailJobType, meetingData: any, content: AgendaDocument | MeetingMinutes | undefined): string {
+  const hash = createHash('sha256').update(JSON.stringify({ meetingData, content })).digest('hex');
+  return `${type}:${hash.slice(0, 16)}`;
+}
+
+/**
+ * Idempotency key for sending one version of a meeting's email to one recipient
+ */
+export function getDeliveryKey(meetingId: string, recipientEmail: string, templateVersion: string): string {
+  return createHash('sha256')
+    .update(`${meetingId}\n${recipientEmail.trim().toLowerCase()}\n${templateVersion}`)
+    .digest('hex');
+}
+
+/**
+ * Email Workflow Orchestrator for managing agenda email distribution. Jobs and
+ * per-recipient deliveries are stored in Postgres and sent by a leasing worker,
+ * so sends survive restarts and are shared safely between server instances.
  */
 export class EmailWorkflowOrchestrator {
-  private jobs: Map<string, EmailSendingJob> = new Map();
-  private activeJobs: Set<string> = new Set();
-  
+  private readonly workerId = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  private pollInterval?: NodeJS.Timeout;
+  private running = false;
+  private runAgain = false;
+
   private readonly defaultRetryConfig: RetryConfig = {
     maxRetries: 3,
     retryDelayMs: 2000,
@@ -69,6 +264,12 @@ export class EmailWorkflowOrchestrator {
     ]
   };
 
+  constructor(
+    private readonly store: EmailJobStore = databaseEmailJobStore,
+    private readonly sender: EmailSender = gmailService,
+    private readonly sendDelayMs: number = 500 // pause between recipients to stay under rate limits
+  ) {}
+
   /**
    * Start email sending workflow
    */
@@ -77,255 +278,311 @@ export class EmailWorkflowOrchestrator {
     meetingId: string,
     attendees: EmailValidationResult[],
     meetingData: any,
-    agendaContent: AgendaContent,
+    agendaContent: AgendaContent | AgendaDocument,
+    retryConfig?: Partial<RetryConfig>
+  ): Promise<string> {
+    return this.startJob(
+      user,
+      { type: 'agenda', meetingId, attendees, meetingData, agendaContent: toAgendaDocument(agendaContent) },
+      retryConfig
+    );
+  }
+
+  /**
+   * Start post-meeting minutes workflow, with the same tracking and retries as agenda emails
+   */
+  async startMinutesEmailWorkflow(
+    user: User,
+    meetingId: string,
+    attendees: EmailValidationResult[],
+    meetingData: any,
+    minutes: MeetingMinutes,
+    retryConfig?: Partial<RetryConfig>
+  ): Promise<string> {
+    return this.startJob(user, { type: 'minutes', meetingId, attendees, meetingData, minutes }, retryConfig);
+  }
+
+  /**
+   * Store a job with a pending delivery per recipient and start sending it in the background
+   */
+  private async startJob(
+    user: User,
+    details: {
+      type: EmailJobType;
+      meetingId: string;
+      attendees: EmailValidationResult[];
+      meetingData: any;
+      agendaContent?: AgendaDocument;
+      minutes?: MeetingMinutes;
+    },
     retryConfig?: Partial<RetryConfig>
   ): Promise<string> {
-    const jobId = this.generateJobId();
-    const config = { ...this.defaultRetryConfig, ...retryConfig };
-    
-    const job: EmailSendingJob = {
-      id: jobId,
+    const { maxRetries, ...config } = { ...this.defaultRetryConfig, ...retryConfig };
+    const templateVersion = getTemplateVersion(details.type, details.meetingData, details.agendaContent ?? details.minutes);
+    const attendees = details.attendees.filter(a => a.isValid); // Only send to valid emails
+
+    // A job that could never be sent is rejected here, so callers learn about it
+    this.validateEmailPrerequisites(user, { ...details, attendees } as EmailJobRecord);
+
+    const job = await this.store.insertJob({
+      ...details,
       userId: user.id,
-      meetingId,
-      attendees: attendees.filter(a => a.isValid), // Only send to valid emails
-      meetingData,
-      agendaContent,
+      attendees,
+      templateVersion,
       status: 'pending',
-      createdAt: new Date(),
-      retryCount: 0,
-      maxRetries: config.maxRetries,
+      maxRetries,
+      retryConfig: config,
       errors: []
-    };
+    });
+
+    await this.store.ensureDeliveries(attendees.map(attendee => ({
+      jobId: job.id,
+      idempotencyKey: getDeliveryKey(job.meetingId, attendee.email, templateVersion),
+      recipientEmail: attendee.email
+    })));
 
-    this.jobs.set(jobId, job);
-    
     // Create notification for job start
     emailNotificationService.notifyEmailJobStarted(
       user.id,
-      jobId,
-      job.attendees.length
+      job.id,
+      attendees.length,
+      job.type
     );
-    
-    // Start processing asynchronously
-    this.processEmailJob(user, jobId, config).catch(error => {
-      console.error(`Error processing email job ${jobId}:`, error);
-      this.updateJobStatus(jobId, 'failed', [error.message]);
-    });
 
-    return jobId;
+    this.kick();
+    return job.id;
   }
 
   /**
-   * Get email sending status
+   * Get the status of one of the user's email sending jobs
    */
-  getEmailSendingStatus(jobId: string): EmailSendingStatus | null {
-    const job = this.jobs.get(jobId);
+  async getEmailSendingStatus(userId: string, jobId: string): Promise<EmailSendingStatus | null> {
+    const job = await this.store.getJob(jobId, userId);
     if (!job) {
       return null;
     }
 
-    const progress = this.calculateProgress(job);
-    const estimatedTimeRemaining = this.estimateTimeRemaining(job);
-
-    return {
-      jobId: job.id,
-      status: job.status,
-      totalAttendees: job.attendees.length,
-      emailsSent: job.results?.totalSent || 0,
-      emailsFailed: job.results?.totalFailed || 0,
-      progress,
-      errors: job.errors,
-      results: job.results?.results,
-      estimatedTimeRemaining
-    };
+    const [withResults] = await this.withResults([job]);
+    return this.toStatus(withResults);
   }
 
   /**
-   * Cancel email sending job
+   * Cancel one of the user's email sending jobs. Emails already sent stay sent; the worker stops before the next recipient.
    */
-  cancelEmailSendingJob(jobId: string): boolean {
-    const job = this.jobs.get(jobId);
+  async cancelEmailSendingJob(userId: string, jobId: string): Promise<boolean> {
+    const job = await this.store.getJob(jobId, userId);
     if (!job || job.status === 'completed') {
       return false;
     }
 
-    if (this.activeJobs.has(jobId)) {
-      this.activeJobs.delete(jobId);
-    }
-
-    this.updateJobStatus(jobId, 'failed', ['Job cancelled by user']);
+    await this.store.updateJob(jobId, {
+      status: 'failed',
+      errors: [...job.errors, 'Job cancelled by user'],
+      leaseOwner: null,
+      leaseExpiresAt: null,
+      completedAt: new Date()
+    });
     return true;
   }
 
   /**
-   * Retry failed email sending job
+   * Retry failed email sending job. Recipients who already got the email are skipped.
    */
   async retryEmailSendingJob(user: User, jobId: string): Promise<boolean> {
-    const job = this.jobs.get(jobId);
-    if (!job || job.retryCount >= job.maxRetries) {
+    const job = await this.store.getJob(jobId, user.id);
+    if (!job || job.status === 'in_progress' || job.retryCount >= job.maxRetries) {
       return false;
     }
 
-    // Reset job status for retry
-    job.status = 'pending';
-    job.retryCount++;
-    job.errors = [];
-    job.results = undefined;
+    await this.store.resetDeliveries(this.getDeliveryKeys(job), ['failed']);
+    await this.store.updateJob(jobId, {
+      status: 'pending',
+      retryCount: job.retryCount + 1,
+      attempts: 0,
+      errors: [],
+      availableAt: new Date(),
+      deadLetteredAt: null,
+      completedAt: null
+    });
 
-    // Start processing again
-    this.processEmailJob(user, jobId, this.defaultRetryConfig).catch(error => {
-      console.error(`Error retrying email job ${jobId}:`, error);
-      this.updateJobStatus(jobId, 'failed', [error.message]);
+    this.kick();
+    return true;
+  }
+
+  /**
+   * Send a dead-lettered job again. Unlike a retry this also resends to recipients whose
+   * delivery was interrupted, since the organizer has decided a possible duplicate is acceptable.
+   */
+  async requeueDeadLetteredJob(userId: string, jobId: string): Promise<boolean> {
+    const job = await this.store.getJob(jobId, userId);
+    if (!job || !job.deadLetteredAt) {
+      return false;
+    }
+
+    await this.store.resetDeliveries(this.getDeliveryKeys(job), ['failed', 'unknown']);
+    await this.store.updateJob(jobId, {
+      status: 'pending',
+      attempts: 0,
+      errors: [],
+      availableAt: new Date(),
+      deadLetteredAt: null,
+      completedAt: null
     });
 
+    this.kick();
     return true;
   }
 
   /**
-   * Process email sending job
+   * Claims jobs that are due and sends them; returns how many jobs were processed
    */
-  private async processEmailJob(
-    user: User,
-    jobId: string,
-    config: RetryConfig
-  ): Promise<void> {
-    const job = this.jobs.get(jobId);
-    if (!job) {
-      throw new Error(`Job ${jobId} not found`);
+  async processAvailableJobs(now: Date = new Date(), limit: number = 10): Promise<number> {
+    const jobs = await this.store.claimJobs(this.workerId, now, new Date(now.getTime() + LEASE_MS), limit);
+
+    for (const job of jobs) {
+      try {
+        await this.processEmailJob(job);
+      } catch (error) {
+        console.error(`Error processing email job ${job.id}:`, error);
+        await this.store.releaseJob(job.id, this.workerId, {
+          status: 'failed',
+          errors: [...job.errors, error instanceof Error ? error.message : 'Unknown error'],
+          deadLetteredAt: new Date(),
+          completedAt: new Date()
+        });
+      }
     }
 
-    this.activeJobs.add(jobId);
-    this.updateJobStatus(jobId, 'in_progress');
+    return jobs.length;
+  }
+
+  /**
+   * Send one leased job to every recipient who has not received it yet
+   */
+  private async processEmailJob(job: EmailJobRecord): Promise<void> {
+    const user = await this.store.getUser(job.userId);
 
     try {
       // Validate prerequisites
-      await this.validateEmailPrerequisites(user, job);
-
-      // Send emails with retry logic
-      const result = await this.sendEmailsWithRetry(user, job, config);
-      
-      // Update job with results
-      job.results = result;
-      job.completedAt = new Date();
-
-      // Determine final status
-      if (result.totalFailed === 0) {
-        this.updateJobStatus(jobId, 'completed');
-      } else if (result.totalSent > 0) {
-        this.updateJobStatus(jobId, 'partially_failed', result.errors);
-      } else {
-        this.updateJobStatus(jobId, 'failed', result.errors);
+      this.validateEmailPrerequisites(user, job);
+    } catch (error) {
+      console.error(`Email job ${job.id} failed:`, error);
+      await this.finishJob(job, 'failed', [error instanceof Error ? error.message : 'Unknown error'], true);
+      return;
+    }
+
+    const keys = this.getDeliveryKeys(job);
+    const deliveries = new Map((await this.store.getDeliveries(keys)).map(delivery => [delivery.idempotencyKey, delivery]));
+    const staleBefore = Date.now() - LEASE_MS;
+
+    for (const [index, attendee] of job.attendees.entries()) {
+      const key = keys[index];
+      const delivery = deliveries.get(key);
+
+      // A send left half-done by a worker that died may have reached the recipient; don't guess
+      if (delivery?.status === 'sending' && delivery.updatedAt && delivery.updatedAt.getTime() < staleBefore) {
+        await this.store.updateDelivery(key, { status: 'unknown', error: 'Sending was interrupted; the email may not have been delivered' });
+        continue;
       }
 
-      // Create completion notification
-      const finalStatus = this.getEmailSendingStatus(jobId);
-      if (finalStatus) {
-        emailNotificationService.notifyEmailJobCompleted(user.id, jobId, finalStatus);
+      if (!(await this.store.claimDelivery(key, ['pending', 'failed']))) {
+        continue; // Already sent, in flight in another job, or waiting on a requeue
       }
 
-    } catch (error) {
-      console.error(`Email job ${jobId} failed:`, error);
-      this.updateJobStatus(jobId, 'failed', [error instanceof Error ? error.message : 'Unknown error']);
-      
-      // Create failure notification
-      const failedStatus = this.getEmailSendingStatus(jobId);
-      if (failedStatus) {
-        emailNotificationService.notifyEmailJobCompleted(user.id, jobId, failedStatus);
+      const result = await this.sendEmail(user!, job, attendee);
+      await this.store.updateDelivery(key, result.success
+        ? { status: 'sent', messageId: result.messageId ?? null, error: null, sentAt: new Date() }
+        : { status: 'failed', error: result.error || 'Unknown error' });
+
+      // Stop if the job was cancelled or taken over while this email was going out
+      if (!(await this.store.renewLease(job.id, this.workerId, new Date(Date.now() + LEASE_MS)))) {
+        console.log(`Email job ${job.id} was cancelled or reassigned, stopping`);
+        return;
+      }
+
+      if (this.sendDelayMs > 0 && index < job.attendees.length - 1) {
+        await this.delay(this.sendDelayMs);
       }
-    } finally {
-      this.activeJobs.delete(jobId);
     }
+
+    const results = this.summarize(job, await this.store.getDeliveries(keys));
+
+    if (results.totalFailed === 0) {
+      await this.finishJob(job, 'completed', []);
+      return;
+    }
+
+    // Retry retryable failures with backoff, on whichever instance picks the job up next
+    if (job.attempts <= job.maxRetries && this.hasRetryableErrors(results.errors, job.retryConfig)) {
+      const delay = job.retryConfig.exponentialBackoff
+        ? job.retryConfig.retryDelayMs * Math.pow(2, job.attempts - 1)
+        : job.retryConfig.retryDelayMs;
+
+      console.log(`Retrying email job ${job.id}, attempt ${job.attempts + 1}, delay: ${delay}ms`);
+      await this.store.releaseJob(job.id, this.workerId, {
+        status: 'pending',
+        availableAt: new Date(Date.now() + delay)
+      });
+      setTimeout(() => this.kick(), delay).unref?.();
+      return;
+    }
+
+    await this.finishJob(job, results.totalSent > 0 ? 'partially_failed' : 'failed', results.errors, true);
   }
 
   /**
-   * Send emails with retry logic
+   * Record a job's final status, move it to the dead-letter list if it gave up, and notify the organizer
    */
-  private async sendEmailsWithRetry(
-    user: User,
-    job: EmailSendingJob,
-    config: RetryConfig
-  ): Promise<BatchEmailResult> {
-    let lastResult: BatchEmailResult | null = null;
-    let attempt = 0;
+  private async finishJob(
+    job: EmailJobRecord,
+    status: 'completed' | 'failed' | 'partially_failed',
+    errors: string[],
+    deadLetter = false
+  ): Promise<void> {
+    const released = await this.store.releaseJob(job.id, this.workerId, {
+      status,
+      errors: [...job.errors, ...errors],
+      completedAt: new Date(),
+      deadLetteredAt: deadLetter ? new Date() : null
+    });
+    if (!released) {
+      return;
+    }
 
-    while (attempt <= config.maxRetries) {
-      try {
-        // Send batch emails
-        const result = await gmailService.sendBatchAgendaEmails(
-          user,
-          job.attendees,
-          {
-            ...job.meetingData,
-            description: job.agendaContent.enhancedPurpose || job.meetingData.description || ''
-          },
-          job.agendaContent
-        );
-
-        // If all emails sent successfully, return immediately
-        if (result.totalFailed === 0) {
-          return result;
-        }
-
-        // If this is not the last attempt and we have retryable failures
-        if (attempt < config.maxRetries && this.hasRetryableErrors(result.errors, config)) {
-          lastResult = result;
-          attempt++;
-          
-          // Calculate delay with exponential backoff
-          const delay = config.exponentialBackoff 
-            ? config.retryDelayMs * Math.pow(2, attempt - 1)
-            : config.retryDelayMs;
-          
-          console.log(`Retrying email job ${job.id}, attempt ${attempt}, delay: ${delay}ms`);
-          await this.delay(delay);
-          
-          // Filter out successfully sent emails for retry
-          job.attendees = job.attendees.filter(attendee => 
-            !result.results.some(r => r.email === attendee.email && r.success)
-          );
-          
-          continue;
-        }
-
-        return result;
+    const finalStatus = await this.getEmailSendingStatus(job.userId, job.id);
+    if (finalStatus) {
+      emailNotificationService.notifyEmailJobCompleted(job.userId, job.id, finalStatus);
+    }
+  }
 
-      } catch (error) {
-        console.error(`Email sending attempt ${attempt} failed:`, error);
-        
-        if (attempt >= config.maxRetries) {
-          throw error;
-        }
-        
-        attempt++;
-        const delay = config.exponentialBackoff 
-          ? config.retryDelayMs * Math.pow(2, attempt - 1)
-          : config.retryDelayMs;
-        
-        await this.delay(delay);
-      }
+  /**
+   * Send the job's email to one recipient
+   */
+  private sendEmail(user: User, job: EmailJobRecord, attendee: EmailValidationResult): Promise<EmailSendResult> {
+    if (job.type === 'minutes') {
+      return this.sender.sendMinutesEmail(user, attendee, job.meetingData, job.minutes!);
     }
 
-    return lastResult || {
-      totalSent: 0,
-      totalFailed: job.attendees.length,
-      results: job.attendees.map(a => ({
-        email: a.email,
-        success: false,
-        error: 'Max retries exceeded'
-      })),
-      errors: ['Max retries exceeded']
-    };
+    return this.sender.sendAgendaEmail(
+      user,
+      attendee,
+      {
+        ...job.meetingData,
+        description: job.agendaContent!.purpose || job.meetingData.description || ''
+      },
+      job.agendaContent!
+    );
   }
 
   /**
    * Validate email sending prerequisites
    */
-  private async validateEmailPrerequisites(user: User, job: EmailSendingJob): Promise<void> {
+  private validateEmailPrerequisites(user: User | undefined, job: EmailJobRecord): void {
     const errors: string[] = [];
 
-    // Check user access token
-    if (!user.accessToken) {
-      errors.push('User access token is missing');
+    // Check the organizer the emails are sent on behalf of
+    if (!user) {
+      errors.push('User not found');
     }
 
     // Check attendees
@@ -338,8 +595,12 @@ export class EmailWorkflowOrchestrator {
       errors.push('Meeting title is required');
     }
 
-    // Check agenda content
-    if (!job.agendaContent || job.agendaContent.topics.length === 0) {
+    // Check agenda or minutes content
+    if (job.type === 'minutes') {
+      if (!job.minutes || !job.minutes.summary.trim()) {
+        errors.push('Minutes summary is required');
+      }
+    } else if (!job.agendaContent || job.agendaContent.topics.length === 0) {
       errors.push('Agenda content is required');
     }
 
@@ -351,47 +612,79 @@ export class EmailWorkflowOrchestrator {
   /**
    * Check if errors are retryable
    */
-  private hasRetryableErrors(errors: string[], config: RetryConfig): boolean {
-    return errors.some(error => 
-      config.retryableErrors.some(retryableError => 
+  private hasRetryableErrors(errors: string[], config: EmailJobRetryConfig): boolean {
+    return errors.some(error =>
+      config.retryableErrors.some(retryableError =>
         error.toLowerCase().includes(retryableError.toLowerCase())
       )
     );
   }
 
+  private getDeliveryKeys(job: EmailJobRecord): string[] {
+    return job.attendees.map(attendee => getDeliveryKey(job.meetingId, attendee.email, job.templateVersion));
+  }
+
   /**
-   * Update job status
+   * Per-recipient outcome of a job so far. Pending and in-flight deliveries are in neither count.
    */
-  private updateJobStatus(
-    jobId: string, 
-    status: EmailSendingJob['status'], 
-    errors: string[] = []
-  ): void {
-    const job = this.jobs.get(jobId);
-    if (job) {
-      job.status = status;
-      if (errors.length > 0) {
-        job.errors.push(...errors);
-      }
-      if (status === 'in_progress' && !job.startedAt) {
-        job.startedAt = new Date();
+  private summarize(job: EmailJobRecord, deliveries: EmailDeliveryRecord[]): BatchEmailResult {
+    const byKey = new Map(deliveries.map(delivery => [delivery.idempotencyKey, delivery]));
+    const results: EmailSendResult[] = [];
+    const errors: string[] = [];
+
+    this.getDeliveryKeys(job).forEach((key, index) => {
+      const delivery = byKey.get(key);
+      const email = job.attendees[index].email;
+      if (delivery?.status === 'sent') {
+        results.push({ email, success: true, messageId: delivery.messageId || undefined });
+      } else if (delivery?.status === 'failed' || delivery?.status === 'unknown') {
+        const error = delivery.error || 'Unknown error';
+        results.push({ email, success: false, error });
+        errors.push(`${email}: ${error}`);
       }
-    }
+    });
+
+    return {
+      totalSent: results.filter(result => result.success).length,
+      totalFailed: results.filter(result => !result.success).length,
+      results,
+      errors
+    };
+  }
+
+  /**
+   * Attach per-recipient results, reading every job's deliveries at once
+   */
+  private async withResults(jobs: EmailJobRecord[]): Promise<EmailSendingJob[]> {
+    const deliveries = await this.store.getDeliveries(jobs.flatMap(job => this.getDeliveryKeys(job)));
+    return jobs.map(job => ({ ...job, results: this.summarize(job, deliveries) }));
+  }
+
+  private toStatus(job: EmailSendingJob): EmailSendingStatus {
+    return {
+      jobId: job.id,
+      emailType: job.type,
+      status: job.status,
+      totalAttendees: job.attendees.length,
+      emailsSent: job.results?.totalSent || 0,
+      emailsFailed: job.results?.totalFailed || 0,
+      progress: this.calculateProgress(job),
+      errors: job.errors,
+      results: job.results?.results,
+      estimatedTimeRemaining: this.estimateTimeRemaining(job),
+      deadLettered: !!job.deadLetteredAt
+    };
   }
 
   /**
    * Calculate job progress percentage
    */
   private calculateProgress(job: EmailSendingJob): number {
-    if (job.status === 'pending') return 0;
     if (job.status === 'completed') return 100;
-    
-    if (job.results) {
-      const totalProcessed = job.results.totalSent + job.results.totalFailed;
-      return Math.round((totalProcessed / job.attendees.length) * 100);
-    }
-    
-    return job.status === 'in_progress' ? 50 : 0;
+    if (!job.results || job.attendees.length === 0) return 0;
+
+    const totalProcessed = job.results.totalSent + job.results.totalFailed;
+    return Math.round((totalProcessed / job.attendees.length) * 100);
   }
 
   /**
@@ -405,71 +698,103 @@ export class EmailWorkflowOrchestrator {
     const elapsed = Date.now() - job.startedAt.getTime();
     const processed = job.results.totalSent + job.results.totalFailed;
     const remaining = job.attendees.length - processed;
-    
+
     if (processed === 0) return undefined;
-    
+
     const avgTimePerEmail = elapsed / processed;
     return Math.round(avgTimePerEmail * remaining);
   }
 
   /**
-   * Generate unique job ID
+   * Add delay
    */
-  private generateJobId(): string {
-    return `email_job_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  private delay(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
   }
 
   /**
-   * Add delay
+   * Process available jobs now instead of waiting for the next poll. Calls made while a
+   * run is going make it go round again rather than starting a second one.
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private kick(): void {
+    if (this.running) {
+      this.runAgain = true;
+      return;
+    }
+
+    this.running = true;
+    (async () => {
+      try {
+        do {
+          this.runAgain = false;
+          await this.processAvailableJobs();
+        } while (this.runAgain);
+      } catch (error) {
+        console.error('Error processing email jobs:', error);
+      } finally {
+        this.running = false;
+      }
+    })();
   }
 
   /**
-   * Get all jobs for a user
+   * Start picking up queued jobs in the background, including ones left by a restart
    */
-  getUserEmailJobs(userId: string): EmailSendingJob[] {
-    return Array.from(this.jobs.values()).filter(job => job.userId === userId);
+  start(intervalMs: number = 30 * 1000): void {
+    this.stop();
+    this.pollInterval = setInterval(() => this.kick(), intervalMs);
+    this.kick();
+    console.log('Email job worker started');
   }
 
   /**
-   * Clean up old completed jobs
+   * Stop background processing
    */
-  cleanupOldJobs(maxAgeMs: number = 24 * 60 * 60 * 1000): void { // Default 24 hours
-    const cutoffTime = Date.now() - maxAgeMs;
-    
-    Array.from(this.jobs.entries()).forEach(([jobId, job]) => {
-      if (job.status === 'completed' || job.status === 'failed') {
-        const jobTime = job.completedAt?.getTime() || job.createdAt.getTime();
-        if (jobTime < cutoffTime) {
-          this.jobs.delete(jobId);
-        }
-      }
-    });
+  stop(): void {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+      this.pollInterval = undefined;
+    }
+  }
+
+  /**
+   * Get a user's jobs, newest first; `deadLettered` limits them to jobs that gave up or to the rest
+   */
+  async getUserEmailJobs(userId: string, options: { deadLettered?: boolean; limit?: number } = {}): Promise<EmailSendingJob[]> {
+    return this.withResults(await this.store.listJobs(userId, options));
   }
 
   /**
-   * Get job statistics
+   * Clean up old finished jobs. Delivery records are kept so the emails are still not sent twice.
    */
-  getJobStatistics(): {
+  async cleanupOldJobs(maxAgeMs: number = 24 * 60 * 60 * 1000): Promise<number> { // Default 24 hours
+    return this.store.deleteFinishedJobsBefore(new Date(Date.now() - maxAgeMs));
+  }
+
+  /**
+   * Get job statistics for a user's recent jobs
+   */
+  async getJobStatistics(userId: string): Promise<{
     total: number;
     pending: number;
     inProgress: number;
     completed: number;
     failed: number;
     partiallyFailed: number;
-  } {
+    deadLettered: number;
+  }> {
+    const jobs = await this.store.listJobs(userId, { limit: 200 });
     const stats = {
-      total: this.jobs.size,
+      total: jobs.length,
       pending: 0,
       inProgress: 0,
       completed: 0,
       failed: 0,
-      partiallyFailed: 0
+      partiallyFailed: 0,
+      deadLettered: 0
     };
 
-    Array.from(this.jobs.values()).forEach(job => {
+    jobs.forEach(job => {
       switch (job.status) {
         case 'pending':
           stats.pending++;
@@ -487,6 +812,9 @@ export class EmailWorkflowOrchestrator {
           stats.partiallyFailed++;
           break;
       }
+      if (job.deadLetteredAt) {
+        stats.deadLettered++;
+      }
     });
 
     return stats;
@@ -494,4 +822,4 @@ export class EmailWorkflowOrchestrator {
 }
 
 // Export singleton instance
-export const emailWorkflowOrchestrator = new EmailWorkflowOrchestrator();
\ No newline at end of file
+export const emailWorkflowOrchestrator = new EmailWorkflowOrchestrator();
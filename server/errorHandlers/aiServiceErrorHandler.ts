@@ -127,6 +127,17 @@ export class AIServiceErrorHandler {
       };
     }
 
+    // A provider without credentials cannot answer, but the next one may
+    if (error.message?.includes('service is not available')) {
+      return {
+        type: AIErrorType.SERVICE_UNAVAILABLE,
+        message: 'AI service is not configured',
+        originalError: error,
+        retryable: false,
+        fallbackAvailable: true
+      };
+    }
+
     // Handle Gemini-specific errors
     if (error.status || error.message?.includes('GoogleGenerativeAI')) {
       return this.classifyGeminiError(error);
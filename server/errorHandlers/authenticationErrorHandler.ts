@@ -1,6 +1,6 @@
 import { User } from '../../shared/schema';
 import { storage } from '../storage';
-import { GoogleAuth } from 'google-auth-library';
+import { GoogleAuth, OAuth2Client } from 'google-auth-library';
 
 /**
  * Authentication error types
@@ -30,6 +30,11 @@ export interface AuthenticationError {
   preserveWorkflowState: boolean;
 }
 
+/**
+ * The parts of a user a token refresh needs
+ */
+export type GoogleTokenUser = Pick<User, 'id' | 'googleId' | 'accessToken' | 'refreshToken'>;
+
 /**
  * Token refresh result
  */
@@ -124,11 +129,15 @@ export class AuthenticationErrorHandler {
     if (error.response || error.status) {
       const status = error.response?.status || error.status;
       const errorData = error.response?.data || error.data || {};
-      const errorCode = errorData.error || errorData.error_description;
+      // OAuth endpoints answer with an error string; Google APIs with an { code, status } object
+      const errorCode: string | undefined = typeof errorData.error === 'string'
+        ? errorData.error
+        : errorData.error?.status || errorData.error_description;
 
       switch (status) {
         case 401:
-          if (errorCode?.includes('invalid_token') || errorCode?.includes('expired')) {
+          // Google APIs reject calls made with an expired access token as UNAUTHENTICATED
+          if (errorCode?.includes('invalid_token') || errorCode?.includes('expired') || errorCode === 'UNAUTHENTICATED') {
             return {
               type: AuthErrorType.TOKEN_EXPIRED,
               message: 'Access token has expired',
@@ -237,7 +246,7 @@ export class AuthenticationErrorHandler {
   /**
    * Attempt to refresh access token using refresh token
    */
-  async refreshAccessToken(user: User): Promise<TokenRefreshResult> {
+  async refreshAccessToken(user: GoogleTokenUser): Promise<TokenRefreshResult> {
     if (!user.refreshToken) {
       return {
         success: false,
@@ -259,7 +268,7 @@ export class AuthenticationErrorHandler {
         console.log(`Attempting token refresh for user ${user.id} (attempt ${attempt + 1})`);
 
         // Use Google Auth Library to refresh token
-        const oauth2Client = new this.googleAuth.OAuth2Client(
+        const oauth2Client = new OAuth2Client(
           process.env.GOOGLE_CLIENT_ID,
           process.env.GOOGLE_CLIENT_SECRET
         );
@@ -330,9 +339,9 @@ export class AuthenticationErrorHandler {
   /**
    * Execute operation with automatic authentication recovery
    */
-  async executeWithAuthRecovery<T>(
-    operation: (user: User) => Promise<T>,
-    user: User,
+  async executeWithAuthRecovery<T, U extends GoogleTokenUser = User>(
+    operation: (user: U) => Promise<T>,
+    user: U,
     operationName: string,
     workflowContext?: {
       conversationId: string;
@@ -16,8 +16,8 @@ async function demonstrateAnalytics() {
     // 1. Get current usage statistics
     console.log('1. Current Usage Statistics:');
     const usageStats = aiRouter.getUsageStats();
-    console.log(`Total Gemini requests: ${usageStats.gemini.totalRequests}`);
-    console.log(`Total Mistral requests: ${usageStats.mistral.totalRequests}`);
+    console.log(`Total Gemini requests: ${usageStats.providers.gemini.totalRequests}`);
+    console.log(`Total Mistral requests: ${usageStats.providers.mistral.totalRequests}`);
     console.log(`Fallbacks triggered: ${usageStats.routing.fallbacksTriggered}`);
     console.log();
 
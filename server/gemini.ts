@@ -1,6 +1,8 @@
 import { GoogleGenerativeAI, GenerativeModel, GenerationConfig } from '@google/generative-ai';
 import { MeetingExtraction, TitleSuggestion, ConversationMessage, MeetingData } from '../shared/schema.js';
-import { MEETING_CREATION_PROMPTS, MEETING_CREATION_RULES } from './prompts.js';
+import { MEETING_CREATION_RULES } from './prompts.js';
+import { promptRegistry, renderPromptForCall } from './promptRegistry.js';
+import { aiRoutingLogger } from './aiRoutingLogger.js';
 import { performanceMonitor } from './performanceMonitor.js';
 import { aiServiceErrorHandler } from './errorHandlers/aiServiceErrorHandler.js';
 import { retryWithExponentialBackoff, isRetryableError } from './utils/retryUtils.js';
@@ -75,20 +77,11 @@ const defaultConfig: GeminiConfig = {
 };
 
 // Enhanced system prompt for conversational responses
-const SYSTEM_PROMPT = `You are CalAI, an AI calendar assistant. Be concise, professional, and helpful.
-
-Guidelines:
-- Keep responses under 2 sentences maximum
-- Use natural, conversational language
-- Be direct and actionable
-- Avoid jargon and complex explanations
-- Focus on the user's immediate needs
-- When asking questions, be specific and brief
-- Never make up information or hallucinate
-- Always verify facts before stating them
-- If uncertain, ask for clarification`;
-
-// Get Gemini model instance with configuration and fallback support
+const ASSISTANT_SYSTEM_PROMPT = promptRegistry.render('assistant_system');
+const SYSTEM_PROMPT = ASSISTANT_SYSTEM_PROMPT.text;
+
+// Get Gemini model instance with configuration and fallback support.
+// Every model it returns carries the assistant system prompt, so that prompt's version is logged here.
 function getGeminiModel(config: Partial<GeminiConfig> = {}): GenerativeModel {
     const finalConfig = { ...defaultConfig, ...config };
 
@@ -116,6 +109,7 @@ function getGeminiModel(config: Partial<GeminiConfig> = {}): GenerativeModel {
 
             // Test if model is available by making a simple request
             console.log(`Using Gemini model: ${modelName}`);
+            aiRoutingLogger.logPromptUsage(ASSISTANT_SYSTEM_PROMPT, 'gemini');
             return model;
         } catch (error) {
             console.warn(`Failed to initialize model ${modelName}, trying fallback:`, error);
@@ -292,11 +286,8 @@ export async function getGeminiResponse(messages: MistralMessage[]): Promise<str
             // Convert messages to Gemini format
             const { geminiMessages, systemInstruction } = convertToGeminiFormat(messages);
 
-            // Get model with custom system instruction if provided
-            const model = getGeminiModel();
-
-            // If we have a custom system instruction from the messages, create a new model instance
-            let finalModel = model;
+            // Use a model with the custom system instruction from the messages, if any
+            let finalModel: GenerativeModel;
             if (systemInstruction && systemInstruction !== SYSTEM_PROMPT) {
                 finalModel = genAI.getGenerativeModel({
                     model: defaultConfig.model,
@@ -308,6 +299,8 @@ export async function getGeminiResponse(messages: MistralMessage[]): Promise<str
                     },
                     systemInstruction: systemInstruction,
                 });
+            } else {
+                finalModel = getGeminiModel();
             }
 
             // Generate response using Gemini
@@ -345,6 +338,66 @@ export async function getGeminiResponse(messages: MistralMessage[]): Promise<str
     }, 3, 1000);
 }
 
+/**
+ * Streams a Gemini response, passing text to onChunk as it is generated. Not
+ * retried, since part of the answer may already have been shown.
+ */
+export async function streamGeminiResponse(
+    messages: MistralMessage[],
+    onChunk: (chunk: string) => void
+): Promise<string> {
+    const startTime = Date.now();
+    const inputText = messages.map(m => m.content).join(' ');
+    const inputTokens = performanceMonitor.estimateTokenCount(inputText);
+
+    try {
+        const { geminiMessages, systemInstruction } = convertToGeminiFormat(messages);
+
+        let model: GenerativeModel;
+        if (systemInstruction && systemInstruction !== SYSTEM_PROMPT) {
+            model = genAI.getGenerativeModel({
+                model: defaultConfig.model,
+                generationConfig: {
+                    temperature: defaultConfig.temperature,
+                    topP: defaultConfig.topP,
+                    topK: defaultConfig.topK,
+                    maxOutputTokens: defaultConfig.maxOutputTokens,
+                },
+                systemInstruction: systemInstruction,
+            });
+        } else {
+            model = getGeminiModel();
+        }
+
+        const result = await model.generateContentStream({
+            contents: geminiMessages.map(msg => ({
+                role: msg.role,
+                parts: msg.parts
+            }))
+        });
+
+        let text = '';
+        for await (const chunk of result.stream) {
+            const chunkText = chunk.text();
+            if (chunkText) {
+                text += chunkText;
+                onChunk(chunkText);
+            }
+        }
+
+        const response = await result.response;
+        const usageMetadata = response.usageMetadata;
+        const outputTokens = usageMetadata?.candidatesTokenCount || performanceMonitor.estimateTokenCount(text);
+
+        logSuccessfulCall('general_response_stream', inputTokens, outputTokens, Date.now() - startTime, usageMetadata, defaultConfig.model);
+
+        return text.trim();
+    } catch (error: any) {
+        logFailedCall('general_response_stream', inputTokens, Date.now() - startTime, error.message || 'Unknown Gemini API error', defaultConfig.model);
+        throw await handleGeminiError(error, 'general_response_stream');
+    }
+}
+
 /**
  * Backward compatible generateResponse function
  * Maintains the same interface as the previous version
@@ -475,9 +528,10 @@ export async function extractMeetingIntent(
         const contextString = buildCompressedContext(conversationContext, contextAnalysis);
 
         // Apply the enhanced prompt with actual values
-        const extractionPrompt = MEETING_CREATION_PROMPTS.MEETING_INTENT_EXTRACTION
-            .replace('{userMessage}', userMessage)
-            .replace('{context}', contextString);
+        const extractionPrompt = renderPromptForCall('meeting_intent_extraction', {
+            userMessage,
+            context: contextString
+        }, 'gemini');
 
         const startTime = Date.now();
         const inputTokens = performanceMonitor.estimateTokenCount(extractionPrompt);
@@ -776,10 +830,11 @@ export function extractTopicsFromContext(messages: ConversationMessage[]): strin
 export async function generateMeetingTitles(purpose: string, participants: string[], context: string = ''): Promise<TitleSuggestion> {
     return await retryWithExponentialBackoff(async () => {
         // Apply the enhanced prompt with actual values
-        const titlePrompt = MEETING_CREATION_PROMPTS.TITLE_GENERATION
-            .replace('{purpose}', purpose)
-            .replace('{participants}', participants.join(', '))
-            .replace('{context}', context);
+        const titlePrompt = renderPromptForCall('meeting_title_generation', {
+            purpose,
+            participants: participants.join(', '),
+            context
+        }, 'gemini');
 
         const startTime = Date.now();
         const inputTokens = performanceMonitor.estimateTokenCount(titlePrompt);
@@ -837,11 +892,12 @@ export async function enhancePurposeWording(
     participants: string[] = [],
     context: string = ''
 ): Promise<{ enhancedPurpose: string; keyPoints: string[] }> {
-  const purposePrompt = MEETING_CREATION_PROMPTS.PURPOSE_ENHANCEMENT
-      .replace('{purpose}', purpose)
-      .replace('{title}', title)
-      .replace('{participants}', JSON.stringify(participants))
-      .replace('{context}', context);
+  const purposePrompt = renderPromptForCall('purpose_enhancement', {
+      purpose,
+      title,
+      participants: JSON.stringify(participants),
+      context
+  }, 'gemini');
 
   console.log('Purpose enhancement request:', {
     purposeLength: purpose.length,
@@ -980,8 +1036,9 @@ function extractKeyPointsFromPurpose(purpose: string): string[] {
  * Verify attendees using Gemini
  */
 export async function verifyAttendees(emails: string[]): Promise<Array<{ email: string, valid: boolean, trusted: boolean }>> {
-    const verificationPrompt = MEETING_CREATION_PROMPTS.ATTENDEE_VERIFICATION
-        .replace('{emails}', JSON.stringify(emails));
+    const verificationPrompt = renderPromptForCall('attendee_verification', {
+        emails: JSON.stringify(emails)
+    }, 'gemini');
 
     const startTime = Date.now();
     const inputTokens = performanceMonitor.estimateTokenCount(verificationPrompt);
@@ -1041,12 +1098,13 @@ export async function verifyAttendees(emails: string[]): Promise<Array<{ email:
  * Generate meeting agenda using Gemini
  */
 export async function generateMeetingAgenda(title: string, purpose: string, participants: string[], duration: number, context: string = ''): Promise<string> {
-    const agendaPrompt = MEETING_CREATION_PROMPTS.AGENDA_GENERATION
-        .replace('{title}', title)
-        .replace('{purpose}', purpose)
-        .replace('{participants}', JSON.stringify(participants))
-        .replace('{duration}', duration.toString())
-        .replace('{context}', context);
+    const agendaPrompt = renderPromptForCall('agenda_generation', {
+        title,
+        purpose,
+        participants: JSON.stringify(participants),
+        duration,
+        context
+    }, 'gemini');
 
     const startTime = Date.now();
     const inputTokens = performanceMonitor.estimateTokenCount(agendaPrompt);
@@ -1088,12 +1146,13 @@ export async function generateMeetingAgenda(title: string, purpose: string, part
  * Generate action items using Gemini
  */
 export async function generateActionItems(title: string, purpose: string, participants: string[], topics: string[], context: string = ''): Promise<any[]> {
-    const actionItemsPrompt = MEETING_CREATION_PROMPTS.ACTION_ITEMS_GENERATION
-        .replace('{title}', title)
-        .replace('{purpose}', purpose)
-        .replace('{participants}', JSON.stringify(participants))
-        .replace('{topics}', JSON.stringify(topics))
-        .replace('{context}', context);
+    const actionItemsPrompt = renderPromptForCall('action_items_generation', {
+        title,
+        purpose,
+        participants: JSON.stringify(participants),
+        topics: JSON.stringify(topics),
+        context
+    }, 'gemini');
 
     const startTime = Date.now();
     const inputTokens = performanceMonitor.estimateTokenCount(actionItemsPrompt);
@@ -1146,8 +1205,9 @@ export async function summarizeConversation(messages: ConversationMessage[]): Pr
         .map(msg => `${msg.role}: ${msg.content}`)
         .join('\n');
 
-    const summaryPrompt = MEETING_CREATION_PROMPTS.CONVERSATION_SUMMARIZATION
-        .replace('{messages}', messagesText);
+    const summaryPrompt = renderPromptForCall('conversation_summarization', {
+        messages: messagesText
+    }, 'gemini');
 
     const startTime = Date.now();
     const inputTokens = performanceMonitor.estimateTokenCount(summaryPrompt);
@@ -1196,9 +1256,10 @@ export async function compressContext(
         `${meetingData.title || 'Untitled'} - ${meetingData.startTime || 'No time'} - ${meetingData.attendees?.map(a => a.email).join(', ') || 'No attendees'}` :
         'No current meeting';
 
-    const compressionPrompt = MEETING_CREATION_PROMPTS.CONTEXT_COMPRESSION
-        .replace('{fullContext}', fullContext)
-        .replace('{meetingData}', meetingDataString);
+    const compressionPrompt = renderPromptForCall('context_compression', {
+        fullContext,
+        meetingData: meetingDataString
+    }, 'gemini');
 
     const startTime = Date.now();
     const inputTokens = performanceMonitor.estimateTokenCount(compressionPrompt);
@@ -1253,9 +1314,10 @@ export async function analyzeMultiTurnIntent(
         .map(msg => `${msg.role}: ${msg.content}`)
         .join('\n');
 
-    const intentPrompt = MEETING_CREATION_PROMPTS.MULTI_TURN_INTENT
-        .replace('{conversation}', conversationText)
-        .replace('{message}', currentMessage);
+    const intentPrompt = renderPromptForCall('multi_turn_intent', {
+        conversation: conversationText,
+        message: currentMessage
+    }, 'gemini');
 
     const startTime = Date.now();
     const inputTokens = performanceMonitor.estimateTokenCount(intentPrompt);
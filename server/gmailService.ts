@@ -1,7 +1,12 @@
 import { google } from 'googleapis';
-import { User } from '../shared/schema.js';
+import { User, MeetingMinutes, AgendaDocument } from '../shared/schema.js';
+import { renderAgendaHtml, toAgendaDocument } from '../shared/agendaDocument.js';
 import { AgendaContent } from './agendaGenerator.js';
 import { EmailValidationResult } from './attendeeValidator.js';
+import { emailTemplateService } from './emailTemplateService.js';
+import { createEmailTransport, type EmailMessage, type EmailTransport } from './emailTransport.js';
+import { toCalendarInviteAttachment, type CalendarInvite } from './calendarInvite.js';
+import type { EmailTransportName } from './config/environmentConfig.js';
 
 // Gmail API scopes required for sending emails
 const GMAIL_SCOPES = [
@@ -17,6 +22,7 @@ export interface EmailSendResult {
   success: boolean;
   messageId?: string;
   error?: string;
+  transport?: EmailTransportName; // which transport delivered it
 }
 
 /**
@@ -47,9 +53,12 @@ export interface EmailTemplateData {
 }
 
 /**
- * Gmail service for sending agenda emails
+ * Renders agenda, minutes and notification emails and sends them through the
+ * configured email transports (the user's Gmail account by default)
  */
 export class GmailService {
+  constructor(private readonly transport: EmailTransport = createEmailTransport()) {}
+
   /**
    * Get Gmail API client
    */
@@ -66,65 +75,153 @@ export class GmailService {
     user: User,
     attendee: EmailValidationResult,
     meetingData: any,
-    agendaContent: AgendaContent
+    agendaContent: AgendaContent | AgendaDocument
   ): Promise<EmailSendResult> {
-    try {
-      if (!user.accessToken) {
-        throw new Error('User access token is missing');
-      }
+    const agenda = toAgendaDocument(agendaContent);
+
+    // Prepare template data
+    const templateData: EmailTemplateData = {
+      recipientFirstName: attendee.firstName || 'there',
+      recipientEmail: attendee.email,
+      meetingTitle: meetingData.title || 'Meeting',
+      meetingDate: this.formatDate(meetingData.startTime),
+      meetingTime: this.formatTime(meetingData.startTime),
+      meetingDuration: `${agenda.duration} minutes`,
+      meetingType: meetingData.type || 'online',
+      meetingLocation: meetingData.location,
+      meetingLink: meetingData.meetingLink,
+      organizerName: user.name || 'Meeting Organizer',
+      agendaContent: renderAgendaHtml(agenda)
+    };
 
-      const gmail = this.getGmailClient(user.accessToken);
-      
-      // Prepare template data
-      const templateData: EmailTemplateData = {
-        recipientFirstName: attendee.firstName || 'there',
-        recipientEmail: attendee.email,
-        meetingTitle: meetingData.title || 'Meeting',
-        meetingDate: this.formatDate(meetingData.startTime),
-        meetingTime: this.formatTime(meetingData.startTime),
-        meetingDuration: `${agendaContent.duration} minutes`,
-        meetingType: meetingData.type || 'online',
-        meetingLocation: meetingData.location,
-        meetingLink: meetingData.meetingLink,
-        organizerName: user.name || 'Meeting Organizer',
-        agendaContent: this.formatAgendaForEmail(agendaContent)
-      };
+    // Use enhanced purpose as the main description if available
+    if (agenda.purpose) {
+      templateData.agendaContent = agenda.purpose + '\n\n' + templateData.agendaContent;
+    }
 
-      // Use enhanced purpose as the main description if available
-      if (agendaContent.enhancedPurpose) {
-        templateData.agendaContent = agendaContent.enhancedPurpose + '\n\n' + templateData.agendaContent;
-      }
+    // Attendees outside Google Workspace get the meeting into their calendar from the attached invite
+    const invite: CalendarInvite | undefined = meetingData.calendarInvite;
 
-      // Generate email content
-      const emailContent = this.generateEmailContent(templateData);
-      
-      // Create email message with HTML support
-      const emailMessage = this.createEmailMessage(
-        user.email ?? '',
-        attendee.email,
-        `Meeting Agenda: ${templateData.meetingTitle}`,
-        emailContent,
-        true // Enable HTML
-      );
-
-      // Send email
-      const response = await gmail.users.messages.send({
-        userId: 'me',
-        requestBody: {
-          raw: emailMessage
-        }
-      });
+    return this.deliver(user, {
+      to: attendee.email,
+      subject: `Meeting Agenda: ${templateData.meetingTitle}`,
+      html: this.generateEmailContent(templateData),
+      attachments: invite ? [toCalendarInviteAttachment(invite, 'REQUEST')] : undefined
+    }, 'agenda');
+  }
+
+  /**
+   * Send agenda emails to multiple attendees (batch)
+   */
+  async sendBatchAgendaEmails(
+    user: User,
+    attendees: EmailValidationResult[],
+    meetingData: any,
+    agendaContent: AgendaContent | AgendaDocument
+  ): Promise<BatchEmailResult> {
+    return this.sendBatch(attendees, attendee => this.sendAgendaEmail(user, attendee, meetingData, agendaContent));
+  }
+
+  /**
+   * Send meeting minutes to a single attendee, highlighting their own action items
+   */
+  async sendMinutesEmail(
+    user: User,
+    attendee: EmailValidationResult,
+    meetingData: any,
+    minutes: MeetingMinutes
+  ): Promise<EmailSendResult> {
+    const recipient = {
+      email: attendee.email,
+      name: [attendee.firstName, attendee.lastName].filter(Boolean).join(' ') || undefined
+    };
+
+    return this.deliver(user, {
+      to: attendee.email,
+      subject: `Meeting Minutes: ${minutes.title}`,
+      html: emailTemplateService.generateMinutesEmailTemplate(minutes, meetingData, recipient),
+      text: emailTemplateService.generateMinutesEmailPlainText(minutes, meetingData, recipient)
+    }, 'minutes');
+  }
+
+  /**
+   * Send meeting minutes to multiple attendees (batch)
+   */
+  async sendBatchMinutesEmails(
+    user: User,
+    attendees: EmailValidationResult[],
+    meetingData: any,
+    minutes: MeetingMinutes
+  ): Promise<BatchEmailResult> {
+    return this.sendBatch(attendees, attendee => this.sendMinutesEmail(user, attendee, meetingData, minutes));
+  }
+
+  /**
+   * Send a single prepared email on behalf of the user
+   */
+  async sendEmail(
+    user: User,
+    to: string,
+    subject: string,
+    html: string,
+    plainText?: string
+  ): Promise<EmailSendResult> {
+    return this.deliver(user, { to, subject, html, text: plainText });
+  }
+
+  /**
+   * Send an attendee the signed link to their tasks from a meeting
+   */
+  async sendTaskLinkEmail(
+    user: User,
+    attendee: { email: string; firstName?: string },
+    meetingTitle: string,
+    taskLink: string
+  ): Promise<EmailSendResult> {
+    const recipientName = attendee.firstName || attendee.email;
+
+    return this.deliver(user, {
+      to: attendee.email,
+      subject: `Your tasks from ${meetingTitle}`,
+      html: emailTemplateService.generateTaskLinkEmailTemplate(meetingTitle, recipientName, taskLink),
+      text: emailTemplateService.generateTaskLinkEmailPlainText(meetingTitle, recipientName, taskLink)
+    }, 'task link');
+  }
+
+  /**
+   * Tell an attendee a meeting was cancelled, with a CANCEL invite that removes it from their calendar
+   */
+  async sendMeetingCancellationEmail(user: User, attendeeEmail: string, invite: CalendarInvite): Promise<EmailSendResult> {
+    const organizerName = user.name || user.email;
+    const when = `${this.formatDate(invite.startTime)} at ${this.formatTime(invite.startTime)}`;
+
+    return this.deliver(user, {
+      to: attendeeEmail,
+      subject: `Cancelled: ${invite.title}`,
+      html: emailTemplateService.generateMeetingCancellationTemplate(invite.title, when, organizerName),
+      text: emailTemplateService.generateMeetingCancellationPlainText(invite.title, when, organizerName),
+      attachments: [toCalendarInviteAttachment(invite, 'CANCEL')]
+    }, 'cancellation');
+  }
+
+  /**
+   * Hand a rendered email to the transport, reporting failures in the result instead of throwing
+   */
+  private async deliver(user: User, message: EmailMessage, kind?: string): Promise<EmailSendResult> {
+    try {
+      const { messageId, transport } = await this.transport.send(message, { user });
 
       return {
-        email: attendee.email,
+        email: message.to,
         success: true,
-        messageId: response.data.id || undefined
+        messageId,
+        transport
       };
 
     } catch (error) {
-      console.error(`Error sending agenda email to ${attendee.email}:`, error);
+      console.error(`Error sending ${kind ? `${kind} ` : ''}email to ${message.to}:`, error);
       return {
-        email: attendee.email,
+        email: message.to,
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error'
       };
@@ -132,13 +229,11 @@ export class GmailService {
   }
 
   /**
-   * Send agenda emails to multiple attendees (batch)
+   * Send one email per attendee with a delay between sends to avoid rate limiting
    */
-  async sendBatchAgendaEmails(
-    user: User,
+  private async sendBatch(
     attendees: EmailValidationResult[],
-    meetingData: any,
-    agendaContent: AgendaContent
+    send: (attendee: EmailValidationResult) => Promise<EmailSendResult>
   ): Promise<BatchEmailResult> {
     const results: EmailSendResult[] = [];
     const errors: string[] = [];
@@ -148,7 +243,7 @@ export class GmailService {
     // Send emails with delay to avoid rate limiting
     for (const attendee of attendees) {
       try {
-        const result = await this.sendAgendaEmail(user, attendee, meetingData, agendaContent);
+        const result = await send(attendee);
         results.push(result);
         
         if (result.success) {
@@ -187,20 +282,6 @@ export class GmailService {
     };
   }
 
-  /**
-   * Strip HTML tags for plain text version
-   */
-  private stripHtml(html: string): string {
-    return html.replace(/<[^>]*>/g, '')
-      .replace(/&nbsp;/g, ' ')
-      .replace(/&/g, '&')
-      .replace(/</g, '<')
-      .replace(/>/g, '>')
-      .replace(/"/g, '"')
-      .replace(/'/g, "'")
-      .replace(/\n\s*\n/g, '\n\n'); // Remove extra blank lines
-  }
-
   /**
    * Generate personalized email content with HTML formatting
    */
@@ -332,120 +413,6 @@ export class GmailService {
     return emailHtml;
   }
 
-  /**
-    * Format agenda content for email with HTML and enhanced Tailwind-inspired styling
-    */
-   private formatAgendaForEmail(agendaContent: AgendaContent): string {
-     let formatted = '';
-
-     // Enhanced purpose is already added in sendAgendaEmail method, don't duplicate it here
-
-     // Add agenda topics with improved styling
-     if (agendaContent.topics.length > 0) {
-       formatted += '<div style="margin-bottom: 1.5rem;">';
-       formatted += '<h3 style="margin: 0 0 1rem 0; color: #111827; font-weight: 600; font-size: 1.125rem;">Agenda Topics</h3>';
-       formatted += '<ol style="list-style-position: inside; padding-left: 0; margin: 0;">';
-       agendaContent.topics.forEach((topic, index) => {
-         formatted += `<li style="margin-bottom: 1rem; padding: 0.75rem; background-color: #ffffff; border: 1px solid #e5e7eb; border-radius: 0.375rem; box-shadow: 0 1px 2px 0 rgba(0, 0, 0, 0.05);">
-           <div style="font-weight: 600; font-size: 1.125rem; color: #111827; margin-bottom: 0.5rem;">${topic.title}</div>
-           <div style="display: inline-block; background-color: #e5e7eb; color: #4b5563; padding: 0.25rem 0.5rem; border-radius: 9999px; font-size: 0.75rem; margin-right: 0.5rem;">${topic.duration} min</div>`;
-         if (topic.description) {
-           formatted += `<p style="margin: 0.5rem 0 0 0; color: #4b5563; line-height: 1.5;">${topic.description}</p>`;
-         }
-         if (topic.presenter) {
-           formatted += `<p style="margin: 0.5rem 0 0 0; font-style: italic; color: #6b7280;">Presenter: ${topic.presenter}</p>`;
-         }
-         formatted += '</li>';
-       });
-       formatted += '</ol>';
-       formatted += '</div>';
-     }
-
-    // Add action items with improved styling
-    if (agendaContent.actionItems.length > 0) {
-      formatted += '<div style="background-color: #fffbeb; padding: 1rem; border-left: 4px solid #f59e0b; margin-top: 1.5rem; border-radius: 0.375rem;">';
-      formatted += '<h3 style="margin-top: 0; color: #b45309; font-weight: 600; font-size: 1.125rem; margin-bottom: 1rem;">Action Items to Discuss</h3>';
-      formatted += '<ul style="list-style-type: none; padding-left: 0; margin: 0;">';
-      agendaContent.actionItems.forEach((item) => {
-        const priorityColors = {
-          high: { bg: '#fee2e2', text: '#b91c1c' },
-          medium: { bg: '#fef3c7', text: '#92400e' },
-          low: { bg: '#ecfdf5', text: '#065f46' }
-        };
-        const colors = priorityColors[item.priority as keyof typeof priorityColors] || priorityColors.medium;
-        
-        formatted += `<li style="margin-bottom: 0.75rem; padding: 0.75rem; background-color: #ffffff; border: 1px solid #fcd34d; border-radius: 0.375rem; box-shadow: 0 1px 2px 0 rgba(0, 0, 0, 0.05);">
-          <div style="font-weight: 600; color: #111827; margin-bottom: 0.5rem;">${item.task}</div>
-          <div style="display: flex; flex-wrap: wrap; gap: 0.5rem; font-size: 0.875rem;">`;
-        
-        if (item.assignee) {
-          formatted += `<span style="display: inline-block; background-color: #e5e7eb; color: #4b5563; padding: 0.25rem 0.5rem; border-radius: 0.25rem;">Assigned to: ${item.assignee}</span>`;
-        }
-        if (item.deadline) {
-          formatted += `<span style="display: inline-block; background-color: #e5e7eb; color: #4b5563; padding: 0.25rem 0.5rem; border-radius: 0.25rem;">Due: ${item.deadline}</span>`;
-        }
-        formatted += `<span style="display: inline-block; background-color: ${colors.bg}; color: ${colors.text}; padding: 0.25rem 0.5rem; border-radius: 0.25rem; font-weight: 500;">${item.priority.toUpperCase()}</span>`;
-        formatted += '</div></li>';
-      });
-      formatted += '</ul>';
-      formatted += '</div>';
-    }
-
-    return formatted;
-  }
-
-  /**
-   * Create base64 encoded email message for Gmail API with HTML support
-   */
-  private createEmailMessage(
-    from: string,
-    to: string,
-    subject: string,
-    body: string,
-    isHtml: boolean = true
-  ): string {
-    // Generate a boundary for multipart message
-    const boundary = `boundary_${Date.now().toString(16)}`;
-
-    if (isHtml) {
-      const emailLines = [
-        `From: ${from}`,
-        `To: ${to}`,
-        `Subject: ${subject}`,
-        'MIME-Version: 1.0',
-        `Content-Type: multipart/alternative; boundary=${boundary}`,
-        '',
-        `--${boundary}`,
-        'Content-Type: text/plain; charset=utf-8',
-        '',
-        // Plain text version (strip HTML)
-        this.stripHtml(body),
-        '',
-        `--${boundary}`,
-        'Content-Type: text/html; charset=utf-8',
-        '',
-        // HTML version
-        body,
-        '',
-        `--${boundary}--`
-      ];
-      const email = emailLines.join('\r\n');
-      return Buffer.from(email).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
-    } else {
-      const emailLines = [
-        `From: ${from}`,
-        `To: ${to}`,
-        `Subject: ${subject}`,
-        `Content-Type: text/plain; charset=utf-8`,
-        '',
-        body
-      ];
-
-      const email = emailLines.join('\r\n');
-      return Buffer.from(email).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
-    }
-  }
-
   /**
     * Format date for email display
     */
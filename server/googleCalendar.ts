@@ -1,5 +1,7 @@
 import { google } from 'googleapis';
-import { User } from '../shared/schema';
+import { and, eq } from 'drizzle-orm';
+import { db } from './storage.js';
+import { User, events as storedEvents } from '../shared/schema';
 
 // Scopes required for calendar access
 const SCOPES = ['https://www.googleapis.com/auth/calendar'];
@@ -13,29 +15,113 @@ function getCalendarClient(accessToken: string) {
   return google.calendar({ version: 'v3', auth: oauth2Client });
 }
 
+export const PRIMARY_CALENDAR_ID = 'primary';
+
+export interface GoogleCalendarSummary {
+  id: string; // 'primary' for the user's own calendar
+  summary: string;
+  primary: boolean;
+  accessRole: string; // owner, writer, reader or freeBusyReader
+  backgroundColor?: string;
+  writable: boolean; // events can be created in it
+}
+
 /**
- * Fetch upcoming events from Google Calendar
+ * Calendar an event lives in: the one given, the one the app created the meeting in,
+ * or the primary calendar for events the app does not know about
  */
-export async function fetchUpcomingEvents(user: User, maxResults: number = 10) {
+async function resolveEventCalendarId(user: User, eventId: string, calendarId?: string): Promise<string> {
+  if (calendarId) {
+    return calendarId;
+  }
+
+  try {
+    const [stored] = await db
+      .select({ calendarId: storedEvents.calendarId })
+      .from(storedEvents)
+      .where(and(eq(storedEvents.userId, user.id), eq(storedEvents.googleEventId, eventId)))
+      .limit(1);
+    return stored?.calendarId || PRIMARY_CALENDAR_ID;
+  } catch (error) {
+    console.error('Error looking up the calendar of event, using primary:', error);
+    return PRIMARY_CALENDAR_ID;
+  }
+}
+
+/**
+ * List the calendars in the user's calendar list, primary first.
+ * The primary calendar is reported as 'primary' so it matches the stored defaults.
+ */
+export async function listCalendars(user: User): Promise<GoogleCalendarSummary[]> {
   try {
     if (!user.accessToken) {
       throw new Error('User access token is missing');
     }
 
     const calendar = getCalendarClient(user.accessToken);
-    
-    const res = await calendar.events.list({
-      calendarId: 'primary',
-      timeMin: new Date().toISOString(),
-      maxResults: maxResults,
-      singleEvents: true,
-      orderBy: 'startTime',
-    });
+    const calendars: GoogleCalendarSummary[] = [];
+    let pageToken: string | undefined;
+
+    do {
+      const res = await calendar.calendarList.list({ maxResults: 250, pageToken });
+      for (const entry of res.data.items || []) {
+        if (!entry.id || entry.deleted) {
+          continue;
+        }
+        const accessRole = entry.accessRole || 'reader';
+        calendars.push({
+          id: entry.primary ? PRIMARY_CALENDAR_ID : entry.id,
+          summary: entry.summaryOverride || entry.summary || entry.id,
+          primary: entry.primary === true,
+          accessRole,
+          backgroundColor: entry.backgroundColor || undefined,
+          writable: accessRole === 'owner' || accessRole === 'writer'
+        });
+      }
+      pageToken = res.data.nextPageToken || undefined;
+    } while (pageToken);
+
+    return calendars.sort((a, b) => Number(b.primary) - Number(a.primary) || a.summary.localeCompare(b.summary));
+  } catch (error) {
+    console.error('Error listing calendars:', error);
+    throw new Error('Failed to list calendars');
+  }
+}
+
+/**
+ * Fetch upcoming events from the given Google calendars, merged by start time.
+ * A secondary calendar that cannot be read is skipped; the primary calendar must load.
+ */
+export async function fetchUpcomingEvents(user: User, maxResults: number = 10, calendarIds: string[] = [PRIMARY_CALENDAR_ID]) {
+  try {
+    if (!user.accessToken) {
+      throw new Error('User access token is missing');
+    }
+
+    const calendar = getCalendarClient(user.accessToken);
+    const timeMin = new Date().toISOString();
+
+    const results = await Promise.all(calendarIds.map(async calendarId => {
+      try {
+        const res = await calendar.events.list({
+          calendarId,
+          timeMin,
+          maxResults: maxResults,
+          singleEvents: true,
+          orderBy: 'startTime',
+        });
+        return (res.data.items || []).map(event => ({ event, calendarId }));
+      } catch (error) {
+        if (calendarId === PRIMARY_CALENDAR_ID) {
+          throw error;
+        }
+        console.warn(`Skipping calendar ${calendarId} that could not be read:`, error instanceof Error ? error.message : error);
+        return [];
+      }
+    }));
 
-    const events = res.data.items || [];
-    
     // Transform Google Calendar events to our format
-    return events.map(event => ({
+    const upcoming = results.flat().map(({ event, calendarId }) => ({
       id: event.id || '',
       googleEventId: event.id || '',
       title: event.summary || 'No Title',
@@ -45,9 +131,15 @@ export async function fetchUpcomingEvents(user: User, maxResults: number = 10) {
       endTime: event.end?.dateTime ? new Date(event.end.dateTime) : 
               event.end?.date ? new Date(event.end.date) : new Date(),
       meetingLink: event.hangoutLink || event.location || '',
+      location: event.location || '',
       attendees: event.attendees?.map(attendee => attendee.email || '') || [],
-      status: event.status
+      status: event.status,
+      calendarId
     }));
+
+    return upcoming
+      .sort((a, b) => a.startTime.getTime() - b.startTime.getTime())
+      .slice(0, maxResults);
   } catch (error) {
     console.error('Error fetching calendar events:', error);
     throw new Error('Failed to fetch calendar events');
@@ -57,6 +149,8 @@ export async function fetchUpcomingEvents(user: User, maxResults: number = 10) {
 /**
  * Create a new event in Google Calendar with automatic Google Meet link generation for online meetings
  * Requirements: 5.1, 5.2 - Auto-generate Google Meet links for online meetings with proper validation
+ * The event goes to event.calendarId (e.g. a shared team calendar), or the primary calendar.
+ * event.resources lists resource calendars (meeting rooms) to book for the event.
  */
 export async function createCalendarEvent(user: User, event: any, meetingType?: 'online' | 'physical') {
   try {
@@ -76,16 +170,19 @@ export async function createCalendarEvent(user: User, event: any, meetingType?:
     console.log('Event description length:', event.description?.length || 0);
     console.log('Event description preview:', event.description?.substring(0, 100) + '...' || 'No description');
 
+    // Use the organizer's profile timezone when provided so recurring events expand in their local time
+    const timeZone = event.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+
     const newEvent: any = {
       summary: event.title,
       description: event.description,
       start: {
         dateTime: event.startTime instanceof Date ? event.startTime.toISOString() : event.startTime,
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        timeZone,
       },
       end: {
         dateTime: event.endTime instanceof Date ? event.endTime.toISOString() : event.endTime,
-        timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        timeZone,
       },
       attendees: event.attendees?.map((attendee: any) => {
         if (typeof attendee === 'string') {
@@ -111,6 +208,17 @@ export async function createCalendarEvent(user: User, event: any, meetingType?:
       newEvent.location = event.location;
     }
 
+    // Book rooms and other resources by inviting their resource calendars
+    if (event.resources?.length) {
+      newEvent.attendees.push(...event.resources.map((email: string) => ({ email, resource: true })));
+    }
+
+    // Add recurrence rule for repeating meetings (e.g. RRULE:FREQ=WEEKLY;BYDAY=TU)
+    if (event.recurrenceRule) {
+      newEvent.recurrence = [event.recurrenceRule];
+      console.log(`Creating recurring event with rule: ${event.recurrenceRule}`);
+    }
+
     // Add Google Meet link for online meetings with enhanced configuration
     if (shouldCreateMeetLink) {
       const requestId = `meet-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
@@ -126,8 +234,10 @@ export async function createCalendarEvent(user: User, event: any, meetingType?:
       console.log(`Creating Google Meet link for online meeting: ${event.title}`);
     }
 
+    const calendarId = event.calendarId || PRIMARY_CALENDAR_ID;
+
     const res = await calendar.events.insert({
-      calendarId: 'primary',
+      calendarId,
       requestBody: newEvent,
       // Required to create conference data (Google Meet links)
       conferenceDataVersion: shouldCreateMeetLink ? 1 : 0,
@@ -158,9 +268,11 @@ export async function createCalendarEvent(user: User, event: any, meetingType?:
       meetingLink: meetingLink || null,
       location: createdEvent.location || null,
       attendees: createdEvent.attendees?.map(attendee => attendee.email) || [],
+      recurrence: createdEvent.recurrence || null,
       status: createdEvent.status,
       htmlLink: createdEvent.htmlLink,
-      conferenceData: createdEvent.conferenceData
+      conferenceData: createdEvent.conferenceData,
+      calendarId
     };
 
     // Log successful Google Meet link creation
@@ -189,10 +301,149 @@ export async function createCalendarEvent(user: User, event: any, meetingType?:
   }
 }
 
+/**
+ * Fetch a single event from Google Calendar
+ */
+export async function getCalendarEvent(user: User, eventId: string, calendarId?: string) {
+  try {
+    if (!user.accessToken) {
+      throw new Error('User access token is missing');
+    }
+
+    const calendar = getCalendarClient(user.accessToken);
+    const targetCalendarId = await resolveEventCalendarId(user, eventId, calendarId);
+
+    const res = await calendar.events.get({
+      calendarId: targetCalendarId,
+      eventId,
+    });
+
+    const event = res.data;
+
+    return {
+      id: event.id || '',
+      googleEventId: event.id || '',
+      title: event.summary || 'No Title',
+      description: event.description || '',
+      startTime: event.start?.dateTime ? new Date(event.start.dateTime) :
+                event.start?.date ? new Date(event.start.date) : new Date(),
+      endTime: event.end?.dateTime ? new Date(event.end.dateTime) :
+              event.end?.date ? new Date(event.end.date) : new Date(),
+      meetingLink: event.hangoutLink || event.conferenceData?.entryPoints?.[0]?.uri || '',
+      location: event.location || '',
+      attendees: event.attendees?.map(attendee => attendee.email || '') || [],
+      organizer: event.organizer?.email || '',
+      status: event.status,
+      calendarId: targetCalendarId
+    };
+  } catch (error) {
+    console.error('Error fetching calendar event:', error);
+    throw new Error('Failed to fetch calendar event');
+  }
+}
+
+/**
+ * Whether the user organizes the event. Attendees can read an event too, but only
+ * the organizer owns its transcript and minutes.
+ */
+export function isEventOrganizer(event: { organizer?: string }, user: Pick<User, 'email'>): boolean {
+  return !!event.organizer && event.organizer.toLowerCase() === user.email.toLowerCase();
+}
+
+/**
+ * Patch an existing event in Google Calendar and notify attendees of the change
+ * Only the provided fields are changed; attendees keep their response status
+ */
+export async function updateCalendarEvent(
+  user: User,
+  eventId: string,
+  updates: {
+    title?: string;
+    description?: string;
+    startTime?: Date | string;
+    endTime?: Date | string;
+    location?: string;
+    attendees?: string[];
+    timeZone?: string;
+  },
+  calendarId?: string
+) {
+  try {
+    if (!user.accessToken) {
+      throw new Error('User access token is missing');
+    }
+
+    const calendar = getCalendarClient(user.accessToken);
+    const targetCalendarId = await resolveEventCalendarId(user, eventId, calendarId);
+    const timeZone = updates.timeZone || Intl.DateTimeFormat().resolvedOptions().timeZone;
+    const patch: any = {};
+
+    if (updates.title !== undefined) {
+      patch.summary = updates.title;
+    }
+    if (updates.description !== undefined) {
+      patch.description = updates.description;
+    }
+    if (updates.location !== undefined) {
+      patch.location = updates.location;
+    }
+    if (updates.startTime) {
+      patch.start = {
+        dateTime: updates.startTime instanceof Date ? updates.startTime.toISOString() : updates.startTime,
+        timeZone,
+      };
+    }
+    if (updates.endTime) {
+      patch.end = {
+        dateTime: updates.endTime instanceof Date ? updates.endTime.toISOString() : updates.endTime,
+        timeZone,
+      };
+    }
+
+    if (updates.attendees) {
+      // The attendee list is replaced as a whole, so carry over existing entries to keep their responses
+      const current = await calendar.events.get({ calendarId: targetCalendarId, eventId });
+      const existing = new Map(
+        (current.data.attendees || []).map(attendee => [(attendee.email || '').toLowerCase(), attendee])
+      );
+
+      patch.attendees = updates.attendees.map(email =>
+        existing.get(email.toLowerCase()) || { email, responseStatus: 'needsAction' }
+      );
+    }
+
+    const res = await calendar.events.patch({
+      calendarId: targetCalendarId,
+      eventId,
+      requestBody: patch,
+      sendUpdates: 'all' // Notify attendees about the change
+    });
+
+    const updatedEvent = res.data;
+
+    return {
+      id: updatedEvent.id,
+      googleEventId: updatedEvent.id,
+      title: updatedEvent.summary,
+      description: updatedEvent.description,
+      startTime: updatedEvent.start?.dateTime,
+      endTime: updatedEvent.end?.dateTime,
+      meetingLink: updatedEvent.hangoutLink || updatedEvent.conferenceData?.entryPoints?.[0]?.uri || null,
+      location: updatedEvent.location || null,
+      attendees: updatedEvent.attendees?.map(attendee => attendee.email) || [],
+      status: updatedEvent.status,
+      htmlLink: updatedEvent.htmlLink
+    };
+  } catch (error) {
+    console.error('Error updating calendar event:', error);
+    throw new Error(`Failed to update calendar event: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
 /**
  * Delete an event from Google Calendar
  */
-export async function deleteCalendarEvent(user: User, eventId: string) {
+export async function deleteCalendarEvent(user: User, eventId: string, calendarId?: string) {
   try {
     if (!user.accessToken) {
       throw new Error('User access token is missing');
@@ -201,7 +452,7 @@ export async function deleteCalendarEvent(user: User, eventId: string) {
     const calendar = getCalendarClient(user.accessToken);
     
     await calendar.events.delete({
-      calendarId: 'primary',
+      calendarId: await resolveEventCalendarId(user, eventId, calendarId),
       eventId: eventId,
     });
 
@@ -0,0 +1,489 @@
+import { google } from 'googleapis';
+import { db } from './storage.js';
+import { tasks, events, users, userProfiles } from '../shared/schema.js';
+import { and, eq, inArray, isNotNull, isNull, sql } from 'drizzle-orm';
+import { authenticationErrorHandler, type AuthenticationErrorHandler } from './errorHandlers/authenticationErrorHandler.js';
+
+export type LocalTaskStatus = 'pending' | 'in_progress' | 'completed';
+export type GoogleTaskStatus = 'needsAction' | 'completed';
+
+export interface GoogleTaskList {
+    id: string;
+    title: string;
+}
+
+export interface GoogleTaskItem {
+    id: string;
+    title: string;
+    notes?: string;
+    due?: string; // RFC 3339; Google Tasks only keeps the date
+    status: GoogleTaskStatus;
+    updated?: string;
+}
+
+export type GoogleTaskInput = Omit<GoogleTaskItem, 'id' | 'updated'>;
+
+/**
+ * The subset of the Google Tasks API used for syncing.
+ * Tests pass an in-memory implementation instead of the googleapis client.
+ */
+export interface GoogleTasksClient {
+    listTaskLists(): Promise<GoogleTaskList[]>;
+    insertTaskList(title: string): Promise<GoogleTaskList>;
+    insertTask(taskListId: string, task: GoogleTaskInput): Promise<GoogleTaskItem>;
+    patchTask(taskListId: string, taskId: string, changes: Partial<GoogleTaskInput>): Promise<GoogleTaskItem>;
+    listTasks(taskListId: string, updatedMin?: Date): Promise<GoogleTaskItem[]>;
+}
+
+export type GoogleTasksClientFactory = (accessToken: string) => GoogleTasksClient;
+
+/**
+ * A task as seen by the sync, joined with its meeting
+ */
+export interface SyncableTask {
+    id: string;
+    title: string;
+    description: string | null;
+    deadline: Date | null;
+    status: string;
+    assigneeEmail: string | null;
+    userId: string | null;
+    eventId: string | null;
+    eventTitle: string | null;
+    googleTaskId: string | null;
+    googleTaskListId: string | null;
+    googleTaskUserId: string | null;
+}
+
+/**
+ * A user who opted in to Google Tasks sync
+ */
+export interface SyncUser {
+    id: string;
+    email: string;
+    googleId: string;
+    accessToken: string | null;
+    refreshToken: string | null;
+}
+
+export interface GoogleTaskLink {
+    googleTaskId: string;
+    googleTaskListId: string;
+    googleTaskUserId: string;
+}
+
+/**
+ * Persistence used by the sync, so the sync logic can be tested without a database
+ */
+export interface TaskSyncStore {
+    getSyncUser(userId: string): Promise<SyncUser | undefined>;
+    getSyncUserByEmail(email: string): Promise<SyncUser | undefined>;
+    getSyncUsersWithLinkedTasks(): Promise<SyncUser[]>;
+    getTasks(taskIds: string[]): Promise<SyncableTask[]>;
+    getUnlinkedTasks(userId: string): Promise<SyncableTask[]>;
+    getLinkedTasks(googleTaskUserId: string): Promise<SyncableTask[]>;
+    saveLink(taskId: string, link: GoogleTaskLink): Promise<void>;
+    updateStatus(taskId: string, status: LocalTaskStatus): Promise<void>;
+}
+
+export interface GoogleTasksPullResult {
+    checked: number;
+    updated: number;
+}
+
+const DEFAULT_TASK_LIST_TITLE = 'Meeting Tasks';
+
+/**
+ * Creates a Google Tasks client backed by googleapis
+ */
+export function createGoogleTasksClient(accessToken: string): GoogleTasksClient {
+    const oauth2Client = new google.auth.OAuth2();
+    oauth2Client.setCredentials({ access_token: accessToken });
+    const api = google.tasks({ version: 'v1', auth: oauth2Client });
+
+    const toItem = (item: any): GoogleTaskItem => ({
+        id: item.id || '',
+        title: item.title || '',
+        notes: item.notes || undefined,
+        due: item.due || undefined,
+        status: item.status === 'completed' ? 'completed' : 'needsAction',
+        updated: item.updated || undefined
+    });
+
+    return {
+        async listTaskLists() {
+            const res = await api.tasklists.list({ maxResults: 100 });
+            return (res.data.items || []).map(list => ({ id: list.id || '', title: list.title || '' }));
+        },
+        async insertTaskList(title) {
+            const res = await api.tasklists.insert({ requestBody: { title } });
+            return { id: res.data.id || '', title: res.data.title || title };
+        },
+        async insertTask(taskListId, task) {
+            const res = await api.tasks.insert({ tasklist: taskListId, requestBody: task });
+            return toItem(res.data);
+        },
+        async patchTask(taskListId, taskId, changes) {
+            const res = await api.tasks.patch({ tasklist: taskListId, task: taskId, requestBody: changes });
+            return toItem(res.data);
+        },
+        async listTasks(taskListId, updatedMin) {
+            const items: GoogleTaskItem[] = [];
+            let pageToken: string | undefined;
+            do {
+                const res = await api.tasks.list({
+                    tasklist: taskListId,
+                    showCompleted: true,
+                    showHidden: true,
+                    maxResults: 100,
+                    updatedMin: updatedMin?.toISOString(),
+                    pageToken
+                });
+                items.push(...(res.data.items || []).map(toItem));
+                pageToken = res.data.nextPageToken || undefined;
+            } while (pageToken);
+            return items;
+        }
+    };
+}
+
+/**
+ * Google Tasks list name for a meeting's tasks
+ */
+export function getTaskListTitle(task: Pick<SyncableTask, 'eventTitle'>): string {
+    return task.eventTitle?.trim() || DEFAULT_TASK_LIST_TITLE;
+}
+
+/**
+ * Link back to the task on the dashboard task board
+ */
+export function getTaskBacklink(taskId: string, baseUrl: string = process.env.FRONTEND_URL || 'http://localhost:3000'): string {
+    return `${baseUrl.replace(/\/$/, '')}/?tab=tasks&task=${encodeURIComponent(taskId)}`;
+}
+
+export function toGoogleStatus(status: string): GoogleTaskStatus {
+    return status === 'completed' ? 'completed' : 'needsAction';
+}
+
+/**
+ * Maps a Google Tasks status onto the board. Google has no "in progress", so an
+ * open Google task leaves an in-progress card where it is.
+ */
+export function toLocalStatus(googleStatus: GoogleTaskStatus, current: string): LocalTaskStatus {
+    if (googleStatus === 'completed') {
+        return 'completed';
+    }
+    return current === 'completed' ? 'pending' : current as LocalTaskStatus;
+}
+
+/**
+ * Builds the Google task for a board task, with the meeting and a backlink in the notes
+ */
+export function toGoogleTask(task: SyncableTask, backlink: string = getTaskBacklink(task.id)): GoogleTaskInput {
+    const notes = [
+        task.description,
+        task.eventTitle ? `From meeting: ${task.eventTitle}` : undefined,
+        backlink
+    ].filter(Boolean).join('\n\n');
+
+    // Google Tasks ignores the time of day, so send the deadline's date at midnight UTC
+    const due = task.deadline ?
+        `${new Date(task.deadline).toISOString().slice(0, 10)}T00:00:00.000Z` :
+        undefined;
+
+    return {
+        title: task.title,
+        notes,
+        due,
+        status: toGoogleStatus(task.status)
+    };
+}
+
+const syncUserColumns = {
+    id: users.id,
+    email: users.email,
+    googleId: users.googleId,
+    accessToken: users.accessToken,
+    refreshToken: users.refreshToken
+};
+
+/**
+ * Store backed by the tasks, users and user_profiles tables
+ */
+export const databaseTaskSyncStore: TaskSyncStore = {
+    async getSyncUser(userId) {
+        const [row] = await db
+            .select(syncUserColumns)
+            .from(users)
+            .innerJoin(userProfiles, eq(userProfiles.userId, users.id))
+            .where(and(eq(users.id, userId), eq(userProfiles.googleTasksSyncEnabled, true)))
+            .limit(1);
+        return row;
+    },
+
+    async getSyncUserByEmail(email) {
+        const [row] = await db
+            .select(syncUserColumns)
+            .from(users)
+            .innerJoin(userProfiles, eq(userProfiles.userId, users.id))
+            .where(and(sql`lower(${users.email}) = ${email.toLowerCase()}`, eq(userProfiles.googleTasksSyncEnabled, true)))
+            .limit(1);
+        return row;
+    },
+
+    async getSyncUsersWithLinkedTasks() {
+        return db
+            .selectDistinct(syncUserColumns)
+            .from(tasks)
+            .innerJoin(users, eq(tasks.googleTaskUserId, users.id))
+            .innerJoin(userProfiles, eq(userProfiles.userId, users.id))
+            .where(eq(userProfiles.googleTasksSyncEnabled, true));
+    },
+
+    async getTasks(taskIds) {
+        if (taskIds.length === 0) {
+            return [];
+        }
+        return selectSyncableTasks().where(inArray(tasks.id, taskIds));
+    },
+
+    async getUnlinkedTasks(userId) {
+        return selectSyncableTasks().where(and(eq(tasks.userId, userId), isNull(tasks.googleTaskId)));
+    },
+
+    async getLinkedTasks(googleTaskUserId) {
+        return selectSyncableTasks().where(and(eq(tasks.googleTaskUserId, googleTaskUserId), isNotNull(tasks.googleTaskId)));
+    },
+
+    async saveLink(taskId, link) {
+        await db.update(tasks).set(link).where(eq(tasks.id, taskId));
+    },
+
+    async updateStatus(taskId, status) {
+        await db.update(tasks).set({ status, updatedAt: new Date() }).where(eq(tasks.id, taskId));
+    }
+};
+
+function selectSyncableTasks() {
+    return db
+        .select({
+            id: tasks.id,
+            title: tasks.title,
+            description: tasks.description,
+            deadline: tasks.deadline,
+            status: tasks.status,
+            assigneeEmail: tasks.assigneeEmail,
+            userId: tasks.userId,
+            eventId: tasks.eventId,
+            eventTitle: events.title,
+            googleTaskId: tasks.googleTaskId,
+            googleTaskListId: tasks.googleTaskListId,
+            googleTaskUserId: tasks.googleTaskUserId
+        })
+        .from(tasks)
+        .leftJoin(events, eq(tasks.eventId, events.id));
+}
+
+/**
+ * GoogleTasksSyncService pushes board tasks to Google Tasks for users who opted in and
+ * pulls completion back, so finishing a task in Google Tasks completes its card.
+ * Tasks go to the assignee's Google Tasks when the assignee uses the app and opted in,
+ * otherwise to the organizer's.
+ */
+export class GoogleTasksSyncService {
+    private pollInterval?: NodeJS.Timeout;
+    private lastPulledAt: Map<string, Date> = new Map();
+
+    constructor(
+        private readonly clientFactory: GoogleTasksClientFactory = createGoogleTasksClient,
+        private readonly store: TaskSyncStore = databaseTaskSyncStore,
+        private readonly auth: Pick<AuthenticationErrorHandler, 'executeWithAuthRecovery'> = authenticationErrorHandler
+    ) {}
+
+    /**
+     * Chooses whose Google Tasks a task goes to, or undefined when nobody opted in
+     */
+    async resolveSyncUser(task: SyncableTask, organizerId: string): Promise<SyncUser | undefined> {
+        if (task.assigneeEmail) {
+            const assignee = await this.store.getSyncUserByEmail(task.assigneeEmail);
+            if (assignee?.accessToken) {
+                return assignee;
+            }
+        }
+
+        const organizer = await this.store.getSyncUser(organizerId);
+        return organizer?.accessToken ? organizer : undefined;
+    }
+
+    /**
+     * Pushes tasks that are not yet in Google Tasks; returns how many were pushed
+     */
+    async pushTasks(taskIds: string[], organizerId: string): Promise<number> {
+        const pending = (await this.store.getTasks(taskIds)).filter(task => !task.googleTaskId);
+        const listCache = new Map<string, string>();
+        let pushed = 0;
+
+        for (const task of pending) {
+            const syncUser = await this.resolveSyncUser(task, organizerId);
+            if (!syncUser) {
+                continue;
+            }
+
+            try {
+                const listTitle = getTaskListTitle(task);
+                const cacheKey = `${syncUser.id}:${listTitle}`;
+
+                const { created, taskListId } = await this.withClient(syncUser, 'pushing Google Tasks', async client => {
+                    let taskListId = listCache.get(cacheKey);
+                    if (!taskListId) {
+                        taskListId = await this.findOrCreateTaskList(client, listTitle);
+                        listCache.set(cacheKey, taskListId);
+                    }
+                    return { created: await client.insertTask(taskListId, toGoogleTask(task)), taskListId };
+                });
+                await this.store.saveLink(task.id, {
+                    googleTaskId: created.id,
+                    googleTaskListId: taskListId,
+                    googleTaskUserId: syncUser.id
+                });
+                pushed++;
+            } catch (error) {
+                console.error(`Failed to push task ${task.id} to Google Tasks:`, error);
+            }
+        }
+
+        if (pushed > 0) {
+            console.log(`✅ Pushed ${pushed} tasks to Google Tasks`);
+        }
+        return pushed;
+    }
+
+    /**
+     * Pushes all of a user's tasks that are not yet in Google Tasks, e.g. right after opting in
+     */
+    async pushUnlinkedTasks(userId: string): Promise<number> {
+        const unlinked = await this.store.getUnlinkedTasks(userId);
+        return this.pushTasks(unlinked.map(task => task.id), userId);
+    }
+
+    /**
+     * Sends a board status change to the linked Google task
+     */
+    async pushStatus(taskId: string, status: LocalTaskStatus): Promise<void> {
+        const [task] = await this.store.getTasks([taskId]);
+        if (!task?.googleTaskId || !task.googleTaskListId || !task.googleTaskUserId) {
+            return;
+        }
+
+        const syncUser = await this.store.getSyncUser(task.googleTaskUserId);
+        if (!syncUser?.accessToken) {
+            return;
+        }
+
+        await this.withClient(syncUser, 'pushing a Google Tasks status', client =>
+            client.patchTask(task.googleTaskListId!, task.googleTaskId!, { status: toGoogleStatus(status) }));
+    }
+
+    /**
+     * Pulls status changes from one user's Google Tasks onto the board
+     */
+    async pullUser(syncUser: SyncUser): Promise<GoogleTasksPullResult> {
+        const linked = await this.store.getLinkedTasks(syncUser.id);
+        if (linked.length === 0 || !syncUser.accessToken) {
+            return { checked: 0, updated: 0 };
+        }
+
+        const since = this.lastPulledAt.get(syncUser.id);
+        const pulledAt = new Date();
+        const listIds = Array.from(new Set(linked.map(task => task.googleTaskListId!)));
+        let updated = 0;
+
+        for (const listId of listIds) {
+            const remoteTasks = await this.withClient(syncUser, 'pulling Google Tasks', client => client.listTasks(listId, since));
+            const remoteById = new Map(remoteTasks.map(item => [item.id, item]));
+
+            for (const task of linked.filter(task => task.googleTaskListId === listId)) {
+                const remote = remoteById.get(task.googleTaskId!);
+                if (!remote) {
+                    continue;
+                }
+
+                const status = toLocalStatus(remote.status, task.status);
+                if (status !== task.status) {
+                    await this.store.updateStatus(task.id, status);
+                    updated++;
+                }
+            }
+        }
+
+        this.lastPulledAt.set(syncUser.id, pulledAt);
+        return { checked: linked.length, updated };
+    }
+
+    /**
+     * Pulls status changes for every user with synced tasks
+     */
+    async pullAll(): Promise<GoogleTasksPullResult> {
+        const totals = { checked: 0, updated: 0 };
+
+        for (const syncUser of await this.store.getSyncUsersWithLinkedTasks()) {
+            try {
+                const result = await this.pullUser(syncUser);
+                totals.checked += result.checked;
+                totals.updated += result.updated;
+            } catch (error) {
+                console.error(`Failed to pull Google Tasks for user ${syncUser.id}:`, error);
+            }
+        }
+
+        return totals;
+    }
+
+    /**
+     * Start pulling Google Tasks changes in the background
+     */
+    startPolling(intervalMs: number = 5 * 60 * 1000): void {
+        this.stopPolling();
+
+        this.pollInterval = setInterval(() => {
+            this.pullAll().catch(error => {
+                console.error('Error pulling Google Tasks changes:', error);
+            });
+        }, intervalMs);
+
+        console.log('Google Tasks sync polling started');
+    }
+
+    /**
+     * Stop background polling
+     */
+    stopPolling(): void {
+        if (this.pollInterval) {
+            clearInterval(this.pollInterval);
+            this.pollInterval = undefined;
+        }
+    }
+
+    /**
+     * Runs Google Tasks calls as the user. Background sync can't count on the user having
+     * signed in within the hour their access token lasts, so a rejected token is refreshed
+     * (and saved) through the auth error handler and the calls are retried.
+     */
+    private withClient<T>(syncUser: SyncUser, operationName: string, operation: (client: GoogleTasksClient) => Promise<T>): Promise<T> {
+        return this.auth.executeWithAuthRecovery(async user => {
+            // Later calls for this user start from the refreshed token
+            syncUser.accessToken = user.accessToken;
+            return operation(this.clientFactory(user.accessToken!));
+        }, syncUser, operationName);
+    }
+
+    private async findOrCreateTaskList(client: GoogleTasksClient, title: string): Promise<string> {
+        const existing = (await client.listTaskLists()).find(list => list.title === title);
+        if (existing) {
+            return existing.id;
+        }
+        return (await client.insertTaskList(title)).id;
+    }
+}
+
+export const googleTasksSyncService = new GoogleTasksSyncService();
@@ -0,0 +1,299 @@
+/**
+ * Parsing for iCalendar (RFC 5545) data from external calendar feeds.
+ *
+ * Reads the VEVENTs of a VCALENDAR document and expands recurring events
+ * into concrete occurrences within a time window, honouring EXDATE
+ * exclusions and RECURRENCE-ID overrides, so they can be counted as busy time.
+ */
+
+import type { CalendarEvent } from './calendarAvailabilityService.js';
+import { parseRRule, expandOccurrences } from './recurrenceService.js';
+import { isValidTimeZone, zonedTimeToDate } from './utils/workingHours.js';
+
+export interface IcsEvent {
+  uid: string;
+  title: string;
+  startTime: Date;
+  endTime: Date;
+  allDay: boolean;
+  timeZone: string; // zone DTSTART is written in; recurrences repeat its wall-clock time
+  status: string; // 'confirmed', 'tentative' or 'cancelled'
+  transparency?: string; // 'transparent' events do not block time
+  location?: string;
+  rrule?: string;
+  exdates: Date[];
+  recurrenceId?: Date; // set on an override of one occurrence of a recurring event
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Upper bound on occurrences of one recurring event inside the window; enough for
+ * a daily meeting across the whole period availability is ever checked for
+ */
+const MAX_FEED_OCCURRENCES = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 20260302, 20260302T150000 or 20260302T150000Z
+const ICS_DATE = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+// P1D, PT1H30M, -PT15M, P1W
+const ICS_DURATION = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/;
+
+/**
+ * Splits a content line into name, parameters and value. Colons and semicolons
+ * inside quoted parameter values do not end the name part.
+ */
+function parseProperty(line: string): IcsProperty | null {
+  let inQuotes = false;
+  let separator = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      inQuotes = !inQuotes;
+    } else if (line[i] === ':' && !inQuotes) {
+      separator = i;
+      break;
+    }
+  }
+  if (separator === -1) {
+    return null;
+  }
+
+  const [name, ...rawParams] = line.slice(0, separator).match(/(?:[^;"]|"[^"]*")+/g) || [];
+  if (!name) {
+    return null;
+  }
+
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const equals = param.indexOf('=');
+    if (equals > 0) {
+      params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, '');
+    }
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(separator + 1) };
+}
+
+function unescapeIcsText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+/**
+ * Resolves a DATE or DATE-TIME value. Floating times and all-day dates are read in the
+ * property's TZID, falling back to the calendar's default timezone.
+ */
+function parseIcsDate(
+  value: string,
+  params: Record<string, string>,
+  defaultTimeZone: string
+): { date: Date; allDay: boolean; timeZone: string } | null {
+  const match = value.trim().match(ICS_DATE);
+  if (!match) {
+    return null;
+  }
+
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const allDay = params.VALUE === 'DATE' || hour === undefined;
+
+  if (utc) {
+    return { date: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)), allDay: false, timeZone: 'UTC' };
+  }
+
+  const timeZone = params.TZID && isValidTimeZone(params.TZID) ? params.TZID : defaultTimeZone;
+  const date = zonedTimeToDate(+year, +month, +day, allDay ? 0 : +hour, allDay ? 0 : +minute, timeZone);
+  return { date: new Date(date.getTime() + (allDay ? 0 : +second * 1000)), allDay, timeZone };
+}
+
+function parseIcsDuration(value: string): number | null {
+  const match = value.trim().match(ICS_DURATION);
+  if (!match) {
+    return null;
+  }
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = (((+(weeks || 0) * 7 + +(days || 0)) * 24 + +(hours || 0)) * 60 + +(minutes || 0)) * 60 * 1000 + +(seconds || 0) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Reads every VEVENT in an iCalendar document. Events without a usable start are skipped.
+ */
+export function parseIcsCalendar(content: string): IcsEvent[] {
+  // Unfold continuation lines (CRLF followed by a space or tab)
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  const calendarTimeZone = lines
+    .map(line => line.match(/^X-WR-TIMEZONE(?:;[^:]*)?:(.+)$/i)?.[1]?.trim())
+    .find(timeZone => timeZone && isValidTimeZone(timeZone));
+  const defaultTimeZone = calendarTimeZone || 'UTC';
+
+  const events: IcsEvent[] = [];
+  let current: IcsProperty[] | null = null;
+  let nestedDepth = 0; // VALARM and other components inside a VEVENT
+
+  for (const line of lines) {
+    const property = parseProperty(line);
+    if (!property) {
+      continue;
+    }
+
+    if (property.name === 'BEGIN') {
+      if (current) {
+        nestedDepth++;
+      } else if (property.value.toUpperCase() === 'VEVENT') {
+        current = [];
+      }
+      continue;
+    }
+
+    if (property.name === 'END' && current) {
+      if (nestedDepth > 0) {
+        nestedDepth--;
+      } else {
+        const event = toIcsEvent(current, defaultTimeZone);
+        if (event) {
+          events.push(event);
+        }
+        current = null;
+      }
+      continue;
+    }
+
+    if (current && nestedDepth === 0) {
+      current.push(property);
+    }
+  }
+
+  return events;
+}
+
+function toIcsEvent(properties: IcsProperty[], defaultTimeZone: string): IcsEvent | null {
+  const find = (name: string) => properties.find(property => property.name === name);
+
+  const dtstart = find('DTSTART');
+  const start = dtstart && parseIcsDate(dtstart.value, dtstart.params, defaultTimeZone);
+  if (!start) {
+    return null;
+  }
+
+  let endTime: Date;
+  const dtend = find('DTEND');
+  const end = dtend && parseIcsDate(dtend.value, dtend.params, defaultTimeZone);
+  const duration = find('DURATION');
+  const durationMs = duration ? parseIcsDuration(duration.value) : null;
+  if (end) {
+    endTime = end.date;
+  } else if (durationMs !== null) {
+    endTime = new Date(start.date.getTime() + durationMs);
+  } else {
+    // RFC 5545: without DTEND an all-day event lasts one day and a timed event has no length
+    endTime = new Date(start.date.getTime() + (start.allDay ? DAY_MS : 0));
+  }
+
+  const exdates = properties
+    .filter(property => property.name === 'EXDATE')
+    .flatMap(property => property.value.split(',').map(value => parseIcsDate(value, property.params, defaultTimeZone)))
+    .filter((value): value is NonNullable<ReturnType<typeof parseIcsDate>> => value !== null)
+    .map(value => value.date);
+
+  const recurrenceIdProperty = find('RECURRENCE-ID');
+  const recurrenceId = recurrenceIdProperty && parseIcsDate(recurrenceIdProperty.value, recurrenceIdProperty.params, defaultTimeZone);
+
+  const summary = find('SUMMARY');
+  const location = find('LOCATION');
+
+  return {
+    uid: find('UID')?.value.trim() || `${start.date.toISOString()}-${summary?.value || 'event'}`,
+    title: summary ? unescapeIcsText(summary.value) : 'Busy',
+    startTime: start.date,
+    endTime,
+    allDay: start.allDay,
+    timeZone: start.timeZone,
+    status: (find('STATUS')?.value || 'confirmed').toLowerCase(),
+    transparency: find('TRANSP')?.value.toLowerCase(),
+    location: location ? unescapeIcsText(location.value) : undefined,
+    rrule: find('RRULE')?.value,
+    exdates,
+    recurrenceId: recurrenceId ? recurrenceId.date : undefined
+  };
+}
+
+function toCalendarEvent(event: IcsEvent, startTime: Date, endTime: Date): CalendarEvent {
+  return {
+    id: `${event.uid}:${startTime.toISOString()}`,
+    title: event.title,
+    startTime,
+    endTime,
+    status: event.status,
+    transparency: event.transparency,
+    location: event.location
+  };
+}
+
+/**
+ * Expands parsed events into the occurrences that overlap the window. Occurrences listed
+ * in EXDATE are dropped and occurrences with a RECURRENCE-ID override are replaced by it.
+ */
+export function expandIcsEvents(icsEvents: IcsEvent[], windowStart: Date, windowEnd: Date): CalendarEvent[] {
+  const overlaps = (startTime: Date, endTime: Date) => startTime < windowEnd && endTime > windowStart;
+
+  const overriddenStarts = new Map<string, Set<number>>();
+  for (const event of icsEvents) {
+    if (event.recurrenceId) {
+      const starts = overriddenStarts.get(event.uid) || new Set<number>();
+      starts.add(event.recurrenceId.getTime());
+      overriddenStarts.set(event.uid, starts);
+    }
+  }
+
+  const results: CalendarEvent[] = [];
+
+  for (const event of icsEvents) {
+    // Overrides stand on their own; a cancelled override only removes its occurrence
+    if (event.recurrenceId || !event.rrule) {
+      if (overlaps(event.startTime, event.endTime)) {
+        results.push(toCalendarEvent(event, event.startTime, event.endTime));
+      }
+      continue;
+    }
+
+    if (event.startTime >= windowEnd) {
+      continue;
+    }
+
+    let occurrences: Array<{ startTime: Date; endTime: Date }>;
+    try {
+      occurrences = expandOccurrences(
+        parseRRule(event.rrule),
+        event.startTime,
+        event.endTime,
+        MAX_FEED_OCCURRENCES,
+        event.timeZone,
+        { start: windowStart, end: windowEnd }
+      );
+    } catch (error) {
+      // Rules outside the supported subset (e.g. YEARLY or BYSETPOS) still block their first occurrence
+      console.warn(`Unsupported recurrence in calendar feed event ${event.uid}:`, error instanceof Error ? error.message : error);
+      occurrences = [{ startTime: event.startTime, endTime: event.endTime }];
+    }
+
+    const excluded = new Set([
+      ...event.exdates.map(date => date.getTime()),
+      ...(overriddenStarts.get(event.uid) || [])
+    ]);
+
+    for (const occurrence of occurrences) {
+      if (!excluded.has(occurrence.startTime.getTime()) && overlaps(occurrence.startTime, occurrence.endTime)) {
+        results.push(toCalendarEvent(event, occurrence.startTime, occurrence.endTime));
+      }
+    }
+  }
+
+  return results.sort((a, b) => a.startTime.getTime() - b.startTime.getTime());
+}
@@ -3,6 +3,13 @@ import session from "express-session";
 import flash from "connect-flash";
 import passport from "passport";
 import { registerRoutes } from "./routes";
+import { googleTasksSyncService } from "./googleTasksService.js";
+import { calendarAgendaSyncService } from "./calendarAgendaSyncService.js";
+import { calendarFeedService } from "./calendarFeedService.js";
+import { jobScheduler } from "./jobScheduler.js";
+import { emailWorkflowOrchestrator } from "./emailWorkflowOrchestrator.js";
+import { registerScheduledNotifications } from "./scheduledNotifications.js";
+import { attachCollaborativeAgendaSocket } from "./collaborativeAgendaSocket.js";
 import { setupVite, serveStatic, log } from "./vite";
 import "./auth"; // Initialize passport strategies
 // Session type definitions are loaded via tsconfig
@@ -19,6 +26,9 @@ if (!validateEnvironmentOnStartup()) {
 }
 
 const app = express();
+// Uploaded meeting transcripts and .ics files can be far larger than the default JSON body limit
+app.use('/api/transcript/upload', express.json({ limit: '5mb' }));
+app.use('/api/calendar/feeds', express.json({ limit: '5mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -27,7 +37,8 @@ if (!process.env.SESSION_SECRET) {
   throw new Error('SESSION_SECRET environment variable is required');
 }
 
-app.use(session({
+// Kept in a variable so the collaborative agenda socket can authenticate upgrades with it
+const sessionMiddleware = session({
   secret: process.env.SESSION_SECRET,
   resave: false,
   saveUninitialized: false,
@@ -37,7 +48,8 @@ app.use(session({
     secure: process.env.NODE_ENV === 'production',
     maxAge: 30 * 24 * 60 * 60 * 1000 // 30 days default (will be adjusted per request)
   }
-}));
+});
+app.use(sessionMiddleware);
 
 if (process.env.NODE_ENV === 'production') {
   app.set('trust proxy', 1);
@@ -81,6 +93,9 @@ app.use((req, res, next) => {
 (async () => {
   const server = await registerRoutes(app);
 
+  // Real-time collaborative agenda editing shares the HTTP server and session cookie
+  attachCollaborativeAgendaSocket(server, sessionMiddleware);
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -106,4 +121,20 @@ app.use((req, res, next) => {
   server.listen(port, 'localhost', () => {
     log(`serving on port ${port}`);
   });
+
+  // Pull completion status from Google Tasks for users who opted in to sync
+  googleTasksSyncService.startPolling();
+
+  // Pick up meetings edited directly in Google Calendar
+  calendarAgendaSyncService.startPolling();
+
+  // Refresh subscribed ICS feeds so availability checks see external calendars
+  calendarFeedService.startPolling();
+
+  // Agenda reminders, daily task digests and overdue task nudges
+  registerScheduledNotifications();
+  jobScheduler.start();
+
+  // Send queued agenda and minutes emails, including ones interrupted by a restart
+  emailWorkflowOrchestrator.start();
 })();
\ No newline at end of file
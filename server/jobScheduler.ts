@@ -0,0 +1,277 @@
+import { db } from './storage.js';
+import { scheduledJobs } from '../shared/schema.js';
+import type { ScheduledJob, ScheduledJobQuery, ScheduledJobType } from '../shared/schema.js';
+import { and, asc, desc, eq, inArray, isNull, lt, lte, sql, type SQL } from 'drizzle-orm';
+
+/**
+ * A job to schedule; the dedupe key makes scheduling idempotent across planner runs and restarts
+ */
+export interface NewScheduledJob {
+    userId: string;
+    type: ScheduledJobType;
+    dedupeKey: string;
+    runAt: Date;
+    payload?: Record<string, any>;
+    maxAttempts?: number;
+}
+
+/**
+ * Runs one job. Throwing marks the attempt as failed so it is retried with backoff.
+ */
+export type ScheduledJobHandler = (job: ScheduledJob) => Promise<void>;
+
+/**
+ * Creates jobs that should exist but don't yet, e.g. tomorrow's digest
+ */
+export type ScheduledJobPlanner = (now: Date) => Promise<void>;
+
+/**
+ * Persistence used by the scheduler. Tests pass an in-memory implementation.
+ */
+export interface ScheduledJobStore {
+    insert(job: NewScheduledJob): Promise<ScheduledJob | undefined>; // undefined when the dedupe key exists
+    claimDue(now: Date, limit: number): Promise<ScheduledJob[]>; // marks jobs running and counts the attempt
+    releaseStale(lockedBefore: Date): Promise<number>;
+    // Finishing a claimed job only changes it while it still runs under that claim, so a job
+    // cancelled or released and claimed again in the meantime keeps its newer state
+    complete(job: ScheduledJob, now: Date): Promise<void>;
+    retry(job: ScheduledJob, runAt: Date, error: string): Promise<void>;
+    fail(job: ScheduledJob, error: string): Promise<void>;
+    cancel(userId: string, jobId: string): Promise<ScheduledJob | undefined>;
+    list(userId: string, query: Partial<ScheduledJobQuery>): Promise<ScheduledJob[]>;
+}
+
+export interface SchedulerRunResult {
+    claimed: number;
+    completed: number;
+    retried: number;
+    failed: number;
+}
+
+// Jobs stuck in "running" longer than this were interrupted (e.g. by a restart) and are picked up again
+const STALE_LOCK_MS = 10 * 60 * 1000;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+
+/**
+ * Delay before the next attempt: 1, 2, 4... minutes
+ */
+export function getRetryDelay(attempts: number): number {
+    return RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1));
+}
+
+/**
+ * Matches a claimed job only while it is still running under the claim it was given
+ */
+function heldLease(job: ScheduledJob): SQL {
+    return and(
+        eq(scheduledJobs.id, job.id),
+        eq(scheduledJobs.status, 'running'),
+        job.lockedAt ? eq(scheduledJobs.lockedAt, job.lockedAt) : isNull(scheduledJobs.lockedAt)
+    )!;
+}
+
+export const databaseJobStore: ScheduledJobStore = {
+    async insert(job) {
+        const [created] = await db.insert(scheduledJobs)
+            .values({ ...job, payload: job.payload ?? {} })
+            .onConflictDoNothing({ target: scheduledJobs.dedupeKey })
+            .returning();
+        return created;
+    },
+
+    async claimDue(now, limit) {
+        // SKIP LOCKED lets several server instances share the table without running a job twice
+        const due = db
+            .select({ id: scheduledJobs.id })
+            .from(scheduledJobs)
+            .where(and(eq(scheduledJobs.status, 'scheduled'), lte(scheduledJobs.runAt, now)))
+            .orderBy(asc(scheduledJobs.runAt))
+            .limit(limit)
+            .for('update', { skipLocked: true });
+
+        return db.update(scheduledJobs)
+            .set({ status: 'running', attempts: sql`${scheduledJobs.attempts} + 1`, lockedAt: now, updatedAt: now })
+            .where(inArray(scheduledJobs.id, due))
+            .returning();
+    },
+
+    async releaseStale(lockedBefore) {
+        const released = await db.update(scheduledJobs)
+            .set({ status: 'scheduled', lockedAt: null, updatedAt: new Date() })
+            .where(and(eq(scheduledJobs.status, 'running'), lt(scheduledJobs.lockedAt, lockedBefore)))
+            .returning({ id: scheduledJobs.id });
+        return released.length;
+    },
+
+    async complete(job, now) {
+        await db.update(scheduledJobs)
+            .set({ status: 'completed', lockedAt: null, completedAt: now, updatedAt: now })
+            .where(heldLease(job));
+    },
+
+    async retry(job, runAt, error) {
+        await db.update(scheduledJobs)
+            .set({ status: 'scheduled', runAt, lastError: error, lockedAt: null, updatedAt: new Date() })
+            .where(heldLease(job));
+    },
+
+    async fail(job, error) {
+        await db.update(scheduledJobs)
+            .set({ status: 'failed', lastError: error, lockedAt: null, updatedAt: new Date() })
+            .where(heldLease(job));
+    },
+
+    async cancel(userId, jobId) {
+        const [cancelled] = await db.update(scheduledJobs)
+            .set({ status: 'cancelled', updatedAt: new Date() })
+            .where(and(eq(scheduledJobs.id, jobId), eq(scheduledJobs.userId, userId), eq(scheduledJobs.status, 'scheduled')))
+            .returning();
+        return cancelled;
+    },
+
+    async list(userId, query) {
+        const conditions: SQL[] = [eq(scheduledJobs.userId, userId)];
+        if (query.status?.length) {
+            conditions.push(inArray(scheduledJobs.status, query.status));
+        }
+        if (query.type) {
+            conditions.push(eq(scheduledJobs.type, query.type));
+        }
+
+        return db.select()
+            .from(scheduledJobs)
+            .where(and(...conditions))
+            .orderBy(desc(scheduledJobs.runAt))
+            .limit(200);
+    }
+};
+
+/**
+ * JobScheduler runs persistent jobs stored in Postgres. Planners create upcoming jobs,
+ * handlers deliver them, and failed attempts are retried with exponential backoff.
+ */
+export class JobScheduler {
+    private handlers: Map<ScheduledJobType, ScheduledJobHandler> = new Map();
+    private planners: ScheduledJobPlanner[] = [];
+    private tickInterval?: NodeJS.Timeout;
+    private running = false;
+
+    constructor(private readonly store: ScheduledJobStore = databaseJobStore) {}
+
+    registerHandler(type: ScheduledJobType, handler: ScheduledJobHandler): void {
+        this.handlers.set(type, handler);
+    }
+
+    registerPlanner(planner: ScheduledJobPlanner): void {
+        this.planners.push(planner);
+    }
+
+    /**
+     * Schedules a job unless one with the same dedupe key already exists
+     */
+    schedule(job: NewScheduledJob): Promise<ScheduledJob | undefined> {
+        return this.store.insert(job);
+    }
+
+    /**
+     * Cancels a user's scheduled job; returns undefined when it is not theirs or already ran
+     */
+    cancel(userId: string, jobId: string): Promise<ScheduledJob | undefined> {
+        return this.store.cancel(userId, jobId);
+    }
+
+    listJobs(userId: string, query: Partial<ScheduledJobQuery> = {}): Promise<ScheduledJob[]> {
+        return this.store.list(userId, query);
+    }
+
+    /**
+     * Runs every planner, then every job that is due
+     */
+    async tick(now: Date = new Date()): Promise<SchedulerRunResult> {
+        for (const planner of this.planners) {
+            try {
+                await planner(now);
+            } catch (error) {
+                console.error('Error planning scheduled jobs:', error);
+            }
+        }
+
+        return this.runDueJobs(now);
+    }
+
+    /**
+     * Claims due jobs and runs their handlers
+     */
+    async runDueJobs(now: Date = new Date(), limit: number = 20): Promise<SchedulerRunResult> {
+        const result: SchedulerRunResult = { claimed: 0, completed: 0, retried: 0, failed: 0 };
+
+        await this.store.releaseStale(new Date(now.getTime() - STALE_LOCK_MS));
+        const jobs = await this.store.claimDue(now, limit);
+        result.claimed = jobs.length;
+
+        for (const job of jobs) {
+            const handler = this.handlers.get(job.type as ScheduledJobType);
+
+            try {
+                if (!handler) {
+                    throw new Error(`No handler registered for job type ${job.type}`);
+                }
+                await handler(job);
+                await this.store.complete(job, new Date());
+                result.completed++;
+            } catch (error) {
+                const message = error instanceof Error ? error.message : 'Unknown error';
+
+                if (handler && job.attempts < job.maxAttempts) {
+                    await this.store.retry(job, new Date(now.getTime() + getRetryDelay(job.attempts)), message);
+                    result.retried++;
+                } else {
+                    await this.store.fail(job, message);
+                    result.failed++;
+                }
+                console.error(`Scheduled job ${job.id} (${job.type}) failed on attempt ${job.attempts}:`, message);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Start running the scheduler in the background
+     */
+    start(intervalMs: number = 60 * 1000): void {
+        this.stop();
+
+        const run = async () => {
+            // Skip a tick rather than overlap with a slow one
+            if (this.running) {
+                return;
+            }
+            this.running = true;
+            try {
+                await this.tick();
+            } catch (error) {
+                console.error('Error running scheduled jobs:', error);
+            } finally {
+                this.running = false;
+            }
+        };
+
+        this.tickInterval = setInterval(run, intervalMs);
+        run();
+
+        console.log('Job scheduler started');
+    }
+
+    /**
+     * Stop the background scheduler
+     */
+    stop(): void {
+        if (this.tickInterval) {
+            clearInterval(this.tickInterval);
+            this.tickInterval = undefined;
+        }
+    }
+}
+
+export const jobScheduler = new JobScheduler();
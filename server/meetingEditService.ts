@@ -0,0 +1,506 @@
+/**
+ * Edits to meetings that already exist in Google Calendar.
+ *
+ * Parses chat commands such as "move tomorrow's design review to Thursday 3pm"
+ * or "add priya@ to the sprint planning", resolves the target among the user's
+ * upcoming events, re-validates the changed meeting and patches the Google event.
+ */
+
+import { BusinessRulesEngine } from './businessRules.js';
+import { checkCalendarConflicts, findMultiAttendeeSlots } from './calendarAvailabilityService.js';
+import { updateCalendarEvent } from './googleCalendar.js';
+import { db } from './storage.js';
+import { events } from '../shared/schema.js';
+import { coerceAgendaDocument } from '../shared/agendaDocument.js';
+import { and, eq } from 'drizzle-orm';
+import { getZonedTimeParts, type WorkingHoursProfile } from './utils/workingHours.js';
+import type { User, MeetingEditChangesInput, AgendaDocument } from '../shared/schema.js';
+
+export type MeetingEditAction = 'reschedule' | 'add_attendees' | 'remove_attendees' | 'rename' | 'change_location';
+
+export interface MeetingEditCommand {
+  action: MeetingEditAction;
+  targetReference: string; // how the user referred to the meeting, e.g. "tomorrow's design review"
+  value: string; // the new time phrase, attendee list, title or location
+}
+
+export interface EditableEvent {
+  id: string;
+  title: string;
+  description?: string;
+  startTime: Date;
+  endTime: Date;
+  attendees: string[];
+  location?: string;
+  meetingLink?: string;
+  calendarId?: string; // Google calendar holding the event
+}
+
+export interface MeetingEditChanges {
+  title?: string;
+  description?: string;
+  startTime?: Date;
+  endTime?: Date;
+  location?: string;
+  attendees?: string[]; // full attendee list after the edit
+}
+
+export interface MeetingEditDiffEntry {
+  field: 'title' | 'description' | 'time' | 'location' | 'attendees';
+  label: string;
+  before: string;
+  after: string;
+}
+
+export interface MeetingEditValidation {
+  isValid: boolean;
+  errors: string[];
+  warnings: string[];
+  conflicts: string[]; // organizer events or attendees busy at the new time
+}
+
+export interface TargetEventResolution {
+  event: EditableEvent | null;
+  candidates: EditableEvent[]; // every equally good match when the reference is ambiguous
+}
+
+export interface MeetingEditResult {
+  event: Awaited<ReturnType<typeof updateCalendarEvent>>;
+  agendaResent: boolean;
+  agendaJobId?: string; // email job resending the agenda, when one was started
+}
+
+const COMMAND_PATTERNS: Array<{ action: MeetingEditAction; pattern: RegExp }> = [
+  { action: 'reschedule', pattern: /^(?:please\s+)?(?:move|reschedule|push|shift)\s+(.+?)\s+to\s+(.+)$/i },
+  { action: 'add_attendees', pattern: /^(?:please\s+)?(?:add|invite)\s+(.+?@.*?)\s+to\s+(.+)$/i },
+  { action: 'remove_attendees', pattern: /^(?:please\s+)?(?:remove|uninvite|drop)\s+(.+?)\s+from\s+(.+)$/i },
+  { action: 'rename', pattern: /^(?:please\s+)?rename\s+(.+?)\s+to\s+(.+)$/i },
+  { action: 'change_location', pattern: /^(?:please\s+)?(?:change|set|update)\s+the\s+location\s+(?:of|for)\s+(.+?)\s+to\s+(.+)$/i }
+];
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const REFERENCE_STOPWORDS = new Set([
+  'the', 'my', 'our', 'a', 'an', 'meeting', 'call', 'event', 'on', 'at', 'with', 'this', 'next',
+  'today', 'tomorrow', ...WEEKDAYS
+]);
+
+/**
+ * Detects a request to change an existing meeting.
+ * Returns null for messages that are not edit commands.
+ */
+export function parseEditCommand(message: string): MeetingEditCommand | null {
+  const text = message.trim().replace(/[.!]+$/, '');
+
+  for (const { action, pattern } of COMMAND_PATTERNS) {
+    const match = text.match(pattern);
+    if (!match) {
+      continue;
+    }
+
+    // "add"/"remove" put the value first, the other commands put the meeting first
+    const valueFirst = action === 'add_attendees' || action === 'remove_attendees';
+    const targetReference = (valueFirst ? match[2] : match[1]).trim();
+    const value = (valueFirst ? match[1] : match[2]).trim();
+
+    if (targetReference && value) {
+      return { action, targetReference, value };
+    }
+  }
+
+  return null;
+}
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().replace(/['’]s\b/g, '').split(/[^a-z0-9]+/).filter(Boolean);
+
+const dayKey = (date: Date, timeZone: string): string => {
+  const parts = getZonedTimeParts(date, timeZone);
+  return `${parts.year}-${parts.month}-${parts.day}`;
+};
+
+/**
+ * Finds the upcoming event a reference like "tomorrow's design review" points to.
+ * Day words (today, tomorrow, weekday names) narrow the search; the remaining words are matched against titles.
+ */
+export function resolveTargetEvent(
+  upcomingEvents: EditableEvent[],
+  reference: string,
+  timeZone: string,
+  now: Date = new Date()
+): TargetEventResolution {
+  const tokens = tokenize(reference);
+  let pool = upcomingEvents;
+
+  if (tokens.includes('today') || tokens.includes('tomorrow')) {
+    const target = tokens.includes('today') ? now : new Date(now.getTime() + 24 * 60 * 60 * 1000);
+    pool = pool.filter(event => dayKey(event.startTime, timeZone) === dayKey(target, timeZone));
+  } else {
+    const weekday = WEEKDAYS.findIndex(day => tokens.includes(day));
+    if (weekday >= 0) {
+      pool = pool.filter(event => getZonedTimeParts(event.startTime, timeZone).dayOfWeek === weekday);
+    }
+  }
+
+  const titleTokens = tokens.filter(token => !REFERENCE_STOPWORDS.has(token));
+  if (titleTokens.length === 0) {
+    return { event: pool.length === 1 ? pool[0] : null, candidates: pool };
+  }
+
+  const scored = pool
+    .map(event => {
+      const eventTokens = new Set(tokenize(event.title));
+      return { event, score: titleTokens.filter(token => eventTokens.has(token)).length };
+    })
+    .filter(entry => entry.score > 0);
+
+  const bestScore = Math.max(0, ...scored.map(entry => entry.score));
+  const candidates = scored.filter(entry => entry.score === bestScore).map(entry => entry.event);
+
+  return { event: candidates.length === 1 ? candidates[0] : null, candidates };
+}
+
+/**
+ * Turns an attendee list such as "priya@ and sam@acme.com" into email addresses.
+ * Partial addresses ending in "@" are completed with the organizer's domain.
+ */
+export function resolveAttendeeEmails(value: string, organizerEmail: string): { emails: string[]; unresolved: string[] } {
+  const organizerDomain = organizerEmail.split('@')[1] || '';
+  const emails: string[] = [];
+  const unresolved: string[] = [];
+
+  for (const token of value.split(/\s*,\s*|\s+and\s+|\s+/i).map(t => t.trim()).filter(Boolean)) {
+    if (!token.includes('@')) {
+      if (!['the', 'and'].includes(token.toLowerCase())) {
+        unresolved.push(token);
+      }
+      continue;
+    }
+
+    const [localPart, domain] = token.split('@');
+    emails.push(`${localPart}@${domain || organizerDomain}`.toLowerCase());
+  }
+
+  return { emails: Array.from(new Set(emails)), unresolved };
+}
+
+/**
+ * Computes the changes a parsed command makes to an event.
+ * Rescheduling keeps the meeting's duration; newStartTime comes from time extraction.
+ */
+export function buildEditChanges(
+  command: MeetingEditCommand,
+  event: EditableEvent,
+  organizerEmail: string,
+  newStartTime?: Date
+): { changes: MeetingEditChanges; errors: string[] } {
+  const changes: MeetingEditChanges = {};
+  const errors: string[] = [];
+
+  switch (command.action) {
+    case 'reschedule': {
+      if (!newStartTime) {
+        errors.push(`I couldn't understand the new time "${command.value}".`);
+        break;
+      }
+      const duration = event.endTime.getTime() - event.startTime.getTime();
+      changes.startTime = newStartTime;
+      changes.endTime = new Date(newStartTime.getTime() + duration);
+      break;
+    }
+
+    case 'add_attendees': {
+      const { emails, unresolved } = resolveAttendeeEmails(command.value, organizerEmail);
+      if (unresolved.length > 0) {
+        errors.push(`I need an email address for: ${unresolved.join(', ')}`);
+      }
+      const current = event.attendees.map(email => email.toLowerCase());
+      const added = emails.filter(email => !current.includes(email));
+      if (added.length > 0) {
+        changes.attendees = [...event.attendees, ...added];
+      }
+      break;
+    }
+
+    case 'remove_attendees': {
+      const { emails, unresolved } = resolveAttendeeEmails(command.value, organizerEmail);
+      // Bare names match attendees whose address starts with the name, e.g. "priya" -> priya@acme.com
+      const toRemove = event.attendees.filter(attendee => {
+        const address = attendee.toLowerCase();
+        return emails.includes(address) ||
+          unresolved.some(name => address.split('@')[0].startsWith(name.toLowerCase()));
+      });
+      if (toRemove.length === 0) {
+        errors.push(`${command.value} is not invited to "${event.title}".`);
+        break;
+      }
+      changes.attendees = event.attendees.filter(attendee => !toRemove.includes(attendee));
+      break;
+    }
+
+    case 'rename':
+      changes.title = command.value.replace(/^["']|["']$/g, '');
+      break;
+
+    case 'change_location':
+      changes.location = command.value;
+      break;
+  }
+
+  return { changes, errors };
+}
+
+/**
+ * Formats a time range in the organizer's timezone for diffs and messages
+ */
+export function formatEventTime(startTime: Date, endTime: Date, timeZone: string): string {
+  const date = startTime.toLocaleString('en-US', { timeZone, weekday: 'short', month: 'short', day: 'numeric' });
+  const time = (value: Date) => value.toLocaleTimeString('en-US', { timeZone, hour: 'numeric', minute: '2-digit' });
+  return `${date}, ${time(startTime)} - ${time(endTime)}`;
+}
+
+/**
+ * Lists what an edit changes, field by field, for the approval block
+ */
+export function diffEventChanges(event: EditableEvent, changes: MeetingEditChanges, timeZone: string): MeetingEditDiffEntry[] {
+  const diff: MeetingEditDiffEntry[] = [];
+
+  if (changes.title !== undefined && changes.title !== event.title) {
+    diff.push({ field: 'title', label: 'Title', before: event.title, after: changes.title });
+  }
+
+  if ((changes.startTime && changes.startTime.getTime() !== event.startTime.getTime()) ||
+      (changes.endTime && changes.endTime.getTime() !== event.endTime.getTime())) {
+    diff.push({
+      field: 'time',
+      label: 'Time',
+      before: formatEventTime(event.startTime, event.endTime, timeZone),
+      after: formatEventTime(changes.startTime || event.startTime, changes.endTime || event.endTime, timeZone)
+    });
+  }
+
+  if (changes.location !== undefined && changes.location !== (event.location || '')) {
+    diff.push({ field: 'location', label: 'Location', before: event.location || 'None', after: changes.location || 'None' });
+  }
+
+  if (changes.description !== undefined && changes.description !== (event.description || '')) {
+    diff.push({ field: 'description', label: 'Description', before: event.description || 'None', after: changes.description || 'None' });
+  }
+
+  if (changes.attendees) {
+    const before = event.attendees.map(email => email.toLowerCase());
+    const after = changes.attendees.map(email => email.toLowerCase());
+    const added = after.filter(email => !before.includes(email));
+    const removed = before.filter(email => !after.includes(email));
+
+    if (added.length > 0 || removed.length > 0) {
+      diff.push({
+        field: 'attendees',
+        label: 'Attendees',
+        before: removed.length > 0 ? `Remove ${removed.join(', ')}` : `${before.length} invited`,
+        after: added.length > 0 ? `Add ${added.join(', ')}` : `${after.length} invited`
+      });
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Checks whether an edit changes the meeting time
+ */
+export function isTimeChange(event: EditableEvent, changes: MeetingEditChanges): boolean {
+  return (!!changes.startTime && changes.startTime.getTime() !== event.startTime.getTime()) ||
+    (!!changes.endTime && changes.endTime.getTime() !== event.endTime.getTime());
+}
+
+/**
+ * Converts changes received from the approval block or REST body back to dates
+ */
+export function deserializeEditChanges(input: MeetingEditChangesInput): MeetingEditChanges {
+  return {
+    ...input,
+    startTime: input.startTime ? new Date(input.startTime) : undefined,
+    endTime: input.endTime ? new Date(input.endTime) : undefined
+  };
+}
+
+/**
+ * Re-runs business rules and availability for the edited meeting.
+ * The meeting's current slot is ignored so a small shift does not conflict with itself.
+ */
+export async function validateMeetingEdit(
+  user: User,
+  event: EditableEvent,
+  changes: MeetingEditChanges,
+  workingHours: WorkingHoursProfile
+): Promise<MeetingEditValidation> {
+  const rules = new BusinessRulesEngine(workingHours);
+  const result: MeetingEditValidation = { isValid: true, errors: [], warnings: [], conflicts: [] };
+  const startTime = changes.startTime || event.startTime;
+  const endTime = changes.endTime || event.endTime;
+  const attendees = changes.attendees || event.attendees;
+
+  if (changes.title !== undefined && changes.title.trim().length === 0) {
+    result.errors.push('Meeting title cannot be empty');
+  }
+
+  for (const email of changes.attendees || []) {
+    if (!rules.validateEmailFormat(email)) {
+      result.errors.push(`Invalid email format: ${email}`);
+    }
+  }
+
+  if (isTimeChange(event, changes)) {
+    const timeValidation = rules.validateTimeConstraints(startTime, endTime);
+    result.errors.push(...timeValidation.errors);
+    result.warnings.push(...timeValidation.warnings);
+
+    try {
+      const organizerConflicts = await checkCalendarConflicts(user, startTime, endTime);
+      result.conflicts.push(...organizerConflicts.conflictingEvents
+        .filter(conflict => conflict.id !== event.id)
+        .map(conflict => `You have "${conflict.title}" at that time`));
+    } catch (error) {
+      console.error('Error checking calendar conflicts for edit:', error);
+      result.warnings.push('Could not check your calendar for conflicts');
+    }
+  }
+
+  // Attendee availability matters when the time moves or someone new is invited
+  const newAttendees = changes.attendees ?
+    changes.attendees.filter(email => !event.attendees.includes(email)) :
+    [];
+  const attendeesToCheck = isTimeChange(event, changes) ? attendees : newAttendees;
+  const otherAttendees = attendeesToCheck.filter(email => email.toLowerCase() !== user.email.toLowerCase());
+
+  if (otherAttendees.length > 0) {
+    try {
+      const slotResult = await findMultiAttendeeSlots(
+        user,
+        otherAttendees.map(email => ({ email, isRequired: true })),
+        startTime,
+        Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60)),
+        0,
+        1,
+        workingHours,
+        { startTime: event.startTime, endTime: event.endTime }
+      );
+
+      result.conflicts.push(...slotResult.requestedSlot.requiredConflicts
+        .filter(email => email.toLowerCase() !== user.email.toLowerCase())
+        .map(email => `${email} is busy at that time`));
+    } catch (error) {
+      console.error('Error checking attendee availability for edit:', error);
+      result.warnings.push('Could not check attendee availability');
+    }
+  }
+
+  result.isValid = result.errors.length === 0;
+  return result;
+}
+
+/**
+ * The agenda stored with the user's copy of an event, when it has topics to send
+ */
+async function loadStoredAgenda(user: User, event: EditableEvent): Promise<AgendaDocument | undefined> {
+  const [stored] = await db
+    .select({ agenda: events.agenda })
+    .from(events)
+    .where(and(eq(events.userId, user.id), eq(events.googleEventId, event.id)))
+    .limit(1);
+
+  const agenda = coerceAgendaDocument(stored?.agenda, event.title);
+  return agenda && agenda.topics.length > 0 ? agenda : undefined;
+}
+
+/**
+ * Patches the Google event, keeps the local event record in sync and
+ * resends the meeting's agenda to attendees when the meeting time changed.
+ * Meetings without a stored agenda only get Google Calendar's update notice.
+ */
+export async function applyMeetingEdit(
+  user: User,
+  event: EditableEvent,
+  changes: MeetingEditChanges,
+  workingHours: WorkingHoursProfile,
+  resendAgenda: boolean = true
+): Promise<MeetingEditResult> {
+  const updated = await updateCalendarEvent(user, event.id, { ...changes, timeZone: workingHours.timezone }, event.calendarId);
+
+  try {
+    const localUpdates: Record<string, unknown> = {};
+    if (changes.title !== undefined) localUpdates.title = changes.title;
+    if (changes.description !== undefined) localUpdates.description = changes.description;
+    if (changes.startTime) localUpdates.startTime = changes.startTime;
+    if (changes.endTime) localUpdates.endTime = changes.endTime;
+    if (changes.location !== undefined) localUpdates.location = changes.location || null;
+    if (changes.attendees) localUpdates.attendees = changes.attendees;
+
+    if (Object.keys(localUpdates).length > 0) {
+      await db.update(events).set(localUpdates).where(eq(events.googleEventId, event.id));
+    }
+  } catch (error) {
+    // The Google event is the source of truth; a stale local copy is not fatal
+    console.error('Error updating local event record:', error);
+  }
+
+  let agendaJobId: string | undefined;
+  const attendees = (changes.attendees || event.attendees)
+    .filter(email => email.toLowerCase() !== user.email.toLowerCase());
+
+  if (resendAgenda && isTimeChange(event, changes) && attendees.length > 0) {
+    try {
+      const agenda = await loadStoredAgenda(user, event);
+      if (agenda) {
+        const { emailWorkflowOrchestrator } = await import('./emailWorkflowOrchestrator.js');
+        const { calendarInviteService } = await import('./calendarInviteService.js');
+        const startTime = changes.startTime || event.startTime;
+        const endTime = changes.endTime || event.endTime;
+        const title = changes.title || event.title;
+
+        agendaJobId = await emailWorkflowOrchestrator.startEmailSendingWorkflow(
+          user,
+          event.id,
+          attendees.map(email => ({ email, isValid: true, exists: true, isGoogleUser: true })),
+          {
+            title,
+            startTime,
+            endTime,
+            type: event.meetingLink ? 'online' : 'physical',
+            location: changes.location ?? event.location,
+            meetingLink: event.meetingLink,
+            // A higher SEQUENCE makes attendees' calendars move the existing entry
+            calendarInvite: await calendarInviteService.getUpdatedInvite(user, event.id)
+          },
+          {
+            ...agenda,
+            title,
+            duration: Math.round((endTime.getTime() - startTime.getTime()) / (1000 * 60)),
+            purpose: `This meeting has been rescheduled to ${formatEventTime(startTime, endTime, workingHours.timezone)}.\n\n${agenda.purpose ?? ''}`.trim()
+          }
+        );
+      }
+    } catch (error) {
+      console.error('Error resending agenda after reschedule:', error);
+    }
+  }
+
+  return { event: updated, agendaResent: !!agendaJobId, agendaJobId };
+}
+
+/**
+ * Main export object for meeting edit service
+ */
+export const MeetingEditService = {
+  parseEditCommand,
+  resolveTargetEvent,
+  resolveAttendeeEmails,
+  buildEditChanges,
+  diffEventChanges,
+  deserializeEditChanges,
+  validateMeetingEdit,
+  applyMeetingEdit,
+  formatEventTime,
+  isTimeChange
+};
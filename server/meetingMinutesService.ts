@@ -0,0 +1,226 @@
+import { User, MeetingMinutes, MinutesActionItem, UpdateMeetingMinutesInput } from '../shared/schema.js';
+import type { MeetingSummary, MeetingTask } from './transcriptService.js';
+import { emailTemplateService, MinutesRecipient } from './emailTemplateService.js';
+import { emailWorkflowOrchestrator, RetryConfig } from './emailWorkflowOrchestrator.js';
+
+/**
+ * Meeting details shown in the minutes email
+ */
+export interface MinutesMeetingData {
+  title: string;
+  startTime?: string | Date;
+  endTime?: string | Date;
+  type?: 'physical' | 'online';
+  location?: string;
+  meetingLink?: string;
+}
+
+/**
+ * Minutes prepared after a meeting, waiting for the organizer to review and send
+ */
+export interface MinutesDraft {
+  meetingId: string;
+  userId: string;
+  meetingData: MinutesMeetingData;
+  recipients: MinutesRecipient[];
+  minutes: MeetingMinutes;
+  status: 'draft' | 'sent';
+  jobId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+  sentAt?: Date;
+}
+
+/**
+ * Rendered minutes email for one recipient
+ */
+export interface MinutesPreview {
+  recipient: MinutesRecipient;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Converts an extracted meeting task into a minutes action item
+ */
+export function toMinutesActionItem(task: Pick<MeetingTask, 'title' | 'description' | 'assignee' | 'assigneeEmail' | 'dueDate' | 'priority'>): MinutesActionItem {
+  return {
+    title: task.title,
+    description: task.description || undefined,
+    assignee: task.assignee && task.assignee !== 'Unassigned' ? task.assignee : undefined,
+    assigneeEmail: task.assigneeEmail || undefined,
+    dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
+    priority: task.priority
+  };
+}
+
+/**
+ * Builds minutes from a meeting summary. Extracted tasks carry owners and due dates,
+ * so they replace the summary's plain action item text when available.
+ */
+export function buildMeetingMinutes(summary: MeetingSummary, actionItems: MinutesActionItem[]): MeetingMinutes {
+  return {
+    title: summary.title,
+    summary: summary.summary,
+    keyPoints: summary.keyPoints,
+    decisions: summary.decisions,
+    actionItems: actionItems.length > 0
+      ? actionItems
+      : summary.actionItems.map(item => ({ title: item, priority: 'medium' as const }))
+  };
+}
+
+/**
+ * Normalizes meeting attendees (plain emails or attendee objects) into minutes recipients
+ */
+export function toMinutesRecipients(attendees: any[] = []): MinutesRecipient[] {
+  const recipients = new Map<string, MinutesRecipient>();
+
+  for (const attendee of attendees) {
+    const email = typeof attendee === 'string' ? attendee : attendee?.email;
+    if (!email || recipients.has(email.toLowerCase())) {
+      continue;
+    }
+
+    const name = typeof attendee === 'string'
+      ? undefined
+      : attendee.name || [attendee.firstName, attendee.lastName].filter(Boolean).join(' ') || undefined;
+    recipients.set(email.toLowerCase(), { email, name });
+  }
+
+  return Array.from(recipients.values());
+}
+
+/**
+ * Meeting Minutes Service keeps post-meeting minutes drafts until the organizer sends them
+ */
+export class MeetingMinutesService {
+  private drafts: Map<string, MinutesDraft> = new Map();
+
+  /**
+   * Prepare (or replace) the minutes draft for a meeting
+   */
+  createDraft(
+    userId: string,
+    meetingId: string,
+    meetingData: any,
+    summary: MeetingSummary,
+    actionItems: MinutesActionItem[]
+  ): MinutesDraft {
+    const now = new Date();
+    const draft: MinutesDraft = {
+      meetingId,
+      userId,
+      meetingData: {
+        title: meetingData.title || summary.title,
+        startTime: meetingData.startTime,
+        endTime: meetingData.endTime,
+        type: meetingData.type,
+        location: meetingData.location,
+        meetingLink: meetingData.meetingLink
+      },
+      recipients: toMinutesRecipients(meetingData.attendees),
+      minutes: buildMeetingMinutes(summary, actionItems),
+      status: 'draft',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    this.drafts.set(meetingId, draft);
+    console.log(`📝 Minutes draft ready for meeting: ${meetingId}`);
+    return draft;
+  }
+
+  /**
+   * Get a meeting's minutes draft if it belongs to the user
+   */
+  getDraft(userId: string, meetingId: string): MinutesDraft | undefined {
+    const draft = this.drafts.get(meetingId);
+    return draft && draft.userId === userId ? draft : undefined;
+  }
+
+  /**
+   * Apply organizer edits to a draft
+   */
+  updateDraft(userId: string, meetingId: string, changes: UpdateMeetingMinutesInput): MinutesDraft | undefined {
+    const draft = this.getDraft(userId, meetingId);
+    if (!draft) {
+      return undefined;
+    }
+
+    const { recipients, ...minutesChanges } = changes;
+    draft.minutes = { ...draft.minutes, ...minutesChanges };
+    if (recipients) {
+      draft.recipients = recipients;
+    }
+    draft.updatedAt = new Date();
+
+    return draft;
+  }
+
+  /**
+   * Render the email one recipient would receive; defaults to the first recipient
+   */
+  previewDraft(userId: string, meetingId: string, recipientEmail?: string): MinutesPreview | undefined {
+    const draft = this.getDraft(userId, meetingId);
+    if (!draft) {
+      return undefined;
+    }
+
+    const recipient = draft.recipients.find(r => r.email.toLowerCase() === recipientEmail?.toLowerCase())
+      ?? draft.recipients[0]
+      ?? { email: recipientEmail ?? '' };
+    const { startTime, endTime } = draft.meetingData;
+    const meetingData = {
+      ...draft.meetingData,
+      startTime: startTime ? new Date(startTime) : undefined,
+      endTime: endTime ? new Date(endTime) : undefined
+    };
+
+    return {
+      recipient,
+      subject: `Meeting Minutes: ${draft.minutes.title}`,
+      html: emailTemplateService.generateMinutesEmailTemplate(draft.minutes, meetingData, recipient),
+      text: emailTemplateService.generateMinutesEmailPlainText(draft.minutes, meetingData, recipient)
+    };
+  }
+
+  /**
+   * Send the draft to its recipients as a tracked email job
+   */
+  async sendDraft(user: User, meetingId: string, retryConfig?: Partial<RetryConfig>): Promise<string> {
+    const draft = this.getDraft(user.id, meetingId);
+    if (!draft) {
+      throw new Error(`No minutes draft found for meeting ${meetingId}`);
+    }
+
+    const jobId = await emailWorkflowOrchestrator.startMinutesEmailWorkflow(
+      user,
+      meetingId,
+      draft.recipients.map(recipient => {
+        const [firstName, ...rest] = (recipient.name || '').split(' ');
+        return {
+          email: recipient.email,
+          isValid: true,
+          exists: true,
+          isGoogleUser: false,
+          firstName: firstName || undefined,
+          lastName: rest.join(' ') || undefined
+        };
+      }),
+      draft.meetingData,
+      draft.minutes,
+      retryConfig
+    );
+
+    draft.status = 'sent';
+    draft.jobId = jobId;
+    draft.sentAt = new Date();
+
+    return jobId;
+  }
+}
+
+// Export singleton instance
+export const meetingMinutesService = new MeetingMinutesService();
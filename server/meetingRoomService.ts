@@ -0,0 +1,244 @@
+/**
+ * Meeting rooms and other bookable resources for physical meetings.
+ *
+ * Rooms come from Google Workspace resource calendars, read through the
+ * Directory API when the organizer granted access to it or else from the
+ * resource calendars in their calendar list, and from a local JSON file for
+ * offices outside Workspace. Rooms with a resource calendar are checked with
+ * free/busy like people and booked by inviting the room to the event.
+ */
+
+import { readFile } from 'fs/promises';
+import { google } from 'googleapis';
+import { z } from 'zod';
+import { meetingRoomSchema } from '../shared/schema.js';
+import type { MeetingRoom, MeetingRoomOption, User } from '../shared/schema.js';
+import { listCalendars } from './googleCalendar.js';
+import type { BusyInterval } from './calendarAvailabilityService.js';
+
+// Extra OAuth scope requested when GOOGLE_WORKSPACE_ROOMS=true, for reading the room directory
+export const ROOM_DIRECTORY_SCOPE = 'https://www.googleapis.com/auth/admin.directory.resource.calendar.readonly';
+
+const RESOURCE_CALENDAR_SUFFIX = '@resource.calendar.google.com';
+
+/**
+ * A source of rooms the organizer can book. Tests pass in-memory catalogs.
+ */
+export interface MeetingRoomCatalog {
+  listRooms(user: User): Promise<MeetingRoom[]>;
+}
+
+/**
+ * Busy intervals per resource calendar. A calendar missing from the result could not be checked.
+ */
+export type RoomBusyLookup = (
+  user: User,
+  calendarIds: string[],
+  startTime: Date,
+  endTime: Date
+) => Promise<Map<string, BusyInterval[]>>;
+
+/**
+ * Rooms in a local config file (MEETING_ROOMS_FILE) use the same shape as the
+ * catalog, without the source: [{ "id", "name", "capacity", "equipment", "building", "floor", "calendarId" }]
+ */
+const configRoomsSchema = z.array(meetingRoomSchema.omit({ source: true }));
+
+export function parseRoomConfig(content: string): MeetingRoom[] {
+  return configRoomsSchema.parse(JSON.parse(content)).map(room => ({ ...room, source: 'config' as const }));
+}
+
+export function createConfigRoomCatalog(filePath: string | undefined = process.env.MEETING_ROOMS_FILE): MeetingRoomCatalog {
+  let rooms: Promise<MeetingRoom[]> | undefined;
+
+  return {
+    async listRooms() {
+      if (!filePath) {
+        return [];
+      }
+
+      // Read once; a broken file is reported and leaves only the Google rooms
+      rooms ??= readFile(filePath, 'utf8')
+        .then(parseRoomConfig)
+        .catch(error => {
+          console.error(`Error reading meeting rooms from ${filePath}:`, error);
+          return [];
+        });
+      return rooms;
+    }
+  };
+}
+
+/**
+ * Google generates resource calendar names as "Building-Floor-Room (capacity) [equipment]"
+ */
+export function parseResourceCalendarName(summary: string): Pick<MeetingRoom, 'name' | 'capacity' | 'equipment'> {
+  const capacity = summary.match(/\((\d+)\)/);
+  const equipment = summary.match(/\[([^\]]*)\]/);
+
+  return {
+    name: summary.replace(/\(\d+\)/, '').replace(/\[[^\]]*\]/, '').trim() || summary,
+    capacity: capacity ? Number(capacity[1]) : undefined,
+    equipment: equipment ? equipment[1].split(',').map(item => item.trim()).filter(Boolean) : []
+  };
+}
+
+export const googleWorkspaceRoomCatalog: MeetingRoomCatalog = {
+  async listRooms(user) {
+    if (!user.accessToken) {
+      return [];
+    }
+
+    try {
+      const oauth2Client = new google.auth.OAuth2();
+      oauth2Client.setCredentials({ access_token: user.accessToken });
+      const directory = google.admin({ version: 'directory_v1', auth: oauth2Client });
+
+      const rooms: MeetingRoom[] = [];
+      let pageToken: string | undefined;
+      do {
+        const response = await directory.resources.calendars.list({ customer: 'my_customer', maxResults: 500, pageToken });
+        for (const resource of response.data.items || []) {
+          if (!resource.resourceEmail || !resource.resourceName) continue;
+          rooms.push({
+            id: resource.resourceId || resource.resourceEmail,
+            name: resource.userVisibleDescription || resource.resourceName,
+            calendarId: resource.resourceEmail,
+            capacity: resource.capacity || undefined,
+            equipment: ((resource.featureInstances as Array<{ feature?: { name?: string } }> | undefined) || [])
+              .map(instance => instance.feature?.name || '')
+              .filter(Boolean),
+            building: resource.buildingId || undefined,
+            floor: resource.floorName || undefined,
+            source: 'google'
+          });
+        }
+        pageToken = response.data.nextPageToken || undefined;
+      } while (pageToken);
+
+      return rooms;
+    } catch (error) {
+      // Most users cannot read the directory; the rooms they added to their calendar list still work
+      console.warn('Room directory unavailable, using resource calendars from the calendar list:', error instanceof Error ? error.message : error);
+    }
+
+    try {
+      const calendars = await listCalendars(user);
+      return calendars
+        .filter(calendar => calendar.id.endsWith(RESOURCE_CALENDAR_SUFFIX))
+        .map(calendar => ({
+          id: calendar.id,
+          calendarId: calendar.id,
+          ...parseResourceCalendarName(calendar.summary),
+          source: 'google' as const
+        }));
+    } catch (error) {
+      console.error('Error listing resource calendars:', error);
+      return [];
+    }
+  }
+};
+
+export const googleRoomBusyLookup: RoomBusyLookup = async (user, calendarIds, startTime, endTime) => {
+  const busy = new Map<string, BusyInterval[]>();
+  if (!user.accessToken || calendarIds.length === 0) {
+    return busy;
+  }
+
+  const oauth2Client = new google.auth.OAuth2();
+  oauth2Client.setCredentials({ access_token: user.accessToken });
+  const calendar = google.calendar({ version: 'v3', auth: oauth2Client });
+
+  const response = await calendar.freebusy.query({
+    requestBody: {
+      timeMin: startTime.toISOString(),
+      timeMax: endTime.toISOString(),
+      items: calendarIds.map(id => ({ id }))
+    }
+  });
+
+  for (const [calendarId, entry] of Object.entries(response.data.calendars || {})) {
+    if (entry.errors && entry.errors.length > 0) continue;
+    busy.set(calendarId, (entry.busy || []).map(interval => ({
+      startTime: new Date(interval.start || ''),
+      endTime: new Date(interval.end || '')
+    })));
+  }
+
+  return busy;
+};
+
+/**
+ * Room location written to the event, e.g. "Orion (HQ, Floor 3)"
+ */
+export function formatRoomLocation(room: Pick<MeetingRoom, 'name' | 'building' | 'floor'>): string {
+  const details = [room.building, room.floor && `Floor ${room.floor}`].filter(Boolean);
+  return details.length > 0 ? `${room.name} (${details.join(', ')})` : room.name;
+}
+
+/**
+ * Finds rooms that seat a meeting and are free for it
+ */
+export class MeetingRoomService {
+  constructor(
+    private readonly catalogs: MeetingRoomCatalog[] = [googleWorkspaceRoomCatalog, createConfigRoomCatalog()],
+    private readonly busyLookup: RoomBusyLookup = googleRoomBusyLookup
+  ) {}
+
+  /**
+   * Every room from every catalog. A room listed by both Google and the config
+   * file (same resource calendar) is kept once, with the Google details.
+   */
+  async listRooms(user: User): Promise<MeetingRoom[]> {
+    const lists = await Promise.all(this.catalogs.map(catalog => catalog.listRooms(user).catch(error => {
+      console.error('Error listing meeting rooms:', error);
+      return [] as MeetingRoom[];
+    })));
+
+    const rooms = new Map<string, MeetingRoom>();
+    for (const room of lists.flat()) {
+      const key = (room.calendarId || `${room.source}:${room.id}`).toLowerCase();
+      if (!rooms.has(key)) {
+        rooms.set(key, room);
+      }
+    }
+    return Array.from(rooms.values());
+  }
+
+  /**
+   * Rooms that seat `headcount` people and have nothing booked in the window, smallest
+   * fitting room first. Rooms without a calendar are listed last since they cannot be checked.
+   */
+  async findAvailableRooms(user: User, startTime: Date, endTime: Date, headcount: number): Promise<MeetingRoomOption[]> {
+    const rooms = (await this.listRooms(user)).filter(room => room.capacity === undefined || room.capacity >= headcount);
+    const calendarIds = rooms.map(room => room.calendarId).filter((id): id is string => !!id);
+
+    let busy = new Map<string, BusyInterval[]>();
+    try {
+      busy = await this.busyLookup(user, calendarIds, startTime, endTime);
+    } catch (error) {
+      console.error('Error checking meeting room availability:', error);
+    }
+
+    const options: MeetingRoomOption[] = [];
+    for (const room of rooms) {
+      const intervals = room.calendarId ? busy.get(room.calendarId) : undefined;
+      if (room.calendarId && !intervals) {
+        // The room's calendar could not be read, so it may well be taken
+        continue;
+      }
+      if (intervals?.some(interval => interval.startTime < endTime && interval.endTime > startTime)) {
+        continue;
+      }
+      options.push({ ...room, availabilityKnown: !!intervals });
+    }
+
+    return options.sort((a, b) =>
+      Number(b.availabilityKnown) - Number(a.availabilityKnown) ||
+      (a.capacity ?? Infinity) - (b.capacity ?? Infinity) ||
+      a.name.localeCompare(b.name)
+    );
+  }
+}
+
+export const meetingRoomService = new MeetingRoomService();
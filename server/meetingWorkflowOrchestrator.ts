@@ -1,24 +1,45 @@
 import { ConversationContextEngine } from './conversationContext.js';
-import { BusinessRulesEngine, type ValidationResult } from './businessRules.js';
+import { BusinessRulesEngine, getMeetingHeadcount, type ValidationResult } from './businessRules.js';
 import { AttendeeValidator } from './attendeeValidator.js';
 import { agendaGenerator, type AgendaContent } from './agendaGenerator.js';
-import { createCalendarEvent } from './googleCalendar.js';
+import { createCalendarEvent, fetchUpcomingEvents, getCalendarEvent, listCalendars } from './googleCalendar.js';
 import { calendarAccessVerifier, type CalendarAccessStatus } from './calendarAccessVerifier.js';
-import { CalendarAvailabilityService, type AvailabilityResult, type TimeSlot } from './calendarAvailabilityService.js';
+import { CalendarAvailabilityService, type AvailabilityResult, type RecurringAvailabilityResult, type MultiAttendeeSlotResult, type RankedTimeSlot, type SlotAttendee, type TimeSlot } from './calendarAvailabilityService.js';
+import { RecurrenceService } from './recurrenceService.js';
+import {
+    parseEditCommand,
+    resolveTargetEvent,
+    buildEditChanges,
+    diffEventChanges,
+    deserializeEditChanges,
+    validateMeetingEdit,
+    applyMeetingEdit,
+    formatEventTime,
+    isTimeChange,
+    type EditableEvent
+} from './meetingEditService.js';
+import { userProfileService } from './userProfileService.js';
+import { meetingRoomService, formatRoomLocation } from './meetingRoomService.js';
+import { taskAccessService } from './taskAccessService.js';
+import { DEFAULT_WORKING_HOURS_PROFILE, type WorkingHoursProfile } from './utils/workingHours.js';
 import { userFeedbackService, FeedbackUtils, WORKFLOW_STEP_INFO, type UserFeedbackMessage } from './userFeedbackService.js';
 import { MEETING_CREATION_PROMPTS } from './prompts.js';
 import { db } from './storage.js';
 import { events, meetingDrafts } from '../shared/schema.js';
+import { coerceAgendaDocument, renderAgendaMarkdown, renderAgendaPlainText, toAgendaDocument, toAgendaFields } from '../shared/agendaDocument.js';
 import { eq } from 'drizzle-orm';
 import { DynamicMessageGenerator } from './dynamicMessageGenerator.js';
 import { transcriptService, type MeetingTranscript, type MeetingSummary, type MeetingTask } from './transcriptService.js';
 import { retryWithExponentialBackoff, isRetryableError } from './utils/retryUtils.js';
+import type { TextChunkHandler } from './aiProviderRegistry.js';
 import type {
     MeetingData,
     ConversationMessage,
     User,
     InsertEvent,
-    InsertMeetingDraft
+    InsertMeetingDraft,
+    MeetingEditChangesInput,
+    MeetingRoomOption
 } from '../shared/schema.js';
 
 export type WorkflowStep =
@@ -53,6 +74,11 @@ export interface WorkflowState {
     errors: string[];
     calendarAccessStatus?: CalendarAccessStatus;
     availabilityResult?: AvailabilityResult;
+    recurringAvailability?: RecurringAvailabilityResult;
+    slotSuggestions?: MultiAttendeeSlotResult;
+    attendeeAvailabilityKey?: string;
+    roomOfferKey?: string; // time and attendees free rooms were last offered for
+    roomOptions?: MeetingRoomOption[];
     timeCollectionComplete: boolean;
     attendeeCollectionComplete: boolean;
 }
@@ -87,6 +113,7 @@ export class MeetingWorkflowOrchestrator {
     private workflowState: WorkflowState;
     private transitions: WorkflowTransition[] = [];
     private user?: User;
+    private workingHours?: WorkingHoursProfile;
 
     constructor(
         contextEngine: ConversationContextEngine,
@@ -120,6 +147,100 @@ export class MeetingWorkflowOrchestrator {
         return { ...this.workflowState };
     }
 
+    /**
+     * Loads the organizer's working hours profile once and shares it with the business rules
+     */
+    private async loadWorkingHours(): Promise<WorkingHoursProfile> {
+        if (!this.workingHours) {
+            this.workingHours = this.user ?
+                await userProfileService.getWorkingHours(this.user.id) :
+                DEFAULT_WORKING_HOURS_PROFILE;
+            this.businessRules.setWorkingHours(this.workingHours);
+        }
+
+        return this.workingHours;
+    }
+
+    /**
+     * Calendar the meeting goes to: the one picked for this meeting, else the one last
+     * used for its meeting type, else the organizer's primary calendar
+     */
+    private async resolveTargetCalendarId(meetingData: Partial<MeetingData>): Promise<string> {
+        if (meetingData.calendarId) {
+            return meetingData.calendarId;
+        }
+
+        return this.user ? userProfileService.getMeetingTypeCalendarId(this.user.id, meetingData.type) : 'primary';
+    }
+
+    /**
+     * Calendars the organizer can create the meeting in, offered on the approval card.
+     * Failing to list them only hides the picker.
+     */
+    private async getWritableCalendars(): Promise<Array<{ id: string; summary: string }>> {
+        if (!this.user) {
+            return [];
+        }
+
+        try {
+            const calendars = await listCalendars(this.user);
+            return calendars
+                .filter(calendar => calendar.writable)
+                .map(calendar => ({ id: calendar.id, summary: calendar.summary }));
+        } catch (error) {
+            console.warn('Could not list calendars for meeting approval:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Builds slot finder attendees, attaching working hours for attendees who have a profile
+     */
+    private async getSlotAttendees(): Promise<SlotAttendee[]> {
+        const attendees = this.workflowState.meetingData.attendees || [];
+        const attendeeWorkingHours = await userProfileService.getWorkingHoursByEmail(attendees.map(a => a.email));
+
+        const slotAttendees: SlotAttendee[] = attendees.map(attendee => ({
+            email: attendee.email,
+            isRequired: attendee.isRequired !== false,
+            workingHours: attendeeWorkingHours.get(attendee.email.toLowerCase())
+        }));
+
+        // A booked room has to be free too; its resource calendar answers free/busy like a person
+        const room = this.workflowState.meetingData.room;
+        if (this.workflowState.meetingData.type === 'physical' && room?.calendarId) {
+            slotAttendees.push({ email: room.calendarId, isRequired: true });
+        }
+
+        return slotAttendees;
+    }
+
+    /**
+     * Warns when the meeting falls outside the working hours of attendees with a known profile
+     */
+    private async getAttendeeWorkingHoursWarnings(): Promise<string[]> {
+        const meetingData = this.workflowState.meetingData;
+
+        if (!meetingData.startTime || !meetingData.endTime || !meetingData.attendees?.length) {
+            return [];
+        }
+
+        try {
+            const attendeeWorkingHours = await userProfileService.getWorkingHoursByEmail(
+                meetingData.attendees.map(a => a.email)
+            );
+
+            return this.businessRules.validateAttendeeWorkingHours(
+                new Date(meetingData.startTime),
+                new Date(meetingData.endTime),
+                attendeeWorkingHours
+            ).warnings;
+        } catch (error) {
+            console.error('Error checking attendee working hours:', error);
+            return [];
+        }
+    }
+
     /**
      * Initializes workflow transitions
      */
@@ -132,16 +253,23 @@ export class MeetingWorkflowOrchestrator {
      * Processes a user message and advances the workflow with comprehensive error handling
      * Requirements: 5.3, 5.4 - Handle errors gracefully and provide recovery mechanisms
      */
-    async processMessage(message: ConversationMessage): Promise<WorkflowResponse> {
+    async processMessage(message: ConversationMessage, onToken?: TextChunkHandler): Promise<WorkflowResponse> {
         try {
+            await this.loadWorkingHours();
+
             // Add message to conversation context
             await this.contextEngine.addMessage(message);
 
             // Update workflow state based on conversation context
             await this.updateWorkflowState();
 
+            // Pick up recurrence phrases ("every Tuesday", "biweekly until December")
+            if (message.role === 'user') {
+                await this.detectRecurrence(message.content);
+            }
+
             // Execute current step logic
-            const response = await this.executeCurrentStep(message);
+            const response = await this.executeCurrentStep(message, onToken);
 
             // Check for workflow transitions
             await this.checkTransitions();
@@ -400,6 +528,8 @@ export class MeetingWorkflowOrchestrator {
      */
     async advanceToStep(step: WorkflowStep, data?: any): Promise<WorkflowResponse> {
         try {
+            await this.loadWorkingHours();
+
             const originalStep = this.workflowState.currentStep;
 
             // First validate current step before attempting to advance
@@ -503,7 +633,7 @@ export class MeetingWorkflowOrchestrator {
      * Executes the logic for the current workflow step with comprehensive error handling
      * Requirements: 5.3, 5.4 - Handle errors gracefully and provide clear feedback
      */
-    private async executeCurrentStep(message: ConversationMessage): Promise<WorkflowResponse> {
+    private async executeCurrentStep(message: ConversationMessage, onToken?: TextChunkHandler): Promise<WorkflowResponse> {
         try {
             switch (this.workflowState.currentStep) {
                 case 'intent_detection':
@@ -523,7 +653,7 @@ export class MeetingWorkflowOrchestrator {
                             attendeeCount: this.workflowState.meetingData.attendees?.length || 0
                         };
 
-                        const dynamicMessage = await generateDynamicResponse('meeting_type_selection', responseContext);
+                        const dynamicMessage = await generateDynamicResponse('meeting_type_selection', responseContext, onToken);
 
                         return {
                             message: dynamicMessage,
@@ -1465,6 +1595,41 @@ export class MeetingWorkflowOrchestrator {
         }
     }
 
+    /**
+     * Detects a recurrence pattern in a user message and stores it on the meeting data.
+     * An existing recurrence is only replaced when the new message describes a different rule.
+     */
+    async detectRecurrence(content: string): Promise<void> {
+        try {
+            const referenceDate = this.workflowState.meetingData.startTime
+                ? new Date(this.workflowState.meetingData.startTime)
+                : new Date();
+            const rule = RecurrenceService.detectRecurrence(content, referenceDate, (await this.loadWorkingHours()).timezone);
+
+            if (!rule) {
+                return;
+            }
+
+            const rrule = RecurrenceService.buildRRule(rule);
+            if (this.workflowState.meetingData.recurrence?.rrule === rrule) {
+                return;
+            }
+
+            this.workflowState.meetingData.recurrence = {
+                rrule,
+                summary: RecurrenceService.describeRecurrence(rule)
+            };
+            // Any previous single-occurrence check no longer covers the series
+            this.workflowState.recurringAvailability = undefined;
+
+            console.log(`Recurrence detected: ${rrule}`);
+            await this.persistWorkflowState();
+        } catch (error) {
+            console.error('Error detecting recurrence:', error);
+            // Recurrence detection is best-effort; continue as a one-off meeting
+        }
+    }
+
     /**
      * Handles time and date collection with error handling
      */
@@ -1571,6 +1736,11 @@ export class MeetingWorkflowOrchestrator {
             const startTime = new Date(meetingData.startTime);
             const endTime = new Date(meetingData.endTime);
 
+            // Recurring meetings are checked across the first occurrences of the series
+            if (meetingData.recurrence) {
+                return await this.handleRecurringAvailabilityCheck(startTime, endTime, meetingData.recurrence.rrule);
+            }
+
             // Check availability using calendar service
             const conflictDetails = await CalendarAvailabilityService.checkCalendarConflicts(
                 this.user!,
@@ -1634,6 +1804,63 @@ export class MeetingWorkflowOrchestrator {
         }
     }
 
+    /**
+     * Checks availability for each of the first occurrences of a recurring meeting
+     */
+    private async handleRecurringAvailabilityCheck(
+        startTime: Date,
+        endTime: Date,
+        rrule: string
+    ): Promise<WorkflowResponse> {
+        const recurringResult = await CalendarAvailabilityService.checkRecurringAvailability(
+            this.user!,
+            startTime,
+            endTime,
+            rrule
+        );
+
+        this.workflowState.recurringAvailability = recurringResult;
+        this.workflowState.availabilityResult = {
+            isAvailable: recurringResult.isAvailable,
+            conflicts: recurringResult.conflictingOccurrences.flatMap(occurrence => occurrence.conflicts)
+        };
+        await this.persistWorkflowState();
+
+        const summary = this.workflowState.meetingData.recurrence?.summary || 'Recurring meeting';
+
+        if (recurringResult.isAvailable) {
+            const feedbackMessage = FeedbackUtils.success(
+                'Recurring time slot available',
+                [`Checked the first ${recurringResult.occurrencesChecked} occurrences`, 'No conflicts detected']
+            );
+
+            return {
+                message: `Great! ${summary} is free for the first ${recurringResult.occurrencesChecked} occurrences. Let's collect attendee information.`,
+                nextStep: 'attendee_collection',
+                requiresUserInput: false,
+                feedbackMessage
+            };
+        }
+
+        const conflictLines = recurringResult.conflictingOccurrences.map(occurrence =>
+            `${occurrence.startTime.toLocaleDateString()} (${occurrence.conflicts.map(c => `"${c.title}"`).join(', ')})`
+        );
+
+        const feedbackMessage = FeedbackUtils.warning(
+            'Conflicts in recurring series',
+            conflictLines,
+            ['Choose different time', 'Proceed anyway', 'Resolve conflicts']
+        );
+
+        return {
+            message: `${summary}: ${recurringResult.conflictingOccurrences.length} of the first ${recurringResult.occurrencesChecked} occurrences have conflicts:\n${conflictLines.map(line => `• ${line}`).join('\n')}\n\nWould you like to choose a different time or proceed anyway?`,
+            nextStep: 'conflict_resolution',
+            requiresUserInput: true,
+            warnings: [`${recurringResult.conflictingOccurrences.length} recurring occurrences have conflicts`],
+            feedbackMessage
+        };
+    }
+
     /**
      * Handles conflict resolution with error handling
      * Requirements: 5.3, 5.4 - Handle conflicts gracefully and provide clear feedback
@@ -1653,34 +1880,58 @@ export class MeetingWorkflowOrchestrator {
 
             // Generate alternative time suggestions if not already available
             if (!availabilityResult.suggestedAlternatives && this.user) {
-                try {
-                    const meetingData = this.workflowState.meetingData;
-                    const duration = meetingData.endTime && meetingData.startTime ?
-                        Math.round((new Date(meetingData.endTime).getTime() - new Date(meetingData.startTime).getTime()) / (1000 * 60)) :
-                        60; // Default 1 hour
+                const meetingData = this.workflowState.meetingData;
+                const duration = meetingData.endTime && meetingData.startTime ?
+                    Math.round((new Date(meetingData.endTime).getTime() - new Date(meetingData.startTime).getTime()) / (1000 * 60)) :
+                    60; // Default 1 hour
 
-                    const alternatives = await CalendarAvailabilityService.suggestAlternativeTimeSlots(
+                try {
+                    // Rank slots across every attendee's free/busy, not just the organizer's calendar
+                    const slotResult = await CalendarAvailabilityService.findMultiAttendeeSlots(
                         this.user,
+                        await this.getSlotAttendees(),
                         new Date(meetingData.startTime!),
-                        duration
+                        duration,
+                        undefined,
+                        undefined,
+                        await this.loadWorkingHours()
                     );
 
-                    availabilityResult.suggestedAlternatives = alternatives;
-                    this.workflowState.availabilityResult = availabilityResult;
-                    await this.persistWorkflowState();
+                    this.workflowState.slotSuggestions = slotResult;
+                    availabilityResult.suggestedAlternatives = slotResult.slots;
                 } catch (error) {
-                    console.error('Error generating alternatives:', error);
-                    // Continue without alternatives
+                    console.error('Error finding multi-attendee slots, falling back to organizer calendar:', error);
+
+                    try {
+                        availabilityResult.suggestedAlternatives = await CalendarAvailabilityService.suggestAlternativeTimeSlots(
+                            this.user,
+                            new Date(meetingData.startTime!),
+                            duration,
+                            undefined,
+                            await this.loadWorkingHours()
+                        );
+                    } catch (fallbackError) {
+                        console.error('Error generating alternatives:', fallbackError);
+                        // Continue without alternatives
+                    }
                 }
+
+                this.workflowState.availabilityResult = availabilityResult;
+                await this.persistWorkflowState();
             }
 
             const conflictInfo = availabilityResult.conflicts.map(conflict =>
                 `"${conflict.title}" from ${conflict.startTime.toLocaleTimeString()} to ${conflict.endTime.toLocaleTimeString()}`
             ).join(', ');
 
-            let message = `I found conflicts with: ${conflictInfo}. `;
+            let message = conflictInfo ?
+                `I found conflicts with: ${conflictInfo}. ` :
+                'Some attendees are busy at the requested time. ';
+            const slotSuggestions = this.workflowState.slotSuggestions;
 
-            if (availabilityResult.suggestedAlternatives && availabilityResult.suggestedAlternatives.length > 0) {
+            if (slotSuggestions && slotSuggestions.slots.length > 0) {
+                message += `I checked availability for ${slotSuggestions.attendeesChecked.length} participant(s) and ranked these times:\n${this.formatRankedSlots(slotSuggestions.slots)}\n\nPick a time below, or specify a different time.`;
+            } else if (availabilityResult.suggestedAlternatives && availabilityResult.suggestedAlternatives.length > 0) {
                 const alternativesList = availabilityResult.suggestedAlternatives.map((alt, index) =>
                     `${index + 1}. ${alt.startTime.toLocaleDateString()} at ${alt.startTime.toLocaleTimeString()}`
                 ).join('\n');
@@ -1700,9 +1951,17 @@ export class MeetingWorkflowOrchestrator {
 
             return {
                 message,
+                uiBlock: slotSuggestions && slotSuggestions.slots.length > 0 ?
+                    this.createTimeSlotSelectionBlock(slotSuggestions) :
+                    undefined,
                 nextStep: 'conflict_resolution',
                 requiresUserInput: true,
-                warnings: [`${availabilityResult.conflicts.length} scheduling conflicts found`],
+                warnings: [
+                    `${availabilityResult.conflicts.length} scheduling conflicts found`,
+                    ...(slotSuggestions?.unavailableCalendars.length ?
+                        [`Free/busy not available for: ${slotSuggestions.unavailableCalendars.join(', ')}`] :
+                        [])
+                ],
                 feedbackMessage
             };
 
@@ -1724,6 +1983,418 @@ export class MeetingWorkflowOrchestrator {
         }
     }
 
+    /**
+     * Formats ranked slot suggestions as a numbered list with attendee conflicts
+     */
+    private formatRankedSlots(slots: RankedTimeSlot[]): string {
+        return slots.map((slot, index) => {
+            const busy = [...slot.requiredConflicts, ...slot.optionalConflicts];
+            let status = busy.length === 0 ? 'everyone free' : `busy: ${busy.join(', ')}`;
+            if (slot.outsideWorkingHours.length > 0) {
+                status += `; outside working hours for ${slot.outsideWorkingHours.join(', ')}`;
+            }
+            return `${index + 1}. ${slot.startTime.toLocaleDateString()} at ${slot.startTime.toLocaleTimeString()} (${status})`;
+        }).join('\n');
+    }
+
+    /**
+     * Creates the selectable slot list shown during conflict resolution
+     */
+    private createTimeSlotSelectionBlock(slotResult: MultiAttendeeSlotResult): UIBlock {
+        return {
+            type: 'time_slot_selection',
+            data: {
+                meetingId: this.workflowState.meetingData.id || `meeting-${Date.now()}`,
+                requestedStartTime: new Date(this.workflowState.meetingData.startTime!).toISOString(),
+                attendeesChecked: slotResult.attendeesChecked,
+                unavailableCalendars: slotResult.unavailableCalendars,
+                slots: slotResult.slots.map(slot => ({
+                    startTime: slot.startTime.toISOString(),
+                    endTime: slot.endTime.toISOString(),
+                    requiredConflicts: slot.requiredConflicts,
+                    optionalConflicts: slot.optionalConflicts,
+                    outsideWorkingHours: slot.outsideWorkingHours
+                }))
+            }
+        };
+    }
+
+    /**
+     * Applies a slot picked from the time slot selection block and continues to attendee collection
+     */
+    async selectTimeSlot(startTime: string, endTime: string): Promise<WorkflowResponse> {
+        const start = new Date(startTime);
+        const end = new Date(endTime);
+
+        if (isNaN(start.getTime()) || isNaN(end.getTime()) || end <= start) {
+            return {
+                message: 'That time slot is not valid. Please pick one of the suggested times.',
+                nextStep: 'conflict_resolution',
+                requiresUserInput: true,
+                validationErrors: ['Invalid time slot selected']
+            };
+        }
+
+        // The chosen slot was ranked from fresh free/busy data, so the previous conflicts no longer apply
+        this.workflowState.availabilityResult = { isAvailable: true, conflicts: [] };
+        this.workflowState.slotSuggestions = undefined;
+        this.workflowState.recurringAvailability = undefined;
+        this.workflowState.meetingData.startTime = start;
+        this.workflowState.meetingData.endTime = end;
+        this.workflowState.attendeeAvailabilityKey = this.getAttendeeAvailabilityKey();
+
+        return await this.advanceToStep('attendee_collection', { startTime: start, endTime: end });
+    }
+
+    /**
+     * Handles requests to change an existing meeting, e.g. "move tomorrow's design review to Thursday 3pm".
+     * Returns null when the message is not an edit command so regular processing can continue.
+     */
+    async handleMeetingEditRequest(message: string): Promise<WorkflowResponse | null> {
+        const command = parseEditCommand(message);
+        if (!command || !this.user) {
+            return null;
+        }
+
+        const currentStep = this.workflowState.currentStep;
+        const workingHours = await this.loadWorkingHours();
+
+        let upcomingEvents: EditableEvent[];
+        try {
+            upcomingEvents = await fetchUpcomingEvents(this.user, 50);
+        } catch (error) {
+            console.error('Error loading events for meeting edit:', error);
+            return {
+                message: "I couldn't load your upcoming meetings right now. Please try again in a moment.",
+                nextStep: currentStep,
+                requiresUserInput: true,
+                validationErrors: ['Failed to fetch calendar events']
+            };
+        }
+
+        const { event, candidates } = resolveTargetEvent(upcomingEvents, command.targetReference, workingHours.timezone);
+        if (!event) {
+            const message = candidates.length > 1 ?
+                `I found several meetings matching "${command.targetReference}":\n${candidates.slice(0, 5).map(candidate =>
+                    `• ${candidate.title} (${formatEventTime(candidate.startTime, candidate.endTime, workingHours.timezone)})`).join('\n')}\n\nWhich one did you mean?` :
+                `I couldn't find an upcoming meeting matching "${command.targetReference}".`;
+
+            return { message, nextStep: currentStep, requiresUserInput: true };
+        }
+
+        let newStartTime: Date | undefined;
+        if (command.action === 'reschedule') {
+            const { extractTimeFromMessage, createTimeExtractionContext } = await import('./timeExtractor.js');
+            const extracted = await extractTimeFromMessage(command.value, createTimeExtractionContext(workingHours));
+            newStartTime = extracted?.startTime;
+        }
+
+        const { changes, errors } = buildEditChanges(command, event, this.user.email, newStartTime);
+        if (errors.length > 0) {
+            return {
+                message: errors.join('\n'),
+                nextStep: currentStep,
+                requiresUserInput: true,
+                validationErrors: errors
+            };
+        }
+
+        const diff = diffEventChanges(event, changes, workingHours.timezone);
+        if (diff.length === 0) {
+            return {
+                message: `"${event.title}" already matches that, so there is nothing to change.`,
+                nextStep: currentStep,
+                requiresUserInput: true
+            };
+        }
+
+        const validation = await validateMeetingEdit(this.user, event, changes, workingHours);
+        if (!validation.isValid) {
+            return {
+                message: `I can't make that change to "${event.title}":\n${validation.errors.map(error => `• ${error}`).join('\n')}`,
+                nextStep: currentStep,
+                requiresUserInput: true,
+                validationErrors: validation.errors,
+                warnings: validation.warnings
+            };
+        }
+
+        const conflictNote = validation.conflicts.length > 0 ?
+            `\n\n⚠️ Conflicts at the new time:\n${validation.conflicts.map(conflict => `• ${conflict}`).join('\n')}` :
+            '';
+
+        return {
+            message: `Here's what will change in "${event.title}". Please confirm.${conflictNote}`,
+            uiBlock: {
+                type: 'meeting_edit_approval',
+                data: {
+                    eventId: event.id,
+                    eventTitle: event.title,
+                    diff,
+                    changes: {
+                        ...changes,
+                        startTime: changes.startTime?.toISOString(),
+                        endTime: changes.endTime?.toISOString()
+                    },
+                    conflicts: validation.conflicts,
+                    warnings: validation.warnings,
+                    timeChanged: isTimeChange(event, changes)
+                }
+            },
+            nextStep: currentStep,
+            requiresUserInput: true,
+            warnings: validation.warnings
+        };
+    }
+
+    /**
+     * Applies an edit confirmed in the meeting edit approval block.
+     * Validation is repeated because the calendar may have changed since the proposal.
+     */
+    async confirmMeetingEdit(eventId: string, changesInput: MeetingEditChangesInput): Promise<WorkflowResponse> {
+        const currentStep = this.workflowState.currentStep;
+
+        if (!this.user) {
+            return {
+                message: 'Please sign in again to update this meeting.',
+                nextStep: currentStep,
+                requiresUserInput: true,
+                validationErrors: ['User not authenticated']
+            };
+        }
+
+        const workingHours = await this.loadWorkingHours();
+
+        try {
+            const event = await getCalendarEvent(this.user, eventId);
+            const changes = deserializeEditChanges(changesInput);
+
+            const validation = await validateMeetingEdit(this.user, event, changes, workingHours);
+            if (!validation.isValid) {
+                return {
+                    message: `I can't make that change to "${event.title}":\n${validation.errors.map(error => `• ${error}`).join('\n')}`,
+                    nextStep: currentStep,
+                    requiresUserInput: true,
+                    validationErrors: validation.errors,
+                    warnings: validation.warnings
+                };
+            }
+
+            const result = await applyMeetingEdit(this.user, event, changes, workingHours);
+            const title = changes.title || event.title;
+            const timeNote = isTimeChange(event, changes) ?
+                `\n\nNew time: ${formatEventTime(changes.startTime || event.startTime, changes.endTime || event.endTime, workingHours.timezone)}` :
+                '';
+            const agendaNote = result.agendaResent ? '\n\nThe agenda has been resent to attendees with the new time.' : '';
+
+            return {
+                message: `✅ "${title}" has been updated and attendees have been notified.${timeNote}${agendaNote}`,
+                nextStep: currentStep,
+                requiresUserInput: false,
+                warnings: validation.warnings
+            };
+        } catch (error) {
+            console.error('Error applying meeting edit:', error);
+            return {
+                message: `❌ Failed to update the meeting: ${(error as Error).message}. Please try again.`,
+                nextStep: currentStep,
+                requiresUserInput: true,
+                validationErrors: [(error as Error).message]
+            };
+        }
+    }
+
+    /**
+     * Identifies the attendee list and time an attendee free/busy check was run for
+     */
+    private getAttendeeAvailabilityKey(): string {
+        const meetingData = this.workflowState.meetingData;
+        const emails = (meetingData.attendees || []).map(attendee => attendee.email.toLowerCase()).sort();
+        return `${meetingData.startTime ? new Date(meetingData.startTime).toISOString() : ''}|${emails.join(',')}`;
+    }
+
+    /**
+     * Checks attendee free/busy at the requested time once attendees are known
+     * Returns a conflict resolution response when required attendees are busy, otherwise null
+     */
+    private async checkAttendeeAvailability(): Promise<WorkflowResponse | null> {
+        const meetingData = this.workflowState.meetingData;
+
+        if (!this.user || !meetingData.startTime || !meetingData.endTime || !meetingData.attendees?.length) {
+            return null;
+        }
+
+        // Only check each attendee list/time combination once so "keep this time" is respected
+        const availabilityKey = this.getAttendeeAvailabilityKey();
+        if (this.workflowState.attendeeAvailabilityKey === availabilityKey) {
+            return null;
+        }
+        this.workflowState.attendeeAvailabilityKey = availabilityKey;
+
+        let slotResult: MultiAttendeeSlotResult;
+        try {
+            slotResult = await CalendarAvailabilityService.findMultiAttendeeSlots(
+                this.user,
+                await this.getSlotAttendees(),
+                new Date(meetingData.startTime),
+                Math.round((new Date(meetingData.endTime).getTime() - new Date(meetingData.startTime).getTime()) / (1000 * 60)),
+                undefined,
+                undefined,
+                await this.loadWorkingHours()
+            );
+        } catch (error) {
+            console.error('Error checking attendee availability:', error);
+            return null;
+        }
+
+        // Organizer conflicts were already handled in the availability check step
+        const room = meetingData.room;
+        const busyAttendees = slotResult.requestedSlot.requiredConflicts
+            .filter(email => email.toLowerCase() !== this.user!.email.toLowerCase())
+            .map(email => room?.calendarId && email.toLowerCase() === room.calendarId.toLowerCase() ? room.name : email);
+
+        if (busyAttendees.length === 0) {
+            return null;
+        }
+
+        this.workflowState.slotSuggestions = slotResult;
+        this.workflowState.availabilityResult = {
+            isAvailable: false,
+            conflicts: this.workflowState.availabilityResult?.conflicts || [],
+            suggestedAlternatives: slotResult.slots
+        };
+        await this.persistWorkflowState();
+
+        const feedbackMessage = FeedbackUtils.warning(
+            'Attendees busy at requested time',
+            busyAttendees.map(email => `${email} is busy`),
+            ['Choose a suggested time', 'Keep the requested time']
+        );
+
+        let message = `${busyAttendees.join(', ')} ${busyAttendees.length === 1 ? 'is' : 'are'} busy at the requested time.`;
+        if (slotResult.slots.length > 0) {
+            message += ` Here are times ranked by attendee availability:\n${this.formatRankedSlots(slotResult.slots)}\n\nPick a time below or keep the requested time.`;
+        }
+
+        return {
+            message,
+            uiBlock: slotResult.slots.length > 0 ? this.createTimeSlotSelectionBlock(slotResult) : undefined,
+            nextStep: 'conflict_resolution',
+            requiresUserInput: true,
+            warnings: [`${busyAttendees.length} required attendee(s) busy at the requested time`],
+            feedbackMessage
+        };
+    }
+
+    /**
+     * Rooms that seat the meeting and are free at its time
+     */
+    private async findFreeRooms(): Promise<MeetingRoomOption[]> {
+        const meetingData = this.workflowState.meetingData;
+        if (!this.user || !meetingData.startTime || !meetingData.endTime) {
+            return [];
+        }
+
+        try {
+            return await meetingRoomService.findAvailableRooms(
+                this.user,
+                new Date(meetingData.startTime),
+                new Date(meetingData.endTime),
+                getMeetingHeadcount(meetingData)
+            );
+        } catch (error) {
+            console.error('Error finding meeting rooms:', error);
+            return [];
+        }
+    }
+
+    /**
+     * Offers free rooms that seat everyone once a physical meeting's time and attendees are known.
+     * Returns null when there is nothing to offer, a room is already booked or the offer was already made.
+     */
+    private async offerMeetingRooms(): Promise<WorkflowResponse | null> {
+        const meetingData = this.workflowState.meetingData;
+
+        if (!this.user || meetingData.type !== 'physical' || meetingData.room || !meetingData.startTime || !meetingData.endTime) {
+            return null;
+        }
+
+        // Offer once per time/attendee combination so keeping the typed location is respected
+        const roomOfferKey = this.getAttendeeAvailabilityKey();
+        if (this.workflowState.roomOfferKey === roomOfferKey) {
+            return null;
+        }
+        this.workflowState.roomOfferKey = roomOfferKey;
+
+        const headcount = getMeetingHeadcount(meetingData);
+        const rooms = await this.findFreeRooms();
+        if (rooms.length === 0) {
+            return null;
+        }
+
+        this.workflowState.roomOptions = rooms;
+        await this.persistWorkflowState();
+
+        const roomBlock: UIBlock = {
+            type: 'meeting_type_selection',
+            data: {
+                meetingId: meetingData.id || `draft-${Date.now()}`,
+                question: `These rooms are free at that time and seat ${headcount} ${headcount === 1 ? 'person' : 'people'}. Would you like to book one?`,
+                currentType: 'physical',
+                currentLocation: meetingData.location,
+                rooms
+            }
+        };
+
+        return {
+            message: `${rooms.length} room${rooms.length === 1 ? ' is' : 's are'} free for your meeting. Pick one to book it, or keep ${meetingData.location ? `"${meetingData.location}"` : 'your own location'}.`,
+            uiBlock: roomBlock,
+            nextStep: 'attendee_collection',
+            requiresUserInput: true
+        };
+    }
+
+    /**
+     * Books a room offered in the room selection block, or keeps the typed location when no room is given
+     */
+    async selectMeetingRoom(roomId?: string): Promise<WorkflowResponse> {
+        const rooms = this.workflowState.roomOptions || [];
+        this.workflowState.roomOptions = undefined;
+
+        if (!roomId) {
+            await this.persistWorkflowState();
+            return await this.advanceToStep('attendee_collection');
+        }
+
+        // The offer is kept in memory only; look again if this workflow was restored since
+        const room = rooms.find(option => option.id === roomId) ||
+            (await this.findFreeRooms()).find(option => option.id === roomId);
+        if (!room) {
+            return {
+                message: 'That room is no longer free at this time. Please keep your location or pick another time.',
+                nextStep: this.workflowState.currentStep,
+                requiresUserInput: true,
+                validationErrors: ['Unknown meeting room selected']
+            };
+        }
+
+        const capacityValidation = this.businessRules.validateRoomCapacity(room, getMeetingHeadcount(this.workflowState.meetingData));
+        if (!capacityValidation.isValid) {
+            return {
+                message: capacityValidation.errors.join(' '),
+                nextStep: this.workflowState.currentStep,
+                requiresUserInput: true,
+                validationErrors: capacityValidation.errors
+            };
+        }
+
+        const { availabilityKnown, ...bookedRoom } = room;
+        return await this.advanceToStep('attendee_collection', {
+            room: bookedRoom,
+            location: formatRoomLocation(room)
+        });
+    }
+
     /**
      * Handles attendee collection with enhanced business rule enforcement for online meetings
      * Requirements: 4.1, 4.3 - Enforce attendee requirements for online meetings with validation error messaging
@@ -1903,6 +2574,12 @@ export class MeetingWorkflowOrchestrator {
                         };
                     }
 
+                    // Make sure the requested time works for the attendees before moving on
+                    const attendeeConflictResponse = await this.checkAttendeeAvailability();
+                    if (attendeeConflictResponse) {
+                        return attendeeConflictResponse;
+                    }
+
                     // All validations passed for online meeting
                     this.workflowState.attendeeCollectionComplete = true;
                     await this.persistWorkflowState();
@@ -1990,6 +2667,17 @@ export class MeetingWorkflowOrchestrator {
                             };
                         }
 
+                        // Make sure the requested time works for the attendees before moving on
+                        const attendeeConflictResponse = await this.checkAttendeeAvailability();
+                        if (attendeeConflictResponse) {
+                            return attendeeConflictResponse;
+                        }
+
+                        const roomOfferResponse = await this.offerMeetingRooms();
+                        if (roomOfferResponse) {
+                            return roomOfferResponse;
+                        }
+
                         // Mark collection complete for physical meetings with valid attendees
                         this.workflowState.attendeeCollectionComplete = true;
                         await this.persistWorkflowState();
@@ -2030,6 +2718,11 @@ export class MeetingWorkflowOrchestrator {
                     await this.persistWorkflowState();
                 }
 
+                const roomOfferResponse = await this.offerMeetingRooms();
+                if (roomOfferResponse) {
+                    return roomOfferResponse;
+                }
+
                 const progressFeedback = FeedbackUtils.stepTransition(
                     'availability_check',
                     'meeting_details_collection',
@@ -2299,8 +2992,8 @@ export class MeetingWorkflowOrchestrator {
                     []
                 );
 
-                // Store the generated agenda
-                meetingData.agenda = JSON.stringify(agendaContent);
+                // Store the generated agenda as a structured document with its markdown rendering
+                Object.assign(meetingData, toAgendaFields(toAgendaDocument(agendaContent)));
                 this.workflowState.meetingData = meetingData;
                 await this.persistWorkflowState();
 
@@ -2309,7 +3002,8 @@ export class MeetingWorkflowOrchestrator {
                     type: 'agenda_editor',
                     data: {
                         meetingId: meetingData.id || `draft-${Date.now()}`,
-                        initialAgenda: agendaGenerator.formatAgenda(agendaContent),
+                        initialAgenda: meetingData.agenda!,
+                        initialDocument: meetingData.agendaDocument,
                         meetingTitle: meetingData.title || 'Meeting',
                         duration: agendaContent.duration,
                         isApprovalMode: false
@@ -2334,7 +3028,7 @@ export class MeetingWorkflowOrchestrator {
 
                 // Provide fallback - create basic agenda
                 const fallbackAgenda = this.createFallbackAgenda(meetingData);
-                meetingData.agenda = JSON.stringify(fallbackAgenda);
+                Object.assign(meetingData, toAgendaFields(toAgendaDocument(fallbackAgenda)));
                 this.workflowState.meetingData = meetingData;
                 await this.persistWorkflowState();
 
@@ -2343,7 +3037,8 @@ export class MeetingWorkflowOrchestrator {
                     type: 'agenda_editor',
                     data: {
                         meetingId: meetingData.id || `draft-${Date.now()}`,
-                        initialAgenda: this.formatFallbackAgenda(fallbackAgenda),
+                        initialAgenda: meetingData.agenda!,
+                        initialDocument: meetingData.agendaDocument,
                         meetingTitle: meetingData.title || 'Meeting',
                         duration: fallbackAgenda.duration,
                         isApprovalMode: false
@@ -2388,7 +3083,7 @@ export class MeetingWorkflowOrchestrator {
     /**
      * Creates a fallback agenda when AI generation fails
      */
-    private createFallbackAgenda(meetingData: Partial<MeetingData>): { title: string; duration: number; topics: any[]; actionItems: any[] } {
+    private createFallbackAgenda(meetingData: Partial<MeetingData>): AgendaContent {
         const fallbackTopics = [
             {
                 title: 'Welcome and Introductions',
@@ -2420,34 +3115,6 @@ export class MeetingWorkflowOrchestrator {
         };
     }
 
-    /**
-     * Formats fallback agenda for display
-     */
-    private formatFallbackAgenda(agenda: { title: string; duration: number; topics: any[]; actionItems: any[] }): string {
-        let formatted = `# ${agenda.title}\n\n`;
-        formatted += `**Duration:** ${agenda.duration} minutes\n\n`;
-        
-        if (agenda.topics.length > 0) {
-            formatted += `## Agenda Items\n\n`;
-            agenda.topics.forEach((topic, index) => {
-                formatted += `${index + 1}. **${topic.title}** (${topic.duration} min)\n`;
-                if (topic.description) {
-                    formatted += `   ${topic.description}\n`;
-                }
-                formatted += '\n';
-            });
-        }
-        
-        if (agenda.actionItems.length > 0) {
-            formatted += `## Action Items\n\n`;
-            agenda.actionItems.forEach((item: any, index: number) => {
-                formatted += `${index + 1}. ${item.task || item}\n`;
-            });
-        }
-        
-        return formatted;
-    }
-
     /**
      * Handles agenda approval with error handling
      * Requirements: 5.3, 5.4 - Handle agenda approval process with clear feedback
@@ -2473,32 +3140,19 @@ export class MeetingWorkflowOrchestrator {
                 };
             }
 
-            // Parse and display agenda for approval
-            let parsedAgenda: any;
-            let agendaItemCount = 0;
-
-            try {
-                parsedAgenda = JSON.parse(meetingData.agenda);
-                agendaItemCount = parsedAgenda.topics ? parsedAgenda.topics.length : 1;
-            } catch (error) {
-                // If agenda is not JSON, create a basic structure
-                parsedAgenda = {
-                    title: 'Meeting Agenda',
-                    duration: 60,
-                    topics: [{ title: meetingData.agenda, duration: 60 }],
-                    actionItems: []
-                };
-                agendaItemCount = 1;
-            }
+            // Agendas saved before the structured document existed are coerced from their text
+            const agendaDocument = meetingData.agendaDocument ?? coerceAgendaDocument(meetingData.agenda, meetingData.title || 'Meeting Agenda')!;
+            const agendaItemCount = Math.max(agendaDocument.topics.length, 1);
 
             // Create agenda approval UI block
             const agendaApprovalBlock: UIBlock = {
                 type: 'agenda_editor',
                 data: {
                     meetingId: meetingData.id || `draft-${Date.now()}`,
-                    initialAgenda: agendaGenerator.formatAgenda(parsedAgenda),
+                    initialAgenda: renderAgendaMarkdown(agendaDocument),
+                    initialDocument: agendaDocument,
                     meetingTitle: meetingData.title || 'Meeting',
-                    duration: parsedAgenda.duration || 60,
+                    duration: agendaDocument.duration || 60,
                     isApprovalMode: true
                 }
             };
@@ -2563,6 +3217,9 @@ export class MeetingWorkflowOrchestrator {
                 };
             }
 
+            // Attendees in other timezones get a warning when the slot is outside their hours
+            const warnings = [...validation.warnings, ...await this.getAttendeeWorkingHoursWarnings()];
+
             // Create meeting summary for approval
             const summary = this.createMeetingSummary(meetingData);
 
@@ -2572,11 +3229,34 @@ export class MeetingWorkflowOrchestrator {
                 { validationPassed: true }
             );
 
+            const approvalBlock: UIBlock = {
+                type: 'meeting_approval',
+                data: {
+                    meetingId: meetingData.id || `meeting-${Date.now()}`,
+                    title: meetingData.title || 'Meeting',
+                    type: meetingData.type || 'online',
+                    startTime: meetingData.startTime ? new Date(meetingData.startTime).toISOString() : '',
+                    endTime: meetingData.endTime ? new Date(meetingData.endTime).toISOString() : '',
+                    location: meetingData.location,
+                    attendees: meetingData.attendees || [],
+                    agenda: meetingData.agenda,
+                    calendarId: await this.resolveTargetCalendarId(meetingData),
+                    calendars: await this.getWritableCalendars(),
+                    recurrence: this.createRecurrenceApprovalData(),
+                    validation: {
+                        isValid: validation.isValid,
+                        errors: validation.errors,
+                        warnings
+                    }
+                }
+            };
+
             return {
                 message: `Perfect! Here's a summary of your meeting:\n\n${summary}\n\nEverything looks good. Shall I create this meeting in your calendar?`,
+                uiBlock: approvalBlock,
                 nextStep: 'approval',
                 requiresUserInput: true,
-                warnings: validation.warnings,
+                warnings,
                 feedbackMessage: progressFeedback
             };
 
@@ -2629,13 +3309,13 @@ export class MeetingWorkflowOrchestrator {
             const tasks = await transcriptService.extractTasksFromSummary(summary);
 
             // Store tasks in database
-            await this.storeMeetingTasks(meetingId, tasks);
+            await this.storeMeetingTasks(meetingId, tasks, user.id);
 
             // Send summary to attendees
             await this.sendSummaryToAttendees(meetingData, summary, user);
 
             // Generate magic links for attendees
-            const magicLinks = await this.generateMagicLinksForAttendees(meetingId, meetingData.attendees || []);
+            const magicLinks = await this.generateMagicLinksForAttendees(user.id, meetingId, meetingData);
 
             // Send magic link emails to attendees
             await this.sendMagicLinkEmails(meetingData, magicLinks, user);
@@ -2649,53 +3329,17 @@ export class MeetingWorkflowOrchestrator {
     }
 
     /**
-     * Store extracted tasks in database with transaction handling and retry logic
+     * Store extracted tasks in database with retry logic
      */
-    private async storeMeetingTasks(meetingId: string, tasks: MeetingTask[]): Promise<void> {
-        console.log(`📋 Starting task storage process for meeting: ${meetingId}`);
-        
-        // First, always save to file system as a primary storage mechanism
-        const { taskFileStorage } = await import('./utils/taskFileStorage.js');
-        await taskFileStorage.saveTasks(meetingId, tasks);
-        
-        // Then try to save to database with retry logic
+    private async storeMeetingTasks(meetingId: string, tasks: MeetingTask[], userId: string): Promise<void> {
         try {
             await retryWithExponentialBackoff(async () => {
-                // Import database operations
-                const { db } = await import('./storage.js');
-                const { tasks: taskTable, events: eventTable } = await import('../shared/schema.js');
-                const { eq } = await import('drizzle-orm');
-
-                // Use transaction to ensure atomicity
-                await db.transaction(async (tx) => {
-                    // First verify the event exists
-                    const eventCheck = await tx.select().from(eventTable).where(eq(eventTable.id, meetingId));
-                    if (eventCheck.length === 0) {
-                        throw new Error(`Cannot store tasks in database: Event with ID ${meetingId} does not exist`);
-                    }
-
-                    // Insert tasks
-                    for (const task of tasks) {
-                        await tx.insert(taskTable).values({
-                            eventId: meetingId,
-                            title: task.title,
-                            description: task.description,
-                            assignee: task.assignee || 'Unassigned',
-                            deadline: task.dueDate,
-                            status: task.status,
-                            createdAt: new Date()
-                        });
-                    }
-                });
-
-                console.log(`💾 Successfully stored ${tasks.length} tasks in database for meeting: ${meetingId}`);
+                const { taskService } = await import('./taskService.js');
+                await taskService.saveMeetingTasks(meetingId, tasks, userId);
             }, 3, 1000);
         } catch (error) {
             console.error(`❌ Failed to store tasks in database: ${(error as Error).message}`);
-            console.log(`ℹ️ Note: Tasks are still available in the task files.`);
         }
-        
-        console.log(`✅ Task storage process completed for meeting: ${meetingId}`);
     }
 
     /**
@@ -2776,27 +3420,26 @@ Generated by AI Assistant
     }
 
     /**
-     * Generate magic links for attendees to access their tasks
+     * Issue signed task links for attendees, keyed by lowercased email
      */
     private async generateMagicLinksForAttendees(
+        userId: string,
         meetingId: string,
-        attendees: any[]
+        meetingData: Partial<MeetingData>
     ): Promise<Map<string, string>> {
-        const magicLinks = new Map<string, string>();
+        const attendees = meetingData.attendees || [];
+        if (attendees.length === 0) {
+            return new Map();
+        }
 
         try {
-            // Generate unique magic links for each attendee
-            for (const attendee of attendees) {
-                const token = this.generateMagicToken();
-                const magicLink = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/tasks/${meetingId}?token=${token}&email=${encodeURIComponent(attendee.email)}`;
-                magicLinks.set(attendee.email, magicLink);
-            }
-
-            console.log(`🔗 Generated ${magicLinks.size} magic links for meeting: ${meetingId}`);
-            return magicLinks;
+            const issued = await taskAccessService.issueLinks(userId, meetingId, attendees.map(attendee => attendee.email), {
+                meetingTitle: meetingData.title
+            });
+            return new Map(issued.map(({ link, url }) => [link.attendeeEmail, url]));
         } catch (error) {
             console.error('Error generating magic links:', error);
-            return magicLinks;
+            return new Map();
         }
     }
 
@@ -2818,27 +3461,12 @@ Generated by AI Assistant
 
             // Send magic link emails
             for (const attendee of meetingData.attendees) {
-                const magicLink = magicLinks.get(attendee.email);
+                const magicLink = magicLinks.get(attendee.email.toLowerCase());
                 if (magicLink) {
-                    const emailContent = `
-Hello ${attendee.firstName || attendee.email},
-
-Your meeting "${meetingData.title}" has concluded and tasks have been generated.
-
-Click the link below to view and complete your assigned tasks:
-${magicLink}
-
-This link will allow you to:
-• View all tasks from the meeting
-• Mark your tasks as complete
-• See progress on team tasks
-
----
-This is an automated message from your AI Calendar Assistant.
-                    `.trim();
-
-                    // Use a simple email approach for magic links
-                    console.log(`📧 Magic link email would be sent to ${attendee.email}: ${magicLink}`);
+                    const result = await gmailService.sendTaskLinkEmail(user, attendee, meetingData.title || 'your meeting', magicLink);
+                    if (!result.success) {
+                        console.error(`Failed to send task link to ${attendee.email}: ${result.error}`);
+                    }
                 }
             }
 
@@ -2850,10 +3478,26 @@ This is an automated message from your AI Calendar Assistant.
     }
 
     /**
-     * Generate a unique magic token for task access
+     * Builds the recurrence section of the approval block, listing occurrences that conflict
      */
-    private generateMagicToken(): string {
-        return `magic_${Date.now()}_${Math.random().toString(36).substr(2, 16)}`;
+    private createRecurrenceApprovalData(): Record<string, any> | undefined {
+        const recurrence = this.workflowState.meetingData.recurrence;
+        if (!recurrence) {
+            return undefined;
+        }
+
+        const recurringAvailability = this.workflowState.recurringAvailability;
+
+        return {
+            rrule: recurrence.rrule,
+            summary: recurrence.summary,
+            occurrencesChecked: recurringAvailability?.occurrencesChecked || 0,
+            conflictingOccurrences: (recurringAvailability?.conflictingOccurrences || []).map(occurrence => ({
+                startTime: new Date(occurrence.startTime).toISOString(),
+                endTime: new Date(occurrence.endTime).toISOString(),
+                conflicts: occurrence.conflicts.map(conflict => conflict.title)
+            }))
+        };
     }
 
     /**
@@ -2871,6 +3515,10 @@ This is an automated message from your AI Calendar Assistant.
             lines.push(`🕐 ${startTime.toLocaleDateString()} from ${startTime.toLocaleTimeString()} to ${endTime.toLocaleTimeString()}`);
         }
 
+        if (meetingData.recurrence) {
+            lines.push(`🔁 Repeats: ${meetingData.recurrence.summary}`);
+        }
+
         if (meetingData.type) {
             lines.push(`📍 Type: ${meetingData.type === 'online' ? 'Online Meeting' : 'Physical Meeting'}`);
         }
@@ -2883,20 +3531,13 @@ This is an automated message from your AI Calendar Assistant.
             lines.push(`👥 Attendees: ${meetingData.attendees.map(a => a.email).join(', ')}`);
         }
 
-        if (meetingData.agenda) {
-            try {
-                const parsedAgenda = JSON.parse(meetingData.agenda);
-                if (parsedAgenda.topics && Array.isArray(parsedAgenda.topics)) {
-                    lines.push(`📋 Agenda:`);
-                    parsedAgenda.topics.forEach((item: any, index: number) => {
-                        lines.push(`   ${index + 1}. ${item.title} (${item.duration || 'TBD'} min)`);
-                    });
-                } else {
-                    lines.push(`📋 Agenda: ${meetingData.agenda}`);
-                }
-            } catch (error) {
-                lines.push(`📋 Agenda: ${meetingData.agenda}`);
-            }
+        if (meetingData.agendaDocument?.topics.length) {
+            lines.push(`📋 Agenda:`);
+            meetingData.agendaDocument.topics.forEach((item, index) => {
+                lines.push(`   ${index + 1}. ${item.title} (${item.duration || 'TBD'} min)`);
+            });
+        } else if (meetingData.agenda) {
+            lines.push(`📋 Agenda: ${meetingData.agenda}`);
         }
 
         return lines.join('\n');
@@ -2988,27 +3629,10 @@ This is an automated message from your AI Calendar Assistant.
                 // For database storage, we need just the email addresses
                 const attendeeEmails = meetingData.attendees ? meetingData.attendees.map(a => a.email) : [];
 
-                // Enhanced description with agenda formatting
-                let enhancedDescription = meetingData.agenda || '';
-                if (meetingData.agenda) {
-                    try {
-                        const parsedAgenda = JSON.parse(meetingData.agenda);
-                        if (parsedAgenda.topics && Array.isArray(parsedAgenda.topics)) {
-                            enhancedDescription = `Meeting Agenda:\n\n${parsedAgenda.topics.map((topic: any, index: number) => 
-                                `${index + 1}. ${topic.title} (${topic.duration || 'TBD'} min)${topic.description ? '\n   ' + topic.description : ''}`
-                            ).join('\n\n')}`;
-                            
-                            if (parsedAgenda.actionItems && parsedAgenda.actionItems.length > 0) {
-                                enhancedDescription += `\n\nAction Items:\n${parsedAgenda.actionItems.map((item: any, index: number) => 
-                                    `${index + 1}. ${item.task || item}${item.assignee ? ' (' + item.assignee + ')' : ''}`
-                                ).join('\n')}`;
-                            }
-                        }
-                    } catch (error) {
-                        // Keep original agenda if parsing fails
-                        enhancedDescription = meetingData.agenda;
-                    }
-                }
+                // The calendar description is rendered from the structured agenda when there is one
+                const enhancedDescription = meetingData.agendaDocument
+                    ? renderAgendaPlainText(meetingData.agendaDocument)
+                    : meetingData.agenda || '';
 
                 // Create event data for database (uses email strings)
                 const eventData = {
@@ -3019,14 +3643,18 @@ This is an automated message from your AI Calendar Assistant.
                     attendees: attendeeEmails,
                     userId: this.user.id,
                     meetingLink: meetingData.meetingLink || null,
-                    agenda: meetingData.agenda || null
+                    agenda: meetingData.agenda || null,
+                    calendarId: await this.resolveTargetCalendarId(meetingData),
+                    recurrenceRule: meetingData.recurrence?.rrule || null
                 } as InsertEvent;
 
                 // Create calendar event data (uses attendee objects with names)
                 const calendarEventData = {
                     ...eventData,
                     attendees: attendeeData,
-                    location: meetingData.type === 'physical' ? meetingData.location : null
+                    location: meetingData.type === 'physical' ? meetingData.location : null,
+                    resources: meetingData.type === 'physical' && meetingData.room?.calendarId ? [meetingData.room.calendarId] : [],
+                    timeZone: (await this.loadWorkingHours()).timezone
                 };
 
                 // Attempt calendar event creation
@@ -3041,13 +3669,29 @@ This is an automated message from your AI Calendar Assistant.
                     meetingData.meetingLink = createdEvent.meetingLink;
                 }
                 
+                meetingData.calendarId = eventData.calendarId;
+                
                 this.workflowState.meetingData = meetingData;
                 this.workflowState.isComplete = true;
                 await this.persistWorkflowState();
 
+                // The next meeting of this type goes to the same calendar
+                if (meetingData.type) {
+                    try {
+                        await userProfileService.rememberMeetingTypeCalendar(this.user.id, meetingData.type, eventData.calendarId!);
+                    } catch (preferenceError) {
+                        console.error('Error remembering the meeting calendar:', preferenceError);
+                    }
+                }
+
                 // Save to database
                 try {
-                    await db.insert(events).values(eventData as any);
+                    await db.insert(events).values({
+                        ...eventData,
+                        googleEventId: createdEvent.id || null,
+                        meetingLink: meetingData.meetingLink || null,
+                        location: calendarEventData.location || null
+                    } as any);
                 } catch (dbError) {
                     console.error('Error saving to database:', dbError);
                     // Don't fail the entire operation for database issues
@@ -3088,6 +3732,10 @@ This is an automated message from your AI Calendar Assistant.
                     successMessage += ` The Google Meet link has been automatically included in the calendar invite.`;
                 }
 
+                if (meetingData.recurrence) {
+                    successMessage += ` The meeting repeats: ${meetingData.recurrence.summary.toLowerCase()}.`;
+                }
+
                 // Add next steps for transcript generation
                 successMessage += `\n\n📋 Next Steps:\n`;
                 successMessage += `• I'll generate a comprehensive transcript once the meeting concludes\n`;
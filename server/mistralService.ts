@@ -2,6 +2,8 @@ import { Mistral } from '@mistralai/mistralai';
 import { performanceMonitor } from './performanceMonitor.js';
 import { aiServiceErrorHandler } from './errorHandlers/aiServiceErrorHandler.js';
 import { retryWithExponentialBackoff, isRetryableError } from './utils/retryUtils.js';
+import { promptRegistry, renderPromptForCall } from './promptRegistry.js';
+import { aiRoutingLogger } from './aiRoutingLogger.js';
 
 // Mistral configuration interface
 export interface MistralConfig {
@@ -60,18 +62,8 @@ const defaultConfig: MistralConfig = {
 };
 
 // Enhanced system prompt for conversational responses
-const SYSTEM_PROMPT = `You are CalAI, an AI calendar assistant. Be concise, professional, and helpful.
-
-Guidelines:
-- Keep responses under 2 sentences maximum
-- Use natural, conversational language
-- Be direct and actionable
-- Avoid jargon and complex explanations
-- Focus on the user's immediate needs
-- When asking questions, be specific and brief
-- Never make up information or hallucinate
-- Always verify facts before stating them
-- If uncertain, ask for clarification`;
+const ASSISTANT_SYSTEM_PROMPT = promptRegistry.render('assistant_system');
+const SYSTEM_PROMPT = ASSISTANT_SYSTEM_PROMPT.text;
 
 /**
  * Check if Mistral service is available
@@ -171,9 +163,13 @@ export async function generateResponse(messages: MistralMessage[]): Promise<stri
 
         try {
             // Ensure we have a system message
-            const messagesWithSystem = messages.some(m => m.role === 'system')
+            const hasSystem = messages.some(m => m.role === 'system');
+            const messagesWithSystem = hasSystem
                 ? messages
                 : [{ role: 'system' as const, content: SYSTEM_PROMPT }, ...messages];
+            if (!hasSystem) {
+                aiRoutingLogger.logPromptUsage(ASSISTANT_SYSTEM_PROMPT, 'mistral');
+            }
 
             const response = await mistralClient!.chat.complete({
                 model: defaultConfig.model,
@@ -205,6 +201,57 @@ export async function generateResponse(messages: MistralMessage[]): Promise<stri
     }, 3, 1000);
 }
 
+/**
+ * Streams a Mistral response, passing text to onChunk as it is generated.
+ * Not retried, since part of the answer may already have been shown.
+ */
+export async function streamResponse(
+    messages: MistralMessage[],
+    onChunk: (chunk: string) => void
+): Promise<string> {
+    if (!isMistralAvailable()) {
+        throw new Error('Mistral service is not available. Please check MISTRAL_API_KEY configuration.');
+    }
+
+    const startTime = Date.now();
+    const inputText = messages.map(m => m.content).join(' ');
+    const inputTokens = performanceMonitor.estimateTokenCount(inputText);
+
+    try {
+        const hasSystem = messages.some(m => m.role === 'system');
+        const messagesWithSystem = hasSystem
+            ? messages
+            : [{ role: 'system' as const, content: SYSTEM_PROMPT }, ...messages];
+        if (!hasSystem) {
+            aiRoutingLogger.logPromptUsage(ASSISTANT_SYSTEM_PROMPT, 'mistral');
+        }
+
+        const stream = await mistralClient!.chat.stream({
+            model: defaultConfig.model,
+            messages: messagesWithSystem,
+            temperature: defaultConfig.temperature,
+            maxTokens: defaultConfig.maxTokens,
+            topP: defaultConfig.topP
+        });
+
+        let content = '';
+        for await (const event of stream) {
+            const delta = event.data.choices?.[0]?.delta?.content;
+            if (typeof delta === 'string' && delta) {
+                content += delta;
+                onChunk(delta);
+            }
+        }
+
+        logSuccessfulCall('general_response_stream', inputTokens, performanceMonitor.estimateTokenCount(content), Date.now() - startTime, defaultConfig.model);
+
+        return content.trim();
+    } catch (error: any) {
+        logFailedCall('general_response_stream', inputTokens, Date.now() - startTime, error.message || 'Unknown Mistral API error', defaultConfig.model);
+        throw handleMistralError(error, 'general_response_stream');
+    }
+}
+
 /**
  * Generate basic conversational response
  * Optimized for simple chat interactions
@@ -234,30 +281,16 @@ export async function verifyAttendees(emails: string[]): Promise<AttendeeVerific
         throw new Error('Mistral service is not available. Please check MISTRAL_API_KEY configuration.');
     }
 
-    const verificationPrompt = `Analyze the following email addresses and determine if they are valid email formats and appear to be from trusted domains (common business domains, educational institutions, or well-known email providers).
-
-Email addresses to verify: ${JSON.stringify(emails)}
-
-Return a JSON array with this exact format:
-[
-  {
-    "email": "example@domain.com",
-    "valid": true,
-    "trusted": true
-  }
-]
-
-Rules:
-- "valid": true if the email format is correct (contains @ and valid domain structure)
-- "trusted": true if the domain appears to be from a business, educational, or well-known email provider
-- Be conservative with trust assessment - only mark as trusted if clearly legitimate`;
+    const verificationPrompt = renderPromptForCall('attendee_verification.mistral', {
+        emails: JSON.stringify(emails)
+    }, 'mistral');
 
     const startTime = Date.now();
     const inputTokens = performanceMonitor.estimateTokenCount(verificationPrompt);
 
     try {
         const messages: MistralMessage[] = [
-            { role: 'system', content: 'You are an email validation assistant. Respond only with valid JSON.' },
+            { role: 'system', content: renderPromptForCall('attendee_verification.mistral.system', {}, 'mistral') },
             { role: 'user', content: verificationPrompt }
         ];
 
@@ -313,23 +346,18 @@ export async function generateMeetingTitles(
         throw new Error('Mistral service is not available. Please check MISTRAL_API_KEY configuration.');
     }
 
-    const titlePrompt = `Generate 3 concise meeting titles (under 6 words each) for this purpose. Respond with JSON only.
-
-Purpose: "${purpose}"
-Participants: ${participants.join(', ') || 'Not specified'}
-Context: "${context}"
-
-{
-  "suggestions": ["Title1", "Title2", "Title3"],
-  "context": "brief explanation"
-}`;
+    const titlePrompt = renderPromptForCall('meeting_title_generation.mistral', {
+        purpose,
+        participants: participants.join(', ') || 'Not specified',
+        context
+    }, 'mistral');
 
     const startTime = Date.now();
     const inputTokens = performanceMonitor.estimateTokenCount(titlePrompt);
 
     try {
         const messages: MistralMessage[] = [
-            { role: 'system', content: 'You are a meeting title generation assistant. Respond only with valid JSON.' },
+            { role: 'system', content: renderPromptForCall('meeting_title_generation.mistral.system', {}, 'mistral') },
             { role: 'user', content: titlePrompt }
         ];
 
@@ -395,32 +423,19 @@ export async function enhancePurposeWording(
         throw new Error('Mistral service is not available. Please check MISTRAL_API_KEY configuration.');
     }
 
-    const purposePrompt = `Enhance and expand this meeting purpose into a detailed, professional description.
-
-Brief Purpose: "${purpose}"
-Meeting Title: "${title}"
-Participants: ${participants.join(', ') || 'Not specified'}
-Context: "${context}"
-
-Respond with JSON only:
-{
-  "enhancedPurpose": "2-3 sentence professional description",
-  "keyPoints": ["point1", "point2", "point3"]
-}
-
-Guidelines:
-- Expand the brief purpose into clear, professional language
-- Include key objectives or discussion points
-- Keep it concise but descriptive (2-3 sentences max)
-- Make it suitable for a calendar event description
-- Extract 3 key points from the expanded purpose`;
+    const purposePrompt = renderPromptForCall('purpose_enhancement.mistral', {
+        purpose,
+        title,
+        participants: participants.join(', ') || 'Not specified',
+        context
+    }, 'mistral');
 
     const startTime = Date.now();
     const inputTokens = performanceMonitor.estimateTokenCount(purposePrompt);
 
     try {
         const messages: MistralMessage[] = [
-            { role: 'system', content: 'You are a purpose enhancement assistant. Respond only with valid JSON.' },
+            { role: 'system', content: renderPromptForCall('purpose_enhancement.mistral.system', {}, 'mistral') },
             { role: 'user', content: purposePrompt }
         ];
 
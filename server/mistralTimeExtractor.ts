@@ -3,6 +3,8 @@
  * This function is called by the AI router service
  */
 
+import { renderPromptForCall } from './promptRegistry.js';
+
 /**
  * Extract time from natural language using Mistral AI
  */
@@ -12,6 +14,8 @@ export async function extractTimeFromNaturalLanguage(
         currentDate: string;
         currentTime: string;
         timezone: string;
+        workingHours?: string;
+        defaultDurationMinutes?: number;
         conversationHistory?: string[];
         meetingContext?: any;
     }
@@ -23,28 +27,14 @@ export async function extractTimeFromNaturalLanguage(
 } | null> {
     try {
         // Create a prompt for Mistral
-        const prompt = `
-        Extract time information from the following message:
-        "${message}"
-
-        Current date: ${context.currentDate}
-        Current time: ${context.currentTime}
-        Timezone: ${context.timezone}
-
-        Return the extracted time information in JSON format with the following structure:
-        {
-            "startTime": "ISO string",
-            "endTime": "ISO string or null if not specified",
-            "confidence": number between 0 and 1,
-            "reasoning": "explanation of how the time was extracted"
-        }
-
-        Guidelines:
-        - If no specific time is mentioned, use a reasonable default (like 2pm for business meetings)
-        - If only start time is mentioned, assume 1 hour duration for end time
-        - Consider the current date/time context when parsing relative expressions
-        - Be precise with timezone handling
-        `;
+        const prompt = renderPromptForCall('time_extraction', {
+            message,
+            currentDate: context.currentDate,
+            currentTime: context.currentTime,
+            timezone: context.timezone,
+            workingHoursLine: context.workingHours ? `\n        Working hours: ${context.workingHours}` : '',
+            defaultDurationMinutes: context.defaultDurationMinutes || 60
+        }, 'mistral');
 
         // Call Mistral API
         const { generateResponse } = await import('./mistralService.js');
@@ -6,7 +6,7 @@
 export interface AICallMetrics {
   id: string;
   timestamp: Date;
-  service: 'gemini' | 'google' | 'mistral';
+  service: string;
   operation: string;
   tokenCount: {
     input: number;
@@ -0,0 +1,481 @@
+/**
+ * Prompt versions registered with the prompt registry. Changed wording goes in
+ * as a new version of the same id, so logged calls and evaluation runs can be
+ * traced back to the exact text. Version 1 of the meeting creation prompts is
+ * the text in prompts.ts.
+ */
+
+import { MEETING_CREATION_PROMPTS } from './prompts.js';
+import type { PromptTemplate } from './promptRegistry.js';
+
+export const PROMPT_CATALOG: PromptTemplate[] = [
+    {
+        id: 'assistant_system',
+        version: 1,
+        description: 'Default system instruction for conversational replies',
+        variables: [],
+        template: `You are CalAI, an AI calendar assistant. Be concise, professional, and helpful.
+
+Guidelines:
+- Keep responses under 2 sentences maximum
+- Use natural, conversational language
+- Be direct and actionable
+- Avoid jargon and complex explanations
+- Focus on the user's immediate needs
+- When asking questions, be specific and brief
+- Never make up information or hallucinate
+- Always verify facts before stating them
+- If uncertain, ask for clarification`
+    },
+    {
+        id: 'meeting_intent_extraction',
+        version: 1,
+        description: 'Detects meeting intent and fields in a chat message',
+        variables: ['userMessage', 'context'],
+        template: MEETING_CREATION_PROMPTS.MEETING_INTENT_EXTRACTION,
+        outputSchema: 'extractMeetingIntent'
+    },
+    {
+        id: 'meeting_title_generation',
+        version: 1,
+        description: 'Suggests three meeting titles',
+        variables: ['purpose', 'participants', 'context'],
+        template: MEETING_CREATION_PROMPTS.TITLE_GENERATION,
+        outputSchema: 'generateMeetingTitles'
+    },
+    {
+        id: 'purpose_enhancement',
+        version: 1,
+        description: 'Expands a meeting purpose into detailed wording',
+        variables: ['purpose', 'title', 'participants', 'context'],
+        template: MEETING_CREATION_PROMPTS.PURPOSE_ENHANCEMENT,
+        outputSchema: 'enhancePurposeWording'
+    },
+    {
+        id: 'attendee_verification',
+        version: 1,
+        description: 'Checks attendee email addresses',
+        variables: ['emails'],
+        template: MEETING_CREATION_PROMPTS.ATTENDEE_VERIFICATION,
+        outputSchema: 'verifyAttendees'
+    },
+    {
+        id: 'meeting_title_generation.mistral',
+        version: 1,
+        description: 'Suggests three meeting titles on Mistral',
+        variables: ['purpose', 'participants', 'context'],
+        template: `Generate 3 concise meeting titles (under 6 words each) for this purpose. Respond with JSON only.
+
+Purpose: "{purpose}"
+Participants: {participants}
+Context: "{context}"
+
+{
+  "suggestions": ["Title1", "Title2", "Title3"],
+  "context": "brief explanation"
+}`,
+        outputSchema: 'generateMeetingTitles'
+    },
+    {
+        id: 'meeting_title_generation.mistral.system',
+        version: 1,
+        description: 'System instruction for meeting_title_generation.mistral',
+        variables: [],
+        template: 'You are a meeting title generation assistant. Respond only with valid JSON.'
+    },
+    {
+        id: 'purpose_enhancement.mistral',
+        version: 1,
+        description: 'Expands a meeting purpose into detailed wording on Mistral',
+        variables: ['purpose', 'title', 'participants', 'context'],
+        template: `Enhance and expand this meeting purpose into a detailed, professional description.
+
+Brief Purpose: "{purpose}"
+Meeting Title: "{title}"
+Participants: {participants}
+Context: "{context}"
+
+Respond with JSON only:
+{
+  "enhancedPurpose": "2-3 sentence professional description",
+  "keyPoints": ["point1", "point2", "point3"]
+}
+
+Guidelines:
+- Expand the brief purpose into clear, professional language
+- Include key objectives or discussion points
+- Keep it concise but descriptive (2-3 sentences max)
+- Make it suitable for a calendar event description
+- Extract 3 key points from the expanded purpose`,
+        outputSchema: 'enhancePurposeWording'
+    },
+    {
+        id: 'purpose_enhancement.mistral.system',
+        version: 1,
+        description: 'System instruction for purpose_enhancement.mistral',
+        variables: [],
+        template: 'You are a purpose enhancement assistant. Respond only with valid JSON.'
+    },
+    {
+        id: 'attendee_verification.mistral',
+        version: 1,
+        description: 'Checks attendee email addresses on Mistral',
+        variables: ['emails'],
+        template: `Analyze the following email addresses and determine if they are valid email formats and appear to be from trusted domains (common business domains, educational institutions, or well-known email providers).
+
+Email addresses to verify: {emails}
+
+Return a JSON array with this exact format:
+[
+  {
+    "email": "example@domain.com",
+    "valid": true,
+    "trusted": true
+  }
+]
+
+Rules:
+- "valid": true if the email format is correct (contains @ and valid domain structure)
+- "trusted": true if the domain appears to be from a business, educational, or well-known email provider
+- Be conservative with trust assessment - only mark as trusted if clearly legitimate`,
+        outputSchema: 'verifyAttendees'
+    },
+    {
+        id: 'attendee_verification.mistral.system',
+        version: 1,
+        description: 'System instruction for attendee_verification.mistral',
+        variables: [],
+        template: 'You are an email validation assistant. Respond only with valid JSON.'
+    },
+    {
+        id: 'agenda_generation',
+        version: 1,
+        description: 'Short agenda from meeting details',
+        variables: ['title', 'duration', 'purpose', 'participants', 'context'],
+        template: MEETING_CREATION_PROMPTS.AGENDA_GENERATION,
+        agenda: true
+    },
+    {
+        id: 'action_items_generation',
+        version: 1,
+        description: 'Suggests action items for a meeting',
+        variables: ['title', 'purpose', 'participants', 'topics', 'context'],
+        template: MEETING_CREATION_PROMPTS.ACTION_ITEMS_GENERATION,
+        outputSchema: 'generateActionItems'
+    },
+    {
+        id: 'conversation_summarization',
+        version: 1,
+        description: 'Summarizes a conversation to save tokens',
+        variables: ['messages'],
+        template: MEETING_CREATION_PROMPTS.CONVERSATION_SUMMARIZATION
+    },
+    {
+        id: 'context_compression',
+        version: 1,
+        description: 'Compresses conversation context around meeting data',
+        variables: ['fullContext', 'meetingData'],
+        template: MEETING_CREATION_PROMPTS.CONTEXT_COMPRESSION
+    },
+    {
+        id: 'multi_turn_intent',
+        version: 1,
+        description: 'Intent across several conversation turns',
+        variables: ['conversation', 'message'],
+        template: MEETING_CREATION_PROMPTS.MULTI_TURN_INTENT
+    },
+    {
+        id: 'time_extraction',
+        version: 1,
+        description: 'Reads meeting start and end times from a message',
+        variables: ['message', 'currentDate', 'currentTime', 'timezone', 'workingHoursLine', 'defaultDurationMinutes'],
+        template: `
+        Extract time information from the following message:
+        "{message}"
+
+        Current date: {currentDate}
+        Current time: {currentTime}
+        Timezone: {timezone}{workingHoursLine}
+
+        Return the extracted time information in JSON format with the following structure:
+        {
+            "startTime": "ISO string",
+            "endTime": "ISO string or null if not specified",
+            "confidence": number between 0 and 1,
+            "reasoning": "explanation of how the time was extracted"
+        }
+
+        Guidelines:
+        - If no specific time is mentioned, use a reasonable default (like 2pm for business meetings)
+        - If only start time is mentioned, assume {defaultDurationMinutes} minutes duration for end time
+        - Interpret times in the given timezone and prefer times inside the working hours
+        - Consider the current date/time context when parsing relative expressions
+        - Be precise with timezone handling
+        `,
+        outputSchema: 'extractTimeFromNaturalLanguage'
+    },
+    {
+        id: 'agenda_context_generation',
+        version: 1,
+        description: 'Agenda built from the analysed conversation',
+        variables: ['title', 'meetingType', 'agendaFormat', 'duration', 'attendeeCount', 'urgency', 'purpose', 'topics', 'keywords', 'actionItemsSection', 'participantsSection'],
+        template: `Generate a professional meeting agenda for "{title}".
+
+Meeting Details:
+- Type: {meetingType} ({agendaFormat} format)
+- Duration: {duration} minutes
+- Attendees: {attendeeCount} people
+- Urgency: {urgency}
+
+Meeting Purpose: {purpose}
+
+Key Topics to Cover:
+{topics}
+
+Relevant Keywords: {keywords}{actionItemsSection}{participantsSection}
+
+Create a structured agenda with:
+1. Brief welcome/context setting (2-5 min)
+2. Main discussion topics with realistic time allocations
+3. Action items and decision points
+4. Next steps and wrap-up (5-10 min)
+
+Requirements:
+- Format as numbered list with time allocations in minutes
+- Ensure total time does not exceed {duration} minutes
+- Include specific discussion points based on the topics mentioned
+- Be concise but comprehensive
+- Focus on actionable outcomes`,
+        agenda: true
+    },
+    {
+        id: 'agenda_text_generation',
+        version: 1,
+        description: 'Agenda from meeting details alone',
+        variables: ['title', 'meetingType', 'duration', 'attendeeCount', 'context'],
+        template: `Generate a professional meeting agenda for "{title}".
+
+Meeting Details:
+- Type: {meetingType}
+- Duration: {duration} minutes
+- Attendees: {attendeeCount} people
+- Context: {context}
+
+Create a structured agenda with:
+1. Welcome/introductions (if needed)
+2. Main topics with time allocations
+3. Action items discussion
+4. Next steps/wrap-up
+
+Format as numbered list with time allocations. Keep it concise and actionable.`,
+        agenda: true
+    },
+    {
+        id: 'agenda_text_generation.system',
+        version: 1,
+        description: 'System instruction for agenda_text_generation',
+        variables: [],
+        template: 'You are a professional meeting agenda generator. Create clear, time-efficient agendas that maximize productivity.'
+    },
+    {
+        id: 'agenda_system.general',
+        version: 1,
+        description: 'System instruction for general meeting agendas',
+        variables: [],
+        template: 'You are a professional meeting agenda generator. Create clear, time-efficient agendas that maximize productivity and ensure all participants contribute meaningfully.'
+    },
+    {
+        id: 'agenda_system.standup',
+        version: 1,
+        description: 'System instruction for standup meeting agendas',
+        variables: [],
+        template: 'You are a professional standup meeting facilitator. Create efficient, focused agendas that keep teams aligned and identify blockers quickly.'
+    },
+    {
+        id: 'agenda_system.planning',
+        version: 1,
+        description: 'System instruction for planning meeting agendas',
+        variables: [],
+        template: 'You are a strategic planning facilitator. Create comprehensive agendas that guide teams through goal-setting, timeline planning, and resource allocation.'
+    },
+    {
+        id: 'agenda_system.review',
+        version: 1,
+        description: 'System instruction for review meeting agendas',
+        variables: [],
+        template: 'You are a project review specialist. Create structured agendas that facilitate thorough progress assessment, lessons learned, and improvement planning.'
+    },
+    {
+        id: 'agenda_system.brainstorm',
+        version: 1,
+        description: 'System instruction for brainstorm meeting agendas',
+        variables: [],
+        template: 'You are a creative facilitation expert. Create dynamic agendas that encourage idea generation, creative thinking, and collaborative problem-solving.'
+    },
+    {
+        id: 'transcript_generation',
+        version: 1,
+        description: 'Writes a realistic transcript for a meeting',
+        variables: ['title', 'purpose', 'duration', 'participants', 'startTime', 'meetingLinkLine'],
+        template: `Generate a comprehensive, realistic meeting transcript for the following meeting:
+
+MEETING DETAILS:
+- Title: "{title}"
+- Purpose: "{purpose}"
+- Duration: {duration} minutes
+- Participants: {participants}
+- Start Time: {startTime}
+{meetingLinkLine}
+
+CRITICAL REQUIREMENTS:
+1. Create a LONG, detailed, realistic professional meeting transcript (1200-2000 words)
+2. Include ALL participants in the conversation, including the meeting organizer
+3. Make it conversational with natural flow, personal touches, and realistic dialogue
+4. Include casual elements like "How's the family?", inside jokes, and team banter
+5. Show progression: introductions → main discussion → problem-solving → decisions → action items → wrap-up
+6. Ensure every attendee speaks multiple times and contributes meaningfully
+7. Make discussions substantive and directly related to the meeting purpose
+8. Include specific challenges, solutions, decisions, and assigned action items
+9. Use professional language but with realistic conversational elements
+10. End with clear next steps, deadlines, and responsible parties
+
+TRANSCRIPT FORMAT:
+[09:00:00] Speaker Name (Role): Dialogue and discussion content
+
+[09:05:30] Another Speaker (Role): Response and follow-up discussion
+
+MANDATORY SECTIONS TO INCLUDE:
+- Opening introductions with personal touches
+- Detailed discussion of the main purpose and challenges
+- Problem identification and brainstorming solutions
+- Decision making process with different viewpoints
+- Action item assignment with specific deadlines and responsibilities
+- Meeting wrap-up with summary and next steps
+
+PARTICIPANT ROLES:
+- Use realistic names and roles based on email addresses
+- Include the meeting organizer as an active participant
+- Make sure everyone contributes to the discussion
+
+Focus on creating authentic, lengthy discussion that naturally leads to actionable tasks and demonstrates real team collaboration.`
+    },
+    {
+        id: 'transcript_generation.system',
+        version: 1,
+        description: 'System instruction for transcript_generation',
+        variables: [],
+        template: 'You are a professional meeting facilitator and transcript writer. Create extremely detailed, realistic meeting transcripts (1200-2000 words) that capture authentic professional discussions with personal elements, natural conversation flow, and comprehensive coverage of all topics. Every participant must speak multiple times. Include casual conversation, challenges, solutions, decisions, and specific action items with deadlines.'
+    },
+    {
+        id: 'meeting_summary',
+        version: 1,
+        description: 'Summarizes a meeting transcript',
+        variables: ['transcript'],
+        template: `
+        Analyze the following meeting transcript and create a comprehensive summary:
+
+        TRANSCRIPT:
+        {transcript}
+
+        REQUIREMENTS:
+        1. Create a concise but comprehensive summary (200-400 words)
+        2. Extract 3-5 key discussion points
+        3. Identify all decisions made during the meeting
+        4. List all action items and assignments
+        5. Highlight any challenges or important outcomes
+        6. Include participant engagement and key contributions
+        7. Note any follow-up requirements or deadlines
+        8. Maintain professional tone and focus on actionable content
+
+        SUMMARY FORMAT:
+        - Start with a brief overview paragraph
+        - List key points as bullet points
+        - Clearly identify decisions made
+        - List all action items with assignees and deadlines
+        - End with overall meeting assessment
+      `
+    },
+    {
+        id: 'meeting_summary.system',
+        version: 1,
+        description: 'System instruction for meeting_summary',
+        variables: [],
+        template: 'You are a professional meeting analyst. Extract key information from meeting transcripts and create clear, actionable summaries that highlight decisions, action items, and important outcomes.'
+    },
+    {
+        id: 'summary_extraction',
+        version: 1,
+        description: 'Pulls key points, decisions and action items from a summary',
+        variables: ['summary'],
+        template: `
+        From the following meeting summary, extract:
+
+        SUMMARY:
+        {summary}
+
+        Extract in JSON format:
+        {
+          "keyPoints": ["point 1", "point 2", "point 3"],
+          "decisions": ["decision 1", "decision 2"],
+          "actionItems": ["action 1 with assignee if mentioned", "action 2 with assignee if mentioned"]
+        }
+      `
+    },
+    {
+        id: 'summary_extraction.system',
+        version: 1,
+        description: 'System instruction for summary_extraction',
+        variables: [],
+        template: 'Extract key information from meeting summaries in JSON format.'
+    },
+    {
+        id: 'task_extraction',
+        version: 1,
+        description: 'Turns a meeting summary into tasks',
+        variables: ['summary', 'keyPoints', 'decisions', 'actionItems'],
+        template: `
+        Analyze the following meeting summary and extract actionable tasks:
+
+        SUMMARY:
+        {summary}
+
+        KEY POINTS:
+        {keyPoints}
+
+        DECISIONS:
+        {decisions}
+
+        ACTION ITEMS:
+        {actionItems}
+
+        REQUIREMENTS:
+        1. Extract all specific, actionable tasks from the summary
+        2. Create clear, specific task titles
+        3. Include detailed descriptions for each task
+        4. Assign appropriate priority levels (high, medium, low)
+        5. Identify potential assignees based on context
+        6. Set reasonable due dates (1-2 weeks from meeting date)
+        7. Categorize tasks appropriately
+        8. Estimate effort in hours where possible
+
+        Return tasks in JSON format:
+        [
+          {
+            "title": "Specific task title",
+            "description": "Detailed description of what needs to be done",
+            "assignee": "Person name or email if mentioned",
+            "priority": "high|medium|low",
+            "category": "development|design|planning|review|communication",
+            "estimatedHours": 4
+          }
+        ]
+      `
+    },
+    {
+        id: 'task_extraction.system',
+        version: 1,
+        description: 'System instruction for task_extraction',
+        variables: [],
+        template: 'You are a professional project manager specializing in task extraction from meeting summaries. Create specific, actionable tasks with clear assignments and priorities.'
+    }
+];
@@ -0,0 +1,184 @@
+/**
+ * Offline evaluation of prompt versions.
+ *
+ * Fixtures are recorded conversations: the variables a prompt was rendered
+ * with, the model's replies per prompt version and the fields the reply should
+ * contain. Replaying them through a prompt version scores how often its replies
+ * match the function's output schema, how many expected fields they get right
+ * and, for agenda prompts, how many pass the agenda validator.
+ */
+
+import { getOutputSchema, parseRepairedOutput } from './aiOutputSchemas.js';
+import { agendaGenerator } from './agendaGenerator.js';
+import {
+    promptRegistry,
+    type PromptRegistry,
+    type PromptTemplate,
+    type PromptVariables,
+    type RenderedPrompt
+} from './promptRegistry.js';
+
+export interface PromptEvalFixture {
+    id: string;
+    promptId: string;
+    variables: PromptVariables;
+    // Recorded replies keyed by prompt version, '*' for any version
+    responses?: Record<string, string>;
+    // Fields the parsed reply should contain
+    expected?: Record<string, unknown>;
+}
+
+export type PromptEvalProvider = (
+    prompt: RenderedPrompt,
+    fixture: PromptEvalFixture,
+    template: PromptTemplate
+) => Promise<string>;
+
+export interface PromptEvalResult {
+    fixtureId: string;
+    schemaValid?: boolean;
+    fieldsCorrect?: number;
+    fieldsTotal?: number;
+    agendaValid?: boolean;
+    error?: string;
+}
+
+export interface PromptEvalReport {
+    promptId: string;
+    version: number;
+    fixtures: number;
+    errors: number;
+    schemaValidity: number | null;
+    fieldAccuracy: number | null;
+    agendaPassRate: number | null;
+    results: PromptEvalResult[];
+}
+
+/**
+ * Replays the replies recorded for the prompt version under evaluation
+ */
+export function createRecordedProvider(): PromptEvalProvider {
+    return async (prompt, fixture) => {
+        const reply = fixture.responses?.[String(prompt.version)] ?? fixture.responses?.['*'];
+        if (reply === undefined) {
+            throw new Error(`No recorded response for ${prompt.id}@${prompt.version}`);
+        }
+        return reply;
+    };
+}
+
+/**
+ * Answers with the fixture's expected fields, or a fixed agenda, so fixtures
+ * and prompt rendering can be checked before any replies are recorded.
+ * Expected fields are usually partial, so its schema validity means little.
+ */
+export function createStubProvider(): PromptEvalProvider {
+    return async (_prompt, fixture, template) => {
+        if (template.agenda) {
+            return [
+                '1. Welcome and context (5 min)',
+                '2. Main discussion (20 min)',
+                '3. Decisions and action items (10 min)',
+                '4. Next steps and wrap-up (5 min)'
+            ].join('\n');
+        }
+        return fixture.expected ? JSON.stringify(fixture.expected) : 'null';
+    };
+}
+
+// Times are compared as instants, so "10:00Z" and "12:00+02:00" match
+function fieldMatches(actual: unknown, expected: unknown): boolean {
+    if (typeof actual === 'string' && typeof expected === 'string') {
+        const actualTime = Date.parse(actual);
+        const expectedTime = Date.parse(expected);
+        if (/\d{4}-\d{2}-\d{2}T/.test(expected) && !isNaN(actualTime) && !isNaN(expectedTime)) {
+            return actualTime === expectedTime;
+        }
+    }
+    return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+async function evaluateFixture(
+    fixture: PromptEvalFixture,
+    version: number,
+    provider: PromptEvalProvider,
+    registry: PromptRegistry
+): Promise<PromptEvalResult> {
+    const result: PromptEvalResult = { fixtureId: fixture.id };
+
+    try {
+        const template = registry.get(fixture.promptId, version);
+        const prompt = registry.render(fixture.promptId, fixture.variables, version);
+        const reply = await provider(prompt, fixture, template);
+
+        const schema = template.outputSchema ? getOutputSchema(template.outputSchema) : undefined;
+        if (schema) {
+            let parsed: unknown;
+            try {
+                parsed = parseRepairedOutput(reply, schema);
+                result.schemaValid = schema.safeParse(parsed).success;
+            } catch {
+                result.schemaValid = false;
+            }
+
+            if (fixture.expected) {
+                const fields = Object.entries(fixture.expected);
+                const output = (parsed && typeof parsed === 'object' ? parsed : {}) as Record<string, unknown>;
+                result.fieldsTotal = fields.length;
+                result.fieldsCorrect = fields.filter(([name, value]) => fieldMatches(output[name], value)).length;
+            }
+        }
+
+        if (template.agenda) {
+            result.agendaValid = agendaGenerator.validateAgenda(reply).isValid;
+        }
+    } catch (error) {
+        result.error = error instanceof Error ? error.message : String(error);
+    }
+
+    return result;
+}
+
+function rate(passed: number, total: number): number | null {
+    return total > 0 ? passed / total : null;
+}
+
+/**
+ * Scores each prompt's fixtures against the given version, or the prompt's active version
+ */
+export async function runPromptEval(
+    fixtures: PromptEvalFixture[],
+    provider: PromptEvalProvider,
+    options: { promptId?: string; version?: number; registry?: PromptRegistry } = {}
+): Promise<PromptEvalReport[]> {
+    const registry = options.registry ?? promptRegistry;
+    const selected = fixtures.filter(fixture => !options.promptId || fixture.promptId === options.promptId);
+    const promptIds = Array.from(new Set(selected.map(fixture => fixture.promptId)));
+    const reports: PromptEvalReport[] = [];
+
+    for (const promptId of promptIds) {
+        const version = options.version ?? registry.get(promptId).version;
+        const results: PromptEvalResult[] = [];
+        for (const fixture of selected.filter(candidate => candidate.promptId === promptId)) {
+            results.push(await evaluateFixture(fixture, version, provider, registry));
+        }
+
+        const schemaChecked = results.filter(result => result.schemaValid !== undefined);
+        const agendaChecked = results.filter(result => result.agendaValid !== undefined);
+        const fieldsTotal = results.reduce((sum, result) => sum + (result.fieldsTotal || 0), 0);
+        const fieldsCorrect = results.reduce((sum, result) => sum + (result.fieldsCorrect || 0), 0);
+
+        reports.push({
+            promptId,
+            version,
+            fixtures: results.length,
+            errors: results.filter(result => result.error).length,
+            schemaValidity: rate(schemaChecked.filter(result => result.schemaValid).length, schemaChecked.length),
+            fieldAccuracy: rate(fieldsCorrect, fieldsTotal),
+            agendaPassRate: rate(agendaChecked.filter(result => result.agendaValid).length, agendaChecked.length),
+            results
+        });
+    }
+
+    return reports;
+}
@@ -0,0 +1,153 @@
+/**
+ * Versioned prompts for every AI call.
+ *
+ * Each prompt has an id, a numeric version and the variables its template
+ * uses as {name} placeholders. AI calls render their prompt with
+ * renderPromptForCall, which logs the version used through aiRoutingLogger.
+ * New wording is added as a new version next to the old one;
+ * PROMPT_VERSIONS (e.g. "time_extraction=2,meeting_title_generation=1") pins the
+ * version in use, otherwise the latest one is.
+ */
+
+import { PROMPT_CATALOG } from './promptCatalog.js';
+import { aiRoutingLogger } from './aiRoutingLogger.js';
+
+export interface PromptTemplate {
+    id: string;
+    version: number;
+    description: string;
+    variables: string[];
+    template: string;
+    // How the eval runner scores replies: against a router function's output
+    // schema (see aiOutputSchemas), or with the agenda validator
+    outputSchema?: string;
+    agenda?: boolean;
+}
+
+export interface RenderedPrompt {
+    id: string;
+    version: number;
+    text: string;
+}
+
+export type PromptVariables = Record<string, string | number>;
+
+const PLACEHOLDER_PATTERN = /\{([a-zA-Z][a-zA-Z0-9_]*)\}/g;
+
+/**
+ * Reads PROMPT_VERSIONS: comma separated id=version pairs
+ */
+export function parsePromptVersions(value: string | undefined): Record<string, number> {
+    const versions: Record<string, number> = {};
+    for (const entry of (value || '').split(',')) {
+        const [id, version] = entry.split('=').map(part => part.trim());
+        if (id && version && Number.isInteger(Number(version))) {
+            versions[id] = Number(version);
+        }
+    }
+    return versions;
+}
+
+export class PromptRegistry {
+    private prompts = new Map<string, PromptTemplate[]>();
+    private activeVersions: Record<string, number>;
+
+    constructor(prompts: PromptTemplate[] = [], activeVersions: Record<string, number> = {}) {
+        this.activeVersions = { ...activeVersions };
+        prompts.forEach(prompt => this.register(prompt));
+    }
+
+    /**
+     * Adds a prompt version. The template's placeholders must match the declared variables.
+     */
+    register(prompt: PromptTemplate): void {
+        if (!Number.isInteger(prompt.version) || prompt.version < 1) {
+            throw new Error(`Prompt ${prompt.id} has invalid version ${prompt.version}`);
+        }
+
+        const placeholders = new Set(Array.from(prompt.template.matchAll(PLACEHOLDER_PATTERN), match => match[1]));
+        const undeclared = Array.from(placeholders).filter(name => !prompt.variables.includes(name));
+        const unused = prompt.variables.filter(name => !placeholders.has(name));
+        if (undeclared.length > 0 || unused.length > 0) {
+            throw new Error(
+                `Prompt ${prompt.id}@${prompt.version} variables do not match its template` +
+                (undeclared.length > 0 ? `; undeclared: ${undeclared.join(', ')}` : '') +
+                (unused.length > 0 ? `; unused: ${unused.join(', ')}` : '')
+            );
+        }
+
+        const versions = this.prompts.get(prompt.id) || [];
+        if (versions.some(existing => existing.version === prompt.version)) {
+            throw new Error(`Prompt ${prompt.id}@${prompt.version} is already registered`);
+        }
+        this.prompts.set(prompt.id, [...versions, prompt].sort((a, b) => a.version - b.version));
+    }
+
+    /**
+     * A prompt at the given version, or at its active version
+     */
+    get(id: string, version?: number): PromptTemplate {
+        const versions = this.prompts.get(id);
+        if (!versions) {
+            throw new Error(`Unknown prompt: ${id}`);
+        }
+
+        const wanted = version ?? this.activeVersions[id];
+        if (wanted === undefined) {
+            return versions[versions.length - 1];
+        }
+
+        const prompt = versions.find(candidate => candidate.version === wanted);
+        if (!prompt) {
+            throw new Error(`Prompt ${id} has no version ${wanted} (available: ${versions.map(v => v.version).join(', ')})`);
+        }
+        return prompt;
+    }
+
+    has(id: string): boolean {
+        return this.prompts.has(id);
+    }
+
+    ids(): string[] {
+        return Array.from(this.prompts.keys());
+    }
+
+    versions(id: string): number[] {
+        return (this.prompts.get(id) || []).map(prompt => prompt.version);
+    }
+
+    setActiveVersion(id: string, version: number): void {
+        this.get(id, version);
+        this.activeVersions[id] = version;
+    }
+
+    /**
+     * Fills in a prompt's placeholders. Every declared variable must be given a value.
+     */
+    render(id: string, variables: PromptVariables = {}, version?: number): RenderedPrompt {
+        const prompt = this.get(id, version);
+
+        const missing = prompt.variables.filter(name => variables[name] === undefined);
+        if (missing.length > 0) {
+            throw new Error(`Prompt ${id}@${prompt.version} is missing variables: ${missing.join(', ')}`);
+        }
+
+        // One pass, so values containing braces are never substituted again
+        const text = prompt.template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+            prompt.variables.includes(name) ? String(variables[name]) : placeholder
+        );
+
+        return { id, version: prompt.version, text };
+    }
+}
+
+export const promptRegistry = new PromptRegistry(PROMPT_CATALOG, parsePromptVersions(process.env.PROMPT_VERSIONS));
+
+/**
+ * Renders the active version of a prompt for a call to `service` and logs that version
+ */
+export function renderPromptForCall(id: string, variables: PromptVariables, service: string): string {
+    const prompt = promptRegistry.render(id, variables);
+    aiRoutingLogger.logPromptUsage(prompt, service);
+    return prompt.text;
+}
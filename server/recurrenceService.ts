@@ -0,0 +1,514 @@
+/**
+ * Recurrence detection and expansion for repeating meetings.
+ *
+ * Turns phrases such as "every Tuesday at 10" or "biweekly until December"
+ * into RFC 5545 RRULE strings that Google Calendar accepts in an event's
+ * `recurrence` field, and expands those rules into concrete occurrences for
+ * availability checking.
+ */
+
+import { DEFAULT_WORKING_HOURS_PROFILE, getZonedTimeParts, zonedTimeToDate, type ZonedTimeParts } from './utils/workingHours.js';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  byDay?: Weekday[];
+  // Monthly rules from calendar feeds: the nth weekday of the month (-1 is the last) and days of the month
+  byNthDay?: Array<{ ordinal: number; day: Weekday }>;
+  byMonthDay?: number[];
+  until?: Date;
+  count?: number;
+}
+
+export interface RecurrenceOccurrence {
+  startTime: Date;
+  endTime: Date;
+}
+
+/**
+ * Limits expansion to occurrences overlapping a time range
+ */
+export interface ExpansionWindow {
+  start?: Date;
+  end?: Date;
+}
+
+/**
+ * Default number of occurrences inspected when checking a series for conflicts
+ */
+export const DEFAULT_OCCURRENCE_CHECK_LIMIT = 10;
+
+/**
+ * Safety cap on expansion so a malformed rule can never loop forever
+ */
+const MAX_EXPANSION_ITERATIONS = 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Rule parts that change which occurrences exist but are not expanded
+const UNSUPPORTED_RULE_PARTS = ['BYSETPOS', 'BYMONTH', 'BYYEARDAY', 'BYWEEKNO', 'BYHOUR', 'BYMINUTE', 'BYSECOND'];
+
+const WEEKDAY_CODES: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  SU: 'Sunday',
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday'
+};
+
+const WEEKDAY_PATTERNS: Array<{ pattern: RegExp; code: Weekday }> = [
+  { pattern: /\bmon(day)?s?\b/, code: 'MO' },
+  { pattern: /\btue(s|sday)?s?\b/, code: 'TU' },
+  { pattern: /\bwed(nesday)?s?\b/, code: 'WE' },
+  { pattern: /\bthu(r|rs|rsday)?s?\b/, code: 'TH' },
+  { pattern: /\bfri(day)?s?\b/, code: 'FR' },
+  { pattern: /\bsat(urday)?s?\b/, code: 'SA' },
+  { pattern: /\bsun(day)?s?\b/, code: 'SU' }
+];
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6,
+  seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12
+};
+
+/**
+ * Parses a small number written either as digits or as a word ("3", "three")
+ */
+function parseSmallNumber(value: string): number | undefined {
+  const parsed = parseInt(value, 10);
+  if (!isNaN(parsed)) {
+    return parsed;
+  }
+  return NUMBER_WORDS[value.toLowerCase()];
+}
+
+/**
+ * Extracts weekday codes mentioned in the text, in calendar order
+ */
+function extractWeekdays(text: string): Weekday[] {
+  if (/\b(every|each)\s+weekday\b|\bweekdays\b/.test(text)) {
+    return ['MO', 'TU', 'WE', 'TH', 'FR'];
+  }
+
+  const days = WEEKDAY_PATTERNS
+    .filter(({ pattern }) => pattern.test(text))
+    .map(({ code }) => code);
+
+  return WEEKDAY_CODES.filter(code => days.includes(code));
+}
+
+/**
+ * The last second of a calendar day (month is 1-12) in the given time zone
+ */
+function endOfZonedDay(year: number, month: number, day: number, timeZone: string): Date {
+  return new Date(zonedTimeToDate(year, month, day, 23, 59, timeZone).getTime() + 59 * 1000);
+}
+
+/**
+ * Resolves the end-of-series date from an "until ..." clause, as the end of that
+ * day in the user's time zone. A bare month ("until December") runs to the last
+ * day of that month.
+ */
+function extractUntilDate(text: string, referenceDate: Date, timeZone: string): Date | undefined {
+  const isoMatch = text.match(/\buntil\s+(\d{4})-(\d{2})-(\d{2})\b/);
+  if (isoMatch) {
+    return endOfZonedDay(Number(isoMatch[1]), Number(isoMatch[2]), Number(isoMatch[3]), timeZone);
+  }
+
+  const monthMatch = text.match(
+    new RegExp(`\\buntil\\s+(?:the\\s+end\\s+of\\s+)?(${MONTH_NAMES.map(m => `${m.slice(0, 3)}(?:${m.slice(3)})?`).join('|')})\\.?(?:\\s+(\\d{1,2})(?:st|nd|rd|th)?)?(?:,?\\s+(\\d{4}))?`)
+  );
+  if (!monthMatch) {
+    return undefined;
+  }
+
+  const month = MONTH_NAMES.findIndex(name => name.startsWith(monthMatch[1].slice(0, 3))) + 1;
+  const day = monthMatch[2] ? Number(monthMatch[2]) : undefined;
+  let year = monthMatch[3] ? Number(monthMatch[3]) : getZonedTimeParts(referenceDate, timeZone).year;
+
+  // Last day of the month when no explicit day was given
+  const buildDate = (y: number) => endOfZonedDay(y, month, day ?? new Date(Date.UTC(y, month, 0)).getUTCDate(), timeZone);
+
+  let until = buildDate(year);
+  if (!monthMatch[3] && until < referenceDate) {
+    year += 1;
+    until = buildDate(year);
+  }
+
+  return until;
+}
+
+/**
+ * Detects a recurrence pattern in a natural-language message.
+ * Returns null when the message describes a one-off meeting.
+ */
+export function detectRecurrence(
+  message: string,
+  referenceDate: Date = new Date(),
+  timeZone: string = DEFAULT_WORKING_HOURS_PROFILE.timezone
+): RecurrenceRule | null {
+  const text = message.toLowerCase();
+  let rule: RecurrenceRule | null = null;
+
+  const everyNMatch = text.match(/\bevery\s+(\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\s+(day|week|month)s?\b/);
+  const weekdays = extractWeekdays(text);
+
+  if (/\b(bi-?weekly|fortnightly)\b|\bevery\s+(other|second)\s+(week|mon|tue|wed|thu|fri|sat|sun)/.test(text)) {
+    rule = { frequency: 'WEEKLY', interval: 2 };
+  } else if (everyNMatch) {
+    const interval = parseSmallNumber(everyNMatch[1]) || 1;
+    const unit = everyNMatch[2];
+    rule = {
+      frequency: unit === 'day' ? 'DAILY' : unit === 'week' ? 'WEEKLY' : 'MONTHLY',
+      interval
+    };
+  } else if (/\b(every|each)\s+weekday\b/.test(text)) {
+    // Checked before "daily" so "daily check-in every weekday" skips weekends
+    rule = { frequency: 'WEEKLY', interval: 1 };
+  } else if (/\b(daily|every\s*day|each\s+day)\b/.test(text)) {
+    rule = { frequency: 'DAILY', interval: 1 };
+  } else if (/\b(monthly|every\s+month|each\s+month)\b/.test(text)) {
+    rule = { frequency: 'MONTHLY', interval: 1 };
+  } else if (/\b(weekly|every\s+week|each\s+week)\b/.test(text)) {
+    rule = { frequency: 'WEEKLY', interval: 1 };
+  } else if (/\b(every|each)\s+(mon|tue|wed|thu|fri|sat|sun)/.test(text) ||
+             /\bon\s+(mondays|tuesdays|wednesdays|thursdays|fridays|saturdays|sundays)\b/.test(text)) {
+    rule = { frequency: 'WEEKLY', interval: 1 };
+  }
+
+  if (!rule) {
+    return null;
+  }
+
+  if (rule.frequency === 'WEEKLY' && weekdays.length > 0) {
+    rule.byDay = weekdays;
+  }
+
+  const until = extractUntilDate(text, referenceDate, timeZone);
+  if (until) {
+    rule.until = until;
+  } else {
+    const countMatch = text.match(/\bfor\s+(?:the\s+next\s+)?(\d+|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve)\s+(occurrences|times|sessions|meetings|days|weeks|months)\b/);
+    if (countMatch) {
+      const amount = parseSmallNumber(countMatch[1]);
+      const unit = countMatch[2];
+      if (amount) {
+        const unitMatchesFrequency =
+          (unit === 'days' && rule.frequency === 'DAILY') ||
+          (unit === 'weeks' && rule.frequency === 'WEEKLY') ||
+          (unit === 'months' && rule.frequency === 'MONTHLY');
+        if (unitMatchesFrequency) {
+          // "for 6 weeks" at every-other-week cadence is 3 meetings (per weekday)
+          rule.count = Math.max(1, Math.ceil(amount / rule.interval)) * (rule.byDay?.length || 1);
+        } else if (!['days', 'weeks', 'months'].includes(unit)) {
+          rule.count = amount;
+        }
+      }
+    }
+  }
+
+  return rule;
+}
+
+/**
+ * Formats a date as an RFC 5545 UTC timestamp (e.g. 20261201T235959Z)
+ */
+function formatRRuleDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Builds the RRULE line Google Calendar expects in `recurrence`
+ */
+export function buildRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency}`];
+
+  if (rule.interval > 1) {
+    parts.push(`INTERVAL=${rule.interval}`);
+  }
+  const byDay = [
+    ...(rule.byDay || []),
+    ...(rule.byNthDay || []).map(({ ordinal, day }) => `${ordinal}${day}`)
+  ];
+  if (byDay.length > 0) {
+    parts.push(`BYDAY=${byDay.join(',')}`);
+  }
+  if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  }
+  if (rule.until) {
+    parts.push(`UNTIL=${formatRRuleDate(rule.until)}`);
+  } else if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+
+  return `RRULE:${parts.join(';')}`;
+}
+
+/**
+ * Parses an RRULE line back into a RecurrenceRule. Besides what buildRRule produces,
+ * monthly rules may use ordinal BYDAY (2TU, -1FR) and BYMONTHDAY; anything else throws.
+ */
+export function parseRRule(rrule: string): RecurrenceRule {
+  const body = rrule.trim().replace(/^RRULE:/i, '');
+  const params = new Map<string, string>();
+
+  for (const part of body.split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value) {
+      params.set(key.toUpperCase(), value.toUpperCase());
+    }
+  }
+
+  const frequency = params.get('FREQ');
+  if (frequency !== 'DAILY' && frequency !== 'WEEKLY' && frequency !== 'MONTHLY') {
+    throw new Error(`Unsupported recurrence frequency: ${frequency || 'missing'}`);
+  }
+
+  const unsupported = UNSUPPORTED_RULE_PARTS.find(part => params.has(part));
+  if (unsupported) {
+    throw new Error(`Unsupported recurrence rule part: ${unsupported}`);
+  }
+
+  const rule: RecurrenceRule = {
+    frequency,
+    interval: Math.max(1, parseInt(params.get('INTERVAL') || '1', 10) || 1)
+  };
+
+  const byDay = params.get('BYDAY');
+  if (byDay) {
+    for (const entry of byDay.split(',')) {
+      const match = entry.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) {
+        continue;
+      }
+      const day = match[2] as Weekday;
+      if (!match[1]) {
+        rule.byDay = [...(rule.byDay || []), day];
+        continue;
+      }
+      if (frequency !== 'MONTHLY') {
+        throw new Error(`Unsupported ordinal weekday in a ${frequency.toLowerCase()} rule: ${entry}`);
+      }
+      rule.byNthDay = [...(rule.byNthDay || []), { ordinal: parseInt(match[1], 10), day }];
+    }
+  }
+
+  const byMonthDay = params.get('BYMONTHDAY');
+  if (byMonthDay) {
+    if (frequency !== 'MONTHLY') {
+      throw new Error(`Unsupported BYMONTHDAY in a ${frequency.toLowerCase()} rule`);
+    }
+    rule.byMonthDay = byMonthDay.split(',').map(day => parseInt(day, 10)).filter(day => day !== 0 && Math.abs(day) <= 31);
+  }
+
+  const until = params.get('UNTIL');
+  if (until) {
+    const match = until.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+    if (match) {
+      rule.until = new Date(Date.UTC(
+        Number(match[1]), Number(match[2]) - 1, Number(match[3]),
+        Number(match[4] || 23), Number(match[5] || 59), Number(match[6] || 59)
+      ));
+    }
+  }
+
+  const count = params.get('COUNT');
+  if (count) {
+    rule.count = parseInt(count, 10);
+  }
+
+  return rule;
+}
+
+/**
+ * Civil (calendar) dates are kept as UTC midnights so day arithmetic is free of DST
+ */
+function addDays(civilDate: number, days: number): number {
+  return civilDate + days * DAY_MS;
+}
+
+function toCivilDate(parts: ZonedTimeParts): number {
+  return Date.UTC(parts.year, parts.month - 1, parts.day);
+}
+
+/**
+ * Days of one month matching the rule's BYDAY and BYMONTHDAY parts; both narrow the month when set
+ */
+function monthDates(rule: RecurrenceRule, year: number, month: number, firstDay: number): number[] {
+  const monthStart = Date.UTC(year, month, 1);
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const firstWeekday = new Date(monthStart).getUTCDay();
+  const dayOfMonth = (weekday: Weekday, nth: number) => 1 + ((WEEKDAY_CODES.indexOf(weekday) - firstWeekday + 7) % 7) + (nth - 1) * 7;
+
+  let days: number[] | undefined;
+  if (rule.byDay?.length || rule.byNthDay?.length) {
+    days = [];
+    for (const weekday of rule.byDay || []) {
+      for (let day = dayOfMonth(weekday, 1); day <= daysInMonth; day += 7) {
+        days.push(day);
+      }
+    }
+    for (const { ordinal, day: weekday } of rule.byNthDay || []) {
+      const lastNth = Math.floor((daysInMonth - dayOfMonth(weekday, 1)) / 7) + 1;
+      days.push(dayOfMonth(weekday, ordinal > 0 ? ordinal : lastNth + ordinal + 1));
+    }
+  }
+  if (rule.byMonthDay?.length) {
+    const monthDays = rule.byMonthDay.map(day => (day > 0 ? day : daysInMonth + day + 1));
+    days = days ? days.filter(day => monthDays.includes(day)) : monthDays;
+  }
+
+  // Months without the day (e.g. the 31st) are skipped, as RFC 5545 requires
+  return Array.from(new Set(days ?? [firstDay]))
+    .filter(day => day >= 1 && day <= daysInMonth)
+    .sort((a, b) => a - b)
+    .map(day => addDays(monthStart, day - 1));
+}
+
+/**
+ * Expands a recurrence rule into concrete occurrences starting at the first meeting.
+ * The first meeting is always the first occurrence, matching Google Calendar behaviour.
+ * Dates are stepped in `timeZone` (the organizer's or the event's), so weekdays and the
+ * wall-clock time stay put across DST changes whatever the server's timezone.
+ * With a window, only occurrences overlapping it are returned and count towards
+ * `maxOccurrences`; series without COUNT skip straight to the window.
+ */
+export function expandOccurrences(
+  rule: RecurrenceRule,
+  firstStart: Date,
+  firstEnd: Date,
+  maxOccurrences: number = DEFAULT_OCCURRENCE_CHECK_LIMIT,
+  timeZone: string = DEFAULT_WORKING_HOURS_PROFILE.timezone,
+  window: ExpansionWindow = {}
+): RecurrenceOccurrence[] {
+  const durationMs = firstEnd.getTime() - firstStart.getTime();
+  const occurrences: RecurrenceOccurrence[] = [];
+  if (maxOccurrences <= 0 || (rule.count !== undefined && rule.count <= 0)) {
+    return occurrences;
+  }
+
+  const first = getZonedTimeParts(firstStart, timeZone);
+  const firstDate = toCivilDate(first);
+  const firstWeekStart = addDays(firstDate, -first.dayOfWeek);
+  // Seconds are not part of the zoned parts; carry them over unchanged
+  const extraMs = firstStart.getTime() - zonedTimeToDate(first.year, first.month, first.day, first.hour, first.minute, timeZone).getTime();
+
+  // Period n covers the nth day, week or month of the series (counted in intervals)
+  const periodDates = (period: number): number[] => {
+    if (rule.frequency === 'DAILY') {
+      return [addDays(firstDate, period * rule.interval)];
+    }
+    if (rule.frequency === 'WEEKLY') {
+      const weekStart = addDays(firstWeekStart, period * rule.interval * 7);
+      const dayIndexes = rule.byDay?.length ? rule.byDay.map(day => WEEKDAY_CODES.indexOf(day)) : [first.dayOfWeek];
+      return dayIndexes.sort((a, b) => a - b).map(dayIndex => addDays(weekStart, dayIndex));
+    }
+    const month = new Date(Date.UTC(first.year, first.month - 1 + period * rule.interval, 1));
+    return monthDates(rule, month.getUTCFullYear(), month.getUTCMonth(), first.day);
+  };
+
+  const periodOf = (instant: Date): number => {
+    const parts = getZonedTimeParts(instant, timeZone);
+    if (rule.frequency === 'MONTHLY') {
+      return Math.floor(((parts.year - first.year) * 12 + parts.month - first.month) / rule.interval);
+    }
+    const days = (toCivilDate(parts) - (rule.frequency === 'WEEKLY' ? firstWeekStart : firstDate)) / DAY_MS;
+    return Math.floor(days / (rule.frequency === 'WEEKLY' ? 7 : 1) / rule.interval);
+  };
+
+  let generated = 0; // Every occurrence counts towards COUNT, inside the window or not
+  const push = (civilDate: number): boolean => {
+    const day = new Date(civilDate);
+    const start = new Date(zonedTimeToDate(
+      day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate(), first.hour, first.minute, timeZone
+    ).getTime() + extraMs);
+    if ((rule.until && start > rule.until) || (window.end && start >= window.end)) {
+      return false;
+    }
+    generated++;
+
+    const end = new Date(start.getTime() + durationMs);
+    if (!window.start || end > window.start) {
+      occurrences.push({ startTime: start, endTime: end });
+      if (occurrences.length >= maxOccurrences) {
+        return false;
+      }
+    }
+    return rule.count === undefined || generated < rule.count;
+  };
+
+  // Without COUNT nothing before the window matters, so old series start near it
+  const startPeriod = window.start && rule.count === undefined ?
+    Math.max(0, periodOf(new Date(window.start.getTime() - durationMs)) - 1) :
+    0;
+
+  if (startPeriod === 0 && !push(firstDate)) {
+    return occurrences;
+  }
+
+  const lastPeriod = startPeriod + MAX_EXPANSION_ITERATIONS + (rule.count ?? 0);
+  for (let period = startPeriod; period < lastPeriod; period++) {
+    for (const candidate of periodDates(period)) {
+      if (candidate > firstDate && !push(candidate)) {
+        return occurrences;
+      }
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Produces a human-readable summary such as "Every 2 weeks on Tuesday until December 31, 2026"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = rule.frequency === 'DAILY' ? 'day' : rule.frequency === 'WEEKLY' ? 'week' : 'month';
+  let summary: string;
+
+  if (rule.frequency === 'WEEKLY' && rule.interval === 1 &&
+      rule.byDay?.length === 5 && !rule.byDay.includes('SA') && !rule.byDay.includes('SU')) {
+    summary = 'Every weekday';
+  } else {
+    summary = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+    if (rule.byDay && rule.byDay.length > 0) {
+      const names = rule.byDay.map(day => WEEKDAY_NAMES[day]);
+      const dayList = names.length > 1
+        ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`
+        : names[0];
+      summary += ` on ${dayList}`;
+    }
+  }
+
+  if (rule.until) {
+    summary += ` until ${rule.until.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}`;
+  } else if (rule.count) {
+    summary += `, ${rule.count} times`;
+  }
+
+  return summary;
+}
+
+/**
+ * Main export object for recurrence service
+ */
+export const RecurrenceService = {
+  detectRecurrence,
+  buildRRule,
+  parseRRule,
+  expandOccurrences,
+  describeRecurrence
+};
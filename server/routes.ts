@@ -4,10 +4,11 @@ import passport from "passport";
 import * as fs from 'fs';
 import * as path from 'path';
 import { storage } from "./storage";
-import { fetchUpcomingEvents, deleteCalendarEvent, createCalendarEvent } from "./googleCalendar";
+import { fetchUpcomingEvents, deleteCalendarEvent, createCalendarEvent, getCalendarEvent, listCalendars, isEventOrganizer } from "./googleCalendar";
 import { getGeminiResponse, extractMeetingIntent, generateMeetingTitles, enhancePurposeWording, verifyAttendees, generateMeetingAgenda, generateActionItems, type MistralMessage, getContextualResponse } from "./aiInterface.js";
 import { generateResponse as mistralGenerateResponse } from "./mistralService.js";
-import { createEventRequestSchema } from "../shared/schema.js";
+import { createEventRequestSchema, updateUserProfileSchema, updateEventRequestSchema, transcriptUploadSchema, createTaskSchema, updateTaskSchema, taskQuerySchema, scheduledJobQuerySchema, emailJobQuerySchema, agendaDocumentSchema, issueTaskAccessLinksSchema, attendeeTaskUpdateSchema, submitAgendaOperationsSchema, createAgendaVersionSchema, restoreAgendaVersionSchema, updateCalendarSyncSettingsSchema, resolveCalendarSyncConflictSchema, createCalendarFeedSchema, updateCalendarFeedSchema, updateCalendarPreferencesSchema, meetingRoomQuerySchema, type UpdateEventRequest } from "../shared/schema.js";
+import { renderAgendaMarkdown, toAgendaDocument, toAgendaFields } from "../shared/agendaDocument.js";
 import {
   validateMeetingCreation,
   validateMeetingType,
@@ -20,10 +21,26 @@ import { performanceMonitor } from "./performanceMonitor.js";
 import { createConversationContextEngine } from "./conversationContext.js";
 import { BusinessRulesEngine } from "./businessRules.js";
 import { AttendeeValidator } from "./attendeeValidator.js";
-import { workflowChatIntegration } from "./workflowChatIntegration.js";
+import { workflowChatIntegration, type ChatWorkflowResponse } from "./workflowChatIntegration.js";
+import { createConversationalStreamHandler } from "./conversationalChatStream.js";
+import { taskService } from "./taskService.js";
+import { meetingMinutesService, toMinutesActionItem } from "./meetingMinutesService.js";
+import { googleTasksSyncService } from "./googleTasksService.js";
+import { jobScheduler } from "./jobScheduler.js";
+import { taskAccessService } from "./taskAccessService.js";
+import { userProfileService, toWorkingHoursProfile, toReminderSettings, WORKING_HOURS_RANGE_ERROR } from "./userProfileService.js";
+import { DEFAULT_WORKING_HOURS_PROFILE } from "./utils/workingHours.js";
+import { diffEventChanges, validateMeetingEdit, applyMeetingEdit, type EditableEvent, type MeetingEditChanges } from "./meetingEditService.js";
+import type { MeetingTranscript } from "./transcriptService.js";
+import { calendarInviteService } from "./calendarInviteService.js";
+import { toInviteAttendees } from "./calendarInvite.js";
+import { calendarFeedService, toCalendarFeedSummary, CalendarFeedError } from "./calendarFeedService.js";
+import { meetingRoomService, ROOM_DIRECTORY_SCOPE } from "./meetingRoomService.js";
+import { aiQuota, AIQuotaExceededError } from "./aiQuotaService.js";
 import performanceRoutes from "./routes/performanceRoutes.js";
 import configHealthRoutes from "./routes/configHealth.js";
 import errorReportingRoutes from "./routes/errorReportingRoutes";
+import meetingMinutesRoutes from "./routes/meetingMinutesRoutes.js";
 
 
 
@@ -33,22 +50,99 @@ import errorReportingRoutes from "./routes/errorReportingRoutes";
 function getUIBlockPriority(blockType: string): 'high' | 'medium' | 'low' {
   switch (blockType) {
     case 'meeting_approval':
+    case 'meeting_edit_approval':
     case 'attendee_management':
       return 'high';
     case 'meeting_type_selection':
     case 'agenda_editor':
+    case 'time_slot_selection':
       return 'medium';
     default:
       return 'low';
   }
 }
 
+// Converts a REST edit request into the changes applied to an event
+function toMeetingEditChanges(event: EditableEvent, request: UpdateEventRequest): MeetingEditChanges {
+  const changes: MeetingEditChanges = {
+    title: request.title,
+    description: request.description,
+    location: request.location,
+    startTime: request.startTime ? new Date(request.startTime) : undefined,
+    endTime: request.endTime ? new Date(request.endTime) : undefined
+  };
+
+  // Moving only the start keeps the meeting's duration
+  if (changes.startTime && !changes.endTime) {
+    changes.endTime = new Date(changes.startTime.getTime() + (event.endTime.getTime() - event.startTime.getTime()));
+  }
+
+  if (request.addAttendees || request.removeAttendees) {
+    const removed = (request.removeAttendees || []).map(email => email.toLowerCase());
+    const remaining = event.attendees.filter(email => !removed.includes(email.toLowerCase()));
+    const added = (request.addAttendees || []).filter(email =>
+      !remaining.some(existing => existing.toLowerCase() === email.toLowerCase()));
+    changes.attendees = [...remaining, ...added];
+  }
+
+  return changes;
+}
+
+// Reads an attendee task link token from the Authorization header or the query string
+function getTaskAccessToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (header?.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+  return typeof req.query.token === 'string' ? req.query.token : undefined;
+}
+
+// Summarizes a transcript, stores the extracted tasks and prepares the minutes email for attendees
+async function processTranscriptFollowUp(user: any, meetingId: string, meetingData: any, transcript: MeetingTranscript) {
+  const { transcriptService } = await import('./transcriptService.js');
+
+  // Generate summary
+  const summary = await transcriptService.generateMeetingSummary(transcript);
+
+  // Extract tasks
+  const tasks = await transcriptService.extractTasksFromSummary(summary);
+
+  // Store tasks in database
+  await taskService.saveMeetingTasks(meetingId, tasks, user.id);
+
+  // Prepare the minutes email for the organizer to review and send
+  meetingMinutesService.createDraft(user.id, meetingId, meetingData, summary, tasks.map(toMinutesActionItem));
+
+  // Issue signed task links for attendees; reprocessing a transcript replaces earlier links
+  const attendees: Array<{ email: string; firstName?: string }> = meetingData.attendees || [];
+  const issuedLinks = attendees.length > 0
+    ? await taskAccessService.issueLinks(user.id, meetingId, attendees.map(attendee => attendee.email), { meetingTitle: meetingData.title })
+    : [];
+  const magicLinks = new Map(issuedLinks.map(({ link, url }) => [link.attendeeEmail, url]));
+
+  // Send magic link emails
+  const { gmailService } = await import('./gmailService.js');
+  for (const attendee of attendees) {
+    const magicLink = magicLinks.get(attendee.email.toLowerCase());
+    if (magicLink) {
+      const result = await gmailService.sendTaskLinkEmail(user, attendee, meetingData.title || 'your meeting', magicLink);
+      if (!result.success) {
+        console.error(`Failed to send task link to ${attendee.email}: ${result.error}`);
+      }
+    }
+  }
+
+  return { summary, tasks };
+}
+
 function isUIBlockInteractive(blockType: string): boolean {
   const interactiveBlocks = [
     'meeting_type_selection',
     'attendee_management',
     'meeting_approval',
     'agenda_editor',
+    'time_slot_selection',
+    'meeting_edit_approval',
     'attendee_editor',
     'title_suggestions',
     'event_review'
@@ -56,7 +150,58 @@ function isUIBlockInteractive(blockType: string): boolean {
   return interactiveBlocks.includes(blockType);
 }
 
+/**
+ * Adds workflow state warnings and rendering hints to a conversational chat response
+ */
+async function buildConversationalResponse(user: any, conversationId: string | undefined, response: ChatWorkflowResponse) {
+  // Validate workflow state consistency
+  const validation = await workflowChatIntegration.validateWorkflowState(
+    user.id,
+    conversationId || response.conversationId,
+    user
+  );
+
+  // Add validation warnings to response if any
+  if (validation.warnings.length > 0) {
+    response.validation.warnings.push(...validation.warnings);
+  }
+
+  // Enhanced response with specialized UI block rendering
+  return {
+    ...response,
+    // Add conversation context metadata
+    conversationContext: {
+      id: response.conversationId,
+      mode: response.contextStats.currentMode,
+      messageCount: response.contextStats.messageCount,
+      hasWorkflowData: response.contextStats.hasMeetingData,
+    },
+    // Add workflow progress indicators
+    workflowProgress: {
+      currentStep: response.workflow.currentStep,
+      progress: response.workflow.progress,
+      nextAction: response.workflow.nextAction,
+      canAdvance: !response.workflow.requiresUserInput,
+    },
+    // Include UI block rendering hints
+    uiBlockRendering: response.uiBlock ? {
+      type: response.uiBlock.type,
+      priority: getUIBlockPriority(response.uiBlock.type),
+      requiresUserAction: isUIBlockInteractive(response.uiBlock.type),
+    } : null,
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
+  // AI calls made while handling a signed-in user's request count toward their AI quota
+  app.use('/api', (req: Request, _res: Response, next) => {
+    if (!req.isAuthenticated()) {
+      return next();
+    }
+    const user = req.user as any;
+    aiQuota.runAs({ userId: user.id, email: user.email }, next);
+  });
+
   // Authentication routes
   app.get('/api/auth/google', (req: Request, res: Response, next) => {
     // Check if remember me preference is set in query params
@@ -72,7 +217,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         'https://www.googleapis.com/auth/calendar',
         'https://www.googleapis.com/auth/contacts.readonly',
         'https://www.googleapis.com/auth/gmail.send',
-        'https://www.googleapis.com/auth/gmail.compose'
+        'https://www.googleapis.com/auth/gmail.compose',
+        'https://www.googleapis.com/auth/tasks',
+        // Workspace room directory, for admins who want every room offered rather than only those in their calendar list
+        ...(process.env.GOOGLE_WORKSPACE_ROOMS === 'true' ? [ROOM_DIRECTORY_SCOPE] : [])
       ],
       accessType: 'offline',
       prompt: 'consent'
@@ -171,6 +319,122 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // User profile: timezone, working hours and preferred meeting lengths
+  app.get('/api/user/profile', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = req.user as any;
+      const stored = await userProfileService.getStoredProfile(user.id);
+
+      res.json({
+        profile: stored ? toWorkingHoursProfile(stored) : DEFAULT_WORKING_HOURS_PROFILE,
+        reminders: toReminderSettings(stored),
+        isDefault: !stored
+      });
+    } catch (error: any) {
+      console.error('Error fetching user profile:', error);
+      res.status(500).json({ error: 'Failed to fetch user profile' });
+    }
+  });
+
+  app.put('/api/user/profile', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const validationResult = updateUserProfileSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({
+        error: 'Invalid profile data',
+        details: validationResult.error.errors
+      });
+    }
+
+    try {
+      const user = req.user as any;
+      const profile = await userProfileService.upsertProfile(user.id, validationResult.data);
+
+      res.json({ profile: toWorkingHoursProfile(profile), reminders: toReminderSettings(profile), isDefault: false });
+    } catch (error: any) {
+      console.error('Error updating user profile:', error);
+      if (error.message === WORKING_HOURS_RANGE_ERROR) {
+        return res.status(400).json({ error: error.message });
+      }
+      res.status(500).json({ error: 'Failed to update user profile' });
+    }
+  });
+
+  // Google Tasks sync is opt-in per user
+  app.get('/api/integrations/google-tasks', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = req.user as any;
+      const stored = await userProfileService.getStoredProfile(user.id);
+      res.json({ enabled: stored?.googleTasksSyncEnabled ?? false });
+    } catch (error: any) {
+      console.error('Error fetching Google Tasks sync setting:', error);
+      res.status(500).json({ error: 'Failed to fetch Google Tasks sync setting' });
+    }
+  });
+
+  app.put('/api/integrations/google-tasks', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    if (typeof req.body?.enabled !== 'boolean') {
+      return res.status(400).json({ error: 'enabled must be a boolean' });
+    }
+
+    try {
+      const user = req.user as any;
+      await userProfileService.upsertProfile(user.id, { googleTasksSyncEnabled: req.body.enabled });
+
+      // Existing tasks are pushed as soon as sync is turned on
+      const pushed = req.body.enabled ? await googleTasksSyncService.pushUnlinkedTasks(user.id) : 0;
+
+      res.json({ enabled: req.body.enabled, pushed });
+    } catch (error: any) {
+      console.error('Error updating Google Tasks sync setting:', error);
+      res.status(500).json({ error: 'Failed to update Google Tasks sync setting' });
+    }
+  });
+
+  // Sync now: push new tasks and pull completion from Google Tasks
+  app.post('/api/integrations/google-tasks/sync', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = req.user as any;
+      const stored = await userProfileService.getStoredProfile(user.id);
+      if (!stored?.googleTasksSyncEnabled) {
+        return res.status(409).json({ error: 'Google Tasks sync is not enabled' });
+      }
+
+      const pushed = await googleTasksSyncService.pushUnlinkedTasks(user.id);
+      const { checked, updated } = await googleTasksSyncService.pullUser({
+        id: user.id,
+        email: user.email,
+        googleId: user.googleId,
+        accessToken: user.accessToken,
+        refreshToken: user.refreshToken
+      });
+
+      res.json({ pushed, checked, updated });
+    } catch (error: any) {
+      console.error('Error syncing Google Tasks:', error);
+      res.status(500).json({ error: error.message || 'Failed to sync Google Tasks' });
+    }
+  });
+
   // Extend session endpoint for active users
   app.post('/api/auth/extend-session', (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
@@ -199,7 +463,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     try {
       const user = req.user as any;
-      const events = await fetchUpcomingEvents(user);
+      const { busyCalendarIds } = await userProfileService.getCalendarPreferences(user.id);
+      const events = await fetchUpcomingEvents(user, 10, busyCalendarIds);
       res.json({ events });
     } catch (error: any) {
       console.error('Error fetching calendar events:', error);
@@ -207,6 +472,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The user's Google calendars with the ones chosen for busy time and per meeting type
+  app.get('/api/calendar/calendars', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = req.user as any;
+      const [calendars, preferences] = await Promise.all([
+        listCalendars(user),
+        userProfileService.getCalendarPreferences(user.id)
+      ]);
+      res.json({ calendars, preferences });
+    } catch (error: any) {
+      console.error('Error listing calendars:', error);
+      res.status(500).json({ error: error.message || 'Failed to list calendars' });
+    }
+  });
+
+  app.put('/api/calendar/preferences', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = updateCalendarPreferencesSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid calendar preferences', details: parsed.error.errors });
+    }
+
+    try {
+      const user = req.user as any;
+
+      // Meetings can only be created in calendars the user can write to
+      const targets = Object.values(parsed.data.meetingTypeCalendars || {});
+      if (targets.length > 0) {
+        const writable = new Set((await listCalendars(user)).filter(calendar => calendar.writable).map(calendar => calendar.id));
+        const invalid = targets.filter(calendarId => !writable.has(calendarId));
+        if (invalid.length > 0) {
+          return res.status(400).json({ error: `Meetings cannot be created in calendar ${invalid.join(', ')}` });
+        }
+      }
+
+      await userProfileService.upsertProfile(user.id, parsed.data);
+      res.json({ preferences: await userProfileService.getCalendarPreferences(user.id) });
+    } catch (error: any) {
+      console.error('Error updating calendar preferences:', error);
+      res.status(500).json({ error: error.message || 'Failed to update calendar preferences' });
+    }
+  });
+
+  // Meeting rooms and resources; with startTime/endTime only rooms free then that seat the headcount
+  app.get('/api/meeting-rooms', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = meetingRoomQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid meeting room query', details: parsed.error.errors });
+    }
+
+    try {
+      const user = req.user as any;
+      const { startTime, endTime, headcount } = parsed.data;
+      const rooms = startTime && endTime
+        ? await meetingRoomService.findAvailableRooms(user, startTime, endTime, headcount)
+        : await meetingRoomService.listRooms(user);
+      res.json({ rooms });
+    } catch (error: any) {
+      console.error('Error listing meeting rooms:', error);
+      res.status(500).json({ error: error.message || 'Failed to list meeting rooms' });
+    }
+  });
+
   // Delete calendar event
   app.delete('/api/calendar/events/:eventId', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
@@ -216,138 +555,149 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const user = req.user as any;
       const { eventId } = req.params;
+      const calendarId = typeof req.query.calendarId === 'string' ? req.query.calendarId : undefined;
 
-      await deleteCalendarEvent(user, eventId);
-      res.json({ success: true, message: 'Event deleted successfully' });
+      await deleteCalendarEvent(user, eventId, calendarId);
+
+      // Google notifies its own attendees; whoever was emailed an iCalendar invite gets a CANCEL
+      const cancellations = await calendarInviteService.cancelMeeting(user, eventId);
+
+      res.json({
+        success: true,
+        message: 'Event deleted successfully',
+        cancellationsSent: cancellations?.filter(result => result.success).length ?? 0
+      });
     } catch (error: any) {
       console.error('Error deleting calendar event:', error);
       res.status(500).json({ error: error.message || 'Failed to delete calendar event' });
     }
   });
 
-  // Get tasks for current user
-  app.get('/api/tasks', async (req: Request, res: Response) => {
+  // Download a meeting as an .ics file
+  app.get('/api/meetings/:meetingId/invite.ics', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     try {
-      console.log(`🔍 Fetching tasks for user: ${(req.user as any).id}`);
       const user = req.user as any;
-      let dbTasksAvailable = true;
-      let formattedTasks: any[] = [];
-      let userEvents: any[] = [];
+      const file = await calendarInviteService.exportMeeting(user, req.params.meetingId);
+      if (!file) {
+        return res.status(404).json({ error: 'Meeting not found' });
+      }
 
-      // Import database and schema
-      const { db } = await import('./storage.js');
-      const { tasks, events } = await import('../shared/schema.js');
-      const { eq } = await import('drizzle-orm');
-      const { taskFileStorage } = await import('./utils/taskFileStorage.js');
+      res.type('text/calendar');
+      res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+      res.send(file.content);
+    } catch (error: any) {
+      console.error('Error exporting meeting invite:', error);
+      res.status(500).json({ error: error.message || 'Failed to export meeting invite' });
+    }
+  });
 
-      try {
-        // Try to get tasks from database
-        console.log(`🔍 Querying database for user events...`);
-        userEvents = await db
-          .select()
-          .from(events)
-          .where(eq(events.userId, user.id));
-
-        if (userEvents.length > 0) {
-          console.log(`📅 Found ${userEvents.length} events for user`);
-          
-          // Get all tasks for user's events
-          const eventIds = userEvents.map(event => event.id);
-          console.log(`🔍 Querying database for tasks from ${eventIds.length} events...`);
-          
-          const eventTasks = await db
-            .select({
-              id: tasks.id,
-              eventId: tasks.eventId,
-              title: tasks.title,
-              description: tasks.description,
-              assignee: tasks.assignee,
-              deadline: tasks.deadline,
-              status: tasks.status,
-              createdAt: tasks.createdAt,
-              eventTitle: events.title,
-              eventStartTime: events.startTime
-            })
-            .from(tasks)
-            .innerJoin(events, eq(tasks.eventId, events.id))
-            .where(eq(events.userId, user.id));
-
-          console.log(`📋 Found ${eventTasks.length} tasks in database`);
-
-          // Convert to frontend format
-          formattedTasks = eventTasks.map(task => ({
-            id: task.id,
-            title: task.title,
-            description: task.description,
-            assignee: task.assignee,
-            deadline: task.deadline,
-            status: task.status as 'pending' | 'in_progress' | 'completed',
-            eventTitle: task.eventTitle,
-            eventId: task.eventId,
-            priority: 'medium' as const,
-            category: 'general',
-            source: 'database'
-          }));
-        } else {
-          console.log(`ℹ️ No events found for user in database`);
-        }
-      } catch (dbError) {
-        console.error('❌ Database error fetching tasks:', dbError);
-        dbTasksAvailable = false;
-      }
+  // Preview an edit to a calendar event without applying it
+  app.post('/api/calendar/events/:eventId/edit-preview', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
 
-      // Always check for file-based tasks for the user's events
-      console.log(`🔍 Checking for file-based tasks...`);
-      let fileBasedTasks: any[] = [];
-      
-      // For each event, check if there are file-based tasks
-      for (const event of userEvents) {
-        const meetingId = event.id;
-        const tasks = await taskFileStorage.getTasks(meetingId);
-        
-        if (tasks && tasks.length > 0) {
-          console.log(`📋 Found ${tasks.length} file-based tasks for meeting: ${meetingId}`);
-          
-          // Add these tasks to our collection
-          tasks.forEach(task => {
-            fileBasedTasks.push({
-              id: task.id,
-              title: task.title,
-              description: task.description,
-              assignee: task.assignee || 'Unassigned',
-              deadline: task.dueDate,
-              status: task.status,
-              eventTitle: event.title,
-              eventId: meetingId,
-              priority: task.priority,
-              category: task.category,
-              source: 'file'
-            });
-          });
-        }
+    const parsed = updateEventRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid event update', details: parsed.error.errors });
+    }
+
+    try {
+      const user = req.user as any;
+      const workingHours = await userProfileService.getWorkingHours(user.id);
+      const event = await getCalendarEvent(user, req.params.eventId);
+      const changes = toMeetingEditChanges(event, parsed.data);
+
+      const validation = await validateMeetingEdit(user, event, changes, workingHours);
+
+      res.json({
+        eventId: event.id,
+        diff: diffEventChanges(event, changes, workingHours.timezone),
+        validation
+      });
+    } catch (error: any) {
+      console.error('Error previewing calendar event edit:', error);
+      res.status(500).json({ error: error.message || 'Failed to preview event edit' });
+    }
+  });
+
+  // Edit a calendar event: re-validates the meeting, patches Google Calendar and resends the agenda on time changes
+  app.patch('/api/calendar/events/:eventId', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = updateEventRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid event update', details: parsed.error.errors });
+    }
+
+    try {
+      const user = req.user as any;
+      const workingHours = await userProfileService.getWorkingHours(user.id);
+      const event = await getCalendarEvent(user, req.params.eventId);
+      const changes = toMeetingEditChanges(event, parsed.data);
+      const diff = diffEventChanges(event, changes, workingHours.timezone);
+
+      if (diff.length === 0) {
+        return res.status(400).json({ error: 'No changes to apply' });
       }
-      
-      // If we have file-based tasks but no database tasks, use the file-based tasks
-      if (fileBasedTasks.length > 0 && (!dbTasksAvailable || formattedTasks.length === 0)) {
-        console.log(`ℹ️ Using ${fileBasedTasks.length} file-based tasks as primary source`);
-        formattedTasks = fileBasedTasks;
+
+      const validation = await validateMeetingEdit(user, event, changes, workingHours);
+      if (!validation.isValid) {
+        return res.status(400).json({ error: 'Validation failed', errors: validation.errors, warnings: validation.warnings });
       }
-      // If we have both, we could merge them or prioritize database tasks
-      else if (fileBasedTasks.length > 0) {
-        console.log(`ℹ️ Found both database and file-based tasks, using database as primary source`);
-        // Could add logic here to merge tasks if needed
+
+      if (validation.conflicts.length > 0 && !parsed.data.ignoreConflicts) {
+        return res.status(409).json({
+          error: 'The new time conflicts with other meetings',
+          conflicts: validation.conflicts,
+          warnings: validation.warnings
+        });
       }
 
-      console.log(`✅ Returning ${formattedTasks.length} tasks to client`);
+      const result = await applyMeetingEdit(user, event, changes, workingHours, parsed.data.resendAgenda);
+
       res.json({
-        tasks: formattedTasks,
-        totalCount: formattedTasks.length,
-        meetingCount: userEvents.length,
-        dbAvailable: dbTasksAvailable
+        success: true,
+        event: result.event,
+        diff,
+        warnings: validation.warnings,
+        conflicts: validation.conflicts,
+        agendaResent: result.agendaResent,
+        agendaJobId: result.agendaJobId
+      });
+    } catch (error: any) {
+      console.error('Error updating calendar event:', error);
+      res.status(500).json({ error: error.message || 'Failed to update calendar event' });
+    }
+  });
+
+  // List tasks for current user with filtering, sorting and pagination
+  app.get('/api/tasks', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = taskQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid task query', details: parsed.error.errors });
+    }
+
+    try {
+      const user = req.user as any;
+      const result = await taskService.listTasks(user.id, parsed.data);
+
+      res.json({
+        tasks: result.tasks,
+        totalCount: result.total,
+        page: result.page,
+        pageSize: result.pageSize,
+        totalPages: result.totalPages
       });
     } catch (error: any) {
       console.error('❌ Error fetching tasks:', error);
@@ -355,67 +705,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Add a New API Endpoint for Viewing Task Text Files
-  app.get('/api/tasks/file/:meetingId', async (req: Request, res: Response) => {
+  // Create a task
+  app.post('/api/tasks', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
+    const parsed = createTaskSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid task', details: parsed.error.errors });
+    }
+
     try {
-      const meetingId = req.params.meetingId;
-      console.log(`🔍 Request to view task file for meeting: ${meetingId}`);
-      
-      // Check if the text file exists
-      const textFilePath = path.join(process.cwd(), 'tasks', `tasks-${meetingId}.txt`);
-      if (!fs.existsSync(textFilePath)) {
-        console.log(`⚠️ Task text file not found for meeting: ${meetingId}`);
-        return res.status(404).json({ error: 'Task text file not found' });
+      const user = req.user as any;
+      const task = await taskService.createTask(user.id, parsed.data);
+      res.status(201).json({ success: true, task });
+    } catch (error: any) {
+      console.error('Error creating task:', error);
+      const status = error.message?.includes('was not found') ? 404 : 500;
+      res.status(status).json({ error: error.message || 'Failed to create task' });
+    }
+  });
+
+  // Get a single task
+  app.get('/api/tasks/:taskId', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = req.user as any;
+      const task = await taskService.getTask(user.id, req.params.taskId);
+      if (!task) {
+        return res.status(404).json({ error: 'Task not found' });
       }
-      
-      console.log(`📖 Reading task text file: ${textFilePath}`);
-      const fileContent = fs.readFileSync(textFilePath, 'utf8');
-      
-      // Return the file content
-      console.log(`✅ Returning task text file content for meeting: ${meetingId}`);
-      res.setHeader('Content-Type', 'text/plain');
-      res.send(fileContent);
+
+      res.json({ task });
     } catch (error: any) {
-      console.error(`❌ Error fetching task file for meeting ${req.params.meetingId}:`, error);
-      res.status(500).json({ error: error.message || 'Failed to fetch task file' });
+      console.error('Error fetching task:', error);
+      res.status(500).json({ error: error.message || 'Failed to fetch task' });
     }
   });
 
-  // Update task status
+  // Update a task (status changes from the board, edits from task details)
   app.patch('/api/tasks/:taskId', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
+    const parsed = updateTaskSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid task update', details: parsed.error.errors });
+    }
+
     try {
       const user = req.user as any;
       const { taskId } = req.params;
-      const { status } = req.body;
-
-      if (!status || !['pending', 'in_progress', 'completed'].includes(status)) {
-        return res.status(400).json({ error: 'Invalid status' });
+      const task = await taskService.updateTask(user.id, taskId, parsed.data);
+      if (!task) {
+        return res.status(404).json({ error: 'Task not found' });
       }
 
-      // Import database and schema
-      const { db } = await import('./storage.js');
-      const { tasks, events } = await import('../shared/schema.js');
-      const { eq } = await import('drizzle-orm');
-
-      // Update task status
-      await db
-        .update(tasks)
-        .set({ status })
-        .where(eq(tasks.id, taskId));
-
       res.json({
         success: true,
         message: 'Task updated successfully',
         taskId,
-        status
+        status: task.status,
+        task
       });
     } catch (error: any) {
       console.error('Error updating task:', error);
@@ -423,6 +779,192 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Delete a task
+  app.delete('/api/tasks/:taskId', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = req.user as any;
+      const deleted = await taskService.deleteTask(user.id, req.params.taskId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+
+      res.json({ success: true, taskId: req.params.taskId });
+    } catch (error: any) {
+      console.error('Error deleting task:', error);
+      res.status(500).json({ error: error.message || 'Failed to delete task' });
+    }
+  });
+
+  // List scheduled reminder, digest and nudge jobs for current user
+  app.get('/api/scheduled-jobs', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = scheduledJobQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid scheduled job query', details: parsed.error.errors });
+    }
+
+    try {
+      const user = req.user as any;
+      const jobs = await jobScheduler.listJobs(user.id, parsed.data);
+
+      res.json({ jobs });
+    } catch (error: any) {
+      console.error('Error fetching scheduled jobs:', error);
+      res.status(500).json({ error: error.message || 'Failed to fetch scheduled jobs' });
+    }
+  });
+
+  // Cancel a scheduled job before it runs
+  app.delete('/api/scheduled-jobs/:jobId', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = req.user as any;
+      const job = await jobScheduler.cancel(user.id, req.params.jobId);
+      if (!job) {
+        return res.status(404).json({ error: 'Scheduled job not found or already run' });
+      }
+
+      res.json({ success: true, job });
+    } catch (error: any) {
+      console.error('Error cancelling scheduled job:', error);
+      res.status(500).json({ error: error.message || 'Failed to cancel scheduled job' });
+    }
+  });
+
+  // Attendee task links. These routes authenticate with the signed link token instead of a session.
+
+  // Verify a task link and return the attendee's view of the meeting
+  app.get('/api/task-access/verify', async (req: Request, res: Response) => {
+    const token = getTaskAccessToken(req);
+    if (!token) {
+      return res.status(400).json({ error: 'Task link token is required' });
+    }
+
+    try {
+      const grant = await taskAccessService.verify(token);
+      if (!grant) {
+        return res.status(401).json({ error: 'This link is invalid, expired or has been revoked' });
+      }
+
+      const tasks = await taskAccessService.getMeetingTasks(grant);
+      res.json({
+        attendeeEmail: grant.attendeeEmail,
+        expiresAt: grant.link.expiresAt,
+        meeting: {
+          id: grant.meetingId,
+          title: grant.link.meetingTitle || tasks[0]?.eventTitle || 'Meeting',
+          startTime: tasks[0]?.eventStartTime ?? null
+        },
+        tasks
+      });
+    } catch (error: any) {
+      console.error('Error verifying task link:', error);
+      res.status(500).json({ error: error.message || 'Failed to verify task link' });
+    }
+  });
+
+  // Let an attendee update the status of their own task
+  app.patch('/api/task-access/tasks/:taskId', async (req: Request, res: Response) => {
+    const token = getTaskAccessToken(req);
+    if (!token) {
+      return res.status(401).json({ error: 'Task link token is required' });
+    }
+
+    const parsed = attendeeTaskUpdateSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid task update', details: parsed.error.errors });
+    }
+
+    try {
+      const grant = await taskAccessService.verify(token);
+      if (!grant) {
+        return res.status(401).json({ error: 'This link is invalid, expired or has been revoked' });
+      }
+
+      const task = await taskAccessService.updateTaskStatus(grant, req.params.taskId, parsed.data.status);
+      if (!task) {
+        return res.status(403).json({ error: 'You can only update your own tasks from this meeting' });
+      }
+
+      res.json({ success: true, taskId: task.id, status: task.status, task });
+    } catch (error: any) {
+      console.error('Error updating task from task link:', error);
+      res.status(500).json({ error: error.message || 'Failed to update task' });
+    }
+  });
+
+  // List the task links issued for one of the organizer's meetings
+  app.get('/api/meetings/:meetingId/task-links', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = req.user as any;
+      const links = await taskAccessService.listLinks(user.id, req.params.meetingId);
+      res.json({ links });
+    } catch (error: any) {
+      console.error('Error fetching task links:', error);
+      res.status(500).json({ error: error.message || 'Failed to fetch task links' });
+    }
+  });
+
+  // Issue or reissue task links; an attendee's previous links for the meeting are revoked
+  app.post('/api/meetings/:meetingId/task-links', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = issueTaskAccessLinksSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid task link request', details: parsed.error.errors });
+    }
+
+    try {
+      const user = req.user as any;
+      const { attendeeEmails, ...options } = parsed.data;
+      const issued = await taskAccessService.issueLinks(user.id, req.params.meetingId, attendeeEmails, options);
+
+      res.status(201).json({
+        success: true,
+        links: issued.map(({ link, url }) => ({ ...link, url }))
+      });
+    } catch (error: any) {
+      console.error('Error issuing task links:', error);
+      res.status(500).json({ error: error.message || 'Failed to issue task links' });
+    }
+  });
+
+  // Revoke a task link
+  app.delete('/api/task-links/:linkId', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = req.user as any;
+      const link = await taskAccessService.revokeLink(user.id, req.params.linkId);
+      if (!link) {
+        return res.status(404).json({ error: 'Task link not found or already revoked' });
+      }
+
+      res.json({ success: true, link });
+    } catch (error: any) {
+      console.error('Error revoking task link:', error);
+      res.status(500).json({ error: error.message || 'Failed to revoke task link' });
+    }
+  });
+
   // Enhanced Gemini AI chat endpoint with contextual responses
   app.post('/api/chat', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
@@ -477,42 +1019,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         user
       );
 
-      // Validate workflow state consistency
-      const validation = await workflowChatIntegration.validateWorkflowState(
-        user.id,
-        conversationId || response.conversationId,
-        user
-      );
-
-      // Add validation warnings to response if any
-      if (validation.warnings.length > 0) {
-        response.validation.warnings.push(...validation.warnings);
-      }
-
-      // Enhanced response with specialized UI block rendering
-      const enhancedResponse = {
-        ...response,
-        // Add conversation context metadata
-        conversationContext: {
-          id: response.conversationId,
-          mode: response.contextStats.currentMode,
-          messageCount: response.contextStats.messageCount,
-          hasWorkflowData: response.contextStats.hasMeetingData,
-        },
-        // Add workflow progress indicators
-        workflowProgress: {
-          currentStep: response.workflow.currentStep,
-          progress: response.workflow.progress,
-          nextAction: response.workflow.nextAction,
-          canAdvance: !response.workflow.requiresUserInput,
-        },
-        // Include UI block rendering hints
-        uiBlockRendering: response.uiBlock ? {
-          type: response.uiBlock.type,
-          priority: getUIBlockPriority(response.uiBlock.type),
-          requiresUserAction: isUIBlockInteractive(response.uiBlock.type),
-        } : null,
-      };
+      const enhancedResponse = await buildConversationalResponse(user, conversationId, response);
 
       res.json(enhancedResponse);
     } catch (error: any) {
@@ -525,6 +1032,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Streaming variant of the conversational chat endpoint (Server-Sent Events)
+  app.post('/api/chat/conversational/stream', createConversationalStreamHandler({
+    processMessage: (userId, message, conversationId, user, onToken) =>
+      workflowChatIntegration.processMessage(userId, message, conversationId, user, onToken),
+    buildResponse: buildConversationalResponse
+  }));
+
   // AI meeting extraction endpoint
   app.post('/api/ai/extract-meeting', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
@@ -702,6 +1216,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         context: titleSuggestion.context
       });
     } catch (error: any) {
+      // Calling Mistral directly would spend the allowance the quota just refused
+      if (error instanceof AIQuotaExceededError) {
+        return res.status(429).json({ error: error.message });
+      }
+
       console.error('AI router failed for generateMeetingTitles, using direct Mistral fallback:', error);
 
       try {
@@ -983,6 +1502,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({
         agenda: formattedAgenda,
         agendaContent,
+        agendaDocument: toAgendaDocument(agendaContent),
         validation: agendaGenerator.validateAgenda(formattedAgenda)
       });
     } catch (error: any) {
@@ -1158,15 +1678,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      const { content, context } = req.body;
+      const { content, document, context } = req.body;
+
+      // Import agenda quality service
+      const { agendaQualityService } = await import('./agendaQualityService.js');
+
+      // Structured agendas are enhanced as documents and re-rendered, so the structure survives
+      if (document !== undefined) {
+        const parsed = agendaDocumentSchema.safeParse(document);
+        if (!parsed.success) {
+          return res.status(400).json({ error: 'Invalid agenda document', details: parsed.error.errors });
+        }
+
+        const enhancedDocument = agendaQualityService.enhanceAgendaDocument(parsed.data, context);
+        const enhancedContent = renderAgendaMarkdown(enhancedDocument);
+        const qualityReport = agendaQualityService.analyzeQuality(enhancedContent, context);
+
+        return res.json({
+          originalContent: renderAgendaMarkdown(parsed.data),
+          enhancedContent,
+          enhancedDocument,
+          qualityReport,
+          improvements: qualityReport.improvements,
+          enhancedAt: new Date().toISOString()
+        });
+      }
 
       if (!content || typeof content !== 'string') {
         return res.status(400).json({ error: 'Agenda content is required' });
       }
 
-      // Import agenda quality service
-      const { agendaQualityService } = await import('./agendaQualityService.js');
-
       const enhancedContent = agendaQualityService.enhanceAgenda(content, context);
       const qualityReport = agendaQualityService.analyzeQuality(enhancedContent, context);
 
@@ -1198,22 +1739,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Import agenda version service
       const { agendaVersionService } = await import('./agendaVersionService.js');
 
-      const versions = agendaVersionService.getVersions(agendaId);
-      const stats = agendaVersionService.getVersionStats(agendaId);
-
-      // Apply pagination
+      // Apply pagination, newest versions first
       const parsedLimit = Math.min(parseInt(limit as string) || 20, 50);
       const parsedOffset = Math.max(parseInt(offset as string) || 0, 0);
-      const paginatedVersions = versions.slice(parsedOffset, parsedOffset + parsedLimit);
+
+      const [versions, total, stats] = await Promise.all([
+        agendaVersionService.getVersions(agendaId, { limit: parsedLimit, offset: parsedOffset, newestFirst: true }),
+        agendaVersionService.countVersions(agendaId),
+        agendaVersionService.getVersionStats(agendaId)
+      ]);
 
       res.json({
-        versions: paginatedVersions,
+        versions,
         stats,
         pagination: {
           limit: parsedLimit,
           offset: parsedOffset,
-          total: versions.length,
-          hasMore: parsedOffset + parsedLimit < versions.length
+          total,
+          hasMore: parsedOffset + parsedLimit < total
         }
       });
     } catch (error: any) {
@@ -1230,25 +1773,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     try {
       const { agendaId } = req.params;
-      const { content, title, changeType, changeDescription, metadata } = req.body;
       const user = req.user as any;
 
-      if (!content || !title) {
-        return res.status(400).json({ error: 'Content and title are required' });
+      const parsed = createAgendaVersionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid agenda version', details: parsed.error.errors });
       }
+      const { content, title, changeType, changeDescription, metadata } = parsed.data;
 
       // Import agenda version service
       const { agendaVersionService } = await import('./agendaVersionService.js');
 
-      const newVersion = agendaVersionService.createVersion(
-        agendaId,
-        content,
-        title,
-        user.id,
-        changeType || 'edited',
+      const newVersion = await agendaVersionService.createVersion(agendaId, content, title, user.id, changeType, {
+        authorName: user.name || user.email,
         changeDescription,
         metadata
-      );
+      });
 
       res.json({
         version: newVersion,
@@ -1281,49 +1821,112 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: 'Invalid version numbers' });
       }
 
-      // Import agenda version service
+      // Import agenda version service
+      const { agendaVersionService } = await import('./agendaVersionService.js');
+
+      const comparison = await agendaVersionService.compareVersions(agendaId, fromVersion, toVersion);
+
+      if (!comparison) {
+        return res.status(404).json({ error: 'One or both versions not found' });
+      }
+
+      res.json({
+        comparison,
+        comparedAt: new Date().toISOString()
+      });
+    } catch (error: any) {
+      console.error('Error comparing agenda versions:', error);
+      res.status(500).json({ error: error.message || 'Failed to compare agenda versions' });
+    }
+  });
+
+  // Get latest version
+  app.get('/api/agenda/versions/:agendaId/latest', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const { agendaId } = req.params;
+
+      // Import agenda version service
+      const { agendaVersionService } = await import('./agendaVersionService.js');
+
+      const latestVersion = await agendaVersionService.getLatestVersion(agendaId);
+
+      if (!latestVersion) {
+        return res.status(404).json({ error: 'No versions found for this agenda' });
+      }
+
+      res.json({
+        version: latestVersion
+      });
+    } catch (error: any) {
+      console.error('Error getting latest agenda version:', error);
+      res.status(500).json({ error: error.message || 'Failed to get latest agenda version' });
+    }
+  });
+
+  // Get a single version
+  app.get('/api/agenda/versions/:agendaId/:version(\\d+)', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const { agendaId, version } = req.params;
+
       const { agendaVersionService } = await import('./agendaVersionService.js');
 
-      const comparison = agendaVersionService.compareVersions(agendaId, fromVersion, toVersion);
+      const found = await agendaVersionService.getVersion(agendaId, parseInt(version));
 
-      if (!comparison) {
-        return res.status(404).json({ error: 'One or both versions not found' });
+      if (!found) {
+        return res.status(404).json({ error: 'Version not found' });
       }
 
-      res.json({
-        comparison,
-        comparedAt: new Date().toISOString()
-      });
+      res.json({ version: found });
     } catch (error: any) {
-      console.error('Error comparing agenda versions:', error);
-      res.status(500).json({ error: error.message || 'Failed to compare agenda versions' });
+      console.error('Error getting agenda version:', error);
+      res.status(500).json({ error: error.message || 'Failed to get agenda version' });
     }
   });
 
-  // Get latest version
-  app.get('/api/agenda/versions/:agendaId/latest', async (req: Request, res: Response) => {
+  // Restore an earlier version; it is saved as a new version so history is kept
+  app.post('/api/agenda/versions/:agendaId/:version(\\d+)/restore', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     try {
-      const { agendaId } = req.params;
+      const { agendaId, version } = req.params;
+      const user = req.user as any;
+
+      const parsed = restoreAgendaVersionSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid restore request', details: parsed.error.errors });
+      }
 
-      // Import agenda version service
       const { agendaVersionService } = await import('./agendaVersionService.js');
 
-      const latestVersion = agendaVersionService.getLatestVersion(agendaId);
+      const restored = await agendaVersionService.restoreVersion(
+        agendaId,
+        parseInt(version),
+        user.id,
+        user.name || user.email,
+        parsed.data.changeDescription
+      );
 
-      if (!latestVersion) {
-        return res.status(404).json({ error: 'No versions found for this agenda' });
+      if (!restored) {
+        return res.status(404).json({ error: 'Version not found' });
       }
 
       res.json({
-        version: latestVersion
+        version: restored,
+        message: `Version ${version} restored as version ${restored.version}`
       });
     } catch (error: any) {
-      console.error('Error getting latest agenda version:', error);
-      res.status(500).json({ error: error.message || 'Failed to get latest agenda version' });
+      console.error('Error restoring agenda version:', error);
+      res.status(500).json({ error: error.message || 'Failed to restore agenda version' });
     }
   });
 
@@ -1336,7 +1939,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      const { agendaId } = req.body;
+      const { agendaId, content } = req.body;
       const user = req.user as any;
 
       if (!agendaId) {
@@ -1346,13 +1949,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Import collaborative agenda service
       const { collaborativeAgendaService } = await import('./collaborativeAgendaService.js');
 
-      const session = collaborativeAgendaService.createSession(
+      const session = await collaborativeAgendaService.createSession(
         agendaId,
         user.id,
         user.email,
-        user.name || user.email
+        user.name || user.email,
+        typeof content === 'string' ? content : ''
       );
 
+      if (!session) {
+        return res.status(403).json({ error: 'Only the meeting organizer and attendees can edit this agenda' });
+      }
+
       res.json({
         session,
         message: 'Collaborative session created successfully'
@@ -1376,7 +1984,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Import collaborative agenda service
       const { collaborativeAgendaService } = await import('./collaborativeAgendaService.js');
 
-      const collaborator = collaborativeAgendaService.joinSession(
+      const collaborator = await collaborativeAgendaService.joinSession(
         sessionId,
         user.id,
         user.email,
@@ -1384,7 +1992,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
 
       if (!collaborator) {
-        return res.status(404).json({ error: 'Session not found or inactive' });
+        return res.status(404).json({ error: 'Session not found, inactive, or not shared with you' });
       }
 
       res.json({
@@ -1410,7 +2018,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Import collaborative agenda service
       const { collaborativeAgendaService } = await import('./collaborativeAgendaService.js');
 
-      const success = collaborativeAgendaService.leaveSession(sessionId, user.id);
+      const success = await collaborativeAgendaService.leaveSession(sessionId, user.id);
 
       if (!success) {
         return res.status(404).json({ error: 'Session not found or user not in session' });
@@ -1433,11 +2041,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
     try {
       const { sessionId } = req.params;
+      const user = req.user as any;
 
       // Import collaborative agenda service
       const { collaborativeAgendaService } = await import('./collaborativeAgendaService.js');
 
-      const stats = collaborativeAgendaService.getSessionStats(sessionId);
+      const allowed = await collaborativeAgendaService.canJoinSession(sessionId, user.id, user.email);
+      const stats = allowed ? await collaborativeAgendaService.getSessionStats(sessionId) : null;
 
       if (!stats) {
         return res.status(404).json({ error: 'Session not found' });
@@ -1450,36 +2060,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Record an agenda change
-  app.post('/api/collaborative/changes', async (req: Request, res: Response) => {
+  // Get the open collaborative session for an agenda, if any
+  app.get('/api/collaborative/agendas/:agendaId/session', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     try {
-      const { sessionId, agendaId, changeType, position, content, length, previousContent, metadata } = req.body;
+      const { agendaId } = req.params;
       const user = req.user as any;
 
-      if (!sessionId || !agendaId || !changeType || !position) {
-        return res.status(400).json({ error: 'Session ID, agenda ID, change type, and position are required' });
+      // Import collaborative agenda service
+      const { collaborativeAgendaService } = await import('./collaborativeAgendaService.js');
+
+      const session = await collaborativeAgendaService.getActiveSession(agendaId);
+
+      if (!session || !(await collaborativeAgendaService.canJoinSession(session.id, user.id, user.email))) {
+        return res.status(404).json({ error: 'No active session for this agenda' });
       }
 
+      res.json({ session });
+    } catch (error: any) {
+      console.error('Error getting agenda session:', error);
+      res.status(500).json({ error: error.message || 'Failed to get agenda session' });
+    }
+  });
+
+  // Submit agenda edits; they are merged with concurrent edits and broadcast over the socket
+  app.post('/api/collaborative/changes', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = submitAgendaOperationsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid agenda change', details: parsed.error.errors });
+    }
+
+    try {
+      const user = req.user as any;
+
       // Import collaborative agenda service
       const { collaborativeAgendaService } = await import('./collaborativeAgendaService.js');
 
-      const change = collaborativeAgendaService.recordChange({
-        sessionId,
-        agendaId,
+      const change = await collaborativeAgendaService.submitOperations({
+        ...parsed.data,
         userId: user.id,
-        userName: user.name || user.email,
-        changeType: changeType as any,
-        position,
-        content,
-        length,
-        previousContent,
-        metadata
+        userName: user.name || user.email
       });
 
+      if (!change) {
+        return res.status(404).json({ error: 'Session not found or you cannot edit it' });
+      }
+
       res.json({
         change,
         message: 'Change recorded successfully'
@@ -1499,15 +2132,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { agendaId } = req.params;
       const { limit = '50', since } = req.query;
+      const user = req.user as any;
 
       // Import collaborative agenda service
       const { collaborativeAgendaService } = await import('./collaborativeAgendaService.js');
 
+      if (!(await collaborativeAgendaService.canAccessAgenda(agendaId, user.id, user.email))) {
+        return res.status(404).json({ error: 'Agenda not found' });
+      }
+
       let changes;
       if (since) {
-        changes = collaborativeAgendaService.getChangesSince(agendaId, new Date(since as string));
+        changes = await collaborativeAgendaService.getChangesSince(agendaId, new Date(since as string));
       } else {
-        changes = collaborativeAgendaService.getRecentChanges(agendaId, parseInt(limit as string));
+        changes = await collaborativeAgendaService.getRecentChanges(agendaId, parseInt(limit as string));
       }
 
       res.json({
@@ -1595,17 +2233,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
 
     try {
-      const { sessionId, agendaId, section } = req.body;
+      const { sessionId, section } = req.body;
       const user = req.user as any;
 
-      if (!sessionId || !agendaId || !section) {
-        return res.status(400).json({ error: 'Session ID, agenda ID, and section are required' });
+      if (!sessionId || !section) {
+        return res.status(400).json({ error: 'Session ID and section are required' });
       }
 
       // Import collaborative agenda service
       const { collaborativeAgendaService } = await import('./collaborativeAgendaService.js');
 
-      const lock = collaborativeAgendaService.acquireLock(sessionId, agendaId, section, user.id);
+      const lock = await collaborativeAgendaService.acquireLock(sessionId, section, user.id);
 
       if (!lock) {
         return res.status(409).json({ error: 'Section is already locked by another user' });
@@ -1660,11 +2298,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Import calendar agenda sync service
       const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
 
-      let settings = calendarAgendaSyncService.getSyncSettings(user.id);
-
-      if (!settings) {
-        settings = calendarAgendaSyncService.createSyncSettings(user.id, {});
-      }
+      const settings = await calendarAgendaSyncService.getSyncSettings(user.id);
 
       res.json({ settings });
     } catch (error: any) {
@@ -1679,201 +2313,395 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
+    const parsed = updateCalendarSyncSettingsSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid sync settings', details: parsed.error.errors });
+    }
+
+    try {
+      const user = req.user as any;
+
+      // Import calendar agenda sync service
+      const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
+
+      const settings = await calendarAgendaSyncService.updateSyncSettings(user.id, parsed.data);
+
+      res.json({
+        settings,
+        message: 'Sync settings updated successfully'
+      });
+    } catch (error: any) {
+      console.error('Error updating sync settings:', error);
+      res.status(500).json({ error: error.message || 'Failed to update sync settings' });
+    }
+  });
+
+  // Test calendar connection
+  app.post('/api/calendar/test-connection', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = req.user as any;
+
+      // Import calendar agenda sync service
+      const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
+
+      const testResult = await calendarAgendaSyncService.testCalendarConnection(user);
+
+      res.json({
+        ...testResult,
+        testedAt: new Date().toISOString()
+      });
+    } catch (error: any) {
+      console.error('Error testing calendar connection:', error);
+      res.status(500).json({ error: error.message || 'Failed to test calendar connection' });
+    }
+  });
+
+  // Get relevant calendar events for agenda sync
+  app.get('/api/calendar/relevant-events', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = req.user as any;
+      const { agendaId } = req.query;
+
+      // Import calendar agenda sync service
+      const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
+
+      const events = await calendarAgendaSyncService.getRelevantCalendarEvents(user, agendaId as string);
+
+      res.json({
+        events,
+        totalCount: events.length,
+        retrievedAt: new Date().toISOString()
+      });
+    } catch (error: any) {
+      console.error('Error getting relevant calendar events:', error);
+      res.status(500).json({ error: error.message || 'Failed to get relevant calendar events' });
+    }
+  });
+
+  // Sync agenda to calendar
+  app.post('/api/calendar/sync-agenda', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const { agendaDocument, meetingData, calendarEventId } = req.body;
+      const user = req.user as any;
+
+      if (!(req.body.agendaContent || agendaDocument) || !meetingData) {
+        return res.status(400).json({ error: 'Agenda content and meeting data are required' });
+      }
+
+      let agendaContent = req.body.agendaContent;
+      if (agendaDocument) {
+        const parsed = agendaDocumentSchema.safeParse(agendaDocument);
+        if (!parsed.success) {
+          return res.status(400).json({ error: 'Invalid agenda document', details: parsed.error.errors });
+        }
+        agendaContent = parsed.data;
+      }
+
+      // Import calendar agenda sync service
+      const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
+
+      // Queue the update for sync
+      const update = await calendarAgendaSyncService.queueAgendaUpdate(
+        meetingData.id || `agenda_${Date.now()}`,
+        calendarEventId || meetingData.calendarEventId,
+        user.id,
+        'updated',
+        [
+          {
+            field: 'agenda',
+            oldValue: meetingData.previousAgenda || '',
+            newValue: typeof agendaContent === 'string' ? agendaContent : renderAgendaMarkdown(agendaContent)
+          }
+        ]
+      );
+
+      // Perform the sync
+      const syncResult = await calendarAgendaSyncService.syncToCalendar(user, agendaContent, meetingData);
+
+      res.json({
+        syncResult,
+        update,
+        syncedAt: new Date().toISOString()
+      });
+    } catch (error: any) {
+      console.error('Error syncing agenda to calendar:', error);
+      res.status(500).json({ error: error.message || 'Failed to sync agenda to calendar' });
+    }
+  });
+
+  // Get sync statistics
+  app.get('/api/calendar/sync-stats', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = req.user as any;
+
+      // Import calendar agenda sync service
+      const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
+
+      const stats = await calendarAgendaSyncService.getSyncStats(user.id);
+
+      res.json({
+        ...stats,
+        retrievedAt: new Date().toISOString()
+      });
+    } catch (error: any) {
+      console.error('Error getting sync statistics:', error);
+      res.status(500).json({ error: error.message || 'Failed to get sync statistics' });
+    }
+  });
+
+  // Force sync all pending updates
+  app.post('/api/calendar/force-sync', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const { agendaContent, meetingData } = req.body;
+      const user = req.user as any;
+
+      if (!agendaContent || !meetingData) {
+        return res.status(400).json({ error: 'Agenda content and meeting data are required' });
+      }
+
+      // Import calendar agenda sync service
+      const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
+
+      const syncResult = await calendarAgendaSyncService.forceSync(user, agendaContent, meetingData);
+
+      res.json({
+        syncResult,
+        forcedAt: new Date().toISOString()
+      });
+    } catch (error: any) {
+      console.error('Error force syncing to calendar:', error);
+      res.status(500).json({ error: error.message || 'Failed to force sync to calendar' });
+    }
+  });
+
+  // Clean up old sync updates
+  app.post('/api/calendar/cleanup', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const user = req.user as any;
+      const { olderThanDays = 30 } = req.body;
+
+      // Import calendar agenda sync service
+      const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
+
+      const removedCount = await calendarAgendaSyncService.cleanupOldUpdates(user.id, olderThanDays);
+
+      res.json({
+        message: `Cleaned up ${removedCount} old sync updates`,
+        removedCount,
+        cleanedAt: new Date().toISOString()
+      });
+    } catch (error: any) {
+      console.error('Error cleaning up sync updates:', error);
+      res.status(500).json({ error: error.message || 'Failed to clean up sync updates' });
+    }
+  });
+
+  // Pull changes made in Google Calendar right away instead of waiting for the next poll
+  app.post('/api/calendar/sync-now', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
     try {
       const user = req.user as any;
-      const updates = req.body;
 
       // Import calendar agenda sync service
       const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
 
-      const settings = calendarAgendaSyncService.updateSyncSettings(user.id, updates);
-
-      if (!settings) {
-        return res.status(404).json({ error: 'Sync settings not found' });
-      }
+      const result = await calendarAgendaSyncService.pullUserCalendars(user);
 
       res.json({
-        settings,
-        message: 'Sync settings updated successfully'
+        ...result,
+        syncedAt: new Date().toISOString()
       });
     } catch (error: any) {
-      console.error('Error updating sync settings:', error);
-      res.status(500).json({ error: error.message || 'Failed to update sync settings' });
+      console.error('Error pulling calendar changes:', error);
+      res.status(500).json({ error: error.message || 'Failed to pull calendar changes' });
     }
   });
 
-  // Test calendar connection
-  app.post('/api/calendar/test-connection', async (req: Request, res: Response) => {
+  // Meetings changed both here and in Google Calendar since the last sync
+  app.get('/api/calendar/conflicts', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     try {
       const user = req.user as any;
+      const status = req.query.status === 'resolved' ? 'resolved' : 'open';
 
       // Import calendar agenda sync service
       const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
 
-      const testResult = await calendarAgendaSyncService.testCalendarConnection(user);
+      const conflicts = await calendarAgendaSyncService.getConflicts(user.id, status);
 
-      res.json({
-        ...testResult,
-        testedAt: new Date().toISOString()
-      });
+      res.json({ conflicts });
     } catch (error: any) {
-      console.error('Error testing calendar connection:', error);
-      res.status(500).json({ error: error.message || 'Failed to test calendar connection' });
+      console.error('Error getting calendar conflicts:', error);
+      res.status(500).json({ error: error.message || 'Failed to get calendar conflicts' });
     }
   });
 
-  // Get relevant calendar events for agenda sync
-  app.get('/api/calendar/relevant-events', async (req: Request, res: Response) => {
+  // Keep the local value or take Google Calendar's for a conflicting field
+  app.post('/api/calendar/conflicts/:id/resolve', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
+    const parsed = resolveCalendarSyncConflictSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid resolution', details: parsed.error.errors });
+    }
+
     try {
       const user = req.user as any;
-      const { agendaId } = req.query;
 
       // Import calendar agenda sync service
       const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
 
-      const events = await calendarAgendaSyncService.getRelevantCalendarEvents(user, agendaId as string);
+      const conflict = await calendarAgendaSyncService.resolveConflict(user, req.params.id, parsed.data.resolution);
 
-      res.json({
-        events,
-        totalCount: events.length,
-        retrievedAt: new Date().toISOString()
-      });
+      if (!conflict) {
+        return res.status(404).json({ error: 'Conflict not found or already resolved' });
+      }
+
+      res.json({ conflict });
     } catch (error: any) {
-      console.error('Error getting relevant calendar events:', error);
-      res.status(500).json({ error: error.message || 'Failed to get relevant calendar events' });
+      console.error('Error resolving calendar conflict:', error);
+      res.status(500).json({ error: error.message || 'Failed to resolve calendar conflict' });
     }
   });
 
-  // Sync agenda to calendar
-  app.post('/api/calendar/sync-agenda', async (req: Request, res: Response) => {
+  // External calendars (ICS feeds and uploaded .ics files) counted as busy time
+  app.get('/api/calendar/feeds', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     try {
-      const { agendaContent, meetingData, calendarEventId } = req.body;
       const user = req.user as any;
+      const feeds = await calendarFeedService.listFeeds(user.id);
 
-      if (!agendaContent || !meetingData) {
-        return res.status(400).json({ error: 'Agenda content and meeting data are required' });
-      }
+      res.json({ feeds: feeds.map(toCalendarFeedSummary) });
+    } catch (error: any) {
+      console.error('Error listing calendar feeds:', error);
+      res.status(500).json({ error: error.message || 'Failed to list calendar feeds' });
+    }
+  });
 
-      // Import calendar agenda sync service
-      const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
+  // Subscribe to an ICS feed URL or upload an .ics file
+  app.post('/api/calendar/feeds', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
 
-      // Queue the update for sync
-      const update = calendarAgendaSyncService.queueAgendaUpdate(
-        meetingData.id || `agenda_${Date.now()}`,
-        calendarEventId || meetingData.calendarEventId,
-        user.id,
-        'updated',
-        [
-          {
-            field: 'agenda',
-            oldValue: meetingData.previousAgenda || '',
-            newValue: agendaContent
-          }
-        ]
-      );
+    const parsed = createCalendarFeedSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid calendar feed', details: parsed.error.errors });
+    }
 
-      // Perform the sync
-      const syncResult = await calendarAgendaSyncService.syncToCalendar(user, agendaContent, meetingData);
+    try {
+      const user = req.user as any;
+      const feed = await calendarFeedService.addFeed(user.id, parsed.data);
 
-      res.json({
-        syncResult,
-        update,
-        syncedAt: new Date().toISOString()
-      });
+      res.status(201).json({ feed: toCalendarFeedSummary(feed) });
     } catch (error: any) {
-      console.error('Error syncing agenda to calendar:', error);
-      res.status(500).json({ error: error.message || 'Failed to sync agenda to calendar' });
+      console.error('Error adding calendar feed:', error);
+      if (error instanceof CalendarFeedError) {
+        return res.status(400).json({ error: `Could not read calendar: ${error.message}` });
+      }
+      res.status(500).json({ error: 'Failed to add calendar feed' });
     }
   });
 
-  // Get sync statistics
-  app.get('/api/calendar/sync-stats', async (req: Request, res: Response) => {
+  // Rename a feed, change its refresh interval or turn it on and off
+  app.patch('/api/calendar/feeds/:feedId', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
+    const parsed = updateCalendarFeedSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid calendar feed update', details: parsed.error.errors });
+    }
+
     try {
       const user = req.user as any;
+      const feed = await calendarFeedService.updateFeed(user.id, req.params.feedId, parsed.data);
 
-      // Import calendar agenda sync service
-      const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
-
-      const stats = calendarAgendaSyncService.getSyncStats(user.id);
+      if (!feed) {
+        return res.status(404).json({ error: 'Calendar feed not found' });
+      }
 
-      res.json({
-        ...stats,
-        retrievedAt: new Date().toISOString()
-      });
+      res.json({ feed: toCalendarFeedSummary(feed) });
     } catch (error: any) {
-      console.error('Error getting sync statistics:', error);
-      res.status(500).json({ error: error.message || 'Failed to get sync statistics' });
+      console.error('Error updating calendar feed:', error);
+      res.status(500).json({ error: error.message || 'Failed to update calendar feed' });
     }
   });
 
-  // Force sync all pending updates
-  app.post('/api/calendar/force-sync', async (req: Request, res: Response) => {
+  // Fetch a feed again right away instead of waiting for its next refresh
+  app.post('/api/calendar/feeds/:feedId/refresh', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     try {
-      const { agendaContent, meetingData } = req.body;
       const user = req.user as any;
+      const feed = await calendarFeedService.refreshUserFeed(user.id, req.params.feedId);
 
-      if (!agendaContent || !meetingData) {
-        return res.status(400).json({ error: 'Agenda content and meeting data are required' });
+      if (!feed) {
+        return res.status(404).json({ error: 'Calendar feed not found' });
       }
 
-      // Import calendar agenda sync service
-      const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
-
-      const syncResult = await calendarAgendaSyncService.forceSync(user, agendaContent, meetingData);
-
-      res.json({
-        syncResult,
-        forcedAt: new Date().toISOString()
-      });
+      res.json({ feed: toCalendarFeedSummary(feed) });
     } catch (error: any) {
-      console.error('Error force syncing to calendar:', error);
-      res.status(500).json({ error: error.message || 'Failed to force sync to calendar' });
+      console.error('Error refreshing calendar feed:', error);
+      res.status(500).json({ error: 'Failed to refresh calendar feed' });
     }
   });
 
-  // Clean up old sync updates
-  app.post('/api/calendar/cleanup', async (req: Request, res: Response) => {
+  app.delete('/api/calendar/feeds/:feedId', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
     try {
       const user = req.user as any;
-      const { olderThanDays = 30 } = req.body;
-
-      // Import calendar agenda sync service
-      const { calendarAgendaSyncService } = await import('./calendarAgendaSyncService.js');
+      const removed = await calendarFeedService.removeFeed(user.id, req.params.feedId);
 
-      const removedCount = calendarAgendaSyncService.cleanupOldUpdates(user.id, olderThanDays);
+      if (!removed) {
+        return res.status(404).json({ error: 'Calendar feed not found' });
+      }
 
-      res.json({
-        message: `Cleaned up ${removedCount} old sync updates`,
-        removedCount,
-        cleanedAt: new Date().toISOString()
-      });
+      res.json({ success: true });
     } catch (error: any) {
-      console.error('Error cleaning up sync updates:', error);
-      res.status(500).json({ error: error.message || 'Failed to clean up sync updates' });
+      console.error('Error removing calendar feed:', error);
+      res.status(500).json({ error: error.message || 'Failed to remove calendar feed' });
     }
   });
 
@@ -2408,6 +3236,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           name: a.firstName ? `${a.firstName} ${a.lastName || ''}`.trim() : undefined,
         })) || [],
         createMeetLink: finalMeetingData.type === 'online',
+        recurrenceRule: finalMeetingData.recurrence?.rrule,
+        timeZone: (await userProfileService.getWorkingHours(user.id)).timezone,
       };
 
       const createdEvent = await createCalendarEvent(user, eventData, eventData.createMeetLink ? 'online' : 'physical');
@@ -2469,9 +3299,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const description = requestBody.enhancedPurpose || eventData.description || '';
 
         // Create the calendar event with optional Meet link
+        const workingHours = await userProfileService.getWorkingHours(user.id);
         const createdEvent = await createCalendarEvent(
           user,
-          { ...eventData, description },
+          { ...eventData, description, timeZone: workingHours.timezone },
           eventData.createMeetLink ? 'online' : 'physical'
         );
 
@@ -2576,118 +3407,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         meetingData.meetingLink
       );
 
-      // Generate summary
-      const summary = await transcriptService.generateMeetingSummary(transcript);
-
-      // Extract tasks
-      const tasks = await transcriptService.extractTasksFromSummary(summary);
-
-      // Store tasks in database
-      const { db } = await import('./storage.js');
-      const { tasks: taskTable } = await import('../shared/schema.js');
-
-      for (const task of tasks) {
-        await db.insert(taskTable).values({
-          eventId: meetingId,
-          title: task.title,
-          description: task.description,
-          assignee: task.assignee || 'Unassigned',
-          deadline: task.dueDate,
-          status: task.status,
-          createdAt: new Date()
-        } as any);
-      }
-
-      // Send summary to attendees
-      if (meetingData.attendees && meetingData.attendees.length > 0) {
-        const { emailWorkflowOrchestrator } = await import('./emailWorkflowOrchestrator.js');
-
-        const summaryContent = `
-# Meeting Summary: ${summary.title}
-
-## Overview
-${summary.summary}
-
-## Key Points
-${summary.keyPoints.map(point => `• ${point}`).join('\n')}
-
-## Decisions Made
-${summary.decisions.map(decision => `• ${decision}`).join('\n')}
-
-## Action Items
-${summary.actionItems.map(item => `• ${item}`).join('\n')}
-
----
-Generated by AI Assistant
-        `.trim();
-
-        await emailWorkflowOrchestrator.startEmailSendingWorkflow(
-          user,
-          meetingId,
-          meetingData.attendees.map((attendee: any) => ({
-            email: attendee.email,
-            isValid: true,
-            exists: true,
-            isGoogleUser: true
-          })),
-          {
-            title: summary.title,
-            startTime: meetingData.startTime,
-            endTime: meetingData.endTime,
-            type: meetingData.type
-          },
-          {
-            title: summary.title,
-            duration: 60,
-            topics: [
-              {
-                title: 'Meeting Summary Review',
-                duration: 10,
-                description: 'Review the meeting summary and key outcomes'
-              }
-            ],
-            actionItems: summary.actionItems.map(item => ({
-              task: item,
-              priority: 'medium' as const
-            })),
-            enhancedPurpose: summaryContent
-          }
-        );
-      }
-
-      // Generate magic links for attendees
-      const magicLinks = new Map<string, string>();
-      for (const attendee of meetingData.attendees || []) {
-        const token = `magic_${Date.now()}_${Math.random().toString(36).substr(2, 16)}`;
-        const magicLink = `${process.env.FRONTEND_URL || 'http://localhost:3000'}/tasks/${meetingId}?token=${token}&email=${encodeURIComponent(attendee.email)}`;
-        magicLinks.set(attendee.email, magicLink);
-      }
-
-      // Send magic link emails
-      const { gmailService } = await import('./gmailService.js');
-      for (const attendee of meetingData.attendees || []) {
-        const magicLink = magicLinks.get(attendee.email);
-        if (magicLink) {
-          const emailContent = `
-Hello ${attendee.firstName || attendee.email},
-
-Your meeting "${meetingData.title}" has concluded and tasks have been generated.
-
-Click the link below to view and complete your assigned tasks:
-${magicLink}
-
-This link will allow you to:
-• View all tasks from the meeting
-• Mark your tasks as complete
-• See progress on team tasks
-
----
-This is an automated message from your AI Calendar Assistant.
-          `.trim();
-
-          console.log(`📧 Magic link email would be sent to ${attendee.email}: ${magicLink}`);
-        }
-      }
+      const { summary, tasks } = await processTranscriptFollowUp(user, meetingId, meetingData, transcript);
 
       console.log(`✅ Transcript workflow completed for meeting: ${meetingId}`);
 
@@ -2724,6 +3444,101 @@ This is an automated message from your AI Calendar Assistant.
     }
   });
 
+  // Ingest a real transcript (WebVTT, SRT, Google Meet export or speaker-labelled text)
+  app.post('/api/transcript/upload', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = transcriptUploadSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid transcript upload', details: parsed.error.errors });
+    }
+
+    try {
+      const user = req.user as any;
+      const { meetingId, content, fileName, format } = parsed.data;
+
+      // Transcripts can only be added by the meeting's organizer; attendees can see the event but do not own it
+      let event;
+      try {
+        event = await getCalendarEvent(user, meetingId);
+      } catch {
+        return res.status(404).json({ error: 'Meeting not found' });
+      }
+      if (!isEventOrganizer(event, user)) {
+        return res.status(403).json({ error: 'Only the meeting organizer can upload its transcript' });
+      }
+
+      // Meeting details come from the calendar; the client may only add attendee names
+      const namedAttendees = new Map<string, any>(
+        (parsed.data.meetingData?.attendees || [])
+          .filter((attendee): attendee is Exclude<typeof attendee, string> => typeof attendee !== 'string')
+          .map(attendee => [attendee.email.toLowerCase(), attendee])
+      );
+      const attendees = event.attendees.filter(Boolean).map(email => {
+        const attendee = namedAttendees.get(email.toLowerCase());
+        return attendee ?
+          {
+            email,
+            name: attendee.name || [attendee.firstName, attendee.lastName].filter(Boolean).join(' ') || undefined,
+            firstName: attendee.firstName
+          } :
+          { email };
+      });
+      const meetingData = {
+        title: event.title,
+        startTime: event.startTime.toISOString(),
+        endTime: event.endTime.toISOString(),
+        type: parsed.data.meetingData?.type,
+        attendees
+      };
+
+      const { transcriptService } = await import('./transcriptService.js');
+
+      let transcript;
+      try {
+        transcript = await transcriptService.ingestTranscript(meetingId, meetingData.title || 'Meeting', content, {
+          format,
+          fileName,
+          attendees
+        });
+      } catch (error: any) {
+        return res.status(400).json({ error: error.message || 'Failed to parse transcript' });
+      }
+
+      const { summary, tasks } = await processTranscriptFollowUp(user, meetingId, meetingData, transcript);
+
+      console.log(`✅ Uploaded transcript processed for meeting: ${meetingId}`);
+
+      res.json({
+        success: true,
+        message: 'Transcript uploaded and processed successfully',
+        transcript: {
+          meetingId: transcript.meetingId,
+          title: transcript.title,
+          format: transcript.format,
+          turnsCount: transcript.turns?.length || 0,
+          participants: transcript.participants,
+          unmatchedSpeakers: transcript.unmatchedSpeakers || [],
+          wordCount: transcript.wordCount,
+          filePath: transcript.filePath
+        },
+        summary: {
+          meetingId: summary.meetingId,
+          keyPointsCount: summary.keyPoints.length,
+          decisionsCount: summary.decisions.length,
+          actionItemsCount: summary.actionItems.length,
+          filePath: summary.filePath
+        },
+        tasksCount: tasks.length
+      });
+    } catch (error: any) {
+      console.error('Error processing uploaded transcript:', error);
+      res.status(500).json({ error: error.message || 'Failed to process transcript' });
+    }
+  });
+
   // Email workflow endpoints
   app.post('/api/email/send-agenda', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
@@ -2750,11 +3565,15 @@ This is an automated message from your AI Calendar Assistant.
 
       const user = req.user as any;
 
+      const calendarInvite = meetingId
+        ? await calendarInviteService.getInvite(user, meetingId, toInviteAttendees(attendees))
+        : undefined;
+
       const jobId = await emailWorkflowOrchestrator.startEmailSendingWorkflow(
         user,
         meetingId || `meeting_${Date.now()}`,
         attendees,
-        meetingData,
+        { ...meetingData, calendarInvite },
         agendaContent,
         retryConfig
       );
@@ -2781,7 +3600,9 @@ This is an automated message from your AI Calendar Assistant.
       // Import email workflow orchestrator
       const { emailWorkflowOrchestrator } = await import('./emailWorkflowOrchestrator.js');
 
-      const status = emailWorkflowOrchestrator.getEmailSendingStatus(jobId);
+      const user = req.user as any;
+
+      const status = await emailWorkflowOrchestrator.getEmailSendingStatus(user.id, jobId);
 
       if (!status) {
         return res.status(404).json({ error: 'Email job not found' });
@@ -2835,7 +3656,9 @@ This is an automated message from your AI Calendar Assistant.
       // Import email workflow orchestrator
       const { emailWorkflowOrchestrator } = await import('./emailWorkflowOrchestrator.js');
 
-      const success = emailWorkflowOrchestrator.cancelEmailSendingJob(jobId);
+      const user = req.user as any;
+
+      const success = await emailWorkflowOrchestrator.cancelEmailSendingJob(user.id, jobId);
 
       if (!success) {
         return res.status(400).json({ error: 'Cannot cancel job - job not found or already completed' });
@@ -2863,20 +3686,26 @@ This is an automated message from your AI Calendar Assistant.
     try {
       const user = req.user as any;
       const { conversationId } = req.params;
-      const { meetingId, agenda } = req.body;
+      const { meetingId, agenda, agendaDocument } = req.body;
 
-      if (!agenda) {
+      if (!agenda && !agendaDocument) {
         return res.status(400).json({ error: 'Agenda content is required' });
       }
 
+      const parsedDocument = agendaDocumentSchema.optional().safeParse(agendaDocument);
+      if (!parsedDocument.success) {
+        return res.status(400).json({ error: 'Invalid agenda document', details: parsedDocument.error.errors });
+      }
+      const agendaFields = toAgendaFields(parsedDocument.data ?? agenda);
+
       // Validate agenda content
       const { agendaGenerator } = await import('./agendaGenerator.js');
-      const validation = agendaGenerator.validateAgenda(agenda);
+      const validation = agendaGenerator.validateAgenda(agendaFields.agenda);
 
       // Update meeting data with new agenda
       await workflowChatIntegration.updateMeetingData(
         user.id,
-        { agenda },
+        agendaFields,
         conversationId
       );
 
@@ -2920,10 +3749,12 @@ This is an automated message from your AI Calendar Assistant.
       const formattedAgenda = agendaGenerator.formatAgenda(agendaContent);
       const validation = agendaGenerator.validateAgenda(formattedAgenda);
 
+      const agendaDocument = toAgendaDocument(agendaContent);
+
       // Update meeting data with regenerated agenda
       await workflowChatIntegration.updateMeetingData(
         user.id,
-        { agenda: formattedAgenda },
+        { agenda: formattedAgenda, agendaDocument },
         conversationId
       );
 
@@ -2932,6 +3763,7 @@ This is an automated message from your AI Calendar Assistant.
         message: 'Agenda regenerated successfully',
         agenda: formattedAgenda,
         agendaContent,
+        agendaDocument,
         validation,
         meetingId
       });
@@ -2950,15 +3782,21 @@ This is an automated message from your AI Calendar Assistant.
     try {
       const user = req.user as any;
       const { conversationId } = req.params;
-      const { meetingId, agenda } = req.body;
+      const { meetingId, agenda, agendaDocument } = req.body;
 
-      if (!agenda) {
+      if (!agenda && !agendaDocument) {
         return res.status(400).json({ error: 'Agenda content is required for approval' });
       }
 
+      const parsedDocument = agendaDocumentSchema.optional().safeParse(agendaDocument);
+      if (!parsedDocument.success) {
+        return res.status(400).json({ error: 'Invalid agenda document', details: parsedDocument.error.errors });
+      }
+      const agendaFields = toAgendaFields(parsedDocument.data ?? agenda);
+
       // Validate agenda before approval
       const { agendaGenerator } = await import('./agendaGenerator.js');
-      const validation = agendaGenerator.validateAgenda(agenda);
+      const validation = agendaGenerator.validateAgenda(agendaFields.agenda);
 
       if (!validation.isValid) {
         return res.status(400).json({
@@ -2971,7 +3809,7 @@ This is an automated message from your AI Calendar Assistant.
       // Update meeting data with approved agenda
       await workflowChatIntegration.updateMeetingData(
         user.id,
-        { agenda },
+        agendaFields,
         conversationId
       );
 
@@ -2979,7 +3817,7 @@ This is an automated message from your AI Calendar Assistant.
       const transitionResult = await workflowChatIntegration.advanceWorkflowStep(
         user.id,
         'approval',
-        { agenda },
+        agendaFields,
         conversationId
       );
 
@@ -3460,9 +4298,31 @@ This is an automated message from your AI Calendar Assistant.
         console.log('⚠️ Not caching fallback content');
       }
 
+      // Start the meeting's version history with what was generated
+      let version;
+      if (meetingId) {
+        try {
+          const { agendaVersionService } = await import('./agendaVersionService.js');
+          const { agendaQualityService } = await import('./agendaQualityService.js');
+          const user = req.user as any;
+          const quality = agendaQualityService.analyzeQuality(finalHtmlContent, { meetingLink, duration, purpose: enhancedPurpose });
+          version = await agendaVersionService.createVersion(String(meetingId), finalHtmlContent, title, user.id, 'created', {
+            authorName: user.name || user.email,
+            changeDescription: agendaResult.fallback ? 'Generated from the default template' : 'Generated by AI',
+            metadata: {
+              generationMethod: agendaResult.fallback ? 'template' : 'ai',
+              qualityScore: quality.score
+            }
+          });
+        } catch (versionError) {
+          console.warn('Failed to save generated agenda version:', versionError);
+        }
+      }
+
       res.json({
         success: true,
         agenda: agendaResult,
+        version,
         cached: false,
         generatedAt: new Date().toISOString()
       });
@@ -3742,7 +4602,12 @@ Use professional, engaging language. Write in complete sentences and end with ap
         type: 'online' as const,
         startTime: startTime ? new Date(startTime) : undefined,
         endTime: endTime ? new Date(endTime) : undefined,
-        meetingLink
+        meetingLink,
+        calendarInvite: await calendarInviteService.getInvite(
+          user,
+          String(meetingId),
+          toInviteAttendees(validatedAttendees.filter((a: any) => a.isValid))
+        )
       };
 
       // Create agenda content structure that matches AgendaContent interface
@@ -3779,6 +4644,21 @@ Use professional, engaging language. Write in complete sentences and end with ap
         validEmailCount
       });
 
+      // Keep the agenda attendees received in the version history, unless it is already the latest
+      try {
+        const { agendaVersionService } = await import('./agendaVersionService.js');
+        const latest = await agendaVersionService.getLatestVersion(String(meetingId));
+        if (latest?.content !== formattedAgenda) {
+          await agendaVersionService.createVersion(String(meetingId), formattedAgenda, title || 'Meeting Agenda', user.id, 'edited', {
+            authorName: user.name || user.email,
+            changeDescription: 'Sent to attendees',
+            metadata: { generationMethod: 'manual' }
+          });
+        }
+      } catch (versionError) {
+        console.warn('Failed to save sent agenda version:', versionError);
+      }
+
       // Return success with job details
       res.json({
         success: true,
@@ -3802,26 +4682,36 @@ Use professional, engaging language. Write in complete sentences and end with ap
       return res.status(401).json({ error: 'Not authenticated' });
     }
 
+    // ?deadLettered=true lists jobs that gave up and are waiting to be requeued
+    const parsed = emailJobQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: 'Invalid email job query', details: parsed.error.errors });
+    }
+
     try {
       // Import email workflow orchestrator
       const { emailWorkflowOrchestrator } = await import('./emailWorkflowOrchestrator.js');
 
       const user = req.user as any;
 
-      const jobs = emailWorkflowOrchestrator.getUserEmailJobs(user.id);
-      const statistics = emailWorkflowOrchestrator.getJobStatistics();
+      const jobs = await emailWorkflowOrchestrator.getUserEmailJobs(user.id, parsed.data);
+      const statistics = await emailWorkflowOrchestrator.getJobStatistics(user.id);
 
       res.json({
         jobs: jobs.map(job => ({
           id: job.id,
+          type: job.type,
           meetingId: job.meetingId,
           status: job.status,
           totalAttendees: job.attendees.length,
           emailsSent: job.results?.totalSent || 0,
           emailsFailed: job.results?.totalFailed || 0,
+          attempts: job.attempts,
           createdAt: job.createdAt,
           completedAt: job.completedAt,
-          errors: job.errors
+          deadLetteredAt: job.deadLetteredAt,
+          errors: job.errors,
+          results: job.results?.results || []
         })),
         statistics
       });
@@ -3831,6 +4721,36 @@ Use professional, engaging language. Write in complete sentences and end with ap
     }
   });
 
+  app.post('/api/email/jobs/:jobId/requeue', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+      const { jobId } = req.params;
+
+      // Import email workflow orchestrator
+      const { emailWorkflowOrchestrator } = await import('./emailWorkflowOrchestrator.js');
+
+      const user = req.user as any;
+
+      const success = await emailWorkflowOrchestrator.requeueDeadLetteredJob(user.id, jobId);
+
+      if (!success) {
+        return res.status(404).json({ error: 'Dead-lettered email job not found' });
+      }
+
+      res.json({
+        message: 'Email job requeued',
+        jobId,
+        status: 'pending'
+      });
+    } catch (error: any) {
+      console.error('Error requeuing email job:', error);
+      res.status(500).json({ error: error.message || 'Failed to requeue email job' });
+    }
+  });
+
   // Email notification endpoints
   app.get('/api/notifications', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
@@ -3909,6 +4829,26 @@ Use professional, engaging language. Write in complete sentences and end with ap
     }
   });
 
+  // AI consumption per user and team, for the admins listed in ADMIN_EMAILS
+  app.get('/api/admin/ai-usage', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const user = req.user as any;
+    if (!aiQuota.isAdmin(user.email)) {
+      return res.status(403).json({ error: 'Admin access required' });
+    }
+
+    try {
+      const hours = parseInt(req.query.hours as string);
+      res.json(await aiQuota.getUsageReport(hours > 0 ? hours : undefined));
+    } catch (error: any) {
+      console.error('Error getting AI usage:', error);
+      res.status(500).json({ error: error.message || 'Failed to get AI usage' });
+    }
+  });
+
   // Performance monitoring endpoints
   app.get('/api/performance/stats', async (req: Request, res: Response) => {
     if (!req.isAuthenticated()) {
@@ -4015,6 +4955,9 @@ Use professional, engaging language. Write in complete sentences and end with ap
   // Error reporting and analytics routes
   app.use('/api/errors', errorReportingRoutes);
 
+  // Meeting minutes routes
+  app.use('/api', meetingMinutesRoutes);
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -0,0 +1,164 @@
+/**
+ * Meeting minutes routes
+ *
+ * Lets the organizer of a meeting review, edit, preview and send the minutes prepared from its transcript
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { getCalendarEvent, isEventOrganizer } from '../googleCalendar.js';
+import { taskService } from '../taskService.js';
+import { meetingMinutesService, toMinutesActionItem } from '../meetingMinutesService.js';
+import { meetingIdSchema, sendMinutesRequestSchema, updateMeetingMinutesSchema, type MinutesActionItem } from '../../shared/schema.js';
+
+const router = Router();
+
+/**
+ * Returns the meeting's minutes draft, rebuilding it from the stored summary and tasks
+ * when the draft is no longer in memory (e.g. after a server restart). Only the meeting's
+ * organizer can restore minutes, so the result is undefined for anyone else.
+ */
+async function getOrRestoreMinutesDraft(user: any, meetingId: string) {
+    const existing = meetingMinutesService.getDraft(user.id, meetingId);
+    if (existing) {
+        return existing;
+    }
+
+    if (!meetingIdSchema.safeParse(meetingId).success) {
+        return undefined;
+    }
+
+    let event;
+    try {
+        event = await getCalendarEvent(user, meetingId);
+    } catch (error) {
+        console.warn(`Could not load calendar event ${meetingId} for minutes:`, error);
+        return undefined;
+    }
+    if (!isEventOrganizer(event, user)) {
+        return undefined;
+    }
+
+    const { transcriptService } = await import('../transcriptService.js');
+    const summary = await transcriptService.getSummary(meetingId);
+    if (!summary) {
+        return undefined;
+    }
+
+    const meetingData = { title: event.title, startTime: event.startTime, endTime: event.endTime, attendees: event.attendees };
+
+    const { tasks } = await taskService.listTasks(user.id, { eventId: meetingId, pageSize: 200, sortBy: 'createdAt', sortOrder: 'asc' });
+    const actionItems = tasks.map(task => toMinutesActionItem({
+        ...task,
+        description: task.description ?? '',
+        assigneeEmail: task.assigneeEmail ?? undefined,
+        dueDate: task.deadline ?? undefined,
+        priority: task.priority as MinutesActionItem['priority']
+    }));
+
+    return meetingMinutesService.createDraft(user.id, meetingId, meetingData, summary, actionItems);
+}
+
+router.get('/meetings/:meetingId/minutes', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+        const draft = await getOrRestoreMinutesDraft(req.user as any, req.params.meetingId);
+        if (!draft) {
+            return res.status(404).json({ error: 'No minutes available for this meeting yet' });
+        }
+
+        res.json(draft);
+    } catch (error: any) {
+        console.error('Error getting meeting minutes:', error);
+        res.status(500).json({ error: error.message || 'Failed to get meeting minutes' });
+    }
+});
+
+router.put('/meetings/:meetingId/minutes', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = updateMeetingMinutesSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid minutes update', details: parsed.error.errors });
+    }
+
+    try {
+        const user = req.user as any;
+        const existing = await getOrRestoreMinutesDraft(user, req.params.meetingId);
+        if (!existing) {
+            return res.status(404).json({ error: 'No minutes available for this meeting yet' });
+        }
+        if (existing.status === 'sent') {
+            return res.status(409).json({ error: 'Minutes for this meeting have already been sent' });
+        }
+
+        res.json(meetingMinutesService.updateDraft(user.id, req.params.meetingId, parsed.data));
+    } catch (error: any) {
+        console.error('Error updating meeting minutes:', error);
+        res.status(500).json({ error: error.message || 'Failed to update meeting minutes' });
+    }
+});
+
+router.get('/meetings/:meetingId/minutes/preview', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    try {
+        const user = req.user as any;
+        const draft = await getOrRestoreMinutesDraft(user, req.params.meetingId);
+        if (!draft) {
+            return res.status(404).json({ error: 'No minutes available for this meeting yet' });
+        }
+
+        const email = typeof req.query.email === 'string' ? req.query.email : undefined;
+        res.json(meetingMinutesService.previewDraft(user.id, req.params.meetingId, email));
+    } catch (error: any) {
+        console.error('Error previewing meeting minutes:', error);
+        res.status(500).json({ error: error.message || 'Failed to preview meeting minutes' });
+    }
+});
+
+router.post('/email/send-minutes', async (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+        return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    const parsed = sendMinutesRequestSchema.safeParse(req.body);
+    if (!parsed.success) {
+        return res.status(400).json({ error: 'Invalid request', details: parsed.error.errors });
+    }
+
+    try {
+        const user = req.user as any;
+        const { meetingId, retryConfig } = parsed.data;
+
+        const draft = await getOrRestoreMinutesDraft(user, meetingId);
+        if (!draft) {
+            return res.status(404).json({ error: 'No minutes available for this meeting yet' });
+        }
+        if (draft.status === 'sent') {
+            return res.status(409).json({ error: 'Minutes for this meeting have already been sent', jobId: draft.jobId });
+        }
+        if (draft.recipients.length === 0) {
+            return res.status(400).json({ error: 'Attendees are required' });
+        }
+
+        const jobId = await meetingMinutesService.sendDraft(user, meetingId, retryConfig);
+
+        res.json({
+            jobId,
+            message: 'Minutes email workflow started',
+            status: 'pending'
+        });
+    } catch (error: any) {
+        console.error('Error starting minutes email workflow:', error);
+        res.status(500).json({ error: error.message || 'Failed to start minutes email workflow' });
+    }
+});
+
+export default router;
@@ -0,0 +1,362 @@
+import { db, storage } from './storage.js';
+import { events, tasks, userProfiles } from '../shared/schema.js';
+import type { ScheduledJob, User, UserProfile } from '../shared/schema.js';
+import { and, eq, gt, inArray, isNotNull, lte, ne, sql } from 'drizzle-orm';
+import { jobScheduler, type JobScheduler } from './jobScheduler.js';
+import { taskService, type TaskWithMeeting } from './taskService.js';
+import { gmailService } from './gmailService.js';
+import { emailTemplateService, type ReminderTask } from './emailTemplateService.js';
+import { emailNotificationService } from './emailNotificationService.js';
+import { getTaskBacklink } from './googleTasksService.js';
+import { authenticationErrorHandler } from './errorHandlers/authenticationErrorHandler.js';
+import { toReminderSettings, toWorkingHoursProfile } from './userProfileService.js';
+import { DEFAULT_WORKING_HOURS_PROFILE, getZonedTimeParts, zonedTimeToDate, type WorkingHoursProfile } from './utils/workingHours.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Reminders are planned for meetings this far ahead (the longest allowed reminder lead time)
+const REMINDER_LOOKAHEAD_MS = 168 * HOUR_MS;
+// A job whose time passed by more than this (e.g. while the server was down) is not sent late
+const MISSED_JOB_GRACE_MS = 15 * 60 * 1000;
+// Deadlines older than this are not nudged about any more
+const NUDGE_LOOKBACK_MS = 7 * DAY_MS;
+const OPEN_TASK_STATUSES = ['pending', 'in_progress'];
+
+/**
+ * When the agenda reminder for a meeting should go out
+ */
+export function getAgendaReminderTime(startTime: Date, reminderHours: number): Date {
+    return new Date(startTime.getTime() - reminderHours * HOUR_MS);
+}
+
+/**
+ * Next digest time: the start of the user's next working day, or today's if it passed
+ * less than the grace period ago so a restart around the digest time doesn't skip a day
+ */
+export function getNextDigestTime(profile: WorkingHoursProfile, now: Date): Date {
+    for (let offset = 0; offset <= 7; offset++) {
+        const parts = getZonedTimeParts(new Date(now.getTime() + offset * DAY_MS), profile.timezone);
+        if (!profile.workingDays.includes(parts.dayOfWeek)) {
+            continue;
+        }
+
+        const runAt = zonedTimeToDate(parts.year, parts.month, parts.day, profile.workingHoursStart, 0, profile.timezone);
+        if (runAt.getTime() >= now.getTime() - MISSED_JOB_GRACE_MS) {
+            return runAt;
+        }
+    }
+
+    // No working days configured; fall back to the same time tomorrow
+    return new Date(now.getTime() + DAY_MS);
+}
+
+/**
+ * Calendar date of a digest in the user's timezone, e.g. "2030-01-07"
+ */
+export function getDigestDateKey(runAt: Date, timeZone: string): string {
+    const parts = getZonedTimeParts(runAt, timeZone);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+    return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+}
+
+/**
+ * Splits open tasks into overdue ones and the rest
+ */
+export function splitDigestTasks<T extends Pick<TaskWithMeeting, 'deadline' | 'status'>>(
+    openTasks: T[],
+    now: Date
+): { overdue: T[]; open: T[] } {
+    const overdue: T[] = [];
+    const open: T[] = [];
+
+    for (const task of openTasks) {
+        if (task.status === 'completed') {
+            continue;
+        }
+        (task.deadline && task.deadline.getTime() < now.getTime() ? overdue : open).push(task);
+    }
+
+    return { overdue, open };
+}
+
+function toReminderTask(task: TaskWithMeeting): ReminderTask {
+    return {
+        title: task.title,
+        deadline: task.deadline,
+        priority: task.priority,
+        status: task.status,
+        eventTitle: task.eventTitle
+    };
+}
+
+function getTaskBoardUrl(): string {
+    return `${(process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '')}/?tab=tasks`;
+}
+
+// Jobs run long after the user signed in, when the access token they signed in with has
+// expired, so a fresh one is fetched (and saved) with their refresh token
+async function getJobUser(job: ScheduledJob): Promise<User> {
+    const user = await storage.getUser(job.userId);
+    if (!user) {
+        throw new Error(`User ${job.userId} not found`);
+    }
+    if (!user.refreshToken) {
+        return user;
+    }
+
+    const refreshed = await authenticationErrorHandler.refreshAccessToken(user);
+    return refreshed.success && refreshed.accessToken
+        ? { ...user, accessToken: refreshed.accessToken, refreshToken: refreshed.refreshToken || user.refreshToken }
+        : user;
+}
+
+async function getProfiles(userIds: string[]): Promise<Map<string, UserProfile>> {
+    if (userIds.length === 0) {
+        return new Map();
+    }
+
+    const rows = await db.select().from(userProfiles).where(inArray(userProfiles.userId, userIds));
+    return new Map(rows.map(profile => [profile.userId, profile]));
+}
+
+/**
+ * Schedules agenda reminders for upcoming meetings with attendees
+ */
+export async function planAgendaReminders(now: Date, scheduler: JobScheduler = jobScheduler): Promise<void> {
+    const upcoming = await db
+        .select()
+        .from(events)
+        .where(and(gt(events.startTime, now), lte(events.startTime, new Date(now.getTime() + REMINDER_LOOKAHEAD_MS))));
+
+    const profiles = await getProfiles(Array.from(new Set(upcoming.map(event => event.userId))));
+
+    for (const event of upcoming) {
+        const { agendaReminderHours: reminderHours } = toReminderSettings(profiles.get(event.userId));
+        if (!reminderHours || !event.attendees?.length) {
+            continue;
+        }
+
+        const runAt = getAgendaReminderTime(event.startTime, reminderHours);
+        if (runAt.getTime() < now.getTime() - MISSED_JOB_GRACE_MS) {
+            continue;
+        }
+
+        // The start time is part of the key so a rescheduled meeting gets a fresh reminder
+        await scheduler.schedule({
+            userId: event.userId,
+            type: 'agenda_reminder',
+            dedupeKey: `agenda_reminder:${event.id}:${event.startTime.toISOString()}`,
+            runAt,
+            payload: { eventId: event.id, startTime: event.startTime.toISOString() }
+        });
+    }
+}
+
+/**
+ * Schedules the next daily digest for every user with open tasks
+ */
+export async function planTaskDigests(now: Date, scheduler: JobScheduler = jobScheduler): Promise<void> {
+    const owners = await db
+        .selectDistinct({ userId: sql<string>`coalesce(${tasks.userId}, ${events.userId})` })
+        .from(tasks)
+        .leftJoin(events, eq(tasks.eventId, events.id))
+        .where(inArray(tasks.status, OPEN_TASK_STATUSES));
+
+    const userIds = owners.map(owner => owner.userId).filter(Boolean);
+    const profiles = await getProfiles(userIds);
+
+    for (const userId of userIds) {
+        const profile = profiles.get(userId);
+        if (!toReminderSettings(profile).taskDigestEnabled) {
+            continue;
+        }
+
+        const workingHours = profile ? toWorkingHoursProfile(profile) : DEFAULT_WORKING_HOURS_PROFILE;
+        const runAt = getNextDigestTime(workingHours, now);
+
+        await scheduler.schedule({
+            userId,
+            type: 'task_digest',
+            dedupeKey: `task_digest:${userId}:${getDigestDateKey(runAt, workingHours.timezone)}`,
+            runAt
+        });
+    }
+}
+
+/**
+ * Schedules a nudge for each open task whose deadline recently passed
+ */
+export async function planOverdueTaskNudges(now: Date, scheduler: JobScheduler = jobScheduler): Promise<void> {
+    const overdue = await db
+        .select({
+            id: tasks.id,
+            deadline: tasks.deadline,
+            userId: sql<string>`coalesce(${tasks.userId}, ${events.userId})`
+        })
+        .from(tasks)
+        .leftJoin(events, eq(tasks.eventId, events.id))
+        .where(and(
+            ne(tasks.status, 'completed'),
+            isNotNull(tasks.deadline),
+            lte(tasks.deadline, now),
+            gt(tasks.deadline, new Date(now.getTime() - NUDGE_LOOKBACK_MS))
+        ));
+
+    for (const task of overdue) {
+        if (!task.userId || !task.deadline) {
+            continue;
+        }
+
+        // The deadline is part of the key so moving it out and missing it again nudges once more
+        await scheduler.schedule({
+            userId: task.userId,
+            type: 'overdue_task_nudge',
+            dedupeKey: `overdue_task_nudge:${task.id}:${task.deadline.toISOString()}`,
+            runAt: now,
+            payload: { taskId: task.id, deadline: task.deadline.toISOString() }
+        });
+    }
+}
+
+/**
+ * Emails the meeting agenda to its attendees ahead of the meeting
+ */
+export async function sendAgendaReminder(job: ScheduledJob): Promise<void> {
+    const { eventId, startTime } = job.payload as { eventId: string; startTime: string };
+    const [event] = await db.select().from(events).where(eq(events.id, eventId)).limit(1);
+
+    // Deleted or moved meetings have their own job (or none); this one is stale
+    if (!event || event.startTime.toISOString() !== startTime) {
+        return;
+    }
+
+    const user = await getJobUser(job);
+    const meetingData = {
+        title: event.title,
+        startTime: event.startTime,
+        endTime: event.endTime,
+        meetingLink: event.meetingLink || undefined
+    };
+    const agenda = event.agenda || 'No agenda has been shared for this meeting yet.';
+    const subject = `Reminder: ${event.title}`;
+
+    let sent = 0;
+    const errors: string[] = [];
+    for (const attendee of event.attendees || []) {
+        const result = await gmailService.sendEmail(
+            user,
+            attendee,
+            subject,
+            emailTemplateService.generateAgendaEmailTemplate(agenda, meetingData, attendee),
+            emailTemplateService.generateAgendaEmailPlainText(agenda, meetingData)
+        );
+        if (result.success) {
+            sent++;
+        } else {
+            errors.push(`${attendee}: ${result.error}`);
+        }
+    }
+
+    // Retrying after a partial send would email some attendees twice, so only a total failure retries
+    if (sent === 0 && errors.length > 0) {
+        throw new Error(errors.join('; '));
+    }
+
+    emailNotificationService.notifyScheduledJob(
+        job.userId,
+        job.id,
+        'Agenda Reminder Sent',
+        `Reminded ${sent} attendee${sent !== 1 ? 's' : ''} about "${event.title}"`,
+        { eventId, emailsSent: sent, emailsFailed: errors.length }
+    );
+}
+
+/**
+ * Emails the user a digest of their open tasks with overdue ones flagged
+ */
+export async function sendTaskDigest(job: ScheduledJob): Promise<void> {
+    const user = await getJobUser(job);
+    const { tasks: openTasks } = await taskService.listTasks(job.userId, {
+        status: ['pending', 'in_progress'],
+        sortBy: 'deadline',
+        sortOrder: 'asc',
+        pageSize: 100
+    });
+    if (openTasks.length === 0 || !user.email) {
+        return;
+    }
+
+    const { overdue, open } = splitDigestTasks(openTasks, new Date());
+    const result = await gmailService.sendEmail(
+        user,
+        user.email,
+        overdue.length > 0 ? `Your tasks today (${overdue.length} overdue)` : 'Your tasks today',
+        emailTemplateService.generateTaskDigestTemplate(user.name || user.email, overdue.map(toReminderTask), open.map(toReminderTask), getTaskBoardUrl()),
+        emailTemplateService.generateTaskDigestPlainText(overdue.map(toReminderTask), open.map(toReminderTask), getTaskBoardUrl())
+    );
+    if (!result.success) {
+        throw new Error(result.error || 'Failed to send task digest');
+    }
+
+    emailNotificationService.notifyScheduledJob(
+        job.userId,
+        job.id,
+        'Daily Task Digest',
+        `You have ${openTasks.length} open task${openTasks.length !== 1 ? 's' : ''}${overdue.length > 0 ? `, ${overdue.length} overdue` : ''}`,
+        { openTasks: open.length, overdueTasks: overdue.length }
+    );
+}
+
+/**
+ * Emails the assignee of an overdue task, or the owner when it has no assignee email
+ */
+export async function sendOverdueTaskNudge(job: ScheduledJob): Promise<void> {
+    const { taskId, deadline } = job.payload as { taskId: string; deadline: string };
+    const task = await taskService.getTask(job.userId, taskId);
+
+    // Completed, deleted or re-dated since the nudge was planned
+    if (!task || task.status === 'completed' || task.deadline?.toISOString() !== deadline) {
+        return;
+    }
+
+    const user = await getJobUser(job);
+    const recipient = task.assigneeEmail || user.email;
+    if (!recipient) {
+        return;
+    }
+
+    const organizerName = user.name || user.email || 'the meeting organizer';
+    const taskUrl = getTaskBacklink(task.id);
+    const result = await gmailService.sendEmail(
+        user,
+        recipient,
+        `Overdue: ${task.title}`,
+        emailTemplateService.generateOverdueTaskNudgeTemplate(toReminderTask(task), organizerName, taskUrl),
+        emailTemplateService.generateOverdueTaskNudgePlainText(toReminderTask(task), organizerName, taskUrl)
+    );
+    if (!result.success) {
+        throw new Error(result.error || 'Failed to send overdue task nudge');
+    }
+
+    emailNotificationService.notifyScheduledJob(
+        job.userId,
+        job.id,
+        'Overdue Task Nudge Sent',
+        `Reminded ${recipient} that "${task.title}" is overdue`,
+        { taskId }
+    );
+}
+
+/**
+ * Registers reminder, digest and nudge planners and handlers with the scheduler
+ */
+export function registerScheduledNotifications(scheduler: JobScheduler = jobScheduler): void {
+    scheduler.registerPlanner(now => planAgendaReminders(now, scheduler));
+    scheduler.registerPlanner(now => planTaskDigests(now, scheduler));
+    scheduler.registerPlanner(now => planOverdueTaskNudges(now, scheduler));
+
+    scheduler.registerHandler('agenda_reminder', sendAgendaReminder);
+    scheduler.registerHandler('task_digest', sendTaskDigest);
+    scheduler.registerHandler('overdue_task_nudge', sendOverdueTaskNudge);
+}
@@ -333,7 +333,7 @@ class ComprehensiveValidator {
                 await Promise.all(operations);
 
                 const stats = aiRouter.getUsageStats();
-                const totalRequests = stats.gemini.totalRequests + stats.mistral.totalRequests;
+                const totalRequests = stats.providers.gemini.totalRequests + stats.providers.mistral.totalRequests;
 
                 return totalRequests > 0;
             }
@@ -402,9 +402,9 @@ class ComprehensiveValidator {
 
         // Routing analysis
         const stats = aiRouter.getUsageStats();
-        const totalRequests = stats.gemini.totalRequests + stats.mistral.totalRequests;
+        const totalRequests = stats.providers.gemini.totalRequests + stats.providers.mistral.totalRequests;
         const costOptimization = totalRequests > 0 ?
-            (stats.mistral.totalRequests / totalRequests) * 100 : 0;
+            (stats.providers.mistral.totalRequests / totalRequests) * 100 : 0;
 
         // Requirements validation
         const requirements = this.validateRequirements();
@@ -431,8 +431,8 @@ class ComprehensiveValidator {
                 totalTestTime
             },
             routing: {
-                geminiRequests: stats.gemini.totalRequests,
-                mistralRequests: stats.mistral.totalRequests,
+                geminiRequests: stats.providers.gemini.totalRequests,
+                mistralRequests: stats.providers.mistral.totalRequests,
                 totalRoutingDecisions: stats.routing.totalRoutingDecisions,
                 fallbacksTriggered: stats.routing.fallbacksTriggered,
                 costOptimization
@@ -492,9 +492,9 @@ class ComprehensiveValidator {
             recommendations.push('Consider optimizing response times - average is above 2 seconds.');
         }
 
-        const totalRequests = stats.gemini.totalRequests + stats.mistral.totalRequests;
+        const totalRequests = stats.providers.gemini.totalRequests + stats.providers.mistral.totalRequests;
         if (totalRequests > 0) {
-            const costOptimization = (stats.mistral.totalRequests / totalRequests) * 100;
+            const costOptimization = (stats.providers.mistral.totalRequests / totalRequests) * 100;
             if (costOptimization < 30) {
                 recommendations.push('Consider routing more simple tasks to Mistral to optimize costs.');
             }
@@ -0,0 +1,83 @@
+/**
+ * Prompt Evaluation Script
+ *
+ * Replays the fixture conversations through a prompt version and reports schema
+ * validity, field accuracy and agenda validation pass rate for each prompt.
+ *
+ * Usage: npm run eval:prompts -- [--prompt id] [--version n] [--fixtures path] [--provider recorded|stub] [--json]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+    createRecordedProvider,
+    createStubProvider,
+    runPromptEval,
+    type PromptEvalFixture,
+    type PromptEvalReport
+} from '../promptEvaluation.js';
+
+const DEFAULT_FIXTURES = path.join('server', 'evals', 'promptFixtures.json');
+
+function readOption(args: string[], name: string): string | undefined {
+    const index = args.indexOf(`--${name}`);
+    return index !== -1 ? args[index + 1] : undefined;
+}
+
+function formatRate(value: number | null): string {
+    return value === null ? '-' : `${Math.round(value * 100)}%`;
+}
+
+function printReports(reports: PromptEvalReport[]): void {
+    for (const report of reports) {
+        console.log(`\n${report.promptId}@${report.version} (${report.fixtures} fixtures, ${report.errors} errors)`);
+        console.log(`• Schema validity: ${formatRate(report.schemaValidity)}`);
+        console.log(`• Field accuracy: ${formatRate(report.fieldAccuracy)}`);
+        console.log(`• Agenda pass rate: ${formatRate(report.agendaPassRate)}`);
+
+        for (const result of report.results.filter(result => result.error)) {
+            console.log(`  ❌ ${result.fixtureId}: ${result.error}`);
+        }
+    }
+}
+
+async function main(args: string[]): Promise<void> {
+    const promptId = readOption(args, 'prompt');
+    const versionOption = readOption(args, 'version');
+    const providerName = readOption(args, 'provider') || 'recorded';
+    const fixturesPath = readOption(args, 'fixtures') || DEFAULT_FIXTURES;
+
+    const version = versionOption !== undefined ? Number(versionOption) : undefined;
+    if (version !== undefined && !Number.isInteger(version)) {
+        throw new Error(`Invalid --version: ${versionOption}`);
+    }
+    if (providerName !== 'recorded' && providerName !== 'stub') {
+        throw new Error(`Unknown --provider: ${providerName} (expected recorded or stub)`);
+    }
+
+    const fixtures: PromptEvalFixture[] = JSON.parse(fs.readFileSync(fixturesPath, 'utf8'));
+    const provider = providerName === 'stub' ? createStubProvider() : createRecordedProvider();
+    const reports = await runPromptEval(fixtures, provider, { promptId, version });
+
+    if (args.includes('--json')) {
+        console.log(JSON.stringify(reports, null, 2));
+    } else {
+        console.log(`🧪 Evaluated ${fixtures.length} fixtures from ${fixturesPath} with the ${providerName} provider`);
+        printReports(reports);
+    }
+
+    if (reports.some(report => report.errors > 0)) {
+        process.exitCode = 1;
+    }
+}
+
+// Run evaluation if this script is executed directly
+if (import.meta.url === `file://${process.argv[1]}`) {
+    // The imported services keep timers running, so exit once the report is out
+    main(process.argv.slice(2))
+        .then(() => process.exit())
+        .catch(error => {
+            console.error('❌ Prompt evaluation failed:', error);
+            process.exit(1);
+        });
+}
@@ -52,19 +52,19 @@ class PerformanceReportGenerator {
         const analytics = aiRouter.getUsageAnalytics(24);
 
         // Calculate summary metrics
-        const totalRequests = usageStats.gemini.totalRequests + usageStats.mistral.totalRequests;
+        const totalRequests = usageStats.providers.gemini.totalRequests + usageStats.providers.mistral.totalRequests;
         const totalCost = costAnalysis.gemini.totalCost + costAnalysis.mistral.totalCost;
         const averageResponseTime = (
-            (usageStats.gemini.averageResponseTime * usageStats.gemini.totalRequests) +
-            (usageStats.mistral.averageResponseTime * usageStats.mistral.totalRequests)
+            (usageStats.providers.gemini.averageResponseTime * usageStats.providers.gemini.totalRequests) +
+            (usageStats.providers.mistral.averageResponseTime * usageStats.providers.mistral.totalRequests)
         ) / totalRequests || 0;
         
         const successRate = totalRequests > 0 ? 
-            ((usageStats.gemini.successRate * usageStats.gemini.totalRequests) +
-             (usageStats.mistral.successRate * usageStats.mistral.totalRequests)) / totalRequests : 0;
+            ((usageStats.providers.gemini.successRate * usageStats.providers.gemini.totalRequests) +
+             (usageStats.providers.mistral.successRate * usageStats.providers.mistral.totalRequests)) / totalRequests : 0;
 
         const costOptimization = totalRequests > 0 ? 
-            (usageStats.mistral.totalRequests / totalRequests) * 100 : 0;
+            (usageStats.providers.mistral.totalRequests / totalRequests) * 100 : 0;
 
         // Analyze function performance
         const functionPerformance = this.analyzeFunctionPerformance(usageStats);
@@ -82,8 +82,8 @@ class PerformanceReportGenerator {
                 costOptimization
             },
             routing: {
-                geminiRequests: usageStats.gemini.totalRequests,
-                mistralRequests: usageStats.mistral.totalRequests,
+                geminiRequests: usageStats.providers.gemini.totalRequests,
+                mistralRequests: usageStats.providers.mistral.totalRequests,
                 fallbacksTriggered: usageStats.routing.fallbacksTriggered,
                 routingDecisions: usageStats.routing.totalRoutingDecisions
             },
@@ -106,8 +106,8 @@ class PerformanceReportGenerator {
         averageByFunction: Record<string, number>;
     } {
         const allFunctions = {
-            ...usageStats.gemini.functionBreakdown,
-            ...usageStats.mistral.functionBreakdown
+            ...usageStats.providers.gemini.functionBreakdown,
+            ...usageStats.providers.mistral.functionBreakdown
         };
 
         let fastestFunction = { name: 'none', time: Infinity };
@@ -137,17 +137,17 @@ class PerformanceReportGenerator {
         const recommendations: string[] = [];
 
         // Performance recommendations
-        if (usageStats.gemini.averageResponseTime > 3000) {
+        if (usageStats.providers.gemini.averageResponseTime > 3000) {
             recommendations.push('Consider optimizing Gemini prompts to reduce response time');
         }
 
-        if (usageStats.mistral.averageResponseTime > 2000) {
+        if (usageStats.providers.mistral.averageResponseTime > 2000) {
             recommendations.push('Monitor Mistral performance - response times are higher than expected');
         }
 
         // Cost optimization recommendations
-        const costOptimization = usageStats.mistral.totalRequests / 
-            (usageStats.gemini.totalRequests + usageStats.mistral.totalRequests) * 100;
+        const costOptimization = usageStats.providers.mistral.totalRequests / 
+            (usageStats.providers.gemini.totalRequests + usageStats.providers.mistral.totalRequests) * 100;
 
         if (costOptimization < 30) {
             recommendations.push('Consider routing more simple tasks to Mistral to reduce costs');
@@ -162,11 +162,11 @@ class PerformanceReportGenerator {
             recommendations.push('High fallback rate detected - investigate service reliability');
         }
 
-        if (usageStats.gemini.successRate < 0.95) {
+        if (usageStats.providers.gemini.successRate < 0.95) {
             recommendations.push('Gemini success rate is below 95% - check API configuration');
         }
 
-        if (usageStats.mistral.successRate < 0.95) {
+        if (usageStats.providers.mistral.successRate < 0.95) {
             recommendations.push('Mistral success rate is below 95% - check API configuration');
         }
 
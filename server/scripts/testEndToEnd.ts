@@ -432,8 +432,8 @@ class EndToEndValidator {
             const duration = Date.now() - startTime;
 
             // Check if statistics are being tracked
-            const geminiRequests = finalStats.gemini.totalRequests;
-            const mistralRequests = finalStats.mistral.totalRequests;
+            const geminiRequests = finalStats.providers.gemini.totalRequests;
+            const mistralRequests = finalStats.providers.mistral.totalRequests;
             const totalRoutingDecisions = finalStats.routing.totalRoutingDecisions;
 
             if (totalRoutingDecisions > 0 && (geminiRequests > 0 || mistralRequests > 0)) {
@@ -575,14 +575,14 @@ class EndToEndValidator {
         try {
             const stats = aiRouter.getUsageStats();
             
-            console.log(`Gemini requests: ${stats.gemini.totalRequests}`);
-            console.log(`Mistral requests: ${stats.mistral.totalRequests}`);
+            console.log(`Gemini requests: ${stats.providers.gemini.totalRequests}`);
+            console.log(`Mistral requests: ${stats.providers.mistral.totalRequests}`);
             console.log(`Total routing decisions: ${stats.routing.totalRoutingDecisions}`);
             console.log(`Fallbacks triggered: ${stats.routing.fallbacksTriggered}`);
 
-            const totalRequests = stats.gemini.totalRequests + stats.mistral.totalRequests;
+            const totalRequests = stats.providers.gemini.totalRequests + stats.providers.mistral.totalRequests;
             if (totalRequests > 0) {
-                const mistralPercentage = (stats.mistral.totalRequests / totalRequests * 100).toFixed(1);
+                const mistralPercentage = (stats.providers.mistral.totalRequests / totalRequests * 100).toFixed(1);
                 console.log(`Cost optimization: ${mistralPercentage}% of requests routed to free Mistral service`);
             }
 
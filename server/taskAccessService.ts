@@ -0,0 +1,228 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { db } from './storage.js';
+import { taskAccessLinks } from '../shared/schema.js';
+import type { AttendeeTaskUpdate, TaskAccessLink } from '../shared/schema.js';
+import { and, desc, eq, gt, isNull } from 'drizzle-orm';
+import { taskService, type TaskWithMeeting } from './taskService.js';
+
+export const DEFAULT_TASK_LINK_EXPIRY_DAYS = 14;
+
+/**
+ * Claims carried by an attendee task link. The signature proves we issued them;
+ * the link row decides whether they are still honoured.
+ */
+export interface TaskAccessClaims {
+    linkId: string;
+    meetingId: string;
+    email: string;
+    expiresAt: number; // unix seconds
+}
+
+/**
+ * A verified link: who the attendee is and which meeting they may see
+ */
+export interface TaskAccessGrant {
+    link: TaskAccessLink;
+    attendeeEmail: string;
+    meetingId: string;
+}
+
+export interface IssuedTaskAccessLink {
+    link: TaskAccessLink;
+    url: string;
+}
+
+function getSigningSecret(): string {
+    const secret = process.env.TASK_LINK_SECRET || process.env.SESSION_SECRET;
+    if (!secret) {
+        throw new Error('TASK_LINK_SECRET or SESSION_SECRET is required to sign task links');
+    }
+    return secret;
+}
+
+function sign(payload: string, secret: string): string {
+    return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Encodes and signs link claims as `<payload>.<signature>`
+ */
+export function signTaskAccessToken(claims: TaskAccessClaims, secret: string = getSigningSecret()): string {
+    const payload = Buffer.from(JSON.stringify({
+        lid: claims.linkId,
+        mid: claims.meetingId,
+        email: claims.email,
+        exp: claims.expiresAt
+    })).toString('base64url');
+
+    return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Checks a token's signature and expiry; returns its claims or undefined when it cannot be trusted
+ */
+export function readTaskAccessToken(token: string, now: Date = new Date(), secret: string = getSigningSecret()): TaskAccessClaims | undefined {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) {
+        return undefined;
+    }
+
+    const expected = Buffer.from(sign(payload, secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return undefined;
+    }
+
+    try {
+        const decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+        if (typeof decoded.lid !== 'string' || typeof decoded.mid !== 'string'
+            || typeof decoded.email !== 'string' || typeof decoded.exp !== 'number') {
+            return undefined;
+        }
+        if (decoded.exp * 1000 <= now.getTime()) {
+            return undefined;
+        }
+
+        return { linkId: decoded.lid, meetingId: decoded.mid, email: decoded.email, expiresAt: decoded.exp };
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * TaskAccessService issues, verifies and revokes the links attendees use to reach their meeting tasks
+ */
+export class TaskAccessService {
+    /**
+     * Issues a fresh link for each attendee. Any links the attendee already had for the
+     * meeting are revoked, so reissuing invalidates previously sent emails.
+     */
+    async issueLinks(
+        userId: string,
+        meetingId: string,
+        attendeeEmails: string[],
+        options: { meetingTitle?: string; expiresInDays?: number } = {}
+    ): Promise<IssuedTaskAccessLink[]> {
+        const expiresAt = new Date(Date.now() + (options.expiresInDays ?? DEFAULT_TASK_LINK_EXPIRY_DAYS) * 24 * 60 * 60 * 1000);
+        const emails = Array.from(new Set(attendeeEmails.map(email => email.trim().toLowerCase())));
+        const issued: IssuedTaskAccessLink[] = [];
+
+        for (const attendeeEmail of emails) {
+            await this.revokeAttendeeLinks(userId, meetingId, attendeeEmail);
+
+            const [link] = await db.insert(taskAccessLinks).values({
+                userId,
+                meetingId,
+                meetingTitle: options.meetingTitle,
+                attendeeEmail,
+                expiresAt
+            }).returning();
+
+            issued.push({ link, url: this.buildUrl(link) });
+        }
+
+        console.log(`🔗 Issued ${issued.length} task links for meeting: ${meetingId}`);
+        return issued;
+    }
+
+    /**
+     * Verifies a token against its signature, expiry and the revocation list
+     */
+    async verify(token: string, now: Date = new Date()): Promise<TaskAccessGrant | undefined> {
+        const claims = readTaskAccessToken(token, now);
+        if (!claims) {
+            return undefined;
+        }
+
+        const [link] = await db
+            .select()
+            .from(taskAccessLinks)
+            .where(and(
+                eq(taskAccessLinks.id, claims.linkId),
+                isNull(taskAccessLinks.revokedAt),
+                gt(taskAccessLinks.expiresAt, now)
+            ))
+            .limit(1);
+
+        // The row must still describe the same attendee and meeting the token was signed for
+        if (!link || link.meetingId !== claims.meetingId || link.attendeeEmail !== claims.email) {
+            return undefined;
+        }
+
+        await db.update(taskAccessLinks).set({ lastUsedAt: now }).where(eq(taskAccessLinks.id, link.id));
+
+        return { link, attendeeEmail: link.attendeeEmail, meetingId: link.meetingId };
+    }
+
+    /**
+     * Tasks from the linked meeting; attendees see the whole meeting for context
+     */
+    async getMeetingTasks(grant: TaskAccessGrant): Promise<TaskWithMeeting[]> {
+        const { tasks } = await taskService.listTasks(grant.link.userId, {
+            eventId: grant.meetingId,
+            pageSize: 200,
+            sortBy: 'createdAt',
+            sortOrder: 'asc'
+        });
+        return tasks;
+    }
+
+    /**
+     * Updates the status of one of the attendee's own tasks; returns undefined when the
+     * task is not in the linked meeting or is assigned to someone else
+     */
+    async updateTaskStatus(grant: TaskAccessGrant, taskId: string, status: AttendeeTaskUpdate['status']): Promise<TaskWithMeeting | undefined> {
+        const task = (await this.getMeetingTasks(grant)).find(task => task.id === taskId);
+        if (!task || task.assigneeEmail?.toLowerCase() !== grant.attendeeEmail) {
+            return undefined;
+        }
+
+        return taskService.updateTask(grant.link.userId, taskId, { status });
+    }
+
+    /**
+     * Links the organizer has issued for a meeting, newest first
+     */
+    async listLinks(userId: string, meetingId: string): Promise<TaskAccessLink[]> {
+        return db
+            .select()
+            .from(taskAccessLinks)
+            .where(and(eq(taskAccessLinks.userId, userId), eq(taskAccessLinks.meetingId, meetingId)))
+            .orderBy(desc(taskAccessLinks.createdAt));
+    }
+
+    /**
+     * Revokes one of the organizer's links; returns undefined when it is not theirs or already revoked
+     */
+    async revokeLink(userId: string, linkId: string): Promise<TaskAccessLink | undefined> {
+        const [revoked] = await db.update(taskAccessLinks)
+            .set({ revokedAt: new Date() })
+            .where(and(eq(taskAccessLinks.id, linkId), eq(taskAccessLinks.userId, userId), isNull(taskAccessLinks.revokedAt)))
+            .returning();
+        return revoked;
+    }
+
+    private async revokeAttendeeLinks(userId: string, meetingId: string, attendeeEmail: string): Promise<void> {
+        await db.update(taskAccessLinks)
+            .set({ revokedAt: new Date() })
+            .where(and(
+                eq(taskAccessLinks.userId, userId),
+                eq(taskAccessLinks.meetingId, meetingId),
+                eq(taskAccessLinks.attendeeEmail, attendeeEmail),
+                isNull(taskAccessLinks.revokedAt)
+            ));
+    }
+
+    private buildUrl(link: TaskAccessLink): string {
+        const token = signTaskAccessToken({
+            linkId: link.id,
+            meetingId: link.meetingId,
+            email: link.attendeeEmail,
+            expiresAt: Math.floor(link.expiresAt.getTime() / 1000)
+        });
+
+        return `${process.env.FRONTEND_URL || 'http://localhost:3000'}/tasks/${encodeURIComponent(link.meetingId)}?token=${token}`;
+    }
+}
+
+export const taskAccessService = new TaskAccessService();
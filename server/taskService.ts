@@ -0,0 +1,265 @@
+import { db } from './storage.js';
+import { tasks, events } from '../shared/schema.js';
+import type { Task, CreateTaskInput, UpdateTaskInput, TaskQuery } from '../shared/schema.js';
+import { and, asc, desc, eq, gte, ilike, inArray, isNull, lte, or, sql, type SQL } from 'drizzle-orm';
+import type { MeetingTask } from './transcriptService.js';
+import { googleTasksSyncService } from './googleTasksService.js';
+
+export type TaskWithMeeting = Task & {
+    eventTitle: string | null;
+    eventStartTime: Date | null;
+};
+
+export interface TaskListResult {
+    tasks: TaskWithMeeting[];
+    total: number;
+    page: number;
+    pageSize: number;
+    totalPages: number;
+}
+
+const PRIORITY_RANK = sql`case ${tasks.priority} when 'high' then 0 when 'medium' then 1 else 2 end`;
+const STATUS_RANK = sql`case ${tasks.status} when 'pending' then 0 when 'in_progress' then 1 else 2 end`;
+
+/**
+ * Tasks belong to the user who owns them, or, for rows created before tasks had an owner,
+ * to the owner of the meeting they came from
+ */
+const ownedBy = (userId: string): SQL =>
+    or(eq(tasks.userId, userId), and(isNull(tasks.userId), eq(events.userId, userId)))!;
+
+/**
+ * Builds the WHERE clause for a task list query
+ */
+function buildTaskFilters(userId: string, query: Partial<TaskQuery>): SQL {
+    const conditions: SQL[] = [ownedBy(userId)];
+
+    if (query.status?.length) {
+        conditions.push(inArray(tasks.status, query.status));
+    }
+    if (query.priority?.length) {
+        conditions.push(inArray(tasks.priority, query.priority));
+    }
+    if (query.category) {
+        conditions.push(eq(tasks.category, query.category));
+    }
+    if (query.eventId) {
+        conditions.push(or(eq(tasks.eventId, query.eventId), eq(events.googleEventId, query.eventId))!);
+    }
+    if (query.assignee) {
+        const pattern = `%${query.assignee}%`;
+        conditions.push(or(ilike(tasks.assignee, pattern), ilike(tasks.assigneeEmail, pattern))!);
+    }
+    if (query.search) {
+        const pattern = `%${query.search}%`;
+        conditions.push(or(ilike(tasks.title, pattern), ilike(tasks.description, pattern))!);
+    }
+    if (query.dueBefore) {
+        conditions.push(lte(tasks.deadline, query.dueBefore));
+    }
+    if (query.dueAfter) {
+        conditions.push(gte(tasks.deadline, query.dueAfter));
+    }
+
+    return and(...conditions)!;
+}
+
+/**
+ * Builds the ORDER BY clause; ties fall back to newest first so pages are stable
+ */
+function buildTaskOrder(sortBy: TaskQuery['sortBy'] = 'createdAt', sortOrder: TaskQuery['sortOrder'] = 'desc'): SQL[] {
+    const direction = sortOrder === 'asc' ? asc : desc;
+    const column = {
+        deadline: sql`${tasks.deadline} ${sql.raw(sortOrder)} nulls last`,
+        priority: direction(PRIORITY_RANK),
+        status: direction(STATUS_RANK),
+        title: direction(tasks.title),
+        createdAt: direction(tasks.createdAt),
+        updatedAt: direction(tasks.updatedAt)
+    }[sortBy];
+
+    return [column, desc(tasks.createdAt), asc(tasks.id)];
+}
+
+/**
+ * TaskService stores meeting action items and manually created tasks in Postgres
+ */
+export class TaskService {
+    private readonly selection = {
+        task: tasks,
+        eventTitle: events.title,
+        eventStartTime: events.startTime
+    };
+
+    private toTaskWithMeeting(row: { task: Task; eventTitle: string | null; eventStartTime: Date | null }): TaskWithMeeting {
+        return { ...row.task, eventTitle: row.eventTitle, eventStartTime: row.eventStartTime };
+    }
+
+    /**
+     * Lists a user's tasks with filtering, sorting and pagination
+     */
+    async listTasks(userId: string, query: Partial<TaskQuery> = {}): Promise<TaskListResult> {
+        const page = query.page ?? 1;
+        const pageSize = query.pageSize ?? 50;
+        const where = buildTaskFilters(userId, query);
+
+        const [{ count }] = await db
+            .select({ count: sql<number>`count(*)::int` })
+            .from(tasks)
+            .leftJoin(events, eq(tasks.eventId, events.id))
+            .where(where);
+
+        const rows = await db
+            .select(this.selection)
+            .from(tasks)
+            .leftJoin(events, eq(tasks.eventId, events.id))
+            .where(where)
+            .orderBy(...buildTaskOrder(query.sortBy, query.sortOrder))
+            .limit(pageSize)
+            .offset((page - 1) * pageSize);
+
+        return {
+            tasks: rows.map(row => this.toTaskWithMeeting(row)),
+            total: count,
+            page,
+            pageSize,
+            totalPages: Math.max(1, Math.ceil(count / pageSize))
+        };
+    }
+
+    /**
+     * Gets a single task if the user owns it
+     */
+    async getTask(userId: string, taskId: string): Promise<TaskWithMeeting | undefined> {
+        const [row] = await db
+            .select(this.selection)
+            .from(tasks)
+            .leftJoin(events, eq(tasks.eventId, events.id))
+            .where(and(eq(tasks.id, taskId), ownedBy(userId)))
+            .limit(1);
+
+        return row ? this.toTaskWithMeeting(row) : undefined;
+    }
+
+    /**
+     * Creates a task, linking it to one of the user's meetings when an event ID is given
+     */
+    async createTask(userId: string, input: CreateTaskInput): Promise<TaskWithMeeting> {
+        const event = input.eventId ? await this.resolveEvent(input.eventId) : undefined;
+        if (input.eventId && (!event || event.userId !== userId)) {
+            throw new Error(`Meeting ${input.eventId} was not found`);
+        }
+
+        const [created] = await db.insert(tasks).values({
+            ...input,
+            eventId: event?.id ?? null,
+            userId
+        }).returning();
+
+        await this.syncToGoogleTasks([created.id], userId);
+        return { ...created, eventTitle: event?.title ?? null, eventStartTime: event?.startTime ?? null };
+    }
+
+    /**
+     * Applies changes to a task; returns undefined when the user does not own it
+     */
+    async updateTask(userId: string, taskId: string, changes: UpdateTaskInput): Promise<TaskWithMeeting | undefined> {
+        const existing = await this.getTask(userId, taskId);
+        if (!existing) {
+            return undefined;
+        }
+
+        await db.update(tasks)
+            .set({ ...changes, updatedAt: new Date() })
+            .where(eq(tasks.id, taskId));
+
+        if (changes.status && changes.status !== existing.status && existing.googleTaskId) {
+            try {
+                await googleTasksSyncService.pushStatus(taskId, changes.status);
+            } catch (error) {
+                console.error(`Failed to update Google task for task ${taskId}:`, error);
+            }
+        }
+
+        return this.getTask(userId, taskId);
+    }
+
+    /**
+     * Deletes a task; returns false when the user does not own it
+     */
+    async deleteTask(userId: string, taskId: string): Promise<boolean> {
+        const existing = await this.getTask(userId, taskId);
+        if (!existing) {
+            return false;
+        }
+
+        await db.delete(tasks).where(eq(tasks.id, taskId));
+        return true;
+    }
+
+    /**
+     * Stores tasks extracted from a meeting summary.
+     * The meeting ID may be the local event ID or the Google event ID. Re-processing a meeting
+     * refreshes the extracted details but keeps any status changes made on the board.
+     * Extracted task IDs only identify the task within the meeting, so stored IDs include the
+     * owner: another user processing the same meeting gets their own rows.
+     */
+    async saveMeetingTasks(meetingId: string, meetingTasks: MeetingTask[], userId?: string): Promise<number> {
+        const event = await this.resolveEvent(meetingId);
+        const ownerId = userId ?? event?.userId;
+        if (!ownerId) {
+            throw new Error(`Cannot store tasks: no owner found for meeting ${meetingId}`);
+        }
+
+        const taskIds: string[] = [];
+        for (const task of meetingTasks) {
+            const id = `${task.id}_${ownerId}`;
+            const values = {
+                title: task.title,
+                description: task.description,
+                assignee: task.assignee || 'Unassigned',
+                assigneeEmail: task.assigneeEmail ?? null,
+                deadline: task.dueDate ? new Date(task.dueDate) : null,
+                priority: task.priority,
+                category: task.category || 'general',
+                estimatedHours: task.estimatedHours ?? null
+            };
+
+            await db.insert(tasks)
+                .values({ ...values, id, eventId: event?.id ?? null, userId: ownerId, status: task.status })
+                .onConflictDoUpdate({ target: tasks.id, set: { ...values, updatedAt: new Date() }, setWhere: eq(tasks.userId, ownerId) });
+            taskIds.push(id);
+        }
+
+        console.log(`💾 Stored ${meetingTasks.length} tasks for meeting: ${meetingId}`);
+
+        await this.syncToGoogleTasks(taskIds, ownerId);
+        return meetingTasks.length;
+    }
+
+    /**
+     * Pushes new tasks to Google Tasks for users who opted in; failures never block saving
+     */
+    private async syncToGoogleTasks(taskIds: string[], organizerId: string): Promise<void> {
+        try {
+            await googleTasksSyncService.pushTasks(taskIds, organizerId);
+        } catch (error) {
+            console.error('Failed to push tasks to Google Tasks:', error);
+        }
+    }
+
+    /**
+     * Finds a local event by its ID or Google event ID
+     */
+    private async resolveEvent(meetingId: string) {
+        const [event] = await db
+            .select()
+            .from(events)
+            .where(or(eq(events.id, meetingId), eq(events.googleEventId, meetingId)))
+            .limit(1);
+
+        return event;
+    }
+}
+
+export const taskService = new TaskService();
@@ -3,6 +3,7 @@
  */
 
 import { aiRouter } from './aiRouterService.js';
+import { describeWorkingHours, getZonedTimeParts, type WorkingHoursProfile } from './utils/workingHours.js';
 
 export interface ExtractedTime {
     startTime: Date;
@@ -15,10 +16,28 @@ export interface TimeExtractionContext {
     currentDate: string;
     currentTime: string;
     timezone: string;
+    workingHours?: string;
+    defaultDurationMinutes?: number;
     conversationHistory?: string[];
     meetingContext?: any;
 }
 
+/**
+ * Builds an extraction context from a user's profile so relative times resolve in their timezone
+ */
+export function createTimeExtractionContext(profile: WorkingHoursProfile): TimeExtractionContext {
+    const parts = getZonedTimeParts(new Date(), profile.timezone);
+    const pad = (value: number) => value.toString().padStart(2, '0');
+
+    return {
+        currentDate: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+        currentTime: `${pad(parts.hour)}:${pad(parts.minute)}:00`,
+        timezone: profile.timezone,
+        workingHours: describeWorkingHours(profile),
+        defaultDurationMinutes: profile.preferredMeetingLengths[0]
+    };
+}
+
 /**
  * Extracts time information from natural language text using Mistral AI
  */
@@ -0,0 +1,262 @@
+/**
+ * Parsing for real meeting transcripts.
+ *
+ * Accepts WebVTT and SRT caption files, Google Meet transcripts exported as
+ * text, and plain speaker-labelled text ("Alice: ..."), and turns them into
+ * timestamped speaker turns with speakers mapped to attendee emails.
+ */
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'meet' | 'text';
+
+export interface TranscriptTurn {
+  speaker: string;
+  speakerEmail?: string;
+  startSeconds?: number;
+  endSeconds?: number;
+  text: string;
+}
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  turns: TranscriptTurn[];
+}
+
+export interface TranscriptAttendee {
+  email: string;
+  name?: string;
+}
+
+const UNKNOWN_SPEAKER = 'Unknown speaker';
+
+// 00:01:02.500 / 01:02.500 (VTT) and 00:01:02,500 (SRT)
+const CUE_TIMING = /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})/;
+
+// A timestamp alone on a line, as in Google Meet exports
+const STANDALONE_TIMESTAMP = /^\(?(\d{1,2}:\d{2}(?::\d{2})?)\)?$/;
+
+// "[09:00:00] Alice (PM): text", "Alice: text", "10:32 Alice: text"
+const SPEAKER_LINE = /^(?:\[?(\d{1,2}:\d{2}(?::\d{2})?)\]?\s+)?([^:\[\]]{1,60}?)(?:\s+\((?:[^()]*)\))?:\s+(.*)$/;
+
+/**
+ * Converts "hh:mm:ss.mmm", "mm:ss,mmm" or "hh:mm" style timestamps to seconds
+ */
+export function parseTimestamp(value: string): number {
+  const [clock, fraction] = value.replace(',', '.').split('.');
+  const parts = clock.split(':').map(part => parseInt(part, 10));
+  const seconds = parts.reduce((total, part) => total * 60 + part, 0);
+  return seconds + (fraction ? parseInt(fraction.padEnd(3, '0').slice(0, 3), 10) / 1000 : 0);
+}
+
+/**
+ * Guesses the transcript format from the file name and content
+ */
+export function detectTranscriptFormat(content: string, fileName?: string): TranscriptFormat {
+  const extension = fileName?.split('.').pop()?.toLowerCase();
+  if (extension === 'vtt') return 'vtt';
+  if (extension === 'srt') return 'srt';
+
+  const trimmed = content.trimStart();
+  if (trimmed.startsWith('WEBVTT')) return 'vtt';
+
+  const lines = trimmed.split(/\r?\n/).map(line => line.trim());
+  if (/^\d+$/.test(lines[0] || '') && CUE_TIMING.test(lines[1] || '')) return 'srt';
+  if (lines.some(line => CUE_TIMING.test(line))) return 'vtt';
+  if (lines.some(line => STANDALONE_TIMESTAMP.test(line))) return 'meet';
+
+  return 'text';
+}
+
+/**
+ * Splits caption text into speaker and words.
+ * Handles WebVTT voice tags (<v Alice>) and "Alice: " prefixes.
+ */
+function splitSpeaker(text: string): { speaker?: string; text: string } {
+  const voice = text.match(/^<v(?:\.[^\s>]+)*\s+([^>]+)>([\s\S]*?)(?:<\/v>)?$/);
+  if (voice) {
+    return { speaker: voice[1].trim(), text: voice[2].trim() };
+  }
+
+  const prefixed = text.match(/^([^:]{1,60}):\s+([\s\S]*)$/);
+  if (prefixed && !/[.!?]/.test(prefixed[1])) {
+    return { speaker: prefixed[1].trim(), text: prefixed[2].trim() };
+  }
+
+  return { text };
+}
+
+const stripTags = (text: string): string => text.replace(/<(?!v[\s.])[^>]+>/g, '').trim();
+
+/**
+ * Parses WebVTT and SRT cues; both are blocks of a timing line followed by caption text
+ */
+function parseCues(content: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+
+  for (const block of content.replace(/\r\n/g, '\n').split(/\n\s*\n/)) {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    const timingIndex = lines.findIndex(line => CUE_TIMING.test(line));
+    if (timingIndex < 0) {
+      continue; // header, NOTE or STYLE block
+    }
+
+    const timing = lines[timingIndex].match(CUE_TIMING)!;
+    const captionText = stripTags(lines.slice(timingIndex + 1).join(' '));
+    if (!captionText) {
+      continue;
+    }
+
+    const { speaker, text } = splitSpeaker(captionText);
+    turns.push({
+      speaker: speaker || UNKNOWN_SPEAKER,
+      startSeconds: parseTimestamp(timing[1]),
+      endSeconds: parseTimestamp(timing[2]),
+      text: stripTags(text)
+    });
+  }
+
+  return turns;
+}
+
+/**
+ * Parses speaker-labelled text, including Google Meet exports where a timestamp
+ * on its own line applies to the speaker lines that follow it
+ */
+function parseSpeakerText(content: string): TranscriptTurn[] {
+  const turns: TranscriptTurn[] = [];
+  let currentTimestamp: number | undefined;
+
+  for (const rawLine of content.replace(/\r\n/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    if (!line) {
+      continue;
+    }
+
+    const standalone = line.match(STANDALONE_TIMESTAMP);
+    if (standalone) {
+      currentTimestamp = parseTimestamp(standalone[1]);
+      continue;
+    }
+
+    const speakerLine = line.match(SPEAKER_LINE);
+    if (speakerLine && !/[.!?]$/.test(speakerLine[2].trim())) {
+      turns.push({
+        speaker: speakerLine[2].trim(),
+        startSeconds: speakerLine[1] ? parseTimestamp(speakerLine[1]) : currentTimestamp,
+        text: speakerLine[3].trim()
+      });
+      continue;
+    }
+
+    // Lines without a speaker continue the previous turn; anything before the first speaker is a header
+    if (turns.length > 0) {
+      turns[turns.length - 1].text += ` ${line}`;
+    }
+  }
+
+  return turns;
+}
+
+/**
+ * Joins consecutive turns by the same speaker, as captions split sentences across cues
+ */
+function mergeConsecutiveTurns(turns: TranscriptTurn[]): TranscriptTurn[] {
+  return turns.reduce<TranscriptTurn[]>((merged, turn) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.speaker === turn.speaker) {
+      previous.text = `${previous.text} ${turn.text}`.trim();
+      previous.endSeconds = turn.endSeconds ?? previous.endSeconds;
+    } else {
+      merged.push({ ...turn });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Parses a transcript into speaker turns, detecting the format when not given
+ */
+export function parseTranscript(content: string, format?: TranscriptFormat, fileName?: string): ParsedTranscript {
+  const resolvedFormat = format || detectTranscriptFormat(content, fileName);
+  const turns = resolvedFormat === 'vtt' || resolvedFormat === 'srt' ?
+    parseCues(content) :
+    parseSpeakerText(content);
+
+  return { format: resolvedFormat, turns: mergeConsecutiveTurns(turns) };
+}
+
+const normalizeName = (value: string): string => value.toLowerCase().replace(/[^a-z]/g, '');
+
+/**
+ * Maps transcript speaker names to attendee emails.
+ * Matches full names, email local parts ("alice.smith" for "Alice Smith") and unambiguous first names.
+ */
+export function mapSpeakersToAttendees(speakers: string[], attendees: TranscriptAttendee[]): Map<string, string> {
+  const mapping = new Map<string, string>();
+
+  for (const speaker of speakers) {
+    if (speaker === UNKNOWN_SPEAKER) {
+      continue;
+    }
+
+    if (speaker.includes('@')) {
+      const byEmail = attendees.find(attendee => attendee.email.toLowerCase() === speaker.toLowerCase());
+      if (byEmail) {
+        mapping.set(speaker, byEmail.email);
+      }
+      continue;
+    }
+
+    const normalized = normalizeName(speaker);
+    const exact = attendees.find(attendee =>
+      (attendee.name && normalizeName(attendee.name) === normalized) ||
+      normalizeName(attendee.email.split('@')[0]) === normalized
+    );
+    if (exact) {
+      mapping.set(speaker, exact.email);
+      continue;
+    }
+
+    const firstName = normalizeName(speaker.split(/\s+/)[0]);
+    const byFirstName = attendees.filter(attendee => {
+      const candidate = attendee.name ? attendee.name.split(/\s+/)[0] : attendee.email.split('@')[0].split(/[._-]/)[0];
+      return normalizeName(candidate) === firstName;
+    });
+    if (firstName && byFirstName.length === 1) {
+      mapping.set(speaker, byFirstName[0].email);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Formats seconds as hh:mm:ss
+ */
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.floor(totalSeconds);
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${pad(Math.floor(seconds / 3600))}:${pad(Math.floor((seconds % 3600) / 60))}:${pad(seconds % 60)}`;
+}
+
+/**
+ * Renders turns in the "[hh:mm:ss] Speaker <email>: text" form the summary prompts expect
+ */
+export function formatTranscriptTurns(turns: TranscriptTurn[]): string {
+  return turns.map(turn => {
+    const timestamp = turn.startSeconds !== undefined ? `[${formatTimestamp(turn.startSeconds)}] ` : '';
+    const email = turn.speakerEmail ? ` <${turn.speakerEmail}>` : '';
+    return `${timestamp}${turn.speaker}${email}: ${turn.text}`;
+  }).join('\n\n');
+}
+
+/**
+ * Main export object for transcript parser
+ */
+export const TranscriptParser = {
+  detectTranscriptFormat,
+  parseTranscript,
+  parseTimestamp,
+  mapSpeakersToAttendees,
+  formatTranscriptTurns,
+  formatTimestamp
+};
@@ -1,11 +1,29 @@
 import { google } from 'googleapis';
-import { User, MeetingData } from '../shared/schema';
+import { User, MeetingData, meetingIdSchema } from '../shared/schema';
 import { getGeminiResponse } from './aiInterface';
-import { generateResponse as mistralGenerateResponse } from './mistralService.js';
+import { generateResponse as mistralGenerateResponse, type MistralMessage } from './mistralService.js';
+import { aiQuota } from './aiQuotaService.js';
 import { performanceMonitor } from './performanceMonitor';
+import { renderPromptForCall } from './promptRegistry.js';
+import {
+  parseTranscript,
+  mapSpeakersToAttendees,
+  formatTranscriptTurns,
+  type TranscriptFormat,
+  type TranscriptTurn,
+  type TranscriptAttendee
+} from './transcriptParser';
 import * as fs from 'fs';
 import * as path from 'path';
 
+/**
+ * Mistral completion charged to the user's AI quota, like calls made through the AI router
+ */
+function generateWithQuota(functionName: string, messages: MistralMessage[]): Promise<string> {
+  const input = messages.map(message => message.content).join(' ');
+  return aiQuota.meter(functionName, 'mistral', input, () => mistralGenerateResponse(messages));
+}
+
 /**
  * Interface for meeting transcript data
  */
@@ -18,6 +36,19 @@ export interface MeetingTranscript {
   generatedAt: Date;
   wordCount: number;
   filePath?: string;
+  source?: 'generated' | 'uploaded';
+  format?: TranscriptFormat;
+  turns?: TranscriptTurn[];
+  unmatchedSpeakers?: string[];
+}
+
+/**
+ * Options for ingesting an uploaded transcript
+ */
+export interface TranscriptIngestOptions {
+  format?: TranscriptFormat;
+  fileName?: string;
+  attendees: TranscriptAttendee[];
 }
 
 /**
@@ -114,52 +145,19 @@ export class TranscriptService {
       console.log(`🎬 Generating transcript for meeting: ${title}`);
 
       // Create detailed transcript prompt for Mistral
-      const transcriptPrompt = `Generate a comprehensive, realistic meeting transcript for the following meeting:
-
-MEETING DETAILS:
-- Title: "${title}"
-- Purpose: "${enhancedPurpose}"
-- Duration: ${duration} minutes
-- Participants: ${attendees.join(', ')}
-- Start Time: ${startTime.toLocaleString()}
-${meetingLink ? `- Meeting Link: ${meetingLink}` : ''}
-
-CRITICAL REQUIREMENTS:
-1. Create a LONG, detailed, realistic professional meeting transcript (1200-2000 words)
-2. Include ALL participants in the conversation, including the meeting organizer
-3. Make it conversational with natural flow, personal touches, and realistic dialogue
-4. Include casual elements like "How's the family?", inside jokes, and team banter
-5. Show progression: introductions → main discussion → problem-solving → decisions → action items → wrap-up
-6. Ensure every attendee speaks multiple times and contributes meaningfully
-7. Make discussions substantive and directly related to the meeting purpose
-8. Include specific challenges, solutions, decisions, and assigned action items
-9. Use professional language but with realistic conversational elements
-10. End with clear next steps, deadlines, and responsible parties
-
-TRANSCRIPT FORMAT:
-[09:00:00] Speaker Name (Role): Dialogue and discussion content
-
-[09:05:30] Another Speaker (Role): Response and follow-up discussion
-
-MANDATORY SECTIONS TO INCLUDE:
-- Opening introductions with personal touches
-- Detailed discussion of the main purpose and challenges
-- Problem identification and brainstorming solutions
-- Decision making process with different viewpoints
-- Action item assignment with specific deadlines and responsibilities
-- Meeting wrap-up with summary and next steps
-
-PARTICIPANT ROLES:
-- Use realistic names and roles based on email addresses
-- Include the meeting organizer as an active participant
-- Make sure everyone contributes to the discussion
-
-Focus on creating authentic, lengthy discussion that naturally leads to actionable tasks and demonstrates real team collaboration.`;
+      const transcriptPrompt = renderPromptForCall('transcript_generation', {
+        title,
+        purpose: enhancedPurpose,
+        duration,
+        participants: attendees.join(', '),
+        startTime: startTime.toLocaleString(),
+        meetingLinkLine: meetingLink ? `- Meeting Link: ${meetingLink}` : ''
+      }, 'mistral');
 
       const messages = [
         {
           role: 'system',
-          content: 'You are a professional meeting facilitator and transcript writer. Create extremely detailed, realistic meeting transcripts (1200-2000 words) that capture authentic professional discussions with personal elements, natural conversation flow, and comprehensive coverage of all topics. Every participant must speak multiple times. Include casual conversation, challenges, solutions, decisions, and specific action items with deadlines.'
+          content: renderPromptForCall('transcript_generation.system', {}, 'mistral')
         },
         {
           role: 'user',
@@ -170,7 +168,7 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
       // Use Mistral for transcript generation
       let transcriptContent: string;
       try {
-        transcriptContent = await mistralGenerateResponse(messages as any);
+        transcriptContent = await generateWithQuota('generateTranscript', messages as any);
 
         // Validate transcript content (less strict for Mistral)
         if (!transcriptContent || transcriptContent.length < 800) {
@@ -194,7 +192,8 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
         participants: attendees,
         duration,
         generatedAt: new Date(),
-        wordCount: transcriptContent.split(' ').length
+        wordCount: transcriptContent.split(' ').length,
+        source: 'generated'
       };
 
       // Save transcript to file and get file path
@@ -232,6 +231,48 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
     }
   }
 
+  /**
+   * Ingest a real transcript (WebVTT, SRT, Google Meet export or speaker-labelled text)
+   */
+  async ingestTranscript(
+    meetingId: string,
+    title: string,
+    content: string,
+    options: TranscriptIngestOptions
+  ): Promise<MeetingTranscript> {
+    const { format, turns } = parseTranscript(content, options.format, options.fileName);
+    if (turns.length === 0) {
+      throw new Error('No speaker turns could be found in the transcript');
+    }
+
+    const speakers = Array.from(new Set(turns.map(turn => turn.speaker)));
+    const speakerEmails = mapSpeakersToAttendees(speakers, options.attendees);
+    const mappedTurns = turns.map(turn => ({ ...turn, speakerEmail: speakerEmails.get(turn.speaker) }));
+
+    const lastTurn = mappedTurns[mappedTurns.length - 1];
+    const endSeconds = lastTurn.endSeconds ?? lastTurn.startSeconds ?? 0;
+    const transcriptContent = formatTranscriptTurns(mappedTurns);
+
+    const transcript: MeetingTranscript = {
+      meetingId,
+      title,
+      transcript: transcriptContent,
+      participants: Array.from(new Set(mappedTurns.map(turn => turn.speakerEmail || turn.speaker))),
+      duration: Math.ceil(endSeconds / 60),
+      generatedAt: new Date(),
+      wordCount: transcriptContent.split(/\s+/).length,
+      source: 'uploaded',
+      format,
+      turns: mappedTurns,
+      unmatchedSpeakers: speakers.filter(speaker => !speakerEmails.has(speaker))
+    };
+
+    const filePath = await this.saveTranscriptToFile(transcript);
+
+    console.log(`✅ Transcript ingested (${format}): ${mappedTurns.length} turns from ${speakers.length} speakers, saved to: ${filePath}`);
+    return { ...transcript, filePath };
+  }
+
   /**
    * Generate meeting summary from transcript
    */
@@ -241,34 +282,14 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
     try {
       console.log(`📝 Generating summary for meeting: ${transcript.title}`);
 
-      const summaryPrompt = `
-        Analyze the following meeting transcript and create a comprehensive summary:
-
-        TRANSCRIPT:
-        ${transcript.transcript}
-
-        REQUIREMENTS:
-        1. Create a concise but comprehensive summary (200-400 words)
-        2. Extract 3-5 key discussion points
-        3. Identify all decisions made during the meeting
-        4. List all action items and assignments
-        5. Highlight any challenges or important outcomes
-        6. Include participant engagement and key contributions
-        7. Note any follow-up requirements or deadlines
-        8. Maintain professional tone and focus on actionable content
-
-        SUMMARY FORMAT:
-        - Start with a brief overview paragraph
-        - List key points as bullet points
-        - Clearly identify decisions made
-        - List all action items with assignees and deadlines
-        - End with overall meeting assessment
-      `;
+      const summaryPrompt = renderPromptForCall('meeting_summary', {
+        transcript: transcript.transcript
+      }, 'mistral');
 
       const messages = [
         {
           role: 'system',
-          content: 'You are a professional meeting analyst. Extract key information from meeting transcripts and create clear, actionable summaries that highlight decisions, action items, and important outcomes.'
+          content: renderPromptForCall('meeting_summary.system', {}, 'mistral')
         },
         {
           role: 'user',
@@ -276,27 +297,17 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
         }
       ];
 
-      const summaryContent = await mistralGenerateResponse(messages as any);
+      const summaryContent = await generateWithQuota('summarizeTranscript', messages as any);
 
       // Extract key points, decisions, and action items using AI
-      const extractionPrompt = `
-        From the following meeting summary, extract:
-
-        SUMMARY:
-        ${summaryContent}
-
-        Extract in JSON format:
-        {
-          "keyPoints": ["point 1", "point 2", "point 3"],
-          "decisions": ["decision 1", "decision 2"],
-          "actionItems": ["action 1 with assignee if mentioned", "action 2 with assignee if mentioned"]
-        }
-      `;
+      const extractionPrompt = renderPromptForCall('summary_extraction', {
+        summary: summaryContent
+      }, 'mistral');
 
       const extractionMessages = [
         {
           role: 'system',
-          content: 'Extract key information from meeting summaries in JSON format.'
+          content: renderPromptForCall('summary_extraction.system', {}, 'mistral')
         },
         {
           role: 'user',
@@ -307,7 +318,7 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
       let extractedData: { keyPoints: string[], decisions: string[], actionItems: string[] } = { keyPoints: [], decisions: [], actionItems: [] };
 
       try {
-        const extractionResponse = await mistralGenerateResponse(extractionMessages as any);
+        const extractionResponse = await generateWithQuota('extractSummaryDetails', extractionMessages as any);
         extractedData = JSON.parse(extractionResponse);
       } catch (parseError) {
         console.warn('Failed to parse extraction data, using fallback');
@@ -370,48 +381,17 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
     try {
       console.log(`📋 Starting task extraction for meeting: ${summary.title} (ID: ${summary.meetingId})`);
 
-      const taskExtractionPrompt = `
-        Analyze the following meeting summary and extract actionable tasks:
-
-        SUMMARY:
-        ${summary.summary}
-
-        KEY POINTS:
-        ${summary.keyPoints.join('\n')}
-
-        DECISIONS:
-        ${summary.decisions.join('\n')}
-
-        ACTION ITEMS:
-        ${summary.actionItems.join('\n')}
-
-        REQUIREMENTS:
-        1. Extract all specific, actionable tasks from the summary
-        2. Create clear, specific task titles
-        3. Include detailed descriptions for each task
-        4. Assign appropriate priority levels (high, medium, low)
-        5. Identify potential assignees based on context
-        6. Set reasonable due dates (1-2 weeks from meeting date)
-        7. Categorize tasks appropriately
-        8. Estimate effort in hours where possible
-
-        Return tasks in JSON format:
-        [
-          {
-            "title": "Specific task title",
-            "description": "Detailed description of what needs to be done",
-            "assignee": "Person name or email if mentioned",
-            "priority": "high|medium|low",
-            "category": "development|design|planning|review|communication",
-            "estimatedHours": 4
-          }
-        ]
-      `;
+      const taskExtractionPrompt = renderPromptForCall('task_extraction', {
+        summary: summary.summary,
+        keyPoints: summary.keyPoints.join('\n'),
+        decisions: summary.decisions.join('\n'),
+        actionItems: summary.actionItems.join('\n')
+      }, 'mistral');
 
       const messages = [
         {
           role: 'system',
-          content: 'You are a professional project manager specializing in task extraction from meeting summaries. Create specific, actionable tasks with clear assignments and priorities.'
+          content: renderPromptForCall('task_extraction.system', {}, 'mistral')
         },
         {
           role: 'user',
@@ -420,7 +400,7 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
       ];
 
       console.log(`🤖 Sending task extraction request to AI service...`);
-      const tasksResponse = await mistralGenerateResponse(messages as any);
+      const tasksResponse = await generateWithQuota('extractTasks', messages as any);
       let tasks: MeetingTask[] = [];
 
       try {
@@ -446,14 +426,6 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
         console.log(`✅ Extracted ${tasks.length} tasks using fallback method`);
       }
 
-      // Save tasks to file system
-      try {
-        const { taskFileStorage } = await import('./utils/taskFileStorage.js');
-        await taskFileStorage.saveTasks(summary.meetingId, tasks);
-      } catch (fileError) {
-        console.error(`❌ Error saving tasks to file system: ${(fileError as Error).message}`);
-      }
-
       // Record performance metrics
       performanceMonitor.recordAPICall({
         service: 'mistral',
@@ -480,13 +452,23 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
     }
   }
 
+  /**
+   * Path of a meeting's transcript or summary file. The meeting ID is checked first
+   * so it cannot point outside the directory.
+   */
+  private meetingFilePath(directory: string, meetingId: string, suffix: string): string {
+    if (!meetingIdSchema.safeParse(meetingId).success) {
+      throw new Error('Invalid meeting ID');
+    }
+    return path.join(directory, `transcript-${meetingId}${suffix}`);
+  }
+
   /**
    * Save transcript to file system as JSON
    */
   private async saveTranscriptToFile(transcript: MeetingTranscript): Promise<string> {
     try {
-      const fileName = `transcript-${transcript.meetingId}.json`;
-      const filePath = path.join(this.TRANSCRIPTS_DIR, fileName);
+      const filePath = this.meetingFilePath(this.TRANSCRIPTS_DIR, transcript.meetingId, '.json');
 
       const fileContent = JSON.stringify({
         meetingId: transcript.meetingId,
@@ -497,6 +479,10 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
         generatedAt: transcript.generatedAt.toISOString(),
         wordCount: transcript.wordCount,
         filePath: filePath,
+        source: transcript.source,
+        format: transcript.format,
+        turns: transcript.turns,
+        unmatchedSpeakers: transcript.unmatchedSpeakers,
         type: 'transcript'
       }, null, 2);
 
@@ -514,8 +500,7 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
    */
   private async saveSummaryToFile(summary: MeetingSummary): Promise<string> {
     try {
-      const fileName = `transcript-${summary.meetingId}-summary.json`;
-      const filePath = path.join(this.SUMMARIES_DIR, fileName);
+      const filePath = this.meetingFilePath(this.SUMMARIES_DIR, summary.meetingId, '-summary.json');
 
       const fileContent = JSON.stringify({
         meetingId: summary.meetingId,
@@ -618,8 +603,7 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
    */
   async getTranscript(meetingId: string): Promise<MeetingTranscript | null> {
     try {
-      const fileName = `transcript-${meetingId}.json`;
-      const filePath = path.join(this.TRANSCRIPTS_DIR, fileName);
+      const filePath = this.meetingFilePath(this.TRANSCRIPTS_DIR, meetingId, '.json');
 
       if (!fs.existsSync(filePath)) {
         return null;
@@ -636,7 +620,11 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
         participants: data.participants,
         duration: data.duration,
         generatedAt: new Date(data.generatedAt),
-        wordCount: data.wordCount
+        wordCount: data.wordCount,
+        source: data.source,
+        format: data.format,
+        turns: data.turns,
+        unmatchedSpeakers: data.unmatchedSpeakers
       };
 
       return transcript;
@@ -651,8 +639,7 @@ Focus on creating authentic, lengthy discussion that naturally leads to actionab
    */
   async getSummary(meetingId: string): Promise<MeetingSummary | null> {
     try {
-      const fileName = `transcript-${meetingId}-summary.json`;
-      const filePath = path.join(this.SUMMARIES_DIR, fileName);
+      const filePath = this.meetingFilePath(this.SUMMARIES_DIR, meetingId, '-summary.json');
 
       if (!fs.existsSync(filePath)) {
         return null;
@@ -64,6 +64,17 @@ export interface UsageRecommendation {
     actionItems: string[];
 }
 
+// 'valid' on the first try, 'repaired' after a repair round-trip, 'failed' after every repair
+export type SchemaValidationOutcome = 'valid' | 'repaired' | 'failed';
+
+export interface SchemaValidationStats {
+    validations: number;
+    invalidOutputs: number;  // Failed the schema before any repair
+    repaired: number;
+    failed: number;
+    failureRate: number;     // invalidOutputs / validations
+}
+
 export interface CostAnalysis {
     gemini: {
         totalCost: number;
@@ -98,6 +109,12 @@ export class UsageAnalyticsService {
         decisionTime: number;
         success: boolean;
     }> = [];
+    private schemaValidations: Array<{
+        timestamp: Date;
+        functionName: string;
+        provider: string;
+        outcome: SchemaValidationOutcome;
+    }> = [];
 
     // Cost estimates (tokens per dollar - approximate)
     private readonly costEstimates = {
@@ -138,6 +155,47 @@ export class UsageAnalyticsService {
         }
     }
 
+    /**
+     * Record whether a provider's output matched the function's output schema
+     */
+    recordSchemaValidation(functionName: string, provider: string, outcome: SchemaValidationOutcome): void {
+        this.schemaValidations.push({ timestamp: new Date(), functionName, provider, outcome });
+
+        if (this.schemaValidations.length > 10000) {
+            this.schemaValidations = this.schemaValidations.slice(-5000);
+        }
+    }
+
+    /**
+     * Schema validation results keyed by function name, then provider
+     */
+    getSchemaValidationStats(timeRangeHours: number = 24): Record<string, Record<string, SchemaValidationStats>> {
+        const cutoffTime = new Date(Date.now() - timeRangeHours * 60 * 60 * 1000);
+        const stats: Record<string, Record<string, SchemaValidationStats>> = {};
+
+        for (const validation of this.schemaValidations) {
+            if (validation.timestamp < cutoffTime) continue;
+
+            const byProvider = stats[validation.functionName] ??= {};
+            const entry = byProvider[validation.provider] ??= {
+                validations: 0,
+                invalidOutputs: 0,
+                repaired: 0,
+                failed: 0,
+                failureRate: 0
+            };
+
+            entry.validations++;
+            if (validation.outcome !== 'valid') {
+                entry.invalidOutputs++;
+                entry[validation.outcome]++;
+            }
+            entry.failureRate = entry.invalidOutputs / entry.validations;
+        }
+
+        return stats;
+    }
+
     /**
      * Get comprehensive usage analytics for a time period
      */
@@ -295,13 +353,18 @@ export class UsageAnalyticsService {
      * Calculate cost estimate for model usage
      */
     private calculateCostEstimate(metrics: AICallMetrics[], model: 'gemini' | 'mistral'): number {
-        const costs = this.costEstimates[model];
-        
-        return metrics.reduce((total, metric) => {
-            const inputCost = metric.tokenCount.input * costs.inputTokenCost;
-            const outputCost = metric.tokenCount.output * costs.outputTokenCost;
-            return total + inputCost + outputCost;
-        }, 0);
+        return metrics.reduce((total, metric) => total + (this.estimateCost(model, metric.tokenCount) ?? 0), 0);
+    }
+
+    /**
+     * Estimated cost of one call's tokens, or undefined for providers without known pricing
+     */
+    estimateCost(provider: string, tokens: { input: number; output: number }): number | undefined {
+        const costs = this.costEstimates[provider as keyof typeof this.costEstimates];
+        if (!costs) {
+            return undefined;
+        }
+        return tokens.input * costs.inputTokenCost + tokens.output * costs.outputTokenCost;
     }
 
     /**
@@ -516,6 +579,7 @@ export class UsageAnalyticsService {
     exportAnalytics(timeRangeHours: number = 24): {
         usage: UsageAnalytics;
         costs: CostAnalysis;
+        schemaValidation: Record<string, Record<string, SchemaValidationStats>>;
         exportTime: Date;
         summary: {
             totalRequests: number;
@@ -552,6 +616,7 @@ export class UsageAnalyticsService {
         return {
             usage,
             costs,
+            schemaValidation: this.getSchemaValidationStats(timeRangeHours),
             exportTime: new Date(),
             summary: {
                 totalRequests,
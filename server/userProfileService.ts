@@ -0,0 +1,186 @@
+import { db } from './storage.js';
+import { users, userProfiles } from '../shared/schema.js';
+import type { UserProfile, UpdateUserProfile, MeetingTypeCalendars } from '../shared/schema.js';
+import { eq, inArray } from 'drizzle-orm';
+import { DEFAULT_WORKING_HOURS_PROFILE, type WorkingHoursProfile } from './utils/workingHours.js';
+
+export const WORKING_HOURS_RANGE_ERROR = 'Working hours must end after they start';
+export const DEFAULT_AGENDA_REMINDER_HOURS = 24;
+const PRIMARY_CALENDAR_ID = 'primary';
+
+export interface CalendarPreferences {
+    busyCalendarIds: string[]; // calendars whose events count as busy time
+    meetingTypeCalendars: MeetingTypeCalendars; // where new meetings of each type are created
+}
+
+/**
+ * UserProfileService stores each user's timezone, working hours and preferred meeting lengths.
+ * Users without a saved profile get DEFAULT_WORKING_HOURS_PROFILE.
+ */
+export class UserProfileService {
+    private profileCache: Map<string, { profile: WorkingHoursProfile; expiry: number }> = new Map();
+    private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
+
+    /**
+     * Gets the stored profile row for a user, if any
+     */
+    async getStoredProfile(userId: string): Promise<UserProfile | undefined> {
+        const [profile] = await db
+            .select()
+            .from(userProfiles)
+            .where(eq(userProfiles.userId, userId))
+            .limit(1);
+
+        return profile;
+    }
+
+    /**
+     * Gets the working hours profile for a user, falling back to defaults
+     */
+    async getWorkingHours(userId: string): Promise<WorkingHoursProfile> {
+        const cached = this.profileCache.get(userId);
+        if (cached && cached.expiry > Date.now()) {
+            return cached.profile;
+        }
+
+        try {
+            const stored = await this.getStoredProfile(userId);
+            const profile = stored ? toWorkingHoursProfile(stored) : DEFAULT_WORKING_HOURS_PROFILE;
+
+            this.profileCache.set(userId, { profile, expiry: Date.now() + this.CACHE_DURATION });
+            return profile;
+        } catch (error) {
+            console.error('Error loading user profile, using default working hours:', error);
+            return DEFAULT_WORKING_HOURS_PROFILE;
+        }
+    }
+
+    /**
+     * Gets working hours for attendees who are also users of the app, keyed by lowercase email
+     * Attendees without an account are omitted because their hours are unknown
+     */
+    async getWorkingHoursByEmail(emails: string[]): Promise<Map<string, WorkingHoursProfile>> {
+        const result = new Map<string, WorkingHoursProfile>();
+        const normalizedEmails = Array.from(new Set(emails.map(email => email.toLowerCase())));
+
+        if (normalizedEmails.length === 0) {
+            return result;
+        }
+
+        try {
+            const rows = await db
+                .select({ email: users.email, profile: userProfiles })
+                .from(userProfiles)
+                .innerJoin(users, eq(userProfiles.userId, users.id))
+                .where(inArray(users.email, normalizedEmails));
+
+            for (const row of rows) {
+                result.set(row.email.toLowerCase(), toWorkingHoursProfile(row.profile));
+            }
+        } catch (error) {
+            console.error('Error loading attendee profiles:', error);
+        }
+
+        return result;
+    }
+
+    /**
+     * Gets which calendars count as busy time and where meetings are created,
+     * falling back to the primary calendar
+     */
+    async getCalendarPreferences(userId: string): Promise<CalendarPreferences> {
+        try {
+            return toCalendarPreferences(await this.getStoredProfile(userId));
+        } catch (error) {
+            console.error('Error loading calendar preferences, using the primary calendar:', error);
+            return toCalendarPreferences();
+        }
+    }
+
+    /**
+     * Calendar new meetings of a type are created in; the primary calendar until the user picks another
+     */
+    async getMeetingTypeCalendarId(userId: string, meetingType?: 'online' | 'physical'): Promise<string> {
+        const { meetingTypeCalendars } = await this.getCalendarPreferences(userId);
+        return (meetingType && meetingTypeCalendars[meetingType]) || PRIMARY_CALENDAR_ID;
+    }
+
+    /**
+     * Remembers the calendar a meeting type was last created in, so the next one goes there too
+     */
+    async rememberMeetingTypeCalendar(userId: string, meetingType: 'online' | 'physical', calendarId: string): Promise<void> {
+        const { meetingTypeCalendars } = await this.getCalendarPreferences(userId);
+        if ((meetingTypeCalendars[meetingType] || PRIMARY_CALENDAR_ID) === calendarId) {
+            return;
+        }
+
+        await this.upsertProfile(userId, { meetingTypeCalendars: { ...meetingTypeCalendars, [meetingType]: calendarId } });
+    }
+
+    /**
+     * Creates or updates a user's profile
+     */
+    async upsertProfile(userId: string, updates: UpdateUserProfile): Promise<UserProfile> {
+        const existing = await this.getStoredProfile(userId);
+        const merged = {
+            ...(existing ? toWorkingHoursProfile(existing) : DEFAULT_WORKING_HOURS_PROFILE),
+            ...updates
+        };
+
+        if (merged.workingHoursStart >= merged.workingHoursEnd) {
+            throw new Error(WORKING_HOURS_RANGE_ERROR);
+        }
+
+        let profile: UserProfile;
+        if (existing) {
+            [profile] = await db
+                .update(userProfiles)
+                .set({ ...updates, updatedAt: new Date() })
+                .where(eq(userProfiles.userId, userId))
+                .returning();
+        } else {
+            [profile] = await db
+                .insert(userProfiles)
+                .values({ userId, ...merged })
+                .returning();
+        }
+
+        this.profileCache.delete(userId);
+        return profile;
+    }
+}
+
+/**
+ * Maps a stored profile row to the working hours shape used by scheduling code
+ */
+export function toWorkingHoursProfile(profile: UserProfile): WorkingHoursProfile {
+    return {
+        timezone: profile.timezone,
+        workingDays: profile.workingDays || DEFAULT_WORKING_HOURS_PROFILE.workingDays,
+        workingHoursStart: profile.workingHoursStart,
+        workingHoursEnd: profile.workingHoursEnd,
+        preferredMeetingLengths: profile.preferredMeetingLengths || DEFAULT_WORKING_HOURS_PROFILE.preferredMeetingLengths
+    };
+}
+
+/**
+ * Reminder and digest preferences; users without a saved profile get the column defaults
+ */
+export function toReminderSettings(profile?: UserProfile): { agendaReminderHours: number | null; taskDigestEnabled: boolean } {
+    return {
+        agendaReminderHours: profile ? profile.agendaReminderHours : DEFAULT_AGENDA_REMINDER_HOURS,
+        taskDigestEnabled: profile ? profile.taskDigestEnabled : true
+    };
+}
+
+/**
+ * Calendar preferences; users without a saved profile use only their primary calendar
+ */
+export function toCalendarPreferences(profile?: UserProfile): CalendarPreferences {
+    return {
+        busyCalendarIds: profile?.busyCalendarIds?.length ? profile.busyCalendarIds : [PRIMARY_CALENDAR_ID],
+        meetingTypeCalendars: profile?.meetingTypeCalendars || {}
+    };
+}
+
+export const userProfileService = new UserProfileService();
@@ -0,0 +1,141 @@
+/**
+ * Timezone-aware working hours helpers shared by availability checks and business rules
+ */
+
+export interface WorkingHoursProfile {
+    timezone: string; // IANA timezone
+    workingDays: number[]; // 0 = Sunday, 6 = Saturday
+    workingHoursStart: number; // hour of day in the profile timezone
+    workingHoursEnd: number;
+    preferredMeetingLengths: number[]; // minutes
+}
+
+export interface ZonedTimeParts {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+    dayOfWeek: number; // 0 = Sunday, 6 = Saturday
+}
+
+const WEEKDAY_INDEX: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Default profile used when a user has not saved one: 9-17, Monday to Friday, server timezone
+ */
+export const DEFAULT_WORKING_HOURS_PROFILE: WorkingHoursProfile = {
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    workingDays: [1, 2, 3, 4, 5],
+    workingHoursStart: 9,
+    workingHoursEnd: 17,
+    preferredMeetingLengths: [30, 60]
+};
+
+/**
+ * Checks whether a string is a timezone the runtime understands
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Gets the wall-clock date and time of an instant in the given timezone
+ */
+export function getZonedTimeParts(date: Date, timeZone: string): ZonedTimeParts {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        weekday: 'short',
+        hourCycle: 'h23'
+    }).formatToParts(date);
+
+    const value = (type: string) => parts.find(part => part.type === type)?.value || '';
+
+    return {
+        year: parseInt(value('year'), 10),
+        month: parseInt(value('month'), 10),
+        day: parseInt(value('day'), 10),
+        hour: parseInt(value('hour'), 10),
+        minute: parseInt(value('minute'), 10),
+        dayOfWeek: WEEKDAY_INDEX[value('weekday')]
+    };
+}
+
+/**
+ * Converts a wall-clock time in the given timezone to the matching instant
+ */
+export function zonedTimeToDate(
+    year: number,
+    month: number,
+    day: number,
+    hour: number,
+    minute: number,
+    timeZone: string
+): Date {
+    const asUtc = Date.UTC(year, month - 1, day, hour, minute);
+
+    // Correct twice so instants next to a DST transition settle on the right offset
+    let result = asUtc;
+    for (let i = 0; i < 2; i++) {
+        const parts = getZonedTimeParts(new Date(result), timeZone);
+        const offset = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute) - result;
+        result = asUtc - offset;
+    }
+
+    return new Date(result);
+}
+
+/**
+ * Returns the start and end of working hours on the calendar day containing the given instant
+ */
+export function getWorkingDayBounds(date: Date, profile: WorkingHoursProfile): { start: Date; end: Date; isWorkingDay: boolean } {
+    const parts = getZonedTimeParts(date, profile.timezone);
+
+    return {
+        start: zonedTimeToDate(parts.year, parts.month, parts.day, profile.workingHoursStart, 0, profile.timezone),
+        end: zonedTimeToDate(parts.year, parts.month, parts.day, profile.workingHoursEnd, 0, profile.timezone),
+        isWorkingDay: profile.workingDays.includes(parts.dayOfWeek)
+    };
+}
+
+/**
+ * Checks whether a time range falls on a working day and inside working hours of the profile
+ */
+export function isWithinWorkingHours(startTime: Date, endTime: Date, profile: WorkingHoursProfile): boolean {
+    const bounds = getWorkingDayBounds(startTime, profile);
+
+    return bounds.isWorkingDay && startTime >= bounds.start && endTime <= bounds.end;
+}
+
+/**
+ * Formats working hours for messages, e.g. "09:00-17:00 Mon-Fri (Europe/Berlin)"
+ */
+export function describeWorkingHours(profile: WorkingHoursProfile): string {
+    const pad = (hour: number) => `${hour.toString().padStart(2, '0')}:00`;
+    const days = [...profile.workingDays].sort((a, b) => a - b);
+    const isRange = days.length > 1 && days.every((day, index) => index === 0 || day === days[index - 1] + 1);
+    const dayLabel = isRange ?
+        `${WEEKDAY_LABELS[days[0]]}-${WEEKDAY_LABELS[days[days.length - 1]]}` :
+        days.map(day => WEEKDAY_LABELS[day]).join(', ');
+
+    return `${pad(profile.workingHoursStart)}-${pad(profile.workingHoursEnd)} ${dayLabel} (${profile.timezone})`;
+}
+
+/**
+ * Formats an instant as local wall-clock time in a timezone, e.g. "Mon 23:00"
+ */
+export function formatZonedTime(date: Date, timeZone: string): string {
+    const parts = getZonedTimeParts(date, timeZone);
+    return `${WEEKDAY_LABELS[parts.dayOfWeek]} ${parts.hour.toString().padStart(2, '0')}:${parts.minute.toString().padStart(2, '0')}`;
+}
@@ -5,10 +5,12 @@ import { AttendeeValidator } from './attendeeValidator.js';
 import { performanceMonitor } from './performanceMonitor.js';
 import { ErrorLoggingIntegration } from './errorHandlers/errorLoggingIntegration.js';
 import { generateDynamicResponse, ResponseContext } from './dynamicResponseGenerator.js';
+import type { TextChunkHandler } from './aiProviderRegistry.js';
 import type { ConversationMessage, MeetingData, UIBlock } from '../shared/schema.js';
+import { toAgendaFields } from '../shared/agendaDocument.js';
 
 export interface ConversationalUIBlock {
-    type: 'meeting_type_selection' | 'attendee_management' | 'meeting_approval' | 'agenda_editor';
+    type: 'meeting_type_selection' | 'attendee_management' | 'meeting_approval' | 'agenda_editor' | 'time_slot_selection' | 'meeting_edit_approval';
     data: Record<string, any>;
 }
 
@@ -57,13 +59,15 @@ export class WorkflowChatIntegration {
     private contextEngineCache: Map<string, ConversationContextEngine> = new Map();
 
     /**
-     * Processes a chat message through the workflow orchestrator
+     * Processes a chat message through the workflow orchestrator.
+     * onToken receives the assistant text as it is generated; the returned message is final.
      */
     async processMessage(
         userId: string,
         message: string,
         conversationId?: string,
-        user?: any
+        user?: any,
+        onToken?: TextChunkHandler
     ): Promise<ChatWorkflowResponse> {
         // Get or create workflow orchestrator for this conversation
         const orchestrator = await this.getOrCreateOrchestrator(userId, conversationId, user);
@@ -71,6 +75,34 @@ export class WorkflowChatIntegration {
 
         // Check if we should detect meeting intent
         const currentWorkflowState = orchestrator.getWorkflowState();
+
+        // Edits to existing meetings are recognised before new-meeting intent detection,
+        // since "move the design review to Thursday" also reads as scheduling intent
+        if (currentWorkflowState.currentStep === 'intent_detection' || currentWorkflowState.isComplete) {
+            const editResponse = await orchestrator.handleMeetingEditRequest(message);
+            if (editResponse) {
+                await contextEngine.addMessage({
+                    id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                    role: 'user',
+                    content: message,
+                    timestamp: new Date()
+                });
+                await contextEngine.addMessage({
+                    id: `msg-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+                    role: 'assistant',
+                    content: editResponse.message,
+                    timestamp: new Date(),
+                    metadata: {
+                        workflowStep: editResponse.nextStep,
+                        requiresUserInput: editResponse.requiresUserInput,
+                        validationErrors: editResponse.validationErrors,
+                        warnings: editResponse.warnings
+                    }
+                });
+
+                return this.buildChatResponse(orchestrator, contextEngine, editResponse);
+            }
+        }
         
         // If not already in a meeting workflow, check for meeting intent
         if (currentWorkflowState.currentStep === 'intent_detection' || currentWorkflowState.isComplete) {
@@ -84,7 +116,7 @@ export class WorkflowChatIntegration {
                 
                 // Check if meeting intent is detected with sufficient confidence
                 if (this.shouldTriggerMeetingWorkflow(intentExtraction)) {
-                    return await this.startMeetingWorkflow(userId, message, conversationId, user, intentExtraction);
+                    return await this.startMeetingWorkflow(userId, message, conversationId, user, intentExtraction, onToken);
                 }
             } catch (error) {
                 console.warn('Meeting intent detection failed, continuing with regular processing:', error);
@@ -106,7 +138,8 @@ export class WorkflowChatIntegration {
                         workflowState,
                         contextEngine,
                         'fallback',
-                        { reason: 'ai_service_unavailable' }
+                        { reason: 'ai_service_unavailable' },
+                        onToken
                     );
 
                     return {
@@ -146,8 +179,10 @@ export class WorkflowChatIntegration {
 
         // Extract time if we're in time collection step
         if (currentWorkflowState.currentStep === 'time_date_collection') {
-            const { extractTimeFromMessage } = await import('./timeExtractor.js');
-            const extractedTime = await extractTimeFromMessage(message);
+            const { extractTimeFromMessage, createTimeExtractionContext } = await import('./timeExtractor.js');
+            const { userProfileService } = await import('./userProfileService.js');
+            const workingHours = await userProfileService.getWorkingHours(userId);
+            const extractedTime = await extractTimeFromMessage(message, createTimeExtractionContext(workingHours));
             
             console.log(`[Time Extraction] Input: "${message}"`);
             console.log(`[Time Extraction] Result:`, extractedTime);
@@ -175,7 +210,7 @@ export class WorkflowChatIntegration {
         };
 
         // Process message through workflow
-        let workflowResponse = await orchestrator.processMessage(conversationMessage);
+        let workflowResponse = await orchestrator.processMessage(conversationMessage, onToken);
 
         // Auto-advance workflow if it doesn't require user input
         // This handles steps like calendar_access_verification that should happen automatically
@@ -248,6 +283,55 @@ export class WorkflowChatIntegration {
         };
     }
 
+    /**
+     * Wraps a workflow response with the workflow, context and performance details returned to the chat
+     */
+    private buildChatResponse(
+        orchestrator: MeetingWorkflowOrchestrator,
+        contextEngine: ConversationContextEngine,
+        workflowResponse: WorkflowResponse
+    ): ChatWorkflowResponse {
+        const workflowState = orchestrator.getWorkflowState();
+        const contextStats = contextEngine.getStats();
+        const performanceMetrics = contextEngine.getPerformanceMetrics();
+        const optimizationRecommendations = contextEngine.getOptimizationRecommendations();
+
+        return {
+            message: workflowResponse.message,
+            uiBlock: workflowResponse.uiBlock as ConversationalUIBlock,
+            conversationId: contextEngine.getConversationId() || 'unknown',
+            workflow: {
+                currentStep: workflowResponse.nextStep,
+                requiresUserInput: workflowResponse.requiresUserInput,
+                progress: 0,
+                meetingData: workflowState.meetingData,
+                isComplete: workflowState.isComplete,
+                nextAction: 'Continue with workflow'
+            },
+            validation: {
+                errors: workflowResponse.validationErrors || [],
+                warnings: workflowResponse.warnings || []
+            },
+            contextStats: {
+                messageCount: contextStats.messageCount,
+                tokenCount: contextStats.tokenCount,
+                compressionLevel: contextStats.compressionLevel,
+                currentMode: contextStats.currentMode,
+                hasMeetingData: contextStats.hasMeetingData
+            },
+            performance: {
+                tokenEfficiency: performanceMetrics.tokenEfficiency,
+                compressionEffectiveness: performanceMetrics.compressionEffectiveness,
+                optimizationRecommendations: optimizationRecommendations.map(rec => ({
+                    type: rec.type,
+                    priority: rec.priority,
+                    description: rec.description,
+                    estimatedTokenSavings: rec.estimatedTokenSavings
+                }))
+            }
+        };
+    }
+
     /**
      * Extracts meeting intent from a message using the AI extraction endpoint
      */
@@ -269,7 +353,8 @@ export class WorkflowChatIntegration {
         workflowState: any,
         context: ConversationContextEngine,
         responseType: 'meeting_type_selection' | 'meeting_created' | 'error' | 'fallback',
-        additionalContext?: any
+        additionalContext?: any,
+        onToken?: TextChunkHandler
     ): Promise<string> {
         const currentStep = workflowState.currentStep;
         const meetingData = workflowState.meetingData;
@@ -287,7 +372,7 @@ export class WorkflowChatIntegration {
             additionalContext
         };
 
-        return await generateDynamicResponse(responseType, responseContext);
+        return await generateDynamicResponse(responseType, responseContext, onToken);
     }
 
     /**
@@ -313,7 +398,8 @@ export class WorkflowChatIntegration {
         message: string,
         conversationId?: string,
         user?: any,
-        intentExtraction?: any
+        intentExtraction?: any,
+        onToken?: TextChunkHandler
     ): Promise<ChatWorkflowResponse> {
         const orchestrator = await this.getOrCreateOrchestrator(userId, conversationId, user);
         const contextEngine = await this.getOrCreateContextEngine(userId, conversationId);
@@ -369,7 +455,7 @@ export class WorkflowChatIntegration {
         };
 
         // Process the message through the workflow (starting from intent_detection)
-        let workflowResponse = await orchestrator.processMessage(conversationMessage);
+        let workflowResponse = await orchestrator.processMessage(conversationMessage, onToken);
 
         // Auto-advance through non-interactive steps (calendar_access_verification)
         // Stop auto-advance when we reach meeting_type_selection since it requires UI interaction
@@ -641,6 +727,11 @@ export class WorkflowChatIntegration {
                         nextStep as any,
                         meetingTypeData
                     );
+                } else if (blockData.action === 'select_room') {
+                    // Follow-up block offering free rooms for a physical meeting
+                    workflowResponse = await orchestrator.selectMeetingRoom(blockData.roomId);
+                } else if (blockData.action === 'keep_location') {
+                    workflowResponse = await orchestrator.selectMeetingRoom();
                 } else {
                     throw new Error(`Unknown action for meeting_type_selection: ${blockData.action}`);
                 }
@@ -716,6 +807,8 @@ export class WorkflowChatIntegration {
                     throw new Error(`Unknown action for attendee_editor: ${blockData.action}`);
                 }
                 break;
+
+            case 'meeting_approval':
                 if (blockData.action === 'approve') {
                     // Get the current meeting data
                     const currentWorkflowState = orchestrator.getWorkflowState();
@@ -724,6 +817,12 @@ export class WorkflowChatIntegration {
                     // Create the calendar event
                     try {
                         const { createCalendarEvent } = await import('./googleCalendar.js');
+                        const { userProfileService } = await import('./userProfileService.js');
+                        const workingHours = await userProfileService.getWorkingHours(userId);
+                        const meetingType = meetingData.type === 'online' ? 'online' : 'physical';
+                        // The calendar picked on the approval card, else the one remembered for the meeting type
+                        const calendarId = blockData.calendarId || meetingData.calendarId ||
+                            await userProfileService.getMeetingTypeCalendarId(userId, meetingType);
                         
                         const eventData = {
                             title: meetingData.title,
@@ -735,13 +834,17 @@ export class WorkflowChatIntegration {
                                 name: a.firstName ? `${a.firstName} ${a.lastName || ''}`.trim() : a.name,
                             })) || [],
                             location: meetingData.location,
+                            resources: meetingType === 'physical' && meetingData.room?.calendarId ? [meetingData.room.calendarId] : [],
                             createMeetLink: meetingData.type === 'online',
+                            recurrenceRule: meetingData.recurrence?.rrule,
+                            timeZone: workingHours.timezone,
+                            calendarId,
                         };
 
                         const createdEvent = await createCalendarEvent(
                             user,
                             eventData,
-                            meetingData.type === 'online' ? 'online' : 'physical'
+                            meetingType
                         );
 
                         // Update meeting data with created event details
@@ -750,9 +853,16 @@ export class WorkflowChatIntegration {
                             id: createdEvent.id || undefined,
                             meetingLink: createdEvent.meetingLink || undefined,
                             location: createdEvent.location || meetingData.location,
+                            calendarId,
                             status: 'created'
                         });
 
+                        try {
+                            await userProfileService.rememberMeetingTypeCalendar(userId, meetingType, calendarId);
+                        } catch (preferenceError) {
+                            console.error('Error remembering the meeting calendar:', preferenceError);
+                        }
+
                         // Transition to creation/completed step
                         workflowResponse = {
                             message: `✅ Meeting created successfully! ${createdEvent.meetingLink ? `\n\nMeeting Link: ${createdEvent.meetingLink}` : ''}\n\nYour meeting "${meetingData.title}" has been scheduled and calendar invites have been sent to all attendees.`,
@@ -794,11 +904,47 @@ export class WorkflowChatIntegration {
                 }
                 break;
 
-            case 'agenda_editor':
-                // Handle agenda editor interactions
+            case 'time_slot_selection':
+                if (blockData.action === 'select_slot') {
+                    workflowResponse = await orchestrator.selectTimeSlot(blockData.startTime, blockData.endTime);
+                    contextEngine.updateMeetingData({
+                        startTime: new Date(blockData.startTime),
+                        endTime: new Date(blockData.endTime)
+                    });
+                } else if (blockData.action === 'keep_original') {
+                    // Proceed with the requested time despite the conflicts
+                    workflowResponse = await orchestrator.advanceToStep('attendee_collection');
+                } else {
+                    throw new Error(`Unknown action for time_slot_selection: ${blockData.action}`);
+                }
+                break;
+
+            case 'meeting_edit_approval':
+                if (blockData.action === 'confirm') {
+                    workflowResponse = await orchestrator.confirmMeetingEdit(blockData.eventId, blockData.changes);
+                } else if (blockData.action === 'cancel') {
+                    workflowResponse = {
+                        message: 'No problem, the meeting was left unchanged.',
+                        nextStep: currentWorkflowState.currentStep,
+                        requiresUserInput: false,
+                        validationErrors: [],
+                        warnings: []
+                    };
+                } else {
+                    throw new Error(`Unknown action for meeting_edit_approval: ${blockData.action}`);
+                }
+                break;
+
+            case 'agenda_editor': {
+                // Store the structured agenda alongside its markdown; editors may send either
+                const editedAgenda = blockData.agendaDocument ?? blockData.agenda;
+                const agendaFields = editedAgenda
+                    ? toAgendaFields(editedAgenda, contextEngine.getMeetingData()?.agendaDocument)
+                    : { agenda: blockData.agenda };
+
                 if (blockData.action === 'update') {
                     // Update agenda content
-                    contextEngine.updateMeetingData({ agenda: blockData.agenda });
+                    contextEngine.updateMeetingData(agendaFields);
                     workflowResponse = {
                         message: 'Agenda updated successfully.',
                         nextStep: 'agenda_approval',
@@ -817,7 +963,7 @@ export class WorkflowChatIntegration {
                     };
                 } else if (blockData.action === 'approve') {
                     // Approve agenda and advance workflow
-                    contextEngine.updateMeetingData({ agenda: blockData.agenda });
+                    contextEngine.updateMeetingData(agendaFields);
                     workflowResponse = {
                         message: 'Agenda approved. Proceeding to final meeting approval.',
                         nextStep: 'approval',
@@ -829,6 +975,7 @@ export class WorkflowChatIntegration {
                     throw new Error(`Unknown action for agenda_editor: ${blockData.action}`);
                 }
                 break;
+            }
 
             default:
                 // Create a synthetic message for other interactions
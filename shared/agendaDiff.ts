@@ -0,0 +1,317 @@
+// ============================================================================
+// Agenda Diffs
+// ============================================================================
+//
+// Line and section level comparison of two agenda versions, shaped for a
+// side-by-side view. Agendas saved from the rich text editor are HTML; they are
+// compared as the text a reader sees, with headings kept as markdown headings
+// so both formats split into the same sections.
+
+export type AgendaDiffLineType = 'unchanged' | 'added' | 'removed' | 'modified';
+
+/**
+ * One row of a side-by-side diff. Line numbers are 1-based and refer to the
+ * compared text; the old side is empty for added rows and the new side for removed ones.
+ */
+export interface AgendaDiffLine {
+    type: AgendaDiffLineType;
+    oldLineNumber?: number;
+    newLineNumber?: number;
+    oldContent?: string;
+    newContent?: string;
+}
+
+export interface AgendaSectionDiff {
+    title: string;
+    status: 'added' | 'removed' | 'modified' | 'unchanged';
+    additions: number;
+    deletions: number;
+}
+
+export interface AgendaDiff {
+    lines: AgendaDiffLine[];
+    sections: AgendaSectionDiff[];
+    stats: {
+        additions: number;
+        deletions: number;
+        modifications: number;
+        unchanged: number;
+    };
+}
+
+// Text before the first heading
+const PREAMBLE_TITLE = 'Opening';
+
+// Above this many cells the LCS table is skipped and the changed middle is shown as replaced
+const MAX_LCS_CELLS = 4_000_000;
+
+const looksLikeHtml = (content: string) => /<\/?[a-z][^>]*>/i.test(content);
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&nbsp;/g, ' ')
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+/**
+ * Splits agenda content into the lines that are compared. HTML block elements
+ * become lines, headings become `#` headings and list items become `- ` bullets.
+ */
+export function toComparableLines(content: string): string[] {
+    if (!looksLikeHtml(content)) {
+        return content.replace(/\r\n/g, '\n').split('\n').map(line => line.trimEnd());
+    }
+
+    const text = content
+        .replace(/\r?\n/g, ' ')
+        .replace(/<h([1-6])[^>]*>/gi, (_, level) => `\n${'#'.repeat(Number(level))} `)
+        .replace(/<li[^>]*>/gi, '\n- ')
+        .replace(/<br\s*\/?>/gi, '\n')
+        .replace(/<\/(h[1-6]|p|div|li|ul|ol|blockquote|pre|tr)>/gi, '\n')
+        .replace(/<[^>]+>/g, '');
+
+    return decodeEntities(text)
+        .split('\n')
+        .map(line => line.replace(/\s+/g, ' ').trim())
+        .filter(line => line.length > 0);
+}
+
+/**
+ * Section title for a heading line, or undefined for body text. Markdown and HTML
+ * headings start sections, as do top-level agenda topics: numbered items that are
+ * bold or timed ("1. **Roadmap** (10 min)"). Numbering, emphasis and trailing timings
+ * are dropped so renumbered topics still match.
+ */
+export function getSectionTitle(line: string): string | undefined {
+    const topic = /\*\*|\(\s*\d+\s*min/i.test(line) ? line.match(/^\d+[.)]\s+(.+)$/) : null;
+    const heading = line.match(/^#{1,6}\s+(.+)$/) || topic;
+    if (!heading) {
+        return undefined;
+    }
+    const title = heading[1]
+        .replace(/[*_`]/g, '')
+        .replace(/\s*\(\s*\d+\s*(?:min(?:ute)?s?|h(?:ou)?rs?)\s*\)\s*$/i, '')
+        .trim();
+    return title || undefined;
+}
+
+/**
+ * Longest-common-subsequence edit script between two line lists
+ */
+function diffLines(oldLines: string[], newLines: string[]): Array<{ type: 'unchanged' | 'added' | 'removed'; line: string }> {
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix &&
+        suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
+
+    const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+    const middle: Array<{ type: 'unchanged' | 'added' | 'removed'; line: string }> = [];
+
+    if ((oldMiddle.length + 1) * (newMiddle.length + 1) > MAX_LCS_CELLS) {
+        oldMiddle.forEach(line => middle.push({ type: 'removed', line }));
+        newMiddle.forEach(line => middle.push({ type: 'added', line }));
+    } else {
+        // lengths[i][j] = LCS length of oldMiddle[i..] and newMiddle[j..]
+        const width = newMiddle.length + 1;
+        const lengths = new Uint32Array((oldMiddle.length + 1) * width);
+        for (let i = oldMiddle.length - 1; i >= 0; i--) {
+            for (let j = newMiddle.length - 1; j >= 0; j--) {
+                lengths[i * width + j] = oldMiddle[i] === newMiddle[j]
+                    ? lengths[(i + 1) * width + j + 1] + 1
+                    : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+            }
+        }
+
+        let i = 0;
+        let j = 0;
+        while (i < oldMiddle.length && j < newMiddle.length) {
+            if (oldMiddle[i] === newMiddle[j]) {
+                middle.push({ type: 'unchanged', line: oldMiddle[i] });
+                i++;
+                j++;
+            } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+                middle.push({ type: 'removed', line: oldMiddle[i++] });
+            } else {
+                middle.push({ type: 'added', line: newMiddle[j++] });
+            }
+        }
+        oldMiddle.slice(i).forEach(line => middle.push({ type: 'removed', line }));
+        newMiddle.slice(j).forEach(line => middle.push({ type: 'added', line }));
+    }
+
+    return [
+        ...oldLines.slice(0, prefix).map(line => ({ type: 'unchanged' as const, line })),
+        ...middle,
+        ...oldLines.slice(oldLines.length - suffix).map(line => ({ type: 'unchanged' as const, line }))
+    ];
+}
+
+/**
+ * Side-by-side line diff. Removed and added lines between the same unchanged lines
+ * are paired up as modified rows; whatever is left over stays added or removed.
+ */
+export function diffAgendaLines(oldLines: string[], newLines: string[]): AgendaDiffLine[] {
+    const script = diffLines(oldLines, newLines);
+    const rows: AgendaDiffLine[] = [];
+    let oldLineNumber = 1;
+    let newLineNumber = 1;
+    let index = 0;
+
+    while (index < script.length) {
+        if (script[index].type === 'unchanged') {
+            rows.push({
+                type: 'unchanged',
+                oldLineNumber: oldLineNumber++,
+                newLineNumber: newLineNumber++,
+                oldContent: script[index].line,
+                newContent: script[index].line
+            });
+            index++;
+            continue;
+        }
+
+        const removed: string[] = [];
+        const added: string[] = [];
+        while (index < script.length && script[index].type !== 'unchanged') {
+            (script[index].type === 'removed' ? removed : added).push(script[index].line);
+            index++;
+        }
+
+        for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+            if (k < removed.length && k < added.length) {
+                rows.push({
+                    type: 'modified',
+                    oldLineNumber: oldLineNumber++,
+                    newLineNumber: newLineNumber++,
+                    oldContent: removed[k],
+                    newContent: added[k]
+                });
+            } else if (k < removed.length) {
+                rows.push({ type: 'removed', oldLineNumber: oldLineNumber++, oldContent: removed[k] });
+            } else {
+                rows.push({ type: 'added', newLineNumber: newLineNumber++, newContent: added[k] });
+            }
+        }
+    }
+
+    return rows;
+}
+
+interface Section {
+    key: string;
+    title: string;
+    lines: string[];
+}
+
+function splitSections(lines: string[]): Section[] {
+    const sections: Section[] = [];
+    const seen = new Map<string, number>();
+    let current: Section | undefined;
+
+    lines.forEach(line => {
+        const title = getSectionTitle(line);
+        if (title) {
+            // Repeated titles are told apart by their order
+            const base = title.toLowerCase();
+            const occurrence = (seen.get(base) || 0) + 1;
+            seen.set(base, occurrence);
+            current = { key: `${base}#${occurrence}`, title, lines: [] };
+            sections.push(current);
+        } else {
+            if (!current) {
+                current = { key: '', title: PREAMBLE_TITLE, lines: [] };
+                sections.push(current);
+            }
+            if (line.trim()) {
+                current.lines.push(line);
+            }
+        }
+    });
+
+    return sections;
+}
+
+/**
+ * Which sections were added, removed or changed, matched by title so moving or
+ * renumbering a section does not count as rewriting it
+ */
+export function diffAgendaSections(oldLines: string[], newLines: string[]): AgendaSectionDiff[] {
+    const oldSections = splitSections(oldLines);
+    const newSections = splitSections(newLines);
+    const oldByKey = new Map(oldSections.map(section => [section.key, section]));
+    const newKeys = new Set(newSections.map(section => section.key));
+
+    const countChanges = (before: string[], after: string[]) => {
+        const rows = diffLines(before, after);
+        return {
+            additions: rows.filter(row => row.type === 'added').length,
+            deletions: rows.filter(row => row.type === 'removed').length
+        };
+    };
+
+    const result: AgendaSectionDiff[] = newSections.map(section => {
+        const previous = oldByKey.get(section.key);
+        if (!previous) {
+            return { title: section.title, status: 'added', additions: section.lines.length, deletions: 0 };
+        }
+        const { additions, deletions } = countChanges(previous.lines, section.lines);
+        const renamed = previous.title !== section.title;
+        return {
+            title: section.title,
+            status: additions || deletions || renamed ? 'modified' : 'unchanged',
+            additions,
+            deletions
+        };
+    });
+
+    // Removed sections go after the section that preceded them in the old version
+    const keys = newSections.map(section => section.key);
+    oldSections.forEach((section, index) => {
+        if (newKeys.has(section.key)) {
+            return;
+        }
+        const removed: AgendaSectionDiff = { title: section.title, status: 'removed', additions: 0, deletions: section.lines.length };
+        const precedingKey = oldSections.slice(0, index).reverse().find(other => newKeys.has(other.key))?.key;
+        let insertAt = precedingKey === undefined ? 0 : keys.indexOf(precedingKey) + 1;
+        while (insertAt < result.length && result[insertAt].status === 'removed') {
+            insertAt++;
+        }
+        result.splice(insertAt, 0, removed);
+        keys.splice(insertAt, 0, section.key);
+    });
+
+    return result;
+}
+
+/**
+ * Compares two versions of an agenda, plain text, markdown or HTML
+ */
+export function diffAgendas(oldContent: string, newContent: string): AgendaDiff {
+    const oldLines = toComparableLines(oldContent);
+    const newLines = toComparableLines(newContent);
+    const lines = diffAgendaLines(oldLines, newLines);
+
+    return {
+        lines,
+        sections: diffAgendaSections(oldLines, newLines),
+        stats: {
+            additions: lines.filter(line => line.type === 'added').length,
+            deletions: lines.filter(line => line.type === 'removed').length,
+            modifications: lines.filter(line => line.type === 'modified').length,
+            unchanged: lines.filter(line => line.type === 'unchanged').length
+        }
+    };
+}
@@ -0,0 +1,498 @@
+import {
+    AGENDA_DOCUMENT_VERSION,
+    agendaDocumentSchema,
+    type AgendaActionItem,
+    type AgendaDocument,
+    type AgendaLink,
+    type AgendaTopicItem
+} from './schema.js';
+
+// ============================================================================
+// Agenda Document Model
+// ============================================================================
+
+/**
+ * Agenda shape produced by the AI agenda generator before agendas had a document version
+ */
+export interface LegacyAgendaContent {
+    title: string;
+    duration: number;
+    topics: Array<{
+        id?: string;
+        title: string;
+        duration: number;
+        description?: string;
+        presenter?: string;
+        links?: AgendaLink[];
+    }>;
+    actionItems: Array<{
+        id?: string;
+        task: string;
+        assignee?: string;
+        deadline?: string;
+        priority?: 'high' | 'medium' | 'low';
+    }>;
+    enhancedPurpose?: string;
+}
+
+const PRIORITIES = ['high', 'medium', 'low'] as const;
+
+/**
+ * Next free id for a topic or action item, e.g. "topic-3"
+ */
+export function createAgendaId(prefix: 'topic' | 'action', existing: Array<{ id?: string }> = []): string {
+    const used = existing
+        .map(item => item.id?.match(new RegExp(`^${prefix}-(\\d+)$`)))
+        .filter((match): match is RegExpMatchArray => !!match)
+        .map(match => parseInt(match[1], 10));
+
+    return `${prefix}-${used.length > 0 ? Math.max(...used) + 1 : 1}`;
+}
+
+/**
+ * Creates an empty agenda document
+ */
+export function createAgendaDocument(title: string, duration: number): AgendaDocument {
+    return { version: AGENDA_DOCUMENT_VERSION, title, duration, topics: [], actionItems: [] };
+}
+
+/**
+ * Converts generator output (or an existing document) into the current document version
+ */
+export function toAgendaDocument(content: LegacyAgendaContent | AgendaDocument): AgendaDocument {
+    if ('version' in content) {
+        return migrateAgendaDocument(content);
+    }
+
+    const topics: AgendaTopicItem[] = [];
+    for (const topic of content.topics || []) {
+        topics.push({
+            id: topic.id || createAgendaId('topic', topics),
+            title: topic.title,
+            duration: Math.max(0, Math.round(topic.duration || 0)),
+            description: topic.description || undefined,
+            presenter: topic.presenter || undefined,
+            links: topic.links || []
+        });
+    }
+
+    const actionItems: AgendaActionItem[] = [];
+    for (const item of content.actionItems || []) {
+        actionItems.push({
+            id: item.id || createAgendaId('action', actionItems),
+            task: item.task,
+            assignee: item.assignee || undefined,
+            deadline: item.deadline || undefined,
+            priority: PRIORITIES.includes(item.priority as any) ? item.priority! : 'medium'
+        });
+    }
+
+    return {
+        version: AGENDA_DOCUMENT_VERSION,
+        title: content.title,
+        duration: Math.max(0, Math.round(content.duration || 0)),
+        purpose: content.enhancedPurpose || undefined,
+        topics,
+        actionItems
+    };
+}
+
+/**
+ * Upgrades a stored document to the current version and validates it
+ */
+export function migrateAgendaDocument(document: { version?: number } & Record<string, any>): AgendaDocument {
+    if (document.version !== AGENDA_DOCUMENT_VERSION) {
+        throw new Error(`Unsupported agenda document version: ${document.version}`);
+    }
+
+    return agendaDocumentSchema.parse(document);
+}
+
+/**
+ * Reads an agenda from any stored form: a document, legacy generator JSON or markdown text
+ */
+export function coerceAgendaDocument(value: unknown, fallbackTitle: string = 'Meeting Agenda'): AgendaDocument | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    if (typeof value === 'object') {
+        return toAgendaDocument(value as LegacyAgendaContent | AgendaDocument);
+    }
+
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+
+    try {
+        const parsed = JSON.parse(value);
+        if (parsed && typeof parsed === 'object' && Array.isArray(parsed.topics)) {
+            return toAgendaDocument(parsed);
+        }
+    } catch {
+        // Not JSON; treat it as markdown
+    }
+
+    return parseAgendaMarkdown(value, undefined, fallbackTitle);
+}
+
+/**
+ * Meeting data fields for an edited agenda. The document is canonical; the markdown is derived from it
+ * so both always describe the same agenda.
+ */
+export function toAgendaFields(
+    agenda: string | AgendaDocument,
+    previous?: AgendaDocument
+): { agenda: string; agendaDocument: AgendaDocument } {
+    const agendaDocument = typeof agenda === 'string'
+        ? parseAgendaMarkdown(agenda, previous)
+        : migrateAgendaDocument(agenda);
+
+    return { agenda: renderAgendaMarkdown(agendaDocument), agendaDocument };
+}
+
+/**
+ * Sum of topic timeboxes; may differ from the meeting duration while the agenda is being edited
+ */
+export function getAgendaTimeboxTotal(document: AgendaDocument): number {
+    return document.topics.reduce((total, topic) => total + topic.duration, 0);
+}
+
+// ============================================================================
+// Renderers
+// ============================================================================
+
+/**
+ * Renders the document as markdown. parseAgendaMarkdown reads this format back without loss.
+ */
+export function renderAgendaMarkdown(document: AgendaDocument): string {
+    let markdown = `# ${document.title}\n\n`;
+    markdown += `**Duration:** ${document.duration} minutes\n\n`;
+
+    if (document.purpose) {
+        // Blank lines would end the paragraph, so a multi-paragraph purpose is kept as one
+        markdown += `**Purpose:** ${document.purpose.replace(/\n\s*\n/g, '\n')}\n\n`;
+    }
+
+    if (document.topics.length > 0) {
+        markdown += `## Agenda Items\n\n`;
+        document.topics.forEach((topic, index) => {
+            markdown += `${index + 1}. **${topic.title}** (${topic.duration} min)\n`;
+            if (topic.description) {
+                markdown += topic.description.split('\n').map(line => `   ${line}\n`).join('');
+            }
+            if (topic.presenter) {
+                markdown += `   *Presenter: ${topic.presenter}*\n`;
+            }
+            topic.links.forEach(link => {
+                markdown += `   - [${link.title}](${link.url})\n`;
+            });
+            markdown += '\n';
+        });
+    }
+
+    if (document.actionItems.length > 0) {
+        markdown += `## Action Items\n\n`;
+        document.actionItems.forEach((item, index) => {
+            markdown += `${index + 1}. ${item.task}`;
+            if (item.assignee) {
+                markdown += ` (*${item.assignee}*)`;
+            }
+            if (item.deadline) {
+                markdown += ` - Due: ${item.deadline}`;
+            }
+            markdown += ` [${item.priority.toUpperCase()}]\n`;
+        });
+    }
+
+    return markdown;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+const PRIORITY_COLORS = {
+    high: { bg: '#fee2e2', text: '#b91c1c' },
+    medium: { bg: '#fef3c7', text: '#92400e' },
+    low: { bg: '#ecfdf5', text: '#065f46' }
+};
+
+/**
+ * Renders the topics and action items as inline-styled HTML for email bodies
+ */
+export function renderAgendaHtml(document: AgendaDocument): string {
+    let html = '';
+
+    if (document.topics.length > 0) {
+        html += '<div style="margin-bottom: 1.5rem;">';
+        html += '<h3 style="margin: 0 0 1rem 0; color: #111827; font-weight: 600; font-size: 1.125rem;">Agenda Topics</h3>';
+        html += '<ol style="list-style-position: inside; padding-left: 0; margin: 0;">';
+        document.topics.forEach(topic => {
+            html += `<li style="margin-bottom: 1rem; padding: 0.75rem; background-color: #ffffff; border: 1px solid #e5e7eb; border-radius: 0.375rem; box-shadow: 0 1px 2px 0 rgba(0, 0, 0, 0.05);">
+           <div style="font-weight: 600; font-size: 1.125rem; color: #111827; margin-bottom: 0.5rem;">${escapeHtml(topic.title)}</div>
+           <div style="display: inline-block; background-color: #e5e7eb; color: #4b5563; padding: 0.25rem 0.5rem; border-radius: 9999px; font-size: 0.75rem; margin-right: 0.5rem;">${topic.duration} min</div>`;
+            if (topic.description) {
+                html += `<p style="margin: 0.5rem 0 0 0; color: #4b5563; line-height: 1.5;">${escapeHtml(topic.description).replace(/\n/g, '<br>')}</p>`;
+            }
+            if (topic.presenter) {
+                html += `<p style="margin: 0.5rem 0 0 0; font-style: italic; color: #6b7280;">Presenter: ${escapeHtml(topic.presenter)}</p>`;
+            }
+            if (topic.links.length > 0) {
+                html += '<p style="margin: 0.5rem 0 0 0; font-size: 0.875rem;">';
+                html += topic.links
+                    .map(link => `<a href="${escapeHtml(link.url)}" style="color: #2563eb;">${escapeHtml(link.title)}</a>`)
+                    .join(' · ');
+                html += '</p>';
+            }
+            html += '</li>';
+        });
+        html += '</ol>';
+        html += '</div>';
+    }
+
+    if (document.actionItems.length > 0) {
+        html += '<div style="background-color: #fffbeb; padding: 1rem; border-left: 4px solid #f59e0b; margin-top: 1.5rem; border-radius: 0.375rem;">';
+        html += '<h3 style="margin-top: 0; color: #b45309; font-weight: 600; font-size: 1.125rem; margin-bottom: 1rem;">Action Items to Discuss</h3>';
+        html += '<ul style="list-style-type: none; padding-left: 0; margin: 0;">';
+        document.actionItems.forEach(item => {
+            const colors = PRIORITY_COLORS[item.priority];
+
+            html += `<li style="margin-bottom: 0.75rem; padding: 0.75rem; background-color: #ffffff; border: 1px solid #fcd34d; border-radius: 0.375rem; box-shadow: 0 1px 2px 0 rgba(0, 0, 0, 0.05);">
+          <div style="font-weight: 600; color: #111827; margin-bottom: 0.5rem;">${escapeHtml(item.task)}</div>
+          <div style="display: flex; flex-wrap: wrap; gap: 0.5rem; font-size: 0.875rem;">`;
+            if (item.assignee) {
+                html += `<span style="display: inline-block; background-color: #e5e7eb; color: #4b5563; padding: 0.25rem 0.5rem; border-radius: 0.25rem;">Assigned to: ${escapeHtml(item.assignee)}</span>`;
+            }
+            if (item.deadline) {
+                html += `<span style="display: inline-block; background-color: #e5e7eb; color: #4b5563; padding: 0.25rem 0.5rem; border-radius: 0.25rem;">Due: ${escapeHtml(item.deadline)}</span>`;
+            }
+            html += `<span style="display: inline-block; background-color: ${colors.bg}; color: ${colors.text}; padding: 0.25rem 0.5rem; border-radius: 0.25rem; font-weight: 500;">${item.priority.toUpperCase()}</span>`;
+            html += '</div></li>';
+        });
+        html += '</ul>';
+        html += '</div>';
+    }
+
+    return html;
+}
+
+/**
+ * Renders the document as plain text for calendar event descriptions
+ */
+export function renderAgendaPlainText(document: AgendaDocument): string {
+    const lines: string[] = [document.title, `Duration: ${document.duration} minutes`];
+
+    if (document.purpose) {
+        lines.push('', `Purpose: ${document.purpose}`);
+    }
+
+    if (document.topics.length > 0) {
+        lines.push('', 'Agenda:');
+        document.topics.forEach((topic, index) => {
+            lines.push(`${index + 1}. ${topic.title} (${topic.duration} min)${topic.presenter ? ` - ${topic.presenter}` : ''}`);
+            if (topic.description) {
+                lines.push(...topic.description.split('\n').map(line => `   ${line}`));
+            }
+            topic.links.forEach(link => lines.push(`   ${link.title}: ${link.url}`));
+        });
+    }
+
+    if (document.actionItems.length > 0) {
+        lines.push('', 'Action Items:');
+        document.actionItems.forEach(item => {
+            const details = [item.assignee, item.deadline && `due ${item.deadline}`, item.priority].filter(Boolean).join(', ');
+            lines.push(`- ${item.task} (${details})`);
+        });
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * Renders the document as an iCalendar DESCRIPTION property (RFC 5545 text escaping, lines folded at 75 octets)
+ */
+export function renderAgendaIcsDescription(document: AgendaDocument): string {
+    return foldIcsLine(`DESCRIPTION:${escapeIcsText(renderAgendaPlainText(document))}`);
+}
+
+/**
+ * Escapes a value for an iCalendar TEXT property (RFC 5545 section 3.3.11)
+ */
+export function escapeIcsText(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line so no physical line exceeds 75 octets, without splitting multi-byte characters
+ */
+export function foldIcsLine(line: string): string {
+    const encoder = new TextEncoder();
+    const folded: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+
+    for (const char of line) {
+        const charBytes = encoder.encode(char).length;
+        // Continuation lines start with a space, which counts towards their 75 octets
+        const limit = folded.length === 0 ? 75 : 74;
+        if (currentBytes + charBytes > limit) {
+            folded.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += charBytes;
+    }
+    folded.push(current);
+
+    return folded.join('\r\n ');
+}
+
+// ============================================================================
+// Markdown Parser
+// ============================================================================
+
+const TOPIC_LINE = /^\d+\.\s+(?:\*\*(.+?)\*\*|(.+?))\s*(?:\((\d+)\s*min(?:utes)?\))?\s*$/i;
+const ACTION_LINE = /^(?:- \[[ x]\]|\d+\.|[-*•])\s+(.+?)(?:\s+\(\*(.+?)\*\))?(?:\s+-\s+Due:\s+(.+?))?(?:\s+\[(HIGH|MEDIUM|LOW)\])?\s*$/i;
+const PRESENTER_LINE = /^\*Presenter:\s*(.+)\*$/;
+const LINK_LINE = /^-\s+\[(.+?)\]\((\S+?)\)$/;
+
+/**
+ * Parses agenda markdown as written by renderAgendaMarkdown. Ids are reused from the
+ * previous version of the document by position so edits made as text keep item identity.
+ */
+export function parseAgendaMarkdown(
+    markdown: string,
+    previous?: AgendaDocument,
+    fallbackTitle: string = 'Meeting Agenda'
+): AgendaDocument {
+    const document = createAgendaDocument(previous?.title || fallbackTitle, previous?.duration || 0);
+    let section: 'header' | 'topics' | 'actions' = 'header';
+    let topic: AgendaTopicItem | undefined;
+    let descriptionLines: string[] = [];
+
+    const finishTopic = () => {
+        if (topic) {
+            // Drop the blank line that separates topics
+            while (descriptionLines.length > 0 && descriptionLines[descriptionLines.length - 1] === '') {
+                descriptionLines.pop();
+            }
+            topic.description = descriptionLines.length > 0 ? descriptionLines.join('\n') : undefined;
+            document.topics.push(topic);
+        }
+        topic = undefined;
+        descriptionLines = [];
+    };
+
+    for (const rawLine of markdown.replace(/\r\n/g, '\n').split('\n')) {
+        const line = rawLine.trimEnd();
+        const trimmed = line.trim();
+
+        if (/^# /.test(line)) {
+            document.title = line.slice(2).trim();
+            continue;
+        }
+
+        if (/^#{2,3} /.test(line)) {
+            finishTopic();
+            section = /action|next steps/i.test(line) ? 'actions' : 'topics';
+            continue;
+        }
+
+        const duration = trimmed.match(/^\*\*Duration:\*\*\s*(\d+)/);
+        if (duration && section === 'header') {
+            document.duration = parseInt(duration[1], 10);
+            continue;
+        }
+
+        const purpose = trimmed.match(/^\*\*Purpose:\*\*\s*(.*)$/);
+        if (purpose && section === 'header') {
+            document.purpose = purpose[1];
+            continue;
+        }
+
+        // A purpose may run over several lines
+        if (section === 'header' && document.purpose !== undefined && trimmed) {
+            document.purpose += `\n${trimmed}`;
+            continue;
+        }
+
+        if (section === 'actions') {
+            const action = trimmed.match(ACTION_LINE);
+            if (action) {
+                const priority = action[4]?.toLowerCase() as AgendaActionItem['priority'] | undefined;
+                document.actionItems.push({
+                    id: '',
+                    task: action[1],
+                    assignee: action[2],
+                    deadline: action[3],
+                    priority: priority || 'medium'
+                });
+            }
+            continue;
+        }
+
+        // Topic lines start at the margin; anything indented under a topic belongs to it
+        const topicMatch = line.match(TOPIC_LINE);
+        if (topicMatch) {
+            finishTopic();
+            section = 'topics';
+            topic = {
+                id: '',
+                title: (topicMatch[1] || topicMatch[2]).trim(),
+                duration: topicMatch[3] ? parseInt(topicMatch[3], 10) : 0,
+                links: []
+            };
+            continue;
+        }
+
+        if (!topic) {
+            continue;
+        }
+
+        const presenter = trimmed.match(PRESENTER_LINE);
+        const link = trimmed.match(LINK_LINE);
+        if (presenter) {
+            topic.presenter = presenter[1];
+        } else if (link) {
+            topic.links.push({ title: link[1], url: link[2] });
+        } else {
+            descriptionLines.push(line.replace(/^ {1,3}/, ''));
+        }
+    }
+    finishTopic();
+
+    document.topics.forEach((item, index) => {
+        item.id = previous?.topics[index]?.id || createAgendaId('topic', document.topics);
+    });
+    document.actionItems.forEach((item, index) => {
+        item.id = previous?.actionItems[index]?.id || createAgendaId('action', document.actionItems);
+    });
+
+    if (!document.duration) {
+        document.duration = getAgendaTimeboxTotal(document);
+    }
+
+    return removeUndefined(document);
+}
+
+// Optional fields are left out rather than set to undefined so parsed documents compare equal to stored ones
+function removeUndefined(document: AgendaDocument): AgendaDocument {
+    const clean = <T extends object>(value: T): T =>
+        Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T;
+
+    return {
+        ...clean(document),
+        topics: document.topics.map(clean),
+        actionItems: document.actionItems.map(clean)
+    };
+}
@@ -0,0 +1,195 @@
+import type { AgendaTextOperation } from './schema.js';
+
+// ============================================================================
+// Agenda Text Operations
+// ============================================================================
+//
+// Collaborative agenda edits are plain-text operations addressed by character
+// offset. Concurrent operations are merged with operational transformation:
+// the server orders them into revisions and each side transforms what it has
+// not yet seen against what the other side already applied.
+
+/**
+ * Which operation goes first when two inserts land on the same offset.
+ * Both sides must pass opposite values so they converge on the same text.
+ */
+export type OperationPriority = 'left' | 'right';
+
+const opposite = (priority: OperationPriority): OperationPriority => (priority === 'left' ? 'right' : 'left');
+
+/**
+ * Applies one operation, throwing when it does not fit the text
+ */
+export function applyOperation(text: string, operation: AgendaTextOperation): string {
+    if (operation.type === 'insert') {
+        if (operation.index > text.length) {
+            throw new RangeError(`Insert at ${operation.index} is past the end of the agenda (${text.length})`);
+        }
+        return text.slice(0, operation.index) + operation.text + text.slice(operation.index);
+    }
+
+    if (operation.index + operation.length > text.length) {
+        throw new RangeError(`Delete of ${operation.length} at ${operation.index} is past the end of the agenda (${text.length})`);
+    }
+    return text.slice(0, operation.index) + text.slice(operation.index + operation.length);
+}
+
+/**
+ * Applies operations in order
+ */
+export function applyOperations(text: string, operations: AgendaTextOperation[]): string {
+    return operations.reduce(applyOperation, text);
+}
+
+/**
+ * Rewrites `operation` so it can be applied after `against`, where both were made on the same text.
+ * A delete that spans a concurrent insert is split so the inserted text survives.
+ */
+export function transformOperation(
+    operation: AgendaTextOperation,
+    against: AgendaTextOperation,
+    priority: OperationPriority
+): AgendaTextOperation[] {
+    if (operation.type === 'insert') {
+        if (against.type === 'insert') {
+            const goesFirst = operation.index < against.index || (operation.index === against.index && priority === 'left');
+            return [goesFirst ? operation : { ...operation, index: operation.index + against.text.length }];
+        }
+
+        if (operation.index <= against.index) {
+            return [operation];
+        }
+        if (operation.index >= against.index + against.length) {
+            return [{ ...operation, index: operation.index - against.length }];
+        }
+        // The insert was inside deleted text; keep it where the deletion closed up
+        return [{ ...operation, index: against.index }];
+    }
+
+    const start = operation.index;
+    const end = operation.index + operation.length;
+
+    if (against.type === 'insert') {
+        if (against.index >= end) {
+            return [operation];
+        }
+        if (against.index <= start) {
+            return [{ ...operation, index: start + against.text.length }];
+        }
+        // Delete around the inserted text; the later range first so the earlier offset stays valid
+        return [
+            { type: 'delete', index: against.index + against.text.length, length: end - against.index },
+            { type: 'delete', index: start, length: against.index - start }
+        ];
+    }
+
+    const againstEnd = against.index + against.length;
+    if (end <= against.index) {
+        return [operation];
+    }
+    if (start >= againstEnd) {
+        return [{ ...operation, index: start - against.length }];
+    }
+
+    // Overlapping deletes: only remove what the other side left behind
+    const overlap = Math.min(end, againstEnd) - Math.max(start, against.index);
+    const length = operation.length - overlap;
+    return length > 0 ? [{ type: 'delete', index: Math.min(start, against.index), length }] : [];
+}
+
+/**
+ * Transforms two operation sequences made on the same text against each other.
+ * Returns `[operations', against']`: `operations'` applies after `against` and vice versa,
+ * and both orders produce the same text.
+ */
+export function transformOperations(
+    operations: AgendaTextOperation[],
+    against: AgendaTextOperation[],
+    priority: OperationPriority
+): [AgendaTextOperation[], AgendaTextOperation[]] {
+    if (operations.length === 0 || against.length === 0) {
+        return [operations, against];
+    }
+
+    if (operations.length === 1 && against.length === 1) {
+        return [
+            transformOperation(operations[0], against[0], priority),
+            transformOperation(against[0], operations[0], opposite(priority))
+        ];
+    }
+
+    if (operations.length > 1) {
+        const [first, againstAfterFirst] = transformOperations(operations.slice(0, 1), against, priority);
+        const [rest, againstAfterAll] = transformOperations(operations.slice(1), againstAfterFirst, priority);
+        return [[...first, ...rest], againstAfterAll];
+    }
+
+    const [afterFirst, firstAgainst] = transformOperations(operations, against.slice(0, 1), priority);
+    const [afterAll, restAgainst] = transformOperations(afterFirst, against.slice(1), priority);
+    return [afterAll, [...firstAgainst, ...restAgainst]];
+}
+
+/**
+ * Moves a character offset past the effect of applied operations, e.g. to keep a caret in place
+ */
+export function transformOffset(offset: number, operations: AgendaTextOperation[]): number {
+    return operations.reduce((current, operation) => {
+        if (operation.type === 'insert') {
+            return operation.index <= current ? current + operation.text.length : current;
+        }
+        if (operation.index >= current) {
+            return current;
+        }
+        return Math.max(operation.index, current - operation.length);
+    }, offset);
+}
+
+/**
+ * Smallest pair of operations that turns `before` into `after`, found by trimming the
+ * common prefix and suffix. Good enough for keystrokes, pastes and replaced selections.
+ */
+export function diffToOperations(before: string, after: string): AgendaTextOperation[] {
+    let prefix = 0;
+    const maxPrefix = Math.min(before.length, after.length);
+    while (prefix < maxPrefix && before[prefix] === after[prefix]) {
+        prefix++;
+    }
+
+    let suffix = 0;
+    const maxSuffix = maxPrefix - prefix;
+    while (suffix < maxSuffix && before[before.length - 1 - suffix] === after[after.length - 1 - suffix]) {
+        suffix++;
+    }
+
+    const operations: AgendaTextOperation[] = [];
+    const deleted = before.length - prefix - suffix;
+    const inserted = after.slice(prefix, after.length - suffix);
+    if (deleted > 0) {
+        operations.push({ type: 'delete', index: prefix, length: deleted });
+    }
+    if (inserted) {
+        operations.push({ type: 'insert', index: prefix, text: inserted });
+    }
+    return operations;
+}
+
+/**
+ * Zero-based line and column of a character offset
+ */
+export function offsetToPosition(text: string, offset: number): { line: number; column: number } {
+    const before = text.slice(0, Math.max(0, Math.min(offset, text.length))).split('\n');
+    return { line: before.length - 1, column: before[before.length - 1].length };
+}
+
+/**
+ * Character offset of a zero-based line and column, clamped to the text
+ */
+export function positionToOffset(text: string, position: { line: number; column: number }): number {
+    const lines = text.split('\n');
+    const line = Math.max(0, Math.min(position.line, lines.length - 1));
+    let offset = 0;
+    for (let i = 0; i < line; i++) {
+        offset += lines[i].length + 1;
+    }
+    return offset + Math.max(0, Math.min(position.column, lines[line].length));
+}
@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, json, boolean, integer, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, json, boolean, integer, decimal, real, unique, index } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -22,20 +22,36 @@ export const events = pgTable("events", {
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time").notNull(),
   meetingLink: text("meeting_link"),
+  location: text("location"),
   attendees: json("attendees").$type<string[]>().default([]),
   agenda: text("agenda"),
+  calendarId: text("calendar_id").notNull().default("primary"), // Google calendar the event was created in
+  recurrenceRule: text("recurrence_rule"), // RFC 5545 RRULE line for recurring meetings
+  icsSequence: integer("ics_sequence").notNull().default(0), // SEQUENCE of the last calendar invite sent
   transcriptGenerated: boolean("transcript_generated").default(false),
+  // Google's copy as of the last sync; changes on either side are detected against it
+  syncedSnapshot: json("synced_snapshot").$type<CalendarEventSnapshot>(),
+  lastSyncedAt: timestamp("last_synced_at"),
 });
 
 export const tasks = pgTable("tasks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   eventId: varchar("event_id").references(() => events.id),
+  userId: varchar("user_id").references(() => users.id), // owner; older rows are owned through their event
   title: text("title").notNull(),
   description: text("description"),
   assignee: text("assignee").notNull(),
+  assigneeEmail: text("assignee_email"),
   deadline: timestamp("deadline"),
   status: text("status").notNull().default("pending"), // pending, in_progress, completed
+  priority: text("priority").notNull().default("medium"), // high, medium, low
+  category: text("category").notNull().default("general"),
+  estimatedHours: real("estimated_hours"),
+  googleTaskId: text("google_task_id"), // set once the task is pushed to Google Tasks
+  googleTaskListId: text("google_task_list_id"),
+  googleTaskUserId: varchar("google_task_user_id").references(() => users.id), // user whose Google Tasks holds it
   createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const chatMessages = pgTable("chat_messages", {
@@ -71,11 +87,254 @@ export const meetingDrafts = pgTable("meeting_drafts", {
   location: varchar("location"),
   attendees: json("attendees"),
   agenda: text("agenda"),
+  agendaDocument: json("agenda_document").$type<AgendaDocument>(),
   status: varchar("status").default("draft"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+export const userProfiles = pgTable("user_profiles", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull().unique(),
+  timezone: text("timezone").notNull().default("UTC"), // IANA timezone, e.g. Europe/Berlin
+  workingDays: json("working_days").$type<number[]>().default([1, 2, 3, 4, 5]), // 0 = Sunday, 6 = Saturday
+  workingHoursStart: integer("working_hours_start").notNull().default(9), // hour of day in the profile timezone
+  workingHoursEnd: integer("working_hours_end").notNull().default(17),
+  preferredMeetingLengths: json("preferred_meeting_lengths").$type<number[]>().default([30, 60]), // minutes
+  googleTasksSyncEnabled: boolean("google_tasks_sync_enabled").notNull().default(false),
+  agendaReminderHours: integer("agenda_reminder_hours").default(24), // null turns agenda reminders off
+  taskDigestEnabled: boolean("task_digest_enabled").notNull().default(true),
+  busyCalendarIds: json("busy_calendar_ids").$type<string[]>().default(["primary"]), // Google calendars counted as busy time
+  // Calendar new meetings go to, remembered per meeting type
+  meetingTypeCalendars: json("meeting_type_calendars").$type<MeetingTypeCalendars>().default({}),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const scheduledJobs = pgTable("scheduled_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  type: text("type").notNull(), // agenda_reminder, task_digest, overdue_task_nudge
+  dedupeKey: text("dedupe_key").notNull().unique(), // keeps planners from scheduling the same job twice
+  runAt: timestamp("run_at").notNull(),
+  status: text("status").notNull().default("scheduled"), // scheduled, running, completed, failed, cancelled
+  payload: json("payload").$type<Record<string, any>>().default({}),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  lastError: text("last_error"),
+  lockedAt: timestamp("locked_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Agenda and minutes emails waiting to be sent. Workers lease a job while sending it,
+// so only one server instance works on a job at a time; a lapsed lease is taken over.
+export const emailJobs = pgTable("email_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  type: text("type").$type<'agenda' | 'minutes'>().notNull(),
+  meetingId: text("meeting_id").notNull(),
+  attendees: json("attendees").$type<EmailJobRecipient[]>().notNull(),
+  meetingData: json("meeting_data").$type<Record<string, any>>().notNull(),
+  agendaContent: json("agenda_content").$type<AgendaDocument>(),
+  minutes: json("minutes").$type<MeetingMinutes>(),
+  templateVersion: text("template_version").notNull(), // changes whenever what recipients receive changes
+  status: text("status").$type<EmailJobStatus>().notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0), // automatic send attempts since the job was last queued
+  retryCount: integer("retry_count").notNull().default(0), // manual retries
+  maxRetries: integer("max_retries").notNull().default(3),
+  retryConfig: json("retry_config").$type<EmailJobRetryConfig>().notNull(),
+  errors: json("errors").$type<string[]>().notNull().default([]),
+  availableAt: timestamp("available_at").notNull().defaultNow(),
+  leaseOwner: text("lease_owner"),
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  deadLetteredAt: timestamp("dead_lettered_at"), // gave up; waits for the organizer to requeue it
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One email to one recipient. The idempotency key covers the meeting, recipient and template
+// version, so retries, restarts and repeated sends never email the same content twice.
+export const emailDeliveries = pgTable("email_deliveries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  jobId: varchar("job_id").references(() => emailJobs.id, { onDelete: "set null" }), // job that first queued it
+  idempotencyKey: text("idempotency_key").notNull().unique(),
+  recipientEmail: text("recipient_email").notNull(),
+  status: text("status").$type<EmailDeliveryStatus>().notNull().default("pending"),
+  messageId: text("message_id"),
+  error: text("error"),
+  attempts: integer("attempts").notNull().default(0),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Signed links that let meeting attendees see and update their tasks without an account.
+// The token carries the link ID; a revoked or missing row invalidates the token.
+export const taskAccessLinks = pgTable("task_access_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(), // organizer who issued the link
+  meetingId: text("meeting_id").notNull(), // local or Google event ID, as used by the task board
+  meetingTitle: text("meeting_title"),
+  attendeeEmail: text("attendee_email").notNull(),
+  expiresAt: timestamp("expires_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  lastUsedAt: timestamp("last_used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Collaborative agenda editing sessions. The agenda text and its revision live here so
+// a server restart resumes where editors left off; presence (cursors) is kept in memory.
+export const collaborativeSessions = pgTable("collaborative_sessions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  agendaId: text("agenda_id").notNull(),
+  ownerId: varchar("owner_id").references(() => users.id).notNull(),
+  content: text("content").notNull().default(""),
+  revision: integer("revision").notNull().default(0), // number of changes applied to content
+  participants: json("participants").$type<CollaborativeParticipant[]>().notNull().default([]),
+  settings: json("settings").$type<CollaborativeSessionSettings>().notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  lastActivity: timestamp("last_activity").defaultNow(),
+  endedAt: timestamp("ended_at"),
+});
+
+// Every change applied to a collaborative session, in revision order
+export const agendaChanges = pgTable("agenda_changes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").references(() => collaborativeSessions.id, { onDelete: "cascade" }).notNull(),
+  agendaId: text("agenda_id").notNull(),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  userName: text("user_name").notNull(),
+  revision: integer("revision").notNull(), // session revision this change produced
+  changeType: text("change_type").notNull(), // insert, delete, replace
+  operations: json("operations").$type<AgendaTextOperation[]>().notNull(), // as applied, after transformation
+  position: json("position").$type<{ line: number; column: number }>().notNull(),
+  content: text("content"),
+  length: integer("length"),
+  previousContent: text("previous_content"),
+  clientId: text("client_id"), // lets the submitting editor recognise its own change
+  metadata: json("metadata").$type<AgendaChangeMetadata>(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("agenda_changes_session_revision_unique").on(table.sessionId, table.revision),
+]);
+
+// Saved versions of an agenda. Restoring an old version adds a new one, so history is never rewritten.
+export const agendaVersions = pgTable("agenda_versions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  agendaId: text("agenda_id").notNull(),
+  version: integer("version").notNull(), // 1-based, per agenda
+  title: text("title").notNull(),
+  content: text("content").notNull(),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  authorName: text("author_name").notNull(),
+  changeType: text("change_type").$type<AgendaVersionChangeType>().notNull(),
+  changeDescription: text("change_description"),
+  restoredFromVersion: integer("restored_from_version"), // set on versions created by a restore
+  metadata: json("metadata").$type<AgendaVersionMetadata>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique("agenda_versions_agenda_version_unique").on(table.agendaId, table.version),
+]);
+
+// Per-user calendar sync preferences
+export const calendarSyncSettings = pgTable("calendar_sync_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull().unique(),
+  autoSync: boolean("auto_sync").notNull().default(true),
+  syncOnAgendaUpdate: boolean("sync_on_agenda_update").notNull().default(true),
+  syncOnVersionChange: boolean("sync_on_version_change").notNull().default(false),
+  includeAgendaInDescription: boolean("include_agenda_in_description").notNull().default(true),
+  updateEventTitle: boolean("update_event_title").notNull().default(false),
+  notifyOnSync: boolean("notify_on_sync").notNull().default(false),
+  lastSyncAt: timestamp("last_sync_at"),
+  syncErrors: integer("sync_errors").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Where incremental sync left off for each of a user's calendars
+export const calendarSyncStates = pgTable("calendar_sync_states", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  calendarId: text("calendar_id").notNull().default("primary"),
+  syncToken: text("sync_token"), // Google Calendar nextSyncToken; null forces a full sync
+  retryEvents: json("retry_events").$type<CalendarRetryEvent[]>().notNull().default([]), // pulled changes that failed to reconcile
+  lastSyncedAt: timestamp("last_synced_at"),
+  lastFullSyncAt: timestamp("last_full_sync_at"),
+}, (table) => [
+  unique("calendar_sync_states_user_calendar_unique").on(table.userId, table.calendarId),
+]);
+
+// Changes pushed to or pulled from Google Calendar
+export const calendarSyncUpdates = pgTable("calendar_sync_updates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  agendaId: text("agenda_id").notNull(),
+  calendarEventId: text("calendar_event_id").notNull(),
+  direction: text("direction").$type<'push' | 'pull'>().notNull().default("push"),
+  updateType: text("update_type").$type<'created' | 'updated' | 'deleted'>().notNull(),
+  changes: json("changes").$type<CalendarSyncChange[]>().notNull().default([]),
+  syncStatus: text("sync_status").$type<'pending' | 'success' | 'failed' | 'skipped'>().notNull().default("pending"),
+  errorMessage: text("error_message"),
+  createdAt: timestamp("created_at").defaultNow(),
+  syncedAt: timestamp("synced_at"),
+});
+
+// A field changed both here and in Google Calendar since the last sync, waiting for the organizer
+export const calendarSyncConflicts = pgTable("calendar_sync_conflicts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  eventId: varchar("event_id").references(() => events.id, { onDelete: "cascade" }).notNull(),
+  googleEventId: text("google_event_id").notNull(),
+  field: text("field").$type<CalendarSyncField>().notNull(),
+  baseValue: json("base_value").$type<CalendarFieldValue>(),
+  localValue: json("local_value").$type<CalendarFieldValue>(),
+  remoteValue: json("remote_value").$type<CalendarFieldValue>(),
+  status: text("status").$type<'open' | 'resolved'>().notNull().default("open"),
+  resolution: text("resolution").$type<CalendarConflictResolution>(),
+  detectedAt: timestamp("detected_at").defaultNow(),
+  resolvedAt: timestamp("resolved_at"),
+});
+
+// External calendars (ICS feeds and uploaded .ics files) counted as busy time
+export const calendarFeeds = pgTable("calendar_feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  url: text("url"), // null for uploaded files, which never refresh
+  enabled: boolean("enabled").notNull().default(true),
+  refreshIntervalMinutes: integer("refresh_interval_minutes").notNull().default(60),
+  content: text("content"), // last successfully fetched or uploaded iCalendar data
+  etag: text("etag"),
+  eventCount: integer("event_count").notNull().default(0),
+  lastFetchedAt: timestamp("last_fetched_at"),
+  nextRefreshAt: timestamp("next_refresh_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Tokens and estimated cost of each AI call, charged to the user and team it ran for
+export const aiUsage = pgTable("ai_usage", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id).notNull(),
+  email: text("email"),
+  team: text("team"), // domain of the user's email address; null for public email providers
+  functionName: text("function_name").notNull(),
+  provider: text("provider").notNull(),
+  tokens: integer("tokens").notNull(),
+  cost: real("cost").notNull().default(0), // estimated USD
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("ai_usage_user_created_idx").on(table.userId, table.createdAt),
+  index("ai_usage_team_created_idx").on(table.team, table.createdAt),
+]);
+
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users);
 export const insertEventSchema = createInsertSchema(events);
@@ -83,6 +342,98 @@ export const insertTaskSchema = createInsertSchema(tasks);
 export const insertChatMessageSchema = createInsertSchema(chatMessages);
 export const insertConversationContextSchema = createInsertSchema(conversationContexts);
 export const insertMeetingDraftSchema = createInsertSchema(meetingDrafts);
+export const insertUserProfileSchema = createInsertSchema(userProfiles);
+export const insertScheduledJobSchema = createInsertSchema(scheduledJobs);
+export const insertTaskAccessLinkSchema = createInsertSchema(taskAccessLinks);
+export const insertCollaborativeSessionSchema = createInsertSchema(collaborativeSessions);
+export const insertAgendaChangeSchema = createInsertSchema(agendaChanges);
+export const insertAgendaVersionSchema = createInsertSchema(agendaVersions);
+export const insertEmailJobSchema = createInsertSchema(emailJobs);
+export const insertEmailDeliverySchema = createInsertSchema(emailDeliveries);
+export const insertCalendarSyncSettingsSchema = createInsertSchema(calendarSyncSettings);
+export const insertCalendarSyncUpdateSchema = createInsertSchema(calendarSyncUpdates);
+export const insertCalendarSyncConflictSchema = createInsertSchema(calendarSyncConflicts);
+export const insertCalendarFeedSchema = createInsertSchema(calendarFeeds);
+
+// Which Google calendars count as busy time, and where new meetings of each type are created
+export const updateCalendarPreferencesSchema = z.object({
+  busyCalendarIds: z.array(z.string().min(1)).min(1, 'Choose at least one calendar').max(50).optional(),
+  meetingTypeCalendars: z.object({
+    online: z.string().min(1).optional(),
+    physical: z.string().min(1).optional(),
+  }).strict().optional(),
+}).strict();
+
+// Fields a user may change on their own profile
+export const updateUserProfileSchema = z.object({
+  timezone: z.string().refine(timeZone => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }, { message: 'Invalid IANA timezone' }).optional(),
+  workingDays: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+  workingHoursStart: z.number().int().min(0).max(23).optional(),
+  workingHoursEnd: z.number().int().min(1).max(24).optional(),
+  preferredMeetingLengths: z.array(z.number().int().min(5).max(480)).min(1).optional(),
+  googleTasksSyncEnabled: z.boolean().optional(),
+  agendaReminderHours: z.number().int().min(1).max(168).nullable().optional(),
+  taskDigestEnabled: z.boolean().optional(),
+  ...updateCalendarPreferencesSchema.shape,
+}).refine(
+  data => data.workingHoursStart === undefined || data.workingHoursEnd === undefined || data.workingHoursStart < data.workingHoursEnd,
+  { message: 'Working hours must end after they start', path: ['workingHoursEnd'] }
+);
+
+export const taskStatusSchema = z.enum(['pending', 'in_progress', 'completed']);
+export const taskPrioritySchema = z.enum(['high', 'medium', 'low']);
+
+// Fields a user may set when creating a task
+export const createTaskSchema = z.object({
+  title: z.string().min(1, 'Title is required'),
+  description: z.string().optional(),
+  eventId: z.string().optional(),
+  assignee: z.string().min(1).default('Unassigned'),
+  assigneeEmail: z.string().email().optional(),
+  deadline: z.coerce.date().optional(),
+  status: taskStatusSchema.default('pending'),
+  priority: taskPrioritySchema.default('medium'),
+  category: z.string().min(1).default('general'),
+  estimatedHours: z.number().positive().max(1000).optional(),
+});
+
+// Fields a user may change on a task; null clears optional fields
+export const updateTaskSchema = z.object({
+  title: z.string().min(1).optional(),
+  description: z.string().nullable().optional(),
+  assignee: z.string().min(1).optional(),
+  assigneeEmail: z.string().email().nullable().optional(),
+  deadline: z.coerce.date().nullable().optional(),
+  status: taskStatusSchema.optional(),
+  priority: taskPrioritySchema.optional(),
+  category: z.string().min(1).optional(),
+  estimatedHours: z.number().positive().max(1000).nullable().optional(),
+}).refine(data => Object.keys(data).length > 0, { message: 'No changes provided' });
+
+// Query string accepted by GET /api/tasks
+export const taskQuerySchema = z.object({
+  status: z.string().optional().transform(value => value ? value.split(',') : undefined)
+    .pipe(z.array(taskStatusSchema).optional()),
+  priority: z.string().optional().transform(value => value ? value.split(',') : undefined)
+    .pipe(z.array(taskPrioritySchema).optional()),
+  category: z.string().optional(),
+  eventId: z.string().optional(),
+  assignee: z.string().optional(), // matches assignee name or email
+  search: z.string().optional(),
+  dueBefore: z.coerce.date().optional(),
+  dueAfter: z.coerce.date().optional(),
+  sortBy: z.enum(['deadline', 'priority', 'status', 'title', 'createdAt', 'updatedAt']).default('createdAt'),
+  sortOrder: z.enum(['asc', 'desc']).default('desc'),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
 
 // Types
 export type User = typeof users.$inferSelect;
@@ -97,6 +448,267 @@ export type ConversationContext = typeof conversationContexts.$inferSelect;
 export type InsertConversationContext = z.infer<typeof insertConversationContextSchema>;
 export type MeetingDraft = typeof meetingDrafts.$inferSelect;
 export type InsertMeetingDraft = z.infer<typeof insertMeetingDraftSchema>;
+export type UserProfile = typeof userProfiles.$inferSelect;
+export type InsertUserProfile = z.infer<typeof insertUserProfileSchema>;
+export type UpdateUserProfile = z.infer<typeof updateUserProfileSchema>;
+export type UpdateCalendarPreferences = z.infer<typeof updateCalendarPreferencesSchema>;
+export type ScheduledJob = typeof scheduledJobs.$inferSelect;
+export type InsertScheduledJob = z.infer<typeof insertScheduledJobSchema>;
+export type TaskAccessLink = typeof taskAccessLinks.$inferSelect;
+export type InsertTaskAccessLink = z.infer<typeof insertTaskAccessLinkSchema>;
+export type CollaborativeSessionRecord = typeof collaborativeSessions.$inferSelect;
+export type InsertCollaborativeSession = z.infer<typeof insertCollaborativeSessionSchema>;
+export type AgendaChangeRecord = typeof agendaChanges.$inferSelect;
+export type InsertAgendaChange = z.infer<typeof insertAgendaChangeSchema>;
+export type AgendaVersionRecord = typeof agendaVersions.$inferSelect;
+export type InsertAgendaVersion = z.infer<typeof insertAgendaVersionSchema>;
+export type EmailJobRecord = typeof emailJobs.$inferSelect;
+export type InsertEmailJob = z.infer<typeof insertEmailJobSchema>;
+export type EmailDeliveryRecord = typeof emailDeliveries.$inferSelect;
+export type InsertEmailDelivery = z.infer<typeof insertEmailDeliverySchema>;
+export type CalendarSyncSettingsRecord = typeof calendarSyncSettings.$inferSelect;
+export type InsertCalendarSyncSettings = z.infer<typeof insertCalendarSyncSettingsSchema>;
+export type CalendarSyncState = typeof calendarSyncStates.$inferSelect;
+export type CalendarSyncUpdate = typeof calendarSyncUpdates.$inferSelect;
+export type InsertCalendarSyncUpdate = z.infer<typeof insertCalendarSyncUpdateSchema>;
+export type CalendarSyncConflict = typeof calendarSyncConflicts.$inferSelect;
+export type InsertCalendarSyncConflict = z.infer<typeof insertCalendarSyncConflictSchema>;
+export type CalendarFeed = typeof calendarFeeds.$inferSelect;
+export type InsertCalendarFeed = z.infer<typeof insertCalendarFeedSchema>;
+export type AIUsageRecord = typeof aiUsage.$inferSelect;
+export type CreateTaskInput = z.infer<typeof createTaskSchema>;
+export type UpdateTaskInput = z.infer<typeof updateTaskSchema>;
+export type TaskQuery = z.infer<typeof taskQuerySchema>;
+
+export const scheduledJobTypeSchema = z.enum(['agenda_reminder', 'task_digest', 'overdue_task_nudge']);
+export const scheduledJobStatusSchema = z.enum(['scheduled', 'running', 'completed', 'failed', 'cancelled']);
+
+export const scheduledJobQuerySchema = z.object({
+  status: z.string().optional().transform(value => value ? value.split(',') : undefined)
+    .pipe(z.array(scheduledJobStatusSchema).optional()),
+  type: scheduledJobTypeSchema.optional(),
+});
+
+export type ScheduledJobType = z.infer<typeof scheduledJobTypeSchema>;
+export type ScheduledJobStatus = z.infer<typeof scheduledJobStatusSchema>;
+export type ScheduledJobQuery = z.infer<typeof scheduledJobQuerySchema>;
+
+// Organizer request to issue (or reissue) attendee task links for a meeting
+export const issueTaskAccessLinksSchema = z.object({
+  attendeeEmails: z.array(z.string().email()).min(1, 'At least one attendee is required'),
+  meetingTitle: z.string().optional(),
+  expiresInDays: z.number().int().min(1).max(90).optional(),
+});
+
+// Status change an attendee may make through their task link
+export const attendeeTaskUpdateSchema = z.object({
+  status: taskStatusSchema,
+});
+
+export type IssueTaskAccessLinksInput = z.infer<typeof issueTaskAccessLinksSchema>;
+export type AttendeeTaskUpdate = z.infer<typeof attendeeTaskUpdateSchema>;
+
+// Plain-text edit on a collaborative agenda, addressed by character offset
+export const agendaTextOperationSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('insert'), index: z.number().int().min(0), text: z.string().min(1) }),
+  z.object({ type: z.literal('delete'), index: z.number().int().min(0), length: z.number().int().min(1) }),
+]);
+
+export const agendaChangeMetadataSchema = z.object({
+  source: z.enum(['user', 'ai', 'template', 'system']),
+  changeSize: z.enum(['small', 'medium', 'large']),
+  requiresApproval: z.boolean().optional(),
+});
+
+// Edits made on top of `baseRevision`; the server transforms them past anything newer
+export const submitAgendaOperationsSchema = z.object({
+  sessionId: z.string().min(1),
+  baseRevision: z.number().int().min(0),
+  operations: z.array(agendaTextOperationSchema).min(1).max(100),
+  clientId: z.string().max(100).optional(),
+  metadata: agendaChangeMetadataSchema.optional(),
+});
+
+const cursorPositionSchema = z.object({
+  line: z.number().int().min(0),
+  column: z.number().int().min(0),
+});
+
+// Messages editors send over the collaborative agenda WebSocket
+export const collaborativeClientMessageSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('join'), sessionId: z.string().min(1), sinceRevision: z.number().int().min(0).optional() }),
+  z.object({ type: z.literal('leave'), sessionId: z.string().min(1) }),
+  submitAgendaOperationsSchema.extend({ type: z.literal('operations') }),
+  cursorPositionSchema.extend({ type: z.literal('cursor'), sessionId: z.string().min(1) }),
+  z.object({
+    type: z.literal('selection'),
+    sessionId: z.string().min(1),
+    startLine: z.number().int().min(0),
+    startColumn: z.number().int().min(0),
+    endLine: z.number().int().min(0),
+    endColumn: z.number().int().min(0),
+  }),
+]);
+
+export interface CollaborativeParticipant {
+  userId: string;
+  email: string;
+  name: string;
+  role: 'owner' | 'editor' | 'viewer';
+  color: string;
+  joinedAt: string; // ISO timestamp
+}
+
+export interface CollaborativeSessionSettings {
+  allowRealTimeEditing: boolean;
+  requireApprovalForMajorChanges: boolean;
+  notifyOnChanges: boolean;
+}
+
+export type AgendaTextOperation = z.infer<typeof agendaTextOperationSchema>;
+export type AgendaChangeMetadata = z.infer<typeof agendaChangeMetadataSchema>;
+export type SubmitAgendaOperationsInput = z.infer<typeof submitAgendaOperationsSchema>;
+export type CollaborativeClientMessage = z.infer<typeof collaborativeClientMessageSchema>;
+
+export const agendaVersionChangeTypeSchema = z.enum(['created', 'edited', 'auto_saved', 'enhanced', 'restored']);
+
+export const agendaVersionMetadataSchema = z.object({
+  wordCount: z.number().int().min(0),
+  qualityScore: z.number().min(0).max(100).optional(),
+  templateUsed: z.string().optional(),
+  generationMethod: z.enum(['ai', 'template', 'manual', 'enhanced']),
+});
+
+// Body accepted by POST /api/agenda/versions/:agendaId; word count is always recomputed
+export const createAgendaVersionSchema = z.object({
+  content: z.string().min(1, 'Content is required'),
+  title: z.string().min(1, 'Title is required'),
+  changeType: agendaVersionChangeTypeSchema.exclude(['restored']).default('edited'),
+  changeDescription: z.string().max(500).optional(),
+  metadata: agendaVersionMetadataSchema.omit({ wordCount: true }).partial().optional(),
+});
+
+export const restoreAgendaVersionSchema = z.object({
+  changeDescription: z.string().max(500).optional(),
+});
+
+export type AgendaVersionChangeType = z.infer<typeof agendaVersionChangeTypeSchema>;
+export type AgendaVersionMetadata = z.infer<typeof agendaVersionMetadataSchema>;
+export type CreateAgendaVersionInput = z.infer<typeof createAgendaVersionSchema>;
+export type RestoreAgendaVersionInput = z.infer<typeof restoreAgendaVersionSchema>;
+
+export type EmailJobStatus = 'pending' | 'in_progress' | 'completed' | 'failed' | 'partially_failed';
+
+// sending: handed to the mail provider; unknown: the sender stopped mid-send, so it may or may not have gone out
+export type EmailDeliveryStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'unknown';
+
+// An attendee as validated when the job was queued
+export interface EmailJobRecipient {
+  email: string;
+  isValid: boolean;
+  exists: boolean;
+  firstName?: string;
+  lastName?: string;
+  profilePicture?: string;
+  isGoogleUser: boolean;
+}
+
+export interface EmailJobRetryConfig {
+  retryDelayMs: number;
+  exponentialBackoff: boolean;
+  retryableErrors: string[];
+}
+
+export const emailJobQuerySchema = z.object({
+  deadLettered: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type EmailJobQuery = z.infer<typeof emailJobQuerySchema>;
+
+// Fields a user may change on their calendar sync settings
+export const updateCalendarSyncSettingsSchema = z.object({
+  autoSync: z.boolean().optional(),
+  syncOnAgendaUpdate: z.boolean().optional(),
+  syncOnVersionChange: z.boolean().optional(),
+  includeAgendaInDescription: z.boolean().optional(),
+  updateEventTitle: z.boolean().optional(),
+  notifyOnSync: z.boolean().optional(),
+}).strict();
+
+export const calendarConflictResolutionSchema = z.enum(['keep_local', 'accept_remote']);
+
+export const resolveCalendarSyncConflictSchema = z.object({
+  resolution: calendarConflictResolutionSchema,
+});
+
+// Target calendar per meeting type; missing types use the primary calendar
+export type MeetingTypeCalendars = Partial<Record<'online' | 'physical', string>>;
+
+// What both sides last agreed on for a synced event
+export interface CalendarEventSnapshot {
+  title: string;
+  description: string;
+  time: { startTime: string; endTime: string }; // ISO timestamps
+  attendees: string[]; // lower-cased and sorted
+}
+
+/**
+ * A Google Calendar event as seen by the sync. Cancelled events in an incremental
+ * sync only carry their id and status.
+ */
+export interface CalendarEventData {
+  id: string;
+  status: 'confirmed' | 'tentative' | 'cancelled';
+  title: string;
+  description: string;
+  startTime: string;
+  endTime: string;
+  attendees: string[];
+  updated?: string;
+}
+
+// A pulled change kept for the next pulls after it failed to reconcile
+export interface CalendarRetryEvent {
+  event: CalendarEventData;
+  attempts: number;
+}
+
+export type CalendarSyncField = keyof CalendarEventSnapshot;
+export type CalendarFieldValue = CalendarEventSnapshot[CalendarSyncField];
+
+export interface CalendarSyncChange {
+  field: string;
+  oldValue?: string;
+  newValue?: string;
+}
+
+// Subscribe to an ICS feed by URL, or upload the contents of an .ics file
+export const createCalendarFeedSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  url: z.string().trim()
+    .transform(url => url.replace(/^webcals?:\/\//i, 'https://'))
+    .pipe(z.string().url('Feed URL must be a valid URL')
+      .refine(url => /^https?:\/\//i.test(url), 'Feed URL must use http or https')
+      // The server also refuses private and loopback addresses when it fetches the feed
+      .refine(url => !/^localhost$|\.localhost$/i.test(new URL(url).hostname), 'Feed URL must point to a public address'))
+    .optional(),
+  content: z.string().min(1).max(5 * 1024 * 1024, 'Calendar file is too large').optional(),
+  refreshIntervalMinutes: z.number().int().min(15).max(24 * 60).optional(),
+}).refine(feed => Boolean(feed.url) !== Boolean(feed.content), {
+  message: 'Provide either a feed URL or the contents of an .ics file',
+});
+
+export const updateCalendarFeedSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  enabled: z.boolean().optional(),
+  refreshIntervalMinutes: z.number().int().min(15).max(24 * 60).optional(),
+}).strict();
+
+export type UpdateCalendarSyncSettings = z.infer<typeof updateCalendarSyncSettingsSchema>;
+export type CreateCalendarFeedInput = z.infer<typeof createCalendarFeedSchema>;
+export type UpdateCalendarFeedInput = z.infer<typeof updateCalendarFeedSchema>;
+export type CalendarConflictResolution = z.infer<typeof calendarConflictResolutionSchema>;
 
 // Enhanced chat message types for UI blocks
 export const attendeeSchema = z.object({
@@ -142,6 +754,89 @@ export const attendeeDataSchema = z.object({
   isRequired: z.boolean().default(true),
 });
 
+// Changes to an existing event, as carried by the edit approval block
+export const meetingEditChangesSchema = z.object({
+  title: z.string().min(1).optional(),
+  description: z.string().optional(),
+  startTime: z.string().datetime().optional(), // ISO 8601
+  endTime: z.string().datetime().optional(), // ISO 8601
+  location: z.string().optional(),
+  attendees: z.array(z.string().email()).optional(), // full attendee list after the edit
+});
+
+export type MeetingEditChangesInput = z.infer<typeof meetingEditChangesSchema>;
+
+// Meeting room or other bookable resource, from Google Workspace resource calendars or local config
+export const meetingRoomSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  calendarId: z.string().optional(), // resource calendar email; rooms without one cannot be checked or booked in Google
+  capacity: z.number().int().positive().optional(),
+  equipment: z.array(z.string()).default([]),
+  building: z.string().optional(),
+  floor: z.string().optional(),
+  source: z.enum(['google', 'config']),
+});
+
+// Room offered in the meeting_type_selection follow-up block
+export const meetingRoomOptionSchema = meetingRoomSchema.extend({
+  availabilityKnown: z.boolean(), // false when the room has no calendar to check
+});
+
+export type MeetingRoom = z.infer<typeof meetingRoomSchema>;
+export type MeetingRoomOption = z.infer<typeof meetingRoomOptionSchema>;
+
+// Query for GET /api/meeting-rooms; with a time window only rooms free for it are returned
+export const meetingRoomQuerySchema = z.object({
+  startTime: z.coerce.date().optional(),
+  endTime: z.coerce.date().optional(),
+  headcount: z.coerce.number().int().min(1).max(1000).default(1),
+}).refine(query => !query.startTime === !query.endTime, {
+  message: 'startTime and endTime must be given together',
+}).refine(query => !query.startTime || !query.endTime || query.endTime > query.startTime, {
+  message: 'endTime must be after startTime',
+});
+
+// Structured agenda shared by the generator, editors, emails and calendar descriptions.
+// Bump AGENDA_DOCUMENT_VERSION and add a migration in shared/agendaDocument.ts when the shape changes.
+export const AGENDA_DOCUMENT_VERSION = 1;
+
+export const agendaLinkSchema = z.object({
+  title: z.string().min(1),
+  url: z.string().url(),
+});
+
+export const agendaTopicSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  duration: z.number().int().min(0), // timebox in minutes
+  description: z.string().optional(),
+  presenter: z.string().optional(),
+  links: z.array(agendaLinkSchema).default([]),
+});
+
+export const agendaActionItemSchema = z.object({
+  id: z.string().min(1),
+  task: z.string().min(1),
+  assignee: z.string().optional(),
+  deadline: z.string().optional(),
+  priority: z.enum(['high', 'medium', 'low']).default('medium'),
+});
+
+export const agendaDocumentSchema = z.object({
+  version: z.literal(AGENDA_DOCUMENT_VERSION),
+  title: z.string(),
+  duration: z.number().int().min(0), // minutes
+  purpose: z.string().optional(),
+  topics: z.array(agendaTopicSchema).default([]),
+  actionItems: z.array(agendaActionItemSchema).default([]),
+});
+
+export type AgendaLink = z.infer<typeof agendaLinkSchema>;
+export type AgendaTopicItem = z.infer<typeof agendaTopicSchema>;
+export type AgendaActionItem = z.infer<typeof agendaActionItemSchema>;
+export type AgendaDocument = z.infer<typeof agendaDocumentSchema>;
+
 export const uiBlockSchema = z.discriminatedUnion('type', [
   z.object({
     type: z.literal('meeting_link_choice'),
@@ -184,6 +879,7 @@ export const uiBlockSchema = z.discriminatedUnion('type', [
       meetingId: z.string(),
       currentType: z.enum(['physical', 'online']).optional(),
       currentLocation: z.string().optional(),
+      rooms: z.array(meetingRoomOptionSchema).optional(), // free rooms offered once the time and attendees are known
       options: z.array(z.object({
         value: z.enum(['physical', 'online']),
         label: z.string(),
@@ -215,6 +911,51 @@ export const uiBlockSchema = z.discriminatedUnion('type', [
       location: z.string().optional(),
       attendees: z.array(attendeeDataSchema),
       agenda: z.string().optional(),
+      calendarId: z.string().optional(), // calendar the meeting will be created in
+      calendars: z.array(z.object({ id: z.string(), summary: z.string() })).optional(), // writable calendars the organizer can pick from
+      recurrence: z.object({
+        rrule: z.string(),
+        summary: z.string(),
+        occurrencesChecked: z.number(),
+        conflictingOccurrences: z.array(z.object({
+          startTime: z.string(),
+          endTime: z.string(),
+          conflicts: z.array(z.string()),
+        })),
+      }).optional(),
+    }),
+  }),
+  z.object({
+    type: z.literal('time_slot_selection'),
+    data: z.object({
+      meetingId: z.string(),
+      requestedStartTime: z.string(),
+      attendeesChecked: z.array(z.string()),
+      unavailableCalendars: z.array(z.string()).optional(),
+      slots: z.array(z.object({
+        startTime: z.string(),
+        endTime: z.string(),
+        requiredConflicts: z.array(z.string()),
+        optionalConflicts: z.array(z.string()),
+        outsideWorkingHours: z.array(z.string()).optional(),
+      })),
+    }),
+  }),
+  z.object({
+    type: z.literal('meeting_edit_approval'),
+    data: z.object({
+      eventId: z.string(),
+      eventTitle: z.string(),
+      diff: z.array(z.object({
+        field: z.enum(['title', 'description', 'time', 'location', 'attendees']),
+        label: z.string(),
+        before: z.string(),
+        after: z.string(),
+      })),
+      changes: meetingEditChangesSchema,
+      conflicts: z.array(z.string()),
+      warnings: z.array(z.string()),
+      timeChanged: z.boolean(),
     }),
   }),
   z.object({
@@ -222,6 +963,7 @@ export const uiBlockSchema = z.discriminatedUnion('type', [
     data: z.object({
       meetingId: z.string(),
       initialAgenda: z.string(),
+      initialDocument: agendaDocumentSchema.optional(),
       meetingTitle: z.string(),
       duration: z.number(),
       isApprovalMode: z.boolean().optional(),
@@ -262,10 +1004,98 @@ export const createEventRequestSchema = z.object({
   description: z.string().optional(),
   attendees: z.array(attendeeSchema),
   createMeetLink: z.boolean().default(false),
+  recurrenceRule: z.string().regex(/^RRULE:/).optional(), // RFC 5545 RRULE line
 });
 
 export type CreateEventRequest = z.infer<typeof createEventRequestSchema>;
 
+export const updateEventRequestSchema = z.object({
+  title: z.string().min(1).optional(),
+  description: z.string().optional(),
+  startTime: z.string().datetime().optional(), // ISO 8601
+  endTime: z.string().datetime().optional(), // ISO 8601
+  location: z.string().optional(),
+  addAttendees: z.array(z.string().email()).optional(),
+  removeAttendees: z.array(z.string().email()).optional(),
+  ignoreConflicts: z.boolean().default(false),
+  resendAgenda: z.boolean().default(true),
+});
+
+export type UpdateEventRequest = z.infer<typeof updateEventRequestSchema>;
+
+// Meeting IDs become part of transcript and summary file names, so only ID characters are allowed
+export const meetingIdSchema = z.string().min(1).max(256).regex(/^[A-Za-z0-9_-]+$/, 'Invalid meeting ID');
+
+export const transcriptUploadSchema = z.object({
+  meetingId: meetingIdSchema,
+  content: z.string().min(1, 'Transcript content is required'),
+  fileName: z.string().optional(),
+  format: z.enum(['vtt', 'srt', 'meet', 'text']).optional(),
+  meetingData: z.object({
+    title: z.string().optional(),
+    startTime: z.string().optional(),
+    endTime: z.string().optional(),
+    type: z.string().optional(),
+    attendees: z.array(z.union([
+      z.string().email(),
+      z.object({
+        email: z.string().email(),
+        name: z.string().optional(),
+        firstName: z.string().optional(),
+        lastName: z.string().optional(),
+      })
+    ])).optional(),
+  }).optional(),
+});
+
+export type TranscriptUploadRequest = z.infer<typeof transcriptUploadSchema>;
+
+export const minutesActionItemSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().optional(),
+  assignee: z.string().optional(),
+  assigneeEmail: z.string().email().optional(),
+  dueDate: z.coerce.date().optional(),
+  priority: taskPrioritySchema.default('medium'),
+});
+
+export const meetingMinutesSchema = z.object({
+  title: z.string().min(1),
+  summary: z.string(),
+  keyPoints: z.array(z.string()).default([]),
+  decisions: z.array(z.string()).default([]),
+  actionItems: z.array(minutesActionItemSchema).default([]),
+  organizerNote: z.string().optional(),
+});
+
+// Organizer edits to a minutes draft before it is sent
+export const updateMeetingMinutesSchema = z.object({
+  title: z.string().min(1).optional(),
+  summary: z.string().optional(),
+  keyPoints: z.array(z.string()).optional(),
+  decisions: z.array(z.string()).optional(),
+  actionItems: z.array(minutesActionItemSchema).optional(),
+  organizerNote: z.string().optional(),
+  recipients: z.array(z.object({
+    email: z.string().email(),
+    name: z.string().optional(),
+  })).optional(),
+}).refine(changes => Object.keys(changes).length > 0, {
+  message: 'No changes provided',
+});
+
+export const sendMinutesRequestSchema = z.object({
+  meetingId: meetingIdSchema,
+  retryConfig: z.object({
+    maxRetries: z.number().int().min(0).max(5).optional(),
+    retryDelayMs: z.number().int().min(0).optional(),
+  }).optional(),
+});
+
+export type MinutesActionItem = z.infer<typeof minutesActionItemSchema>;
+export type MeetingMinutes = z.infer<typeof meetingMinutesSchema>;
+export type UpdateMeetingMinutesInput = z.infer<typeof updateMeetingMinutesSchema>;
+
 // New schemas for conversational meeting scheduler
 export const conversationMessageSchema = z.object({
   id: z.string(),
@@ -287,6 +1117,12 @@ export const conversationMessageSchema = z.object({
   }).optional(),
 });
 
+// Recurrence stored on meeting data for repeating meetings
+export const meetingRecurrenceSchema = z.object({
+  rrule: z.string(), // e.g. RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=TU
+  summary: z.string(), // e.g. "Every 2 weeks on Tuesday"
+});
+
 export const meetingDataSchema = z.object({
   id: z.string().optional(),
   title: z.string().optional(),
@@ -302,8 +1138,12 @@ export const meetingDataSchema = z.object({
     isValidated: z.boolean().default(false),
     isRequired: z.boolean().default(true),
   })).default([]),
-  agenda: z.string().optional(),
+  agenda: z.string().optional(), // markdown rendering of agendaDocument, kept for text consumers
+  agendaDocument: agendaDocumentSchema.optional(),
   meetingLink: z.string().optional(),
+  recurrence: meetingRecurrenceSchema.optional(),
+  calendarId: z.string().optional(), // Google calendar to create the event in; defaults to the one remembered for the type
+  room: meetingRoomSchema.optional(), // booked room for physical meetings
   status: z.enum(['draft', 'pending_approval', 'approved', 'created']).default('draft'),
 });
 
@@ -341,6 +1181,7 @@ export const meetingFieldsSchema = z.object({
 // Types for conversational meeting scheduler
 export type ConversationMessage = z.infer<typeof conversationMessageSchema>;
 export type MeetingData = z.infer<typeof meetingDataSchema>;
+export type MeetingRecurrence = z.infer<typeof meetingRecurrenceSchema>;
 export type ConversationContextData = z.infer<typeof conversationContextDataSchema>;
 export type MeetingFields = z.infer<typeof meetingFieldsSchema>;
 export type AttendeeData = z.infer<typeof attendeeDataSchema>;
@@ -42,6 +42,10 @@ export default defineConfig({
         changeOrigin: true,
         secure: false,
       },
+      "/ws/collaborative": {
+        target: "ws://localhost:5000",
+        ws: true,
+      },
     },
   },
 });